@@ -15,7 +15,7 @@
 // @asset GuardLink.Parser (#parser) -- "Reads source files from disk, extracts security annotations using regex patterns"
 // @asset GuardLink.CLI (#cli) -- "Command-line interface, handles user arguments, invokes subcommands"
 // @asset GuardLink.TUI (#tui) -- "Interactive terminal interface with readline input and command dispatch"
-// @asset GuardLink.MCP (#mcp) -- "Model Context Protocol server, accepts tool calls from AI agents over stdio"
+// @asset GuardLink.MCP (#mcp) -- "Model Context Protocol server, accepts tool calls from AI agents over stdio or token-authenticated HTTP"
 // @asset GuardLink.LLM_Client (#llm-client) -- "Makes HTTP requests to external AI providers (Anthropic, OpenAI, DeepSeek, OpenRouter)"
 // @asset GuardLink.Dashboard (#dashboard) -- "Generates interactive HTML threat model dashboard from ThreatModel data"
 // @asset GuardLink.Init (#init) -- "Initializes projects, writes config files and agent instruction files to disk"
@@ -40,6 +40,7 @@
 // @threat Sensitive_Data_Exposure (#data-exposure) [medium] cwe:CWE-200 -- "Threat model details exposed to unauthorized parties"
 // @threat Insecure_Deserialization (#insecure-deser) [medium] cwe:CWE-502 -- "Unsafe parsing of JSON/YAML configuration files"
 // @threat Child_Process_Injection (#child-proc-injection) [high] cwe:CWE-78 -- "Agent launcher executing attacker-controlled commands via process spawn"
+// @threat Missing_Authentication (#missing-auth) [high] cwe:CWE-306 -- "A network listener acting on requests without authenticating the caller"
 // @threat Information_Disclosure (#info-disclosure) [low] cwe:CWE-200 -- "Unintended exposure of internal paths, structure, or implementation details"
 
 // ─── CONTROLS ─────────────────────────────────────────────────────────
@@ -56,6 +57,7 @@
 // @control Glob_Pattern_Filtering (#glob-filtering) -- "Filtering files using glob patterns with explicit excludes"
 // @control Regex_Anchoring (#regex-anchoring) -- "Using anchored regex patterns (^...$) to prevent backtracking"
 // @control Prefix_Ownership (#prefix-ownership) -- "Tag prefix determines owning repo, preventing cross-repo tag collisions"
+// @control Bearer_Token_Auth (#bearer-auth) -- "Shared-secret bearer token required on every request, compared in constant time"
 // @control YAML_Validation (#yaml-validation) -- "Schema validation for workspace.yaml configuration files"
 
 // ─── ACTORS ───────────────────────────────────────────────────────────
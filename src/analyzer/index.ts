@@ -2,7 +2,11 @@
  * GuardLink Analyzer — exports.
  *
  * @comment -- "SARIF generation is pure transformation; no I/O in this module"
- * @comment -- "File writes handled by CLI/MCP callers"
+ * @comment -- "Export file writes handled by CLI/MCP callers; an import is saved by saveScannerFindings under .guardlink/"
  */
 
 export { generateSarif, type SarifOptions } from './sarif.js';
+export {
+  parseSarif, matchScannerFindings, saveScannerFindings, loadScannerFindings, toolSlug, SCANNER_FINDINGS_DIR,
+  type ScannerFinding, type ScannerMatch, type ScannerFindingStatus, type ParsedSarif,
+} from './sarif-import.js';
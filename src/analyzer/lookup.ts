@@ -14,8 +14,14 @@
  *   - "actors" → declared principals (@actor) with the capabilities each is entitled to
  *   - "entitlements" / "entitlements for #actor" → @entitles claims, with citation and inert flag
  *   - "boundary #config" → boundaries involving asset
+ *   - "templates" / "applications of <template>" → @template definitions and their @apply sites
+ *   - "risk" / "risk for #api" → assets and exposures ranked by likelihood × impact (src/risk)
  *   - Free text → fuzzy match across assets, threats, controls
  *
+ * Answers `guardlink_lookup` over MCP and places imported scanner findings
+ * (sarif-import.ts), so it lives beside both rather than inside either: a
+ * `cwe:` ref resolves to the same threats whichever way it arrives.
+ *
  * @exposes #mcp to #redos [low] cwe:CWE-1333 -- "Regex patterns applied to query strings"
  * @mitigates #mcp against #redos using #regex-anchoring -- "Patterns are simple and bounded"
  * @flows QueryString -> #mcp via lookup -- "Query input path"
@@ -23,6 +29,7 @@
  */
 
 import { buildCoverageIndex, findUnmitigatedExposures } from '../parser/coverage.js';
+import { computeRisk, type ExposureRisk } from '../risk/index.js';
 import type {
   ThreatModel, ThreatModelAsset, ThreatModelThreat, ThreatModelControl,
   ThreatModelTransfer, ThreatModelAcceptance,
@@ -91,6 +98,9 @@ export const SUPPORTED_QUERY_FORMS = [
   'transfers [for <threat-or-asset>]',
   'comments [for <file-or-asset>]',
   'shields [for <file-or-asset>]',
+  'templates [for <file-or-asset>]',
+  'applications [of <template>]',
+  'risk [for <asset>]        (likelihood × impact score, with the factors behind it)',
   'cross-repo refs [for <repo-or-tag>]  (sibling-repo tags from workspace.yaml — NOT cwe:/owasp: — accepts `external refs` as an alias)',
   'cwe:CWE-89 | owasp:A03 | CWE-89  (external identifiers declared on threats — the scanner bridge)',
   '<id>            (bare identifier, fuzzy match across all categories)',
@@ -351,6 +361,41 @@ export function lookup(model: ThreatModel, query: string): LookupResult {
       s => ({ reason: s.reason }));
   }
 
+  // "templates" / "templates for <file-or-asset>"
+  const templatesQ = q.match(/^templates?(?:\s+(?:for|in|on)\s+(.+))?$/);
+  if (templatesQ) {
+    return lookupCoLocated(model, query, 'templates', model.templates || [], templatesQ[1]?.trim(), resolve,
+      t => ({ name: t.name, params: t.params, body: t.body.map(l => l.text) }));
+  }
+
+  // "applications" / "applications of <template>" — the @apply sites. What each
+  // expanded to is in the ordinary relations, marked with `location.template`.
+  const applicationsQ = q.match(/^applications?(?:\s+(?:of|for)\s+(\S+))?$/);
+  if (applicationsQ) {
+    const name = applicationsQ[1];
+    const results = (model.applications || [])
+      .filter(a => !name || a.template.toLowerCase() === name)
+      .map(a => ({ template: a.template, args: a.args, description: a.description, ...loc(a.location) }));
+    return { query, type: 'applications', count: results.length, results };
+  }
+
+  // "risk" / "risk for X" — scored, not stored: computed from the relations
+  // above by src/risk, so it ranks by exactly the coverage validate reports.
+  const riskQ = q.match(/^risks?(?:\s+(?:for|of|on)\s+(.+))?$/);
+  if (riskQ) {
+    const { assets, exposures } = computeRisk(model);
+    const project = (e: ExposureRisk) => ({
+      asset: e.asset, threat: e.threat, severity: e.severity, status: e.status,
+      score: e.score, level: e.level, likelihood: e.likelihood, impact: e.impact, factors: e.factors,
+      ...(e.cvss ? { cvss: e.cvss.vector } : {}), ...loc(e.location),
+    });
+    if (!riskQ[1]) {
+      const scored = assets.filter(a => a.exposures > 0);
+      return { query, type: 'risk_by_asset', count: scored.length, results: scored };
+    }
+    return lookupAssetRelation(model, query, 'risk', riskQ[1].trim(), resolve, exposures, e => e.asset, project);
+  }
+
   // "cross-repo refs [for <repo-or-tag>]" — sibling-repo tags, NOT cwe:/owasp:
   //
   // The bare "refs" alias is gone: a caller typing it while thinking of CWE
@@ -0,0 +1,331 @@
+/**
+ * GuardLink SARIF import — third-party scanner findings mapped onto the model.
+ *
+ * `sarif.ts` is the way out; this is the way in. Semgrep, CodeQL and Trivy all
+ * write SARIF 2.1.0, and each of their results says three things the model can
+ * answer for: where it is, what weakness class it is, and how bad the tool
+ * thinks it is. Each result is placed in two steps:
+ *
+ *   asset   the annotated asset nearest the result in the same file — any
+ *           annotation naming an asset counts, and on a tie the one above the
+ *           line wins, because annotations sit above the code they describe
+ *   threat  the threat whose `cwe:` or `cve:` refs name the result's weakness,
+ *           found through the same `cwe:CWE-89` lookup form a scanner would ask
+ *           over MCP, so the two bridges cannot disagree
+ *
+ * and then gets one of four answers: it lands on a mitigated exposure, an
+ * accepted one, an unmitigated one, or on no modelled threat at all. A finding
+ * whose weakness the model names but whose file carries no annotation is
+ * unmitigated — nothing in the model claims to cover it.
+ *
+ * The imported set is saved per tool under `.guardlink/scanner-findings/`, so
+ * a second Semgrep run replaces the first without touching CodeQL's. What is
+ * saved is the finding; its status is recomputed whenever it is read, so a
+ * mitigation added after the import shows up without importing again.
+ *
+ * Weakness ids are read from wherever the three tools put them: Semgrep's
+ * `CWE-89: …` rule tags, CodeQL's `external/cwe/cwe-089` tags, and Trivy's
+ * `CVE-…` rule ids.
+ *
+ * @exposes #sarif to #insecure-deser [medium] cwe:CWE-502 -- "JSON.parse of a SARIF file written by another tool"
+ * @mitigates #sarif against #insecure-deser using #config-validation -- "parseSarif checks the version and reads each field by type; a result without a file location is skipped, not guessed at"
+ * @exposes #sarif to #arbitrary-write [medium] cwe:CWE-73 -- "The SARIF tool name becomes a filename under .guardlink/scanner-findings/"
+ * @mitigates #sarif against #arbitrary-write using #path-validation -- "toolSlug keeps only [a-z0-9-], so a tool name cannot leave the directory"
+ * @flows ScannerSarif -> #sarif via parseSarif -- "Third-party scanner results"
+ * @flows #sarif -> ScannerFindings via saveScannerFindings -- "Imported set, one file per tool"
+ * @flows ScannerFindings -> #sarif via loadScannerFindings -- "Read back for the dashboard"
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { mkdir, writeFile } from 'node:fs/promises';
+import { isAbsolute, join, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import type { ThreatModel, Severity, SourceLocation } from '../types/index.js';
+import { buildCoverageIndex } from '../parser/coverage.js';
+import { canonicaliser } from '../parser/canonical-ref.js';
+import { severityFromCvss } from '../parser/cvss.js';
+import { lookup } from './lookup.js';
+
+export const SCANNER_FINDINGS_DIR = 'scanner-findings';
+
+/** One result from a scanner's SARIF, reduced to what the model can answer for. */
+export interface ScannerFinding {
+  /** `tool.driver.name` of the run the result came from. */
+  tool: string;
+  rule: string;
+  message: string;
+  /** Repo-relative, forward slashes. */
+  file: string;
+  line: number;
+  /** Weakness ids as the model writes them: `cwe:CWE-89`, `cve:CVE-2021-44228`. */
+  refs: string[];
+  level: 'error' | 'warning' | 'note' | 'none';
+  /** From the rule's `security-severity`, when the tool sets one. */
+  severity?: Severity;
+}
+
+export type ScannerFindingStatus = 'mitigated' | 'accepted' | 'unmitigated' | 'unmodelled';
+
+export interface ScannerMatch extends ScannerFinding {
+  status: ScannerFindingStatus;
+  /** The nearest annotated asset in the finding's file. */
+  asset?: string;
+  /** The modelled threat the finding's refs name. */
+  threat?: string;
+  /** The ref that linked finding and threat. */
+  matched_ref?: string;
+  /** The `@exposes` the finding lands on, when the model declares one for this asset. */
+  exposure?: { file: string; line: number };
+  /** A `@confirmed` already covers this asset and threat. */
+  confirmed?: boolean;
+}
+
+export interface ParsedSarif {
+  /** The tool of every run, in run order — including a run that reported nothing. */
+  tools: string[];
+  findings: ScannerFinding[];
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────
+
+/**
+ * Read a SARIF 2.1.0 log into findings. `root` is the project directory: an
+ * absolute or `file://` location is made relative to it.
+ *
+ * Throws on input that is not a SARIF 2.1.0 log. Results are read leniently —
+ * one without a file location cannot be placed, and is skipped.
+ */
+export function parseSarif(raw: string, root: string, where = 'SARIF input'): ParsedSarif {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`${where} is not valid JSON: ${(err as Error).message}`);
+  }
+  if (!data || typeof data !== 'object' || !Array.isArray(data.runs)) {
+    throw new Error(`${where}: expected a SARIF log with a runs array`);
+  }
+  if (data.version !== '2.1.0') {
+    throw new Error(`${where}: SARIF version ${JSON.stringify(data.version)} — only 2.1.0 is supported`);
+  }
+
+  const tools: string[] = [];
+  const findings: ScannerFinding[] = [];
+  for (const run of data.runs) {
+    const driver = run?.tool?.driver;
+    const tool = typeof driver?.name === 'string' && driver.name.trim() ? driver.name.trim() : 'unknown';
+    if (!tools.includes(tool)) tools.push(tool);
+
+    // CodeQL puts its rules on an extension (the query pack), not the driver.
+    const rules = new Map<string, any>();
+    const components = [driver, ...(Array.isArray(run?.tool?.extensions) ? run.tool.extensions : [])];
+    for (const component of components) {
+      for (const rule of Array.isArray(component?.rules) ? component.rules : []) {
+        if (typeof rule?.id === 'string' && !rules.has(rule.id)) rules.set(rule.id, rule);
+      }
+    }
+    const bases: Record<string, string> = {};
+    for (const [name, base] of Object.entries(run?.originalUriBaseIds ?? {})) {
+      if (typeof (base as any)?.uri === 'string') bases[name] = (base as any).uri;
+    }
+
+    for (const result of Array.isArray(run?.results) ? run.results : []) {
+      const ruleId = typeof result?.ruleId === 'string' ? result.ruleId
+        : typeof result?.rule?.id === 'string' ? result.rule.id : '';
+      const rule = rules.get(ruleId) ?? ruleAt(components, result);
+
+      const physical = result?.locations?.[0]?.physicalLocation;
+      const uri = physical?.artifactLocation?.uri;
+      if (typeof uri !== 'string' || !uri) continue;
+      const file = repoPath(uri, bases[physical.artifactLocation.uriBaseId], root);
+      const line = Number.isInteger(physical?.region?.startLine) ? physical.region.startLine : 1;
+
+      const severity = severityFromCvss(parseFloat(
+        result?.properties?.['security-severity'] ?? rule?.properties?.['security-severity']));
+      const level = result?.level ?? rule?.defaultConfiguration?.level ?? 'warning';
+
+      findings.push({
+        tool,
+        rule: ruleId || '(no rule id)',
+        message: typeof result?.message?.text === 'string' ? result.message.text : '',
+        file,
+        line,
+        refs: weaknessRefs(ruleId, rule, result),
+        level: ['error', 'warning', 'note', 'none'].includes(level) ? level : 'warning',
+        ...(severity ? { severity } : {}),
+      });
+    }
+  }
+  return { tools, findings };
+}
+
+function ruleAt(components: any[], result: any): any {
+  const index = result?.ruleIndex ?? result?.rule?.index;
+  if (!Number.isInteger(index)) return undefined;
+  const component = components[(result?.rule?.toolComponent?.index ?? -1) + 1];
+  return Array.isArray(component?.rules) ? component.rules[index] : undefined;
+}
+
+/** An artifact URI as a repo-relative path with forward slashes. */
+function repoPath(uri: string, base: string | undefined, root: string): string {
+  let path = uri;
+  try {
+    if (base && !/^[a-z][a-z0-9+.-]*:/i.test(uri)) path = new URL(uri, base).href;
+    path = path.startsWith('file:') ? fileURLToPath(path) : decodeURIComponent(path);
+  } catch { /* left as written */ }
+  if (isAbsolute(path)) path = relative(root, path);
+  return path.split(sep).join('/').replace(/^\.\//, '');
+}
+
+const CWE_RE = /cwe[-_/: ]?0*(\d+)/gi;
+const CVE_RE = /\bcve-\d{4}-\d{4,}\b/gi;
+
+/** Every CWE and CVE id the rule or result names, in the model's `scheme:ID` form. */
+function weaknessRefs(ruleId: string, rule: any, result: any): string[] {
+  const texts = [ruleId];
+  for (const props of [rule?.properties, result?.properties]) {
+    for (const field of ['tags', 'cwe']) {
+      const value = props?.[field];
+      for (const v of Array.isArray(value) ? value : [value]) if (typeof v === 'string') texts.push(v);
+    }
+  }
+  const refs = new Set<string>();
+  for (const text of texts) {
+    for (const m of text.matchAll(CWE_RE)) refs.add(`cwe:CWE-${m[1]}`);
+    for (const m of text.matchAll(CVE_RE)) refs.add(`cve:${m[0].toUpperCase()}`);
+  }
+  return [...refs];
+}
+
+// ─── Matching ────────────────────────────────────────────────────────
+
+/** Place each finding on the model. Pure; call it again whenever the model changes. */
+export function matchScannerFindings(model: ThreatModel, findings: ScannerFinding[]): ScannerMatch[] {
+  const key = canonicaliser(model);
+  const coverage = buildCoverageIndex(model);
+
+  // Every annotation that names an asset, by file, as a candidate for "nearest".
+  const anchors = new Map<string, { asset: string; line: number }[]>();
+  const anchor = (asset: string | undefined, location: SourceLocation) => {
+    if (!asset) return;
+    if (!anchors.has(location.file)) anchors.set(location.file, []);
+    anchors.get(location.file)!.push({ asset, line: location.line });
+  };
+  for (const a of model.assets) anchor(a.id ? `#${a.id}` : a.path.join('.'), a.location);
+  for (const rows of [model.exposures, model.mitigations, model.acceptances, model.confirmed,
+    model.data_handling, model.audits, model.ownership, model.validations]) {
+    for (const r of rows ?? []) anchor((r as { asset?: string }).asset, r.location);
+  }
+
+  const bridge = new Map<string, ReturnType<typeof lookup>>();
+  const ask = (ref: string) => {
+    if (!bridge.has(ref)) bridge.set(ref, lookup(model, ref));
+    return bridge.get(ref)!;
+  };
+
+  return findings.map(f => {
+    const finding: ScannerFinding = {
+      tool: f.tool, rule: f.rule, message: f.message, file: f.file, line: f.line,
+      refs: f.refs, level: f.level, ...(f.severity ? { severity: f.severity } : {}),
+    };
+    const asset = nearest(anchors.get(f.file) ?? [], f.line)?.asset;
+
+    for (const ref of f.refs) {
+      const answer = ask(ref);
+      const declared = answer.external_id?.threats ?? [];
+      if (declared.length === 0 && answer.count === 0) continue;
+
+      const sites = answer.results.filter(s => asset && key(s.asset) === key(asset));
+      const site = nearest(sites.filter(s => s.file === f.file), f.line) ?? sites[0];
+      if (site) {
+        return {
+          ...finding, asset, threat: site.threat, matched_ref: ref,
+          status: site.mitigated ? 'mitigated' : site.accepted ? 'accepted' : 'unmitigated',
+          exposure: { file: site.file, line: site.line },
+          ...(site.confirmed ? { confirmed: true } : {}),
+        } satisfies ScannerMatch;
+      }
+
+      // The threat is modelled but not exposed on this asset. A mitigation or
+      // acceptance can still cover the pair, so ask the coverage index for the
+      // finding's own site rather than calling it unmitigated outright.
+      const threat = declared[0] ? (declared[0].id ? `#${declared[0].id}` : declared[0].name) : answer.results[0].threat;
+      const at = { asset: asset ?? '', threat, location: { file: f.file, line: f.line } };
+      const status = !asset ? 'unmitigated' : coverage.isMitigated(at) ? 'mitigated' : coverage.isAccepted(at) ? 'accepted' : 'unmitigated';
+      return { ...finding, ...(asset ? { asset } : {}), threat, matched_ref: ref, status } satisfies ScannerMatch;
+    }
+
+    return { ...finding, ...(asset ? { asset } : {}), status: 'unmodelled' } satisfies ScannerMatch;
+  });
+}
+
+/** The closest anchor to `line`; on a tie, the one above it. */
+function nearest<T extends { line: number }>(candidates: T[], line: number): T | undefined {
+  let best: T | undefined;
+  for (const c of candidates) {
+    if (!best) { best = c; continue; }
+    const d = Math.abs(c.line - line);
+    const bestD = Math.abs(best.line - line);
+    if (d < bestD || (d === bestD && c.line < best.line)) best = c;
+  }
+  return best;
+}
+
+// ─── Persistence ─────────────────────────────────────────────────────
+
+interface ScannerFindingsFile {
+  version: '1';
+  tool: string;
+  findings: ScannerMatch[];
+}
+
+/** A tool name reduced to something safe to use as a filename. */
+export function toolSlug(tool: string): string {
+  return tool.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'scanner';
+}
+
+/**
+ * Save an import, one file per tool. Each tool's file is replaced whole, so
+ * re-importing a scan drops the findings it no longer reports. Pass the
+ * `tools` parseSarif read: a tool whose run came back clean has no match to
+ * name it, and still gets its file — emptied — rather than keeping the last
+ * scan's findings. Returns the repo-relative paths written.
+ */
+export async function saveScannerFindings(root: string, matches: ScannerMatch[], tools: string[] = []): Promise<string[]> {
+  const dir = join(root, '.guardlink', SCANNER_FINDINGS_DIR);
+  await mkdir(dir, { recursive: true });
+  const byTool = new Map<string, ScannerMatch[]>(tools.map(t => [t, []]));
+  for (const m of matches) {
+    if (!byTool.has(m.tool)) byTool.set(m.tool, []);
+    byTool.get(m.tool)!.push(m);
+  }
+  const written: string[] = [];
+  for (const [tool, findings] of byTool) {
+    const file = `${toolSlug(tool)}.json`;
+    const body: ScannerFindingsFile = { version: '1', tool, findings };
+    await writeFile(join(dir, file), `${JSON.stringify(body, null, 2)}\n`, 'utf-8');
+    written.push(['.guardlink', SCANNER_FINDINGS_DIR, file].join('/'));
+  }
+  return written;
+}
+
+/**
+ * Every saved finding, across tools. Read synchronously, as the dashboard
+ * renders synchronously; a file that does not parse is skipped.
+ */
+export function loadScannerFindings(root: string): ScannerFinding[] {
+  const dir = join(root, '.guardlink', SCANNER_FINDINGS_DIR);
+  if (!existsSync(dir)) return [];
+  const findings: ScannerFinding[] = [];
+  for (const name of readdirSync(dir).filter(n => n.endsWith('.json')).sort()) {
+    try {
+      const data = JSON.parse(readFileSync(join(dir, name), 'utf-8')) as ScannerFindingsFile;
+      if (!Array.isArray(data?.findings)) continue;
+      for (const f of data.findings) {
+        if (typeof f?.file === 'string' && typeof f?.line === 'number' && Array.isArray(f?.refs)) findings.push(f);
+      }
+    } catch { /* skip malformed JSON */ }
+  }
+  return findings;
+}
@@ -25,6 +25,7 @@
  * @audit #sarif -- "SARIF output intentionally reveals security findings for CI/CD integration"
  * @comment -- "Pure function: transforms ThreatModel to SARIF JSON; no I/O"
  * @comment -- "@entitles has no export semantics by design: SARIF for a model with entitlements is byte-identical to one without, so an entitlement can never hide an exposure from the pentest export (actor-entitlement design §3.2)"
+ * @comment -- "Exposure and confirmed results with a cvss: vector carry it and its score as properties.security-severity (a decimal string, as code scanning expects)"
  * @comment -- "Exposure and confirmed results carry codegraph_reachability{http_method,http_path} derived from the asset's inbound @flows route so downstream HTTP consumers (e.g. cert-x-gen) can target the endpoint; emitted verbatim from the annotation, no base path assumed"
  * @flows ThreatModel -> #sarif via generateSarif -- "Model input"
  * @flows #sarif -> SarifLog via return -- "SARIF output"
@@ -32,7 +33,7 @@
 
 import { createHash } from 'node:crypto';
 
-import type { ThreatModel, ParseDiagnostic, Severity } from '../types/index.js';
+import type { ThreatModel, ParseDiagnostic, Severity, CvssScore } from '../types/index.js';
 import { buildCoverageIndex } from '../parser/coverage.js';
 import { getPackageVersion } from '../version.js';
 
@@ -182,6 +183,12 @@ export function generateSarif(
     return route ? { codegraph_reachability: { http_method: route.method, http_path: route.path } } : {};
   };
 
+  // A CVSS vector is the finding's own score, so it rides on the result: the
+  // `security-severity` property code-scanning UIs rank by, and the vector that
+  // produced it.
+  const cvssProperties = (cvss: CvssScore | undefined) =>
+    cvss ? { 'security-severity': cvss.score.toFixed(1), cvss: cvss.vector } : {};
+
   for (const e of model.exposures) {
     if (coverage.isCovered(e)) continue;
 
@@ -210,6 +217,7 @@ export function generateSarif(
         asset: e.asset,
         threat: e.threat,
         ...(e.external_refs.length > 0 ? { externalRefs: e.external_refs } : {}),
+        ...cvssProperties(e.cvss),
         ...reachabilityFor(e.asset, e.location.file),
       },
     });
@@ -235,6 +243,7 @@ export function generateSarif(
         asset: c.asset,
         threat: c.threat,
         ...(c.external_refs.length > 0 ? { externalRefs: c.external_refs } : {}),
+        ...cvssProperties(c.cvss),
         ...reachabilityFor(c.asset, c.location.file),
       },
     });
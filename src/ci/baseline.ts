@@ -0,0 +1,167 @@
+/**
+ * GuardLink — CI baseline: the gaps a repo already had, so `ci` fails only on new ones.
+ *
+ * A legacy repo annotated for the first time has hundreds of unmitigated
+ * exposures, and `--strict` fails on every one of them. The baseline records
+ * what was there when the team decided to start gating, and `runCiChecks`
+ * subtracts it: an exposure or a drifted anchor already in the file is
+ * reported as baselined, anything else as new.
+ *
+ * ── Identity ────────────────────────────────────────────────────────
+ *
+ * An exposure is recorded by `threatId` — the same id SARIF results carry —
+ * which hashes (asset, threat, file) and not the line, so code moving inside a
+ * file does not turn a known gap into a new one. A drifted anchor is recorded
+ * by (sidecar, file, symbol), for the same reason. Moving an exposure to
+ * another file does make it new: it is a different place, and somebody should
+ * look at it.
+ *
+ * Two exposures with the same (asset, threat, file) share an id, so the
+ * baseline counts them. With two recorded and three present, one is new —
+ * the last in model order, as there is nothing to tell them apart.
+ *
+ * ── What it does not cover ──────────────────────────────────────────
+ *
+ * Expired acceptances are never baselined. An `until:` date is already a
+ * decision about when to look again; a baseline that silenced it would undo
+ * the one thing the date is for.
+ *
+ * @exposes #cli to #insecure-deser [low] cwe:CWE-502 -- "JSON.parse of a baseline file from the repository"
+ * @mitigates #cli against #insecure-deser using #config-validation -- "parseBaseline checks the schema id and each entry's id before use; a malformed baseline is an error, not an empty one"
+ * @flows Baseline -> #cli via loadBaseline -- "Recorded gaps read for ci --baseline"
+ * @flows #cli -> Baseline via saveBaseline -- "guardlink baseline update"
+ * @comment -- "Entries are sorted and carry no timestamp, so re-running baseline update on an unchanged repo leaves the file byte-identical"
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import type { ThreatModelExposure, Severity } from '../types/index.js';
+import type { AnchorDrift } from '../parser/reanchor.js';
+import { threatId } from '../analyzer/sarif.js';
+
+export const BASELINE_SCHEMA = 'guardlink.baseline/v1';
+
+/** Where `guardlink baseline update` writes when not told otherwise. */
+export const DEFAULT_BASELINE_PATH = '.guardlink/baseline.json';
+
+export interface BaselineExposure {
+  /** `threatId(asset, threat, file)`. */
+  id: string;
+  asset: string;
+  threat: string;
+  file: string;
+  severity?: Severity;
+}
+
+export interface BaselineDrift {
+  /** `driftId(drift)`. */
+  id: string;
+  gal_file: string;
+  file: string;
+  symbol: string;
+}
+
+export interface Baseline {
+  schema: typeof BASELINE_SCHEMA;
+  exposures: BaselineExposure[];
+  drift: BaselineDrift[];
+}
+
+/** The line-independent identity of a drifted anchor. */
+export function driftId(d: Pick<AnchorDrift, 'gal_file' | 'file' | 'symbol'>): string {
+  const hash = createHash('sha256').update(`${d.gal_file}|${d.file}|${d.symbol}`).digest('hex').slice(0, 12);
+  return `gl-drift-${hash}`;
+}
+
+const exposureId = (e: ThreatModelExposure) => threatId(e.asset, e.threat, e.location.file);
+
+/** Record these exposures and this drift as known. */
+export function createBaseline(exposures: ThreatModelExposure[], drift: AnchorDrift[]): Baseline {
+  return {
+    schema: BASELINE_SCHEMA,
+    exposures: exposures
+      .map(e => ({
+        id: exposureId(e), asset: e.asset, threat: e.threat, file: e.location.file,
+        ...(e.severity ? { severity: e.severity } : {}),
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id) || (a.severity ?? '').localeCompare(b.severity ?? '')),
+    drift: drift
+      .map(d => ({ id: driftId(d), gal_file: d.gal_file, file: d.file, symbol: d.symbol }))
+      .sort((a, b) => a.id.localeCompare(b.id)),
+  };
+}
+
+/**
+ * Split current findings into those the baseline already records and those it
+ * does not, consuming one recorded entry per match. `resolved` counts recorded
+ * entries nothing matched — gaps closed since the baseline was written.
+ */
+export function partitionByBaseline<T>(
+  current: T[],
+  recorded: { id: string }[],
+  idOf: (item: T) => string,
+): { known: T[]; fresh: T[]; resolved: number } {
+  const remaining = new Map<string, number>();
+  for (const r of recorded) remaining.set(r.id, (remaining.get(r.id) ?? 0) + 1);
+  const known: T[] = [];
+  const fresh: T[] = [];
+  for (const item of current) {
+    const id = idOf(item);
+    const left = remaining.get(id) ?? 0;
+    if (left > 0) {
+      remaining.set(id, left - 1);
+      known.push(item);
+    } else {
+      fresh.push(item);
+    }
+  }
+  let resolved = 0;
+  for (const left of remaining.values()) resolved += left;
+  return { known, fresh, resolved };
+}
+
+export function splitExposures(exposures: ThreatModelExposure[], baseline: Baseline) {
+  return partitionByBaseline(exposures, baseline.exposures, exposureId);
+}
+
+export function splitDrift(drift: AnchorDrift[], baseline: Baseline) {
+  return partitionByBaseline(drift, baseline.drift, driftId);
+}
+
+export function parseBaseline(raw: string, where: string): Baseline {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (err) {
+    throw new Error(`${where} is not valid JSON: ${(err as Error).message}`);
+  }
+  const obj = data as Partial<Baseline> | null;
+  if (!obj || typeof obj !== 'object' || obj.schema !== BASELINE_SCHEMA) {
+    throw new Error(`${where}: expected a ${BASELINE_SCHEMA} baseline — run \`guardlink baseline update\` to write one`);
+  }
+  for (const field of ['exposures', 'drift'] as const) {
+    const entries = obj[field];
+    if (!Array.isArray(entries) || entries.some(e => typeof e?.id !== 'string')) {
+      throw new Error(`${where}: "${field}" must be an array of entries with a string id`);
+    }
+  }
+  return obj as Baseline;
+}
+
+/** Read a baseline. A missing file is an error: CI asked for one, and reading it as empty would report every known gap as new. */
+export async function loadBaseline(path: string): Promise<Baseline> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch {
+    throw new Error(`No baseline at ${path} — run \`guardlink baseline update\` to write one`);
+  }
+  return parseBaseline(raw, path);
+}
+
+export async function saveBaseline(path: string, baseline: Baseline): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+}
@@ -0,0 +1,277 @@
+/**
+ * GuardLink CI — `--format junit` and `--format codeclimate` for `validate` and `ci`.
+ *
+ * Jenkins and GitLab render both natively: a JUnit report as a test summary, a
+ * Code Climate report as GitLab's Code Quality widget. Neither command detects
+ * anything new for them. `validate` hands over the diagnostics and unmitigated
+ * exposures it already printed; `ci` hands over its `CiReport`. Each item
+ * becomes one finding:
+ *
+ *   ParseDiagnostic        → checked as its `DiagnosticCode`, `diagnostic` when it has none
+ *   unmitigated exposure   → `unmitigated-exposure`
+ *   AnchorDrift            → `anchor-drift/<kind>`
+ *   expired @accepts       → `expired-acceptance`
+ *   failed policy rule     → `policy/<rule id>`
+ *   missed symbol floor    → `symbol-coverage`
+ *   artifact drift         → `artifact/<kind>`
+ *
+ * In JUnit every finding is a failed test case, advisory or not: Jenkins marks
+ * a build with failed tests unstable, not failed, and the exit code stays the
+ * gate. A check that found nothing is one passing test case, so the report
+ * shows what ran. Code Climate is a list of places in the code, so the one
+ * finding without a file — the symbol coverage floor — is left out of it.
+ *
+ * @comment -- "Pure formatting; no I/O. Fingerprints leave the line out — an exposure's is the SARIF threatId, drift's the baseline driftId — so a report matches an issue across pushes that only move it"
+ */
+
+import { createHash } from 'node:crypto';
+
+import type { ParseDiagnostic, ThreatModelExposure } from '../types/index.js';
+import type { DriftFinding } from '../artifacts/emit.js';
+import { threatId } from '../analyzer/sarif.js';
+import { driftId } from './baseline.js';
+import type { CiReport } from './index.js';
+
+export type CiFindingKind =
+  | 'diagnostic' | 'unmitigated-exposure' | 'anchor-drift' | 'expired-acceptance'
+  | 'policy' | 'symbol-coverage' | 'artifact';
+
+/** Code Climate's severities, which GitLab also reads. */
+export type CodeClimateSeverity = 'info' | 'minor' | 'major' | 'critical' | 'blocker';
+
+export interface CiFinding {
+  kind: CiFindingKind;
+  /** What a report groups by: the diagnostic code, `anchor-drift/moved`, `policy/max-critical`… */
+  check: string;
+  /** Relative to the project root. Unset only for the symbol coverage floor. */
+  file?: string;
+  line?: number;
+  severity: CodeClimateSeverity;
+  title: string;
+  message: string;
+  /** Line-independent, and unique within one report. */
+  fingerprint: string;
+}
+
+/** One issue of a Code Climate report. */
+export interface CodeClimateIssue {
+  type: 'issue';
+  check_name: string;
+  description: string;
+  content: { body: string };
+  categories: ['Security'];
+  location: { path: string; lines: { begin: number } };
+  severity: CodeClimateSeverity;
+  fingerprint: string;
+}
+
+/** JUnit test suites, in this order, with the test case that stands for "nothing found". */
+const SUITES: Record<CiFindingKind, { name: string; none: string }> = {
+  'diagnostic': { name: 'Annotation diagnostics', none: 'No annotation errors or warnings' },
+  'unmitigated-exposure': { name: 'Unmitigated exposures', none: 'No unmitigated exposures' },
+  'anchor-drift': { name: 'Anchor drift', none: 'No drifted @source anchors' },
+  'expired-acceptance': { name: 'Expired acceptances', none: 'No expired risk acceptances' },
+  'policy': { name: 'Policy rules', none: 'Every policy rule holds' },
+  'symbol-coverage': { name: 'Symbol coverage', none: 'Symbol coverage meets the floor' },
+  'artifact': { name: 'Artifacts', none: 'Artifacts are current' },
+};
+
+/**
+ * What `guardlink validate` reports: every diagnostic, every unmitigated
+ * exposure and, with `--artifacts`, every artifact issue.
+ */
+export function validateFindings(
+  diagnostics: ParseDiagnostic[],
+  unmitigated: ThreatModelExposure[],
+  artifacts: DriftFinding[] = [],
+): CiFinding[] {
+  const out: CiFinding[] = [];
+  for (const d of diagnostics) {
+    out.push({
+      kind: 'diagnostic',
+      check: d.code ?? 'diagnostic',
+      file: d.file,
+      line: d.line,
+      severity: d.level === 'fatal' ? 'blocker' : d.level === 'error' ? 'major' : 'minor',
+      title: `${d.level === 'warning' ? 'Warning' : 'Error'}${d.code ? ` (${d.code})` : ''}`,
+      message: d.message + (d.raw ? `\n${d.raw}` : ''),
+      fingerprint: fingerprint('diagnostic', `${d.code ?? ''}|${d.file}|${d.raw ?? d.message}`),
+    });
+  }
+  out.push(...unmitigated.map(exposureFinding));
+  for (const a of artifacts) {
+    out.push({
+      kind: 'artifact',
+      check: `artifact/${a.kind}`,
+      file: a.path,
+      line: 1,
+      severity: 'minor',
+      title: a.kind === 'missing' ? 'Artifact not emitted' : a.kind === 'unheadered' ? 'Artifact has no provenance header' : 'Artifact is stale',
+      message: `${a.path} does not match the model. Regenerate it with \`guardlink artifacts\`.`,
+      fingerprint: fingerprint('artifact', `${a.kind}|${a.path}`),
+    });
+  }
+  return unique(out);
+}
+
+/**
+ * What `guardlink ci` reports — what its text output lists. With a baseline
+ * that is only what the baseline does not record.
+ */
+export function ciFindings(report: CiReport): CiFinding[] {
+  const out: CiFinding[] = (report.baseline?.new_exposures ?? report.exposures).map(exposureFinding);
+
+  for (const d of report.baseline?.new_drift ?? report.drift) {
+    out.push({
+      kind: 'anchor-drift',
+      check: `anchor-drift/${d.kind}`,
+      file: d.gal_file,
+      line: 1,
+      severity: 'minor',
+      title: `Drifted @source anchor: ${d.symbol} (${d.kind})`,
+      message: d.message,
+      fingerprint: fingerprint('anchor-drift', driftId(d)),
+    });
+  }
+
+  for (const a of report.expired_acceptances) {
+    out.push({
+      kind: 'expired-acceptance',
+      check: 'expired-acceptance',
+      file: a.location.file,
+      line: a.location.line,
+      severity: 'minor',
+      title: `Expired acceptance: ${a.threat} on ${a.asset}`,
+      message: `The acceptance of ${a.threat} on ${a.asset} lapsed on ${a.until}${a.by ? `; review by ${a.by}` : ''}.`,
+      fingerprint: fingerprint('expired-acceptance', `${a.asset}|${a.threat}|${a.location.file}`),
+    });
+  }
+
+  for (const r of report.policy ?? []) {
+    if (r.passed) continue;
+    out.push({
+      kind: 'policy',
+      check: `policy/${r.id}`,
+      file: report.summary.policy!.source,
+      line: 1,
+      severity: r.level === 'fail' ? 'major' : 'minor',
+      title: `Policy rule ${r.level === 'fail' ? 'failed' : 'warned'}: ${r.id}`,
+      message: r.detail,
+      fingerprint: fingerprint('policy', r.id),
+    });
+  }
+
+  const floor = report.summary.symbol_coverage;
+  if (floor && !floor.passed) {
+    out.push({
+      kind: 'symbol-coverage',
+      check: 'symbol-coverage',
+      severity: 'major',
+      title: `Symbol coverage below the ${floor.floor}% floor`,
+      message: floor.total === null
+        ? 'Not measured: no file is in a language the symbol index reads.'
+        : `${floor.covered}/${floor.total} security-relevant symbols annotated (${floor.percent}%).`,
+      fingerprint: fingerprint('symbol-coverage', 'floor'),
+    });
+  }
+
+  return unique(out);
+}
+
+/**
+ * A JUnit XML report: one test suite per check in `checks`, one failed test
+ * case per finding. `name` names the report — `guardlink validate`.
+ */
+export function toJUnit(findings: CiFinding[], opts: { name: string; checks: readonly CiFindingKind[] }): string {
+  const kinds = (Object.keys(SUITES) as CiFindingKind[])
+    .filter(k => opts.checks.includes(k) || findings.some(f => f.kind === k));
+  const suites = kinds.map(kind => {
+    const found = findings.filter(f => f.kind === kind);
+    const cases = found.length === 0
+      ? [`    <testcase classname="guardlink.${kind}" name="${xml(SUITES[kind].none)}"/>`]
+      : found.map(f => [
+        `    <testcase classname="guardlink.${xml(f.check)}" name="${xml(caseName(f))}"${f.file ? ` file="${xml(f.file)}"` : ''}>`,
+        `      <failure type="${xml(f.check)}" message="${xml(f.title)}">${xml(`${f.message}${f.file ? `\nat ${f.file}:${f.line ?? 1}` : ''}`)}</failure>`,
+        '    </testcase>',
+      ].join('\n'));
+    return [
+      `  <testsuite name="${xml(SUITES[kind].name)}" tests="${cases.length}" failures="${found.length}" errors="0" skipped="0">`,
+      ...cases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+  const tests = kinds.reduce((n, k) => n + Math.max(1, findings.filter(f => f.kind === k).length), 0);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${xml(opts.name)}" tests="${tests}" failures="${findings.length}" errors="0">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
+
+/** A Code Climate report — GitLab's `artifacts:reports:codequality` file. */
+export function toCodeClimate(findings: CiFinding[]): CodeClimateIssue[] {
+  return findings.filter(f => f.file !== undefined).map(f => ({
+    type: 'issue',
+    check_name: f.check,
+    description: f.title,
+    content: { body: f.message },
+    categories: ['Security'],
+    location: { path: f.file!, lines: { begin: f.line ?? 1 } },
+    severity: f.severity,
+    fingerprint: f.fingerprint,
+  }));
+}
+
+function exposureFinding(e: ThreatModelExposure): CiFinding {
+  return {
+    kind: 'unmitigated-exposure',
+    check: 'unmitigated-exposure',
+    file: e.location.file,
+    line: e.location.line,
+    severity: exposureSeverity(e),
+    title: `Unmitigated exposure: ${e.asset} → ${e.threat}`,
+    message: `${e.asset} is exposed to ${e.threat}${e.severity ? ` [${e.severity}]` : ''} and nothing mitigates or accepts it.`
+      + (e.description ? ` "${e.description}"` : ''),
+    fingerprint: fingerprint('unmitigated-exposure', threatId(e.asset, e.threat, e.location.file)),
+  };
+}
+
+function exposureSeverity(e: ThreatModelExposure): CodeClimateSeverity {
+  switch (e.severity) {
+    case 'critical': return 'critical';
+    case 'high': return 'major';
+    case 'low': return 'info';
+    default: return 'minor';
+  }
+}
+
+const fingerprint = (kind: CiFindingKind, basis: string) =>
+  createHash('sha256').update(`${kind}|${basis}`).digest('hex').slice(0, 32);
+
+/**
+ * Suffix repeats — the same dangling ref twice in a file, say — so each
+ * fingerprint names one issue. Repeats are numbered in file order, which is
+ * stable for as long as the findings keep their relative order.
+ */
+function unique(findings: CiFinding[]): CiFinding[] {
+  const seen = new Map<string, number>();
+  return findings.map(f => {
+    const n = seen.get(f.fingerprint) ?? 0;
+    seen.set(f.fingerprint, n + 1);
+    return n === 0 ? f : { ...f, fingerprint: createHash('sha256').update(`${f.fingerprint}|${n}`).digest('hex').slice(0, 32) };
+  });
+}
+
+/** Test case names leave the line out, so a test's history survives an edit above it. */
+const caseName = (f: CiFinding) => f.file ? `${f.file}: ${f.title}` : f.title;
+
+const xml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // eslint-disable-next-line no-control-regex
+  .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
@@ -7,19 +7,33 @@
  *
  *   unmitigated exposures → `findUnmitigatedExposures` (parser/coverage.ts, D36)
  *   drifted `@source`     → `findAnchorDrift`         (parser/reanchor.ts, GL-505)
+ *   expired `@accepts`    → `expiredAcceptances`      (parser/validate.ts)
+ *
+ * `--baseline` subtracts the gaps a repo already had (ci/baseline.ts). It never
+ * decides whether something is a gap — only whether it is a known one. A policy
+ * (ci/policy.ts) sets thresholds over the same findings, and over coverage and
+ * the governance checks `validate` already runs; it counts, it does not detect.
  *
  * A second copy of either predicate would be a tool that disagrees with
  * `validate` about the same model, which is the defect D36 was written to end.
  *
  * ── Advisory, not blocking ──────────────────────────────────────────
  *
- * The default exit code is 0 with exposures present, with drift present, and
- * with both. That is deliberate: a first-run repo has unmitigated exposures by
+ * The default exit code is 0 with exposures present, with drift present, with
+ * expired acceptances, and with all three. That is deliberate: a first-run repo has unmitigated exposures by
  * construction — annotating a risk before its control exists is the intended
  * order of work — and a gate that fails the build on the day the annotations
  * land is a gate that gets deleted the same week. `--strict` is the opt-in for
  * teams who have reached zero and want to stay there.
  *
+ * The exceptions are `--min-symbol-coverage`, `--baseline` and a policy's
+ * `fail` rules, which fail the build whether or not `--strict` is set. A floor
+ * is only ever there because someone chose a number, a baseline because someone
+ * recorded one and a rule because someone wrote it, so each is already the
+ * opt-in; making any of them advisory would make it a file nobody acts on. A baseline fails on new exposures and new drift only. A model with no measurable symbols — no file had a
+ * grammar — fails a floor rather than passing it: an unmeasured repo has not
+ * met anything.
+ *
  * ── Reports, never repairs ──────────────────────────────────────────
  *
  * Read-only. `applyReanchor` is deliberately not called from here: rewriting an
@@ -28,20 +42,36 @@
  *
  * @flows ThreatModel -> #cli via runCiChecks -- "Parsed model checked for uncovered exposures"
  * @flows SourceFiles -> #cli via findAnchorDrift -- "Recorded anchors compared against current source"
- * @comment -- "Exit code is a pure function of (strict, exposures, drift) and lives in the summary, so JSON consumers see the same verdict the shell got"
+ * @comment -- "Exit code is a pure function of (strict, exposures, drift, expired acceptances, symbol floor, baseline, policy) and lives in the summary, so JSON consumers see the same verdict the shell got"
  * @comment -- "Exposures and drift are serialized as the types the parser already produces — no renamed fields, so guardlink.ci/v1 cannot drift from the model it reports"
  */
 
-import type { ThreatModel, ThreatModelExposure, Severity } from '../types/index.js';
+import type { ThreatModel, ThreatModelExposure, ThreatModelAcceptance, Severity } from '../types/index.js';
 import { findUnmitigatedExposures } from '../parser/coverage.js';
+import { expiredAcceptances } from '../parser/validate.js';
 import { findAnchorDrift, type AnchorDrift } from '../parser/reanchor.js';
 import { countAnchors } from '../parser/annotation-hash.js';
+import { splitExposures, splitDrift, type Baseline } from './baseline.js';
+import { checkSymbolCoverage, evaluatePolicy, type Policy, type PolicyRuleResult, type SymbolCoverageCheck } from './policy.js';
+
+export {
+  createBaseline, loadBaseline, saveBaseline, parseBaseline, driftId, BASELINE_SCHEMA, DEFAULT_BASELINE_PATH,
+  type Baseline, type BaselineExposure, type BaselineDrift,
+} from './baseline.js';
+export {
+  parsePolicy, loadPolicy, evaluatePolicy, DEFAULT_POLICY_PATH, POLICY_CHECKS,
+  type Policy, type PolicyRule, type PolicyRuleResult, type PolicyCheck, type PolicyLevel, type SymbolCoverageCheck,
+} from './policy.js';
+export {
+  validateFindings, ciFindings, toJUnit, toCodeClimate,
+  type CiFinding, type CiFindingKind, type CodeClimateIssue, type CodeClimateSeverity,
+} from './formats.js';
 
 /** Schema identifier carried by every `--format json` payload. */
 export const CI_SCHEMA = 'guardlink.ci/v1';
 
 const SEVERITIES = ['critical', 'high', 'medium', 'low'] as const;
-const DRIFT_KINDS = ['moved', 'symbol_gone', 'file_gone', 'line_gone'] as const;
+const DRIFT_KINDS = ['moved', 'relocated', 'renamed', 'symbol_gone', 'file_gone', 'line_gone'] as const;
 
 /** Severity buckets, plus `unset` for exposures written without one. */
 export type SeverityCounts = Record<Severity | 'unset', number>;
@@ -59,26 +89,74 @@ export interface CiSummary {
    * reports the first.
    */
   anchors: number;
+  /** `@accepts` past its `until:` date — `expired_acceptances.length`. */
+  expired_acceptances: number;
   by_severity: SeverityCounts;
   by_kind: DriftKindCounts;
+  /**
+   * Per-symbol coverage against `--min-symbol-coverage`. Null when no floor was
+   * set; `total` and `percent` are null when the model carries no symbol
+   * coverage to compare.
+   */
+  symbol_coverage: SymbolCoverageCheck | null;
+  /** Baselined vs new counts against `--baseline`. Null when no baseline was given. */
+  baseline: CiBaselineSummary | null;
+  /** Rule counts for the policy. Null when no policy was given. */
+  policy: CiPolicySummary | null;
   /** Whether `--strict` was in effect for this run. */
   strict: boolean;
-  /** The exit code the command used. 0 unless `strict` and something was found. */
+  /**
+   * The exit code the command used. 0 unless `strict` and something was found,
+   * a symbol coverage floor was missed, something not in the baseline was
+   * found, or a `fail` rule of the policy did not hold. With a baseline,
+   * `strict` counts only what is new.
+   */
   exit_code: 0 | 1;
 }
 
+export interface CiBaselineSummary {
+  exposures: { baselined: number; new: number };
+  drift: { baselined: number; new: number };
+  /** Baseline entries that no longer occur — gaps closed since it was written. */
+  resolved: number;
+}
+
+export interface CiPolicySummary {
+  /** The policy file, as given. */
+  source: string;
+  rules: number;
+  /** `fail` rules that did not hold — any of these is exit 1. */
+  failed: number;
+  /** `warn` rules that did not hold. */
+  warned: number;
+}
+
 export interface CiReport {
   schema: typeof CI_SCHEMA;
   /** `ThreatModelExposure` as the parser produced it — same fields, same names. */
   exposures: ThreatModelExposure[];
   /** `AnchorDrift` as `findAnchorDrift` produced it — same fields, same names. */
   drift: AnchorDrift[];
+  /** `ThreatModelAcceptance` as the parser produced it, for each lapsed acceptance. */
+  expired_acceptances: ThreatModelAcceptance[];
+  /** The subset of `exposures` and `drift` the baseline does not record. Null without `--baseline`. */
+  baseline: { new_exposures: ThreatModelExposure[]; new_drift: AnchorDrift[] } | null;
+  /** Every policy rule's result, in the policy's order. Null without a policy. */
+  policy: PolicyRuleResult[] | null;
   summary: CiSummary;
 }
 
 export interface CiOptions {
-  /** Opt in to a non-zero exit when either check finds anything. */
+  /** Opt in to a non-zero exit when any check finds anything. */
   strict?: boolean;
+  /** Fail when per-symbol coverage is below this whole percent, strict or not. */
+  minSymbolCoverage?: number;
+  /** The day acceptances are checked against. Defaults to now. */
+  today?: Date;
+  /** Known gaps. Exposures and drift it records are reported but do not fail the build. */
+  baseline?: Baseline;
+  /** Rules evaluated over the findings — after the baseline, when there is one. */
+  policy?: Policy;
 }
 
 function countBySeverity(exposures: ThreatModelExposure[]): SeverityCounts {
@@ -88,33 +166,64 @@ function countBySeverity(exposures: ThreatModelExposure[]): SeverityCounts {
 }
 
 function countByKind(drift: AnchorDrift[]): DriftKindCounts {
-  const counts = { moved: 0, symbol_gone: 0, file_gone: 0, line_gone: 0 } as DriftKindCounts;
+  const counts = { moved: 0, relocated: 0, renamed: 0, symbol_gone: 0, file_gone: 0, line_gone: 0 } as DriftKindCounts;
   for (const d of drift) counts[d.kind] += 1;
   return counts;
 }
 
 /**
- * Run both checks and describe the result. The only place the exit code is
+ * Run every check and describe the result. The only place the exit code is
  * decided — one flag, one predicate.
  */
-export function runCiChecks(root: string, model: ThreatModel, opts: CiOptions = {}): CiReport {
+export async function runCiChecks(root: string, model: ThreatModel, opts: CiOptions = {}): Promise<CiReport> {
   const exposures = findUnmitigatedExposures(model);
-  const drift = findAnchorDrift(root, model);
+  const drift = await findAnchorDrift(root, model);
+  const expired = expiredAcceptances(model, opts.today);
   const strict = opts.strict === true;
-  const found = exposures.length > 0 || drift.length > 0;
+  const known = opts.baseline
+    ? { exposures: splitExposures(exposures, opts.baseline), drift: splitDrift(drift, opts.baseline) }
+    : null;
+  const newExposures = known ? known.exposures.fresh : exposures;
+  const newDrift = known ? known.drift.fresh : drift;
+  const found = newExposures.length > 0 || newDrift.length > 0 || expired.length > 0;
+  const newSinceBaseline = known !== null && (newExposures.length > 0 || newDrift.length > 0);
+  const symbolCoverage = opts.minSymbolCoverage === undefined
+    ? null
+    : checkSymbolCoverage(model, opts.minSymbolCoverage);
+  const belowFloor = symbolCoverage !== null && !symbolCoverage.passed;
+  const rules = opts.policy
+    ? evaluatePolicy(root, model, opts.policy, { exposures: newExposures, drift: newDrift, expired })
+    : null;
+  const ruleFailed = rules !== null && rules.some(r => !r.passed && r.level === 'fail');
 
   return {
     schema: CI_SCHEMA,
     exposures,
     drift,
+    expired_acceptances: expired,
+    baseline: known ? { new_exposures: newExposures, new_drift: newDrift } : null,
+    policy: rules,
     summary: {
       exposures: exposures.length,
       drift: drift.length,
       anchors: countAnchors(model),
+      expired_acceptances: expired.length,
       by_severity: countBySeverity(exposures),
       by_kind: countByKind(drift),
+      symbol_coverage: symbolCoverage,
+      baseline: known ? {
+        exposures: { baselined: known.exposures.known.length, new: newExposures.length },
+        drift: { baselined: known.drift.known.length, new: newDrift.length },
+        resolved: known.exposures.resolved + known.drift.resolved,
+      } : null,
+      policy: rules ? {
+        source: opts.policy!.source,
+        rules: rules.length,
+        failed: rules.filter(r => !r.passed && r.level === 'fail').length,
+        warned: rules.filter(r => !r.passed && r.level === 'warn').length,
+      } : null,
       strict,
-      exit_code: strict && found ? 1 : 0,
+      exit_code: (strict && found) || belowFloor || newSinceBaseline || ruleFailed ? 1 : 0,
     },
   };
 }
@@ -133,6 +242,28 @@ function kindBreakdown(counts: DriftKindCounts): string {
   return parts.length > 0 ? ` (${parts.join(', ')})` : '';
 }
 
+/** `Symbol coverage: 12/20 (60%), floor 80% — below floor`. */
+function symbolCoverageLine(check: SymbolCoverageCheck): string {
+  if (check.total === null) {
+    return `Symbol coverage: not measured (no file in a language the symbol index reads), floor ${check.floor}% — failed`;
+  }
+  const verdict = check.passed ? 'met' : 'below floor';
+  return `Symbol coverage: ${check.covered}/${check.total} (${check.percent}%), floor ${check.floor}% — ${verdict}`;
+}
+
+/** `✓ pass`, `✗ fail` or `⚠ warn` — what a rule's result means for the build. */
+function ruleVerdict(r: PolicyRuleResult): string {
+  if (r.passed) return '✓ pass';
+  return r.level === 'fail' ? '✗ fail' : '⚠ warn';
+}
+
+/** One row per rule, columns padded to the widest entry. */
+function policyTable(rules: PolicyRuleResult[]): string[] {
+  const rows = [['RESULT', 'LEVEL', 'RULE', 'DETAIL'], ...rules.map(r => [ruleVerdict(r), r.level, r.id, r.detail])];
+  const widths = [0, 1, 2].map(col => Math.max(...rows.map(row => row[col].length)));
+  return rows.map(row => `   ${row.map((cell, col) => (col < 3 ? cell.padEnd(widths[col]) : cell)).join('  ')}`);
+}
+
 /**
  * The human rendering: counts first, then the lines, in `validate`'s register.
  *
@@ -140,17 +271,29 @@ function kindBreakdown(counts: DriftKindCounts): string {
  * test without capturing a stream.
  */
 export function formatCiReport(report: CiReport): string {
-  const { summary, exposures, drift } = report;
+  const { summary, expired_acceptances: expired } = report;
+  // With a baseline, only what it does not record is listed; the counts above
+  // the lists still cover everything, so the known gaps stay visible as a number.
+  const exposures = report.baseline?.new_exposures ?? report.exposures;
+  const drift = report.baseline?.new_drift ?? report.drift;
+  const known = summary.baseline;
   const out: string[] = [];
 
-  out.push(`Unmitigated exposures: ${summary.exposures}${severityBreakdown(summary.by_severity)}`);
+  out.push(`Unmitigated exposures: ${summary.exposures}${severityBreakdown(summary.by_severity)}`
+    + (known ? ` — ${known.exposures.new} new, ${known.exposures.baselined} baselined` : ''));
   out.push(summary.anchors === 0
     ? 'Anchor drift: 0 (no anchored @source blocks to check)'
     : `Anchor drift: ${summary.drift}${kindBreakdown(summary.by_kind)}`
-      + ` of ${summary.anchors} anchor(s)`);
+      + ` of ${summary.anchors} anchor(s)`
+      + (known ? ` — ${known.drift.new} new, ${known.drift.baselined} baselined` : ''));
+  if (summary.expired_acceptances > 0) out.push(`Expired acceptances: ${summary.expired_acceptances}`);
+  if (summary.symbol_coverage) out.push(symbolCoverageLine(summary.symbol_coverage));
+  if (known && known.resolved > 0) {
+    out.push(`Resolved since the baseline: ${known.resolved} — run \`guardlink baseline update\` to drop them from it`);
+  }
 
   if (exposures.length > 0) {
-    out.push('', `⚠  ${exposures.length} unmitigated exposure(s):`);
+    out.push('', `⚠  ${exposures.length} ${known ? 'new ' : ''}unmitigated exposure(s):`);
     for (const e of exposures) {
       const at = `${e.location.file}:${e.location.line}`;
       out.push(`   ${e.asset} → ${e.threat} [${e.severity || 'unset'}] (${at})`);
@@ -158,16 +301,43 @@ export function formatCiReport(report: CiReport): string {
   }
 
   if (drift.length > 0) {
-    out.push('', `⚠  ${drift.length} drifted @source block(s):`);
+    out.push('', `⚠  ${drift.length} ${known ? 'new ' : ''}drifted @source block(s):`);
     for (const d of drift) {
       out.push(`   [${d.kind}] ${d.message}`);
     }
   }
 
-  if (exposures.length === 0 && drift.length === 0) {
-    out.push('', '✓ No unmitigated exposures, no anchor drift.');
+  if (expired.length > 0) {
+    out.push('', `⚠  ${expired.length} expired risk acceptance(s):`);
+    for (const a of expired) {
+      const owner = a.by ? `, review by ${a.by}` : '';
+      out.push(`   ${a.threat} on ${a.asset} — until ${a.until}${owner} (${a.location.file}:${a.location.line})`);
+    }
+  }
+
+  if (report.policy && summary.policy) {
+    out.push('', `Policy (${summary.policy.source}):`, ...policyTable(report.policy));
+  }
+
+  const belowFloor = summary.symbol_coverage !== null && !summary.symbol_coverage.passed;
+  if (belowFloor) {
+    out.push('', `✗ Symbol coverage is below the ${summary.symbol_coverage!.floor}% floor.`
+      + ' Run `guardlink status --uncovered-symbols` to see what to annotate.');
+  }
+  const failedRules = (report.policy ?? []).filter(r => !r.passed && r.level === 'fail');
+  if (failedRules.length > 0) {
+    out.push('', `✗ ${failedRules.length} policy rule(s) failed: ${failedRules.map(r => r.id).join(', ')}.`);
+  }
+
+  if (exposures.length === 0 && drift.length === 0 && expired.length === 0) {
+    out.push('', known ? '✓ Nothing new since the baseline.' : '✓ No unmitigated exposures, no anchor drift.');
+  } else if (known && (exposures.length > 0 || drift.length > 0)) {
+    out.push('', '✗ Found exposures or drift the baseline does not record.'
+      + ' Fix them, or run `guardlink baseline update` to accept them as known.');
   } else if (!summary.strict) {
-    out.push('', 'Advisory — nothing here failed the build. Run with --strict to gate on it.');
+    out.push('', belowFloor || failedRules.length > 0
+      ? 'Advisory — exposures, drift and expired acceptances did not fail the build. Run with --strict to gate on them.'
+      : 'Advisory — nothing here failed the build. Run with --strict to gate on it.');
   }
 
   return out.join('\n');
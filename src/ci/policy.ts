@@ -0,0 +1,321 @@
+/**
+ * GuardLink — CI policy: named rules, each a threshold over a check that already exists.
+ *
+ * `--strict` is one rule for everything: any exposure, any drift, any lapsed
+ * acceptance fails the build. An organisation usually wants something narrower
+ * and something wider at once — fail on critical and high exposures but not on
+ * low ones, fail below 60% file coverage, fail on an `@accepts` nobody audited,
+ * only warn on drift. `.guardlink/policy.yaml` writes that down:
+ *
+ *   rules:
+ *     - id: no-open-critical
+ *       check: unmitigated-exposures
+ *       severity: [critical, high]
+ *     - check: coverage
+ *       min: 60
+ *     - check: accepts-without-audit
+ *     - check: stale-entitlements
+ *       since: origin/main
+ *     - check: anchor-drift
+ *       level: warn
+ *
+ * A rule picks a check, a threshold (`max`, default 0, or `min`) and a level.
+ * A `fail` rule that does not hold exits 1 with or without `--strict` — writing
+ * the rule is the opt-in, as with a symbol coverage floor. A `warn` rule is
+ * reported and never fails the build.
+ *
+ * No check here decides what a gap is. Each one counts what the predicate the
+ * rest of the product uses returns: `findUnmitigatedExposures` and
+ * `findAnchorDrift` by way of `runCiChecks` (so a baseline subtracts from both),
+ * `describeCoverage`, `findAcceptedWithoutAudit`, `expiredAcceptances` and the
+ * diff engine's `findStaleEntitlements`.
+ *
+ * ── The file format ─────────────────────────────────────────────────
+ *
+ * The YAML subset rule packs share (parser/yaml-subset.ts): one top-level
+ * `rules:` list of flat mappings whose values are scalars or `[a, b]` lists.
+ * Anything else — an unknown check, a key the check does not take, a
+ * threshold that is not a number — is an error naming the line. A typo in a
+ * gate must not turn into a rule that quietly passes.
+ *
+ * @exposes #cli to #insecure-deser [low] cwe:CWE-502 -- "Hand-parsed YAML policy from the repository decides which checks fail the build"
+ * @mitigates #cli against #insecure-deser using #config-validation -- "parsePolicy rejects unknown checks, unknown keys and non-numeric thresholds with the line number; values are only ever compared, never evaluated"
+ * @flows Policy -> #cli via loadPolicy -- "Rules read for guardlink ci"
+ * @comment -- "Results keep rule order and carry the threshold beside the value, so guardlink.ci/v1 consumers can render the same table the text output does"
+ */
+
+import { readFile } from 'node:fs/promises';
+import { resolve } from 'node:path';
+
+import type { ThreatModel, ThreatModelExposure, ThreatModelAcceptance, Severity } from '../types/index.js';
+import type { AnchorDrift } from '../parser/reanchor.js';
+import { describeCoverage } from '../parser/coverage.js';
+import { findAcceptedWithoutAudit } from '../parser/validate.js';
+import { findStaleEntitlements } from '../diff/engine.js';
+import { getChangedFiles, resolvesToCommit } from '../diff/git.js';
+import { parseRuleList, type YamlSubsetValue } from '../parser/yaml-subset.js';
+
+/** Read by `guardlink ci` when it exists and `--policy` names nothing else. */
+export const DEFAULT_POLICY_PATH = '.guardlink/policy.yaml';
+
+export const POLICY_CHECKS = [
+  'unmitigated-exposures',
+  'coverage',
+  'symbol-coverage',
+  'accepts-without-audit',
+  'expired-acceptances',
+  'stale-entitlements',
+  'anchor-drift',
+] as const;
+
+export type PolicyCheck = typeof POLICY_CHECKS[number];
+export type PolicyLevel = 'fail' | 'warn';
+
+export interface PolicyRule {
+  /** Defaults to the check name. Unique within a policy. */
+  id: string;
+  check: PolicyCheck;
+  level: PolicyLevel;
+  /** `unmitigated-exposures` only: count just these. `unset` is an exposure written without one. */
+  severity?: (Severity | 'unset')[];
+  /** Fail when more than this many are found. Counting checks only; defaults to 0. */
+  max?: number;
+  /** Fail below this whole percent. Coverage checks only; required there. */
+  min?: number;
+  /** `stale-entitlements` only: the ref whose diff decides what changed. Required there. */
+  since?: string;
+}
+
+export interface Policy {
+  /** The file the rules came from, as given — shown above the results table. */
+  source: string;
+  rules: PolicyRule[];
+}
+
+export interface PolicyRuleResult {
+  id: string;
+  check: PolicyCheck;
+  level: PolicyLevel;
+  passed: boolean;
+  /** The count, or the percent for coverage checks. Null when the model has nothing to measure. */
+  value: number | null;
+  max?: number;
+  min?: number;
+  /** One line for the table: what was counted and against what. */
+  detail: string;
+}
+
+/** What `runCiChecks` already found, after any baseline — the policy counts these rather than finding them again. */
+export interface PolicyFacts {
+  exposures: ThreatModelExposure[];
+  drift: AnchorDrift[];
+  expired: ThreatModelAcceptance[];
+}
+
+// ─── Symbol coverage floor ───────────────────────────────────────────
+
+export interface SymbolCoverageCheck {
+  covered: number | null;
+  total: number | null;
+  percent: number | null;
+  /** The floor, as a whole percent. */
+  floor: number;
+  passed: boolean;
+}
+
+/**
+ * Per-symbol coverage against a floor. Shared by `--min-symbol-coverage` and
+ * the `symbol-coverage` rule, so the flag and the rule cannot disagree.
+ */
+export function checkSymbolCoverage(model: ThreatModel, floor: number): SymbolCoverageCheck {
+  const symbols = describeCoverage(model).symbols;
+  if (!symbols) return { covered: null, total: null, percent: null, floor, passed: false };
+  // Nothing security-relevant found is nothing left uncovered.
+  const passed = symbols.securitySymbols === 0 || symbols.percent >= floor;
+  return { covered: symbols.coveredSymbols, total: symbols.securitySymbols, percent: symbols.percent, floor, passed };
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────
+
+/** The keys each check takes, beyond `id`, `check` and `level`. */
+const CHECK_KEYS: Record<PolicyCheck, readonly string[]> = {
+  'unmitigated-exposures': ['severity', 'max'],
+  'coverage': ['min'],
+  'symbol-coverage': ['min'],
+  'accepts-without-audit': ['max'],
+  'expired-acceptances': ['max'],
+  'stale-entitlements': ['since', 'max'],
+  'anchor-drift': ['max'],
+};
+
+const SEVERITY_NAMES = ['critical', 'high', 'medium', 'low', 'unset'] as const;
+
+/** Parse a policy file. `where` names it in errors. */
+export function parsePolicy(content: string, where: string): Policy {
+  const items = parseRuleList(content, where, 'check');
+
+  const rules = items.map(item => toRule(item.fields, item.line, where));
+  const seen = new Set<string>();
+  for (const [idx, rule] of rules.entries()) {
+    if (seen.has(rule.id)) {
+      throw new Error(`${where}:${items[idx].line}: rule id "${rule.id}" is used twice — give each rule its own id:`);
+    }
+    seen.add(rule.id);
+  }
+  return { source: where, rules };
+}
+
+function toRule(
+  fields: Map<string, { value: YamlSubsetValue; line: number }>,
+  line: number,
+  where: string,
+): PolicyRule {
+  const scalar = (key: string): string | undefined => {
+    const field = fields.get(key);
+    if (!field) return undefined;
+    if (Array.isArray(field.value)) throw new Error(`${where}:${field.line}: "${key}" takes a single value, not a list`);
+    return field.value;
+  };
+  const percentOrCount = (key: 'min' | 'max'): number | undefined => {
+    const raw = scalar(key);
+    if (raw === undefined) return undefined;
+    const num = Number(raw);
+    if (raw === '' || !Number.isFinite(num) || num < 0 || (key === 'min' && num > 100)) {
+      const expected = key === 'min' ? 'a percent between 0 and 100' : 'a non-negative number';
+      throw new Error(`${where}:${fields.get(key)!.line}: "${key}" must be ${expected}, got "${raw}"`);
+    }
+    return num;
+  };
+
+  const check = scalar('check');
+  if (!check) throw new Error(`${where}:${line}: rule has no "check:" — one of ${POLICY_CHECKS.join(', ')}`);
+  if (!(POLICY_CHECKS as readonly string[]).includes(check)) {
+    throw new Error(`${where}:${fields.get('check')!.line}: unknown check "${check}" — one of ${POLICY_CHECKS.join(', ')}`);
+  }
+  const rule: PolicyRule = { id: check, check: check as PolicyCheck, level: 'fail' };
+
+  const allowed = new Set(['id', 'check', 'level', ...CHECK_KEYS[rule.check]]);
+  for (const [key, field] of fields) {
+    if (!allowed.has(key)) {
+      throw new Error(`${where}:${field.line}: "${key}" does not apply to ${check} — it takes ${[...allowed].join(', ')}`);
+    }
+  }
+
+  const id = scalar('id');
+  if (id !== undefined) {
+    if (!id) throw new Error(`${where}:${fields.get('id')!.line}: "id" is empty`);
+    rule.id = id;
+  }
+  const level = scalar('level');
+  if (level !== undefined) {
+    if (level !== 'fail' && level !== 'warn') {
+      throw new Error(`${where}:${fields.get('level')!.line}: "level" must be fail or warn, got "${level}"`);
+    }
+    rule.level = level;
+  }
+
+  const severity = fields.get('severity');
+  if (severity) {
+    const names = Array.isArray(severity.value) ? severity.value : [severity.value];
+    const unknown = names.filter(s => !(SEVERITY_NAMES as readonly string[]).includes(s));
+    if (names.length === 0 || unknown.length > 0) {
+      throw new Error(`${where}:${severity.line}: "severity" takes ${SEVERITY_NAMES.join(', ')}, got "${unknown.join(', ') || '[]'}"`);
+    }
+    rule.severity = names as PolicyRule['severity'];
+  }
+
+  const max = percentOrCount('max');
+  if (max !== undefined) rule.max = max;
+  const min = percentOrCount('min');
+  if (min !== undefined) rule.min = min;
+  if (CHECK_KEYS[rule.check].includes('min') && rule.min === undefined) {
+    throw new Error(`${where}:${line}: ${check} needs "min:", the lowest percent that passes`);
+  }
+
+  const since = scalar('since');
+  if (since !== undefined) rule.since = since;
+  if (rule.check === 'stale-entitlements' && !rule.since) {
+    throw new Error(`${where}:${line}: stale-entitlements needs "since:", the ref to diff against (e.g. origin/main)`);
+  }
+
+  return rule;
+}
+
+/**
+ * Read a policy. `file` resolves against `root` and is shown as given. A
+ * missing file is an error: CI asked for these rules, and none is not a policy.
+ */
+export async function loadPolicy(root: string, file: string = DEFAULT_POLICY_PATH): Promise<Policy> {
+  let raw: string;
+  try {
+    raw = await readFile(resolve(root, file), 'utf-8');
+  } catch {
+    throw new Error(`No policy at ${file}`);
+  }
+  return parsePolicy(raw, file);
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────
+
+/** `≤ max` for a count: the rule holds with up to `max` found. */
+function countRule(rule: PolicyRule, found: number, what: string): PolicyRuleResult {
+  const max = rule.max ?? 0;
+  return {
+    id: rule.id, check: rule.check, level: rule.level,
+    passed: found <= max, value: found, max,
+    detail: `${found} ${what}, max ${max}`,
+  };
+}
+
+function evaluateRule(root: string, model: ThreatModel, rule: PolicyRule, facts: PolicyFacts): PolicyRuleResult {
+  const base = { id: rule.id, check: rule.check, level: rule.level };
+  switch (rule.check) {
+    case 'unmitigated-exposures': {
+      const wanted = rule.severity ? new Set<string>(rule.severity) : null;
+      const found = facts.exposures.filter(e => !wanted || wanted.has(e.severity ?? 'unset'));
+      const which = rule.severity ? ` ${rule.severity.join('/')}` : '';
+      return countRule(rule, found.length, `unmitigated${which} exposure(s)`);
+    }
+    case 'coverage': {
+      const cov = describeCoverage(model);
+      const min = rule.min!;
+      // No source files is nothing measured, and an unmeasured repo has met no floor.
+      if (cov.sourceFiles === 0) {
+        return { ...base, passed: false, value: null, min, detail: `file coverage not measured (no source files), min ${min}%` };
+      }
+      return {
+        ...base, passed: cov.percent >= min, value: cov.percent, min,
+        detail: `${cov.percent}% file coverage (${cov.annotatedFiles}/${cov.sourceFiles} files), min ${min}%`,
+      };
+    }
+    case 'symbol-coverage': {
+      const sym = checkSymbolCoverage(model, rule.min!);
+      return {
+        ...base, passed: sym.passed, value: sym.percent, min: sym.floor,
+        detail: sym.total === null
+          ? `symbol coverage not measured (no file in a language the symbol index reads), min ${sym.floor}%`
+          : `${sym.percent}% symbol coverage (${sym.covered}/${sym.total} symbols), min ${sym.floor}%`,
+      };
+    }
+    case 'accepts-without-audit':
+      return countRule(rule, findAcceptedWithoutAudit(model).length, '@accepts without @audit');
+    case 'expired-acceptances':
+      return countRule(rule, facts.expired.length, 'expired acceptance(s)');
+    case 'stale-entitlements': {
+      // getChangedFiles answers [] for a ref git cannot resolve, and a typo'd
+      // `since:` must not read as "no entitlement is stale".
+      if (!resolvesToCommit(root, rule.since!)) {
+        return { ...base, passed: false, value: null, max: rule.max ?? 0, detail: `since: ${rule.since} does not resolve to a commit` };
+      }
+      const stale = findStaleEntitlements(model, getChangedFiles(root, rule.since!));
+      return countRule(rule, stale.length, `entitlement(s) citing code changed since ${rule.since}`);
+    }
+    case 'anchor-drift':
+      return countRule(rule, facts.drift.length, 'drifted anchor(s)');
+  }
+}
+
+/** Evaluate every rule, in the order the policy lists them. */
+export function evaluatePolicy(root: string, model: ThreatModel, policy: Policy, facts: PolicyFacts): PolicyRuleResult[] {
+  return policy.rules.map(rule => evaluateRule(root, model, rule, facts));
+}
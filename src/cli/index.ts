@@ -9,6 +9,9 @@
  *   guardlink status [dir]            Show annotation coverage summary
  *   guardlink validate [dir]          Check for syntax errors and dangling refs
  *   guardlink ci [dir]                Advisory CI checks — unmitigated exposures + anchor drift
+ *   guardlink hooks install [dir]     Install pre-commit (validate --staged) and pre-push hooks
+ *   guardlink rules test <file>       Check the suggestion rule packs and run them on a file
+ *   guardlink watch [dir]             Keep the model live; print what each save changed
  *   guardlink report [dir]            Generate markdown + JSON threat model report
  *   guardlink diff [ref]              Compare threat model against a git ref
  *   guardlink sarif [dir]             Export SARIF 2.1.0 for GitHub / VS Code
@@ -42,23 +45,36 @@
  */
 
 import { Command } from 'commander';
-import { resolve, basename, join } from 'node:path';
+import { resolve, basename, join, relative } from 'node:path';
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'node:fs';
-import { parseProject, findDanglingRefs, findUnmitigatedExposures, findAcceptedWithoutAudit, findAcceptedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, findOffConventionGalFiles, findAnchorDrift, applyReanchor, migrateAnnotationMode, computeAnnotationHash, computeAnchorHash, canonicalAnchorRecords, countAnchors, lostAnchors, clearAnnotations, listFeatures, filterByFeature, getFeatureSummaries } from '../parser/index.js';
+import { parseProject, findDanglingRefs, findUnmitigatedExposures, findAcceptedWithoutAudit, findExpiredAcceptances, findAcceptedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, findOffConventionGalFiles, findTemplateErrors, findAnchorDrift, applyReanchor, migrateAnnotationMode, computeAnnotationHash, computeAnchorHash, canonicalAnchorRecords, countAnchors, lostAnchors, clearAnnotations, listFeatures, filterByFeature, getFeatureSummaries, loadLanguageRegistry } from '../parser/index.js';
 import { diagnosticIcon } from '../parser/format.js';
-import { runCiChecks, formatCiReport } from '../ci/index.js';
-import { initProject, detectProject, promptAgentSelection, syncAgentFiles } from '../init/index.js';
+import { describeCoverage } from '../parser/coverage.js';
+import {
+  runCiChecks, formatCiReport, createBaseline, loadBaseline, saveBaseline, loadPolicy,
+  validateFindings, ciFindings, toJUnit, toCodeClimate,
+  DEFAULT_BASELINE_PATH, DEFAULT_POLICY_PATH, type Baseline, type Policy, type CiFindingKind,
+} from '../ci/index.js';
+import { computeRisk } from '../risk/index.js';
+import { initProject, detectProject, promptAgentSelection, syncAgentFiles, installHooks, type HookName } from '../init/index.js';
 import { ensurePromptMd } from '../init/migrate.js';
 import { generateReport, generateMermaid } from '../report/index.js';
-import { diffModels, formatDiff, formatDiffMarkdown, parseAtRef, getChangedFiles } from '../diff/index.js';
-import { generateSarif } from '../analyzer/index.js';
+import {
+  diffModels, formatDiff, formatDiffMarkdown, formatDiffComment, parseAtRef, parseStaged, getChangedFiles, getHeadSha, getRepoWebUrl,
+  diffAnnotations, toCheckRun, toCodeQuality, collectHistory, HISTORY_SCHEMA, type CommentPayload, type StagedParse,
+} from '../diff/index.js';
+import { generateSarif, parseSarif, matchScannerFindings, saveScannerFindings, type ParsedSarif, type ScannerMatch, type ScannerFindingStatus } from '../analyzer/index.js';
 import { emitArtifacts, checkArtifactDrift } from '../artifacts/emit.js';
-import { startStdioServer } from '../mcp/index.js';
+import {
+  startStdioServer, startHttpServer, readHttpConfig, DEFAULT_TOKEN_ENV, loadRulePacks, loadRulePack, suggestFromRules, inventoryEndpoints, RULES_DIR,
+  type SuggestionRule, type InventoriedEndpoint, type HttpConfig,
+} from '../mcp/index.js';
+import { startWatch, formatWatchUpdate } from '../watch/index.js';
 import { generateThreatReport, listThreatReports, loadThreatReportsForDashboard, loadPentestData, serializePentestFindings, buildConfig, FRAMEWORK_LABELS, FRAMEWORK_PROMPTS, serializeModel, buildUserMessage, type AnalysisFramework } from '../analyze/index.js';
 import { generateDashboardHTML } from '../dashboard/index.js';
 import { AGENTS, agentFromOpts, launchAgent, launchAgentInline, buildAnnotatePrompt, buildTranslatePrompt, buildAskPrompt, resolveAnnotationMode } from '../agents/index.js';
 import { resolveConfig, saveProjectConfig, saveGlobalConfig, loadProjectConfig, loadGlobalConfig, maskKey, describeConfigSource } from '../agents/config.js';
-import { getReviewableExposures, applyReviewAction, formatExposureForReview, summarizeReview, type ReviewResult } from '../review/index.js';
+import { getReviewableExposures, applyReviewAction, checkAcceptanceReview, formatExposureForReview, summarizeReview, type ReviewResult } from '../review/index.js';
 import {
   proposeEntitlement, listProposals, findProposal, applyProposalDecision, checkEntitlementProvenance,
   defaultDecider, formatProposalForReview, formatProposalLine, summarizeDecisions, proposalsPath,
@@ -255,11 +271,14 @@ program
   .argument('[dir]', 'Project directory to scan', '.')
   .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
   .option('--not-annotated', 'List source files with no GuardLink annotations')
+  .option('--uncovered-symbols', 'List security-relevant functions and methods with no annotation inside or directly above')
+  .option('--risk', 'Rank assets and exposures by likelihood × impact risk score')
   .option('--feature <names>', 'Filter status to specific feature(s) (comma-separated)')
   .option('--sync', 'Also refresh agent instruction files (this used to happen unasked — see D16)')
-  .action(async (dir: string, opts: { project: string; notAnnotated?: boolean; feature?: string; sync?: boolean }) => {
+  .option('--no-cache', 'Re-parse every file instead of reusing unchanged results from .guardlink/cache/')
+  .action(async (dir: string, opts: { project: string; notAnnotated?: boolean; uncoveredSymbols?: boolean; risk?: boolean; feature?: string; sync?: boolean; cache: boolean }) => {
     const root = resolve(dir);
-    let { model, diagnostics } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined });
+    let { model, diagnostics } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined, cache: opts.cache });
 
     // Apply feature filter if specified
     if (opts.feature) {
@@ -274,6 +293,12 @@ program
     if (opts.notAnnotated) {
       printUnannotatedFiles(model);
     }
+    if (opts.uncoveredSymbols) {
+      printUncoveredSymbols(model);
+    }
+    if (opts.risk) {
+      printRisk(model);
+    }
 
     // D16: syncing is opt-in. `status` reads; it does not rewrite seven tracked
     // files on the way past.
@@ -295,9 +320,34 @@ program
   .option('--strict', 'Also fail on unmitigated exposures (for CI gates)')
   .option('--artifacts', 'Also check .guardlink/graph/ artifacts against the current model; exits non-zero on drift')
   .option('--sync', 'Also refresh agent instruction files (this used to happen unasked — see D16)')
-  .action(async (dir: string, opts: { project: string; strict?: boolean; artifacts?: boolean; sync?: boolean }) => {
+  .option('--no-cache', 'Re-parse every file instead of reusing unchanged results from .guardlink/cache/')
+  .option('--staged', 'Check what is staged for commit: diagnostics and new unmitigated exposures in staged files only (for a pre-commit hook)')
+  .option('-f, --format <fmt>', 'Report on stdout: text (default), junit or codeclimate', 'text')
+  .action(async (dir: string, opts: { project: string; strict?: boolean; artifacts?: boolean; sync?: boolean; cache: boolean; staged?: boolean; format: string }) => {
     const root = resolve(dir);
-    const { model, diagnostics } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined });
+    const project = opts.project ?? readConfiguredProject(root) ?? undefined;
+    if (!['text', 'junit', 'codeclimate'].includes(opts.format)) {
+      console.error(`Unknown --format '${opts.format}'. Use text, junit or codeclimate.`);
+      process.exit(1);
+    }
+    if (opts.staged && opts.format !== 'text') {
+      console.error('Error: --staged reports as text only');
+      process.exit(1);
+    }
+    if (opts.staged && (opts.artifacts || opts.sync)) {
+      console.error('Error: --staged checks the index, not the working tree; it cannot be combined with --artifacts or --sync');
+      process.exit(1);
+    }
+    let staged: StagedParse | null = null;
+    if (opts.staged) {
+      try {
+        staged = await parseStaged(root, project, { cache: opts.cache });
+      } catch (err: any) {
+        console.error(`Error: ${err.message}`);
+        process.exit(1);
+      }
+    }
+    const { model, diagnostics } = staged ?? await parseProject({ root, project, cache: opts.cache });
 
     // Check for dangling refs
     const danglingDiags = findDanglingRefs(model);
@@ -305,6 +355,9 @@ program
     // Check for @accepts without @audit (governance concern)
     const acceptAuditDiags = findAcceptedWithoutAudit(model);
 
+    // Check for @accepts past its until: date
+    const expiredDiags = findExpiredAcceptances(model);
+
     // Entitlement checks: undeclared actor (error) and uncited/inert claim (warning)
     const actorDiags = findUndeclaredActors(model);
     const inertDiags = findInertEntitlements(model);
@@ -318,7 +371,12 @@ program
     // the file still parsed and every annotation in it counted.
     const galConventionDiags = findOffConventionGalFiles(model);
 
-    const allDiags = [...diagnostics, ...danglingDiags, ...acceptAuditDiags, ...actorDiags, ...inertDiags, ...impreciseDiags, ...provenanceDiags, ...galConventionDiags];
+    // Check for @apply lines that expanded to nothing: unknown template or wrong arity
+    const templateDiags = findTemplateErrors(model);
+
+    const allDiags = [...diagnostics, ...danglingDiags, ...acceptAuditDiags, ...expiredDiags, ...actorDiags, ...inertDiags, ...impreciseDiags, ...provenanceDiags, ...galConventionDiags, ...templateDiags];
+
+    if (staged) reportStaged(staged, allDiags, opts.strict ?? false);
 
     // Check for unmitigated exposures
     const unmitigated = findUnmitigatedExposures(model);
@@ -375,15 +433,15 @@ program
     // ── Artifact drift (GL-302) ──
     // A generated .mmd in a repo looks like source, so a stale one is trusted
     // rather than questioned. This is the check that makes emission safe.
+    const artifactFindings = opts.artifacts ? checkArtifactDrift(root, model) : [];
     let artifactDrift = false;
     if (opts.artifacts) {
-      const findings = checkArtifactDrift(root, model);
-      if (findings.length === 0) {
+      if (artifactFindings.length === 0) {
         console.error('\n✓ Artifacts are current.');
       } else {
         artifactDrift = true;
-        console.error(`\n⚠  ${findings.length} artifact issue(s):`);
-        for (const f of findings) {
+        console.error(`\n⚠  ${artifactFindings.length} artifact issue(s):`);
+        for (const f of artifactFindings) {
           if (f.kind === 'missing') {
             console.error(`   ${f.path} — not emitted. Run: guardlink artifacts .`);
           } else if (f.kind === 'unheadered') {
@@ -399,6 +457,13 @@ program
       }
     }
 
+    if (opts.format !== 'text') {
+      const findings = validateFindings(allDiags, unmitigated, artifactFindings);
+      console.log(opts.format === 'junit'
+        ? toJUnit(findings, { name: 'guardlink validate', checks: ['diagnostic', 'unmitigated-exposure', ...(opts.artifacts ? ['artifact' as const] : [])] })
+        : JSON.stringify(toCodeClimate(findings), null, 2));
+    }
+
     // Exit 1 on errors always; also on unmitigated if --strict, or on artifact drift
     process.exit(errorCount > 0 || artifactDrift || (opts.strict && hasUnmitigated) ? 1 : 0);
   });
@@ -407,33 +472,178 @@ program
 
 program
   .command('ci')
-  .description('Advisory CI checks — unmitigated exposures and drifted @source anchors (exit 0 unless --strict)')
+  .description('Advisory CI checks — unmitigated exposures, drifted @source anchors and expired @accepts (exit 0 unless --strict or a policy rule fails)')
   .argument('[dir]', 'Project directory to scan', '.')
   .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
-  .option('-f, --format <fmt>', 'Output format: text (default) or json', 'text')
-  .option('--strict', 'Exit 1 when either check finds anything. Off by default — these are warnings, not a gate')
-  .action(async (dir: string, opts: { project: string; format: string; strict?: boolean }) => {
+  .option('-f, --format <fmt>', 'Output format: text (default), json, junit or codeclimate', 'text')
+  .option('--strict', 'Exit 1 when any check finds anything. Off by default — these are warnings, not a gate')
+  .option('--min-symbol-coverage <percent>', 'Exit 1 when fewer than this percent of security-relevant functions are annotated, with or without --strict')
+  .option('--baseline <file>', 'Known gaps (from `guardlink baseline update`): exit 1 only on exposures and drift not recorded there, with or without --strict')
+  .option('--policy <file>', `Rules to evaluate (default: ${DEFAULT_POLICY_PATH} when it exists): exit 1 when a fail-level rule does not hold, with or without --strict`)
+  .option('--no-cache', 'Re-parse every file instead of reusing unchanged results from .guardlink/cache/')
+  .action(async (dir: string, opts: { project: string; format: string; strict?: boolean; minSymbolCoverage?: string; baseline?: string; policy?: string; cache: boolean }) => {
     const root = resolve(dir);
 
-    if (opts.format !== 'text' && opts.format !== 'json') {
-      console.error(`Unknown --format '${opts.format}'. Use text or json.`);
+    if (!['text', 'json', 'junit', 'codeclimate'].includes(opts.format)) {
+      console.error(`Unknown --format '${opts.format}'. Use text, json, junit or codeclimate.`);
+      process.exit(1);
+    }
+    const minSymbolCoverage = opts.minSymbolCoverage === undefined ? undefined : Number(opts.minSymbolCoverage);
+    if (minSymbolCoverage !== undefined && !(Number.isFinite(minSymbolCoverage) && minSymbolCoverage >= 0 && minSymbolCoverage <= 100)) {
+      console.error(`--min-symbol-coverage must be a percent between 0 and 100, got '${opts.minSymbolCoverage}'.`);
       process.exit(1);
     }
 
-    const { model } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined });
-    const report = runCiChecks(root, model, { strict: opts.strict });
+    let baseline: Baseline | undefined;
+    let policy: Policy | undefined;
+    const policyFile = opts.policy ?? (existsSync(join(root, DEFAULT_POLICY_PATH)) ? DEFAULT_POLICY_PATH : undefined);
+    try {
+      if (opts.baseline) baseline = await loadBaseline(resolve(root, opts.baseline));
+      if (policyFile) policy = await loadPolicy(root, policyFile);
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
 
-    if (opts.format === 'json') {
-      console.log(JSON.stringify(report, null, 2));
-      console.error(`GuardLink CI: ${report.summary.exposures} unmitigated exposure(s), ${report.summary.drift} drifted anchor(s)`);
-    } else {
+    const { model } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined, cache: opts.cache });
+    const report = await runCiChecks(root, model, { strict: opts.strict, minSymbolCoverage, baseline, policy });
+
+    if (opts.format === 'text') {
       console.error(formatCiReport(report));
+    } else {
+      if (opts.format === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else if (opts.format === 'junit') {
+        const checks: CiFindingKind[] = ['unmitigated-exposure', 'anchor-drift', 'expired-acceptance'];
+        if (report.policy) checks.push('policy');
+        if (report.summary.symbol_coverage) checks.push('symbol-coverage');
+        console.log(toJUnit(ciFindings(report), { name: 'guardlink ci', checks }));
+      } else {
+        console.log(JSON.stringify(toCodeClimate(ciFindings(report)), null, 2));
+      }
+      const known = report.summary.baseline;
+      console.error(`GuardLink CI: ${report.summary.exposures} unmitigated exposure(s), ${report.summary.drift} drifted anchor(s), ${report.summary.expired_acceptances} expired acceptance(s)`
+        + (known ? `; ${known.exposures.new + known.drift.new} not in the baseline` : '')
+        + (report.summary.policy ? `; ${report.summary.policy.failed} of ${report.summary.policy.rules} policy rule(s) failed` : ''));
     }
 
-    // Advisory by default: 0 even with findings. `--strict` is the only path to 1.
+    // Advisory by default: 0 even with findings. `--strict`, a missed
+    // `--min-symbol-coverage` floor, anything new against `--baseline` and a
+    // failed fail-level policy rule are the only paths to 1.
     process.exit(report.summary.exit_code);
   });
 
+// ─── baseline ────────────────────────────────────────────────────────
+
+const baselineCmd = program
+  .command('baseline')
+  .description('Record the current unmitigated exposures and anchor drift, so `ci --baseline` fails only on new ones');
+
+baselineCmd
+  .command('update')
+  .description(`Write the baseline (default: ${DEFAULT_BASELINE_PATH})`)
+  .argument('[dir]', 'Project directory to scan', '.')
+  .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
+  .option('-o, --output <file>', 'Baseline file to write', DEFAULT_BASELINE_PATH)
+  .action(async (dir: string, opts: { project: string; output: string }) => {
+    const root = resolve(dir);
+    const { model } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined });
+    const report = await runCiChecks(root, model);
+    const baseline = createBaseline(report.exposures, report.drift);
+    await saveBaseline(resolve(root, opts.output), baseline);
+    console.error(`✓ Baselined ${baseline.exposures.length} unmitigated exposure(s) and ${baseline.drift.length} drifted anchor(s) in ${opts.output}`);
+    if (report.expired_acceptances.length > 0) {
+      console.error(`  ${report.expired_acceptances.length} expired acceptance(s) were not baselined — a review date is not a known gap.`);
+    }
+  });
+
+// ─── hooks ───────────────────────────────────────────────────────────
+
+const hooksCmd = program
+  .command('hooks')
+  .description('Git hooks that run guardlink validate');
+
+hooksCmd
+  .command('install')
+  .description('Install a pre-commit hook (validate --staged) and a pre-push hook (validate) — in .git/hooks, or in husky, lefthook or pre-commit when the repo uses one')
+  .argument('[dir]', 'Project directory', '.')
+  .option('--pre-commit', 'Install the pre-commit hook (default: both)')
+  .option('--pre-push', 'Install the pre-push hook (default: both)')
+  .option('--force', 'Replace a .git/hooks script GuardLink did not write')
+  .action((dir: string, opts: { preCommit?: boolean; prePush?: boolean; force?: boolean }) => {
+    const hooks: HookName[] = [];
+    if (opts.preCommit) hooks.push('pre-commit');
+    if (opts.prePush) hooks.push('pre-push');
+    let results;
+    try {
+      results = installHooks(resolve(dir), { hooks, force: opts.force });
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+    for (const r of results) {
+      const via = r.manager === 'git' ? '' : ` (${r.manager})`;
+      if (r.action === 'skipped') {
+        console.error(`⚠  ${r.hook}: left ${r.path} as it is${via} — ${r.note}`);
+        if (r.snippet) console.error(r.snippet.trimEnd().replace(/^/gm, '     '));
+      } else {
+        console.error(`${r.action === 'unchanged' ? '•' : '✓'}  ${r.hook}: ${r.action} ${r.path}${via}`);
+        if (r.note) console.error(`   ${r.note}`);
+      }
+    }
+  });
+
+// ─── watch ───────────────────────────────────────────────────────────
+
+program
+  .command('watch')
+  .description('Keep the threat model live — re-parse changed files on save and print new diagnostics, dangling refs and unmitigated exposures')
+  .argument('[dir]', 'Project directory to watch', '.')
+  .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
+  .option('-f, --format <fmt>', 'Output format: text (default) or json (one update per line)', 'text')
+  .option('--poll', 'Poll for changes instead of using filesystem events (network filesystems, containers)')
+  .option('--debounce <ms>', 'Quiet period after the last change before re-parsing', '150')
+  .action(async (dir: string, opts: { project: string; format: string; poll?: boolean; debounce: string }) => {
+    const root = resolve(dir);
+
+    if (opts.format !== 'text' && opts.format !== 'json') {
+      console.error(`Unknown --format '${opts.format}'. Use text or json.`);
+      process.exit(1);
+    }
+    const debounceMs = Number(opts.debounce);
+    if (!Number.isFinite(debounceMs) || debounceMs < 0) {
+      console.error(`--debounce must be a non-negative number of milliseconds, got '${opts.debounce}'.`);
+      process.exit(1);
+    }
+
+    const watcher = await startWatch({
+      root, debounceMs, poll: opts.poll,
+      project: opts.project ?? readConfiguredProject(root) ?? undefined,
+    });
+    const { model, diagnostics, annotationHash } = watcher.current();
+    const unmitigated = findUnmitigatedExposures(model);
+    const errors = [...diagnostics, ...findDanglingRefs(model)].filter(d => d.level === 'error').length;
+
+    // Status lines go to stderr so `--format json` leaves stdout as pure NDJSON.
+    console.error(`Watching ${root} (${watcher.mode() === 'events' ? 'filesystem events' : 'polling'}) — Ctrl+C to stop`);
+    console.error(`  ${model.annotations_parsed} annotation(s), ${unmitigated.length} unmitigated exposure(s), ${errors} error(s) — ${annotationHash}`);
+
+    watcher.subscribe(update => {
+      if (opts.format === 'json') console.log(JSON.stringify(update));
+      else console.log(formatWatchUpdate(update) + '\n');
+    });
+    watcher.onError(err => {
+      console.error(`⚠ watch: ${err instanceof Error ? err.message : String(err)}`);
+    });
+
+    const stop = () => {
+      watcher.close();
+      process.exit(0);
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+
 // ─── report ──────────────────────────────────────────────────────────
 
 program
@@ -658,11 +868,11 @@ program
   .description('Find @source blocks whose file:line no longer holds the symbol they name')
   .argument('[dir]', 'Project directory to scan', '.')
   .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
-  .option('--apply', 'Rewrite @source lines to the proposed positions (moved symbols only)')
+  .option('--apply', 'Rewrite @source lines to the proposed positions (moved, relocated and renamed symbols only)')
   .action(async (dir: string, opts: { project: string; apply?: boolean }) => {
     const root = resolve(dir);
     const { model } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined });
-    const drifts = findAnchorDrift(root, model);
+    const drifts = await findAnchorDrift(root, model);
 
     if (drifts.length === 0) {
       // D48. "Every anchored block is fine" is vacuously true when there are no
@@ -688,7 +898,7 @@ program
     }
 
     if (!opts.apply) {
-      const movable = drifts.filter(d => d.kind === 'moved').length;
+      const movable = drifts.filter(d => d.kind === 'moved' || d.kind === 'relocated' || d.kind === 'renamed').length;
       console.error(`\n${movable} of ${drifts.length} can be re-anchored automatically.`);
       console.error('Run with --apply to move them. The rest need a human — their symbol is gone.');
       process.exit(1);
@@ -740,11 +950,28 @@ program
   .argument('[ref]', 'Git ref to compare against (commit, branch, tag, HEAD~1)', 'HEAD~1')
   .option('-d, --dir <dir>', 'Project directory', '.')
   .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
-  .option('--markdown', 'Output as markdown (for PR comments)')
-  .option('--json', 'Output as JSON')
+  .option('-f, --format <fmt>', 'Output format: text, markdown, json, github-comment, gitlab-note, checks-annotations or gitlab-codequality', 'text')
+  .option('--markdown', 'Output as markdown (same as --format markdown)')
+  .option('--json', 'Output as JSON (same as --format json)')
+  .option('--payload <file>', 'With github-comment or gitlab-note: also write {"body": …} for `gh api` / `glab api --input`')
+  .option('--repo-url <url>', 'Repository web URL for permalinks (default: from CI variables or the origin remote)')
+  .option('--sha <commit>', 'Commit the permalinks and check run pin to (default: HEAD)')
   .option('--fail-on-new', 'Exit 1 if new unmitigated exposures found (CI mode)')
-  .action(async (ref: string, opts: { dir: string; project: string; markdown?: boolean; json?: boolean; failOnNew?: boolean }) => {
+  .action(async (ref: string, opts: {
+    dir: string; project: string; format: string; markdown?: boolean; json?: boolean;
+    payload?: string; repoUrl?: string; sha?: string; failOnNew?: boolean;
+  }) => {
     const root = resolve(opts.dir);
+    const format = opts.json ? 'json' : opts.markdown ? 'markdown' : opts.format;
+    const platform = format === 'github-comment' ? 'github' : format === 'gitlab-note' ? 'gitlab' : undefined;
+    if (!platform && !['text', 'markdown', 'json', 'checks-annotations', 'gitlab-codequality'].includes(format)) {
+      console.error(`Unknown --format '${format}'. Use text, markdown, json, github-comment, gitlab-note, checks-annotations or gitlab-codequality.`);
+      process.exit(1);
+    }
+    if (opts.payload && !platform) {
+      console.error('--payload needs --format github-comment or --format gitlab-note.');
+      process.exit(1);
+    }
 
     // Parse current state
     console.error(`Parsing current threat model...`);
@@ -765,9 +992,28 @@ program
     const diff = diffModels(previous, current, { changedFiles: getChangedFiles(root, ref) });
 
     // Output
-    if (opts.json) {
+    if (platform) {
+      const project = opts.project ?? readConfiguredProject(root) ?? undefined;
+      const body = formatDiffComment(diff, {
+        platform,
+        repoUrl: opts.repoUrl?.replace(/\/+$/, '') ?? getRepoWebUrl(root),
+        sha: opts.sha ?? getHeadSha(root),
+        project,
+      });
+      console.log(body);
+      if (opts.payload) {
+        const payload: CommentPayload = { body };
+        writeFileSync(resolve(opts.payload), JSON.stringify(payload, null, 2) + '\n');
+        console.error(`✓ Wrote ${opts.payload}`);
+      }
+    } else if (format === 'checks-annotations') {
+      const checkRun = toCheckRun(diffAnnotations(diff), { sha: opts.sha ?? getHeadSha(root), failOnNew: opts.failOnNew });
+      console.log(JSON.stringify(checkRun, null, 2));
+    } else if (format === 'gitlab-codequality') {
+      console.log(JSON.stringify(toCodeQuality(diffAnnotations(diff)), null, 2));
+    } else if (format === 'json') {
       console.log(JSON.stringify(diff, null, 2));
-    } else if (opts.markdown) {
+    } else if (format === 'markdown') {
       console.log(formatDiffMarkdown(diff));
     } else {
       console.log(formatDiff(diff));
@@ -779,6 +1025,50 @@ program
     }
   });
 
+// ─── history ─────────────────────────────────────────────────────────
+
+program
+  .command('history')
+  .description('Walk the commit log and chart the threat model over time')
+  .argument('[dir]', 'Project directory', '.')
+  .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
+  .option('--since <ref>', 'Only commits after this ref (default: the whole first-parent history)')
+  .option('--every <n>', 'Sample every Nth commit, counted back from HEAD', '1')
+  .option('--json', 'Output the time series as JSON')
+  .action(async (dir: string, opts: { project?: string; since?: string; every: string; json?: boolean }) => {
+    const root = resolve(dir);
+    const project = opts.project ?? readConfiguredProject(root) ?? undefined;
+    let points;
+    let saved: string | null = null;
+    try {
+      points = await collectHistory(root, project, {
+        since: opts.since,
+        every: Number(opts.every),
+        onCommit: (c, i, total) => console.error(`Parsing ${c.sha.slice(0, 8)} (${i + 1}/${total})...`),
+        onSave: file => { saved = file; },
+      });
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+
+    if (opts.json) {
+      console.log(JSON.stringify({ schema: HISTORY_SCHEMA, project: project ?? basename(root), points }, null, 2));
+    } else if (points.length === 0) {
+      console.log('No commits in range.');
+    } else {
+      console.log('COMMIT    DATE        EXPOSURES  UNMITIGATED  MITIGATIONS  COVERAGE  SUBJECT');
+      for (const p of points) {
+        console.log(`${p.commit.slice(0, 8)}  ${p.date.slice(0, 10)}  ${String(p.exposures).padStart(9)}  `
+          + `${String(p.unmitigated).padStart(11)}  ${String(p.mitigations).padStart(11)}  `
+          + `${`${p.coverage_percent}%`.padStart(8)}  ${p.subject.slice(0, 60)}`);
+      }
+    }
+    console.error(saved
+      ? `${points.length} point(s); saved to ${saved} for the dashboard's Trends page.`
+      : `${points.length} point(s).`);
+  });
+
 // ─── sarif ───────────────────────────────────────────────────────────
 
 program
@@ -824,6 +1114,39 @@ program
     console.error(`SARIF: ${resultCount} result(s) — ${errors} error(s), ${warnings} warning(s)`);
   });
 
+// ─── import-sarif ────────────────────────────────────────────────────
+
+program
+  .command('import-sarif')
+  .description('Map a scanner\'s SARIF 2.1.0 findings (Semgrep, CodeQL, Trivy, …) onto the threat model')
+  .argument('<file>', 'SARIF file to import')
+  .argument('[dir]', 'Project directory', '.')
+  .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
+  .option('--json', 'Output the matched findings as JSON')
+  .option('--no-save', 'Report only; do not write .guardlink/scanner-findings/')
+  .action(async (file: string, dir: string, opts: { project: string; json?: boolean; save?: boolean }) => {
+    const root = resolve(dir);
+    const { readFile } = await import('node:fs/promises');
+    let parsed: ParsedSarif;
+    try {
+      parsed = parseSarif(await readFile(resolve(file), 'utf-8'), root, file);
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+
+    const { model } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined });
+    const matches = matchScannerFindings(model, parsed.findings);
+    const written = opts.save !== false ? await saveScannerFindings(root, matches, parsed.tools) : [];
+
+    if (opts.json) {
+      console.log(JSON.stringify(matches, null, 2));
+    } else {
+      printScannerMatches(matches);
+    }
+    for (const path of written) console.error(`✓ Saved to ${path}`);
+  });
+
 // ─── threat-report ───────────────────────────────────────────────────
 
 program
@@ -1448,13 +1771,59 @@ program
 
 program
   .command('unannotated')
-  .description('List source files with no GuardLink annotations')
+  .description('List source files and HTTP endpoints with no GuardLink annotations')
   .argument('[dir]', 'Project directory to scan', '.')
   .option('-p, --project <n>', 'Project name (default: the name in .guardlink/config.json)')
-  .action(async (dir: string, opts: { project: string }) => {
+  .option('--endpoints', 'List every endpoint found, annotated or not, with its middleware chain')
+  .action(async (dir: string, opts: { project: string; endpoints?: boolean }) => {
     const root = resolve(dir);
     const { model } = await parseProject({ root, project: opts.project ?? readConfiguredProject(root) ?? undefined });
     printUnannotatedFiles(model);
+    printEndpoints(await inventoryEndpoints(root, model), !!opts.endpoints);
+  });
+
+// ─── rules ───────────────────────────────────────────────────────────
+
+const rulesCmd = program
+  .command('rules')
+  .description('Suggestion rule packs — .guardlink/rules/*.yaml and workspace shared_rules — that guardlink_suggest runs beside its built-in patterns');
+
+rulesCmd
+  .command('test')
+  .description('Check the rule packs and print what they suggest for a file')
+  .argument('<file>', 'Source file to run the rules on')
+  .option('-d, --dir <dir>', 'Project directory', '.')
+  .option('--pack <yaml>', 'Check and run only this pack')
+  .action(async (file: string, opts: { dir: string; pack?: string }) => {
+    const root = resolve(opts.dir);
+    const registry = loadLanguageRegistry(root);
+    let rules: SuggestionRule[];
+    try {
+      rules = opts.pack ? await loadRulePack(resolve(opts.pack), opts.pack, registry) : await loadRulePacks(root);
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+    if (rules.length === 0) {
+      console.error(`No rules — add a pack to ${RULES_DIR}/, or list one under shared_rules: in .guardlink/workspace.yaml.`);
+      return;
+    }
+    const path = resolve(file);
+    if (!existsSync(path)) {
+      console.error(`Error: ${file} does not exist`);
+      process.exit(1);
+    }
+
+    const rel = relative(root, path).split('\\').join('/');
+    const found = await suggestFromRules(rel, readFileSync(path, 'utf-8'), rules, registry);
+    for (const s of found) {
+      console.log(`${s.file}:${s.line}  [${s.rule}] ${s.confidence} ${s.category}`);
+      console.log(`  ${s.annotation}`);
+    }
+    const packs = new Set(rules.map(r => r.source)).size;
+    const silent = rules.filter(r => !found.some(s => s.rule === r.id)).map(r => r.id);
+    console.error(`✓ ${rules.length} rule(s) from ${packs} pack(s) — ${found.length} suggestion(s) in ${rel}`);
+    if (silent.length > 0) console.error(`  No match: ${silent.join(', ')}`);
   });
 
 // ─── review ──────────────────────────────────────────────────────────
@@ -1527,7 +1896,22 @@ program
           justification = (await ask('  Justification (required): ')).trim();
           if (!justification) console.error('  ⚠  Justification is mandatory for acceptance.');
         }
-        const result = await applyReviewAction(root, reviewable, { decision: 'accept', justification });
+        // Optional: an acceptance with a date is revisited; one without lives forever.
+        let until: string | undefined;
+        let by: string | undefined;
+        for (;;) {
+          until = (await ask('  Review by (YYYY-MM-DD, blank for none): ')).trim() || undefined;
+          const problem = checkAcceptanceReview(until);
+          if (!problem) break;
+          console.error(`  ⚠  ${problem}`);
+        }
+        while (until) {
+          by = (await ask('  Reviewer (blank for none): ')).trim() || undefined;
+          const problem = checkAcceptanceReview(until, by);
+          if (!problem) break;
+          console.error(`  ⚠  ${problem}`);
+        }
+        const result = await applyReviewAction(root, reviewable, { decision: 'accept', justification, until, by });
         results.push(result);
         console.error(`  ✓ Accepted — ${result.linesInserted} line(s) written to ${result.targetFile}\n`);
       } else if (choice === 'r') {
@@ -2367,8 +2751,39 @@ featureCmd
 program
   .command('mcp')
   .description('Start GuardLink MCP server (stdio transport) — for Claude Code, Cursor, etc.')
-  .action(async () => {
-    await startStdioServer();
+  .option('--watch', 'Keep each project\'s model live with a file watcher instead of re-checking the tree on every tool call')
+  .option('--http <port>', `Serve streamable HTTP on this port instead of stdio, for several clients to share. Needs a bearer token: $${DEFAULT_TOKEN_ENV}, or mcp.http in .guardlink/config.json`)
+  .option('--host <host>', 'Interface the HTTP server binds', '127.0.0.1')
+  .option('--read-only', 'Leave out the tools that write (with --http, mcp.http.read_only in config does the same)')
+  .action(async (opts: { watch?: boolean; http?: string; host: string; readOnly?: boolean }) => {
+    if (opts.http === undefined) {
+      await startStdioServer({ watch: opts.watch, readOnly: opts.readOnly });
+      return;
+    }
+    const port = Number(opts.http);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+      console.error(`Error: --http takes a port number, got '${opts.http}'`);
+      process.exit(1);
+    }
+    let config: HttpConfig;
+    try {
+      config = readHttpConfig(process.cwd());
+    } catch (err: any) {
+      console.error(`Error: ${err.message}`);
+      process.exit(1);
+    }
+    if (!config.token) {
+      console.error(`Error: no bearer token — set ${config.tokenSource}. The HTTP server does not start without one.`);
+      process.exit(1);
+    }
+    const readOnly = opts.readOnly || config.readOnly;
+    const server = await startHttpServer({ port, host: opts.host, token: config.token, roots: config.roots, readOnly, watch: opts.watch });
+    console.log(`GuardLink MCP serving ${server.url}${readOnly ? ' (read-only)' : ''}`);
+    console.log(`  Roots: ${config.roots.join(', ')}`);
+    console.log(`  Token: ${config.tokenSource}`);
+    const stop = () => { void server.close().then(() => process.exit(0)); };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
   });
 
 program
@@ -2468,10 +2883,12 @@ program
       console.log(EX('    // @confirmed  #secret-exposure  on  App.Config  [critical]  -- "Live key in repo; verified with provider"'));
       console.log('');
 
-      console.log(`  ${V('@accepts')}  ${K('<threat>')}  ${D('on')}  ${K('<asset>')}  ${D('[-- "reason"]')}`);
+      console.log(`  ${V('@accepts')}  ${K('<threat>')}  ${D('on')}  ${K('<asset>')}  ${D('[until:YYYY-MM-DD]  [by:owner]  [-- "reason"]')}`);
       console.log(D('    Explicitly accept a risk. Removes it from open findings.'));
       console.log(D('    Use when the risk is known and intentionally not mitigated.'));
       console.log(EX('    // @accepts  Timing Attack  on  api.auth  -- "Acceptable for current threat model"'));
+      console.log(D('    until: is the last day it holds; past it, validate warns and ci --strict fails.'));
+      console.log(EX('    // @accepts  #dos  on  #export-api  until:2026-12-31  by:platform-team  -- "Until the gateway lands"'));
       console.log('');
 
       console.log(`  ${V('@entitles')}  ${K('<actor>')}  ${D('to')}  ${K('<capability>')}  ${D('[on')}  ${K('<asset>')}${D(']')}  ${D('[against')}  ${K('<threat>')}${D(']')}  ${D('[-- "description"]')}`);
@@ -2596,6 +3013,9 @@ program
       console.log(D('  Example:'));
       console.log(EX('    // @exposes  api.auth  to  SQL Injection  [high]  cwe:CWE-89  owasp:A03:2021'));
       console.log('');
+      console.log(D('  One CVSS v3.1 or v4.0 vector per line is validated and scored; without [severity], the score sets it:'));
+      console.log(EX('    // @exposes  api.auth  to  #idor  cvss:CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N'));
+      console.log('');
 
       // ── TIPS ──
       console.log(H('  ── Tips ────────────────────────────────────────────────────'));
@@ -2626,6 +3046,37 @@ if (process.argv.length <= 2) {
 
 // ─── Helpers ─────────────────────────────────────────────────────────
 
+/**
+ * `validate --staged`: the findings that are in staged files. The rest of the
+ * model was the same before this commit, so it is not this commit's to fix —
+ * and a hook that reported it on every commit would soon be skipped.
+ */
+function reportStaged(staged: StagedParse, diagnostics: ParseDiagnostic[], strict: boolean): never {
+  if (staged.files.length === 0) {
+    console.error('Nothing staged.');
+    process.exit(0);
+  }
+  const files = new Set(staged.files);
+  const inStaged = (file: string | null | undefined) => file != null && files.has(file);
+  const diags = diagnostics.filter(d => inStaged(d.file));
+  const exposures = diffModels(staged.base, staged.model).newUnmitigatedExposures
+    .filter(e => inStaged(e.location.file) || inStaged(e.location.origin_file));
+
+  printDiagnostics(diags);
+  if (exposures.length > 0) {
+    console.error(`\n⚠  ${exposures.length} new unmitigated exposure(s) in staged files:`);
+    for (const e of exposures) {
+      console.error(`   ${e.asset} → ${e.threat} [${e.severity || 'unset'}] (${e.location.file}:${e.location.line})`);
+    }
+  }
+
+  const errorCount = diags.filter(d => d.level === 'error').length;
+  if (errorCount === 0) {
+    console.error(`\n✓ ${files.size} staged file(s) checked${exposures.length > 0 ? `, ${exposures.length} new unmitigated exposure(s)` : ''}.`);
+  }
+  process.exit(errorCount > 0 || (strict && exposures.length > 0) ? 1 : 0);
+}
+
 function printDiagnostics(diagnostics: ParseDiagnostic[]) {
   // D29: prose-like lines get their own heading. Mixed into the error list they
   // read as failures, which is what made writing documentation about GuardLink
@@ -2667,6 +3118,10 @@ function printStatus(model: ThreatModel) {
   console.log(`  Files annotated:    ${model.annotated_files.length}`);
   console.log(`  Files unannotated:  ${model.unannotated_files.length}`);
   console.log(`Annotations:      ${model.annotations_parsed}`);
+  const symbols = describeCoverage(model).symbols;
+  if (symbols) {
+    console.log(`Security symbols: ${symbols.coveredSymbols}/${symbols.securitySymbols} annotated (${symbols.percent}%)`);
+  }
   console.log(`${'─'.repeat(40)}`);
   console.log(`Assets:           ${model.assets.length}`);
   console.log(`Threats:          ${model.threats.length}`);
@@ -2696,6 +3151,78 @@ function printStatus(model: ThreatModel) {
   console.log(`Shields:          ${model.shields.length}`);
 }
 
+function printUncoveredSymbols(model: ThreatModel) {
+  const symbols = describeCoverage(model).symbols;
+  if (!symbols) {
+    console.log(`\nSymbol coverage not measured — no scanned file is in a language the symbol index reads.`);
+    return;
+  }
+  if (symbols.uncovered.length === 0) {
+    console.log(`\n✓ Every security-relevant function has an annotation.`);
+    return;
+  }
+  console.log(`\n⚠  ${symbols.uncovered.length} security-relevant symbol(s) with no annotation:`);
+  for (const u of symbols.uncovered) {
+    console.log(`   ${u.file}:${u.line}  ${u.symbol} [${u.categories.join(', ')}]`);
+  }
+}
+
+function printRisk(model: ThreatModel) {
+  const { assets, exposures } = computeRisk(model);
+  if (exposures.length === 0) {
+    console.log(`\nNo exposures to score.`);
+    return;
+  }
+  console.log(`\nRisk by asset (likelihood × impact, 1–25):`);
+  for (const a of assets.filter(a => a.exposures > 0)) {
+    console.log(`   ${String(a.score).padStart(2)} ${a.level.padEnd(8)} ${a.asset}  (${a.open} open of ${a.exposures})`);
+  }
+  console.log(`\nRisk by exposure:`);
+  for (const e of exposures) {
+    console.log(`   ${String(e.score).padStart(2)} ${e.level.padEnd(8)} ${e.asset} → ${e.threat} [${e.status}]  ${e.location.file}:${e.location.line}`);
+    console.log(`      L${e.likelihood} × I${e.impact}: ${e.factors.join('; ')}`);
+  }
+}
+
+function printScannerMatches(matches: ScannerMatch[]) {
+  const tools = [...new Set(matches.map(m => m.tool))];
+  console.log(`Imported ${matches.length} finding(s)${tools.length ? ` from ${tools.join(', ')}` : ''}.`);
+  const groups: [ScannerFindingStatus, string][] = [
+    ['unmitigated', 'On an unmitigated exposure'],
+    ['mitigated', 'On a mitigated exposure'],
+    ['accepted', 'On an accepted exposure'],
+    ['unmodelled', 'No modelled threat'],
+  ];
+  for (const [status, label] of groups) {
+    const rows = matches.filter(m => m.status === status);
+    if (rows.length === 0) continue;
+    console.log(`\n${label} (${rows.length}):`);
+    for (const m of rows) {
+      const sev = m.severity ? `[${m.severity}] ` : '';
+      const onto = m.threat ? `  → ${m.asset ?? '(no annotated asset in file)'} / ${m.threat}${m.confirmed ? ' (confirmed)' : ''}` : '';
+      console.log(`   ${sev}${m.rule}  ${m.file}:${m.line}${m.refs.length ? `  ${m.refs.join(' ')}` : ''}${onto}`);
+    }
+  }
+}
+
+/** The endpoints no annotation covers — or, with `all`, the whole inventory. */
+function printEndpoints(endpoints: InventoriedEndpoint[], all: boolean) {
+  if (endpoints.length === 0) return;
+  const rows = all ? endpoints : endpoints.filter(e => !e.annotated);
+  if (rows.length === 0) {
+    console.log(`\n✓ All ${endpoints.length} HTTP endpoint(s) have GuardLink annotations.`);
+    return;
+  }
+  console.log(all
+    ? `\n${endpoints.length} HTTP endpoint(s), ${endpoints.filter(e => !e.annotated).length} with no annotations:`
+    : `\n⚠  ${rows.length} of ${endpoints.length} HTTP endpoint(s) with no annotations:`);
+  for (const e of rows) {
+    const mark = all ? (e.annotated ? '✓ ' : '⚠ ') : '';
+    const chain = e.middleware.length ? `  [${e.middleware.map(m => m.kind === 'other' ? m.name : `${m.name}:${m.kind}`).join(', ')}]` : '';
+    console.log(`   ${mark}${e.method} ${e.path}  ${e.file}:${e.line}${e.handler ? `  → ${e.handler}` : ''}${chain}`);
+  }
+}
+
 function printUnannotatedFiles(model: ThreatModel) {
   if (model.unannotated_files.length === 0) {
     console.log(`\n✓ All source files have GuardLink annotations.`);
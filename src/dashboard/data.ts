@@ -3,8 +3,11 @@
  * Converts ThreatModel into dashboard-ready statistics.
  */
 
-import type { ThreatModel } from '../types/index.js';
+import type { CvssScore, ThreatModel } from '../types/index.js';
 import { buildCoverageIndex, annotationCount } from '../parser/coverage.js';
+import { compareBySeverity } from '../parser/cvss.js';
+import { canonicaliser } from '../parser/canonical-ref.js';
+import { computeRisk, type RiskLevel } from '../risk/index.js';
 
 // D57: a private `normalizeRef` lived here — it stripped `#` but, unlike the
 // canonical one in parser/coverage.ts, did not case-fold. Even the normaliser
@@ -48,6 +51,7 @@ export interface ExposureRow {
   asset: string;
   threat: string;
   severity: string;
+  cvss?: CvssScore;
   description: string;
   file: string;
   line: number;
@@ -59,6 +63,7 @@ export interface ConfirmedRow {
   threat: string;
   asset: string;
   severity: string;
+  cvss?: CvssScore;
   description: string;
   file: string;
   line: number;
@@ -71,7 +76,9 @@ export interface AssetHeatmapEntry {
   mitigations: number;
   flows: number;
   dataHandling: string[];
-  riskLevel: 'critical' | 'high' | 'medium' | 'low' | 'none';
+  /** The asset's risk score from src/risk — its worst exposure's likelihood × impact, 0–25. */
+  riskScore: number;
+  riskLevel: RiskLevel;
 }
 
 /**
@@ -133,18 +140,21 @@ export function computeExposures(model: ThreatModel): ExposureRow[] {
   // exposure table showed a same-file-different-symbol exposure as mitigated.
   const coverage = buildCoverageIndex(model);
 
+  // Most severe first. Every exposure table and drawer index reads this one
+  // list, so sorting it here keeps them agreeing on what row `i` is.
   return model.exposures.map(e => {
     return {
       asset: e.asset,
       threat: e.threat,
       severity: e.severity || 'unset',
+      cvss: e.cvss,
       description: e.description || '',
       file: e.location.file,
       line: e.location.line,
       mitigated: coverage.isMitigated(e),
       accepted: coverage.isAccepted(e),
     };
-  });
+  }).sort(compareBySeverity);
 }
 
 export function computeAssetHeatmap(model: ThreatModel): AssetHeatmapEntry[] {
@@ -155,24 +165,23 @@ export function computeAssetHeatmap(model: ThreatModel): AssetHeatmapEntry[] {
   for (const m of model.mitigations) assetNames.add(m.asset);
   for (const f of model.flows) { assetNames.add(f.source); assetNames.add(f.target); }
 
+  // Risk comes from the one scoring engine, keyed by canonical asset so a tile
+  // for `#db` and one for `Svc.Db` agree. It used to be "exposures minus
+  // mitigations", which counted a mitigation of a different threat as cover.
+  const key = canonicaliser(model);
+  const risk = new Map(computeRisk(model).assets.map(a => [key(a.asset), a]));
+
   return Array.from(assetNames).map(name => {
     const exposures = model.exposures.filter(e => e.asset === name).length;
     const mitigations = model.mitigations.filter(m => m.asset === name).length;
     const flows = model.flows.filter(f => f.source === name || f.target === name).length;
     const dataHandling = model.data_handling.filter(h => h.asset === name).map(h => h.classification);
-    const unmitigated = exposures - mitigations;
-
-    let riskLevel: AssetHeatmapEntry['riskLevel'] = 'none';
-    if (unmitigated >= 3) riskLevel = 'critical';
-    else if (unmitigated >= 2) riskLevel = 'high';
-    else if (unmitigated >= 1) riskLevel = 'medium';
-    else if (exposures > 0) riskLevel = 'low';
-
-    return { name, exposures, mitigations, flows, dataHandling, riskLevel };
-  }).sort((a, b) => {
-    const order = { critical: 0, high: 1, medium: 2, low: 3, none: 4 };
-    return order[a.riskLevel] - order[b.riskLevel];
-  });
+    const assetRisk = risk.get(key(name));
+    const riskScore = assetRisk?.score ?? 0;
+    const riskLevel: RiskLevel = assetRisk?.level ?? 'none';
+
+    return { name, exposures, mitigations, flows, dataHandling, riskScore, riskLevel };
+  }).sort((a, b) => b.riskScore - a.riskScore);
 }
 
 export function computeConfirmed(model: ThreatModel): ConfirmedRow[] {
@@ -180,6 +189,7 @@ export function computeConfirmed(model: ThreatModel): ConfirmedRow[] {
     threat: c.threat,
     asset: c.asset,
     severity: c.severity || 'unset',
+    cvss: c.cvss,
     description: c.description || '',
     file: c.location.file,
     line: c.location.line,
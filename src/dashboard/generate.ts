@@ -26,6 +26,8 @@ import type { DashboardStats, SeverityBreakdown, ExposureRow, ConfirmedRow, Asse
 import { generateThreatGraph, generateDataFlowDiagram, generateAttackSurface } from './diagrams.js';
 import type { ThreatReportWithContent } from '../analyze/index.js';
 import { canonicalizeModelOrder } from '../parser/canonical-order.js';
+import { matchScannerFindings, loadScannerFindings, type ScannerMatch, type ScannerFindingStatus } from '../analyzer/sarif-import.js';
+import { loadHistory, type HistoryPoint } from '../diff/history.js';
 import { readFileSync } from 'fs';
 import { resolve, isAbsolute } from 'path';
 
@@ -60,6 +62,14 @@ export function generateDashboardHTML(rawModel: ThreatModel, root?: string, anal
   const severity = computeSeverity(model);
   const exposures = computeExposures(model);
   const confirmedRows = computeConfirmed(model);
+  // Saved scanner findings are placed against this model, not read back with the
+  // status they had at import, so a mitigation added since shows here at once.
+  const scopedFiles = new Set(model.features.map(f => f.location.file));
+  const scannerRows = (root ? matchScannerFindings(model, loadScannerFindings(root)) : [])
+    .filter(m => !scope || scopedFiles.has(m.file));
+  // Points saved by `guardlink history`. Whole-project by construction — each is
+  // a parse of the full tree at a commit — so a slice labels them, not filters them.
+  const historyPoints = root ? loadHistory(root) : [];
   const heatmap = computeAssetHeatmap(model);
   const threatGraph = generateThreatGraph(model);
   const threatGraphFull = generateThreatGraph(model, { showAll: true });
@@ -75,7 +85,7 @@ export function generateDashboardHTML(rawModel: ThreatModel, root?: string, anal
   // Files actually carrying one of the scoped @feature tags. `annotated_files`
   // is not the same thing: definitions the feature references live in
   // `.guardlink/definitions.*`, which carries no tag.
-  const scopeFiles = scope ? new Set(model.features.map(f => f.location.file)).size : 0;
+  const scopeFiles = scope ? scopedFiles.size : 0;
 
   // Build file annotations data for code browser + drawer
   const fileAnnotations = buildFileAnnotations(model, root);
@@ -163,6 +173,7 @@ ${scope ? `<div id="scope-banner" class="scope-banner" role="note">
     <div class="sep"></div>
     <a onclick="showSection('data',this)"><span class="nav-icon"><svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor"><path d="M4 2h8v2H4V2zm0 3h8v2H4V5zm0 3h8v2H4V8zm0 3h8v2H4v-2zm-2-9v12h12V2H2zm1 1h10v10H3V3z"/></svg></span> <span class="nav-text">Data &amp; Boundaries</span></a>
     <a onclick="showSection('assets',this)"><span class="nav-icon"><svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor"><path d="M1 3h14v10H1V3zm1 1v8h12V4H2zm2 2h8v1H4V6zm0 2h6v1H4V8z"/></svg></span> <span class="nav-text">Asset Heatmap</span></a>
+    <a onclick="showSection('trends',this)"><span class="nav-icon"><svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor"><path d="M1 13h14v1H1v-1zm1-2l4-4 3 3 5-6 1 1-6 7-3-3-3 3-1-1z"/></svg></span> <span class="nav-text">Trends</span></a>
   </div>
   <button id="sidebarToggle" onclick="toggleSidebar()" title="Collapse sidebar">
     <svg class="chevron-left" width="16" height="16" viewBox="0 0 16 16" fill="currentColor"><path d="M10 2L4 8l6 6V2z"/></svg>
@@ -175,11 +186,12 @@ ${scope ? `<div id="scope-banner" class="scope-banner" role="note">
 
 ${renderSummaryPage(stats, severity, riskScore, unmitigated, exposures, model, mitigatedCount, mitigationCoveragePercent, scope, scopeFiles)}
 ${renderAIAnalysisPage(analyses || [], scope)}
-${renderThreatsPage(exposures, confirmedRows, model, scope)}
+${renderThreatsPage(exposures, confirmedRows, scannerRows, model, scope)}
 ${renderDiagramsPage(threatGraph, threatGraphFull, dataFlow, attackSurface, scope)}
 ${renderCodePage(fileAnnotations, model, scope, scopeFiles)}
 ${renderDataPage(model, scope)}
 ${renderAssetsPage(heatmap, scope)}
+${renderTrendsPage(historyPoints, scope)}
 
 </div><!-- /main -->
 </div><!-- /layout -->
@@ -249,6 +261,7 @@ function openDrawer(type, idx) {
     title.textContent = e.threat + ' (Open)';
     h += sec('Status', '<span style="color:var(--red);font-weight:600">OPEN — No mitigation</span>');
     h += sec('Severity', '<span class="fc-sev ' + sevCls(e.severity) + '">' + esc(e.severity) + '</span>');
+    if (e.cvss) h += sec('CVSS ' + esc(e.cvss.version), '<strong>' + e.cvss.score.toFixed(1) + '</strong> <code>' + esc(e.cvss.vector) + '</code>');
     h += sec('Asset', '<code>' + esc(e.asset) + '</code>');
     h += sec('Threat', '<code>' + esc(e.threat) + '</code>');
     if (e.description) h += sec('Description', esc(e.description));
@@ -259,6 +272,7 @@ function openDrawer(type, idx) {
     title.textContent = e.threat + ' (Mitigated)';
     h += sec('Status', '<span style="color:var(--green);font-weight:600">MITIGATED</span>');
     h += sec('Severity', '<span class="fc-sev ' + sevCls(e.severity) + '">' + esc(e.severity) + '</span>');
+    if (e.cvss) h += sec('CVSS ' + esc(e.cvss.version), '<strong>' + e.cvss.score.toFixed(1) + '</strong> <code>' + esc(e.cvss.vector) + '</code>');
     h += sec('Asset', '<code>' + esc(e.asset) + '</code>');
     if (e.description) h += sec('Description', esc(e.description));
     h += sec('Location', '<span style="font-family:var(--font-mono);font-size:.78rem;color:var(--muted)">' + esc(e.file) + ':' + e.line + '</span>');
@@ -267,6 +281,7 @@ function openDrawer(type, idx) {
     title.textContent = c.threat + ' (Confirmed)';
     h += '<div style="background:var(--badge-red-bg);border:1px solid var(--sev-crit);border-radius:6px;padding:.6rem;margin-bottom:1rem"><div style="font-size:.82rem;font-weight:700;color:var(--sev-crit)">🔴 CONFIRMED EXPLOITABLE</div><div style="font-size:.75rem;margin-top:.2rem;color:var(--muted)">Verified through testing — not a false positive</div></div>';
     h += sec('Severity', '<span class="fc-sev ' + sevCls(c.severity) + '">' + esc(c.severity) + '</span>');
+    if (c.cvss) h += sec('CVSS ' + esc(c.cvss.version), '<strong>' + c.cvss.score.toFixed(1) + '</strong> <code>' + esc(c.cvss.vector) + '</code>');
     h += sec('Asset', '<code>' + esc(c.asset) + '</code>');
     h += sec('Threat', '<code>' + esc(c.threat) + '</code>');
     if (c.description) h += sec('Evidence', esc(c.description));
@@ -280,6 +295,7 @@ function openDrawer(type, idx) {
     const color = e.mitigated ? 'var(--green)' : e.accepted ? 'var(--sev-low)' : 'var(--red)';
     h += sec('Status', '<span style="color:' + color + ';font-weight:600">' + status + '</span>');
     h += sec('Severity', '<span class="fc-sev ' + sevCls(e.severity) + '">' + esc(e.severity) + '</span>');
+    if (e.cvss) h += sec('CVSS ' + esc(e.cvss.version), '<strong>' + e.cvss.score.toFixed(1) + '</strong> <code>' + esc(e.cvss.vector) + '</code>');
     h += sec('Asset', '<code>' + esc(e.asset) + '</code>');
     if (e.description) h += sec('Description', esc(e.description));
     h += sec('Location', '<span style="font-family:var(--font-mono);font-size:.78rem;color:var(--muted)">' + esc(e.file) + ':' + e.line + '</span>');
@@ -290,7 +306,7 @@ function openDrawer(type, idx) {
     // Risk level banner
     const riskColors = { critical: 'var(--sev-crit)', high: 'var(--sev-high)', medium: 'var(--sev-med)', low: 'var(--sev-low)', none: 'var(--border)' };
     const rColor = riskColors[a.riskLevel] || 'var(--border)';
-    h += sec('Risk Level', '<span style="color:' + rColor + ';font-weight:600;text-transform:uppercase">' + a.riskLevel + '</span>');
+    h += sec('Risk Level', '<span style="color:' + rColor + ';font-weight:600;text-transform:uppercase">' + a.riskLevel + '</span> <span style="color:var(--muted)">(' + a.riskScore + ' / 25)</span>');
     
     // Stats
     h += '<div style="display:flex;gap:1rem;margin-bottom:1rem">';
@@ -1180,7 +1196,7 @@ ${scope ? `  <p class="scope-note">⚠ These reports are <strong>whole-project</
 </div>`;
 }
 
-function renderThreatsPage(exposures: ExposureRow[], confirmed: ConfirmedRow[], model: ThreatModel, scope: string[] | null): string {
+function renderThreatsPage(exposures: ExposureRow[], confirmed: ConfirmedRow[], scanner: ScannerMatch[], model: ThreatModel, scope: string[] | null): string {
   const open = exposures.filter(e => !e.mitigated && !e.accepted);
   const mitigated = exposures.filter(e => e.mitigated);
   const accepted = exposures.filter(e => e.accepted);
@@ -1211,6 +1227,25 @@ ${scope ? `  <p class="scope-note">Only exposures annotated in the files tagged
     </tbody>
   </table>` : ''}
 
+  ${scanner.length > 0 ? `
+  <div class="sub-h sub-h-neutral">🛰 Scanner Findings (${scanner.length})</div>
+  <p class="section-note">Imported with <code>guardlink import-sarif</code>, placed on the nearest annotated asset in the same file and on the threat whose CWE or CVE they name.</p>
+  <table>
+    <thead><tr><th>Tool</th><th>Rule</th><th>Severity</th><th>Lands on</th><th>Asset</th><th>Threat</th><th>Location</th></tr></thead>
+    <tbody>
+    ${scanner.map(m => `
+    <tr data-ff="${esc(m.file)}"${m.status === 'unmitigated' ? ' class="row-open"' : ''}>
+      <td>${esc(m.tool)}</td>
+      <td><code>${esc(m.rule)}</code>${m.refs.length ? ` <span class="loc">${esc(m.refs.join(' '))}</span>` : ''}</td>
+      <td><span class="fc-sev ${sevClass(m.severity || 'unset')}">${esc(m.severity || 'unset')}</span></td>
+      <td>${esc(SCANNER_STATUS_LABEL[m.status])}${m.confirmed ? ' · confirmed' : ''}</td>
+      <td>${m.asset ? `<code>${esc(m.asset)}</code>` : '—'}</td>
+      <td>${m.threat ? `<code>${esc(m.threat)}</code>` : '—'}</td>
+      <td class="loc">${esc(m.file)}:${m.line}</td>
+    </tr>`).join('')}
+    </tbody>
+  </table>` : ''}
+
   <div class="sub-h sub-h-alert">Open Threats (${open.length})</div>
   <p class="section-note">Exposed in code but <strong>not mitigated</strong> by any control.</p>
   ${open.length > 0 ? `
@@ -1620,13 +1655,14 @@ function renderAssetsPage(heatmap: AssetHeatmapEntry[], scope: string[] | null):
   return `
 <div id="sec-assets" class="section-content">
   <div class="sec-h"><span class="sec-icon">🗺</span> Asset Risk Heatmap${scope ? ` <span class="scope-tag">feature ${esc(scopeLabel(scope))}</span>` : ''}</div>
-  <p style="color:var(--muted);font-size:.78rem;margin-bottom:.8rem">Assets sorted by risk level. Unmitigated exposures increase risk. Click an asset for details.${scope ? ` Only assets ${esc(scopeLabel(scope))} touches appear, and each tile counts only that feature's exposures, mitigations and flows — an asset shown here as low-risk may carry open threats elsewhere in the project.` : ''}</p>
+  <p style="color:var(--muted);font-size:.78rem;margin-bottom:.8rem">Assets sorted by risk: likelihood × impact of their worst exposure, from severity, data handled, reachability from outside and trust boundaries. Click an asset for details.${scope ? ` Only assets ${esc(scopeLabel(scope))} touches appear, and each tile counts only that feature's exposures, mitigations and flows — an asset shown here as low-risk may carry open threats elsewhere in the project.` : ''}</p>
   ${heatmap.length > 0 ? `
   <div class="heatmap">
     ${heatmap.map((a, i) => `
     <div class="heatmap-cell risk-cell-${a.riskLevel} clickable" data-ff-asset="${esc(a.name)}" onclick="openDrawer('asset', ${i})">
       <div class="heatmap-name">${esc(a.name)}</div>
       <div class="heatmap-stats">
+        <span title="Risk score (likelihood × impact)">◆ ${a.riskScore}</span>
         <span title="Exposures">⚠ ${a.exposures}</span>
         <span title="Mitigations">🛡 ${a.mitigations}</span>
         <span title="Data flows">↔ ${a.flows}</span>
@@ -1637,6 +1673,79 @@ function renderAssetsPage(heatmap: AssetHeatmapEntry[], scope: string[] | null):
 </div>`;
 }
 
+function renderTrendsPage(points: HistoryPoint[], scope: string[] | null): string {
+  const latest = points.length > 0 ? points[points.length - 1] : null;
+  return `
+<div id="sec-trends" class="section-content">
+  <div class="sec-h"><span class="sec-icon">📈</span> Trends</div>
+  <p style="color:var(--muted);font-size:.78rem;margin-bottom:.8rem">The threat model at each commit sampled by <code>guardlink history</code>, oldest on the left. Hover a point for its commit.</p>
+${scope ? `  <p class="scope-note">⚠ These are <strong>whole-project</strong> numbers. Each point is a parse of the full tree at a commit; unlike the rest of this page they are not narrowed to ${esc(scopeLabel(scope))}.</p>` : ''}
+  ${latest ? `
+  <div class="trend-chart">
+    <div class="trend-title">Exposures and mitigations</div>
+    ${trendChart(points, [
+      { key: 'exposures', label: 'Exposures', cls: 'trend-exposures' },
+      { key: 'unmitigated', label: 'Unmitigated', cls: 'trend-unmitigated' },
+      { key: 'mitigations', label: 'Mitigations', cls: 'trend-mitigations' },
+    ])}
+  </div>
+  <div class="trend-chart">
+    <div class="trend-title">File coverage (%)</div>
+    ${trendChart(points, [{ key: 'coverage_percent', label: 'Coverage', cls: 'trend-coverage' }], 100)}
+  </div>
+  <table>
+    <thead><tr><th>Commit</th><th>Date</th><th>Exposures</th><th>Unmitigated</th><th>Mitigations</th><th>Coverage</th><th>Annotation hash</th><th>Subject</th></tr></thead>
+    <tbody>
+    ${[...points].reverse().map(p => `
+    <tr>
+      <td class="loc">${esc(p.commit.slice(0, 8))}</td>
+      <td>${esc(p.date.slice(0, 10))}</td>
+      <td>${p.exposures}</td>
+      <td>${p.unmitigated}</td>
+      <td>${p.mitigations}</td>
+      <td>${p.coverage_percent}%</td>
+      <td class="loc" title="${esc(p.annotation_hash)}">${esc(shortHash(p.annotation_hash))}</td>
+      <td>${esc(p.subject)}</td>
+    </tr>`).join('')}
+    </tbody>
+  </table>` : `<p class="empty-state">No history yet. Run <code>guardlink history</code> to sample the commit log, then regenerate the dashboard.</p>`}
+</div>`;
+}
+
+type TrendKey = 'exposures' | 'unmitigated' | 'mitigations' | 'coverage_percent';
+
+/**
+ * An inline SVG line chart, one polyline per series, drawn server-side so the
+ * page needs no charting script and regenerates byte-identical.
+ */
+function trendChart(points: HistoryPoint[], series: { key: TrendKey; label: string; cls: string }[], fixedMax?: number): string {
+  const width = 720, height = 180, padX = 36, padY = 14;
+  const max = fixedMax ?? Math.max(1, ...points.flatMap(p => series.map(s => p[s.key])));
+  const x = (i: number) => points.length === 1 ? width / 2 : padX + (i * (width - 2 * padX)) / (points.length - 1);
+  const y = (v: number) => height - padY - (v * (height - 2 * padY)) / max;
+  const lines = series.map(s => {
+    const coords = points.map((p, i) => `${x(i).toFixed(1)},${y(p[s.key]).toFixed(1)}`);
+    const dots = points.map((p, i) =>
+      `<circle cx="${x(i).toFixed(1)}" cy="${y(p[s.key]).toFixed(1)}" r="3"><title>${esc(`${s.label}: ${p[s.key]} — ${p.commit.slice(0, 8)} ${p.date.slice(0, 10)} ${p.subject}`)}</title></circle>`).join('');
+    return `<g class="${s.cls}"><polyline points="${coords.join(' ')}"/>${dots}</g>`;
+  }).join('');
+  const first = points[0], last = points[points.length - 1];
+  return `<svg class="trend-svg" viewBox="0 0 ${width} ${height + 16}" role="img" aria-label="${esc(series.map(s => s.label).join(', '))} over time">
+      <line class="trend-axis" x1="${padX}" y1="${height - padY}" x2="${width - padX}" y2="${height - padY}"/>
+      <text class="trend-label" x="${padX - 6}" y="${padY + 4}" text-anchor="end">${max}</text>
+      <text class="trend-label" x="${padX - 6}" y="${height - padY + 4}" text-anchor="end">0</text>
+      <text class="trend-label" x="${padX}" y="${height + 10}">${esc(first.date.slice(0, 10))}</text>
+      <text class="trend-label" x="${width - padX}" y="${height + 10}" text-anchor="end">${esc(last.date.slice(0, 10))}</text>
+      ${lines}
+    </svg>
+    <div class="trend-legend">${series.map(s => `<span class="${s.cls}"><i></i>${esc(s.label)}</span>`).join('')}</div>`;
+}
+
+/** `sha256-v1:3f2a9c…` → `3f2a9c1d` — enough to see where the model changed. */
+function shortHash(hash: string): string {
+  return hash.slice(hash.indexOf(':') + 1, hash.indexOf(':') + 9);
+}
+
 // ─── Data builders ───────────────────────────────────────────────────
 
 interface FileAnnotation {
@@ -1777,6 +1886,13 @@ function severityBar(label: string, count: number, total: number, cls: string):
   </div>`;
 }
 
+const SCANNER_STATUS_LABEL: Record<ScannerFindingStatus, string> = {
+  unmitigated: 'Unmitigated exposure',
+  mitigated: 'Mitigated exposure',
+  accepted: 'Accepted exposure',
+  unmodelled: 'No modelled threat',
+};
+
 function sevClass(s: string): string {
   const l = (s || '').toLowerCase();
   if (l === 'critical' || l === 'p0') return 'crit';
@@ -2631,6 +2747,20 @@ tr.clickable:hover { background: var(--table-hover); }
 .risk-cell-low      { background: var(--heatmap-low);  border-color: var(--risk-border-b); }
 .risk-cell-none     { background: var(--heatmap-none); }
 
+/* ── Trends ── */
+.trend-chart { margin-bottom: 1.2rem; }
+.trend-title { font-size: .78rem; font-weight: 600; color: var(--muted); margin-bottom: .3rem; }
+.trend-svg { width: 100%; max-width: 760px; height: auto; display: block; }
+.trend-svg polyline { fill: none; stroke-width: 2; }
+.trend-axis { stroke: var(--border); stroke-width: 1; }
+.trend-label { fill: var(--muted); font-size: 10px; font-family: var(--font-mono); }
+.trend-legend { display: flex; gap: 14px; font-size: 12px; color: var(--muted); margin-top: .3rem; }
+.trend-legend i { display: inline-block; width: 10px; height: 10px; border-radius: 2px; margin-right: 5px; vertical-align: -1px; background: currentColor; }
+.trend-exposures polyline { stroke: var(--blue); }      .trend-exposures circle { fill: var(--blue); }      .trend-legend .trend-exposures i { background: var(--blue); }
+.trend-unmitigated polyline { stroke: var(--red); }     .trend-unmitigated circle { fill: var(--red); }     .trend-legend .trend-unmitigated i { background: var(--red); }
+.trend-mitigations polyline { stroke: var(--green); }   .trend-mitigations circle { fill: var(--green); }   .trend-legend .trend-mitigations i { background: var(--green); }
+.trend-coverage polyline { stroke: var(--accent); }     .trend-coverage circle { fill: var(--accent); }     .trend-legend .trend-coverage i { background: var(--accent); }
+
 /* ── Code Blocks ── */
 .code-block {
   background: var(--bg);
@@ -0,0 +1,188 @@
+/**
+ * GuardLink Diff — line-level annotations for the PR diff view.
+ *
+ * The comment (comment.ts) summarises a delta; these put it on the lines it is
+ * about. One entry per:
+ *
+ *   new unmitigated exposure → at the @exposes line
+ *   removed mitigation       → at the line the @mitigates was on before
+ *   stale entitlement        → at the cited authorization code that changed
+ *
+ * Each is read straight off `ThreatModelDiff` — `newUnmitigatedExposures`, the
+ * `removed` entries of `mitigations`, `staleEntitlements` — and then written in
+ * two shapes: a GitHub check run (`output.annotations`) and a GitLab Code
+ * Quality report. Neither is sent anywhere; CI posts the check run with
+ * `gh api` and publishes the report as a `codequality` artifact.
+ *
+ * @comment -- "Pure formatting over ThreatModelDiff; no I/O. Fingerprints are line-independent — an exposure's is built on the SARIF threatId — so GitLab matches an issue across pushes that move its line"
+ */
+
+import { createHash } from 'node:crypto';
+
+import type { Severity } from '../types/index.js';
+import type { ThreatModelDiff } from './engine.js';
+import { threatId } from '../analyzer/sarif.js';
+
+export type DiffAnnotationKind = 'new-exposure' | 'removed-mitigation' | 'stale-entitlement';
+
+export interface DiffAnnotation {
+  kind: DiffAnnotationKind;
+  /** Repo-relative. */
+  file: string;
+  line: number;
+  /** The exposure's severity. Unset for the other kinds, and for exposures written without one. */
+  severity?: Severity;
+  title: string;
+  message: string;
+  /** Stable across pushes that only move the line. */
+  fingerprint: string;
+}
+
+/** GitHub accepts at most this many annotations per check run request. */
+export const CHECK_RUN_ANNOTATION_LIMIT = 50;
+
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  title: string;
+  message: string;
+}
+
+/** The body of `POST /repos/{owner}/{repo}/check-runs` — `gh api … --input` posts it as-is. */
+export interface CheckRunPayload {
+  name: string;
+  head_sha?: string;
+  status: 'completed';
+  conclusion: 'success' | 'neutral' | 'failure';
+  output: { title: string; summary: string; annotations: CheckRunAnnotation[] };
+}
+
+/** One issue of a GitLab Code Quality report (the Code Climate subset GitLab reads). */
+export interface CodeQualityIssue {
+  description: string;
+  check_name: DiffAnnotationKind;
+  fingerprint: string;
+  severity: 'info' | 'minor' | 'major' | 'critical' | 'blocker';
+  location: { path: string; lines: { begin: number } };
+}
+
+const fingerprint = (kind: DiffAnnotationKind, basis: string) =>
+  createHash('sha256').update(`${kind}|${basis}`).digest('hex').slice(0, 32);
+
+/** Every line-level finding in a delta, in the order the diff lists them. */
+export function diffAnnotations(diff: ThreatModelDiff): DiffAnnotation[] {
+  const out: DiffAnnotation[] = [];
+
+  for (const e of diff.newUnmitigatedExposures) {
+    out.push({
+      kind: 'new-exposure',
+      file: e.location.file,
+      line: e.location.line,
+      severity: e.severity,
+      title: `New unmitigated exposure: ${e.asset} → ${e.threat}`,
+      message: `${e.asset} is exposed to ${e.threat}${e.severity ? ` [${e.severity}]` : ''} and nothing mitigates or accepts it.`
+        + (e.description ? ` "${e.description}"` : ''),
+      fingerprint: fingerprint('new-exposure', threatId(e.asset, e.threat, e.location.file)),
+    });
+  }
+
+  for (const c of diff.mitigations) {
+    if (c.kind !== 'removed') continue;
+    const m = c.item;
+    out.push({
+      kind: 'removed-mitigation',
+      file: m.location.file,
+      line: m.location.line,
+      title: `Mitigation removed: ${m.asset} against ${m.threat}`,
+      message: `@mitigates ${m.asset} against ${m.threat}${m.control ? ` using ${m.control}` : ''} was here and has been removed.`
+        + ' Check that the control still applies, or that the exposure is handled elsewhere.',
+      fingerprint: fingerprint('removed-mitigation', `${m.asset}|${m.threat}|${m.control ?? ''}|${m.location.file}`),
+    });
+  }
+
+  for (const s of diff.staleEntitlements) {
+    const e = s.entitlement;
+    out.push({
+      kind: 'stale-entitlement',
+      file: s.citedFile,
+      line: e.citation?.line ?? 1,
+      title: `Stale entitlement: ${e.actor} → ${e.capability}`,
+      message: `@entitles ${e.actor} to ${e.capability} (${e.location.file}:${e.location.line}) cites this code, which changed.`
+        + ' Re-check that the entitlement still holds.',
+      fingerprint: fingerprint('stale-entitlement', `${e.actor}|${e.capability}|${e.asset ?? ''}|${e.threat ?? ''}|${s.citedFile}`),
+    });
+  }
+
+  return out;
+}
+
+function checkLevel(a: DiffAnnotation): CheckRunAnnotation['annotation_level'] {
+  if (a.kind !== 'new-exposure') return 'warning';
+  if (a.severity === 'critical' || a.severity === 'high') return 'failure';
+  return a.severity === 'medium' ? 'warning' : 'notice';
+}
+
+function codeQualitySeverity(a: DiffAnnotation): CodeQualityIssue['severity'] {
+  if (a.kind !== 'new-exposure') return 'minor';
+  switch (a.severity) {
+    case 'critical': return 'critical';
+    case 'high': return 'major';
+    case 'low': return 'info';
+    default: return 'minor';
+  }
+}
+
+/**
+ * A completed check run carrying the annotations.
+ *
+ * The conclusion is `neutral` when there is anything to look at and `success`
+ * when not — advisory, like `guardlink ci`. `failOnNew` makes new unmitigated
+ * exposures a `failure`, matching `guardlink diff --fail-on-new`. Past the
+ * per-request limit the rest are left out and the summary says how many.
+ */
+export function toCheckRun(
+  annotations: DiffAnnotation[],
+  opts: { sha?: string; failOnNew?: boolean; name?: string } = {},
+): CheckRunPayload {
+  const exposures = annotations.filter(a => a.kind === 'new-exposure').length;
+  const shown = annotations.slice(0, CHECK_RUN_ANNOTATION_LIMIT);
+  const summary = [
+    `${exposures} new unmitigated exposure(s), `
+      + `${annotations.filter(a => a.kind === 'removed-mitigation').length} removed mitigation(s), `
+      + `${annotations.filter(a => a.kind === 'stale-entitlement').length} stale entitlement(s).`,
+  ];
+  if (annotations.length > shown.length) {
+    summary.push(`${annotations.length - shown.length} more not shown — a check run takes ${CHECK_RUN_ANNOTATION_LIMIT} annotations per request. Run \`guardlink diff\` for the full list.`);
+  }
+  return {
+    name: opts.name ?? 'GuardLink threat model',
+    ...(opts.sha ? { head_sha: opts.sha } : {}),
+    status: 'completed',
+    conclusion: opts.failOnNew && exposures > 0 ? 'failure' : annotations.length > 0 ? 'neutral' : 'success',
+    output: {
+      title: annotations.length > 0 ? `${annotations.length} threat model finding(s) in this change` : 'No threat model findings in this change',
+      summary: summary.join('\n\n'),
+      annotations: shown.map(a => ({
+        path: a.file,
+        start_line: a.line,
+        end_line: a.line,
+        annotation_level: checkLevel(a),
+        title: a.title,
+        message: a.message,
+      })),
+    },
+  };
+}
+
+/** A GitLab Code Quality report — the `artifacts:reports:codequality` file. */
+export function toCodeQuality(annotations: DiffAnnotation[]): CodeQualityIssue[] {
+  return annotations.map(a => ({
+    description: `${a.title}. ${a.message}`,
+    check_name: a.kind,
+    fingerprint: a.fingerprint,
+    severity: codeQualitySeverity(a),
+    location: { path: a.file, lines: { begin: a.line } },
+  }));
+}
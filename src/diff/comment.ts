@@ -0,0 +1,144 @@
+/**
+ * GuardLink Diff — PR comment bodies for GitHub and GitLab.
+ *
+ * `formatDiffMarkdown` is a report; this is a comment a CI job posts on every
+ * push. Three things follow from that:
+ *
+ *   - The body starts with a hidden marker, so the job can find its earlier
+ *     comment and edit it instead of adding another one per push.
+ *   - What needs a reviewer — new unmitigated exposures and stale entitlements —
+ *     is at the top, each linked to the line at the commit under review; the
+ *     full delta is folded into a <details> block below it.
+ *   - The same exposure written twice in one file — on an overload and its
+ *     implementation, say — is one entry with a count, linked to the first.
+ *
+ * Posting is left to `gh` / `glab`: GuardLink builds the body and the
+ * `{"body": …}` payload their `api --input` takes, and makes no network call.
+ *
+ * @comment -- "Pure string formatting; no I/O. Repository URL and commit come in as options (see getRepoWebUrl and getHeadSha in git.ts)"
+ */
+
+import type { ThreatModelExposure } from '../types/index.js';
+import type { ThreatModelDiff, StaleEntitlement } from './engine.js';
+import { formatDiff } from './format.js';
+
+export type CommentPlatform = 'github' | 'gitlab';
+
+export interface CommentOptions {
+  platform: CommentPlatform;
+  /** Web URL of the repository, e.g. `https://github.com/org/repo`. Without it, locations print as code spans. */
+  repoUrl?: string;
+  /** The commit links pin to, so a later push does not move the line under them. Required for links. */
+  sha?: string;
+  /** Put in the marker, so two projects commenting on one PR each update their own comment. */
+  project?: string;
+}
+
+/** The `{"body": …}` object `gh api … --input` and `glab api … --input` post as-is. */
+export interface CommentPayload {
+  body: string;
+}
+
+/** `<!-- guardlink:diff -->`, or `<!-- guardlink:diff project=name -->`. The first line of every body. */
+export function commentMarker(project?: string): string {
+  const name = project?.replace(/[^\w.-]/g, '_');
+  return name ? `<!-- guardlink:diff project=${name} -->` : '<!-- guardlink:diff -->';
+}
+
+/** A link to `file` at `line`, pinned to the commit — or a code span when there is nothing to link into. */
+export function permalink(opts: CommentOptions, file: string, line?: number): string {
+  const label = `\`${line ? `${file}:${line}` : file}\``;
+  if (!opts.repoUrl || !opts.sha) return label;
+  const path = file.split('/').map(encodeURIComponent).join('/');
+  const blob = opts.platform === 'gitlab' ? '-/blob' : 'blob';
+  return `[${label}](${opts.repoUrl}/${blob}/${opts.sha}/${path}${line ? `#L${line}` : ''})`;
+}
+
+/** Group identical entries in first-seen order, keeping how many times each occurred. */
+function dedupe<T>(items: T[], key: (item: T) => string): { item: T; count: number }[] {
+  const seen = new Map<string, { item: T; count: number }>();
+  for (const item of items) {
+    const k = key(item);
+    const entry = seen.get(k);
+    if (entry) entry.count += 1;
+    else seen.set(k, { item, count: 1 });
+  }
+  return [...seen.values()];
+}
+
+const times = (count: number) => (count > 1 ? ` (×${count})` : '');
+
+// Line-independent, like the SARIF threatId: a second copy lower in the file is the same finding.
+const exposureKey = (e: ThreatModelExposure) => `${e.asset}|${e.threat}|${e.location.file}`;
+const staleKey = (s: StaleEntitlement) => {
+  const e = s.entitlement;
+  return `${e.actor}|${e.capability}|${e.asset ?? ''}|${e.threat ?? ''}|${e.location.file}|${s.citedFile}`;
+};
+
+/** A fence the text inside cannot close. */
+function fenced(text: string): string[] {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(longest + 1);
+  return [`${fence}text`, text, fence];
+}
+
+/**
+ * The comment body for `guardlink diff --format github-comment|gitlab-note`.
+ *
+ * An empty delta still gets a body, marker included: the job edits its comment
+ * down to "no changes" rather than leaving the last push's findings up.
+ */
+export function formatDiffComment(diff: ThreatModelDiff, opts: CommentOptions): string {
+  const s = diff.summary;
+  const exposures = dedupe(diff.newUnmitigatedExposures, exposureKey);
+  const stale = dedupe(diff.staleEntitlements, staleKey);
+  const lines: string[] = [commentMarker(opts.project)];
+
+  if (s.totalChanges === 0 && stale.length === 0) {
+    lines.push('### ✅ No threat model changes');
+    return lines.join('\n');
+  }
+
+  const badge = s.newUnmitigated > 0 ? '🔴' : s.resolvedUnmitigated > 0 ? '🟢' : stale.length > 0 ? '⏳' : '⚪';
+  lines.push(s.totalChanges === 0
+    ? `### ${badge} No threat model changes, but an entitlement citation went stale`
+    : `### ${badge} Threat Model Delta: ${s.totalChanges} change(s)`);
+  lines.push('');
+  lines.push(`**+${s.added}** added · **-${s.removed}** removed · **~${s.modified}** modified · `
+    + `**${s.moved}** moved · **${s.renamed}** renamed · `
+    + `**${exposures.length}** new unmitigated · **${s.resolvedUnmitigated}** resolved · **${stale.length}** stale entitlement(s)`);
+  lines.push('');
+
+  if (exposures.length > 0) {
+    lines.push('#### ⚠ New Unmitigated Exposures');
+    lines.push('');
+    for (const { item: e, count } of exposures) {
+      const sev = e.severity || 'unset';
+      lines.push(`- **${sev}** ${e.asset} → ${e.threat} — ${permalink(opts, e.location.file, e.location.line)}${times(count)}`);
+    }
+    lines.push('');
+  }
+
+  if (stale.length > 0) {
+    lines.push('#### ⏳ Stale Entitlements');
+    lines.push('');
+    lines.push('The authorization code these claims cite changed — re-check that each entitlement still holds.');
+    lines.push('');
+    for (const { item: st, count } of stale) {
+      const e = st.entitlement;
+      lines.push(`- ${e.actor} → \`${e.capability}\` at ${permalink(opts, e.location.file, e.location.line)}`
+        + ` cites ${permalink(opts, st.citedFile, e.citation?.line)}${times(count)}`);
+    }
+    lines.push('');
+  }
+
+  if (s.totalChanges > 0) {
+    lines.push(`<details><summary>All ${s.totalChanges} change(s)</summary>`);
+    lines.push('');
+    lines.push(...fenced(formatDiff(diff)));
+    lines.push('');
+    lines.push('</details>');
+  }
+
+  return lines.join('\n').trimEnd();
+}
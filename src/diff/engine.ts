@@ -9,31 +9,50 @@
  * Design:
  *   - Identity keys: assets by path/id, threats/controls by id/canonical_name,
  *     relationships by (asset, threat) or (source, target) composite keys
- *   - Delta categories: added, removed, modified (severity/description changed)
+ *   - Delta categories: added, removed, modified (severity/description changed),
+ *     moved (same record, other file) and renamed (same record, other id)
  *   - Risk delta: tracks net change in unmitigated exposure count
  *
+ * ── Renames and moves ───────────────────────────────────────────────
+ *
+ * A refactor that keeps the security posture should read as one. Declarations
+ * are diffed first; a removed one and an added one in the same category are
+ * paired as a rename when the declared path or name is the same or the name and
+ * description are close (`similar`). Relationship keys are then built through
+ * an `Identity` per side — the after side canonicalised (canonical-ref.ts), the
+ * before side canonicalised and carried through those renames — so `#sqli` in
+ * the old model and `#sql-injection` in the new one are one key. A key whose
+ * refs are spelled differently on the two sides is `renamed`; one whose record
+ * sits in another file is `moved`.
+ *
+ * The unmitigated delta pairs off the same way (pairRelocated): an exposure
+ * that left one site and arrived at another, still unmitigated, is neither new
+ * nor resolved.
+ *
  * @comment -- "Pure model-vs-model comparator; no I/O. Entitlement staleness is the one thing it cannot derive from the two models, so the changed-file list is passed in by the caller (see getChangedFiles in git.ts)"
+ * @comment -- "Rename pairing never adds coverage: it only decides which two records are the same one, and an unmitigated exposure is only paired off against one that disappeared"
  * @flows ThreatModel -> #diff via diffModels -- "Before/after models compared into a structured delta"
  */
 
 import type {
-  ThreatModel,
+  ThreatModel, SourceLocation,
   ThreatModelAsset, ThreatModelThreat, ThreatModelControl, ThreatModelActor,
   ThreatModelMitigation, ThreatModelExposure, ThreatModelConfirmed, ThreatModelAcceptance,
   ThreatModelEntitlement,
   ThreatModelFlow, ThreatModelBoundary, ThreatModelTransfer,
 } from '../types/index.js';
 import { findUnmitigatedExposures, normalizeRef } from '../parser/coverage.js';
+import { canonicaliser } from '../parser/canonical-ref.js';
 import { citationMatchesFile } from '../parser/citation.js';
 
 // ─── Delta types ─────────────────────────────────────────────────────
 
-export type ChangeKind = 'added' | 'removed' | 'modified';
+export type ChangeKind = 'added' | 'removed' | 'modified' | 'moved' | 'renamed';
 
 export interface Change<T> {
   kind: ChangeKind;
   item: T;
-  previous?: T;       // Only for 'modified'
+  previous?: T;       // Only for 'modified', 'moved' and 'renamed'
   details?: string;    // Human-readable change description
 }
 
@@ -89,6 +108,8 @@ export interface DiffSummary {
   added: number;
   removed: number;
   modified: number;
+  moved: number;
+  renamed: number;
   newUnmitigated: number;
   resolvedUnmitigated: number;
   riskDelta: 'increased' | 'decreased' | 'unchanged';
@@ -99,18 +120,30 @@ export interface DiffSummary {
 // ─── Diff computation ────────────────────────────────────────────────
 
 export function diffModels(before: ThreatModel, after: ThreatModel, options: DiffOptions = {}): ThreatModelDiff {
-  const assets = diffByKey(before.assets, after.assets, assetKey, assetChanged);
-  const threats = diffByKey(before.threats, after.threats, threatKey, threatChanged);
-  const controls = diffByKey(before.controls, after.controls, controlKey, controlChanged);
-  const actors = diffByKey(before.actors || [], after.actors || [], actorKey, actorChanged);
-  const entitlements = diffByKey(before.entitlements || [], after.entitlements || [], entitlementKey, entitlementChanged);
-  const mitigations = diffByKey(before.mitigations, after.mitigations, mitigationKey);
-  const exposures = diffByKey(before.exposures, after.exposures, exposureKey, exposureChanged);
-  const confirmed = diffByKey(before.confirmed || [], after.confirmed || [], (c: ThreatModelConfirmed) => `${c.asset}::${c.threat}`, (a: ThreatModelConfirmed, b: ThreatModelConfirmed) => a.severity !== b.severity || a.description !== b.description ? `severity/description changed` : null);
-  const acceptances = diffByKey(before.acceptances, after.acceptances, acceptanceKey);
-  const flows = diffByKey(before.flows, after.flows, flowKey, flowChanged);
-  const boundaries = diffByKey(before.boundaries, after.boundaries, boundaryKey);
-  const transfers = diffByKey(before.transfers, after.transfers, transferKey);
+  // Declarations first: the renames they show are what relationship keys are translated through.
+  const plain: Sides = { before: identity(before), after: identity(after) };
+  const assets = diffByKey(before.assets, after.assets, ASSETS, plain);
+  const threats = diffByKey(before.threats, after.threats, THREATS, plain);
+  const controls = diffByKey(before.controls, after.controls, CONTROLS, plain);
+  const actors = diffByKey(before.actors || [], after.actors || [], ACTORS, plain);
+
+  const ids: Sides = {
+    before: identity(before, {
+      assets: renameMap(assets, a => a.id || a.path.join('.')),
+      threats: renameMap(threats, t => t.id || t.canonical_name),
+      controls: renameMap(controls, c => c.id || c.canonical_name),
+      actors: renameMap(actors, a => a.id || a.canonical_name),
+    }),
+    after: plain.after,
+  };
+  const entitlements = diffByKey(before.entitlements || [], after.entitlements || [], ENTITLEMENTS, ids);
+  const mitigations = diffByKey(before.mitigations, after.mitigations, MITIGATIONS, ids);
+  const exposures = diffByKey(before.exposures, after.exposures, EXPOSURES, ids);
+  const confirmed = diffByKey(before.confirmed || [], after.confirmed || [], CONFIRMED, ids);
+  const acceptances = diffByKey(before.acceptances, after.acceptances, ACCEPTANCES, ids);
+  const flows = diffByKey(before.flows, after.flows, FLOWS, ids);
+  const boundaries = diffByKey(before.boundaries, after.boundaries, BOUNDARIES, ids);
+  const transfers = diffByKey(before.transfers, after.transfers, TRANSFERS, ids);
 
   // Compute unmitigated exposure delta
   const beforeUnmitigated = computeUnmitigated(before);
@@ -122,19 +155,20 @@ export function diffModels(before: ThreatModel, after: ThreatModel, options: Dif
   // change" for a state change it cannot see. `exposureKey` keeps its pair
   // identity for the exposures diff itself, where re-anchoring an annotation
   // should not read as a remove plus an add.
-  const beforeKeys = new Set(beforeUnmitigated.map(e => unmitigatedKey(e)));
-  const afterKeys = new Set(afterUnmitigated.map(e => unmitigatedKey(e)));
+  const beforeKeys = new Set(beforeUnmitigated.map(e => unmitigatedKey(e, ids.before)));
+  const afterKeys = new Set(afterUnmitigated.map(e => unmitigatedKey(e, ids.after)));
 
-  const newUnmitigatedExposures = afterUnmitigated.filter(e => !beforeKeys.has(unmitigatedKey(e)));
-  const resolvedExposures = beforeUnmitigated.filter(e => !afterKeys.has(unmitigatedKey(e)));
+  const { newUnmitigatedExposures, resolvedExposures } = pairRelocated(
+    afterUnmitigated.filter(e => !beforeKeys.has(unmitigatedKey(e, ids.after))),
+    beforeUnmitigated.filter(e => !afterKeys.has(unmitigatedKey(e, ids.before))),
+    before, after, ids,
+  );
 
   const staleEntitlements = findStaleEntitlements(after, options.changedFiles);
 
   const allChanges = [assets, threats, controls, actors, mitigations, exposures, confirmed, acceptances, entitlements, flows, boundaries, transfers];
   const totalChanges = allChanges.reduce((sum, c) => sum + c.length, 0);
-  const added = allChanges.reduce((sum, c) => sum + c.filter(x => x.kind === 'added').length, 0);
-  const removed = allChanges.reduce((sum, c) => sum + c.filter(x => x.kind === 'removed').length, 0);
-  const modified = allChanges.reduce((sum, c) => sum + c.filter(x => x.kind === 'modified').length, 0);
+  const count = (kind: ChangeKind) => allChanges.reduce((sum, c) => sum + c.filter(x => x.kind === kind).length, 0);
 
   const riskDelta = newUnmitigatedExposures.length > resolvedExposures.length ? 'increased'
     : newUnmitigatedExposures.length < resolvedExposures.length ? 'decreased'
@@ -142,7 +176,12 @@ export function diffModels(before: ThreatModel, after: ThreatModel, options: Dif
 
   return {
     summary: {
-      totalChanges, added, removed, modified,
+      totalChanges,
+      added: count('added'),
+      removed: count('removed'),
+      modified: count('modified'),
+      moved: count('moved'),
+      renamed: count('renamed'),
       newUnmitigated: newUnmitigatedExposures.length,
       resolvedUnmitigated: resolvedExposures.length,
       riskDelta,
@@ -155,6 +194,41 @@ export function diffModels(before: ThreatModel, after: ThreatModel, options: Dif
   };
 }
 
+/**
+ * An unmitigated exposure that left one site and turned up at another, still
+ * unmitigated, is the same exposure moved — not one fixed and one introduced.
+ * Pair them off, one for one.
+ *
+ * Only a site the exposure wholly left, and one it was not written at before,
+ * qualify. An exposure still written at its old site was resolved there by a
+ * mitigation or an acceptance; one already written at its new site lost its
+ * cover. Both are real changes and stay in the delta.
+ */
+function pairRelocated(
+  arrived: ThreatModelExposure[],
+  departed: ThreatModelExposure[],
+  before: ThreatModel,
+  after: ThreatModel,
+  ids: Sides,
+): { newUnmitigatedExposures: ThreatModelExposure[]; resolvedExposures: ThreatModelExposure[] } {
+  const beforeSites = new Set((before.exposures || []).map(e => unmitigatedKey(e, ids.before)));
+  const afterSites = new Set((after.exposures || []).map(e => unmitigatedKey(e, ids.after)));
+  const left = departed.filter(e => !afterSites.has(unmitigatedKey(e, ids.before)));
+  const relocated = new Set<ThreatModelExposure>();
+
+  const newUnmitigatedExposures = arrived.filter(e => {
+    if (beforeSites.has(unmitigatedKey(e, ids.after))) return true;
+    const from = left.find(d => !relocated.has(d)
+      && exposureKey(d, ids.before) === exposureKey(e, ids.after)
+      && d.severity === e.severity
+      && (d.description === e.description || similar(d.description ?? '', e.description ?? '')));
+    if (from) relocated.add(from);
+    return !from;
+  });
+
+  return { newUnmitigatedExposures, resolvedExposures: departed.filter(d => !relocated.has(d)) };
+}
+
 // ─── Entitlement staleness (§3.7) ────────────────────────────────────
 
 /**
@@ -163,8 +237,10 @@ export function diffModels(before: ThreatModel, after: ThreatModel, options: Dif
  * it still stands, but the basis a reviewer accepted it on has moved.
  *
  * Uncited (inert) entitlements are skipped: they have no basis to go stale.
+ * Exported for the CI policy's `stale-entitlements` rule, which asks the same
+ * question against a ref instead of between two models.
  */
-function findStaleEntitlements(after: ThreatModel, changedFiles?: Iterable<string>): StaleEntitlement[] {
+export function findStaleEntitlements(after: ThreatModel, changedFiles?: Iterable<string>): StaleEntitlement[] {
   if (!changedFiles) return [];
   const changed = [...changedFiles];
   if (changed.length === 0) return [];
@@ -178,68 +254,248 @@ function findStaleEntitlements(after: ThreatModel, changedFiles?: Iterable<strin
   return stale;
 }
 
+// ─── Identity across the two models ──────────────────────────────────
+
+/** Each kind of reference reduced to the id it names on one side of the diff. */
+interface Identity {
+  asset(ref: string): string;
+  threat(ref: string): string;
+  control(ref: string): string;
+  actor(ref: string): string;
+}
+
+interface Sides {
+  before: Identity;
+  after: Identity;
+}
+
+/** Old id → new id, per kind of declaration, bare and lowercased. */
+interface Renames {
+  assets: Map<string, string>;
+  threats: Map<string, string>;
+  controls: Map<string, string>;
+  actors: Map<string, string>;
+}
+
+/**
+ * Assets resolve through the model's canonicaliser, so `Svc.Db` and `#db` are
+ * one asset exactly where `validate` says they are; the rest by their bare
+ * form. `renames` then carries a before-side id onto its after-side name.
+ */
+function identity(model: ThreatModel, renames?: Renames): Identity {
+  const canon = canonicaliser(model);
+  const follow = (map: Map<string, string> | undefined, bare: string) => map?.get(bare) ?? bare;
+  return {
+    asset: ref => follow(renames?.assets, canon(ref)),
+    threat: ref => follow(renames?.threats, normalizeRef(ref)),
+    control: ref => follow(renames?.controls, normalizeRef(ref)),
+    actor: ref => follow(renames?.actors, normalizeRef(ref)),
+  };
+}
+
+function renameMap<T>(changes: Change<T>[], ref: (item: T) => string): Map<string, string> {
+  const map = new Map<string, string>();
+  for (const c of changes) {
+    if (c.kind === 'renamed' && c.previous) map.set(normalizeRef(ref(c.previous)), normalizeRef(ref(c.item)));
+  }
+  return map;
+}
+
+/**
+ * Word-set overlap (Dice coefficient) of at least 0.8. Loose enough for a
+ * reworded description, tight enough that two short unrelated names — which
+ * share a word at most — never qualify.
+ */
+function similar(a: string, b: string): boolean {
+  const words = (s: string) => new Set(s.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+  const wa = words(a);
+  const wb = words(b);
+  if (wa.size === 0 || wb.size === 0) return false;
+  const shared = [...wa].filter(w => wb.has(w)).length;
+  return (2 * shared) / (wa.size + wb.size) >= 0.8;
+}
+
 // ─── Generic key-based diff ──────────────────────────────────────────
 
-function diffByKey<T>(
+interface DiffSpec<T> {
+  /** Identity: two records with one key are the same record. */
+  key: (item: T, ids: Identity) => string;
+  /** What else changed on a record that kept its key, or null. */
+  changed?: (a: T, b: T) => string | null;
+  /** The refs as written. Spelled differently under one key means renamed. */
+  refs: (item: T) => string[];
+  /** Declarations only: whether an added record replaces a removed one under a new key. */
+  replaces?: (removed: T, added: T) => boolean;
+}
+
+function diffByKey<T extends { location: SourceLocation }>(
   before: T[],
   after: T[],
-  keyFn: (item: T) => string,
-  changedFn?: (a: T, b: T) => string | null,
+  spec: DiffSpec<T>,
+  ids: Sides,
 ): Change<T>[] {
-  const changes: Change<T>[] = [];
-  const beforeMap = new Map<string, T>();
-  const afterMap = new Map<string, T>();
+  const beforeMap = groupByKey(before, item => spec.key(item, ids.before));
+  const afterMap = groupByKey(after, item => spec.key(item, ids.after));
 
-  for (const item of before) beforeMap.set(keyFn(item), item);
-  for (const item of after) afterMap.set(keyFn(item), item);
+  const gone = [...beforeMap].filter(([key]) => !afterMap.has(key)).map(([, items]) => items[items.length - 1]);
+  const fresh = [...afterMap].filter(([key]) => !beforeMap.has(key)).map(([, items]) => items[items.length - 1]);
+  const replaced = pairReplacements(gone, fresh, spec.replaces);
+  const replacing = new Set(replaced.values());
 
   // Removed: in before but not in after
-  for (const [key, item] of beforeMap) {
-    if (!afterMap.has(key)) {
-      changes.push({ kind: 'removed', item });
-    }
-  }
+  const changes: Change<T>[] = gone.filter(item => !replacing.has(item)).map(item => ({ kind: 'removed', item }));
 
-  // Added or modified: in after
-  for (const [key, item] of afterMap) {
-    const prev = beforeMap.get(key);
+  // Added, modified, moved or renamed: in after
+  for (const [key, items] of afterMap) {
+    const item = items[items.length - 1];
+    const prev = beforeMap.get(key) ?? (replaced.has(item) ? [replaced.get(item)!] : undefined);
     if (!prev) {
       changes.push({ kind: 'added', item });
-    } else if (changedFn) {
-      const details = changedFn(prev, item);
-      if (details) {
-        changes.push({ kind: 'modified', item, previous: prev, details });
-      }
+      continue;
     }
+    const change = compareRecords(prev, items, spec);
+    if (change) changes.push(change);
   }
 
   return changes;
 }
 
-// ─── Key functions (identity) ────────────────────────────────────────
-
-function assetKey(a: ThreatModelAsset): string {
-  return a.id || a.path.join('.');
+function groupByKey<T>(items: T[], keyFn: (item: T) => string): Map<string, T[]> {
+  const map = new Map<string, T[]>();
+  for (const item of items) {
+    const key = keyFn(item);
+    const group = map.get(key);
+    if (group) group.push(item);
+    else map.set(key, [item]);
+  }
+  return map;
 }
 
-function threatKey(t: ThreatModelThreat): string {
-  return t.id || t.canonical_name;
+/** Added record → the removed one it replaces. First match wins, in source order. */
+function pairReplacements<T>(gone: T[], fresh: T[], replaces?: (removed: T, added: T) => boolean): Map<T, T> {
+  const pairs = new Map<T, T>();
+  if (!replaces) return pairs;
+  for (const removed of gone) {
+    const added = fresh.find(a => !pairs.has(a) && replaces(removed, a));
+    if (added) pairs.set(added, removed);
+  }
+  return pairs;
 }
 
-function controlKey(c: ThreatModelControl): string {
-  return c.id || c.canonical_name;
+/**
+ * One key's records on each side. A key can be written more than once, so the
+ * copies are paired off first and every pair is compared: one copy moving must
+ * not hide another copy's edit.
+ *
+ * A copy has moved only when its file lost every copy and another file gained
+ * one, so adding a second copy elsewhere is not a move. A rename outranks an
+ * edit and an edit outranks a move: a record that moved and changed severity is
+ * `modified`, with the move among its details, so nothing that reads the kind
+ * can mistake it for a refactor.
+ */
+function compareRecords<T extends { location: SourceLocation }>(olds: T[], news: T[], spec: DiffSpec<T>): Change<T> | null {
+  let renamed: [T, T] | undefined;
+  let modified: [T, T] | undefined;
+  let moved: [T, T] | undefined;
+  const details: string[] = [];
+
+  for (const [previous, item] of pairCopies(olds, news)) {
+    const before = spec.refs(previous);
+    const after = spec.refs(item);
+    const respelled = before.map((ref, i) => ref !== after[i] ? `${ref || 'none'} → ${after[i] || 'none'}` : '').filter(Boolean);
+    const relocated = previous.location.file !== item.location.file;
+    const changed = spec.changed?.(previous, item) ?? '';
+
+    if (respelled.length > 0) renamed ??= [previous, item];
+    if (changed) modified ??= [previous, item];
+    if (relocated) moved ??= [previous, item];
+    for (const detail of [
+      respelled.length > 0 ? `renamed ${respelled.join(', ')}` : '',
+      relocated ? `moved from ${previous.location.file} to ${item.location.file}` : '',
+      changed,
+    ]) {
+      if (detail && !details.includes(detail)) details.push(detail);
+    }
+  }
+
+  const pair = renamed ?? modified ?? moved;
+  if (!pair) return null;
+  const kind: ChangeKind = renamed ? 'renamed' : modified ? 'modified' : 'moved';
+  return { kind, item: pair[1], previous: pair[0], details: details.join('; ') };
 }
 
-function actorKey(a: ThreatModelActor): string {
-  return a.id || a.canonical_name;
+/**
+ * Old copy → new copy. Copies in the same file pair in order; then a copy from
+ * a file that kept none pairs with one in a file that had none. Copies left over
+ * were added or removed beside ones that stayed, and are compared with nothing.
+ */
+function pairCopies<T extends { location: SourceLocation }>(olds: T[], news: T[]): [T, T][] {
+  const oldFiles = new Set(olds.map(i => i.location.file));
+  const newFiles = new Set(news.map(i => i.location.file));
+  const pairs: [T, T][] = [];
+  const taken = new Set<T>();
+
+  const unpairedOld: T[] = [];
+  for (const previous of olds) {
+    const item = news.find(n => !taken.has(n) && n.location.file === previous.location.file);
+    if (item) {
+      taken.add(item);
+      pairs.push([previous, item]);
+    } else {
+      unpairedOld.push(previous);
+    }
+  }
+
+  const departed = unpairedOld.filter(o => !newFiles.has(o.location.file));
+  const arrived = news.filter(n => !taken.has(n) && !oldFiles.has(n.location.file));
+  for (let i = 0; i < Math.min(departed.length, arrived.length); i++) pairs.push([departed[i], arrived[i]]);
+  return pairs;
 }
 
+// ─── Key functions (identity) ────────────────────────────────────────
+
+const hashed = (id: string | undefined, fallback: string) => id ? `#${id}` : fallback;
+
+const ASSETS: DiffSpec<ThreatModelAsset> = {
+  key: a => a.id || a.path.join('.'),
+  changed: assetChanged,
+  refs: a => [hashed(a.id, a.path.join('.'))],
+  replaces: (a, b) => a.path.join('.') === b.path.join('.')
+    || similar(`${a.path.join(' ')} ${a.description ?? ''}`, `${b.path.join(' ')} ${b.description ?? ''}`),
+};
+
+const THREATS: DiffSpec<ThreatModelThreat> = {
+  key: t => t.id || t.canonical_name,
+  changed: threatChanged,
+  refs: t => [hashed(t.id, t.name)],
+  replaces: (a, b) => a.canonical_name === b.canonical_name
+    || similar(`${a.name} ${a.description ?? ''}`, `${b.name} ${b.description ?? ''}`),
+};
+
+const CONTROLS: DiffSpec<ThreatModelControl> = {
+  key: c => c.id || c.canonical_name,
+  changed: controlChanged,
+  refs: c => [hashed(c.id, c.name)],
+  replaces: (a, b) => a.canonical_name === b.canonical_name
+    || similar(`${a.name} ${a.description ?? ''}`, `${b.name} ${b.description ?? ''}`),
+};
+
+const ACTORS: DiffSpec<ThreatModelActor> = {
+  key: a => a.id || a.canonical_name,
+  changed: actorChanged,
+  refs: a => [hashed(a.id, a.name)],
+  replaces: (a, b) => a.canonical_name === b.canonical_name
+    || similar(`${a.name} ${a.description ?? ''}`, `${b.name} ${b.description ?? ''}`),
+};
+
 /**
  * The entitlement's identity is the join it makes: `(actor, asset, threat)`
  * (§9.7). What a reader of a diff needs to know is which `(asset, threat)` pairs
  * this actor is now claimed to be entitled on, so retargeting either half is a
  * withdrawn claim plus a new one — reporting that as a modification would let a
  * claim move onto a different pair while the diff said "description changed".
+ * A rename of the actor, asset or threat is not a retarget: the join is taken
+ * through `ids`, so it keys the same and reads as renamed.
  *
  * Capability is deliberately *not* in the key, though §9.7 lists it among the
  * identifying fields: it is no longer the join (§9.3), and §9.8 asks for a
@@ -253,48 +509,68 @@ function actorKey(a: ThreatModelActor): string {
  * key: the diff would silently drop claims it collided with, and §9.3 requires
  * the loose form to be harmless rather than invisible.
  */
-function entitlementKey(e: ThreatModelEntitlement): string {
-  const join = `${normalizeActorRef(e.actor)}::${e.asset || ''}::${e.threat || ''}`;
+function entitlementKey(e: ThreatModelEntitlement, ids: Identity): string {
+  const join = `${ids.actor(e.actor)}::${e.asset ? ids.asset(e.asset) : ''}::${e.threat ? ids.threat(e.threat) : ''}`;
   return e.asset && e.threat ? join : `${join}::${e.canonical_capability}`;
 }
 
-function normalizeActorRef(ref: string): string {
-  return ref.startsWith('#') ? ref.slice(1) : ref;
-}
+const ENTITLEMENTS: DiffSpec<ThreatModelEntitlement> = {
+  key: entitlementKey,
+  changed: entitlementChanged,
+  refs: e => [e.actor, e.asset ?? '', e.threat ?? ''],
+};
 
-function mitigationKey(m: ThreatModelMitigation): string {
-  return `${m.asset}::${m.threat}::${m.control || ''}`;
-}
+const MITIGATIONS: DiffSpec<ThreatModelMitigation> = {
+  key: (m, ids) => `${ids.asset(m.asset)}::${ids.threat(m.threat)}::${m.control ? ids.control(m.control) : ''}`,
+  refs: m => [m.asset, m.threat, m.control ?? ''],
+};
 
-function exposureKey(e: ThreatModelExposure): string {
-  return `${e.asset}::${e.threat}`;
+function exposureKey(e: ThreatModelExposure, ids: Identity): string {
+  return `${ids.asset(e.asset)}::${ids.threat(e.threat)}`;
 }
 
+const EXPOSURES: DiffSpec<ThreatModelExposure> = {
+  key: exposureKey,
+  changed: exposureChanged,
+  refs: e => [e.asset, e.threat],
+};
+
+const CONFIRMED: DiffSpec<ThreatModelConfirmed> = {
+  key: (c, ids) => `${ids.asset(c.asset)}::${ids.threat(c.threat)}`,
+  changed: (a, b) => a.severity !== b.severity || a.description !== b.description ? `severity/description changed` : null,
+  refs: c => [c.asset, c.threat],
+};
+
+const ACCEPTANCES: DiffSpec<ThreatModelAcceptance> = {
+  key: (a, ids) => `${ids.asset(a.asset)}::${ids.threat(a.threat)}`,
+  refs: a => [a.asset, a.threat],
+};
+
+const FLOWS: DiffSpec<ThreatModelFlow> = {
+  key: (f, ids) => `${ids.asset(f.source)}->${ids.asset(f.target)}::${f.mechanism || ''}`,
+  changed: flowChanged,
+  refs: f => [f.source, f.target],
+};
+
+const BOUNDARIES: DiffSpec<ThreatModelBoundary> = {
+  key: (b, ids) => b.id || `${ids.asset(b.asset_a)}::${ids.asset(b.asset_b)}`,
+  refs: b => [b.asset_a, b.asset_b],
+};
+
+const TRANSFERS: DiffSpec<ThreatModelTransfer> = {
+  key: (t, ids) => `${ids.asset(t.source)}->${ids.asset(t.target)}::${ids.threat(t.threat)}`,
+  refs: t => [t.source, t.target, t.threat],
+};
+
 /**
  * Site identity for the unmitigated delta (D36). Uses the symbol anchor when
  * there is one and the file:line when there is not, so the key is stable under
  * inline authoring — where no symbol exists — and under external authoring
  * alike.
  */
-function unmitigatedKey(e: ThreatModelExposure): string {
+function unmitigatedKey(e: ThreatModelExposure, ids: Identity): string {
   const site = e.location.parent_symbol ?? `${e.location.file}:${e.location.line}`;
-  return `${normalizeRef(e.asset)}::${normalizeRef(e.threat)}::${e.location.file}::${site}`;
-}
-
-function acceptanceKey(a: ThreatModelAcceptance): string {
-  return `${a.asset}::${a.threat}`;
-}
-
-function flowKey(f: ThreatModelFlow): string {
-  return `${f.source}->${f.target}::${f.mechanism || ''}`;
-}
-
-function boundaryKey(b: ThreatModelBoundary): string {
-  return b.id || `${b.asset_a}::${b.asset_b}`;
-}
-
-function transferKey(t: ThreatModelTransfer): string {
-  return `${t.source}->${t.target}::${t.threat}`;
+  return `${ids.asset(e.asset)}::${ids.threat(e.threat)}::${e.location.file}::${site}`;
 }
 
 // ─── Change detection ────────────────────────────────────────────────
@@ -325,7 +601,8 @@ function actorChanged(a: ThreatModelActor, b: ThreatModelActor): string | null {
 
 function entitlementChanged(a: ThreatModelEntitlement, b: ThreatModelEntitlement): string | null {
   const changes: string[] = [];
-  // Asset and threat are the key, so they cannot differ here. Capability can:
+  // Asset and threat are the key, so they differ here only in spelling, which
+  // compareRecords already reports as a rename. Capability can:
   // it is the justification a reviewer accepted, and rewriting it on a claim that
   // still demotes the same pair is a change to what was agreed to (§9.3).
   // Compared as written, not canonicalised: a reviewer reads the capability, so a
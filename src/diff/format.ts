@@ -4,7 +4,7 @@
  * @comment -- "Pure string formatting; no I/O. Stale entitlements print even when the delta is otherwise empty — a claim whose cited authz code moved is exactly the thing that must not disappear quietly (actor-entitlement design §3.3)"
  */
 
-import type { ThreatModelDiff, Change } from './engine.js';
+import type { ThreatModelDiff, Change, ChangeKind } from './engine.js';
 
 export function formatDiff(diff: ThreatModelDiff): string {
   const lines: string[] = [];
@@ -22,7 +22,7 @@ export function formatDiff(diff: ThreatModelDiff): string {
     lines.push('');
   } else {
     lines.push(`Threat Model Diff: ${s.totalChanges} change(s)`);
-    lines.push(`  +${s.added} added  -${s.removed} removed  ~${s.modified} modified`);
+    lines.push(`  +${s.added} added  -${s.removed} removed  ~${s.modified} modified  >${s.moved} moved  =${s.renamed} renamed`);
     lines.push('');
 
     // ── Risk assessment ──
@@ -96,13 +96,15 @@ function entitlementCaveat(e: { inert: boolean; asset?: string; threat?: string
   return reasons.length ? ` (ineffective: ${reasons.join(', ')})` : '';
 }
 
+/** `>` moved and `=` renamed: the record is the same one, so neither reads as `+` or `-`. */
+const CHANGE_MARK: Record<ChangeKind, string> = { added: '+', removed: '-', modified: '~', moved: '>', renamed: '=' };
+
 function emitSection<T>(label: string, changes: Change<T>[], lines: string[], describe: (item: T) => string): void {
   if (changes.length === 0) return;
 
   lines.push(`── ${label} ──`);
   for (const c of changes) {
-    const prefix = c.kind === 'added' ? '+' : c.kind === 'removed' ? '-' : '~';
-    let line = `  ${prefix} ${describe(c.item)}`;
+    let line = `  ${CHANGE_MARK[c.kind]} ${describe(c.item)}`;
     if (c.details) line += ` (${c.details})`;
     lines.push(line);
   }
@@ -136,6 +138,8 @@ export function formatDiffMarkdown(diff: ThreatModelDiff): string {
   lines.push(`| Added | +${s.added} |`);
   lines.push(`| Removed | -${s.removed} |`);
   lines.push(`| Modified | ~${s.modified} |`);
+  lines.push(`| Moved | ${s.moved} |`);
+  lines.push(`| Renamed | ${s.renamed} |`);
   lines.push(`| **New unmitigated** | **${s.newUnmitigated}** |`);
   lines.push(`| Resolved | ${s.resolvedUnmitigated} |`);
   lines.push('');
@@ -168,7 +172,7 @@ export function formatDiffMarkdown(diff: ThreatModelDiff): string {
     lines.push('|---|-------|------------|-------|--------|----------|--------|');
     for (const c of diff.entitlements) {
       const e = c.item;
-      const mark = c.kind === 'added' ? '+' : c.kind === 'removed' ? '-' : '~';
+      const mark = CHANGE_MARK[c.kind];
       const cite = e.citation?.raw ? `\`${e.citation.raw}\`` : '**none**';
       const caveat = entitlementCaveat(e);
       const effect = caveat ? `**${caveat.replace(/^ \(|\)$/g, '')}**` : 'can demote';
@@ -0,0 +1,212 @@
+/**
+ * GuardLink Diff — the threat model over the commit log.
+ *
+ * `parseAtRef` answers "what did the model look like at this ref"; history asks
+ * it for every commit (or every Nth) on the first-parent line and keeps one
+ * point per commit: exposures, unmitigated, mitigations, acceptances, file
+ * coverage and the annotation hash. The points are what the dashboard's Trends
+ * page charts and what `guardlink history --json` hands to a metrics pipeline.
+ *
+ * Two things keep a walk over hundreds of commits affordable:
+ *
+ *   - One map of parse results is shared by every commit, keyed by path and
+ *     blob id, so a commit only reads and parses the files that changed since
+ *     the one before it.
+ *   - Points are kept in `.guardlink/cache/history.json`. A commit's point
+ *     never changes, so a later run parses only the commits it has not seen —
+ *     unless the parse cache key moved (new GuardLink, new grammars), which
+ *     makes every stored point suspect and drops them all.
+ *
+ * The file is derived, so it lives beside the parse cache, in the directory
+ * that ignores itself: `guardlink history` is a read command and leaves
+ * `git status` clean (D16). Like the parse cache, it is never written in a
+ * project with no `.guardlink/`.
+ *
+ * @mitigates #diff against #cmd-injection using #param-commands -- "execFileSync with an argv and no shell; --since is verified with rev-parse --verify and passed after --end-of-options"
+ * @flows GitRef -> #diff via listHistoryCommits -- "Commit log walked for the history timeline"
+ * @flows #diff -> HistoryFile via saveHistory -- "Points written to .guardlink/cache/history.json"
+ * @comment -- "history.json is derived data: a file that does not parse is ignored and rewritten by the next run"
+ */
+
+import { execFileSync } from 'node:child_process';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import type { ThreatModel } from '../types/index.js';
+import { describeCoverage, findUnmitigatedExposures } from '../parser/coverage.js';
+import { computeAnnotationHash } from '../parser/annotation-hash.js';
+import { parseCacheKey, ensureCacheDir, PARSE_CACHE_DIR, type ParseFragment } from '../parser/parse-cache.js';
+import { parseAtRef } from './git.js';
+
+export const HISTORY_FILE = `${PARSE_CACHE_DIR}/history.json`;
+
+/** The `schema` of `guardlink history --json`. Bumped only when a field changes meaning or goes away. */
+export const HISTORY_SCHEMA = 'guardlink.history/v1';
+
+export interface HistoryCommit {
+  sha: string;
+  /** Committer date, ISO 8601. */
+  date: string;
+  subject: string;
+}
+
+/** The model at one commit. Every count is of the whole project at that commit, not a delta. */
+export interface HistoryPoint {
+  commit: string;
+  date: string;
+  subject: string;
+  exposures: number;
+  unmitigated: number;
+  mitigations: number;
+  acceptances: number;
+  /** File coverage, as `describeCoverage` computes it — whole percent. */
+  coverage_percent: number;
+  annotated_files: number;
+  source_files: number;
+  annotations: number;
+  annotation_hash: string;
+}
+
+export interface HistoryOptions {
+  /** Only commits after this ref. Default: the whole first-parent history. */
+  since?: string;
+  /** Keep every Nth commit, counted back from HEAD so HEAD is always kept. Default 1. */
+  every?: number;
+  /** Called before each commit that has to be parsed. */
+  onCommit?: (commit: HistoryCommit, index: number, total: number) => void;
+  /** Called once the points have been written to HISTORY_FILE — not when nothing new was parsed, or there is no `.guardlink/`. */
+  onSave?: (file: string) => void;
+}
+
+interface HistoryFileContent {
+  version: '1';
+  /** `parseCacheKey()` when the points were taken. */
+  key: string;
+  points: HistoryPoint[];
+}
+
+/**
+ * The first-parent commits up to HEAD, oldest first.
+ *
+ * First-parent, so a merged branch shows up as the merge that landed it and
+ * not as its own commits interleaved by date.
+ */
+export function listHistoryCommits(root: string, opts: Pick<HistoryOptions, 'since' | 'every'> = {}): HistoryCommit[] {
+  const every = opts.every ?? 1;
+  if (!Number.isInteger(every) || every < 1) {
+    throw new Error(`--every must be a positive whole number, got ${every}`);
+  }
+  try {
+    git(root, ['rev-parse', '--is-inside-work-tree']);
+  } catch {
+    throw new Error(`Not a git repository: ${root}`);
+  }
+
+  if (opts.since) {
+    try {
+      git(root, ['rev-parse', '--verify', '--end-of-options', `${opts.since}^{commit}`]);
+    } catch {
+      throw new Error(`Invalid git ref: ${opts.since}`);
+    }
+  }
+  const range = opts.since ? ['--end-of-options', `${opts.since}..HEAD`] : ['HEAD'];
+
+  const raw = git(root, ['log', '--first-parent', '--format=%H%x1f%cI%x1f%s%x1e', ...range]);
+  const newestFirst = raw.split('\x1e')
+    .map(record => record.trim())
+    .filter(Boolean)
+    .map(record => {
+      const [sha, date, subject] = record.split('\x1f');
+      return { sha, date, subject: subject ?? '' };
+    });
+
+  return newestFirst.filter((_, i) => i % every === 0).reverse();
+}
+
+/** One point from a parsed model. */
+export function historyPoint(commit: HistoryCommit, model: ThreatModel): HistoryPoint {
+  const coverage = describeCoverage(model);
+  return {
+    commit: commit.sha,
+    date: commit.date,
+    subject: commit.subject,
+    exposures: model.exposures.length,
+    unmitigated: findUnmitigatedExposures(model).length,
+    mitigations: model.mitigations.length,
+    acceptances: model.acceptances.length,
+    coverage_percent: coverage.percent,
+    annotated_files: coverage.annotatedFiles,
+    source_files: coverage.sourceFiles,
+    annotations: coverage.annotations,
+    annotation_hash: computeAnnotationHash(model),
+  };
+}
+
+/**
+ * Points for the sampled commits, oldest first.
+ *
+ * Commits already in HISTORY_FILE are not parsed again; the rest are, and the
+ * file is rewritten with everything known, sampled or not.
+ */
+export async function collectHistory(root: string, project: string | undefined, opts: HistoryOptions = {}): Promise<HistoryPoint[]> {
+  const commits = listHistoryCommits(root, opts);
+  const key = parseCacheKey();
+  const stored = loadStoredHistory(root);
+  const known = new Map<string, HistoryPoint>();
+  if (stored?.key === key) {
+    for (const p of stored.points) known.set(p.commit, p);
+  }
+
+  const missing = commits.filter(c => !known.has(c.sha));
+  if (missing.length > 0) {
+    const fragments = new Map<string, ParseFragment>();
+    for (const [i, commit] of missing.entries()) {
+      opts.onCommit?.(commit, i, missing.length);
+      const model = await parseAtRef(root, commit.sha, project, { fragments });
+      known.set(commit.sha, historyPoint(commit, model));
+    }
+    if (saveHistory(root, { version: '1', key, points: [...known.values()] })) opts.onSave?.(HISTORY_FILE);
+  }
+
+  return commits.map(c => known.get(c.sha)!);
+}
+
+/**
+ * The stored points, oldest first, or `[]` when there are none. Read
+ * synchronously, as the dashboard renders synchronously. Points taken under a
+ * different parse cache key are still returned: they are what the last
+ * `guardlink history` run saw.
+ */
+export function loadHistory(root: string): HistoryPoint[] {
+  return loadStoredHistory(root)?.points ?? [];
+}
+
+/** The history file, or null when it is missing or not one — it is derived, and the next run rewrites it. */
+function loadStoredHistory(root: string): HistoryFileContent | null {
+  const file = join(root, HISTORY_FILE);
+  if (!existsSync(file)) return null;
+  try {
+    const content = JSON.parse(readFileSync(file, 'utf-8')) as Partial<HistoryFileContent>;
+    if (content?.version !== '1' || typeof content.key !== 'string' || !Array.isArray(content.points)) return null;
+    const points = content.points.filter(p => typeof p?.commit === 'string' && typeof p?.date === 'string');
+    return { version: '1', key: content.key, points: sortPoints(points) };
+  } catch {
+    return null;
+  }
+}
+
+/** Whether the file was written. */
+function saveHistory(root: string, content: HistoryFileContent): boolean {
+  if (!ensureCacheDir(root)) return false;
+  const sorted = { ...content, points: sortPoints(content.points) };
+  writeFileSync(join(root, HISTORY_FILE), JSON.stringify(sorted, null, 2) + '\n');
+  return true;
+}
+
+// By instant, not by string: committer dates carry their author's UTC offset.
+const sortPoints = (points: HistoryPoint[]) =>
+  [...points].sort((a, b) => Date.parse(a.date) - Date.parse(b.date) || a.commit.localeCompare(b.commit));
+
+function git(root: string, args: string[]): string {
+  return execFileSync('git', args, { cwd: root, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'], maxBuffer: 64 * 1024 * 1024 });
+}
@@ -1,11 +1,19 @@
 /**
  * GuardLink Diff — exports.
  *
- * @exposes #diff to #cmd-injection [high] cwe:CWE-78 -- "git.ts uses execSync with ref argument"
- * @audit #diff -- "Git commands use execSync; ref is validated with rev-parse before use"
+ * @audit #diff -- "Git commands run as an argv with no shell; a user ref follows --end-of-options and is verified with rev-parse first"
  * @flows GitRef -> #diff via parseAtRef -- "Git reference input"
  */
 
 export { diffModels, type ThreatModelDiff, type DiffSummary, type Change, type ChangeKind, type DiffOptions, type StaleEntitlement } from './engine.js';
 export { formatDiff, formatDiffMarkdown } from './format.js';
-export { parseAtRef, getCurrentRef, getChangedFiles } from './git.js';
+export { formatDiffComment, commentMarker, permalink, type CommentPlatform, type CommentOptions, type CommentPayload } from './comment.js';
+export {
+  diffAnnotations, toCheckRun, toCodeQuality, CHECK_RUN_ANNOTATION_LIMIT,
+  type DiffAnnotation, type DiffAnnotationKind, type CheckRunPayload, type CheckRunAnnotation, type CodeQualityIssue,
+} from './annotations.js';
+export { parseAtRef, parseStaged, getCurrentRef, getChangedFiles, resolvesToCommit, getHeadSha, getRepoWebUrl, webUrlFromRemote, type ParseAtRefOptions, type StagedParse } from './git.js';
+export {
+  collectHistory, listHistoryCommits, historyPoint, loadHistory, HISTORY_FILE, HISTORY_SCHEMA,
+  type HistoryPoint, type HistoryCommit, type HistoryOptions,
+} from './history.js';
@@ -14,11 +14,13 @@ export * from './parser/index.js';
 export { initProject, detectProject } from './init/index.js';
 export type { InitOptions, InitResult, ProjectInfo, AgentFile } from './init/index.js';
 export { generateReport, generateMermaid } from './report/index.js';
-export { diffModels, formatDiff, formatDiffMarkdown, parseAtRef } from './diff/index.js';
-export type { ThreatModelDiff, DiffSummary, Change, ChangeKind } from './diff/index.js';
-export { generateSarif } from './analyzer/index.js';
-export type { SarifOptions } from './analyzer/index.js';
-export { runCiChecks, formatCiReport, CI_SCHEMA } from './ci/index.js';
-export type { CiReport, CiSummary, CiOptions } from './ci/index.js';
+export { diffModels, formatDiff, formatDiffMarkdown, formatDiffComment, diffAnnotations, toCheckRun, toCodeQuality, parseAtRef, collectHistory, loadHistory } from './diff/index.js';
+export type { ThreatModelDiff, DiffSummary, Change, ChangeKind, HistoryPoint } from './diff/index.js';
+export { generateSarif, parseSarif, matchScannerFindings, loadScannerFindings } from './analyzer/index.js';
+export type { SarifOptions, ScannerFinding, ScannerMatch, ScannerFindingStatus, ParsedSarif } from './analyzer/index.js';
+export { runCiChecks, formatCiReport, validateFindings, ciFindings, toJUnit, toCodeClimate, CI_SCHEMA, createBaseline, loadBaseline, BASELINE_SCHEMA, parsePolicy, loadPolicy } from './ci/index.js';
+export type { CiReport, CiSummary, CiOptions, CiBaselineSummary, CiPolicySummary, CiFinding, CodeClimateIssue, Baseline, Policy, PolicyRule, PolicyRuleResult } from './ci/index.js';
+export { computeRisk, riskLevel } from './risk/index.js';
+export type { RiskAssessment, ExposureRisk, AssetRisk, RiskLevel, ExposureStatus } from './risk/index.js';
 export { populateMetadata, loadWorkspaceConfig, REPORT_SCHEMA_VERSION, mergeReports, formatMergeSummary, diffMergedReports, formatDiffSummary } from './workspace/index.js';
 export type { WorkspaceConfig, WorkspaceRepo, MergedReport, MergeTotals, MergeDiffSummary, MergeOptions } from './workspace/index.js';
@@ -0,0 +1,264 @@
+/**
+ * GuardLink init — git hooks that check annotations before they leave the machine.
+ *
+ * `guardlink hooks install` sets up two hooks:
+ *
+ *   pre-commit  `guardlink validate --staged` — fails on an annotation error in
+ *               a staged file and reports new unmitigated exposures in them,
+ *               then regenerates `.guardlink/graph/` where the repo keeps it
+ *   pre-push    `guardlink validate` over the whole tree
+ *
+ * Where a hook manager already owns the hooks, a script in `.git/hooks/` would
+ * never run, so the command goes into the manager's config instead:
+ *
+ *   husky        `.husky/<hook>` gets a line
+ *   lefthook     `lefthook.yml` gets a `<hook>:` block, when it has none
+ *   pre-commit   `.pre-commit-config.yaml` gets a local hook, when `repos:` is its last key
+ *
+ * A YAML config is only ever appended to. There is no YAML library here, and
+ * rewriting someone's config to insert one entry risks their comments and
+ * layout; when appending would not give the right YAML, the entry comes back
+ * as a snippet to paste. A hook script GuardLink did not write is left alone
+ * unless `force` is set — it is somebody's, and it may do other things.
+ *
+ * @exposes #init to #arbitrary-write [medium] cwe:CWE-73 -- "Writes executable hook scripts and edits hook manager configs"
+ * @mitigates #init against #arbitrary-write using #path-validation -- "The hooks directory comes from git rev-parse --git-path; other targets are fixed names under the repository top level; a foreign hook is kept unless --force"
+ * @mitigates #init against #cmd-injection using #param-commands -- "git is run with an argv and no shell; the project directory is single-quoted where it is written into a hook"
+ * @flows #init -> GitHooks via writeFileSync -- "pre-commit and pre-push scripts"
+ */
+
+import { execFileSync } from 'node:child_process';
+import { chmodSync, existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative, resolve } from 'node:path';
+
+export type HookName = 'pre-commit' | 'pre-push';
+
+export type HookManager = 'git' | 'husky' | 'lefthook' | 'pre-commit';
+
+export const HOOK_NAMES: readonly HookName[] = ['pre-commit', 'pre-push'];
+
+/** First line after the shebang of every script GuardLink writes; how a rerun knows the hook is its own. */
+const MARKER = '# guardlink-hook:';
+
+const LEFTHOOK_CONFIGS = ['lefthook.yml', '.lefthook.yml', 'lefthook.yaml', '.lefthook.yaml'];
+const PRE_COMMIT_CONFIG = '.pre-commit-config.yaml';
+
+export interface HookInstallOptions {
+  /** Which hooks. Default: both. */
+  hooks?: readonly HookName[];
+  /** Replace a `.git/hooks` script GuardLink did not write. */
+  force?: boolean;
+}
+
+export interface HookInstallResult {
+  hook: HookName;
+  manager: HookManager;
+  /** The file written, or the one to edit by hand. Relative to the repository top level. */
+  path: string;
+  action: 'created' | 'updated' | 'appended' | 'unchanged' | 'skipped';
+  /** Why it was skipped, or what else to do. */
+  note?: string;
+  /** For a skipped config: the entry to add by hand. */
+  snippet?: string;
+}
+
+/**
+ * The `guardlink` arguments each hook runs, for the project at `dir` (relative
+ * to the repository top level, `.` for the top level itself).
+ */
+export function hookCommand(hook: HookName, dir = '.'): string {
+  return hook === 'pre-commit' ? `validate --staged ${shellQuote(dir)}` : `validate ${shellQuote(dir)}`;
+}
+
+/** The script written to `.git/hooks/<hook>`. */
+export function hookScript(hook: HookName, dir = '.'): string {
+  const at = (path: string) => shellQuote(dir === '.' ? path : `${dir}/${path}`);
+  const lines = [
+    '#!/bin/sh',
+    `${MARKER} ${hook}`,
+    '#',
+    '# Written by `guardlink hooks install`. Run it again to update this file;',
+    '# delete the file to remove the hook.',
+    '#',
+    ...(hook === 'pre-commit'
+      ? [
+        '# Fails the commit when a staged file has an annotation error. New',
+        '# unmitigated exposures in staged files are reported and do not fail it:',
+        '# writing one down is what annotating is for. Derived artifacts are then',
+        '# regenerated, which never blocks — the artifact is downstream of the',
+        '# change, and `guardlink validate --artifacts` in CI reports drift.',
+      ]
+      : [
+        '# Fails the push when any annotation in the project has an error.',
+      ]),
+    '',
+    'set -u',
+    '',
+    '# Teammates without GuardLink installed are not blocked.',
+    'if command -v guardlink >/dev/null 2>&1; then',
+    '  guardlink=guardlink',
+    'elif [ -x node_modules/.bin/guardlink ]; then',
+    '  guardlink=node_modules/.bin/guardlink',
+    'else',
+    '  exit 0',
+    'fi',
+    `[ -d ${at('.guardlink')} ] || exit 0`,
+    '',
+    `"$guardlink" ${hookCommand(hook, dir)} || exit 1`,
+  ];
+  if (hook === 'pre-commit') {
+    lines.push(
+      '',
+      `if [ -d ${at('.guardlink/graph')} ]; then`,
+      `  if "$guardlink" artifacts ${shellQuote(dir)} >/dev/null 2>&1; then`,
+      `    git add ${at('.guardlink/model.json')} ${at('.guardlink/graph')} 2>/dev/null || true`,
+      '  else',
+      '    echo "guardlink: could not regenerate artifacts; committing without refreshing them." >&2',
+      `    echo "           run 'guardlink validate ${dir} --artifacts' to see the state." >&2`,
+      '  fi',
+      'fi',
+    );
+  }
+  lines.push('', 'exit 0', '');
+  return lines.join('\n');
+}
+
+/** The hook manager that owns the repository's hooks, `git` when there is none. */
+export function detectHookManager(top: string): HookManager {
+  if (existsSync(join(top, '.husky'))) return 'husky';
+  if (LEFTHOOK_CONFIGS.some(f => existsSync(join(top, f)))) return 'lefthook';
+  if (existsSync(join(top, PRE_COMMIT_CONFIG))) return 'pre-commit';
+  return 'git';
+}
+
+/**
+ * Install the hooks for the project at `root`, which may be a subdirectory of
+ * the repository. Safe to rerun: a hook already in place is `unchanged`.
+ */
+export function installHooks(root: string, opts: HookInstallOptions = {}): HookInstallResult[] {
+  let top: string;
+  try {
+    top = git(root, ['rev-parse', '--show-toplevel']).trim();
+  } catch {
+    throw new Error(`Not a git repository: ${root}`);
+  }
+  const dir = relative(top, resolve(root)).split('\\').join('/') || '.';
+  const manager = detectHookManager(top);
+  const hooks = opts.hooks?.length ? opts.hooks : HOOK_NAMES;
+
+  return hooks.map(hook => {
+    switch (manager) {
+      case 'husky': return installHusky(top, hook, dir);
+      case 'lefthook': return installLefthook(top, hook, dir);
+      case 'pre-commit': return installPreCommit(top, hook, dir);
+      default: return installGitHook(root, top, hook, dir, opts.force ?? false);
+    }
+  });
+}
+
+function installGitHook(root: string, top: string, hook: HookName, dir: string, force: boolean): HookInstallResult {
+  // --git-path honours core.hooksPath and worktrees; it answers relative to the cwd.
+  const path = resolve(root, git(root, ['rev-parse', '--git-path', `hooks/${hook}`]).trim());
+  const result = { hook, manager: 'git' as const, path: relative(top, path) };
+  const script = hookScript(hook, dir);
+  const existing = existsSync(path) ? readFileSync(path, 'utf-8') : null;
+
+  // core.hooksPath=/dev/null is how hooks are switched off; writing beside it would do nothing.
+  if (existsSync(dirname(path)) && !statSync(dirname(path)).isDirectory()) {
+    return { ...result, action: 'skipped', note: `core.hooksPath points at ${dirname(path)}, which is not a directory, so git runs no hooks` };
+  }
+  if (existing === script) return { ...result, action: 'unchanged' };
+  if (existing !== null && !existing.includes(MARKER) && !force) {
+    return {
+      ...result,
+      action: 'skipped',
+      note: `a ${hook} hook GuardLink did not write is already there. Add \`guardlink ${hookCommand(hook, dir)}\` to it, or rerun with --force to replace it`,
+    };
+  }
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, script);
+  chmodSync(path, 0o755);
+  return { ...result, action: existing === null ? 'created' : 'updated' };
+}
+
+function installHusky(top: string, hook: HookName, dir: string): HookInstallResult {
+  const path = join('.husky', hook);
+  const abs = join(top, path);
+  const line = `npx --no-install guardlink ${hookCommand(hook, dir)}`;
+  const result = { hook, manager: 'husky' as const, path };
+
+  if (!existsSync(abs)) {
+    writeFileSync(abs, `${line}\n`);
+    chmodSync(abs, 0o755);
+    return { ...result, action: 'created' };
+  }
+  const text = readFileSync(abs, 'utf-8');
+  if (text.includes(line)) return { ...result, action: 'unchanged' };
+  writeFileSync(abs, `${withNewline(text)}${line}\n`);
+  return { ...result, action: 'appended' };
+}
+
+function installLefthook(top: string, hook: HookName, dir: string): HookInstallResult {
+  const path = LEFTHOOK_CONFIGS.find(f => existsSync(join(top, f)))!;
+  const abs = join(top, path);
+  const text = readFileSync(abs, 'utf-8');
+  const command = `guardlink ${hookCommand(hook, dir)}`;
+  const snippet = [`${hook}:`, '  commands:', '    guardlink:', `      run: ${command}`, ''].join('\n');
+  const result = { hook, manager: 'lefthook' as const, path };
+
+  if (text.includes(`run: ${command}`)) return { ...result, action: 'unchanged' };
+  if (topLevelKeys(text).includes(hook)) {
+    return { ...result, action: 'skipped', note: `${path} already has a ${hook} block; add the guardlink command to it`, snippet };
+  }
+  writeFileSync(abs, `${withNewline(text)}${snippet}`);
+  return { ...result, action: 'appended' };
+}
+
+function installPreCommit(top: string, hook: HookName, dir: string): HookInstallResult {
+  const path = PRE_COMMIT_CONFIG;
+  const abs = join(top, path);
+  const text = readFileSync(abs, 'utf-8');
+  const command = `guardlink ${hookCommand(hook, dir)}`;
+  const indent = /^( *)- repo:/m.exec(text)?.[1] ?? '  ';
+  const entry = [
+    '- repo: local',
+    '  hooks:',
+    `    - id: guardlink-${hook}`,
+    `      name: ${command}`,
+    `      entry: ${command}`,
+    '      language: system',
+    '      pass_filenames: false',
+    '      always_run: true',
+    `      stages: [${hook}]`,
+  ].map(l => indent + l).join('\n') + '\n';
+  const result = {
+    hook,
+    manager: 'pre-commit' as const,
+    path,
+    ...(hook === 'pre-push' ? { note: 'pre-push hooks run after `pre-commit install --hook-type pre-push`' } : {}),
+  };
+
+  if (text.includes(`entry: ${command}`)) return { ...result, action: 'unchanged' };
+  const keys = topLevelKeys(text);
+  if (keys[keys.length - 1] !== 'repos') {
+    return { ...result, action: 'skipped', note: `\`repos:\` is not the last key of ${path}; add this entry under it`, snippet: entry };
+  }
+  writeFileSync(abs, `${withNewline(text)}${entry}`);
+  return { ...result, action: 'appended' };
+}
+
+/** Keys at column 0, in file order. Enough to know where the file ends without parsing it. */
+function topLevelKeys(yaml: string): string[] {
+  return [...yaml.matchAll(/^([A-Za-z_][\w-]*)\s*:/gm)].map(m => m[1]);
+}
+
+const withNewline = (text: string) => text === '' || text.endsWith('\n') ? text : `${text}\n`;
+
+/** As-is when it is plainly a path, single-quoted otherwise. */
+function shellQuote(value: string): string {
+  return /^[\w./-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+}
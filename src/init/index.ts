@@ -68,6 +68,10 @@ function readForGuard(path: string): string | null {
 
 export { detectProject, type ProjectInfo, type AgentFile } from './detect.js';
 export { promptAgentSelection, resolveAgentFiles, AGENT_CHOICES } from './picker.js';
+export {
+  installHooks, hookScript, hookCommand, detectHookManager, HOOK_NAMES,
+  type HookName, type HookManager, type HookInstallOptions, type HookInstallResult,
+} from './hooks.js';
 
 // ─── Types ───────────────────────────────────────────────────────────
 
@@ -21,8 +21,11 @@
  * @comment -- "Pure projection over the parsed model; the only I/O is an existence check performed by the caller"
  */
 
-import { lookup, type LookupResult } from './lookup.js';
+import { lookup, type LookupResult } from '../analyzer/lookup.js';
 import { buildCoverageIndex } from '../parser/coverage.js';
+import { DEFAULT_EXCLUDE, DEFAULT_INCLUDE } from '../parser/parse-project.js';
+import { isMarkdown } from '../parser/embedded.js';
+import { isSidecarLocation } from '../parser/gal-path.js';
 import type {
   ThreatModel, SourceLocation,
 } from '../types/index.js';
@@ -48,11 +51,15 @@ export type FileContextStatus =
 export interface ContextAnnotation {
   verb: string;
   line: number;
-  /** Set when the annotation was written in a `.gal` sidecar. */
+  /** Set when the annotation was written in a `.gal` sidecar, or expanded from a template. */
   origin_file?: string;
   origin_line?: number;
+  /** The template an `@apply` on this line expanded it from. */
+  template?: string;
   /** Enclosing symbol, when the `@source` block recorded one. */
   parent_symbol?: string;
+  /** Enclosing function, method or class, as the symbol index resolved it from the code. */
+  enclosing_symbol?: string;
   description?: string;
   /** Verb-specific fields — asset, threat, control, classification, owner, and so on. */
   [field: string]: unknown;
@@ -95,12 +102,16 @@ export interface FileContext {
 
 /** Extensions the parser scans, derived from the parser's own DEFAULT_INCLUDE. */
 const SCANNED_EXTENSIONS = new Set([
-  'ts', 'tsx', 'js', 'jsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'scala',
-  'c', 'cpp', 'cc', 'h', 'hpp', 'cs', 'swift', 'dart', 'sql', 'lua', 'hs',
-  'tf', 'hcl', 'yaml', 'yml', 'sh', 'bash', 'html', 'xml', 'svg', 'css',
-  'ex', 'exs', 'gal',
+  ...DEFAULT_INCLUDE.flatMap(glob => /^\*\*\/\*\.(\w+)$/.exec(glob)?.[1] ?? []),
+  'gal',
 ]);
 
+/** Directory names DEFAULT_EXCLUDE skips at any depth. */
+const EXCLUDED_DIRS = new Set(DEFAULT_EXCLUDE.flatMap(glob => /^\*\*\/([^*/]+)\/\*\*$/.exec(glob)?.[1] ?? []));
+
+const underExcludedDir = (path: string): boolean =>
+  path.split('/').slice(0, -1).some(segment => EXCLUDED_DIRS.has(segment));
+
 function hasScannedExtension(path: string): boolean {
   const ext = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
   return SCANNED_EXTENSIONS.has(ext);
@@ -142,6 +153,8 @@ function allRecords(model: ThreatModel): { verb: string; location: SourceLocatio
   add('shield', model.shields);
   add('feature', model.features);
   add('comment', model.comments);
+  add('template', model.templates);
+  add('apply', model.applications);
   return out;
 }
 
@@ -151,7 +164,9 @@ function projectRow(verb: string, row: any): ContextAnnotation {
   const ann: ContextAnnotation = { verb, line: location.line, ...rest };
   if (location.origin_file) ann.origin_file = location.origin_file;
   if (location.origin_line) ann.origin_line = location.origin_line;
+  if (location.template) ann.template = location.template;
   if (location.parent_symbol) ann.parent_symbol = location.parent_symbol;
+  if (location.enclosing_symbol) ann.enclosing_symbol = location.enclosing_symbol;
   if (verb === 'asset' && Array.isArray(row.path)) ann.path = row.path.join('.');
   return ann;
 }
@@ -202,7 +217,7 @@ export function fileContext(model: ThreatModel, input: FileContextInput): FileCo
 
   // A `.gal` path resolves to the source file it annotates, so the caller gets
   // the same answer whichever of the two they hold.
-  const asOrigin = records.filter(r => r.location.origin_file === file);
+  const asOrigin = records.filter(r => r.location.origin_file === file && isSidecarLocation(r.location));
   if (asOrigin.length > 0) {
     const logical = [...new Set(asOrigin.map(r => r.location.file))].sort();
     if (logical.length > 1) {
@@ -220,7 +235,10 @@ export function fileContext(model: ThreatModel, input: FileContextInput): FileCo
     const scanned = model.annotated_files.includes(file) || model.unannotated_files.includes(file)
       // `unannotated_files` drops the `.guardlink/` prefix (parse-project.ts),
       // so a scanned-but-unannotated file there appears in neither list.
-      || (file.startsWith('.guardlink/') && hasScannedExtension(file) && exists);
+      || (file.startsWith('.guardlink/') && hasScannedExtension(file) && exists)
+      // Markdown counts as source only once it carries an annotation, so an
+      // unannotated one is in neither list either.
+      || (isMarkdown(file) && exists && !underExcludedDir(file));
 
     if (scanned) {
       return emptyContext(file, 'scanned_without_annotations', {
@@ -265,10 +283,11 @@ export function fileContext(model: ThreatModel, input: FileContextInput): FileCo
   const annotations = scoped.map(r => projectRow(r.verb, r.row));
 
   // ── Annotation source ─────────────────────────────────────────────
-  const external = scoped.filter(r => r.location.origin_file).length;
+  const authored = scoped.filter(r => !r.location.template);
+  const external = authored.filter(r => isSidecarLocation(r.location)).length;
   const annotation_source: FileContext['annotation_source'] =
-    external === 0 ? 'inline' : external === scoped.length ? 'external' : 'mixed';
-  const origin_files = [...new Set(scoped.map(r => r.location.origin_file).filter(Boolean) as string[])].sort();
+    external === 0 ? 'inline' : external === authored.length ? 'external' : 'mixed';
+  const origin_files = [...new Set(authored.map(r => r.location.origin_file).filter(Boolean) as string[])].sort();
 
   // ── Assets named here, each with its depth-1 neighbourhood ────────
   //
@@ -0,0 +1,249 @@
+/**
+ * GuardLink MCP — streamable HTTP transport, for one server shared by several
+ * clients.
+ *
+ * Over stdio each agent spawns its own server, and the server trusts its one
+ * client because the operator launched it. A shared dev container wants a single
+ * long-lived server per workspace instead, and a listener has no such implicit
+ * trust: anything that reaches the port can call it. So this refuses to start
+ * without a bearer token, binds to loopback unless told otherwise, and answers
+ * only for the roots it is configured with. It is configured in
+ * `.guardlink/config.json` of the directory it starts in:
+ *
+ * ```json
+ * { "mcp": { "http": { "token_env": "GUARDLINK_MCP_TOKEN", "roots": [".", "../billing"], "read_only": true } } }
+ * ```
+ *
+ * `token_env` names the variable holding the token and defaults to
+ * GUARDLINK_MCP_TOKEN; `token` holds it literally, for a config that is not
+ * committed. `roots` resolve against the directory the config is in and default
+ * to that directory alone.
+ *
+ * Each client session gets its own createServer(). The model cache and the root
+ * the resources answer for are per server (server.ts), and sharing them between
+ * clients would be that file's wrong-repo failure across people. Sessions do
+ * share the on-disk parse cache, so a second client re-parses only what moved.
+ *
+ * @exposes #mcp to #missing-auth [high] cwe:CWE-306 -- "guardlink mcp --http listens on a TCP port; anything that reaches it can call the tools"
+ * @mitigates #mcp against #missing-auth using #bearer-auth -- "Every request needs the bearer token, compared in constant time; the server does not start without one"
+ * @mitigates #mcp against #api-key-exposure using #key-redaction -- "The token is never logged or echoed; a refusal says only that the request was not authorized"
+ * @exposes #mcp to #data-exposure [medium] cwe:CWE-200 -- "Over HTTP the threat model of every allowed root goes to whoever holds the bearer token, a client the operator did not launch. The #mcp-agent entitlement in server.ts was accepted on a stdio-only premise and is awaiting its owner's re-review, so it is not relied on here"
+ * @audit #mcp -- "Who reads is bounded by the bearer token and what they read by the roots allow-list; whether that is enough is the operator's call per deployment, so it stays open"
+ * @exposes #mcp to #dos [medium] cwe:CWE-400 -- "Request bodies are read from the network"
+ * @mitigates #mcp against #dos using #resource-limits -- "Bodies over MAX_BODY_BYTES are refused before they are parsed"
+ * @mitigates #mcp against #insecure-deser using #config-validation -- "mcp.http is checked key by key; an unknown key or a wrong type stops startup"
+ * @flows MCPClient -> #mcp via http -- "Streamable HTTP transport"
+ * @flows ConfigFile -> #mcp via readHttpConfig -- "Token source, allowed roots and read-only mode"
+ * @boundary #mcp and MCPClient (#mcp-http-boundary) -- "Network boundary at the HTTP listener, crossed only with the bearer token"
+ */
+
+import { createServer as createHttpServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer, type ServerOptions } from './server.js';
+
+/** The path the transport answers on; every other path is a 404. */
+export const MCP_HTTP_PATH = '/mcp';
+
+/** The variable the token is read from when the config names none. */
+export const DEFAULT_TOKEN_ENV = 'GUARDLINK_MCP_TOKEN';
+
+/** Largest request body read. JSON-RPC requests to these tools are a few kilobytes. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpConfig {
+  /** The bearer token, or null when the config and environment hold none. */
+  token: string | null;
+  /** Where the token comes from, for messages — never the token itself. */
+  tokenSource: string;
+  /** Absolute repository roots the server may answer for. */
+  roots: string[];
+  readOnly: boolean;
+}
+
+const HTTP_KEYS = new Set(['token', 'token_env', 'roots', 'read_only']);
+
+/**
+ * The `mcp.http` block of `root`'s `.guardlink/config.json`.
+ *
+ * Unlike the other config readers, this throws on anything it cannot use:
+ * they fall back to a default that is safe, and for a network listener there is
+ * none — an ignored typo in `roots` or `read_only` would start a server open
+ * wider than its owner wrote. A missing config file is not an error; the token
+ * can still come from the environment.
+ */
+export function readHttpConfig(root: string, env: NodeJS.ProcessEnv = process.env): HttpConfig {
+  const at = '.guardlink/config.json mcp.http';
+  let config: any = {};
+  let text: string | null = null;
+  try {
+    text = readFileSync(join(root, '.guardlink', 'config.json'), 'utf-8');
+  } catch {}
+  if (text !== null) {
+    try {
+      config = JSON.parse(text);
+    } catch (err: any) {
+      throw new Error(`.guardlink/config.json is not valid JSON: ${err.message}`);
+    }
+  }
+
+  const http = config?.mcp?.http ?? {};
+  if (typeof http !== 'object' || Array.isArray(http)) throw new Error(`${at} must be an object`);
+  for (const key of Object.keys(http)) {
+    if (!HTTP_KEYS.has(key)) throw new Error(`${at}: unknown key "${key}" — expected ${[...HTTP_KEYS].join(', ')}`);
+  }
+  if (http.token !== undefined && http.token_env !== undefined) throw new Error(`${at}: give "token" or "token_env", not both`);
+  if (http.token !== undefined && (typeof http.token !== 'string' || !http.token)) throw new Error(`${at}: "token" must be a non-empty string`);
+  if (http.token_env !== undefined && (typeof http.token_env !== 'string' || !http.token_env)) throw new Error(`${at}: "token_env" must name an environment variable`);
+  if (http.roots !== undefined && (!Array.isArray(http.roots) || http.roots.length === 0 || !http.roots.every((r: unknown) => typeof r === 'string' && r))) {
+    throw new Error(`${at}: "roots" must be a non-empty list of paths`);
+  }
+  if (http.read_only !== undefined && typeof http.read_only !== 'boolean') throw new Error(`${at}: "read_only" must be true or false`);
+
+  const tokenEnv: string = http.token_env ?? DEFAULT_TOKEN_ENV;
+  return {
+    token: http.token ?? (env[tokenEnv] || null),
+    tokenSource: http.token !== undefined ? `${at}.token` : `$${tokenEnv}`,
+    roots: (http.roots ?? ['.']).map((r: string) => resolve(root, r)),
+    readOnly: http.read_only ?? false,
+  };
+}
+
+export interface HttpServerOptions extends ServerOptions {
+  port: number;
+  /** Interface to bind. Default: 127.0.0.1. */
+  host?: string;
+  token: string;
+}
+
+export interface RunningHttpServer {
+  /** The endpoint clients connect to, with the port actually bound. */
+  url: string;
+  port: number;
+  /** Close every session, then the listener. */
+  close(): Promise<void>;
+}
+
+/**
+ * Serve createServer() over the MCP streamable-HTTP transport at
+ * `http://<host>:<port>/mcp`. Port 0 binds a free port; `url` says which.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<RunningHttpServer> {
+  const { port, host = '127.0.0.1', token, ...serverOptions } = options;
+  if (!token) throw new Error('the HTTP transport needs a bearer token');
+  const expected = digest(token);
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    // Authorization first, so an unauthenticated caller learns nothing — not
+    // even which paths exist.
+    if (!authorized(req.headers.authorization, expected)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer realm="guardlink"' }).end();
+      return;
+    }
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== MCP_HTTP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const header = req.headers['mcp-session-id'];
+    const sessionId = typeof header === 'string' ? header : undefined;
+    if (req.method === 'POST') {
+      const body = await readJsonBody(req, res);
+      if (body === undefined) return;
+      if (sessionId) {
+        const transport = sessions.get(sessionId);
+        if (!transport) return rpcError(res, 404, 'Session not found');
+        return transport.handleRequest(req, res, body);
+      }
+      if (!isInitializeRequest(body)) return rpcError(res, 400, 'Bad Request: no session ID, and not an initialize request');
+
+      const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => { sessions.set(id, transport); },
+      });
+      // Chained, not replaced, by connect(): the server's own onclose stops its watchers.
+      transport.onclose = () => { if (transport.sessionId) sessions.delete(transport.sessionId); };
+      await createServer(serverOptions).connect(transport);
+      return transport.handleRequest(req, res, body);
+    }
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const transport = sessionId ? sessions.get(sessionId) : undefined;
+      if (!transport) return rpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'Bad Request: no session ID');
+      return transport.handleRequest(req, res);
+    }
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  }
+
+  const listener = createHttpServer((req, res) => {
+    handle(req, res).catch((err: unknown) => {
+      if (!res.headersSent) rpcError(res, 500, `Internal error: ${err instanceof Error ? err.message : String(err)}`);
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((done, fail) => {
+    listener.once('error', fail);
+    listener.listen(port, host, () => {
+      listener.off('error', fail);
+      done();
+    });
+  });
+  const bound = (listener.address() as AddressInfo).port;
+
+  return {
+    url: `http://${host.includes(':') ? `[${host}]` : host}:${bound}${MCP_HTTP_PATH}`,
+    port: bound,
+    async close() {
+      const open = [...sessions.values()];
+      sessions.clear();
+      await Promise.all(open.map(t => t.close().catch(() => {})));
+      await new Promise<void>(done => {
+        listener.close(() => done());
+        listener.closeAllConnections();
+      });
+    },
+  };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+/** Tokens are compared as digests, so the comparison is constant-time whatever their lengths. */
+function digest(text: string): Buffer {
+  return createHash('sha256').update(text).digest();
+}
+
+function authorized(header: string | undefined, expected: Buffer): boolean {
+  const match = /^Bearer +(\S+)\s*$/i.exec(header ?? '');
+  return !!match && timingSafeEqual(digest(match[1]), expected);
+}
+
+/** The parsed body, or undefined when a response has already been sent. */
+async function readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      rpcError(res, 413, `Request body over ${MAX_BODY_BYTES} bytes`);
+      req.destroy();
+      return undefined;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch {
+    rpcError(res, 400, 'Parse error: the body is not JSON', -32700);
+    return undefined;
+  }
+}
+
+function rpcError(res: ServerResponse, status: number, message: string, code = -32000): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+}
@@ -10,11 +10,23 @@
  * @comment -- "D35: the `guardlink-mcp` bin executes this module directly, so it carries a shebang and a main guard. Startup errors go to stderr — stdout is the JSON-RPC channel and a stray line there corrupts the transport."
  */
 
-export { createServer } from './server.js';
-export { lookup, type LookupResult } from './lookup.js';
-export { suggestAnnotations, type Suggestion, type SuggestOptions } from './suggest.js';
+export { createServer, type ServerOptions } from './server.js';
+export { lookup, type LookupResult } from '../analyzer/lookup.js';
+export { suggestAnnotations, suggestFromRules, endpointSuggestions, type Suggestion, type SuggestOptions } from './suggest.js';
+export {
+  loadRulePacks, loadRulePack, parseRulePack, renderRule, rulePackFiles, RULES_DIR, RULE_CATEGORIES,
+  type SuggestionRule, type RuleCategory, type RuleConfidence, type RuleContext,
+} from './suggest-rules.js';
+export {
+  startHttpServer, readHttpConfig, MCP_HTTP_PATH, DEFAULT_TOKEN_ENV,
+  type HttpConfig, type HttpServerOptions, type RunningHttpServer,
+} from './http.js';
+export {
+  discoverEndpoints, inventoryEndpoints, endpointCovered, middlewareKind, hasRouteScanner,
+  type Endpoint, type InventoriedEndpoint, type EndpointMiddleware, type MiddlewareKind, type RouteFramework,
+} from './routes.js';
 
-import { createServer } from './server.js';
+import { createServer, type ServerOptions } from './server.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { realpathSync } from 'node:fs';
 import { fileURLToPath } from 'node:url';
@@ -22,10 +34,10 @@ import { getPackageVersion } from '../version.js';
 
 /**
  * Start the MCP server on stdio transport.
- * Called from CLI: `guardlink mcp`
+ * Called from CLI: `guardlink mcp [--watch]`
  */
-export async function startStdioServer(): Promise<void> {
-  const server = createServer();
+export async function startStdioServer(options: ServerOptions = {}): Promise<void> {
+  const server = createServer(options);
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
@@ -82,10 +94,12 @@ function handleCliArgs(argv: string[]): boolean {
 
 Usage
   guardlink-mcp              Serve on stdio
+  guardlink-mcp --watch      Serve on stdio, keeping each model live with a file watcher
   guardlink-mcp --help       Show this message
   guardlink-mcp --version    Print the version
 
-  Identical to \`guardlink mcp\`; both call the same server.
+  Identical to \`guardlink mcp\`; both call the same server. To share one
+  server between several clients over HTTP, run \`guardlink mcp --http <port>\`.
 
 Client configuration
   {"mcpServers": {"guardlink": {"command": "guardlink-mcp"}}}
@@ -98,7 +112,7 @@ Client configuration
 }
 
 if (isEntryPoint() && !handleCliArgs(process.argv.slice(2))) {
-  startStdioServer().catch((err: unknown) => {
+  startStdioServer({ watch: process.argv.includes('--watch') }).catch((err: unknown) => {
     // stderr, never stdout: stdout is the JSON-RPC channel and a stray line
     // there corrupts the transport for the client that is reading it.
     console.error(`guardlink-mcp: failed to start — ${err instanceof Error ? err.message : String(err)}`);
@@ -26,7 +26,7 @@
  * @comment -- "Pure string builder; the only I/O is one optional config read by the caller"
  */
 
-import { SUPPORTED_QUERY_FORMS } from './lookup.js';
+import { SUPPORTED_QUERY_FORMS } from '../analyzer/lookup.js';
 import { readConfiguredMode, type AnnotationMode } from '../parser/annotation-mode.js';
 
 export { readConfiguredMode };
@@ -36,6 +36,8 @@ export interface InstructionsContext {
   mode: AnnotationMode | null;
   /** Where annotations are written. */
   definitionsPath: string;
+  /** The server leaves out its write tools, so the text must not send an agent to them. */
+  readOnly?: boolean;
 }
 
 
@@ -59,6 +61,20 @@ function modeParagraph(mode: AnnotationMode | null, _definitionsPath: string): s
   ].join(' ');
 }
 
+const WRITING = `An entitlement claims a privilege was always allowed this, so an over-grant
+hides a real escalation: propose it (guardlink_entitlement_propose) citing authz code
+as file:line, and a human's acceptance writes it. Never for ownership questions (IDOR,
+tenant isolation), where both peers hold the capability.
+
+Write with guardlink_annotate_apply, not by hand: pass the source path, not the .gal.
+@source is synthesised — never send one. Do send symbol:, which reanchor needs after a
+refactor; omitting it means the statement covers the whole asset rather than one symbol.`;
+
+/** A shared server reads; the agent writes in its own checkout. */
+const READ_ONLY_WRITING = `
+This server is READ-ONLY: it offers no tool that writes. Write annotations in your
+own checkout, by hand or with a local guardlink, and propose entitlements there too.`;
+
 /**
  * The text an MCP client receives at initialize.
  *
@@ -98,15 +114,8 @@ WRITING ANNOTATIONS
 ${modeParagraph(ctx.mode, ctx.definitionsPath)}
 Definitions — @asset, @threat, @control with #ids — live in ${ctx.definitionsPath}. Reuse
 existing ids; never redefine one. Never write @accepts or @entitles: both are human
-governance decisions. Found a risk with no control? @exposes plus @audit. An
-entitlement claims a privilege was always allowed this, so an over-grant hides a
-real escalation: propose it (guardlink_entitlement_propose) citing authz code as
-file:line, and a human's acceptance writes it. Never for ownership questions (IDOR,
-tenant isolation), where both peers hold the capability.
-
-Write with guardlink_annotate_apply, not by hand: pass the source path, not the .gal.
-@source is synthesised — never send one. Do send symbol:, which reanchor needs after a
-refactor; omitting it means the statement covers the whole asset rather than one symbol.
+governance decisions. Found a risk with no control? @exposes plus @audit.
+${ctx.readOnly ? READ_ONLY_WRITING : WRITING}
 
 READING THE ANSWERS
 
@@ -0,0 +1,215 @@
+/**
+ * GuardLink MCP — Prompts: the common agent workflows, with their context.
+ *
+ *   threat-model-file        fileContext + the file's source
+ *   review-security-delta    diffModels(model at ref, current model)
+ *   propose-mitigations      selectSubgraph around the asset + its unmitigated exposures
+ *   explain-trust-boundaries traverseGraph + selectSubgraph over flows, boundaries and transfers
+ *
+ * The server assembles the context and these functions only write it up, so
+ * every client gets the same workflow and the same facts without a copy of the
+ * prompt text in its own configuration. Each prompt ends with the annotation
+ * hash it was built from, as every tool result does in its envelope.
+ *
+ * Source text and model descriptions are the repository's words, not ours.
+ * They go into a fence longer than any backtick run inside them, so a file
+ * cannot close its fence and continue as instructions.
+ *
+ * @audit #mcp -- "Prompts embed source files and annotation descriptions — the prompt-injection exposure server.ts records. Embedded text is fenced with a backtick run longer than any it contains, and source is capped at MAX_PROMPT_SOURCE"
+ * @flows ThreatModel -> #mcp via buildPrompts -- "Model context assembled into prompt text"
+ * @comment -- "Pure text assembly; the server does the reads. Prompts return text only — what runs is the client's decision"
+ */
+
+import type { ThreatModel, ThreatModelControl, ThreatModelExposure } from '../types/index.js';
+import type { AnnotationMode } from '../parser/annotation-mode.js';
+import type { ThreatModelDiff } from '../diff/engine.js';
+import type { FileContext } from './context.js';
+import type { Traversal } from './subgraph.js';
+
+/** Characters of a file's source a prompt carries; the rest is left for the agent to read. */
+export const MAX_PROMPT_SOURCE = 60_000;
+
+/** Identifiers a prompt lists, per kind, so the agent reuses them instead of inventing new ones. */
+const MAX_LISTED_IDS = 60;
+
+export interface ThreatModelFileInput {
+  context: FileContext;
+  /** The file's text; null when it could not be read. */
+  source: string | null;
+  model: ThreatModel;
+  mode: AnnotationMode | null;
+  annotationHash: string;
+}
+
+/** "Threat-model this file": what GuardLink already knows about it, its source, and how to write annotations here. */
+export function buildThreatModelFilePrompt(input: ThreatModelFileInput): string {
+  const { context, source, model } = input;
+  const code = source === null
+    ? `The file could not be read (status: ${context.status}).`
+    : fence(source.length > MAX_PROMPT_SOURCE
+      ? `${source.slice(0, MAX_PROMPT_SOURCE)}\n… (${source.length - MAX_PROMPT_SOURCE} more characters — read the file for the rest)`
+      : source);
+  const placement = input.mode === 'external'
+    ? 'This project keeps annotations in `.gal` sidecars. Write them with guardlink_annotate_apply; do not edit the source file.'
+    : 'This project keeps annotations inline. Add them as comments in the file, in its doc block or directly above the code they describe.';
+
+  return `Threat-model \`${context.file}\`.
+
+## What GuardLink already records for this file
+${fence(JSON.stringify(context, null, 2), 'json')}
+
+## Source
+${code}
+
+## Identifiers already declared
+${knownIds(model)}
+
+## Method
+1. Find the file's entry points, the data it takes in, and where that data goes (storage, network, subprocess, rendering, other modules).
+2. For each, name the asset at risk and the threats that apply. Reuse the identifiers above; declare a new one in .guardlink/definitions.* only when none fits.
+3. Look for the code that defends against each threat. Where it exists, write @mitigates with the control; where it does not, write @exposes with a severity.
+4. Record data movement with @flows and trust crossings with @boundary.
+5. Check what is already recorded above before adding — do not duplicate an annotation, and correct one the code contradicts.
+
+${placement} Annotate only; do not change the code's behaviour. Run guardlink_validate when done.
+${footer(input.annotationHash)}`;
+}
+
+export interface ReviewDeltaInput {
+  ref: string;
+  diff: ThreatModelDiff;
+  annotationHash: string;
+}
+
+/** "Review this PR's security delta": the model diff against `ref`, and what a reviewer checks in it. */
+export function buildReviewDeltaPrompt(input: ReviewDeltaInput): string {
+  const { diff } = input;
+  const empty = diff.summary.totalChanges === 0 && diff.staleEntitlements.length === 0;
+  return `Review the security delta of this change against \`${input.ref}\`.
+
+## Threat model changes since ${input.ref}
+${empty ? 'No annotation changed. Check whether the code change needed one — a new endpoint, query, file or network access, or a removed check, with no annotation movement is the finding to look for.' : fence(JSON.stringify(diff, null, 2), 'json')}
+
+## Review
+1. New unmitigated exposures: is each real, and is its severity right? Suggest the control that would mitigate it.
+2. Removed mitigations and controls: was the defending code removed too, or only the annotation? Either way the exposure is back open — say which.
+3. Changed severities and accepted risks: is the reason in the description enough to justify it?
+4. Flows and boundaries: does new data cross a trust boundary that nothing records?
+5. Read the changed code for the security-relevant changes the annotations do not mention.
+
+Report findings first, most severe first, each with file and line. Then list annotations the change should add or correct.
+${footer(input.annotationHash)}`;
+}
+
+export interface MitigationsInput {
+  asset: string;
+  traversal: Traversal;
+  /** The model around the asset: its depth-1 neighbourhood. */
+  neighbourhood: ThreatModel;
+  unmitigated: ThreatModelExposure[];
+  /** Every control the project declares, the ones to reuse first. */
+  controls: ThreatModelControl[];
+  annotationHash: string;
+}
+
+/** "Propose mitigations for unmitigated exposures on <asset>". */
+export function buildMitigationsPrompt(input: MitigationsInput): string {
+  const unresolved = unresolvedStart(input.traversal);
+  if (unresolved) return `${unresolved}\n${footer(input.annotationHash)}`;
+
+  const exposures = input.unmitigated.length === 0
+    ? `Nothing on ${input.asset} is unmitigated. Say so; do not invent exposures to mitigate.`
+    : input.unmitigated.map(e =>
+      `- ${e.asset} → ${e.threat} [${e.severity ?? 'unrated'}] at ${e.location.file}:${e.location.line}${e.description ? ` — ${quote(e.description)}` : ''}`).join('\n');
+  const controls = input.controls.length === 0
+    ? 'None declared.'
+    : input.controls.map(c => `- #${c.id ?? c.canonical_name}${c.description ? ` — ${quote(c.description)}` : ''}`).join('\n');
+
+  return `Propose mitigations for the unmitigated exposures on ${input.asset}.
+
+## Unmitigated exposures
+${exposures}
+
+## Controls declared in the project
+${controls}
+
+## The asset and its neighbourhood
+${fence(JSON.stringify({ traversal: input.traversal, flows: input.neighbourhood.flows, boundaries: input.neighbourhood.boundaries, mitigations: input.neighbourhood.mitigations }, null, 2), 'json')}
+
+## For each exposure
+1. Read the code at its location and confirm the exposure is real. If it is not, say why and propose removing or rewording it.
+2. If a control already in the code defends against it, propose the @mitigates line that records it — reusing a declared control where one fits.
+3. Otherwise propose the smallest code change that would mitigate it, the control it adds, and the @mitigates line to add with it.
+4. Where a fix is not worth making, say so and leave the decision to @accepts to a person — do not write @accepts yourself.
+
+Give the proposals as a list, most severe exposure first.
+${footer(input.annotationHash)}`;
+}
+
+export interface TrustBoundariesInput {
+  asset: string;
+  traversal: Traversal;
+  /** Flows, boundaries and transfers around the asset. */
+  neighbourhood: ThreatModel;
+  annotationHash: string;
+}
+
+/** "Explain this asset's trust boundaries": the boundaries it sits behind and the flows that cross them. */
+export function buildTrustBoundariesPrompt(input: TrustBoundariesInput): string {
+  const unresolved = unresolvedStart(input.traversal);
+  if (unresolved) return `${unresolved}\n${footer(input.annotationHash)}`;
+
+  const { boundaries, flows, transfers } = input.neighbourhood;
+  return `Explain the trust boundaries around ${input.asset}.
+
+## The graph around it
+${input.traversal.nodes.length} asset(s) within ${input.traversal.depth_reached} hop(s) (completeness: ${input.traversal.completeness}); ${boundaries.length} boundar${boundaries.length === 1 ? 'y' : 'ies'}, ${flows.length} flow(s), ${transfers.length} transfer(s).
+${fence(JSON.stringify({ traversal: input.traversal, boundaries, flows, transfers }, null, 2), 'json')}
+
+## Explain
+1. Which boundaries the asset sits behind, and who or what is on the other side of each.
+2. Each flow that crosses a boundary: what data, in which direction, and what is checked where it crosses.
+3. Where a flow reaches the asset with no boundary recorded on the way, whether one exists in the code and is only unannotated.
+4. Anything transferred across a boundary to another party's responsibility.
+
+Verify against the code at the recorded locations before relying on an annotation. ${input.traversal.completeness === 'complete' ? '' : 'The graph above is not the whole picture — say what lies past it if it matters. '}End with the @boundary or @flows lines the model is missing, if any.
+${footer(input.annotationHash)}`;
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────
+
+function knownIds(model: ThreatModel): string {
+  const list = (ids: (string | undefined)[]) => {
+    const named = ids.filter((id): id is string => !!id).map(id => `#${id}`);
+    if (named.length === 0) return 'none';
+    return named.length > MAX_LISTED_IDS
+      ? `${named.slice(0, MAX_LISTED_IDS).join(', ')} … and ${named.length - MAX_LISTED_IDS} more`
+      : named.join(', ');
+  };
+  return [
+    `Assets: ${list(model.assets.map(a => a.id))}`,
+    `Threats: ${list(model.threats.map(t => t.id))}`,
+    `Controls: ${list(model.controls.map(c => c.id))}`,
+  ].join('\n');
+}
+
+/** The prompt when the asset ref matched nothing or several things. */
+function unresolvedStart(traversal: Traversal): string | null {
+  const start = traversal.start;
+  if (!start || (start.resolved && !start.ambiguous)) return null;
+  return start.ambiguous
+    ? `"${start.ref}" matches more than one asset: ${start.candidates!.join(', ')}. Ask which one is meant, then run this prompt with it.`
+    : `"${start.ref}" is not an asset in the threat model. Check the name with guardlink_lookup before going further.`;
+}
+
+/** `text` in a code fence no line of it can close. */
+function fence(text: string, lang = ''): string {
+  const longest = Math.max(0, ...[...text.matchAll(/`+/g)].map(m => m[0].length));
+  const ticks = '`'.repeat(Math.max(3, longest + 1));
+  return `${ticks}${lang}\n${text}\n${ticks}`;
+}
+
+/** A description inline, on one line and within quotes it cannot end. */
+const quote = (text: string) => `"${text.replace(/\s+/g, ' ').replace(/"/g, "'")}"`;
+
+const footer = (annotationHash: string) => `\n(Threat model as of annotation_hash ${annotationHash}.)`;
@@ -0,0 +1,710 @@
+/**
+ * GuardLink Suggest — HTTP endpoint discovery: the attack surface, route by route.
+ *
+ * The line patterns in suggest.ts see `router.get(` and stop there. This reads
+ * the routing declarations of the common web frameworks and lists each
+ * endpoint with its method, path, handler and middleware chain:
+ *
+ *   express / fastify   `app.get('/x', auth, handler)`, `router.use(mw)`, `fastify.route({…})`,
+ *                       `{ preHandler: […] }`, `app.use('/api', router)` for a router in the same file
+ *   nest                `@Controller('users')` + `@Get(':id')`, `@UseGuards`, `@UsePipes`, `@Throttle`
+ *   flask / fastapi     `@bp.route('/x', methods=[…])`, `@router.get('/x')`, stacked decorators,
+ *                       `Blueprint(url_prefix=…)`, `APIRouter(prefix=…, dependencies=[…])`, `Depends(…)`
+ *   django              `path('x/', views.detail)` in urls.py, with wrappers like `login_required(…)`
+ *   spring              `@RequestMapping` on the class, `@GetMapping` & co. on methods,
+ *                       `@PreAuthorize`/`@Secured`/`@RolesAllowed`, `@Valid` parameters
+ *   gin                 `r.GET("/x", mw, h)`, `r.Group("/v1", mw)`, `g.Use(mw)`
+ *
+ * Middleware is classified by name — auth, rate-limit, validation or other —
+ * which is a guess, and the suggestions built on it say so in their
+ * confidence. A prefix or middleware applied in another file (a router
+ * mounted elsewhere, a global auth filter) is not seen: the inventory is what
+ * each file declares.
+ *
+ * An endpoint counts as annotated when an annotation sits on its declaration,
+ * inside its handler, or up to ADJACENT_LINES above either — the rule
+ * per-symbol coverage uses.
+ *
+ * @exposes #suggest to #redos [low] cwe:CWE-1333 -- "Routing patterns run over every line of every source file in the inventory"
+ * @mitigates #suggest against #redos using #regex-anchoring -- "Line patterns are anchored alternations; call bodies are scanned by hand and capped at MAX_CALL_LINES"
+ * @flows SourceFiles -> #suggest via discoverEndpoints -- "Routing declarations read into the endpoint inventory"
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+
+import type { ThreatModel, SourceLocation } from '../types/index.js';
+import { ADJACENT_LINES, indexSymbols, loadSymbolGrammars, type SourceSymbol } from '../parser/index.js';
+
+export type RouteFramework = 'express' | 'fastify' | 'nest' | 'flask' | 'fastapi' | 'django' | 'spring' | 'gin';
+
+export type MiddlewareKind = 'auth' | 'rate-limit' | 'validation' | 'other';
+
+export interface EndpointMiddleware {
+  /** As written: `requireAuth`, `passport.authenticate`, `@PreAuthorize`. */
+  name: string;
+  kind: MiddlewareKind;
+}
+
+export interface Endpoint {
+  framework: RouteFramework;
+  /** Upper case. `ANY` when the route takes every method. */
+  method: string;
+  /** With the prefix of a router, blueprint, group or controller declared in the same file. */
+  path: string;
+  file: string;
+  /** The registration call, or the first decorator above the handler. */
+  line: number;
+  /** Last line of the declaration — of the call, or the `def`/method line under the decorators. */
+  end_line: number;
+  /** Null for an inline function. */
+  handler: string | null;
+  /** Where the handler is defined in this file; `line` when it is not. */
+  handler_line: number;
+  handler_end_line: number;
+  /** In the order a request meets them, the router's own first. */
+  middleware: EndpointMiddleware[];
+}
+
+export interface InventoriedEndpoint extends Endpoint {
+  annotated: boolean;
+}
+
+/** How far a call's arguments are followed across lines. */
+const MAX_CALL_LINES = 40;
+
+const JS_FILE = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+
+const RATE_LIMIT = /rate.?limit|throttl|limiter|slow.?down/i;
+const AUTH = /auth|login|jwt|token|session|passport|guard|permission|roles?\b|roles?_|secured|current.?user|require.?user|protect|acl|oauth|api.?key/i;
+const VALIDATION = /valid|schema|sanitiz|celebrate|joi|zod|yup|pipe/i;
+
+/** Auth, rate-limit or validation, by name; `other` when the name says none. */
+export function middlewareKind(name: string): MiddlewareKind {
+  if (RATE_LIMIT.test(name)) return 'rate-limit';
+  if (AUTH.test(name)) return 'auth';
+  if (VALIDATION.test(name)) return 'validation';
+  return 'other';
+}
+
+// ─── Discovery ───────────────────────────────────────────────────────
+
+/** True when `discoverEndpoints` reads files like this one. */
+export function hasRouteScanner(file: string): boolean {
+  return JS_FILE.test(file) || /\.(?:py|java|kt|go)$/.test(file);
+}
+
+/**
+ * Every endpoint `file` declares, in line order. Loads the file's grammar,
+ * when it has one, to find where a named handler ends.
+ */
+export async function discoverEndpoints(file: string, content: string): Promise<Endpoint[]> {
+  const lines = content.split('\n');
+  let found: Endpoint[];
+  if (JS_FILE.test(file)) found = [...scanJavaScript(file, lines), ...scanNest(file, lines)];
+  else if (file.endsWith('.py')) found = [...scanPython(file, lines), ...scanDjango(file, lines)];
+  else if (/\.(?:java|kt)$/.test(file)) found = scanSpring(file, lines);
+  else if (file.endsWith('.go')) found = scanGin(file, lines);
+  else return [];
+  if (found.length === 0) return [];
+
+  await loadSymbolGrammars([file]);
+  const symbols = indexSymbols(content, file) ?? [];
+  return found.map(e => withHandlerSpan(e, symbols)).sort((a, b) => a.line - b.line);
+}
+
+/** Stretch the handler to its declaration's end, where the index knows it. */
+function withHandlerSpan(e: Endpoint, symbols: SourceSymbol[]): Endpoint {
+  if (!e.handler) return e;
+  const name = e.handler.split('.').pop()!;
+  const own = e.handler_line !== e.line
+    ? symbols.find(s => s.name === name && s.line <= e.handler_line && e.handler_line <= s.end_line)
+    : symbols.find(s => s.name === name);
+  return own ? { ...e, handler_line: own.line, handler_end_line: own.end_line } : e;
+}
+
+/** True when one of `lines` — annotation lines in the endpoint's file — covers it. */
+export function endpointCovered(e: Endpoint, lines: readonly number[]): boolean {
+  return lines.some(l =>
+    (l >= e.line - ADJACENT_LINES && l <= e.end_line)
+    || (l >= e.handler_line - ADJACENT_LINES && l <= e.handler_end_line));
+}
+
+/**
+ * The endpoint inventory of a parsed project: every endpoint in its scanned
+ * files, each marked with whether an annotation in the model covers it.
+ */
+export async function inventoryEndpoints(root: string, model: ThreatModel): Promise<InventoriedEndpoint[]> {
+  const files = [...(model.annotated_files ?? []), ...(model.unannotated_files ?? [])].filter(hasRouteScanner).sort();
+  const lines = annotationLines(model);
+  const out: InventoriedEndpoint[] = [];
+  for (const file of files) {
+    let content: string;
+    try {
+      content = await readFile(join(root, file), 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const e of await discoverEndpoints(file, content)) {
+      out.push({ ...e, annotated: endpointCovered(e, lines.get(file) ?? []) });
+    }
+  }
+  return out;
+}
+
+/** Annotation lines by file, across every relation the model records. */
+export function annotationLines(model: ThreatModel): Map<string, number[]> {
+  const locations: SourceLocation[] = [
+    ...model.assets ?? [], ...model.threats ?? [], ...model.controls ?? [],
+    ...model.mitigations ?? [], ...model.exposures ?? [], ...model.confirmed ?? [],
+    ...model.acceptances ?? [], ...model.transfers ?? [], ...model.flows ?? [],
+    ...model.boundaries ?? [], ...model.validations ?? [], ...model.audits ?? [],
+    ...model.ownership ?? [], ...model.data_handling ?? [], ...model.assumptions ?? [],
+    ...model.shields ?? [], ...model.features ?? [], ...model.comments ?? [],
+    ...model.actors ?? [], ...model.entitlements ?? [], ...model.applications ?? [],
+  ].map(a => a.location);
+  const byFile = new Map<string, number[]>();
+  for (const l of locations) {
+    if (!byFile.has(l.file)) byFile.set(l.file, []);
+    byFile.get(l.file)!.push(l.line);
+  }
+  return byFile;
+}
+
+// ─── Express / Fastify ───────────────────────────────────────────────
+
+interface Router {
+  framework: RouteFramework;
+  prefix: string;
+  middleware: EndpointMiddleware[];
+}
+
+function scanJavaScript(file: string, lines: string[]): Endpoint[] {
+  const text = lines.join('\n');
+  const fastifyFile = /['"]fastify['"]/.test(text);
+  const defaultFramework: RouteFramework = fastifyFile && !/['"]express['"]/.test(text) ? 'fastify' : 'express';
+  const routers = new Map<string, Router>();
+  for (const name of ['app', 'router', 'server', 'api', 'fastify']) {
+    routers.set(name, { framework: name === 'fastify' ? 'fastify' : defaultFramework, prefix: '', middleware: [] });
+  }
+  for (const m of text.matchAll(/\b(?:const|let|var)\s+(\w+)\s*=\s*(?:await\s+)?(express(?:\.Router)?|Router|[Ff]astify|require\(\s*['"]fastify['"]\s*\))\s*\(/g)) {
+    routers.set(m[1], { framework: /fastify/i.test(m[2]) ? 'fastify' : 'express', prefix: '', middleware: [] });
+  }
+
+  // Mounts first: `app.use('/api', router)` may come after the router's routes.
+  forEachCall(lines, /\b(\w+)\.use\s*\(/g, '//', (m, args) => {
+    const prefix = literal(args[0]);
+    const child = routers.get(args[args.length - 1]);
+    if (prefix !== null && child && routers.has(m[1])) child.prefix = joinPath(routers.get(m[1])!.prefix, prefix);
+  });
+
+  const out: Endpoint[] = [];
+  const calls = /\b(\w+)\.(use|addHook|route|get|post|put|patch|delete|del|all|options|head)\s*\(/g;
+  forEachCall(lines, calls, '//', (m, args, row, end) => {
+    const router = routers.get(m[1]);
+    if (!router) return;
+    const verb = m[2];
+    if (verb === 'use') {
+      if (literal(args[0]) === null) router.middleware.push(...args.flatMap(middlewareIn));
+      return;
+    }
+    if (verb === 'addHook') {
+      if (/^['"](?:onRequest|preHandler|preValidation)['"]$/.test(args[0] ?? '')) router.middleware.push(...middlewareIn(args[1] ?? ''));
+      return;
+    }
+    if (verb === 'route') {
+      const options = objectEntries(args[0] ?? '');
+      const url = literal(options.get('url') ?? options.get('path'));
+      if (url === null) return;
+      const methods = stringsIn(options.get('method') ?? '').map(s => s.toUpperCase());
+      out.push(endpoint(router, file, methods.length ? methods : ['GET'], url, row, end, options.get('handler') ?? null, fastifyHooks(options)));
+      return;
+    }
+
+    const path = literal(args[0]);
+    if (path === null || !/^[/*]/.test(path) || args.length < 2) return;
+    const rest = args.slice(1);
+    const handler = rest.pop()!;
+    const middleware = rest.flatMap(arg => arg.startsWith('{') ? fastifyHooks(objectEntries(arg)) : middlewareIn(arg));
+    const method = verb === 'del' ? 'DELETE' : verb === 'all' ? 'ANY' : verb.toUpperCase();
+    out.push(endpoint(router, file, [method], path, row, end, handler, middleware));
+  });
+  return out;
+}
+
+function endpoint(
+  router: Router, file: string, methods: string[], path: string, row: number, end: number,
+  handler: string | null, middleware: EndpointMiddleware[],
+): Endpoint {
+  const name = handler ? identifier(handler) : null;
+  return {
+    framework: router.framework,
+    method: methods.join('|'),
+    path: joinPath(router.prefix, path),
+    file,
+    line: row + 1,
+    end_line: end + 1,
+    handler: name,
+    handler_line: row + 1,
+    handler_end_line: end + 1,
+    middleware: [...router.middleware, ...middleware],
+  };
+}
+
+function fastifyHooks(options: Map<string, string>): EndpointMiddleware[] {
+  const out: EndpointMiddleware[] = [];
+  for (const key of ['onRequest', 'preValidation', 'preHandler']) {
+    if (options.has(key)) out.push(...middlewareIn(options.get(key)!));
+  }
+  if (options.has('schema')) out.push({ name: 'schema', kind: 'validation' });
+  if (/rateLimit/.test(options.get('config') ?? '')) out.push({ name: 'config.rateLimit', kind: 'rate-limit' });
+  return out;
+}
+
+// ─── Nest ────────────────────────────────────────────────────────────
+
+function scanNest(file: string, lines: string[]): Endpoint[] {
+  if (!lines.some(l => /@Controller\s*\(/.test(l))) return [];
+  const out: Endpoint[] = [];
+  let prefix = '';
+  let classMiddleware: EndpointMiddleware[] = [];
+
+  forEachDeclaration(lines, '//', (decorators, row, declaration) => {
+    if (/\bclass\s+\w+/.test(declaration)) {
+      const controller = decorators.find(d => d.name === 'Controller');
+      if (controller) {
+        prefix = literal(controller.args[0]) ?? literal(objectEntries(controller.args[0] ?? '').get('path')) ?? '';
+        classMiddleware = decorators.flatMap(nestMiddleware);
+      }
+      return;
+    }
+    const routes = decorators.filter(d => /^(?:Get|Post|Put|Patch|Delete|Options|Head|All)$/.test(d.name));
+    const handler = /^(?:(?:public|private|protected|static|async|override)\s+)*(\w+)\s*\(/.exec(declaration)?.[1];
+    if (routes.length === 0 || !handler) return;
+    const middleware = [...classMiddleware, ...decorators.flatMap(nestMiddleware)];
+    for (const route of routes) {
+      out.push({
+        framework: 'nest',
+        method: route.name === 'All' ? 'ANY' : route.name.toUpperCase(),
+        path: joinPath(prefix, literal(route.args[0]) ?? ''),
+        file,
+        line: decorators[0].row + 1,
+        end_line: row + 1,
+        handler,
+        handler_line: row + 1,
+        handler_end_line: row + 1,
+        middleware,
+      });
+    }
+  });
+  return out;
+}
+
+function nestMiddleware(d: Decorator): EndpointMiddleware[] {
+  // A guard is access control whatever it is called; a pipe validates.
+  const fallback: Record<string, MiddlewareKind> = { UseGuards: 'auth', UsePipes: 'validation', UseInterceptors: 'other' };
+  if (d.name in fallback) {
+    return d.args.flatMap(arg => middlewareIn(arg).map(m => ({ ...m, kind: m.kind === 'other' ? fallback[d.name] : m.kind })));
+  }
+  if (/^(?:Throttle|RateLimit)$/.test(d.name)) return [{ name: `@${d.name}`, kind: 'rate-limit' }];
+  if (/^(?:Roles|Auth|Permissions)$/.test(d.name)) return [{ name: `@${d.name}`, kind: 'auth' }];
+  return [];
+}
+
+// ─── Flask / FastAPI ─────────────────────────────────────────────────
+
+function scanPython(file: string, lines: string[]): Endpoint[] {
+  const text = lines.join('\n');
+  const defaultFramework: RouteFramework = /^\s*(?:from|import)\s+fastapi\b/m.test(text) ? 'fastapi' : 'flask';
+  const routers = new Map<string, Router>();
+  for (const name of ['app', 'bp', 'blueprint', 'router', 'api']) {
+    routers.set(name, { framework: defaultFramework, prefix: '', middleware: [] });
+  }
+  forEachCall(lines, /^\s*(\w+)\s*(?::\s*[\w.]+\s*)?=\s*(?:[\w.]+\.)?(Blueprint|APIRouter|FastAPI|Flask)\s*\(/gm, '#', (m, args) => {
+    const kwargs = keywordArgs(args, '=');
+    routers.set(m[1], {
+      framework: m[2] === 'APIRouter' || m[2] === 'FastAPI' ? 'fastapi' : 'flask',
+      prefix: literal(kwargs.get(m[2] === 'Blueprint' ? 'url_prefix' : 'prefix')) ?? '',
+      middleware: dependencies(kwargs.get('dependencies') ?? ''),
+    });
+  });
+
+  const out: Endpoint[] = [];
+  forEachDeclaration(lines, '#', (decorators, row, declaration, signature) => {
+    const handler = /^(?:async\s+)?def\s+(\w+)/.exec(declaration)?.[1];
+    if (!handler) return;
+    const routes: { router: Router; methods: string[]; path: string; kwargs: Map<string, string> }[] = [];
+    const middleware: EndpointMiddleware[] = [];
+    for (const d of decorators) {
+      const route = /^(\w+)\.(route|api_route|get|post|put|patch|delete|options|head)$/.exec(d.name);
+      const router = route ? routers.get(route[1]) : undefined;
+      if (route && router) {
+        const kwargs = keywordArgs(d.args, '=');
+        const path = literal(d.args[0]) ?? literal(kwargs.get('path') ?? kwargs.get('rule'));
+        if (path === null) continue;
+        const methods = route[2] === 'route' || route[2] === 'api_route'
+          ? stringsIn(kwargs.get('methods') ?? '').map(s => s.toUpperCase())
+          : [route[2].toUpperCase()];
+        routes.push({ router, methods: methods.length ? methods : ['GET'], path, kwargs });
+      } else {
+        middleware.push({ name: `@${d.name}`, kind: middlewareKind(d.name) });
+      }
+    }
+    const injected = dependencies(signature);
+    for (const r of routes) {
+      out.push({
+        framework: r.router.framework,
+        method: r.methods.join('|'),
+        path: joinPath(r.router.prefix, r.path),
+        file,
+        line: decorators[0].row + 1,
+        end_line: row + 1,
+        handler,
+        handler_line: row + 1,
+        handler_end_line: row + 1,
+        middleware: [...r.router.middleware, ...dependencies(r.kwargs.get('dependencies') ?? ''), ...middleware, ...injected],
+      });
+    }
+  });
+  return out;
+}
+
+/** FastAPI's `Depends(x)` and `Security(x)`, each a middleware named `x`. */
+function dependencies(text: string): EndpointMiddleware[] {
+  return [...text.matchAll(/\b(?:Depends|Security)\(\s*([\w.]+)/g)].map(m => ({ name: m[1], kind: middlewareKind(m[1]) }));
+}
+
+// ─── Django ──────────────────────────────────────────────────────────
+
+function scanDjango(file: string, lines: string[]): Endpoint[] {
+  if (basename(file) !== 'urls.py' && !lines.some(l => /^\s*urlpatterns\s*[+]?=/.test(l))) return [];
+  const out: Endpoint[] = [];
+  forEachCall(lines, /\b(path|re_path|url)\s*\(\s*(?=[rR]?['"])/g, '#', (_m, args, row, end) => {
+    const path = literal(args[0]);
+    let view = args[1] ?? '';
+    if (path === null || !view || view.startsWith('include(')) return;
+    const middleware: EndpointMiddleware[] = [];
+    // `login_required(views.x)`, `csrf_exempt(ratelimit(...)(views.y))`: the wrappers are the chain.
+    for (let m = /^([\w.]+)\((.*)\)$/s.exec(view); m && !m[1].endsWith('as_view'); m = /^([\w.]+)\((.*)\)$/s.exec(view)) {
+      middleware.push({ name: m[1], kind: middlewareKind(m[1]) });
+      view = splitTopLevel(m[2])[0] ?? '';
+    }
+    out.push({
+      framework: 'django',
+      method: 'ANY',
+      path: path.startsWith('/') || path.startsWith('^') ? path : `/${path}`,
+      file,
+      line: row + 1,
+      end_line: end + 1,
+      handler: view.replace(/\.as_view\(.*$/s, '') || null,
+      handler_line: row + 1,
+      handler_end_line: end + 1,
+      middleware,
+    });
+  });
+  return out;
+}
+
+// ─── Spring ──────────────────────────────────────────────────────────
+
+const SPRING_MAPPINGS: Record<string, string> = {
+  GetMapping: 'GET', PostMapping: 'POST', PutMapping: 'PUT', PatchMapping: 'PATCH', DeleteMapping: 'DELETE', RequestMapping: 'ANY',
+};
+
+function scanSpring(file: string, lines: string[]): Endpoint[] {
+  if (!lines.some(l => /@(?:Rest)?Controller\b/.test(l))) return [];
+  const out: Endpoint[] = [];
+  let prefix = '';
+  let classMiddleware: EndpointMiddleware[] = [];
+
+  forEachDeclaration(lines, '//', (decorators, row, declaration, signature) => {
+    if (/\bclass\s+\w+/.test(declaration)) {
+      const mapping = decorators.find(d => d.name === 'RequestMapping');
+      prefix = mapping ? springPath(mapping) : '';
+      classMiddleware = decorators.flatMap(springMiddleware);
+      return;
+    }
+    const handler = /\bfun\s+(\w+)/.exec(declaration)?.[1] ?? /(\w+)\s*\(/.exec(declaration)?.[1];
+    const routes = decorators.filter(d => d.name in SPRING_MAPPINGS);
+    if (routes.length === 0 || !handler) return;
+    const middleware = [...classMiddleware, ...decorators.flatMap(springMiddleware)];
+    if (/@Valid(?:ated)?\b/.test(signature)) middleware.push({ name: '@Valid', kind: 'validation' });
+    for (const route of routes) {
+      const kwargs = keywordArgs(route.args, '=');
+      const requestMethods = [...(kwargs.get('method') ?? '').matchAll(/RequestMethod\.(\w+)/g)].map(m => m[1]);
+      out.push({
+        framework: 'spring',
+        method: requestMethods.length ? requestMethods.join('|') : SPRING_MAPPINGS[route.name],
+        path: joinPath(prefix, springPath(route)),
+        file,
+        line: decorators[0].row + 1,
+        end_line: row + 1,
+        handler,
+        handler_line: row + 1,
+        handler_end_line: row + 1,
+        middleware,
+      });
+    }
+  });
+  return out;
+}
+
+function springPath(d: Decorator): string {
+  const kwargs = keywordArgs(d.args, '=');
+  return stringsIn(d.args.length === 1 && !kwargs.size ? d.args[0] : kwargs.get('value') ?? kwargs.get('path') ?? '')[0] ?? '';
+}
+
+function springMiddleware(d: Decorator): EndpointMiddleware[] {
+  if (/^(?:PreAuthorize|PostAuthorize|Secured|RolesAllowed)$/.test(d.name)) return [{ name: `@${d.name}`, kind: 'auth' }];
+  if (/^(?:RateLimiter|Throttle)$/.test(d.name)) return [{ name: `@${d.name}`, kind: 'rate-limit' }];
+  if (d.name === 'Validated') return [{ name: '@Validated', kind: 'validation' }];
+  return [];
+}
+
+// ─── Gin ─────────────────────────────────────────────────────────────
+
+function scanGin(file: string, lines: string[]): Endpoint[] {
+  if (!lines.some(l => l.includes('"github.com/gin-gonic/gin"'))) return [];
+  const groups = new Map<string, Router>();
+  const groupOf = (name: string) => {
+    if (!groups.has(name)) groups.set(name, { framework: 'gin', prefix: '', middleware: [] });
+    return groups.get(name)!;
+  };
+
+  const out: Endpoint[] = [];
+  const calls = /\b(?:(\w+)\s*:?=\s*)?(\w+)\.(Group|Use|GET|POST|PUT|PATCH|DELETE|OPTIONS|HEAD|Any|Handle)\s*\(/g;
+  forEachCall(lines, calls, '//', (m, args, row, end) => {
+    const router = groupOf(m[2]);
+    if (m[3] === 'Group') {
+      if (m[1]) {
+        groups.set(m[1], {
+          framework: 'gin',
+          prefix: joinPath(router.prefix, literal(args[0]) ?? ''),
+          middleware: [...router.middleware, ...args.slice(1).flatMap(middlewareIn)],
+        });
+      }
+      return;
+    }
+    if (m[3] === 'Use') {
+      router.middleware.push(...args.flatMap(middlewareIn));
+      return;
+    }
+    const rest = m[3] === 'Handle' ? args.slice(1) : args;
+    const method = m[3] === 'Handle' ? (literal(args[0]) ?? 'ANY').toUpperCase() : m[3] === 'Any' ? 'ANY' : m[3];
+    const path = literal(rest[0]);
+    if (path === null || rest.length < 2) return;
+    const handler = rest[rest.length - 1];
+    out.push(endpoint(router, file, [method], path, row, end, handler, rest.slice(1, -1).flatMap(middlewareIn)));
+  });
+  return out;
+}
+
+// ─── Reading calls and declarations ──────────────────────────────────
+
+/**
+ * Run `visit` for each match of `pattern` — which must end at a call's `(` —
+ * with the call's top-level arguments, its line and the line it closes on.
+ */
+function forEachCall(
+  lines: string[],
+  pattern: RegExp,
+  comment: string,
+  visit: (m: RegExpMatchArray, args: string[], row: number, end: number) => void,
+): void {
+  for (let row = 0; row < lines.length; row++) {
+    const code = stripLineComment(lines[row], comment);
+    for (const m of code.matchAll(pattern)) {
+      const call = callBody(lines, row, m.index! + m[0].length - 1, comment);
+      if (call) visit(m, splitTopLevel(call.body), row, call.end);
+    }
+  }
+}
+
+interface Decorator {
+  /** Without the `@`: `app.route`, `UseGuards`, `GetMapping`. */
+  name: string;
+  args: string[];
+  row: number;
+}
+
+/**
+ * Run `visit` for each declaration with decorators (annotations, in Java)
+ * stacked above it: the decorators, the declaration's line, its text and, when
+ * it takes parameters, their text.
+ */
+function forEachDeclaration(
+  lines: string[],
+  comment: string,
+  visit: (decorators: Decorator[], row: number, declaration: string, signature: string) => void,
+): void {
+  let pending: Decorator[] = [];
+  for (let row = 0; row < lines.length; row++) {
+    const code = stripLineComment(lines[row], comment).trim();
+    if (!code) continue;
+    const decorator = /^@([A-Za-z_][\w.]*)\s*(\()?/.exec(code);
+    if (decorator) {
+      let args: string[] = [];
+      if (decorator[2]) {
+        const open = lines[row].indexOf('(', lines[row].indexOf(`@${decorator[1]}`));
+        const call = callBody(lines, row, open, comment);
+        if (call) {
+          args = splitTopLevel(call.body);
+          pending.push({ name: decorator[1], args, row });
+          // A declaration may follow on the line the decorator closes on.
+          const after = stripLineComment(lines[call.end], comment).slice(call.close + 1).trim();
+          row = call.end;
+          if (!after || after.startsWith('@')) continue;
+          visitDeclaration(after, call.end);
+          continue;
+        }
+      }
+      pending.push({ name: decorator[1], args, row });
+      const after = code.slice(decorator[0].length).trim();
+      if (!after || decorator[2]) continue;
+      visitDeclaration(after, row);
+      continue;
+    }
+    visitDeclaration(code, row);
+  }
+
+  function visitDeclaration(declaration: string, row: number): void {
+    if (pending.length > 0) {
+      const open = lines[row].indexOf('(');
+      const signature = open >= 0 ? callBody(lines, row, open, comment)?.body ?? '' : '';
+      visit(pending, row, declaration, signature);
+    }
+    pending = [];
+  }
+}
+
+/** The text between the parenthesis at `lines[row][open]` and its match, with the line it closes on. */
+function callBody(lines: string[], row: number, open: number, comment: string): { body: string; end: number; close: number } | null {
+  let depth = 0;
+  let quote: string | null = null;
+  let body = '';
+  for (let r = row; r < lines.length && r < row + MAX_CALL_LINES; r++) {
+    const text = lines[r];
+    for (let c = r === row ? open : 0; c < text.length; c++) {
+      const ch = text[c];
+      if (quote) {
+        body += ch;
+        if (ch === '\\') body += text[++c] ?? '';
+        else if (ch === quote) quote = null;
+        continue;
+      }
+      if (text.startsWith(comment, c)) break;
+      if (ch === '"' || ch === "'" || ch === '`') quote = ch;
+      else if ('([{'.includes(ch)) depth++;
+      else if (')]}'.includes(ch) && --depth === 0) return { body: body.slice(1), end: r, close: c };
+      body += ch;
+    }
+    // A string does not continue onto the next line, bar a template literal.
+    if (quote !== '`') quote = null;
+    body += ' ';
+  }
+  return null;
+}
+
+/** Split on the commas outside brackets and strings. */
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\') current += ch + (text[++i] ?? '');
+      else {
+        if (ch === quote) quote = null;
+        current += ch;
+      }
+      continue;
+    }
+    if (ch === '"' || ch === "'" || ch === '`') quote = ch;
+    else if ('([{'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/** A line that is only comment — `//`, a block comment's `*` lines, `#`, a docstring's opening — is no code at all. */
+const isCommentLine = (text: string): boolean => /^(?:\/\/|\/\*|\*|#(?!\[)|""")/.test(text.trim());
+
+function stripLineComment(line: string, comment: string): string {
+  if (isCommentLine(line)) return '';
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      quote = ch;
+    } else if (line.startsWith(comment, i)) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/** The value of a string literal — `'x'`, `"x"`, `` `x` ``, `r'x'` — or null for anything else. */
+function literal(arg: string | undefined): string | null {
+  const m = arg?.trim().match(/^[rRbBuUfF]?(["'`])((?:\\.|(?!\1)[^\\])*)\1$/s);
+  return m ? m[2] : null;
+}
+
+/** Every string literal in `text`: `['GET', 'POST']` → GET, POST. */
+function stringsIn(text: string): string[] {
+  return [...text.matchAll(/(["'])((?:\\.|(?!\1)[^\\])*)\1/g)].map(m => m[2]);
+}
+
+/** `key=value` (Python, Java) or `key: value` (an object's entries) arguments, by key. */
+function keywordArgs(args: string[], separator: '=' | ':'): Map<string, string> {
+  const out = new Map<string, string>();
+  const pattern = separator === '=' ? /^(\w+)\s*=(?!=)\s*(.*)$/s : /^['"]?(\w+)['"]?\s*:\s*(.*)$/s;
+  for (const arg of args) {
+    const m = pattern.exec(arg);
+    if (m) out.set(m[1], m[2].trim());
+  }
+  return out;
+}
+
+/** An object literal's entries; `{ handler }` is `handler: handler`. */
+function objectEntries(text: string): Map<string, string> {
+  const body = text.trim();
+  if (!body.startsWith('{') || !body.endsWith('}')) return new Map();
+  const parts = splitTopLevel(body.slice(1, -1));
+  const entries = keywordArgs(parts, ':');
+  for (const p of parts) if (/^\w+$/.test(p) && !entries.has(p)) entries.set(p, p);
+  return entries;
+}
+
+/** The middleware an argument names: one for `auth` or `rateLimit({…})`, each element of an array, none for an inline function. */
+function middlewareIn(arg: string): EndpointMiddleware[] {
+  const text = arg.trim();
+  if (text.startsWith('[')) return splitTopLevel(text.slice(1, text.lastIndexOf(']'))).flatMap(middlewareIn);
+  const name = identifier(text);
+  return name ? [{ name, kind: middlewareKind(name) }] : [];
+}
+
+/** `auth`, `passport.authenticate('jwt')`, `new Guard()` → the name; null for a function literal. */
+function identifier(text: string): string | null {
+  const m = /^(?:new\s+)?([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*(?:\(|$)/.exec(text.trim());
+  if (!m || /^(?:async|function|func)$/.test(m[1])) return null;
+  return m[1];
+}
+
+function joinPath(prefix: string, path: string): string {
+  if (!prefix) return path || '/';
+  const joined = `${prefix.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+  const clean = joined.endsWith('/') && joined.length > 1 && !path.endsWith('/') ? joined.slice(0, -1) : joined;
+  return clean.startsWith('/') ? clean : `/${clean}`;
+}
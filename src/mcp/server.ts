@@ -26,13 +26,26 @@
  *   guardlink://model        — Full ThreatModel JSON
  *   guardlink://definitions  — Assets, threats, controls
  *   guardlink://unmitigated  — Unmitigated exposures list
+ *   guardlink://diff/since/<annotation_hash> — What changed since the model with that hash
  *
- * Transport: stdio (for Claude Code .mcp.json, Cursor, etc.)
+ * Prompts:
+ *   threat-model-file        — Threat-model one file, with what GuardLink records for it
+ *   review-security-delta    — Review the threat model changes since a git ref
+ *   propose-mitigations      — Propose mitigations for an asset's unmitigated exposures
+ *   explain-trust-boundaries — Explain the boundaries and flows around an asset
+ *
+ * Every resource can be subscribed to: a watcher on the resources' root sends
+ * `notifications/resources/updated` when the annotation hash moves.
+ *
+ * Transport: stdio (for Claude Code .mcp.json, Cursor, etc.), or streamable
+ * HTTP for a server shared by several clients — see http.ts. A shared server is
+ * usually restricted with `roots` and `readOnly` (ServerOptions).
  *
  * @exposes #mcp to #path-traversal [high] cwe:CWE-22 -- "Tool arguments include 'root' directory path from external client"
  * @mitigates #mcp against #path-traversal using #path-validation -- "Zod schema validates root; resolve() canonicalizes"
+ * @mitigates #mcp against #path-traversal using #path-validation -- "With ServerOptions.roots, a tool call or prompt naming any other root is refused before that root is read"
  * @exposes #mcp to #arbitrary-write [high] cwe:CWE-73 -- "report, dashboard, sarif tools write files"
- * @mitigates #mcp against #arbitrary-write using #path-validation -- "Output paths resolved relative to validated root"
+ * @mitigates #mcp against #arbitrary-write using #path-validation -- "Output paths are resolved against the validated root and refused when they leave it"
  * @exposes #mcp to #prompt-injection [medium] cwe:CWE-77 -- "annotate and threat_report tools pass user prompts to LLM"
  * @audit #mcp -- "User prompts passed to LLM; model context is read-only"
  * @exposes #mcp to #api-key-exposure [medium] cwe:CWE-798 -- "threat_report tool uses API keys from environment"
@@ -51,17 +64,23 @@
  * @feature "MCP Integration" -- "Model Context Protocol server for AI agent tooling"
  * @entitles #mcp-agent to read-threat-model on #mcp against #data-exposure -- "By design: guardlink mcp exists to hand a connected coding agent the threat model — that disclosure is the product, not a leak. No privilege gain either: the agent already reads the annotated source these records are parsed from, so the assembled model tells it nothing it could not derive itself. Authorization is the channel: the server is stdio-only with no network listener, so the only client is the process the operator launched, at src/mcp/index.ts:23"
  * @comment -- "Entitlement accepted by zippon on 2026-08-10 via guardlink entitle (proposal ent-mcp_agent.mcp.data_exposure)."
+ * @comment -- "The entitlement above predates the HTTP transport (http.ts). Over HTTP the client is whoever holds the bearer token, restricted to the configured roots — its 'stdio-only' premise needs re-review by its owner"
  */
 
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { existsSync, readFileSync, realpathSync } from 'node:fs';
+import { isAbsolute, relative, resolve } from 'node:path';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 // MERGE: main added the entitlement validators and the proposal module; ours
 // kept `crossRepoTag` (D19). Union — main's list had dropped crossRepoTag only
 // because it branched before D19 landed.
-import { parseProject, findDanglingRefs, findUnmitigatedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, clearAnnotations, applyAnnotations, findAnchorDrift, applyReanchor, crossRepoTag } from '../parser/index.js';
+import { parseProject, findDanglingRefs, findUnmitigatedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, findTemplateErrors, findExpiredAcceptances, clearAnnotations, applyAnnotations, findAnchorDrift, applyReanchor, crossRepoTag } from '../parser/index.js';
 import { fingerprintProject } from '../parser/fingerprint.js';
+import { computeAnnotationHash } from '../parser/annotation-hash.js';
+import { startWatch, type ModelWatcher } from '../watch/index.js';
 import { buildEnvelope, degradedEnvelope, envelopeBlock } from './freshness.js';
-import { getReviewableExposures, applyReviewAction } from '../review/index.js';
+import { getReviewableExposures, applyReviewAction, checkAcceptanceReview } from '../review/index.js';
 import {
   proposeEntitlement, listProposals, checkEntitlementProvenance, PROPOSALS_FILE,
   type ProposalStatus,
@@ -70,11 +89,13 @@ import { generateSarif } from '../analyzer/index.js';
 import { generateReport } from '../report/index.js';
 import { generateDashboardHTML, generateThreatGraph } from '../dashboard/index.js';
 import { diffModels, parseAtRef } from '../diff/index.js';
-import { lookup } from './lookup.js';
+import { lookup } from '../analyzer/lookup.js';
 import { fileContext, normalizeContextPath } from './context.js';
-import { selectSubgraph, traverseGraph, findPath, summariseGraphPayload, withoutFileInventory } from './subgraph.js';
+import { selectSubgraph, traverseGraph, findPath, summariseGraphPayload, withoutFileInventory, canonicaliser } from './subgraph.js';
+import { buildThreatModelFilePrompt, buildReviewDeltaPrompt, buildMitigationsPrompt, buildTrustBoundariesPrompt } from './prompts.js';
 import { buildServerInstructions, readConfiguredMode } from './instructions.js';
 import { suggestAnnotations } from './suggest.js';
+import { inventoryEndpoints } from './routes.js';
 import { generateThreatReport, listThreatReports, loadThreatReportsForDashboard, buildConfig, serializeModelCompact, FRAMEWORK_LABELS, FRAMEWORK_PROMPTS, buildUserMessage, type AnalysisFramework } from '../analyze/index.js';
 import { buildAnnotatePrompt } from '../agents/prompts.js';
 import { syncAgentFiles } from '../init/index.js';
@@ -86,6 +107,13 @@ import type { ThreatModel } from '../types/index.js';
 
 type TextBlock = { type: 'text'; text: string };
 
+/**
+ * How many past models each root keeps for `guardlink://diff/since/<hash>`.
+ * A model of a large repo is megabytes; an agent that last read further back
+ * than this reads `guardlink://model` again instead.
+ */
+const REMEMBERED_MODELS = 8;
+
 /**
  * The cache belongs to one server, not to the module.
  *
@@ -96,12 +124,19 @@ type TextBlock = { type: 'text'; text: string };
  * same wrong-repo failure as D9, one level up. Scoping it per server also means
  * a second server in the same process starts genuinely cold.
  */
-function createModelCache() {
+function createModelCache(options: ServerOptions = {}) {
   let cachedModel: ThreatModel | null = null;
   let cachedDiagnostics: any[] = [];
   let cachedRoot = '';
   let cachedFingerprint: string | null = null;
 
+  // Watch mode: one watcher per root, started on the first tool call for it.
+  // Stored as the promise so two concurrent first calls share one initial parse.
+  const watchers = new Map<string, Promise<ModelWatcher>>();
+  const stale = new Set<string>();
+  // Models served recently, by root and then annotation hash, oldest first.
+  const history = new Map<string, Map<string, ThreatModel>>();
+
   /**
    * Return the parsed model, re-parsing when anything on disk has moved.
    *
@@ -116,24 +151,100 @@ function createModelCache() {
    * the only mechanism that can catch an edit GuardLink did not make itself —
    * which is the common case, since `guardlink_annotate` hands a prompt to the
    * agent and the writes land afterwards, outside any tool call.
+   *
+   * With `watch`, the watcher has already done that work by the time a tool is
+   * called, so the call reads its snapshot and costs neither the glob walk nor
+   * the parse. A write made by a tool itself is not left to the watcher's
+   * debounce: `invalidateCache` marks the root, and the next read waits for a
+   * refresh, so a tool that writes and then reads sees its own write.
    */
   async function getModel(root: string): Promise<{ model: ThreatModel; diagnostics: any[] }> {
+    if (options.watch) return getWatchedModel(root);
     const fingerprint = await fingerprintProject(root);
     if (cachedModel && cachedRoot === root && cachedFingerprint === fingerprint) {
       return { model: cachedModel, diagnostics: cachedDiagnostics };
     }
-    const result = await parseProject({ root, project: 'unknown' });
+    // The fingerprint says *something* moved; the on-disk parse cache then
+    // re-parses only the files that did.
+    const result = await parseProject({ root, project: 'unknown', cache: true });
     cachedModel = result.model;
     cachedDiagnostics = result.diagnostics;
     cachedRoot = root;
     cachedFingerprint = fingerprint;
+    remember(root, computeAnnotationHash(result.model), result.model);
     return result;
   }
 
+  async function getWatchedModel(root: string): Promise<{ model: ThreatModel; diagnostics: any[] }> {
+    const watcher = await watcherFor(root);
+    if (stale.has(root)) {
+      stale.delete(root);
+      await watcher.refresh();
+    }
+    cachedRoot = root;
+    const { model, diagnostics, annotationHash } = watcher.current();
+    remember(root, annotationHash, model);
+    return { model, diagnostics };
+  }
+
+  /**
+   * The watcher for `root`, started on first use. Watch mode reads through it;
+   * without watch mode only subscriptions start one.
+   */
+  function watcherFor(root: string): Promise<ModelWatcher> {
+    let pending = watchers.get(root);
+    if (!pending) {
+      pending = startWatch({ root });
+      watchers.set(root, pending);
+      // A root that failed to parse must not pin a rejected promise forever.
+      pending.catch(() => watchers.delete(root));
+    }
+    return pending;
+  }
+
+  function remember(root: string, hash: string, model: ThreatModel): void {
+    let models = history.get(root);
+    if (!models) history.set(root, models = new Map());
+    models.delete(hash);
+    models.set(hash, model);
+    if (models.size > REMEMBERED_MODELS) models.delete(models.keys().next().value!);
+  }
+
+  /** A model of `root` this cache served with annotation hash `hash`, if it still has it. */
+  function modelWithHash(root: string, hash: string): ThreatModel | null {
+    return history.get(root)?.get(hash) ?? null;
+  }
+
+  /** Stop every watcher this cache started. */
+  async function close(): Promise<void> {
+    const all = [...watchers.values()];
+    watchers.clear();
+    history.clear();
+    for (const pending of all) {
+      try { (await pending).close(); } catch {}
+    }
+  }
+
   function invalidateCache(): void {
     cachedModel = null;
     cachedDiagnostics = [];
     cachedFingerprint = null;
+    for (const root of watchers.keys()) stale.add(root);
+  }
+
+  // Canonical, so a symlinked spelling of an allowed root is the same root.
+  const allowedRoots = options.roots?.length ? options.roots.map(canonicalPath) : null;
+
+  /**
+   * Why `root` may not be answered for, or null when it may. A root is allowed
+   * when it is one of `options.roots` or inside one; without `roots` every root
+   * is. Checked before anything reads the root, the parse included.
+   */
+  function deniedRoot(root: string): string | null {
+    if (!allowedRoots) return null;
+    const target = canonicalPath(root);
+    if (allowedRoots.some(allowed => isWithin(allowed, target))) return null;
+    return `root ${target} is not one this server serves. Allowed: ${allowedRoots.join(', ')}`;
   }
 
   /**
@@ -151,11 +262,15 @@ function createModelCache() {
    * for the working directory, because refusing would break the common case
    * where the server was spawned in the project root. What changes is that the
    * answer now says which root it used and whether it was established or assumed.
+   * A server restricted to `roots` whose working directory is not one of them
+   * answers for the first allowed root instead, and says that too.
    */
-  function resourceRoot(): { root: string; source: 'tool_call' | 'server_cwd' } {
-    return cachedRoot
-      ? { root: cachedRoot, source: 'tool_call' }
-      : { root: process.cwd(), source: 'server_cwd' };
+  function resourceRoot(): { root: string; source: 'tool_call' | 'server_cwd' | 'allowed_root' } {
+    if (cachedRoot) return { root: cachedRoot, source: 'tool_call' };
+    const cwd = process.cwd();
+    return allowedRoots && deniedRoot(cwd)
+      ? { root: allowedRoots[0], source: 'allowed_root' }
+      : { root: cwd, source: 'server_cwd' };
   }
 
   /** Envelope for `root`, degrading to a labelled stub if the model cannot be parsed. */
@@ -168,11 +283,45 @@ function createModelCache() {
     }
   }
 
-  return { getModel, invalidateCache, resourceRoot, envelopeFor };
+  return { getModel, invalidateCache, resourceRoot, deniedRoot, readOnly: !!options.readOnly, envelopeFor, watcherFor, remember, modelWithHash, close };
+}
+
+/** `path` resolved, and with symlinks followed when it exists. */
+function canonicalPath(path: string): string {
+  const absolute = resolve(path);
+  try {
+    return realpathSync(absolute);
+  } catch {
+    return absolute;
+  }
+}
+
+function isWithin(parent: string, child: string): boolean {
+  const rel = relative(parent, child);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
 }
 
 type ModelCache = ReturnType<typeof createModelCache>;
 
+/**
+ * Tools that write to the repository or spend an API key. A read-only server
+ * does not register them, so a client never sees them in `tools/list` rather
+ * than seeing them and being refused. `reanchor` writes only with `apply`, and
+ * `threat_report` only when a key is set, but each is one argument away.
+ */
+const WRITE_TOOLS: ReadonlySet<string> = new Set([
+  'guardlink_annotate_apply',
+  'guardlink_reanchor',
+  'guardlink_clear',
+  'guardlink_sync',
+  'guardlink_review_accept',
+  'guardlink_entitlement_propose',
+  'guardlink_report',
+  'guardlink_dashboard',
+  'guardlink_sarif',
+  'guardlink_threat_report',
+]);
+
 // ─── Freshness envelope (GL-102) ─────────────────────────────────────
 
 /**
@@ -192,25 +341,37 @@ function registerTool(
   schema: z.ZodRawShape,
   handler: (args: any) => Promise<{ content: TextBlock[] }>,
 ): void {
+  if (cache.readOnly && WRITE_TOOLS.has(name)) return;
   server.tool(name, description, schema, (async (args: any) => {
+    // No envelope on a refusal: building one reads the root it names.
+    const denied = typeof args?.root === 'string' ? cache.deniedRoot(args.root) : null;
+    if (denied) return { content: [{ type: 'text', text: `Error: ${denied}` }] };
+    // The report, dashboard and sarif tools write to `output`, which must stay
+    // under the root the allow-list just admitted: a `../` would write anywhere.
+    if (typeof args?.output === 'string' && normalizeContextPath(args.root ?? '.', args.output) === null) {
+      return { content: [{ type: 'text', text: `Error: output ${args.output} resolves outside the project root` }] };
+    }
     const result = await handler(args);
     const root = typeof args?.root === 'string' && args.root ? args.root : cache.resourceRoot().root;
     return { content: [...result.content, envelopeBlock(await cache.envelopeFor(root))] };
   }) as any);
 }
 
-/** Register a resource whose read always carries the envelope and names its root. */
+/**
+ * Register a resource whose read always carries the envelope and names its
+ * root. A template's handler gets the variables of the URI that was read.
+ */
 function registerResource(
   server: McpServer,
   cache: ModelCache,
   name: string,
-  uri: string,
+  uri: string | ResourceTemplate,
   metadata: { description: string },
-  handler: (root: string) => Promise<{ contents: any[] }>,
+  handler: (root: string, variables: Record<string, string | string[]>) => Promise<{ contents: any[] }>,
 ): void {
-  server.resource(name, uri, metadata, (async () => {
+  server.resource(name, uri as any, metadata, (async (_uri: URL, variables: Record<string, string | string[]> = {}) => {
     const { root, source } = cache.resourceRoot();
-    const result = await handler(root);
+    const result = await handler(root, variables);
     const envelope = { ...(await cache.envelopeFor(root)), root_source: source };
     return {
       contents: [
@@ -225,9 +386,105 @@ function registerResource(
   }) as any);
 }
 
+/**
+ * Register a prompt whose context is assembled server-side. Every prompt takes
+ * an optional `root`; without one it answers for the root the resources do.
+ */
+function registerPrompt(
+  server: McpServer,
+  cache: ModelCache,
+  name: string,
+  description: string,
+  schema: Record<string, z.ZodType<string | undefined>>,
+  build: (root: string, args: Record<string, string | undefined>) => Promise<string>,
+): void {
+  const args = { root: z.string().describe('Project root directory. Default: the root the resources answer for.').optional(), ...schema };
+  server.prompt(name, description, args as any, (async (input: Record<string, string | undefined>) => {
+    const root = input.root || cache.resourceRoot().root;
+    const denied = cache.deniedRoot(root);
+    if (denied) throw new McpError(ErrorCode.InvalidParams, denied);
+    return {
+      description,
+      messages: [{ role: 'user', content: { type: 'text', text: await build(root, input) } }],
+    };
+  }) as any);
+}
+
+// ─── Resource subscriptions ──────────────────────────────────────────
+
+/** The resource URIs a client can subscribe to. */
+const SUBSCRIBABLE = /^guardlink:\/\/(?:model|definitions|unmitigated|diff\/since\/[^/]+)$/;
+
+/**
+ * `resources/subscribe` and `resources/unsubscribe`, and the notifications
+ * they ask for.
+ *
+ * The first subscription starts a watcher (src/watch/) on the root the
+ * resources answer for. Every subscribed URI is a view of that one model, so
+ * when a refresh moves the annotation hash each of them is reported updated —
+ * and only then: a save that touches no annotation, or a diagnostic that comes
+ * and goes, is not worth the client re-reading a model it already has. Each
+ * refreshed model is also remembered, so `guardlink://diff/since/<hash>` can
+ * answer from the hash in an earlier read's envelope.
+ */
+function registerSubscriptions(server: McpServer, cache: ModelCache): void {
+  const subscribed = new Set<string>();
+  const watched = new Set<string>();
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+    const { uri } = request.params;
+    if (!SUBSCRIBABLE.test(uri)) throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    subscribed.add(uri);
+
+    const { root } = cache.resourceRoot();
+    if (!watched.has(root)) {
+      watched.add(root);
+      try {
+        const watcher = await cache.watcherFor(root);
+        cache.remember(root, watcher.current().annotationHash, watcher.current().model);
+        watcher.subscribe(update => {
+          cache.remember(root, update.annotationHash, watcher.current().model);
+          // The resources answer for one root at a time; a watcher left on an
+          // earlier one stays quiet.
+          if (update.previousHash === update.annotationHash || cache.resourceRoot().root !== root) return;
+          for (const uri of subscribed) void server.server.sendResourceUpdated({ uri }).catch(() => {});
+        });
+      } catch (err: any) {
+        watched.delete(root);
+        throw new McpError(ErrorCode.InternalError, `Cannot watch ${root}: ${err?.message ?? err}`);
+      }
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscribed.delete(request.params.uri);
+    return {};
+  });
+}
+
 // ─── Server setup ────────────────────────────────────────────────────
 
-export function createServer(): McpServer {
+export interface ServerOptions {
+  /**
+   * Keep each project's model live with a file watcher (src/watch/) and answer
+   * tool calls from it, instead of fingerprinting the tree on every call.
+   * Suited to long sessions on large repos; watchers stop when the server closes.
+   */
+  watch?: boolean;
+  /**
+   * Repository roots the server answers for. A tool call or prompt naming any
+   * other root is refused before it is read, and the resources fall back to the
+   * first of these when the working directory is not one. Unset: any root.
+   */
+  roots?: string[];
+  /** Leave out the tools that write (WRITE_TOOLS), for a server shared between clients. */
+  readOnly?: boolean;
+}
+
+export function createServer(options: ServerOptions = {}): McpServer {
   // Instructions must be built before any tool is registered — the SDK stores
   // them privately at construction. See instructions.ts on how the tool names in
   // that text are kept honest.
@@ -238,12 +495,20 @@ export function createServer(): McpServer {
       instructions: buildServerInstructions({
         mode: readConfiguredMode(cwd),
         definitionsPath: '.guardlink/definitions.*',
+        readOnly: !!options.readOnly,
       }),
     },
   );
 
-  const cache = createModelCache();
+  const cache = createModelCache(options);
   const { getModel, invalidateCache } = cache;
+  // Watch mode and resource subscriptions both start watchers.
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    void cache.close();
+    onclose?.();
+  };
+  registerSubscriptions(server, cache);
 
   // ── Tool: guardlink_parse ──
   registerTool(
@@ -349,7 +614,11 @@ export function createServer(): McpServer {
       // §3.6: an @entitles no human accepted. Only checked where the project has
       // a proposal ledger, so it never fires on a repo not using the flow.
       const provenanceDiags = await checkEntitlementProvenance(root, model);
-      const allDiags = [...diagnostics, ...danglingDiags, ...actorDiags, ...inertDiags, ...impreciseDiags, ...provenanceDiags];
+      // An @apply naming no template, or with the wrong arity, expands to nothing.
+      const templateDiags = findTemplateErrors(model);
+      // An @accepts past its until: date is a decision nobody has revisited.
+      const expiredDiags = findExpiredAcceptances(model);
+      const allDiags = [...diagnostics, ...danglingDiags, ...actorDiags, ...inertDiags, ...impreciseDiags, ...provenanceDiags, ...templateDiags, ...expiredDiags];
 
       const errors = allDiags.filter(d => d.level === 'error');
       const warnings = allDiags.filter(d => d.level === 'warning');
@@ -371,7 +640,7 @@ export function createServer(): McpServer {
   registerTool(
     server, cache,
     'guardlink_suggest',
-    'Given a file path or code diff, suggest appropriate GuardLink annotations based on code patterns, imports, and function signatures',
+    'Given a file path or code diff, suggest appropriate GuardLink annotations based on code patterns, imports, and function signatures. The project\'s rule packs (.guardlink/rules/*.yaml and workspace shared_rules) run beside the built-in patterns; a suggestion from one carries its rule id.',
     {
       root: z.string().describe('Project root directory').default('.'),
       file: z.string().describe('File path relative to root to analyze').optional(),
@@ -379,10 +648,14 @@ export function createServer(): McpServer {
     },
     async ({ root, file, diff }) => {
       const { model } = await getModel(root);
-      const suggestions = await suggestAnnotations({ root, model, file, diff });
-      return {
-        content: [{ type: 'text', text: JSON.stringify(suggestions, null, 2) }],
-      };
+      try {
+        const suggestions = await suggestAnnotations({ root, model, file, diff });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(suggestions, null, 2) }],
+        };
+      } catch (err) {
+        return { content: [{ type: 'text', text: `Error: ${(err as Error).message}` }] };
+      }
     },
   );
 
@@ -390,10 +663,10 @@ export function createServer(): McpServer {
   registerTool(
     server, cache,
     'guardlink_lookup',
-    'Query the threat model graph. Reaches every relation type the model carries: assets, threats, controls, mitigations, exposures, confirmed, acceptances, transfers, flows, boundaries, validations, audits, ownership, data classification, assumptions, actors, entitlements, shields, features, comments and cross-repo refs. Examples: "threats for #auth", "owner of #api", "handles pii", "assumptions for #api", "flows into Scanner", "unmitigated", "actors", "entitlements for #ns-admin". A query that is not one of the supported forms returns no_match listing them — it is never answered by guesswork.',
+    'Query the threat model graph. Reaches every relation type the model carries: assets, threats, controls, mitigations, exposures, confirmed, acceptances, transfers, flows, boundaries, validations, audits, ownership, data classification, assumptions, actors, entitlements, shields, features, comments and cross-repo refs. Examples: "threats for #auth", "owner of #api", "handles pii", "assumptions for #api", "flows into Scanner", "unmitigated", "risk for #api", "actors", "entitlements for #ns-admin". A query that is not one of the supported forms returns no_match listing them — it is never answered by guesswork.',
     {
       root: z.string().describe('Project root directory').default('.'),
-      query: z.string().describe('A supported query form: "unmitigated", "confirmed", "features", "asset <id>", "threat <id>", "control <id>", "threats for <asset>", "controls for <asset>", "exposures for <asset>", "mitigations for <asset>", "flows into <asset>", "flows from <asset>", "boundary for <asset>", "owner of <asset>", "handles <pii|phi|financial|secrets|internal|public>", "handles for <asset>", "assumptions for <asset>", "audits [for <asset>]", "validations for <asset-or-control>", "acceptances [for <asset>]", "transfers [for <threat-or-asset>]", "actors", "entitlements [for <actor>]", "comments [for <file-or-asset>]", "shields [for <file-or-asset>]", or a bare identifier. TWO DIFFERENT REF QUERIES, do not confuse them: "cwe:CWE-89" / "CWE-89" / "owasp:A03" asks about external identifiers declared on threats — the scanner bridge, and returns external_id.declared so you can tell \'never heard of this weakness\' from \'declared, nothing exposed\'; "cross-repo refs" asks about sibling-repo tags from workspace.yaml and is unrelated. Every entitlements row carries inert: an uncited claim is carried and visible but cannot demote a finding (actor-entitlement design §3.4). @comment and @shield record no asset, so scoping them by an asset joins by co-location (same file) and the result says so. Free-form questions are not parsed.'),
+      query: z.string().describe('A supported query form: "unmitigated", "confirmed", "features", "asset <id>", "threat <id>", "control <id>", "threats for <asset>", "controls for <asset>", "exposures for <asset>", "mitigations for <asset>", "flows into <asset>", "flows from <asset>", "boundary for <asset>", "owner of <asset>", "handles <pii|phi|financial|secrets|internal|public>", "handles for <asset>", "assumptions for <asset>", "audits [for <asset>]", "validations for <asset-or-control>", "acceptances [for <asset>]", "transfers [for <threat-or-asset>]", "actors", "entitlements [for <actor>]", "comments [for <file-or-asset>]", "shields [for <file-or-asset>]", "risk [for <asset>]", or a bare identifier. TWO DIFFERENT REF QUERIES, do not confuse them: "cwe:CWE-89" / "CWE-89" / "owasp:A03" asks about external identifiers declared on threats — the scanner bridge, and returns external_id.declared so you can tell \'never heard of this weakness\' from \'declared, nothing exposed\'; "cross-repo refs" asks about sibling-repo tags from workspace.yaml and is unrelated. Every entitlements row carries inert: an uncited claim is carried and visible but cannot demote a finding (actor-entitlement design §3.4). @comment and @shield record no asset, so scoping them by an asset joins by co-location (same file) and the result says so. Free-form questions are not parsed.'),
     },
     async ({ root, query }) => {
       const { model } = await getModel(root);
@@ -529,18 +802,18 @@ export function createServer(): McpServer {
     'Find @source blocks whose recorded file:line no longer holds the symbol they name — the drift external annotations accumulate after a refactor. Reports and proposes; it does not rewrite anything unless you pass apply: true, and it never invents an anchor for a symbol that has disappeared.',
     {
       root: z.string().describe('Project root directory').default('.'),
-      apply: z.boolean().describe('Rewrite @source lines to the proposed positions. Only blocks whose symbol was found elsewhere are moved; a vanished symbol is always left for a human.').default(false),
+      apply: z.boolean().describe('Rewrite @source lines to the proposed positions. Only blocks whose symbol was found elsewhere (same file, another file, or renamed in place) are rewritten; a vanished symbol is always left for a human.').default(false),
     },
     async ({ root, apply }) => {
       const { model } = await getModel(root);
-      const drifts = findAnchorDrift(root, model);
+      const drifts = await findAnchorDrift(root, model);
 
       if (!apply) {
         return { content: [{ type: 'text', text: JSON.stringify({
           drifted: drifts.length,
           anchored_blocks_checked: model.exposures.filter(e => e.location.parent_symbol).length,
           drifts,
-          ...(drifts.length > 0 ? { next: 'Review these, then call again with apply: true to move the ones marked "moved".' } : {}),
+          ...(drifts.length > 0 ? { next: 'Review these, then call again with apply: true to rewrite the ones marked "moved", "relocated" or "renamed".' } : {}),
         }, null, 2) }] };
       }
 
@@ -877,7 +1150,7 @@ export function createServer(): McpServer {
   registerTool(
     server, cache,
     'guardlink_unannotated',
-    'List source files that have no GuardLink annotations. Useful for identifying coverage gaps. Not all files need annotations — only those touching security boundaries (endpoints, auth, data access, I/O, crypto).',
+    'List source files that have no GuardLink annotations, and the HTTP endpoints (Express, Fastify, Nest, Flask, FastAPI, Django, Spring, Gin routes) that no annotation covers, each with its method, path, handler and middleware chain. Useful for identifying coverage gaps. Not all files need annotations — only those touching security boundaries (endpoints, auth, data access, I/O, crypto); guardlink_suggest on a file proposes annotations for its endpoints.',
     {
       root: z.string().describe('Project root directory').default('.'),
     },
@@ -886,14 +1159,19 @@ export function createServer(): McpServer {
       const unannotated = model.unannotated_files || [];
       const annotated = model.annotated_files || [];
       const total = annotated.length + unannotated.length;
+      const endpoints = await inventoryEndpoints(root, model);
+      const open = endpoints.filter(e => !e.annotated);
+      const endpointList = open.length === 0 ? '' : `\n\n${open.length} of ${endpoints.length} HTTP endpoint(s) with no annotations:\n`
+        + open.map(e => `  ${e.method} ${e.path}  ${e.file}:${e.line}${e.handler ? ` → ${e.handler}` : ''}`
+          + `  middleware: ${e.middleware.length ? e.middleware.map(m => `${m.name} (${m.kind})`).join(', ') : 'none'}`).join('\n');
 
       if (unannotated.length === 0) {
-        return { content: [{ type: 'text', text: `All ${total} source files have GuardLink annotations.` }] };
+        return { content: [{ type: 'text', text: `All ${total} source files have GuardLink annotations.${endpointList}` }] };
       }
 
       const fileList = unannotated.map(f => `  ${f}`).join('\n');
       return {
-        content: [{ type: 'text', text: `${annotated.length} of ${total} files annotated. ${unannotated.length} file(s) with no annotations:\n${fileList}\n\nNot all files need annotations — only those touching security boundaries.` }],
+        content: [{ type: 'text', text: `${annotated.length} of ${total} files annotated. ${unannotated.length} file(s) with no annotations:\n${fileList}${endpointList}\n\nNot all files need annotations — only those touching security boundaries.` }],
       };
     },
   );
@@ -947,11 +1225,20 @@ export function createServer(): McpServer {
       exposure_id: z.string().describe('Exposure ID from guardlink_review_list'),
       decision: z.enum(['accept', 'remediate', 'skip']).describe('accept = risk acknowledged; remediate = planned fix; skip = no action'),
       justification: z.string().describe('Required explanation for accept/remediate decisions'),
+      until: z.string().optional().describe('Accept only: last day the acceptance holds (YYYY-MM-DD). Ask the human for a review date; once it passes, validate warns and ci --strict fails'),
+      by: z.string().optional().describe('Accept only: who reviews the acceptance when it lapses — a handle, team or email with no spaces'),
     },
-    async ({ root, exposure_id, decision, justification }) => {
+    async ({ root, exposure_id, decision, justification, until, by }) => {
       if (decision !== 'skip' && !justification.trim()) {
         return { content: [{ type: 'text', text: 'Error: Justification is required for accept and remediate decisions.' }] };
       }
+      if (decision !== 'accept' && (until || by)) {
+        return { content: [{ type: 'text', text: 'Error: until and by apply only to accept decisions.' }] };
+      }
+      const reviewProblem = checkAcceptanceReview(until || undefined, by || undefined);
+      if (reviewProblem) {
+        return { content: [{ type: 'text', text: `Error: ${reviewProblem}` }] };
+      }
 
       invalidateCache();
       const { model } = await getModel(root);
@@ -962,7 +1249,7 @@ export function createServer(): McpServer {
         return { content: [{ type: 'text', text: `Error: Exposure "${exposure_id}" not found. Use guardlink_review_list to get valid IDs.` }] };
       }
 
-      const result = await applyReviewAction(root, target, { decision, justification });
+      const result = await applyReviewAction(root, target, { decision, justification, until: until || undefined, by: by || undefined });
       invalidateCache();
 
       if (decision === 'skip') {
@@ -977,7 +1264,7 @@ export function createServer(): McpServer {
 
       const verb = decision === 'accept' ? 'Accepted' : 'Marked for remediation';
       return {
-        content: [{ type: 'text', text: `${verb}: ${target.exposure.asset} → ${target.exposure.threat} [${target.exposure.severity}]\nJustification: ${justification}\n${result.linesInserted} annotation line(s) written to ${result.targetFile}` }],
+        content: [{ type: 'text', text: `${verb}: ${target.exposure.asset} → ${target.exposure.threat} [${target.exposure.severity}]\nJustification: ${justification}\n${until ? `Review by: ${until}${by ? ` (${by})` : ''}\n` : ''}${result.linesInserted} annotation line(s) written to ${result.targetFile}` }],
       };
     },
   );
@@ -1117,6 +1404,90 @@ export function createServer(): McpServer {
     },
   );
 
+  // ── Prompt: threat-model-file ──
+  registerPrompt(
+    server, cache,
+    'threat-model-file',
+    'Threat-model one file: what GuardLink already records for it (guardlink_context), its source, the declared identifiers, and how this project stores annotations.',
+    {
+      file: z.string().describe('File to threat-model, relative to root'),
+    },
+    async (root, { file }) => {
+      const { model } = await getModel(root);
+      const rel = normalizeContextPath(root, file!);
+      if (rel === null) throw new Error(`${file} resolves outside the project root`);
+      const path = resolve(root, rel);
+      const exists = existsSync(path);
+      let source: string | null = null;
+      try { source = exists ? readFileSync(path, 'utf-8') : null; } catch {}
+      return buildThreatModelFilePrompt({
+        context: fileContext(model, { file: rel, exists }),
+        source,
+        model,
+        mode: readConfiguredMode(root),
+        annotationHash: computeAnnotationHash(model),
+      });
+    },
+  );
+
+  // ── Prompt: review-security-delta ──
+  registerPrompt(
+    server, cache,
+    'review-security-delta',
+    'Review the security delta of a change: the threat model diff (guardlink_diff) between a git ref — the PR\'s base — and the working tree, with what to check in it.',
+    {
+      ref: z.string().describe('Git ref to compare against, e.g. main or origin/main. Default: HEAD~1').optional(),
+    },
+    async (root, { ref }) => {
+      const base = ref || 'HEAD~1';
+      const { model } = await getModel(root);
+      const previous = await parseAtRef(root, base, 'unknown');
+      return buildReviewDeltaPrompt({ ref: base, diff: diffModels(previous, model), annotationHash: computeAnnotationHash(model) });
+    },
+  );
+
+  // ── Prompt: propose-mitigations ──
+  registerPrompt(
+    server, cache,
+    'propose-mitigations',
+    'Propose mitigations for the unmitigated exposures on an asset, with the asset\'s neighbourhood (guardlink_graph, depth 1) and the declared controls.',
+    {
+      asset: z.string().describe('Asset ref, resolved as guardlink_graph resolves `from`'),
+    },
+    async (root, { asset }) => {
+      const { model } = await getModel(root);
+      const options = { from: asset, depth: 1 };
+      const traversal = traverseGraph(model, options);
+      const key = canonicaliser(model);
+      const unmitigated = findUnmitigatedExposures(model).filter(e => key(e.asset) === traversal.start?.canonical);
+      return buildMitigationsPrompt({
+        asset: asset!, traversal, neighbourhood: selectSubgraph(model, options), unmitigated, controls: model.controls,
+        annotationHash: computeAnnotationHash(model),
+      });
+    },
+  );
+
+  // ── Prompt: explain-trust-boundaries ──
+  registerPrompt(
+    server, cache,
+    'explain-trust-boundaries',
+    'Explain the trust boundaries around an asset: the @boundary, @flows and @transfers within a few hops of it (guardlink_graph).',
+    {
+      asset: z.string().describe('Asset ref, resolved as guardlink_graph resolves `from`'),
+      depth: z.string().describe('Hops from the asset. Default: 2').optional(),
+    },
+    async (root, { asset, depth }) => {
+      const { model } = await getModel(root);
+      const hops = depth === undefined ? 2 : Number(depth);
+      if (!Number.isInteger(hops) || hops < 0) throw new Error(`depth must be a whole number, got "${depth}"`);
+      const options = { from: asset, depth: hops, kinds: ['flows', 'boundaries', 'transfers'] };
+      return buildTrustBoundariesPrompt({
+        asset: asset!, traversal: traverseGraph(model, options), neighbourhood: selectSubgraph(model, options),
+        annotationHash: computeAnnotationHash(model),
+      });
+    },
+  );
+
   // ── Resource: guardlink://model ──
   registerResource(
     server, cache,
@@ -1170,5 +1541,27 @@ export function createServer(): McpServer {
     },
   );
 
+  // ── Resource: guardlink://diff/since/<annotation_hash> ──
+  registerResource(
+    server, cache,
+    'diff-since',
+    new ResourceTemplate('guardlink://diff/since/{annotation_hash}', { list: undefined }),
+    { description: 'What changed in the threat model since the model with this annotation hash — the annotation_hash of an earlier read\'s freshness envelope. The server remembers the last few models it served; for an older hash, read guardlink://model again.' },
+    async (root: string, variables) => {
+      const raw = String(variables.annotation_hash);
+      const uri = `guardlink://diff/since/${raw}`;
+      let since = raw;
+      try { since = decodeURIComponent(raw); } catch {}
+      const { model } = await getModel(root);
+      const previous = cache.modelWithHash(root, since);
+      const body = previous
+        ? { since, annotation_hash: computeAnnotationHash(model), diff: diffModels(previous, model) }
+        : { error: `No model with annotation hash ${since} is remembered for ${root}. Read guardlink://model for the current one.` };
+      return {
+        contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(body, null, 2) }],
+      };
+    },
+  );
+
   return server;
 }
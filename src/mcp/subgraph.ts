@@ -48,7 +48,7 @@
  * @comment -- "Pure function over the model; returns a ThreatModel so the existing Mermaid generator needs no changes"
  */
 
-import { resolveAssetRef, type MatchKind } from './lookup.js';
+import { resolveAssetRef, type MatchKind } from '../analyzer/lookup.js';
 import { filterByFeature } from '../parser/feature-filter.js';
 import { canonicaliser } from '../parser/canonical-ref.js';
 import type { ThreatModel, ThreatModelAsset } from '../types/index.js';
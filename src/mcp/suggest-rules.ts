@@ -0,0 +1,351 @@
+/**
+ * GuardLink Suggest — rule packs: suggestion patterns a project writes itself.
+ *
+ * The built-in patterns in suggest.ts know SQL, `exec`, `eval`, CORS and the
+ * like. A codebase built on its own frameworks needs its own: the call that
+ * bypasses the query builder, the decorator that enforces a session. Rule
+ * packs in `.guardlink/rules/*.yaml` write those down, and `guardlink_suggest`
+ * runs them beside the built-ins:
+ *
+ *   rules:
+ *     - id: acme-raw-sql
+ *       languages: [javascript, python]
+ *       pattern: 'AcmeDb\.raw\((\w+)'
+ *       category: exposure
+ *       annotation: '@exposes {asset} to #sqli [high] -- "AcmeDb.raw({1}) in {symbol}"'
+ *       reason: AcmeDb.raw skips the query builder's parameter binding
+ *       confidence: high
+ *     - id: acme-require-auth
+ *       languages: [typescript]
+ *       query: '(decorator (call_expression function: (identifier) @fn (#eq? @fn "RequireAuth")))'
+ *       category: mitigation
+ *       annotation: '@mitigates {asset} against #broken-auth using #acme-auth -- "{symbol} requires a session"'
+ *
+ * A rule matches by `pattern`, a regular expression tried on each line, or by
+ * `query`, a tree-sitter query over the syntax tree of a language with a
+ * bundled grammar. `languages` takes the parser's language ids (`javascript`
+ * covers every JS and TS extension) or a grammar's name (`typescript`, `tsx`);
+ * a query rule names grammars only. Placeholders in `annotation`:
+ *
+ *   {asset}    an asset name from the file path, as the built-ins suggest it
+ *   {file}     the file, relative to the project
+ *   {line}     the matched line
+ *   {symbol}   the enclosing function, method or class; {asset} outside one
+ *   {match}    the matched text — a query's first capture
+ *   {1}…{9}    a pattern's groups, and {name} a named group
+ *   {name}     a query's @name capture
+ *
+ * Substituted text is cut to its first line and 80 characters, with `"` made
+ * `'`, so a match cannot end the description it is quoted into.
+ *
+ * ── The file format ─────────────────────────────────────────────────
+ *
+ * The YAML subset policy.yaml uses, read by the same parser
+ * (parser/yaml-subset.ts) — one top-level `rules:` list of flat mappings —
+ * with quoting a regular expression survives: a single-quoted value is
+ * literal but for `''`, a double-quoted one takes `\"` and `\\`.
+ * Packs are validated when they are read. An unknown key, language,
+ * category or placeholder, a pattern or query that does not compile, and an
+ * annotation that does not parse as GAL are errors naming the line, and a
+ * pack with one is refused whole: a typo must not become a rule that quietly
+ * never matches.
+ *
+ * Repos in a workspace share packs through `shared_rules:` in workspace.yaml —
+ * pack files or directories of them, relative to the repo, such as a sibling
+ * checkout of the team's rules.
+ *
+ * @exposes #suggest to #insecure-deser [low] cwe:CWE-502 -- "Hand-parsed YAML rule packs from the repository and from workspace paths"
+ * @mitigates #suggest against #insecure-deser using #config-validation -- "parseRulePack rejects unknown keys, languages, categories and placeholders and unparseable annotations with the line; values are matched and substituted, never evaluated"
+ * @exposes #suggest to #redos [medium] cwe:CWE-1333 -- "Regular expressions from rule packs run over source lines"
+ * @mitigates #suggest against #redos using #resource-limits -- "Rule patterns run one line at a time, on lines up to MAX_RULE_LINE characters"
+ * @flows RulePacks -> #suggest via loadRulePacks -- "Rules read from .guardlink/rules/ and workspace shared_rules"
+ */
+
+import { existsSync, readdirSync, statSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { isAbsolute, join, relative, resolve } from 'node:path';
+
+import {
+  parseLine, checkSyntaxQuery, loadSymbolLanguages, SYMBOL_LANGUAGES, parseRuleList,
+  loadLanguageRegistry, BUILTIN_LANGUAGES, type LanguageRegistry, type SymbolLanguage, type YamlSubsetValue,
+} from '../parser/index.js';
+import { loadWorkspaceConfig } from '../workspace/metadata.js';
+
+/** Where a project's own packs live. */
+export const RULES_DIR = '.guardlink/rules';
+
+/** The longest line a rule pattern is tried on. Minified bundles and data blobs are not code anyone annotates. */
+export const MAX_RULE_LINE = 2000;
+
+export const RULE_CATEGORIES = ['exposure', 'mitigation', 'asset', 'flow', 'data_handling'] as const;
+
+export type RuleCategory = typeof RULE_CATEGORIES[number];
+export type RuleConfidence = 'high' | 'medium' | 'low';
+
+export interface SuggestionRule {
+  /** Unique across every pack a project reads. */
+  id: string;
+  /** The pack, as named in errors — relative to the project when it is inside it. */
+  source: string;
+  /** Line of the rule's `-` in its pack. */
+  line: number;
+  /** Language ids and grammar names. Unset: every file. */
+  languages?: string[];
+  /** Exactly one of `pattern` and `query` is set. */
+  pattern?: RegExp;
+  query?: string;
+  category: RuleCategory;
+  /** The template, placeholders unfilled. */
+  annotation: string;
+  reason: string;
+  confidence: RuleConfidence;
+}
+
+/** What a placeholder may be filled with. */
+export interface RuleContext {
+  asset: string;
+  file: string;
+  line: number;
+  symbol: string;
+  match: string;
+  /** Pattern groups by number and name, or query captures by name. */
+  groups: Record<string, string | undefined>;
+}
+
+const RULE_KEYS = ['id', 'languages', 'pattern', 'flags', 'query', 'category', 'annotation', 'reason', 'confidence'];
+
+const CONFIDENCES: readonly RuleConfidence[] = ['high', 'medium', 'low'];
+
+/** Flags a per-line `match` means the same with. `g` and `y` would make it stateful. */
+const PATTERN_FLAGS = /^[isu]*$/;
+
+const FIXED_PLACEHOLDERS = ['asset', 'file', 'line', 'symbol', 'match'];
+
+const PLACEHOLDER = /\{([A-Za-z0-9_.-]+)\}/g;
+
+// ─── Parsing ─────────────────────────────────────────────────────────
+
+/**
+ * Parse a rule pack. `where` names it in errors. The known languages are the
+ * grammars and the ids in `registry`. Queries are only checked for syntax
+ * here — `checkRuleQueries` compiles them.
+ */
+export function parseRulePack(content: string, where: string, registry?: LanguageRegistry): SuggestionRule[] {
+  const items = parseRuleList(content, where, 'id');
+
+  const known = new Set<string>([
+    ...SYMBOL_LANGUAGES,
+    ...(registry ? [...registry.byExtension.values()].map(l => l.id) : BUILTIN_LANGUAGES.map(l => l.id)),
+  ]);
+  const rules = items.map(item => toRule(item.fields, item.line, where, known));
+  const seen = new Set<string>();
+  for (const rule of rules) {
+    if (seen.has(rule.id)) throw new Error(`${where}:${rule.line}: rule id "${rule.id}" is used twice — give each rule its own id:`);
+    seen.add(rule.id);
+  }
+  return rules;
+}
+
+function toRule(
+  fields: Map<string, { value: YamlSubsetValue; line: number }>,
+  line: number,
+  where: string,
+  knownLanguages: Set<string>,
+): SuggestionRule {
+  const at = (key: string) => `${where}:${fields.get(key)?.line ?? line}`;
+  const scalar = (key: string): string | undefined => {
+    const field = fields.get(key);
+    if (!field) return undefined;
+    if (Array.isArray(field.value)) throw new Error(`${at(key)}: "${key}" takes a single value, not a list`);
+    return field.value;
+  };
+  const required = (key: string, what: string): string => {
+    const value = scalar(key);
+    if (!value) throw new Error(`${at(key)}: rule has no "${key}:" — ${what}`);
+    return value;
+  };
+
+  for (const [key, field] of fields) {
+    if (!RULE_KEYS.includes(key)) throw new Error(`${where}:${field.line}: unknown key "${key}" — a rule takes ${RULE_KEYS.join(', ')}`);
+  }
+
+  const id = required('id', 'each rule needs an id');
+  if (!/^[A-Za-z0-9][\w.-]*$/.test(id)) throw new Error(`${at('id')}: rule id "${id}" may only use letters, digits, ".", "_" and "-"`);
+
+  const category = required('category', RULE_CATEGORIES.join(', '));
+  if (!(RULE_CATEGORIES as readonly string[]).includes(category)) {
+    throw new Error(`${at('category')}: unknown category "${category}" — one of ${RULE_CATEGORIES.join(', ')}`);
+  }
+  const confidence = scalar('confidence') ?? 'medium';
+  if (!(CONFIDENCES as readonly string[]).includes(confidence)) {
+    throw new Error(`${at('confidence')}: "confidence" must be high, medium or low, got "${confidence}"`);
+  }
+
+  const rule: SuggestionRule = {
+    id,
+    source: where,
+    line,
+    category: category as RuleCategory,
+    annotation: required('annotation', 'the annotation to suggest'),
+    reason: scalar('reason') || `Matched rule ${id} from ${where}`,
+    confidence: confidence as RuleConfidence,
+  };
+
+  const languages = fields.get('languages');
+  if (languages) {
+    const names = Array.isArray(languages.value) ? languages.value : [languages.value];
+    const unknown = names.filter(l => !knownLanguages.has(l));
+    if (names.length === 0 || unknown.length > 0) {
+      throw new Error(`${at('languages')}: unknown language "${unknown.join(', ') || '[]'}" — one of ${[...knownLanguages].sort().join(', ')}`);
+    }
+    rule.languages = names;
+  }
+
+  const pattern = scalar('pattern');
+  const query = scalar('query');
+  const flags = scalar('flags');
+  if ((pattern === undefined) === (query === undefined)) {
+    throw new Error(`${where}:${line}: rule ${id} needs exactly one of "pattern:" (a regular expression) and "query:" (a tree-sitter query)`);
+  }
+  if (flags !== undefined && pattern === undefined) throw new Error(`${at('flags')}: "flags" applies to a pattern, not a query`);
+
+  let groups: string[];
+  if (pattern !== undefined) {
+    if (!pattern) throw new Error(`${at('pattern')}: "pattern" is empty`);
+    if (flags && !PATTERN_FLAGS.test(flags)) throw new Error(`${at('flags')}: "flags" takes i, s and u, got "${flags}"`);
+    try {
+      rule.pattern = new RegExp(pattern, flags ?? '');
+    } catch (err) {
+      throw new Error(`${at('pattern')}: ${(err as Error).message}`);
+    }
+    // Matching the empty alternative reports every group, numbered and named.
+    const probe = new RegExp(`${pattern}|`, flags ?? '').exec('')!;
+    groups = [...Array.from({ length: probe.length - 1 }, (_, k) => String(k + 1)), ...Object.keys(probe.groups ?? {})];
+  } else {
+    if (!query) throw new Error(`${at('query')}: "query" is empty`);
+    const grammars = rule.languages?.filter(l => (SYMBOL_LANGUAGES as string[]).includes(l)) ?? [];
+    if (!rule.languages || grammars.length !== rule.languages.length) {
+      throw new Error(`${at('languages')}: a query rule needs "languages:" naming grammars only — ${SYMBOL_LANGUAGES.join(', ')}`);
+    }
+    rule.query = query;
+    groups = [...query.matchAll(/@([A-Za-z_][\w.-]*)/g)].map(m => m[1]);
+  }
+
+  const allowed = new Set([...FIXED_PLACEHOLDERS, ...groups]);
+  for (const [, name] of rule.annotation.matchAll(PLACEHOLDER)) {
+    if (!allowed.has(name)) {
+      throw new Error(`${at('annotation')}: unknown placeholder {${name}} — this rule can use ${[...allowed].map(p => `{${p}}`).join(', ')}`);
+    }
+  }
+
+  // The template with every placeholder filled must be an annotation the parser accepts.
+  const sample = renderRule(rule, {
+    asset: 'Asset', file: 'src/file', line: 1, symbol: 'symbol', match: 'match',
+    groups: Object.fromEntries(groups.map(g => [g, 'match'])),
+  });
+  const parsed = parseLine(sample, { file: where, line: fields.get('annotation')!.line });
+  const problem = !sample.startsWith('@')
+    ? 'it does not start with @'
+    : parsed.diagnostic?.level === 'error' ? parsed.diagnostic.message : parsed.annotation ? null : 'it is not an annotation';
+  if (problem) throw new Error(`${at('annotation')}: annotation does not parse as GAL — ${problem}`);
+
+  return rule;
+}
+
+// ─── Rendering ───────────────────────────────────────────────────────
+
+/** Fill `rule.annotation`. A placeholder with nothing to fill it is left empty. */
+export function renderRule(rule: SuggestionRule, ctx: RuleContext): string {
+  return rule.annotation.replace(PLACEHOLDER, (_, name: string) => {
+    switch (name) {
+      case 'asset': return ctx.asset;
+      case 'file': return ctx.file;
+      case 'line': return String(ctx.line);
+      case 'symbol': return clean(ctx.symbol);
+      case 'match': return clean(ctx.match);
+      default: return clean(ctx.groups[name] ?? '');
+    }
+  });
+}
+
+/** Matched text as it may sit inside an annotation: one line, no `"`, bounded. */
+function clean(text: string): string {
+  const line = text.split('\n', 1)[0].trim().replace(/"/g, "'");
+  return line.length > 80 ? `${line.slice(0, 79)}…` : line;
+}
+
+// ─── Loading ─────────────────────────────────────────────────────────
+
+/**
+ * Compile each query rule for each of its grammars. A grammar that cannot be
+ * loaded leaves its rules inert rather than failing the pack; a query the
+ * grammar rejects is an error.
+ */
+export async function checkRuleQueries(rules: SuggestionRule[]): Promise<void> {
+  const withQueries = rules.filter(r => r.query !== undefined);
+  await loadSymbolLanguages(withQueries.flatMap(r => r.languages as SymbolLanguage[]));
+  for (const rule of withQueries) {
+    for (const lang of rule.languages as SymbolLanguage[]) {
+      try {
+        checkSyntaxQuery(lang, rule.query!);
+      } catch (err) {
+        throw new Error(`${rule.source}:${rule.line}: rule ${rule.id}: query does not compile for ${lang} — ${(err as Error).message}`);
+      }
+    }
+  }
+}
+
+/** Read and check one pack. `where` names it in errors; default: `path`. */
+export async function loadRulePack(path: string, where = path, registry?: LanguageRegistry): Promise<SuggestionRule[]> {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch {
+    throw new Error(`No rule pack at ${where}`);
+  }
+  const rules = parseRulePack(raw, where, registry);
+  await checkRuleQueries(rules);
+  return rules;
+}
+
+/**
+ * The pack files a project reads: `.guardlink/rules/*.yaml`, then each
+ * workspace `shared_rules` entry in order, as absolute paths. A shared entry
+ * that does not exist is an error — the workspace promised rules that are
+ * not there.
+ */
+export function rulePackFiles(root: string): string[] {
+  const packsIn = (dir: string) => readdirSync(dir)
+    .filter(f => /\.ya?ml$/.test(f))
+    .sort()
+    .map(f => join(dir, f));
+
+  const local = join(root, RULES_DIR);
+  const files = existsSync(local) && statSync(local).isDirectory() ? packsIn(local) : [];
+  for (const entry of loadWorkspaceConfig(root)?.shared_rules ?? []) {
+    const path = isAbsolute(entry) ? entry : resolve(root, entry);
+    if (!existsSync(path)) throw new Error(`workspace.yaml shared_rules: ${entry} does not exist`);
+    files.push(...(statSync(path).isDirectory() ? packsIn(path) : [path]));
+  }
+  return [...new Set(files)];
+}
+
+/**
+ * Every rule a project has, checked. Throws on the first invalid pack, and
+ * on an id two packs both define. No packs is no rules.
+ */
+export async function loadRulePacks(root: string): Promise<SuggestionRule[]> {
+  const registry = loadLanguageRegistry(root);
+  const rules: SuggestionRule[] = [];
+  const byId = new Map<string, SuggestionRule>();
+  for (const file of rulePackFiles(root)) {
+    const rel = relative(root, file).split('\\').join('/');
+    for (const rule of await loadRulePack(file, rel.startsWith('../') ? file : rel, registry)) {
+      const other = byId.get(rule.id);
+      if (other) throw new Error(`${rule.source}:${rule.line}: rule id "${rule.id}" is already defined at ${other.source}:${other.line}`);
+      byId.set(rule.id, rule);
+      rules.push(rule);
+    }
+  }
+  return rules;
+}
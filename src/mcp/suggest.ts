@@ -7,28 +7,40 @@
  *   - HTTP handlers, auth checks, input parsing
  *   - Missing annotations on files that handle sensitive data
  *
- * Designed for both file-based and diff-based analysis (§8.2).
+ * Designed for both file-based and diff-based analysis (§8.2). A project's
+ * own rule packs (suggest-rules.ts) run beside the built-in patterns, and
+ * each HTTP endpoint routes.ts finds with no annotation gets its own.
  *
  * @exposes #suggest to #path-traversal [high] cwe:CWE-22 -- "File path from MCP client joined with root"
- * @mitigates #suggest against #path-traversal using #path-validation -- "join() with validated root constrains access"
+ * @mitigates #suggest against #path-traversal using #path-validation -- "The file is resolved against root with normalizeRepoPath and refused when it leaves it; join() alone would follow ../"
  * @exposes #suggest to #redos [medium] cwe:CWE-1333 -- "Complex regex patterns applied to source code"
  * @mitigates #suggest against #redos using #regex-anchoring -- "Patterns designed with bounded quantifiers"
  * @exposes #suggest to #dos [low] cwe:CWE-400 -- "Large files loaded into memory for pattern scanning"
  * @audit #suggest -- "File size is bounded by project scope; production use involves reasonable file sizes"
  * @flows FilePath -> #suggest via readFileSync -- "File read path"
  * @flows #suggest -> Suggestions via suggestAnnotations -- "Suggestion output"
+ * @mitigates #suggest against #path-traversal using #path-validation -- "A diff's file is read for rule packs only when it resolves inside root"
  * @comment -- "Skips node_modules and .guardlink directories"
  */
 
 import { readFileSync, existsSync } from 'node:fs';
-import { join } from 'node:path';
+import { join, relative, resolve } from 'node:path';
 import type { ThreatModel } from '../types/index.js';
+import {
+  languageFor, loadLanguageRegistry, symbolLanguage, loadSymbolGrammars, indexSymbols, enclosingSymbol, querySyntax,
+  DEFAULT_LANGUAGE_REGISTRY, type LanguageRegistry, type SourceSymbol,
+} from '../parser/index.js';
+import { normalizeRepoPath } from '../parser/gal-path.js';
+import { loadRulePacks, renderRule, MAX_RULE_LINE, type RuleContext, type SuggestionRule } from './suggest-rules.js';
+import { annotationLines, discoverEndpoints, endpointCovered, hasRouteScanner, type Endpoint } from './routes.js';
 
 export interface SuggestOptions {
   root: string;
   model: ThreatModel;
   file?: string;     // Analyze specific file
   diff?: string;     // Analyze git diff text
+  /** Rule pack rules. Default: the project's, from loadRulePacks — which throws on an invalid pack. */
+  rules?: SuggestionRule[];
 }
 
 export interface Suggestion {
@@ -38,18 +50,39 @@ export interface Suggestion {
   reason: string;             // Why this annotation is suggested
   confidence: 'high' | 'medium' | 'low';
   category: string;           // 'exposure' | 'mitigation' | 'asset' | 'flow' | 'data_handling'
+  rule?: string;              // Rule pack rule id; unset for the built-in patterns
+  endpoint?: string;          // `GET /users/:id` for an endpoint suggestion
 }
 
 export async function suggestAnnotations(opts: SuggestOptions): Promise<Suggestion[]> {
   const suggestions: Suggestion[] = [];
+  const rules = opts.rules ?? await loadRulePacks(opts.root);
+  const registry = loadLanguageRegistry(opts.root);
 
   if (opts.diff) {
-    suggestFromDiff(opts.diff, opts.model, suggestions);
+    const added = suggestFromDiff(opts.diff, opts.model, suggestions);
+    if (rules.length > 0) suggestions.push(...await suggestFromRulesInDiff(opts.root, added, rules, registry));
+    suggestions.push(...await suggestFromEndpointsInDiff(opts.root, added, opts.model));
   } else if (opts.file) {
-    const fullPath = join(opts.root, opts.file);
+    const file = normalizeRepoPath(opts.root, opts.file);
+    if (file === null) throw new Error(`${opts.file} resolves outside the project root; nothing outside it is read`);
+    const fullPath = join(opts.root, file);
     if (existsSync(fullPath)) {
       const content = readFileSync(fullPath, 'utf-8');
-      suggestFromFile(opts.file, content, opts.model, suggestions);
+      // Ahead of the built-ins, so their @comment post-pass sees these lines as suggested.
+      if (rules.length > 0 && !isSkipped(file)) {
+        const annotated = hasAnnotations(content.split('\n'));
+        for (const s of await suggestFromRules(file, content, rules, registry)) {
+          suggestions.push(annotated ? s : { ...s, confidence: lowerConfidence(s.confidence) });
+        }
+      }
+      if (!isSkipped(file)) {
+        const covering = annotationLines(opts.model).get(file) ?? [];
+        for (const e of await discoverEndpoints(file, content)) {
+          if (!endpointCovered(e, covering)) suggestions.push(...endpointSuggestions(e));
+        }
+      }
+      suggestFromFile(file, content, opts.model, suggestions);
     }
   }
 
@@ -197,12 +230,10 @@ function suggestFromFile(
   file: string, content: string, model: ThreatModel, out: Suggestion[],
 ): void {
   // Skip definition files and non-source
-  if (file.includes('.guardlink/') || file.includes('node_modules/')) return;
+  if (isSkipped(file)) return;
 
   const lines = content.split('\n');
-
-  // Check if file already has annotations
-  const hasAnnotations = lines.some(l => /@(?:asset|threat|control|exposes|mitigates|accepts|flows|boundary|handles|comment|data|shield)\b/.test(l));
+  const annotated = hasAnnotations(lines);
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
@@ -214,7 +245,7 @@ function suggestFromFile(
           line: i + 1,
           annotation: pattern.annotation(match, file),
           reason: pattern.reason,
-          confidence: hasAnnotations ? pattern.confidence : lowerConfidence(pattern.confidence),
+          confidence: annotated ? pattern.confidence : lowerConfidence(pattern.confidence),
           category: pattern.category,
         });
       }
@@ -254,9 +285,11 @@ function suggestFromFile(
 
 // ─── Diff analysis ───────────────────────────────────────────────────
 
+/** Returns the added lines, by file and line number, for the rule packs. */
 function suggestFromDiff(
   diff: string, model: ThreatModel, out: Suggestion[],
-): void {
+): Map<string, Map<number, string>> {
+  const added = new Map<string, Map<number, string>>();
   // Parse unified diff format
   let currentFile = '';
   let lineNum = 0;
@@ -279,6 +312,8 @@ function suggestFromDiff(
     // Added lines (+ prefix)
     if (line.startsWith('+') && !line.startsWith('+++')) {
       const content = line.slice(1);
+      if (!added.has(currentFile)) added.set(currentFile, new Map());
+      added.get(currentFile)!.set(lineNum, content);
       for (const pattern of PATTERNS) {
         const match = content.match(pattern.regex);
         if (match) {
@@ -299,6 +334,193 @@ function suggestFromDiff(
     }
     // Removed lines (- prefix) — don't increment
   }
+  return added;
+}
+
+// ─── Rule packs ──────────────────────────────────────────────────────
+
+/**
+ * Suggestions from rule pack rules for one file, without the built-ins —
+ * what `guardlink rules test` shows.
+ */
+export async function suggestFromRules(
+  file: string, content: string, rules: SuggestionRule[], registry: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY,
+): Promise<Suggestion[]> {
+  const applicable = rulesFor(file, content, rules, registry);
+  if (applicable.length === 0) return [];
+
+  let symbols: SourceSymbol[] = [];
+  if (applicable.some(r => r.query !== undefined || r.annotation.includes('{symbol}'))) {
+    await loadSymbolGrammars([file]);
+    symbols = indexSymbols(content, file) ?? [];
+  }
+  const asset = assetFromFile(file);
+  const at = (line: number) => ({ asset, file, line, symbol: enclosingSymbol(symbols, line)?.qualified_name ?? asset });
+
+  const out = patternSuggestions(content.split('\n').map((text, i) => [i + 1, text] as const), applicable, at);
+  for (const rule of applicable) {
+    if (rule.query === undefined) continue;
+    for (const m of querySyntax(content, file, rule.query) ?? []) {
+      out.push(ruleSuggestion(rule, { ...at(m.line), match: Object.values(m.captures)[0] ?? '', groups: m.captures }));
+    }
+  }
+  return out.sort((a, b) => a.line! - b.line!);
+}
+
+/**
+ * Rule suggestions on a diff's added lines. A file that is on disk is matched
+ * whole, so a query sees the code around the change, and a match counts when
+ * its line is one the diff adds. A file that is not has only its added lines,
+ * and only patterns run on them.
+ */
+async function suggestFromRulesInDiff(
+  root: string, added: Map<string, Map<number, string>>, rules: SuggestionRule[], registry: LanguageRegistry,
+): Promise<Suggestion[]> {
+  const out: Suggestion[] = [];
+  for (const [file, lines] of added) {
+    if (!file || isSkipped(file)) continue;
+    const fullPath = resolve(root, file);
+    const inside = !relative(resolve(root), fullPath).startsWith('..');
+
+    let found: Suggestion[];
+    if (inside && existsSync(fullPath)) {
+      const onDisk = readFileSync(fullPath, 'utf-8').split('\n');
+      found = (await suggestFromRules(file, onDisk.join('\n'), rules, registry))
+        .filter(s => lines.get(s.line!) === onDisk[s.line! - 1]);
+    } else {
+      const asset = assetFromFile(file);
+      const patterns = rulesFor(file, '', rules, registry).filter(r => r.pattern);
+      found = patternSuggestions(lines, patterns, line => ({ asset, file, line, symbol: asset }));
+    }
+    out.push(...found.map(s => ({ ...s, reason: `[New code] ${s.reason}` })));
+  }
+  return out;
+}
+
+// ─── Endpoints ───────────────────────────────────────────────────────
+
+/**
+ * What an endpoint with no annotation should say: that it is an asset, and
+ * what its middleware chain does or does not do for it. Middleware kinds are
+ * read from names, so the exposure for a chain with no auth is a low-confidence
+ * prompt to look, not a finding.
+ */
+export function endpointSuggestions(e: Endpoint): Suggestion[] {
+  const route = `${e.method} ${e.path}`.replace(/"/g, "'");
+  const asset = e.handler ? `${assetFromFile(e.file)}.${e.handler.split('.').pop()}` : assetFromFile(e.file);
+  const names = (kind: string) => e.middleware.filter(m => m.kind === kind).map(m => m.name).join(', ');
+  const chain = e.middleware.length ? `middleware: ${e.middleware.map(m => m.name).join(', ')}` : 'no middleware';
+  const base = { file: e.file, line: e.line, endpoint: `${e.method} ${e.path}` };
+  const reason = (what: string) => `${e.framework} endpoint ${e.method} ${e.path} (${chain}) — ${what}`;
+
+  const out: Suggestion[] = [{
+    ...base,
+    annotation: `@asset ${asset} -- "${route}"`,
+    reason: reason('an entry point with no annotation'),
+    confidence: 'medium',
+    category: 'asset',
+  }];
+  const auth = names('auth');
+  out.push(auth
+    ? {
+      ...base,
+      annotation: `@mitigates ${asset} against #broken-auth using #authentication -- "${auth.replace(/"/g, "'")} on ${route}"`,
+      reason: reason('its chain includes authentication'),
+      confidence: 'medium',
+      category: 'mitigation',
+    }
+    : {
+      ...base,
+      annotation: `@exposes ${asset} to #broken-auth [medium] -- "${route} has no authentication in its middleware chain"`,
+      reason: reason('nothing in its chain reads as authentication; check for a global guard before accepting this'),
+      confidence: 'low',
+      category: 'exposure',
+    });
+  const limit = names('rate-limit');
+  if (limit) {
+    out.push({
+      ...base,
+      annotation: `@mitigates ${asset} against #dos using #rate-limit -- "${limit.replace(/"/g, "'")} on ${route}"`,
+      reason: reason('its chain includes rate limiting'),
+      confidence: 'medium',
+      category: 'mitigation',
+    });
+  }
+  const validation = names('validation');
+  if (validation) {
+    out.push({
+      ...base,
+      annotation: `@mitigates ${asset} against #injection using #input-validation -- "${validation.replace(/"/g, "'")} on ${route}"`,
+      reason: reason('its chain includes input validation'),
+      confidence: 'medium',
+      category: 'mitigation',
+    });
+  }
+  return out;
+}
+
+/**
+ * Endpoint suggestions for the endpoints a diff declares: read from the file
+ * on disk, kept when the diff adds a line of the declaration and no annotation
+ * in the model covers it.
+ */
+async function suggestFromEndpointsInDiff(
+  root: string, added: Map<string, Map<number, string>>, model: ThreatModel,
+): Promise<Suggestion[]> {
+  const annotated = annotationLines(model);
+  const out: Suggestion[] = [];
+  for (const [file, lines] of added) {
+    if (!file || isSkipped(file) || !hasRouteScanner(file)) continue;
+    const fullPath = resolve(root, file);
+    if (relative(resolve(root), fullPath).startsWith('..') || !existsSync(fullPath)) continue;
+
+    const covering = annotated.get(file) ?? [];
+    for (const e of await discoverEndpoints(file, readFileSync(fullPath, 'utf-8'))) {
+      const declared = [...lines.keys()].some(l => l >= e.line && l <= e.end_line);
+      if (!declared || endpointCovered(e, covering)) continue;
+      out.push(...endpointSuggestions(e).map(s => ({ ...s, reason: `[New code] ${s.reason}` })));
+    }
+  }
+  return out;
+}
+
+/** Rules for the file's language — its registry id or its grammar. A query needs the grammar. */
+function rulesFor(file: string, content: string, rules: SuggestionRule[], registry: LanguageRegistry): SuggestionRule[] {
+  const id = languageFor(file, content, registry).id;
+  const grammar = symbolLanguage(file);
+  return rules.filter(r => r.query !== undefined
+    ? grammar !== null && r.languages!.includes(grammar)
+    : !r.languages || r.languages.includes(id) || (grammar !== null && r.languages.includes(grammar)));
+}
+
+function patternSuggestions(
+  lines: Iterable<readonly [number, string]>,
+  rules: SuggestionRule[],
+  at: (line: number) => Omit<RuleContext, 'match' | 'groups'>,
+): Suggestion[] {
+  const out: Suggestion[] = [];
+  for (const [line, text] of lines) {
+    if (text.length > MAX_RULE_LINE) continue;
+    for (const rule of rules) {
+      const m = rule.pattern ? text.match(rule.pattern) : null;
+      if (!m) continue;
+      const groups = { ...Object.fromEntries(m.slice(1).map((g, k) => [String(k + 1), g])), ...m.groups };
+      out.push(ruleSuggestion(rule, { ...at(line), match: m[0], groups }));
+    }
+  }
+  return out;
+}
+
+function ruleSuggestion(rule: SuggestionRule, ctx: RuleContext): Suggestion {
+  return {
+    file: ctx.file,
+    line: ctx.line,
+    annotation: renderRule(rule, ctx),
+    reason: rule.reason,
+    confidence: rule.confidence,
+    category: rule.category,
+    rule: rule.id,
+  };
 }
 
 // ─── Helpers ─────────────────────────────────────────────────────────
@@ -312,6 +534,14 @@ function assetFromFile(file: string): string {
   return base.split('.').map(s => s.charAt(0).toUpperCase() + s.slice(1)).join('.');
 }
 
+function isSkipped(file: string): boolean {
+  return file.includes('.guardlink/') || file.includes('node_modules/');
+}
+
+function hasAnnotations(lines: string[]): boolean {
+  return lines.some(l => /@(?:asset|threat|control|exposes|mitigates|accepts|flows|boundary|handles|comment|data|shield)\b/.test(l));
+}
+
 function lowerConfidence(c: 'high' | 'medium' | 'low'): 'high' | 'medium' | 'low' {
   if (c === 'high') return 'medium';
   return 'low';
@@ -33,7 +33,7 @@
  */
 
 import { createHash } from 'node:crypto';
-import type { ThreatModel, SourceLocation } from '../types/index.js';
+import type { ThreatModel, SourceLocation, CvssScore } from '../types/index.js';
 
 /**
  * Bump when the set of hashed fields changes. Two hashes are only comparable at
@@ -56,6 +56,12 @@ const f = (file: string): string => s(file).replaceAll('\\', '/');
 /** External refs are a set, not a sequence — order of `cwe:` tags is not content. */
 const refs = (v: string[] | undefined): string => (v ? [...v].map(s).sort().join(',') : '');
 
+/**
+ * A CVSS vector is a field only when written, so a finding without one hashes as
+ * it did before vectors existed. The vector is the content; its score follows.
+ */
+const vector = (v: CvssScore | undefined): string[] => (v ? [v.vector] : []);
+
 function record(kind: string, ...fields: string[]): string {
   return [kind, ...fields].join(FIELD_SEP);
 }
@@ -81,6 +87,9 @@ function everyLocation(model: ThreatModel): SourceLocation[] {
     // have discarded it without counting it in what it refuses over.
     ...(model.actors || []), ...(model.entitlements || []),
     ...model.shields, ...model.features, ...model.comments,
+    // An `@apply` in a sidecar anchors its block even when all it holds is the
+    // application; its expansions share its file and symbol, so add nothing.
+    ...(model.applications || []),
   ].map(r => r.location).filter(Boolean);
 }
 
@@ -95,7 +104,7 @@ export function canonicalAnnotationRecords(model: ThreatModel): string[] {
     out.push(record('asset', s(a.id), a.path.join('.'), s(a.description), f(a.location.file)));
   }
   for (const t of model.threats) {
-    out.push(record('threat', s(t.id), s(t.canonical_name), s(t.severity), refs(t.external_refs), s(t.description), f(t.location.file)));
+    out.push(record('threat', s(t.id), s(t.canonical_name), s(t.severity), refs(t.external_refs), ...vector(t.cvss), s(t.description), f(t.location.file)));
   }
   for (const c of model.controls) {
     out.push(record('control', s(c.id), s(c.canonical_name), s(c.description), f(c.location.file)));
@@ -104,13 +113,17 @@ export function canonicalAnnotationRecords(model: ThreatModel): string[] {
     out.push(record('mitigates', s(m.asset), s(m.threat), s(m.control), s(m.description), f(m.location.file)));
   }
   for (const e of model.exposures) {
-    out.push(record('exposes', s(e.asset), s(e.threat), s(e.severity), refs(e.external_refs), s(e.description), f(e.location.file)));
+    out.push(record('exposes', s(e.asset), s(e.threat), s(e.severity), refs(e.external_refs), ...vector(e.cvss), s(e.description), f(e.location.file)));
   }
   for (const c of model.confirmed || []) {
-    out.push(record('confirmed', s(c.asset), s(c.threat), s(c.severity), refs(c.external_refs), s(c.description), f(c.location.file)));
+    out.push(record('confirmed', s(c.asset), s(c.threat), s(c.severity), refs(c.external_refs), ...vector(c.cvss), s(c.description), f(c.location.file)));
   }
   for (const a of model.acceptances) {
-    out.push(record('accepts', s(a.asset), s(a.threat), s(a.description), f(a.location.file)));
+    // The review attributes are appended only when written, so an acceptance
+    // without them hashes as it did before they existed and no v2 hash goes
+    // stale. Extending or dropping a review date is still a model change.
+    const review = a.until || a.by ? [s(a.until), s(a.by)] : [];
+    out.push(record('accepts', s(a.asset), s(a.threat), ...review, s(a.description), f(a.location.file)));
   }
   for (const t of model.transfers) {
     out.push(record('transfers', s(t.threat), s(t.source), s(t.target), s(t.description), f(t.location.file)));
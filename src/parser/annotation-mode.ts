@@ -56,7 +56,9 @@ function evidenceLocations(model: ThreatModel): SourceLocation[] {
     ...model.ownership, ...model.data_handling, ...model.assumptions,
     ...(model.actors || []), ...(model.entitlements || []),
     ...model.shields, ...model.features, ...model.comments,
-  ].map(a => a.location);
+    // An expansion was authored wherever its `@apply` was; count that once.
+    ...(model.applications || []),
+  ].map(a => a.location).filter(l => !l.template);
 }
 
 /**
@@ -143,8 +145,19 @@ export function readConfiguredMode(root: string): AnnotationMode | null {
  * and an unparseable config must not silently disable diagnostics.
  */
 export function readDisabledDiagnostics(root: string): ReadonlySet<string> {
+  let text: string;
   try {
-    const config = JSON.parse(readFileSync(join(root, '.guardlink', 'config.json'), 'utf-8'));
+    text = readFileSync(join(root, '.guardlink', 'config.json'), 'utf-8');
+  } catch {
+    return new Set();
+  }
+  return disabledDiagnosticsFromConfig(text);
+}
+
+/** Same, from config.json text read elsewhere — a git revision, say. */
+export function disabledDiagnosticsFromConfig(configText: string | undefined): ReadonlySet<string> {
+  try {
+    const config = JSON.parse(configText ?? '');
     const map = config.diagnostics;
     if (!map || typeof map !== 'object') return new Set();
     return new Set(Object.entries(map)
@@ -26,6 +26,8 @@
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 import { parseLine } from './parse-line.js';
+import { stripCommentPrefix } from './comment-strip.js';
+import { languageFor, loadLanguageRegistry } from './languages.js';
 import { galPathFor, resolveGalPath, normalizeRepoPath } from './gal-path.js';
 
 /** Verbs a tool may never write. */
@@ -135,6 +137,12 @@ export function applyAnnotations(options: ApplyAnnotationsOptions): ApplyAnnotat
   }
 
   // ── Validate every line against the real parser ──
+  // With the content, so an extensionless script gets its shebang's language — the one parseFile uses.
+  let content: string | undefined;
+  try {
+    content = readFileSync(resolve(root, file), 'utf-8');
+  } catch {}
+  const language = languageFor(file, content, loadLanguageRegistry(root));
   const errors: string[] = [];
   const normalised: string[] = [];
   for (const [i, raw] of annotations.entries()) {
@@ -145,7 +153,13 @@ export function applyAnnotations(options: ApplyAnnotationsOptions): ApplyAnnotat
       continue;
     }
     if (!text.startsWith('@')) {
-      errors.push(`Line ${i + 1}: \`${text}\` is not an annotation. Supply raw GAL lines with no comment prefix.`);
+      // Stripped by the parser's own rule for this file's language, so the
+      // message names the prefix the parser would have removed — not a guess.
+      const inner = stripCommentPrefix(text, language);
+      const prefix = inner?.trim().startsWith('@') ? text.slice(0, text.indexOf(inner.trim())).trim() : null;
+      errors.push(prefix
+        ? `Line ${i + 1}: \`${text}\` carries the comment prefix \`${prefix}\`. A sidecar holds raw GAL lines — supply them with no comment prefix.`
+        : `Line ${i + 1}: \`${text}\` is not an annotation. Supply raw GAL lines with no comment prefix.`);
       continue;
     }
     const parsed = parseLine(text, { file, line });
@@ -78,6 +78,8 @@ export function canonicalizeModelOrder(model: ThreatModel): ThreatModel {
     // regenerating unchanged input must not produce a diff.
     ...(model.actors ? { actors: sorted(model.actors) } : {}),
     ...(model.entitlements ? { entitlements: sorted(model.entitlements) } : {}),
+    ...(model.templates ? { templates: sorted(model.templates) } : {}),
+    ...(model.applications ? { applications: sorted(model.applications) } : {}),
     annotated_files: [...model.annotated_files].sort(),
     unannotated_files: [...model.unannotated_files].sort(),
     ...(model.external_refs ? { external_refs: sorted(model.external_refs) } : {}),
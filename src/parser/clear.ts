@@ -19,7 +19,10 @@
 import fg from 'fast-glob';
 import { readFile, writeFile } from 'node:fs/promises';
 import { relative } from 'node:path';
-import { isStandaloneAnnotationFile, stripCommentPrefix } from './comment-strip.js';
+import { createCommentReader, isStandaloneAnnotationFile } from './comment-strip.js';
+import { languageFor, loadLanguageRegistry, type LanguageSpec } from './languages.js';
+import { withConfiguredLanguages } from './parse-project.js';
+import { isTemplateDefinition } from './parse-line.js';
 
 // ─── Known GuardLink verbs ──────────────────────────────────────────
 
@@ -28,6 +31,7 @@ const GUARDLINK_VERBS = new Set([
   'mitigates', 'exposes', 'confirmed', 'accepts', 'entitles', 'transfers', 'flows', 'boundary',
   'validates', 'audit', 'owns', 'handles', 'assumes',
   'comment', 'source', 'shield', 'shield:begin', 'shield:end',
+  'apply', 'template:end',
   // v1 compat
   'review', 'connects',
 ]);
@@ -45,6 +49,7 @@ const DEFAULT_INCLUDE = [
   '**/*.html', '**/*.xml', '**/*.svg',
   '**/*.css',
   '**/*.ex', '**/*.exs',
+  '**/*.nim', '**/*.jl', '**/*.ps1', '**/*.psm1', '**/*.f90', '**/*.f95', '**/*.f03', '**/*.f08',
   '**/*.[gG][aA][lL]',
 ];
 
@@ -61,6 +66,7 @@ const DEFAULT_EXCLUDE = [
 
 export interface ClearAnnotationsOptions {
   root: string;
+  /** Default: common source files, plus extensions of languages configured in config.json */
   include?: string[];
   exclude?: string[];
   /** If true, don't write files — just report what would be removed */
@@ -91,6 +97,8 @@ function isGuardLinkAnnotationText(inner: string | null): boolean {
   if (!verbMatch) return false;
 
   const verb = verbMatch[1];
+  // `@template T` is a JSDoc tag; only the form with a parameter list is ours.
+  if (verb === 'template') return isTemplateDefinition(trimmed);
   return GUARDLINK_VERBS.has(verb);
 }
 
@@ -101,26 +109,41 @@ function isGuardLinkAnnotationText(inner: string | null): boolean {
  * Also removes:
  * - Continuation lines (-- "...") that follow an annotation
  * - Empty comment lines that are left between annotations (cleanup)
+ *
+ * Lines are read with the same comment reader the parser uses, so what is
+ * removed is exactly what was parsed. An annotation sharing its line with a
+ * block comment's opener or closer leaves the delimiter behind — deleting
+ * `/* @exposes …` whole would leave the rest of the comment as code.
  */
-function removeAnnotationsFromContent(content: string, allowRawAnnotationLines: boolean): { cleaned: string; removed: number } {
+function removeAnnotationsFromContent(
+  content: string,
+  allowRawAnnotationLines: boolean,
+  language?: LanguageSpec,
+): { cleaned: string; removed: number } {
   const lines = content.split('\n');
   const result: string[] = [];
   let removed = 0;
   let lastWasAnnotation = false;
+  const reader = createCommentReader(language);
 
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i];
-    const inner = allowRawAnnotationLines ? line : stripCommentPrefix(line);
+    const before = reader.openBlock;
+    const inner = allowRawAnnotationLines ? line : reader.read(line);
+    const after = reader.openBlock;
+    const residue = !before && after ? after[0] : before && !after ? before[1] : null;
 
     if (isGuardLinkAnnotationText(inner)) {
       removed++;
       lastWasAnnotation = true;
+      if (residue) result.push(`${line.match(/^\s*/)![0]}${residue}`);
       continue;
     }
 
     // Remove continuation lines that follow an annotation
     if (lastWasAnnotation && inner !== null && /^--\s*"/.test(inner.trim())) {
       removed++;
+      if (residue) result.push(`${line.match(/^\s*/)![0]}${residue}`);
       continue;
     }
 
@@ -145,9 +168,10 @@ function removeAnnotationsFromContent(content: string, allowRawAnnotationLines:
  * Scan all project source files and remove GuardLink annotations.
  */
 export async function clearAnnotations(options: ClearAnnotationsOptions): Promise<ClearAnnotationsResult> {
+  const languages = loadLanguageRegistry(options.root);
   const {
     root,
-    include = DEFAULT_INCLUDE,
+    include = withConfiguredLanguages(DEFAULT_INCLUDE, languages),
     exclude = DEFAULT_EXCLUDE,
     dryRun = false,
     includeDefinitions = false,
@@ -169,7 +193,8 @@ export async function clearAnnotations(options: ClearAnnotationsOptions): Promis
 
   for (const filePath of files) {
     const content = await readFile(filePath, 'utf-8');
-    const { cleaned, removed } = removeAnnotationsFromContent(content, isStandaloneAnnotationFile(filePath));
+    const { cleaned, removed } = removeAnnotationsFromContent(
+      content, isStandaloneAnnotationFile(filePath), languageFor(filePath, content, languages));
 
     if (removed > 0) {
       const relPath = relative(root, filePath);
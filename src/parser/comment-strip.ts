@@ -1,61 +1,87 @@
 import { extname } from 'node:path';
+import {
+  DEFAULT_LANGUAGE_REGISTRY, GENERIC_LANGUAGE, languageForExt,
+  type LanguageRegistry, type LanguageSpec,
+} from './languages.js';
 
 /**
  * Comment prefix stripping per §2.9.
  * Strips the host language's comment prefix to expose the annotation text.
+ * Which delimiters count is the language's business — see languages.ts.
  */
 
-/**
- * Strip comment prefix from a single line, returning the inner text
- * or null if the line is not a comment.
- */
-export function stripCommentPrefix(line: string): string | null {
-  const trimmed = line.trimStart();
-
-  // Single-line styles (order matters — longer prefixes first)
-  const singlePrefixes = [
-    '//',   // C-family, Rust, Go, JS, TS
-    '#',    // Python, Ruby, Bash, YAML, Terraform
-    '--',   // Haskell, Lua, SQL, Ada
-    '%',    // LaTeX, Erlang, MATLAB
-    ';',    // Lisp, Clojure, Assembly
-    'REM ', // Batch (with trailing space)
-    'REM\t',
-    "'",    // VBA, VB.NET
-  ];
-
-  for (const prefix of singlePrefixes) {
-    if (trimmed.startsWith(prefix)) {
-      return trimmed.slice(prefix.length).trimStart();
-    }
-  }
-
-  // Block comment line (already inside a block)
-  // Strip leading * (Javadoc-style) or bare text in block
-  if (trimmed.startsWith('*') && !trimmed.startsWith('*/')) {
-    return trimmed.slice(1).trimStart();
-  }
-
-  // HTML/XML comment: <!-- ... -->
-  const htmlMatch = trimmed.match(/^<!--\s*(.*?)\s*-->$/);
-  if (htmlMatch) return htmlMatch[1];
+/** Reads a file's lines in order, tracking whether a block comment is open. */
+export interface CommentReader {
+  /** The comment text on `line`, or null if the line is not a comment. */
+  read(line: string): string | null;
+  /** The `[open, close]` of a block comment still open after the last line read. */
+  readonly openBlock: readonly [string, string] | null;
+}
 
-  // Opening block comment on same line: /* ... */  or  /* ...
-  const blockOpenClose = trimmed.match(/^\/\*\s*(.*?)\s*\*\/$/);
-  if (blockOpenClose) return blockOpenClose[1];
+/** A delimiter ending in a letter (`REM`) must be followed by whitespace or end the line. */
+function startsWithDelimiter(text: string, delimiter: string): boolean {
+  if (!text.startsWith(delimiter)) return false;
+  return !/[A-Za-z]$/.test(delimiter) || text.length === delimiter.length || /\s/.test(text[delimiter.length]);
+}
 
-  const blockOpen = trimmed.match(/^\/\*\s*(.*)$/);
-  if (blockOpen) return blockOpen[1].trimStart();
+/**
+ * A reader for one file, or one region of a container, in `language`.
+ *
+ * Lines inside a block comment are comment text whether or not they carry a
+ * decoration, so `<# … #>` and `#= … =#` bodies read like `/* … *\/` ones. In a
+ * language whose block opener ends in `*`, a line starting with `*` is read as
+ * a Javadoc continuation even when the opener was never seen — a reader that
+ * starts mid-comment, at a fence or a hunk, still finds the annotation.
+ */
+export function createCommentReader(language: LanguageSpec = GENERIC_LANGUAGE): CommentReader {
+  // Longest first, so `--[[` wins over `--` and `#[` over `#`.
+  const delimiters = [
+    ...language.block.map(([open, close]) => ({ open, close: close as string | null })),
+    ...language.line.map(open => ({ open, close: null as string | null })),
+  ].sort((a, b) => b.open.length - a.open.length);
+  const starred = language.block.some(([open]) => open.endsWith('*'));
+  let openBlock: [string, string] | null = null;
 
-  // Haskell block: {- ... -}
-  const haskellBlock = trimmed.match(/^\{-\s*(.*?)\s*-\}$/);
-  if (haskellBlock) return haskellBlock[1];
+  /** `text` up to the block's close, leaving the block open if the close is not there. */
+  const untilClose = (text: string, block: [string, string]): string => {
+    const at = text.indexOf(block[1]);
+    openBlock = at === -1 ? block : null;
+    return at === -1 ? text : text.slice(0, at);
+  };
+  /** Drop the one leading `*` of a Javadoc-style line. */
+  const undecorate = (text: string, open: string): string =>
+    (open.endsWith('*') && text.startsWith('*') ? text.slice(1) : text).trim();
 
-  // OCaml/Pascal: (* ... *)
-  const ocamlBlock = trimmed.match(/^\(\*\s*(.*?)\s*\*\)$/);
-  if (ocamlBlock) return ocamlBlock[1];
+  return {
+    get openBlock() { return openBlock; },
+    read(line: string): string | null {
+      const trimmed = line.trim();
+      if (openBlock) {
+        const [open] = openBlock;
+        return undecorate(untilClose(trimmed, openBlock), open);
+      }
+      for (const { open, close } of delimiters) {
+        if (!startsWithDelimiter(trimmed, open)) continue;
+        const rest = trimmed.slice(open.length);
+        return close === null ? rest.trimStart() : undecorate(untilClose(rest, [open, close]), open);
+      }
+      if (starred && trimmed.startsWith('*') && !language.block.some(([, close]) => trimmed.startsWith(close))) {
+        const close = language.block.find(([o]) => o.endsWith('*'))![1];
+        const at = trimmed.indexOf(close);
+        return (at === -1 ? trimmed.slice(1) : trimmed.slice(1, at)).trim();
+      }
+      return null;
+    },
+  };
+}
 
-  return null;
+/**
+ * Strip comment prefix from a single line, returning the inner text
+ * or null if the line is not a comment. Without a language, every syntax
+ * GuardLink knows is tried.
+ */
+export function stripCommentPrefix(line: string, language: LanguageSpec = GENERIC_LANGUAGE): string | null {
+  return createCommentReader(language).read(line);
 }
 
 /**
@@ -67,25 +93,10 @@ export function isStandaloneAnnotationFile(filePath: string): boolean {
 }
 
 /**
- * Detect file's primary comment style from extension.
- * Used for multi-line continuation detection.
+ * Detect file's primary comment style from extension: the first line comment
+ * prefix of its language, else the opener of its first block comment.
  */
-export function commentStyleForExt(ext: string): string {
-  const map: Record<string, string> = {
-    '.ts': '//', '.tsx': '//', '.js': '//', '.jsx': '//',
-    '.java': '//', '.c': '//', '.cpp': '//', '.cc': '//',
-    '.cs': '//', '.go': '//', '.rs': '//', '.swift': '//',
-    '.kt': '//', '.scala': '//', '.dart': '//',
-    '.py': '#', '.rb': '#', '.sh': '#', '.bash': '#',
-    '.yml': '#', '.yaml': '#', '.tf': '#', '.r': '#',
-    '.ex': '#', '.exs': '#', '.nim': '#', '.pl': '#',
-    '.hs': '--', '.lua': '--', '.sql': '--', '.ada': '--',
-    '.html': '<!--', '.xml': '<!--', '.svg': '<!--',
-    '.css': '/*',
-    '.tex': '%', '.erl': '%', '.m': '%',
-    '.lisp': ';', '.cl': ';', '.clj': ';', '.asm': ';',
-    '.bat': 'REM', '.cmd': 'REM',
-    '.vb': "'", '.bas': "'",
-  };
-  return map[ext.toLowerCase()] || '//';
+export function commentStyleForExt(ext: string, registry: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY): string {
+  const language = languageForExt(ext, registry);
+  return language.line[0] ?? language.block[0]?.[0] ?? '//';
 }
@@ -69,7 +69,7 @@
 
 import type {
   ThreatModel, ThreatModelExposure, ThreatModelMitigation, ThreatModelAcceptance,
-  SourceLocation, CoverageStats,
+  SourceLocation, CoverageStats, UncoveredSymbol,
 } from '../types/index.js';
 import { canonicaliser } from './canonical-ref.js';
 
@@ -234,6 +234,20 @@ export interface CoverageDescription {
   percent: number;
   /** Annotations parsed. NOT a numerator for `percent` — a separate quantity. */
   annotations: number;
+  /**
+   * Per-symbol coverage of security-relevant code (symbol-coverage.ts), or
+   * null when the model carries none — no file had a grammar, or the model
+   * predates it. Its own numerator, denominator and unit, like the rest.
+   */
+  symbols: SymbolCoverageDescription | null;
+}
+
+export interface SymbolCoverageDescription {
+  coveredSymbols: number;
+  securitySymbols: number;
+  /** coveredSymbols / securitySymbols, as a whole percent. 0 when there are none. */
+  percent: number;
+  uncovered: UncoveredSymbol[];
 }
 
 /** File coverage as a whole percent. The one place this division happens. */
@@ -241,6 +255,11 @@ export function fileCoveragePercent(annotatedFiles: number, sourceFiles: number)
   return sourceFiles > 0 ? Math.round((annotatedFiles / sourceFiles) * 100) : 0;
 }
 
+/** Symbol coverage as a whole percent, by the same rounding as file coverage. */
+export function symbolCoveragePercent(coveredSymbols: number, securitySymbols: number): number {
+  return securitySymbols > 0 ? Math.round((coveredSymbols / securitySymbols) * 100) : 0;
+}
+
 /** Coverage as something a caller can render without guessing what it counts. */
 export function describeCoverage(model: ThreatModel): CoverageDescription {
   const annotatedFiles = model.annotated_files.length;
@@ -251,6 +270,18 @@ export function describeCoverage(model: ThreatModel): CoverageDescription {
     sourceFiles,
     percent: fileCoveragePercent(annotatedFiles, sourceFiles),
     annotations: annotationCount(model),
+    symbols: describeSymbolCoverage(model.coverage),
+  };
+}
+
+function describeSymbolCoverage(coverage: CoverageStats | undefined): SymbolCoverageDescription | null {
+  const { security_symbols: total, covered_security_symbols: covered } = coverage ?? {} as Partial<CoverageStats>;
+  if (typeof total !== 'number' || typeof covered !== 'number') return null;
+  return {
+    coveredSymbols: covered,
+    securitySymbols: total,
+    percent: symbolCoveragePercent(covered, total),
+    uncovered: coverage?.uncovered_symbols ?? [],
   };
 }
 
@@ -306,11 +337,20 @@ export function annotationCount(model: Pick<ThreatModel, 'coverage' | 'annotatio
 export function normalizeCoverage<T extends ThreatModel>(model: T): T {
   const count = annotationCount(model);
   const percent = model.coverage?.coverage_percent;
+  const symbols = describeSymbolCoverage(model.coverage);
   model.coverage = {
     annotation_count: count,
     coverage_percent: typeof percent === 'number' && Number.isFinite(percent)
       ? percent
       : fileCoveragePercent((model.annotated_files ?? []).length, model.source_files ?? 0),
+    // Carried through only when the report has them; a model written before
+    // per-symbol coverage keeps exactly the two fields above.
+    ...(symbols && {
+      security_symbols: symbols.securitySymbols,
+      covered_security_symbols: symbols.coveredSymbols,
+      symbol_coverage_percent: symbols.percent,
+      uncovered_symbols: symbols.uncovered,
+    }),
   };
   return model;
 }
@@ -0,0 +1,334 @@
+/**
+ * GuardLink — CVSS v3.1 and v4.0 vectors: validation and scoring.
+ *
+ * A `cvss:` token on `@threat`, `@exposes` or `@confirmed` carries a vector
+ * string as FIRST writes it. This module is the one place that decides whether
+ * such a string is a vector, and what it scores. Everything downstream — the
+ * derived severity, SARIF `security-severity`, sort order in the report and
+ * dashboard — reads the `CvssScore` the parser stored, and never re-scores.
+ *
+ * The score is the most specific the vector defines: for v3.1, environmental
+ * when any environmental metric is set, else temporal when any temporal metric
+ * is, else base; for v4.0, the single CVSS-B/BT/BE/BTE score the specification
+ * defines. A vector is the author's statement of how bad this is here, so the
+ * metrics they chose to write are the ones that count.
+ *
+ * @comment -- "Pure functions; no I/O. v4.0 scoring follows FIRST's reference calculator, macrovector table included"
+ */
+
+import type { CvssScore, Severity } from '../types/index.js';
+
+// ─── Parsing ─────────────────────────────────────────────────────────
+
+/** Metric → allowed values, per version. Order is the specification's order. */
+const V31_METRICS: Readonly<Record<string, readonly string[]>> = {
+  AV: ['N', 'A', 'L', 'P'], AC: ['L', 'H'], PR: ['N', 'L', 'H'], UI: ['N', 'R'],
+  S: ['U', 'C'], C: ['H', 'L', 'N'], I: ['H', 'L', 'N'], A: ['H', 'L', 'N'],
+  E: ['X', 'H', 'F', 'P', 'U'], RL: ['X', 'U', 'W', 'T', 'O'], RC: ['X', 'C', 'R', 'U'],
+  CR: ['X', 'H', 'M', 'L'], IR: ['X', 'H', 'M', 'L'], AR: ['X', 'H', 'M', 'L'],
+  MAV: ['X', 'N', 'A', 'L', 'P'], MAC: ['X', 'L', 'H'], MPR: ['X', 'N', 'L', 'H'], MUI: ['X', 'N', 'R'],
+  MS: ['X', 'U', 'C'], MC: ['X', 'H', 'L', 'N'], MI: ['X', 'H', 'L', 'N'], MA: ['X', 'H', 'L', 'N'],
+};
+const V31_BASE = ['AV', 'AC', 'PR', 'UI', 'S', 'C', 'I', 'A'];
+const V31_TEMPORAL = ['E', 'RL', 'RC'];
+
+const V40_METRICS: Readonly<Record<string, readonly string[]>> = {
+  AV: ['N', 'A', 'L', 'P'], AC: ['L', 'H'], AT: ['N', 'P'], PR: ['N', 'L', 'H'], UI: ['N', 'P', 'A'],
+  VC: ['H', 'L', 'N'], VI: ['H', 'L', 'N'], VA: ['H', 'L', 'N'],
+  SC: ['H', 'L', 'N'], SI: ['H', 'L', 'N'], SA: ['H', 'L', 'N'],
+  E: ['X', 'A', 'P', 'U'],
+  CR: ['X', 'H', 'M', 'L'], IR: ['X', 'H', 'M', 'L'], AR: ['X', 'H', 'M', 'L'],
+  MAV: ['X', 'N', 'A', 'L', 'P'], MAC: ['X', 'L', 'H'], MAT: ['X', 'N', 'P'], MPR: ['X', 'N', 'L', 'H'],
+  MUI: ['X', 'N', 'P', 'A'], MVC: ['X', 'H', 'L', 'N'], MVI: ['X', 'H', 'L', 'N'], MVA: ['X', 'H', 'L', 'N'],
+  MSC: ['X', 'H', 'L', 'N'], MSI: ['X', 'S', 'H', 'L', 'N'], MSA: ['X', 'S', 'H', 'L', 'N'],
+  S: ['X', 'N', 'P'], AU: ['X', 'N', 'Y'], R: ['X', 'A', 'U', 'I'], V: ['X', 'D', 'C'],
+  RE: ['X', 'L', 'M', 'H'], U: ['X', 'Clear', 'Green', 'Amber', 'Red'],
+};
+const V40_BASE = ['AV', 'AC', 'AT', 'PR', 'UI', 'VC', 'VI', 'VA', 'SC', 'SI', 'SA'];
+
+type Metrics = Record<string, string>;
+
+/** The outcome of reading a vector: its score, or why it is not a vector. */
+export type CvssParseResult = { ok: true; cvss: CvssScore } | { ok: false; error: string };
+
+/**
+ * Read a `CVSS:3.1/…` or `CVSS:4.0/…` vector and score it.
+ *
+ * v3.1 metrics may appear in any order, as FIRST's own parsers accept; v4.0
+ * requires the specification's order, which its vector string mandates. Either
+ * way every base metric must be present, none may repeat, and every value must
+ * be one the metric defines.
+ */
+export function parseCvss(vector: string): CvssParseResult {
+  const match = vector.match(/^CVSS:(3\.1|4\.0)\/(.+)$/);
+  if (!match) return { ok: false, error: 'expected CVSS:3.1/… or CVSS:4.0/…' };
+  const version = match[1] as CvssScore['version'];
+  const table = version === '3.1' ? V31_METRICS : V40_METRICS;
+  const base = version === '3.1' ? V31_BASE : V40_BASE;
+  const order = Object.keys(table);
+
+  const metrics: Metrics = {};
+  let last = -1;
+  for (const part of match[2].split('/')) {
+    const [key, value, extra] = part.split(':');
+    if (value === undefined || extra !== undefined) return { ok: false, error: `\`${part}\` is not a metric:value pair` };
+    if (!(key in table)) return { ok: false, error: `${key} is not a CVSS ${version} metric` };
+    if (key in metrics) return { ok: false, error: `${key} appears twice` };
+    if (!table[key].includes(value)) return { ok: false, error: `${key}:${value} — ${key} takes ${table[key].join(', ')}` };
+    const position = order.indexOf(key);
+    if (version === '4.0' && position < last) return { ok: false, error: `${key} is out of order — CVSS 4.0 metrics follow the specification's order` };
+    last = position;
+    metrics[key] = value;
+  }
+  const missing = base.filter(m => !(m in metrics));
+  if (missing.length > 0) return { ok: false, error: `missing base metric(s) ${missing.join(', ')}` };
+
+  const score = version === '3.1' ? scoreV31(metrics) : scoreV40(metrics);
+  return { ok: true, cvss: { version, vector, score } };
+}
+
+/**
+ * The qualitative rating the CVSS specification gives a score, as GuardLink's
+ * `Severity`. A score of 0.0 is "None", which has no `Severity` — the caller
+ * leaves severity unset rather than inventing one.
+ */
+export function severityFromCvss(score: number): Severity | undefined {
+  if (score >= 9.0) return 'critical';
+  if (score >= 7.0) return 'high';
+  if (score >= 4.0) return 'medium';
+  if (score >= 0.1) return 'low';
+  return undefined;
+}
+
+const SEVERITY_RANK: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Most severe first: by severity, then by CVSS score within a severity, scored
+ * before unscored. Ties keep their input order, so a model with no vectors sorts
+ * exactly as a plain severity sort would.
+ */
+export function compareBySeverity(
+  a: { severity?: string; cvss?: CvssScore },
+  b: { severity?: string; cvss?: CvssScore },
+): number {
+  const rank = (SEVERITY_RANK[a.severity ?? ''] ?? 4) - (SEVERITY_RANK[b.severity ?? ''] ?? 4);
+  return rank || (b.cvss?.score ?? -1) - (a.cvss?.score ?? -1);
+}
+
+// ─── CVSS v3.1 ───────────────────────────────────────────────────────
+
+const W31: Readonly<Record<string, Readonly<Record<string, number>>>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  CIA: { H: 0.56, L: 0.22, N: 0 },
+  E: { X: 1, H: 1, F: 0.97, P: 0.94, U: 0.91 },
+  RL: { X: 1, U: 1, W: 0.97, T: 0.96, O: 0.95 },
+  RC: { X: 1, C: 1, R: 0.96, U: 0.92 },
+  REQ: { X: 1, H: 1.5, M: 1, L: 0.5 },
+};
+
+/** Privileges Required weighs more when scope changes. */
+function pr31(value: string, changed: boolean): number {
+  if (value === 'N') return 0.85;
+  if (value === 'L') return changed ? 0.68 : 0.62;
+  return changed ? 0.5 : 0.27;
+}
+
+/** The specification's Roundup: the smallest one-decimal number ≥ x, immune to float error. */
+function roundup31(x: number): number {
+  const int = Math.round(x * 100000);
+  return int % 10000 === 0 ? int / 100000 : (Math.floor(int / 10000) + 1) / 10;
+}
+
+function scoreV31(m: Metrics): number {
+  const get = (k: string) => m[k] ?? 'X';
+  const temporal = W31.E[get('E')] * W31.RL[get('RL')] * W31.RC[get('RC')];
+  const environmental = Object.keys(m).some(k => !V31_BASE.includes(k) && !V31_TEMPORAL.includes(k) && m[k] !== 'X');
+
+  if (environmental) {
+    const mod = (k: string) => (get(`M${k}`) !== 'X' ? get(`M${k}`) : m[k]);
+    const changed = mod('S') === 'C';
+    const miss = Math.min(1 - (1 - W31.REQ[get('CR')] * W31.CIA[mod('C')])
+      * (1 - W31.REQ[get('IR')] * W31.CIA[mod('I')])
+      * (1 - W31.REQ[get('AR')] * W31.CIA[mod('A')]), 0.915);
+    const impact = changed ? 7.52 * (miss - 0.029) - 3.25 * Math.pow(miss * 0.9731 - 0.02, 13) : 6.42 * miss;
+    const exploitability = 8.22 * W31.AV[mod('AV')] * W31.AC[mod('AC')] * pr31(mod('PR'), changed) * W31.UI[mod('UI')];
+    if (impact <= 0) return 0;
+    const inner = changed ? Math.min(1.08 * (impact + exploitability), 10) : Math.min(impact + exploitability, 10);
+    return roundup31(roundup31(inner) * temporal);
+  }
+
+  const changed = m.S === 'C';
+  const iss = 1 - (1 - W31.CIA[m.C]) * (1 - W31.CIA[m.I]) * (1 - W31.CIA[m.A]);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  const exploitability = 8.22 * W31.AV[m.AV] * W31.AC[m.AC] * pr31(m.PR, changed) * W31.UI[m.UI];
+  if (impact <= 0) return 0;
+  const base = roundup31(changed ? Math.min(1.08 * (impact + exploitability), 10) : Math.min(impact + exploitability, 10));
+  return V31_TEMPORAL.some(k => get(k) !== 'X') ? roundup31(base * temporal) : base;
+}
+
+// ─── CVSS v4.0 ───────────────────────────────────────────────────────
+//
+// A port of the scoring algorithm in FIRST's reference calculator: the vector
+// is placed in one of 270 macrovectors (six equivalence classes, EQ1–EQ6), the
+// macrovector's score is looked up, and the score is lowered in proportion to
+// how far the vector sits from the most severe vectors of its macrovector.
+
+/** The value a metric takes once Modified and unset Threat/Requirement metrics are applied. */
+function effective40(m: Metrics, key: string): string {
+  const modified = m[`M${key}`];
+  if (modified && modified !== 'X') return modified;
+  const value = m[key] ?? 'X';
+  if (value !== 'X') return value;
+  if (key === 'E') return 'A';
+  if (key === 'CR' || key === 'IR' || key === 'AR') return 'H';
+  return value;
+}
+
+function macrovector40(v: (k: string) => string): string {
+  const [av, pr, ui] = [v('AV'), v('PR'), v('UI')];
+  const eq1 = av === 'N' && pr === 'N' && ui === 'N' ? 0
+    : (av === 'N' || pr === 'N' || ui === 'N') && av !== 'P' ? 1 : 2;
+  const eq2 = v('AC') === 'L' && v('AT') === 'N' ? 0 : 1;
+  const [vc, vi, va] = [v('VC'), v('VI'), v('VA')];
+  const eq3 = vc === 'H' && vi === 'H' ? 0 : vc === 'H' || vi === 'H' || va === 'H' ? 1 : 2;
+  const [sc, si, sa] = [v('SC'), v('SI'), v('SA')];
+  const eq4 = si === 'S' || sa === 'S' ? 0 : sc === 'H' || si === 'H' || sa === 'H' ? 1 : 2;
+  const e = v('E');
+  const eq5 = e === 'A' ? 0 : e === 'P' ? 1 : 2;
+  const eq6 = (v('CR') === 'H' && vc === 'H') || (v('IR') === 'H' && vi === 'H') || (v('AR') === 'H' && va === 'H') ? 0 : 1;
+  return `${eq1}${eq2}${eq3}${eq4}${eq5}${eq6}`;
+}
+
+/** Severity order of each value, most severe first, for the distance step. */
+const LEVELS40: Readonly<Record<string, readonly string[]>> = {
+  AV: ['N', 'A', 'L', 'P'], PR: ['N', 'L', 'H'], UI: ['N', 'P', 'A'],
+  AC: ['L', 'H'], AT: ['N', 'P'],
+  VC: ['H', 'L', 'N'], VI: ['H', 'L', 'N'], VA: ['H', 'L', 'N'],
+  SC: ['H', 'L', 'N'], SI: ['S', 'H', 'L', 'N'], SA: ['S', 'H', 'L', 'N'],
+  CR: ['H', 'M', 'L'], IR: ['H', 'M', 'L'], AR: ['H', 'M', 'L'],
+};
+
+/** The most severe vectors of each equivalence class level (FIRST's max_composed). */
+const MAX_COMPOSED: {
+  eq1: Record<number, string[]>; eq2: Record<number, string[]>;
+  eq3eq6: Record<string, string[]>; eq4: Record<number, string[]>;
+} = {
+  eq1: { 0: ['AV:N/PR:N/UI:N'], 1: ['AV:A/PR:N/UI:N', 'AV:N/PR:L/UI:N', 'AV:N/PR:N/UI:P'], 2: ['AV:P/PR:N/UI:N', 'AV:A/PR:L/UI:P'] },
+  eq2: { 0: ['AC:L/AT:N'], 1: ['AC:H/AT:N', 'AC:L/AT:P'] },
+  eq3eq6: {
+    '00': ['VC:H/VI:H/VA:H/CR:H/IR:H/AR:H'],
+    '01': ['VC:H/VI:H/VA:L/CR:M/IR:M/AR:H', 'VC:H/VI:H/VA:H/CR:M/IR:M/AR:M'],
+    '10': ['VC:L/VI:H/VA:H/CR:H/IR:H/AR:H', 'VC:H/VI:L/VA:H/CR:H/IR:H/AR:H'],
+    '11': ['VC:L/VI:H/VA:L/CR:H/IR:M/AR:H', 'VC:L/VI:H/VA:H/CR:H/IR:M/AR:M', 'VC:H/VI:L/VA:H/CR:M/IR:H/AR:M', 'VC:H/VI:L/VA:L/CR:M/IR:H/AR:H', 'VC:L/VI:L/VA:H/CR:H/IR:H/AR:M'],
+    '21': ['VC:L/VI:L/VA:L/CR:H/IR:H/AR:H'],
+  },
+  eq4: { 0: ['SC:H/SI:S/SA:S'], 1: ['SC:H/SI:H/SA:H'], 2: ['SC:L/SI:L/SA:L'] },
+};
+
+/** How many severity steps each equivalence class level spans (FIRST's max_severity). */
+const MAX_SEVERITY = {
+  eq1: { 0: 1, 1: 4, 2: 5 } as Record<number, number>,
+  eq2: { 0: 1, 1: 2 } as Record<number, number>,
+  eq3eq6: { '00': 7, '01': 6, '10': 8, '11': 8, '21': 10 } as Record<string, number>,
+  eq4: { 0: 6, 1: 5, 2: 4 } as Record<number, number>,
+};
+
+/** Score of each macrovector, from FIRST's reference lookup table. */
+const MACROVECTOR_SCORES: Readonly<Record<string, number>> = {
+  '000000': 10, '000001': 9.9, '000010': 9.8, '000011': 9.5, '000020': 9.5, '000021': 9.2, '000100': 10, '000101': 9.6,
+  '000110': 9.3, '000111': 8.7, '000120': 9.1, '000121': 8.1, '000200': 9.3, '000201': 9, '000210': 8.9, '000211': 8,
+  '000220': 8.1, '000221': 6.8, '001000': 9.8, '001001': 9.5, '001010': 9.5, '001011': 9.2, '001020': 9, '001021': 8.4,
+  '001100': 9.3, '001101': 9.2, '001110': 8.9, '001111': 8.1, '001120': 8.1, '001121': 6.5, '001200': 8.8, '001201': 8,
+  '001210': 7.8, '001211': 7, '001220': 6.9, '001221': 4.8, '002001': 9.2, '002011': 8.2, '002021': 7.2, '002101': 7.9,
+  '002111': 6.9, '002121': 5, '002201': 6.9, '002211': 5.5, '002221': 2.7, '010000': 9.9, '010001': 9.7, '010010': 9.5,
+  '010011': 9.2, '010020': 9.2, '010021': 8.5, '010100': 9.5, '010101': 9.1, '010110': 9, '010111': 8.3, '010120': 8.4,
+  '010121': 7.1, '010200': 9.2, '010201': 8.1, '010210': 8.2, '010211': 7.1, '010220': 7.2, '010221': 5.3, '011000': 9.5,
+  '011001': 9.3, '011010': 9.2, '011011': 8.5, '011020': 8.5, '011021': 7.3, '011100': 9.2, '011101': 8.2, '011110': 8,
+  '011111': 7.2, '011120': 7, '011121': 5.9, '011200': 8.4, '011201': 7, '011210': 7.1, '011211': 5.2, '011220': 5,
+  '011221': 3, '012001': 8.6, '012011': 7.5, '012021': 5.2, '012101': 7.1, '012111': 5.2, '012121': 2.9, '012201': 6.3,
+  '012211': 2.9, '012221': 1.7, '100000': 9.8, '100001': 9.5, '100010': 9.4, '100011': 8.7, '100020': 9.1, '100021': 8.1,
+  '100100': 9.4, '100101': 8.9, '100110': 8.6, '100111': 7.4, '100120': 7.7, '100121': 6.4, '100200': 8.7, '100201': 7.5,
+  '100210': 7.4, '100211': 6.3, '100220': 6.3, '100221': 4.9, '101000': 9.4, '101001': 8.9, '101010': 8.8, '101011': 7.7,
+  '101020': 7.6, '101021': 6.7, '101100': 8.6, '101101': 7.6, '101110': 7.4, '101111': 5.8, '101120': 5.9, '101121': 5,
+  '101200': 7.2, '101201': 5.7, '101210': 5.7, '101211': 5.2, '101220': 5.2, '101221': 2.5, '102001': 8.3, '102011': 7,
+  '102021': 5.4, '102101': 6.5, '102111': 5.8, '102121': 2.6, '102201': 5.3, '102211': 2.1, '102221': 1.3, '110000': 9.5,
+  '110001': 9, '110010': 8.8, '110011': 7.6, '110020': 7.6, '110021': 7, '110100': 9, '110101': 7.7, '110110': 7.5,
+  '110111': 6.2, '110120': 6.1, '110121': 5.3, '110200': 7.7, '110201': 6.6, '110210': 6.8, '110211': 5.9, '110220': 5.2,
+  '110221': 3, '111000': 8.9, '111001': 7.8, '111010': 7.6, '111011': 6.7, '111020': 6.2, '111021': 5.8, '111100': 7.4,
+  '111101': 5.9, '111110': 5.7, '111111': 5.7, '111120': 4.7, '111121': 2.3, '111200': 6.1, '111201': 5.2, '111210': 5.7,
+  '111211': 2.9, '111220': 2.4, '111221': 1.6, '112001': 7.1, '112011': 5.9, '112021': 3, '112101': 5.8, '112111': 2.6,
+  '112121': 1.5, '112201': 2.3, '112211': 1.3, '112221': 0.6, '200000': 9.3, '200001': 8.7, '200010': 8.6, '200011': 7.2,
+  '200020': 7.5, '200021': 5.8, '200100': 8.6, '200101': 7.4, '200110': 7.4, '200111': 6.1, '200120': 5.6, '200121': 3.4,
+  '200200': 7, '200201': 5.4, '200210': 5.2, '200211': 4, '200220': 4, '200221': 2.2, '201000': 8.5, '201001': 7.5,
+  '201010': 7.4, '201011': 5.5, '201020': 6.2, '201021': 5.1, '201100': 7.2, '201101': 5.7, '201110': 5.5, '201111': 4.1,
+  '201120': 4.6, '201121': 1.9, '201200': 5.3, '201201': 3.6, '201210': 3.4, '201211': 1.9, '201220': 1.9, '201221': 0.8,
+  '202001': 6.4, '202011': 5.1, '202021': 2, '202101': 4.7, '202111': 2.1, '202121': 1.1, '202201': 2.4, '202211': 0.9,
+  '202221': 0.4, '210000': 8.8, '210001': 7.5, '210010': 7.3, '210011': 5.3, '210020': 6, '210021': 5, '210100': 7.3,
+  '210101': 5.5, '210110': 5.9, '210111': 4, '210120': 4.1, '210121': 2, '210200': 5.4, '210201': 4.3, '210210': 4.5,
+  '210211': 2.2, '210220': 2, '210221': 1.1, '211000': 7.5, '211001': 5.5, '211010': 5.8, '211011': 4.5, '211020': 4,
+  '211021': 2.1, '211100': 6.1, '211101': 5.1, '211110': 4.8, '211111': 1.8, '211120': 2, '211121': 0.9, '211200': 4.6,
+  '211201': 1.8, '211210': 1.7, '211211': 0.7, '211220': 0.8, '211221': 0.2, '212001': 5.3, '212011': 2.4, '212021': 1.4,
+  '212101': 2.4, '212111': 1.2, '212121': 0.5, '212201': 1, '212211': 0.3, '212221': 0.1,
+};
+
+function scoreV40(m: Metrics): number {
+  const v = (k: string) => effective40(m, k);
+  // Nothing affected, on either system: nothing to score.
+  if (['VC', 'VI', 'VA', 'SC', 'SI', 'SA'].every(k => v(k) === 'N')) return 0;
+
+  const mv = macrovector40(v);
+  const [eq1, eq2, eq3, eq4, eq5, eq6] = [...mv].map(Number);
+  const value = MACROVECTOR_SCORES[mv];
+  const at = (e1: number, e2: number, e3: number, e4: number, e5: number, e6: number) =>
+    MACROVECTOR_SCORES[`${e1}${e2}${e3}${e4}${e5}${e6}`];
+
+  // The next lower macrovector along each class, where there is one.
+  const lower1 = at(eq1 + 1, eq2, eq3, eq4, eq5, eq6);
+  const lower2 = at(eq1, eq2 + 1, eq3, eq4, eq5, eq6);
+  const lower36 = eq3 === 0 && eq6 === 0
+    ? Math.max(at(eq1, eq2, 1, eq4, eq5, 0) ?? NaN, at(eq1, eq2, 0, eq4, eq5, 1) ?? NaN)
+    : eq3 === 1 && eq6 === 0 ? at(eq1, eq2, 1, eq4, eq5, 1)
+      : eq3 === 2 ? undefined
+        : at(eq1, eq2, eq3 + 1, eq4, eq5, eq6);
+  const lower4 = at(eq1, eq2, eq3, eq4 + 1, eq5, eq6);
+  const lower5 = at(eq1, eq2, eq3, eq4, eq5 + 1, eq6);
+
+  // The first most-severe vector of this macrovector that the vector does not exceed.
+  const candidates: string[] = [];
+  for (const a of MAX_COMPOSED.eq1[eq1]) {
+    for (const b of MAX_COMPOSED.eq2[eq2]) {
+      for (const c of MAX_COMPOSED.eq3eq6[`${eq3}${eq6}`]) {
+        for (const d of MAX_COMPOSED.eq4[eq4]) candidates.push(`${a}/${b}/${c}/${d}`);
+      }
+    }
+  }
+  let distance: Record<string, number> = {};
+  for (const candidate of candidates) {
+    const max = Object.fromEntries(candidate.split('/').map(p => p.split(':')));
+    distance = Object.fromEntries(Object.keys(LEVELS40).map(k => [k, LEVELS40[k].indexOf(v(k)) - LEVELS40[k].indexOf(max[k])]));
+    if (Object.values(distance).every(d => d >= 0)) break;
+  }
+  const d = (...keys: string[]) => keys.reduce((sum, k) => sum + distance[k], 0);
+
+  // Lower the score by the mean of each class's share of its available drop.
+  const steps = 0.1;
+  let total = 0;
+  let classes = 0;
+  const lowerBy = (next: number | undefined, severityDistance: number, span: number) => {
+    if (next === undefined || Number.isNaN(next)) return;
+    classes += 1;
+    total += (value - next) * (severityDistance / (span * steps)) * steps;
+  };
+  lowerBy(lower1, d('AV', 'PR', 'UI'), MAX_SEVERITY.eq1[eq1]);
+  lowerBy(lower2, d('AC', 'AT'), MAX_SEVERITY.eq2[eq2]);
+  lowerBy(lower36, d('VC', 'VI', 'VA', 'CR', 'IR', 'AR'), MAX_SEVERITY.eq3eq6[`${eq3}${eq6}`]);
+  lowerBy(lower4, d('SC', 'SI', 'SA'), MAX_SEVERITY.eq4[eq4]);
+  // EQ5 has one dimension, so a vector is always at its most severe point.
+  lowerBy(lower5, 0, 1);
+
+  const score = classes === 0 ? value : value - total / classes;
+  // FIRST rounds half up with an epsilon, so 5.8 − 0.85 is 5.0 and not 4.9.
+  return Math.round((Math.min(10, Math.max(0, score)) + 1e-6) * 10) / 10;
+}
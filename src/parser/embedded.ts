@@ -0,0 +1,373 @@
+/**
+ * GuardLink — Code embedded in other files.
+ *
+ * Jupyter notebooks, Markdown runbooks and Vue/Svelte single-file components
+ * all carry real code, but none of them is a source file the line parser can
+ * read as-is: a notebook is JSON whose cells are string arrays, a runbook is
+ * prose with code in fences, and a component is markup with a script block.
+ * Read naively, a notebook never matches a comment prefix (every line starts
+ * with `"`), and Markdown matches far too many — every `# Heading` looks like a
+ * Python comment.
+ *
+ * This turns each container into the stream of lines the parser should see,
+ * tagged with the extension of the language they are written in and the line
+ * of the CONTAINER they came from. Locations therefore point into the file a
+ * reader actually opens — for a notebook, the line of the cell's source
+ * string in the `.ipynb` — so `file:line` stays clickable, and reanchor and
+ * the diff compare the same coordinates the parser emitted.
+ *
+ * Outside its code regions a container is markup, and markup only has
+ * `<!-- -->` comments. Markdown prose, notebook markdown cells and component
+ * templates are streamed with the `.html` style.
+ *
+ * ── Markdown fences are opt-in ──────────────────────────────────────
+ *
+ * A fence is read only when its info string carries `guardlink` after the
+ * language — ```` ```bash guardlink ````. Markdown is where annotation syntax is
+ * TAUGHT: every agent instruction file `init` writes, every README that shows
+ * the team's conventions, and this project's own SPEC carry fenced examples.
+ * Read by default, those examples became findings — 95 of them in this repo,
+ * with duplicate-id errors that fail `validate` — and a repo upgrading
+ * GuardLink would have inherited the same on the day it upgraded. A runbook
+ * fence is marked once by the person who wrote it; a documentation example
+ * cannot be told apart from one by anything in the file. Prose comments need
+ * no marker, because an HTML comment is invisible in rendered Markdown and so
+ * is never an example.
+ *
+ * @exposes #parser to #dos [low] cwe:CWE-400 -- "Notebook JSON is parsed whole, with positions, by a hand-written reader"
+ * @mitigates #parser against #dos using #resource-limits -- "Single linear pass, no backtracking; recursion depth is the notebook's nesting, which nbformat fixes at a handful of levels"
+ */
+
+import { extname } from 'node:path';
+
+/** One line of a container, as the parser should see it. */
+export interface EmbeddedLine {
+  /** 1-based line in the containing file. */
+  line: number;
+  text: string;
+  /** Extension of the region's language — `.py`, `.ts`, `.html` for markup. */
+  ext: string;
+  /** Changes at every region boundary, so a continuation never crosses one. */
+  region: number;
+}
+
+/** Thrown for a container that cannot be read — today, only malformed notebook JSON. */
+export class EmbeddedParseError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(message);
+    this.name = 'EmbeddedParseError';
+  }
+}
+
+const CONTAINER_EXTS = new Set(['.ipynb', '.md', '.markdown', '.vue', '.svelte']);
+
+/** Whether `file` holds code inside another format, rather than being code. */
+export function isEmbeddingContainer(file: string): boolean {
+  return CONTAINER_EXTS.has(extname(file).toLowerCase());
+}
+
+/** Whether `file` is a Jupyter notebook — JSON that must never be edited line-wise. */
+export function isNotebook(file: string): boolean {
+  return extname(file).toLowerCase() === '.ipynb';
+}
+
+/** Whether `file` is Markdown — prose first, and code only where a fence says so. */
+export function isMarkdown(file: string): boolean {
+  return /\.(?:md|markdown)$/i.test(file);
+}
+
+/** Markup regions: prose, templates, notebook markdown cells. */
+const MARKUP = '.html';
+
+/** Fence info strings and notebook kernel languages, to the extension whose comments they use. */
+const LANGUAGE_EXTS: Record<string, string> = {
+  ts: '.ts', typescript: '.ts', tsx: '.tsx',
+  js: '.js', javascript: '.js', jsx: '.jsx', mjs: '.js', cjs: '.js',
+  py: '.py', python: '.py', python3: '.py', ipython: '.py', ipython3: '.py',
+  sh: '.sh', bash: '.sh', shell: '.sh', zsh: '.sh', console: '.sh',
+  go: '.go', golang: '.go', rs: '.rs', rust: '.rs',
+  java: '.java', kt: '.kt', kotlin: '.kt', scala: '.scala',
+  c: '.c', cpp: '.cpp', 'c++': '.cpp', cs: '.cs', csharp: '.cs',
+  swift: '.swift', dart: '.dart',
+  rb: '.rb', ruby: '.rb', r: '.r', julia: '.jl', nim: '.nim',
+  powershell: '.ps1', pwsh: '.ps1', ps1: '.ps1', fortran: '.f90',
+  sql: '.sql', lua: '.lua', hs: '.hs', haskell: '.hs',
+  tf: '.tf', hcl: '.hcl', terraform: '.tf',
+  yaml: '.yaml', yml: '.yaml', toml: '.yaml', dockerfile: '.sh',
+  html: MARKUP, xml: MARKUP, svg: MARKUP, vue: MARKUP, svelte: MARKUP,
+  css: '.css', scss: '.scss', less: '.less',
+  ex: '.ex', elixir: '.ex',
+};
+
+/** The extension for a language name, or `''` — plain-source behaviour — when unknown. */
+function extForLanguage(name: string | undefined): string {
+  return LANGUAGE_EXTS[(name ?? '').trim().toLowerCase()] ?? '';
+}
+
+/**
+ * The lines of `content` the parser should read, or null when `file` is not a
+ * container and should be read as ordinary source.
+ *
+ * @throws EmbeddedParseError when a notebook is not valid JSON.
+ */
+export function embeddedLines(content: string, file: string): EmbeddedLine[] | null {
+  switch (extname(file).toLowerCase()) {
+    case '.ipynb': return notebookLines(content);
+    case '.md': case '.markdown': return markdownLines(content.split('\n'), i => i + 1, 0).lines;
+    case '.vue': case '.svelte': return componentLines(content);
+    default: return null;
+  }
+}
+
+// ─── Markdown ────────────────────────────────────────────────────────
+
+const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`{]*)(.*)$/;
+
+/** The info-string word that marks a fence as live code rather than an example. */
+export const LIVE_FENCE_MARKER = 'guardlink';
+
+/**
+ * Prose as markup, live fences in their info string's language, other fences
+ * not at all — an example inside one is not markup either.
+ *
+ * `lineOf` maps an index into `lines` to a container line, so notebook markdown
+ * cells reuse this with their own coordinates. Unterminated fences run to the
+ * end, as CommonMark has it.
+ */
+function markdownLines(
+  lines: string[],
+  lineOf: (i: number) => number,
+  firstRegion: number,
+): { lines: EmbeddedLine[]; nextRegion: number } {
+  const out: EmbeddedLine[] = [];
+  let region = firstRegion;
+  let fence: { marker: string; ext: string; live: boolean } | null = null;
+
+  for (const [i, text] of lines.entries()) {
+    if (fence) {
+      const close = text.trim();
+      if (close.length >= fence.marker.length && close === fence.marker[0].repeat(close.length)) {
+        fence = null;
+        region++;
+        continue;
+      }
+      if (fence.live) out.push({ line: lineOf(i), text, ext: fence.ext, region });
+      continue;
+    }
+    const open = FENCE_OPEN.exec(text);
+    if (open) {
+      const live = open[3].split(/[\s,]+/).includes(LIVE_FENCE_MARKER);
+      fence = { marker: open[1], ext: extForLanguage(open[2]), live };
+      region++;
+      continue;
+    }
+    out.push({ line: lineOf(i), text, ext: MARKUP, region });
+  }
+  return { lines: out, nextRegion: region + 1 };
+}
+
+// ─── Vue / Svelte ────────────────────────────────────────────────────
+
+const BLOCK_OPEN = /^\s*<(script|style)\b([^>]*)>(.*)$/i;
+
+/**
+ * `<script>` and `<style>` blocks in their own languages, everything else as
+ * markup. `lang="ts"` and friends pick the script language. A block opened and
+ * closed on one line carries no comment line worth reading, and is skipped.
+ */
+function componentLines(content: string): EmbeddedLine[] {
+  const out: EmbeddedLine[] = [];
+  let region = 0;
+  let block: { tag: string; ext: string } | null = null;
+
+  for (const [i, text] of content.split('\n').entries()) {
+    if (block) {
+      if (new RegExp(`^\\s*</${block.tag}\\s*>`, 'i').test(text)) {
+        block = null;
+        region++;
+        continue;
+      }
+      out.push({ line: i + 1, text, ext: block.ext, region });
+      continue;
+    }
+    const open = BLOCK_OPEN.exec(text);
+    if (open && !new RegExp(`</${open[1]}\\s*>`, 'i').test(open[3])) {
+      const tag = open[1].toLowerCase();
+      const lang = /\blang\s*=\s*["']?([\w-]+)/i.exec(open[2])?.[1];
+      block = { tag, ext: tag === 'style' ? '.css' : extForLanguage(lang ?? 'js') };
+      region++;
+      continue;
+    }
+    out.push({ line: i + 1, text, ext: MARKUP, region });
+  }
+  return out;
+}
+
+// ─── Jupyter ─────────────────────────────────────────────────────────
+
+/**
+ * Code cells in the kernel's language, markdown cells as Markdown, raw cells
+ * not at all.
+ *
+ * Each entry of a cell's `source` array is one line of the cell and sits on
+ * its own line of the file in every notebook Jupyter writes, so that is the
+ * line an annotation reports. A `source` stored as one string — legal, rarer —
+ * maps every cell line to the line the string starts on.
+ */
+function notebookLines(content: string): EmbeddedLine[] {
+  const root = new JsonReader(content).document();
+  if (root.type !== 'object') throw new EmbeddedParseError('Notebook is not a JSON object', 1);
+
+  const metadata = field(root, 'metadata');
+  const languageInfo = metadata && field(metadata, 'language_info');
+  const kernelspec = metadata && field(metadata, 'kernelspec');
+  const kernelLanguage = stringValue(languageInfo && field(languageInfo, 'name'))
+    ?? stringValue(kernelspec && field(kernelspec, 'language'))
+    ?? 'python';
+  const codeExt = extForLanguage(kernelLanguage);
+
+  const cells = field(root, 'cells');
+  if (!cells || cells.type !== 'array') return [];
+
+  const out: EmbeddedLine[] = [];
+  let region = 0;
+  for (const cell of cells.items) {
+    if (cell.type !== 'object') continue;
+    const kind = stringValue(field(cell, 'cell_type'));
+    const cellLines = sourceLines(field(cell, 'source'));
+    if (kind === 'code') {
+      for (const { text, line } of cellLines) out.push({ line, text, ext: codeExt, region });
+      region++;
+    } else if (kind === 'markdown') {
+      const md = markdownLines(cellLines.map(l => l.text), i => cellLines[i].line, region);
+      out.push(...md.lines);
+      region = md.nextRegion;
+    }
+  }
+  return out;
+}
+
+/** A cell's `source`, one entry per cell line, each with the file line it came from. */
+function sourceLines(source: JsonNode | undefined): { text: string; line: number }[] {
+  if (!source) return [];
+  const strings = source.type === 'array' ? source.items : [source];
+  const out: { text: string; line: number }[] = [];
+  for (const s of strings) {
+    if (s.type !== 'string') continue;
+    // nbformat keeps the trailing newline on every line but the last.
+    for (const text of s.value.replace(/\n$/, '').split('\n')) out.push({ text, line: s.line });
+  }
+  return out;
+}
+
+/** JSON, with the line each value starts on. Only what a notebook needs. */
+type JsonNode =
+  | { type: 'object'; fields: Map<string, JsonNode>; line: number }
+  | { type: 'array'; items: JsonNode[]; line: number }
+  | { type: 'string'; value: string; line: number }
+  | { type: 'scalar'; value: unknown; line: number };
+
+const field = (node: JsonNode, key: string): JsonNode | undefined =>
+  node.type === 'object' ? node.fields.get(key) : undefined;
+
+const stringValue = (node: JsonNode | undefined): string | undefined =>
+  node?.type === 'string' ? node.value : undefined;
+
+/**
+ * A single-pass JSON reader that remembers where each value began.
+ *
+ * `JSON.parse` throws the positions away, and they are the whole point: the
+ * line of a cell's source string is the only coordinate in a notebook a reader
+ * can click. String contents are still decoded by `JSON.parse`, so escapes are
+ * handled by the one implementation that is certainly right.
+ */
+class JsonReader {
+  private pos = 0;
+  private line = 1;
+
+  constructor(private readonly text: string) {}
+
+  document(): JsonNode {
+    const node = this.value();
+    this.space();
+    if (this.pos < this.text.length) this.fail('Unexpected content after the notebook');
+    return node;
+  }
+
+  private value(): JsonNode {
+    this.space();
+    const line = this.line;
+    const ch = this.text[this.pos];
+    if (ch === '{') return this.object(line);
+    if (ch === '[') return this.array(line);
+    if (ch === '"') return { type: 'string', value: this.string(), line };
+    const scalar = /^(?:-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|true|false|null)/.exec(this.text.slice(this.pos, this.pos + 64));
+    if (!scalar) this.fail('Unexpected token');
+    this.pos += scalar[0].length;
+    return { type: 'scalar', value: JSON.parse(scalar[0]), line };
+  }
+
+  private object(line: number): JsonNode {
+    const fields = new Map<string, JsonNode>();
+    this.pos++;
+    this.space();
+    if (this.text[this.pos] === '}') { this.pos++; return { type: 'object', fields, line }; }
+    for (;;) {
+      this.space();
+      if (this.text[this.pos] !== '"') this.fail('Expected a property name');
+      const key = this.string();
+      this.space();
+      this.expect(':');
+      fields.set(key, this.value());
+      this.space();
+      if (this.text[this.pos] === '}') { this.pos++; return { type: 'object', fields, line }; }
+      this.expect(',');
+    }
+  }
+
+  private array(line: number): JsonNode {
+    const items: JsonNode[] = [];
+    this.pos++;
+    this.space();
+    if (this.text[this.pos] === ']') { this.pos++; return { type: 'array', items, line }; }
+    for (;;) {
+      items.push(this.value());
+      this.space();
+      if (this.text[this.pos] === ']') { this.pos++; return { type: 'array', items, line }; }
+      this.expect(',');
+    }
+  }
+
+  private string(): string {
+    const start = this.pos;
+    this.pos++;
+    while (this.pos < this.text.length && this.text[this.pos] !== '"') {
+      if (this.text[this.pos] === '\n') this.fail('Unterminated string');
+      this.pos += this.text[this.pos] === '\\' ? 2 : 1;
+    }
+    if (this.pos >= this.text.length) this.fail('Unterminated string');
+    this.pos++;
+    try {
+      return JSON.parse(this.text.slice(start, this.pos));
+    } catch {
+      this.fail('Invalid string escape');
+    }
+  }
+
+  private space(): void {
+    for (; this.pos < this.text.length; this.pos++) {
+      const ch = this.text[this.pos];
+      if (ch === '\n') this.line++;
+      else if (ch !== ' ' && ch !== '\t' && ch !== '\r') return;
+    }
+  }
+
+  private expect(ch: string): void {
+    if (this.text[this.pos] !== ch) this.fail(`Expected '${ch}'`);
+    this.pos++;
+  }
+
+  private fail(message: string): never {
+    throw new EmbeddedParseError(`${message} at line ${this.line}`, this.line);
+  }
+}
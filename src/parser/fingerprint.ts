@@ -25,7 +25,8 @@
 
 import fg from 'fast-glob';
 import { createHash } from 'node:crypto';
-import { DEFAULT_INCLUDE, DEFAULT_EXCLUDE } from './parse-project.js';
+import { DEFAULT_INCLUDE, DEFAULT_EXCLUDE, withConfiguredLanguages } from './parse-project.js';
+import { loadLanguageRegistry } from './languages.js';
 
 // Control characters, so a path containing any printable byte cannot forge a
 // field or record boundary.
@@ -44,7 +45,8 @@ export interface FingerprintOptions {
  * the same set of files exists with the same sizes and modification times.
  */
 export async function fingerprintProject(root: string, options: FingerprintOptions = {}): Promise<string> {
-  const { include = DEFAULT_INCLUDE, exclude = DEFAULT_EXCLUDE } = options;
+  const { exclude = DEFAULT_EXCLUDE } = options;
+  const include = options.include ?? withConfiguredLanguages(DEFAULT_INCLUDE, loadLanguageRegistry(root));
 
   // `stats: true` gets size and mtime from the walk itself — no second stat()
   // pass over the tree.
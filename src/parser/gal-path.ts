@@ -22,6 +22,7 @@
  */
 
 import { isAbsolute, join, relative, resolve } from 'node:path';
+import type { SourceLocation } from '../types/index.js';
 
 /** Where externalised annotations live, relative to the project root. */
 export const ANNOTATIONS_DIR = '.guardlink/annotations';
@@ -109,3 +110,15 @@ export function normalizeRepoPath(root: string, input: string): string | null {
   if (rel === '' || rel.startsWith('../')) return null;
   return rel;
 }
+
+/**
+ * True when the annotation at `location` was written in a `.gal` sidecar.
+ *
+ * `origin_file` used to say this alone. An annotation expanded from an
+ * `@template` carries the template's file there as well, yet was written at its
+ * `@apply`, which `file` and `line` already name — so it is no sidecar's
+ * annotation, and its `@apply` is counted in its place.
+ */
+export function isSidecarLocation(location: SourceLocation): boolean {
+  return Boolean(location.origin_file) && !location.template;
+}
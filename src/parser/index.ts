@@ -5,18 +5,28 @@
 export { parseFile, parseString } from './parse-file.js';
 export { parseProject } from './parse-project.js';
 export type { ParseProjectOptions } from './parse-project.js';
+export { openParseCache, parseCacheKey, PARSE_CACHE_VERSION, PARSE_CACHE_FILE } from './parse-cache.js';
+export type { ParseCache, ParseCacheStats, ParseFragment } from './parse-cache.js';
+export { treeFileSystem } from './project-tree.js';
+export type { ProjectTree } from './project-tree.js';
 // §9.7 — the cited-and-precise test lives in one place so a consumer cannot read
 // an imprecise entitlement as an effective one by omission.
 export { canEntitlementDemote, entitlementDemotionBlockers } from './parse-project.js';
 // MERGE: main's line dropped D19's cross-repo tag exports. Both kept — they are
 // additive and `crossRepoTag` is what stops generated docs hand-writing the
 // grammar (D19).
-export { parseLine, crossRepoTag, CROSS_REPO_TAG_PATTERN } from './parse-line.js';
-export { normalizeName, resolveSeverity, unescapeDescription } from './normalize.js';
-export { stripCommentPrefix, commentStyleForExt } from './comment-strip.js';
-export { findDanglingRefs, findUnmitigatedExposures, findAcceptedWithoutAudit, findAcceptedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, findOffConventionGalFiles } from './validate.js';
+export { parseLine, crossRepoTag, CROSS_REPO_TAG_PATTERN, expandTemplate, isTemplateDefinition } from './parse-line.js';
+export type { TemplateSource, TemplateExpansion } from './parse-line.js';
+export { normalizeName, resolveSeverity, unescapeDescription, isCalendarDate } from './normalize.js';
+export { parseCvss, severityFromCvss, compareBySeverity } from './cvss.js';
+export type { CvssParseResult } from './cvss.js';
+export { stripCommentPrefix, commentStyleForExt, createCommentReader } from './comment-strip.js';
+export type { CommentReader } from './comment-strip.js';
+export { BUILTIN_LANGUAGES, GENERIC_LANGUAGE, DEFAULT_LANGUAGE_REGISTRY, buildLanguageRegistry, loadLanguageRegistry, languageRegistryFromConfig, readConfiguredLanguages, languageFor, languageForExt } from './languages.js';
+export type { LanguageSpec, LanguageRegistry } from './languages.js';
+export { findDanglingRefs, findUnmitigatedExposures, findAcceptedWithoutAudit, findExpiredAcceptances, findAcceptedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, findOffConventionGalFiles, findTemplateErrors } from './validate.js';
 export { extractCitation, citationMatchesFile } from './citation.js';
-export { resolveGalPath, galPathFor, sourceFileForGal, isConventionalGalPath, ANNOTATIONS_DIR, GAL_CONVENTION } from './gal-path.js';
+export { resolveGalPath, galPathFor, sourceFileForGal, isConventionalGalPath, isSidecarLocation, ANNOTATIONS_DIR, GAL_CONVENTION } from './gal-path.js';
 export { clearAnnotations } from './clear.js';
 export type { ClearAnnotationsOptions, ClearAnnotationsResult } from './clear.js';
 export { listFeatures, filterByFeature, getFeatureSummaries } from './feature-filter.js';
@@ -25,7 +35,13 @@ export { computeAnnotationHash, canonicalAnnotationRecords, ANNOTATION_HASH_VERS
 export { computeAnchorHash, canonicalAnchorRecords, countAnchors, lostAnchors, ANCHOR_HASH_VERSION } from './annotation-hash.js';
 export { applyAnnotations } from './apply-annotations.js';
 export type { ApplyAnnotationsOptions, ApplyAnnotationsResult } from './apply-annotations.js';
+export { indexSymbols, enclosingSymbol, symbolsNamed, loadSymbolGrammars, loadSymbolLanguages, symbolLanguage, querySyntax, checkSyntaxQuery, SYMBOL_LANGUAGES } from './symbols.js';
+export type { SourceSymbol, SymbolKind, SymbolLanguage, SyntaxMatch } from './symbols.js';
+export { findSecuritySymbols, computeSymbolCoverage, ADJACENT_LINES } from './symbol-coverage.js';
+export type { SecuritySymbol } from './symbol-coverage.js';
 export { findAnchorDrift, applyReanchor } from './reanchor.js';
 export type { AnchorDrift } from './reanchor.js';
 export { migrateAnnotationMode, readGalBlocks } from './migrate-mode.js';
 export type { MigrateOptions, MigrateResult, TargetMode } from './migrate-mode.js';
+export { parseRuleList } from './yaml-subset.js';
+export type { YamlSubsetItem, YamlSubsetValue } from './yaml-subset.js';
@@ -0,0 +1,228 @@
+/**
+ * GuardLink — Language registry for comment syntax.
+ *
+ * Which text is a comment depends on the language, and the parser used to
+ * guess: every file was tried against one list of prefixes — `//`, `#`, `--`,
+ * `%`, `;`, `REM`, `'` — so a Python line starting with a quoted string was
+ * read as a VB comment, while Nim's `#[ ]#`, PowerShell's `<# #>`, Fortran's
+ * `!` and Julia's `#= =#` were not read at all. Each language now declares its
+ * own line and block delimiters, found by extension and, for extensionless
+ * scripts, by the interpreter on the shebang line.
+ *
+ * One registry serves every reader and writer — `parseString`, `clear`,
+ * `migrate-mode` and `review` — so a line `review` writes is a line the parser
+ * reads, and a line the parser reads is one `clear` removes. Files in no
+ * registered language keep the old permissive list, `GENERIC_LANGUAGE`:
+ * losing annotations in a file nobody told us about would be worse than the
+ * mis-reads the registry fixes.
+ *
+ * Projects add or override languages in `.guardlink/config.json`:
+ *
+ * ```json
+ * { "languages": { "zig": { "extensions": [".zig"], "line": ["//"] } } }
+ * ```
+ *
+ * A configured entry replaces a built-in of the same id, and takes its
+ * extensions from whichever built-in claimed them. Configured extensions are
+ * also scanned by default.
+ */
+
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+
+export interface LanguageSpec {
+  id: string;
+  /** Lower-case, with the dot: `.ps1`. */
+  extensions: string[];
+  /** Interpreter names on a `#!` line: `pwsh`, `python3`. */
+  shebangs?: string[];
+  /** Line comment prefixes, preferred first — the first is what writers use. */
+  line: string[];
+  /** Block comment `[open, close]` pairs, preferred first. */
+  block: [string, string][];
+}
+
+const C_STYLE = { line: ['//'], block: [['/*', '*/']] as [string, string][] };
+
+export const BUILTIN_LANGUAGES: readonly LanguageSpec[] = [
+  { id: 'javascript', extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'], shebangs: ['node', 'deno', 'bun', 'ts-node'], ...C_STYLE },
+  { id: 'c', extensions: ['.c', '.h', '.cpp', '.cc', '.cxx', '.hpp', '.cs'], ...C_STYLE },
+  { id: 'jvm', extensions: ['.java', '.kt', '.kts', '.scala', '.groovy'], ...C_STYLE },
+  { id: 'go', extensions: ['.go'], ...C_STYLE },
+  { id: 'rust', extensions: ['.rs'], ...C_STYLE },
+  { id: 'swift', extensions: ['.swift'], ...C_STYLE },
+  { id: 'dart', extensions: ['.dart'], ...C_STYLE },
+  { id: 'css', extensions: ['.css'], line: [], block: [['/*', '*/']] },
+  { id: 'scss', extensions: ['.scss', '.less'], ...C_STYLE },
+  { id: 'python', extensions: ['.py', '.pyi'], shebangs: ['python', 'python2', 'python3'], line: ['#'], block: [] },
+  { id: 'ruby', extensions: ['.rb'], shebangs: ['ruby'], line: ['#'], block: [['=begin', '=end']] },
+  { id: 'perl', extensions: ['.pl', '.pm'], shebangs: ['perl'], line: ['#'], block: [] },
+  { id: 'shell', extensions: ['.sh', '.bash', '.zsh'], shebangs: ['sh', 'bash', 'zsh', 'dash', 'ksh'], line: ['#'], block: [] },
+  { id: 'yaml', extensions: ['.yml', '.yaml', '.toml'], line: ['#'], block: [] },
+  { id: 'terraform', extensions: ['.tf', '.hcl'], line: ['#', '//'], block: [['/*', '*/']] },
+  { id: 'r', extensions: ['.r'], shebangs: ['Rscript'], line: ['#'], block: [] },
+  { id: 'elixir', extensions: ['.ex', '.exs'], shebangs: ['elixir'], line: ['#'], block: [] },
+  { id: 'nim', extensions: ['.nim', '.nims', '.nimble'], line: ['#'], block: [['#[', ']#']] },
+  { id: 'julia', extensions: ['.jl'], shebangs: ['julia'], line: ['#'], block: [['#=', '=#']] },
+  { id: 'powershell', extensions: ['.ps1', '.psm1', '.psd1'], shebangs: ['pwsh', 'powershell'], line: ['#'], block: [['<#', '#>']] },
+  { id: 'fortran', extensions: ['.f90', '.f95', '.f03', '.f08'], line: ['!'], block: [] },
+  { id: 'sql', extensions: ['.sql'], line: ['--'], block: [['/*', '*/']] },
+  { id: 'lua', extensions: ['.lua'], shebangs: ['lua'], line: ['--'], block: [['--[[', ']]']] },
+  { id: 'haskell', extensions: ['.hs'], line: ['--'], block: [['{-', '-}']] },
+  { id: 'ada', extensions: ['.ada', '.adb', '.ads'], line: ['--'], block: [] },
+  { id: 'ocaml', extensions: ['.ml', '.mli'], line: [], block: [['(*', '*)']] },
+  { id: 'markup', extensions: ['.html', '.htm', '.xml', '.svg', '.md', '.markdown', '.vue', '.svelte'], line: [], block: [['<!--', '-->']] },
+  { id: 'latex', extensions: ['.tex'], line: ['%'], block: [] },
+  { id: 'erlang', extensions: ['.erl', '.hrl'], line: ['%'], block: [] },
+  { id: 'matlab', extensions: ['.m'], line: ['%'], block: [['%{', '%}']] },
+  { id: 'lisp', extensions: ['.lisp', '.cl', '.clj', '.cljs', '.el'], line: [';'], block: [] },
+  { id: 'asm', extensions: ['.asm'], line: [';'], block: [] },
+  { id: 'batch', extensions: ['.bat', '.cmd'], line: ['REM', '::'], block: [] },
+  { id: 'visual-basic', extensions: ['.vb', '.bas', '.vbs'], line: ["'", 'REM'], block: [] },
+];
+
+/**
+ * Every syntax the parser accepted before the registry, for files in no
+ * registered language. Order is the old order; `'` stays last.
+ */
+export const GENERIC_LANGUAGE: LanguageSpec = {
+  id: 'generic',
+  extensions: [],
+  line: ['//', '#', '--', '%', ';', 'REM', "'"],
+  block: [['/*', '*/'], ['<!--', '-->'], ['{-', '-}'], ['(*', '*)']],
+};
+
+export interface LanguageRegistry {
+  byExtension: ReadonlyMap<string, LanguageSpec>;
+  byInterpreter: ReadonlyMap<string, LanguageSpec>;
+  /** Extensions added by configuration, for the default scan set. */
+  configuredExtensions: string[];
+  /**
+   * Empty for the built-ins alone; otherwise a hash of the configured entries.
+   * Part of the parse-cache key, so editing `languages` re-parses.
+   */
+  key: string;
+}
+
+/** The built-ins plus `configured`, where a configured entry wins on id and on extension. */
+export function buildLanguageRegistry(configured: LanguageSpec[] = []): LanguageRegistry {
+  const ids = new Set(configured.map(l => l.id));
+  const byExtension = new Map<string, LanguageSpec>();
+  const byInterpreter = new Map<string, LanguageSpec>();
+  for (const spec of [...BUILTIN_LANGUAGES.filter(l => !ids.has(l.id)), ...configured]) {
+    for (const ext of spec.extensions) byExtension.set(ext.toLowerCase(), spec);
+    for (const name of spec.shebangs ?? []) byInterpreter.set(name, spec);
+  }
+  return {
+    byExtension,
+    byInterpreter,
+    configuredExtensions: [...new Set(configured.flatMap(l => l.extensions.map(e => e.toLowerCase())))],
+    key: configured.length === 0
+      ? ''
+      : createHash('sha256').update(JSON.stringify(configured)).digest('hex').slice(0, 12),
+  };
+}
+
+export const DEFAULT_LANGUAGE_REGISTRY = buildLanguageRegistry();
+
+/** The registry for a project: the built-ins and whatever its config.json adds. */
+export function loadLanguageRegistry(root: string): LanguageRegistry {
+  return registryFor(readConfiguredLanguages(root));
+}
+
+/** Same, from config.json text read elsewhere — a git revision, say. Absent or unreadable is the built-ins. */
+export function languageRegistryFromConfig(configText: string | undefined): LanguageRegistry {
+  return registryFor(configuredLanguagesIn(configText));
+}
+
+function registryFor(configured: LanguageSpec[]): LanguageRegistry {
+  return configured.length === 0 ? DEFAULT_LANGUAGE_REGISTRY : buildLanguageRegistry(configured);
+}
+
+/**
+ * The interpreter a `#!` line names: `#!/usr/bin/env -S python3 -u` → `python3`.
+ * A trailing version is dropped when the bare name is what is registered.
+ */
+function interpreterOf(firstLine: string, registry: LanguageRegistry): string | null {
+  const m = /^#!\s*(\S+)(.*)$/.exec(firstLine.trim());
+  if (!m) return null;
+  let name = basename(m[1]);
+  if (name === 'env') {
+    name = m[2].trim().split(/\s+/).find(arg => arg !== '' && !arg.startsWith('-')) ?? '';
+  }
+  if (registry.byInterpreter.has(name)) return name;
+  const unversioned = name.replace(/[\d.]+$/, '');
+  return registry.byInterpreter.has(unversioned) ? unversioned : null;
+}
+
+/**
+ * The language of `filePath`, by extension and then by shebang, or
+ * `GENERIC_LANGUAGE` when neither is registered.
+ */
+export function languageFor(
+  filePath: string,
+  content?: string,
+  registry: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY,
+): LanguageSpec {
+  const byExt = registry.byExtension.get(extname(filePath).toLowerCase());
+  if (byExt) return byExt;
+  if (content?.startsWith('#!')) {
+    const name = interpreterOf(content.split('\n', 1)[0], registry);
+    if (name) return registry.byInterpreter.get(name)!;
+  }
+  return GENERIC_LANGUAGE;
+}
+
+/** The registered language for an extension (`.py`), or `GENERIC_LANGUAGE`. */
+export function languageForExt(ext: string, registry: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY): LanguageSpec {
+  return registry.byExtension.get(ext.toLowerCase()) ?? GENERIC_LANGUAGE;
+}
+
+/**
+ * Languages a project added in `.guardlink/config.json`, under `languages`.
+ *
+ * Same shape as the readers in annotation-mode.ts: absent or unreadable is an
+ * empty list. An entry is skipped unless it names at least one extension or
+ * interpreter and at least one delimiter — anything less would register a
+ * language whose comments cannot be read.
+ */
+export function readConfiguredLanguages(root: string): LanguageSpec[] {
+  let text: string;
+  try {
+    text = readFileSync(join(root, '.guardlink', 'config.json'), 'utf-8');
+  } catch {
+    return [];
+  }
+  return configuredLanguagesIn(text);
+}
+
+function configuredLanguagesIn(configText: string | undefined): LanguageSpec[] {
+  let map: unknown;
+  try {
+    map = JSON.parse(configText ?? '').languages;
+  } catch {
+    return [];
+  }
+  if (!map || typeof map !== 'object' || Array.isArray(map)) return [];
+  return Object.entries(map)
+    .map(([id, raw]) => toLanguageSpec(id, raw))
+    .filter((spec): spec is LanguageSpec => spec !== null);
+}
+
+function toLanguageSpec(id: string, raw: unknown): LanguageSpec | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const r = raw as Record<string, unknown>;
+  const strings = (v: unknown): string[] =>
+    Array.isArray(v) ? v.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim()) : [];
+  const extensions = strings(r.extensions).map(e => (e.startsWith('.') ? e : `.${e}`).toLowerCase());
+  const shebangs = strings(r.shebangs);
+  const line = strings(r.line);
+  const block = Array.isArray(r.block)
+    ? r.block.filter((p): p is [string, string] => Array.isArray(p) && p.length === 2
+        && p.every(s => typeof s === 'string' && s.trim() !== ''))
+        .map(([open, close]) => [open.trim(), close.trim()] as [string, string])
+    : [];
+  if (extensions.length + shebangs.length === 0 || line.length + block.length === 0) return null;
+  return { id, extensions, ...(shebangs.length > 0 ? { shebangs } : {}), line, block };
+}
@@ -31,8 +31,10 @@
  */
 
 import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync, readdirSync, rmdirSync, statSync } from 'node:fs';
-import { dirname, extname, join } from 'node:path';
-import { stripCommentPrefix, commentStyleForExt } from './comment-strip.js';
+import { dirname, join } from 'node:path';
+import { createCommentReader } from './comment-strip.js';
+import { languageFor, loadLanguageRegistry, type LanguageSpec } from './languages.js';
+import { isEmbeddingContainer } from './embedded.js';
 import { resolveGalPath, galPathFor, sourceFileForGal, ANNOTATIONS_DIR } from './gal-path.js';
 import type { ThreatModel } from '../types/index.js';
 
@@ -98,18 +100,31 @@ function isDefinitionsFile(file: string): boolean {
  */
 const isShield = (inner: string): boolean => /^@shield\b/i.test(inner.trim());
 
-/** Contiguous runs of annotation lines in a source file. */
-function inlineBlocks(text: string): { blocks: Block[]; annotatedLines: Set<number>; shields: number } {
+/**
+ * Contiguous runs of annotation lines in a source file.
+ *
+ * `residue` maps an annotated line to the block-comment delimiter it also
+ * carries — `/* @exposes …` opens a comment — which stays in the source when
+ * the annotation leaves, or the rest of the comment would become code.
+ */
+function inlineBlocks(text: string, language: LanguageSpec): {
+  blocks: Block[]; annotatedLines: Set<number>; residue: Map<number, string>; shields: number;
+} {
   const lines = text.split('\n');
   const blocks: Block[] = [];
   const annotatedLines = new Set<number>();
+  const residue = new Map<number, string>();
   let current: Block | null = null;
   let shields = 0;
   let shielded = false;
+  const reader = createCommentReader(language);
 
   for (const [i, line] of lines.entries()) {
-    if (isAnnotation(stripCommentPrefix(line))) {
-      const inner = stripCommentPrefix(line)!.trim();
+    const before = reader.openBlock;
+    const stripped = reader.read(line);
+    const after = reader.openBlock;
+    if (isAnnotation(stripped)) {
+      const inner = stripped!.trim();
       if (isShield(inner)) {
         // Left in place, and it breaks the run: annotations either side of a
         // shield marker are not contiguous once the marker stays behind.
@@ -126,6 +141,8 @@ function inlineBlocks(text: string): { blocks: Block[]; annotatedLines: Set<numb
       // annotations, every one an example from a prompt template.
       if (shielded) { current = null; continue; }
       annotatedLines.add(i + 1);
+      const delimiter = !before && after ? after[0] : before && !after ? before[1] : null;
+      if (delimiter) residue.set(i + 1, `${/^\s*/.exec(line)![0]}${delimiter}`);
       if (current && current.line + current.annotations.length === i + 1) {
         current.annotations.push(inner);
       } else {
@@ -137,7 +154,7 @@ function inlineBlocks(text: string): { blocks: Block[]; annotatedLines: Set<numb
     }
   }
 
-  return { blocks, annotatedLines, shields };
+  return { blocks, annotatedLines, residue, shields };
 }
 
 /**
@@ -191,28 +208,45 @@ export function readGalBlocks(text: string): GalBlock[] {
  * in the `.gal` — puts presentation data in the threat model, and would make
  * two identical annotations differ because one lived in a Javadoc block.
  */
-function prefixFor(lines: string[], index: number, ext: string): string {
-  // Inside a block comment? Scan back for an unterminated opener.
-  for (let i = index - 1; i >= 0 && i > index - 200; i--) {
-    const t = lines[i].trim();
-    if (t.endsWith('*/') || t.endsWith('-}') || t.endsWith('*)')) break;
-    if (t.startsWith('/*') || t.startsWith('{-') || t.startsWith('(*')) {
-      // Copy a sibling continuation line's exact indentation where there is one,
-      // so restored lines align with the block they rejoin.
-      for (let j = i + 1; j < lines.length && j < index + 2; j++) {
-        const m = /^(\s*\*\s?)/.exec(lines[j]);
-        if (m && !lines[j].trim().startsWith('*/')) return m[1].endsWith(' ') ? m[1] : m[1] + ' ';
-      }
-      const indent = /^\s*/.exec(lines[i])![0];
-      return `${indent} * `;
+function commentFor(lines: string[], index: number, language: LanguageSpec): { prefix: string; suffix: string } {
+  // Inside a block comment? Read up to `index` the way the parser would.
+  const reader = createCommentReader(language);
+  let opener = -1;
+  for (let i = 0; i < index; i++) {
+    const wasOpen = reader.openBlock !== null;
+    reader.read(lines[i]);
+    if (!wasOpen && reader.openBlock) opener = i;
+  }
+  const block = reader.openBlock;
+  if (block) {
+    const indent = /^\s*/.exec(lines[opener])![0];
+    // Bodies of `<# #>` and `#= =#` carry no decoration; Javadoc-style ones do.
+    if (!block[0].endsWith('*')) return { prefix: `${indent}  `, suffix: '' };
+    // Copy a sibling continuation line's exact indentation where there is one,
+    // so restored lines align with the block they rejoin.
+    for (let j = opener + 1; j < lines.length && j < index + 2; j++) {
+      const m = /^(\s*\*\s?)/.exec(lines[j]);
+      if (m && !lines[j].trim().startsWith(block[1])) return { prefix: m[1].endsWith(' ') ? m[1] : m[1] + ' ', suffix: '' };
     }
+    return { prefix: `${indent} * `, suffix: '' };
   }
   const indent = /^\s*/.exec(lines[index] ?? '')![0];
-  return `${indent}${commentStyleForExt(ext)} `;
+  if (language.line.length > 0) return { prefix: `${indent}${language.line[0]} `, suffix: '' };
+  const [open, close] = language.block[0] ?? ['//', ''];
+  return { prefix: `${indent}${open} `, suffix: close ? ` ${close}` : '' };
 }
 
 // ─── Driver ──────────────────────────────────────────────────────────
 
+/**
+ * Notebooks, Markdown and Vue/Svelte files are left alone in both directions.
+ * Their comment syntax changes from region to region, and a notebook is JSON:
+ * removing or inserting a line there breaks the file rather than moving an
+ * annotation.
+ */
+const EMBEDDED_SKIP_REASON =
+  'code embedded in a notebook, Markdown or component file — migrate rewrites plain source only; move these by hand';
+
 /**
  * Move a project's annotations into the requested mode.
  *
@@ -221,6 +255,7 @@ function prefixFor(lines: string[], index: number, ext: string): string {
  */
 export function migrateAnnotationMode(options: MigrateOptions): MigrateResult {
   const { root, to, model, dryRun = false } = options;
+  const languages = loadLanguageRegistry(root);
   const result: MigrateResult = {
     to, sourceFiles: [], galFiles: [], annotationsMoved: 0, alreadyThere: [], skipped: [],
   };
@@ -243,8 +278,12 @@ export function migrateAnnotationMode(options: MigrateOptions): MigrateResult {
         result.skipped.push({ file, reason: 'file no longer exists' });
         continue;
       }
+      if (isEmbeddingContainer(file)) {
+        result.skipped.push({ file, reason: EMBEDDED_SKIP_REASON });
+        continue;
+      }
       const text = readFileSync(abs, 'utf-8');
-      const { blocks, annotatedLines, shields } = inlineBlocks(text);
+      const { blocks, annotatedLines, residue, shields } = inlineBlocks(text, languageFor(file, text, languages));
       if (blocks.length === 0) {
         result.skipped.push({
           file,
@@ -265,7 +304,9 @@ export function migrateAnnotationMode(options: MigrateOptions): MigrateResult {
         continue;
       }
 
-      const stripped = text.split('\n').filter((_, i) => !annotatedLines.has(i + 1)).join('\n');
+      const stripped = text.split('\n')
+        .flatMap((line, i) => !annotatedLines.has(i + 1) ? [line] : residue.has(i + 1) ? [residue.get(i + 1)!] : [])
+        .join('\n');
 
       if (!dryRun) {
         mkdirSync(dirname(galAbs), { recursive: true });
@@ -321,17 +362,23 @@ export function migrateAnnotationMode(options: MigrateOptions): MigrateResult {
         failed = true;
         continue;
       }
+      if (isEmbeddingContainer(srcFile)) {
+        result.skipped.push({ file: gal, reason: `${srcFile}: ${EMBEDDED_SKIP_REASON}` });
+        failed = true;
+        continue;
+      }
 
-      const ext = extname(srcFile);
-      const lines = readFileSync(abs, 'utf-8').split('\n');
+      const content = readFileSync(abs, 'utf-8');
+      const language = languageFor(srcFile, content, languages);
+      const lines = content.split('\n');
 
       // Ascending, so each insertion shifts only the anchors after it — and the
       // recorded line is where the annotation sat BEFORE it was extracted, so
       // inserting at that index restores the original position exactly.
       for (const b of [...srcBlocks].sort((x, y) => x.line - y.line)) {
         const index = Math.min(Math.max(b.line - 1, 0), lines.length);
-        const prefix = prefixFor(lines, index, ext);
-        lines.splice(index, 0, ...b.annotations.map(a => `${prefix}${a}`));
+        const { prefix, suffix } = commentFor(lines, index, language);
+        lines.splice(index, 0, ...b.annotations.map(a => `${prefix}${a}${suffix}`));
         result.annotationsMoved += b.annotations.length;
       }
 
@@ -349,7 +396,11 @@ export function migrateAnnotationMode(options: MigrateOptions): MigrateResult {
   return result;
 }
 
-/** Every annotation location in the model, across all relation types. */
+/**
+ * Every authored annotation location in the model, across all relation types.
+ * Template expansions are left out: what was written is their `@apply`, and
+ * that moves as a line like any other.
+ */
 function allLocations(model: ThreatModel) {
   return [
     ...model.assets, ...model.threats, ...model.controls,
@@ -359,7 +410,8 @@ function allLocations(model: ThreatModel) {
     ...model.ownership, ...model.data_handling, ...model.assumptions,
     ...(model.actors || []), ...(model.entitlements || []),
     ...model.shields, ...model.features, ...model.comments,
-  ].map(a => a.location);
+    ...(model.templates || []), ...(model.applications || []),
+  ].map(a => a.location).filter(l => !l.template);
 }
 
 /** Leave no empty scaffolding behind after a migration to inline. */
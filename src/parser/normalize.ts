@@ -41,3 +41,13 @@ export function unescapeDescription(raw: string): string {
     .replace(/\\"/g, '"')
     .replace(/\\\\/g, '\\');
 }
+
+/**
+ * True for a `YYYY-MM-DD` string naming a real calendar day. The shape check
+ * alone lets `2026-02-30` through, and `Date` would quietly roll it into March.
+ */
+export function isCalendarDate(raw: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(raw)) return false;
+  const date = new Date(`${raw}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === raw;
+}
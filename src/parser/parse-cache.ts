@@ -0,0 +1,236 @@
+/**
+ * GuardLink — Incremental parse cache.
+ *
+ * `parseProject` used to re-read and re-parse every file on every call, so
+ * `status`, `validate`, `ci` and each MCP tool call paid for the whole tree even
+ * when one file had changed. This stores each file's parse result — its
+ * annotations and diagnostics, already normalised to root-relative paths — keyed
+ * by the file's content hash, and hands it back while the content is unchanged.
+ *
+ * Two levels of check, cheapest first, borrowed from `fingerprintProject`:
+ *
+ *   1. **size + mtime.** Both unchanged → the entry is used without reading the
+ *      file. Same conservative bargain as the fingerprint: a touch with no edit
+ *      falls through to level 2, it never skips a real edit.
+ *   2. **sha256 of the content.** The file is read and hashed; an equal hash
+ *      means a touch, a checkout or a rebase that restored the same bytes, and
+ *      the entry is reused. Only a different hash costs a parse.
+ *
+ * **Invalidation is whole-file, never per-entry.** The cache header carries a key
+ * built from `PARSE_CACHE_VERSION`, `ANNOTATION_HASH_VERSION` and the GuardLink
+ * version. The GAL grammar has no version of its own — it ships with the
+ * package — so the package version stands in for it: an upgrade that changes
+ * what `parse-line.ts` accepts discards every entry rather than serving results
+ * the new parser would not have produced. A cache that could be wrong after an
+ * upgrade is one nobody would trust, and the rebuild is one cold parse.
+ *
+ * **It lives in `.guardlink/cache/`, which ignores itself.** The directory gets a
+ * `.gitignore` of `*`, so a read command that refreshes the cache still leaves
+ * `git status` clean (D16) — including in repos initialised before the cache
+ * existed, whose root `.gitignore` knows nothing about it. Nothing is written
+ * in a project with no `.guardlink/`: creating one as a side effect of reading
+ * would be the same class of surprise.
+ *
+ * @exposes #parser to #insecure-deser [low] cwe:CWE-502 -- "Cache file is JSON read back from disk and trusted as parse output"
+ * @mitigates #parser against #insecure-deser using #config-validation -- "Header key and entry shape checked on load; anything unexpected discards the whole cache and re-parses"
+ * @flows #parser -> FileSystem via writeFileSync -- "Parse results persisted to .guardlink/cache/"
+ * @comment -- "Same trust as the source it describes: anyone who can write .guardlink/cache/ can already write the annotations themselves"
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { Annotation, ParseDiagnostic } from '../types/index.js';
+import { ANNOTATION_HASH_VERSION } from './annotation-hash.js';
+import { DEFAULT_LANGUAGE_REGISTRY, type LanguageRegistry } from './languages.js';
+import type { SecuritySymbol } from './symbol-coverage.js';
+import { symbolGrammarLoaded } from './symbols.js';
+import { getPackageVersion } from '../version.js';
+
+/**
+ * Bump when the shape of a cached entry changes, or when anything between
+ * `parseString` and the cached fragment starts producing different output.
+ *
+ * v2: fragments carry `location.enclosing_symbol` from the symbol index.
+ * v3: fragments carry `security_symbols` for per-symbol coverage.
+ * v4: fragments carry `@template` definitions with their bodies, and `@apply`.
+ * v5: `@accepts` carries `until:` and `by:`; a v4 entry holds those lines as malformed.
+ * v6: `@threat`, `@exposes` and `@confirmed` carry a scored `cvss:` vector.
+ * v7: entries record whether the file's grammar was loaded when it was parsed.
+ */
+export const PARSE_CACHE_VERSION = 7;
+
+/** Directory the cache lives in, relative to the project root. */
+export const PARSE_CACHE_DIR = '.guardlink/cache';
+
+/** The cache file itself, relative to the project root. */
+export const PARSE_CACHE_FILE = `${PARSE_CACHE_DIR}/parse-cache.json`;
+
+/** One file's contribution to the model, with paths already root-relative. */
+export interface ParseFragment {
+  annotations: Annotation[];
+  diagnostics: ParseDiagnostic[];
+  /** Security-relevant symbols in a source file. Absent when its language has no grammar. */
+  security_symbols?: SecuritySymbol[];
+}
+
+interface CacheEntry extends ParseFragment {
+  size: number;
+  mtime: number;
+  sha256: string;
+  /**
+   * Whether the file's tree-sitter grammar was loaded when it was parsed. The
+   * grammars are optionalDependencies: a run without them stores fragments with
+   * no `enclosing_symbol` and no `security_symbols`, which are not what a run
+   * with them would produce. An entry whose answer differs from this run's is a
+   * miss, so installing the grammars takes effect without touching the files.
+   */
+  grammar: boolean;
+}
+
+interface CacheDocument {
+  key: string;
+  entries: Record<string, CacheEntry>;
+}
+
+/** Hit and miss counts for one `parseProject` call. */
+export interface ParseCacheStats {
+  /** Reused without reading the file (size and mtime unchanged). */
+  unchanged: number;
+  /** Read and hashed, and the content matched. */
+  rehashed: number;
+  /** Parsed, because there was no entry or the content differed. */
+  parsed: number;
+}
+
+/**
+ * The key every entry is valid under. Any component moving discards the cache.
+ * Languages configured in `.guardlink/config.json` are a component: they
+ * change which lines are comments.
+ */
+export function parseCacheKey(languages: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY): string {
+  const base = `v${PARSE_CACHE_VERSION}:hash-v${ANNOTATION_HASH_VERSION}:guardlink-${getPackageVersion()}`;
+  return languages.key ? `${base}:languages-${languages.key}` : base;
+}
+
+/**
+ * Open the cache for `root`.
+ *
+ * `resolve` returns a file's fragment, from the cache when its content is
+ * unchanged and from `parse` otherwise; `save` writes back exactly the entries
+ * resolved during this run, so files that left the scan set are pruned for free.
+ */
+export function openParseCache(root: string, languages: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY) {
+  const path = join(root, PARSE_CACHE_FILE);
+  const key = parseCacheKey(languages);
+  const previous = readCacheDocument(path, key);
+  const next: Record<string, CacheEntry> = {};
+  const stats: ParseCacheStats = { unchanged: 0, rehashed: 0, parsed: 0 };
+  let dirty = false;
+
+  async function resolve(
+    absPath: string,
+    relPath: string,
+    parse: (content: string) => ParseFragment,
+  ): Promise<ParseFragment> {
+    const st = await stat(absPath);
+    const mtime = Math.trunc(st.mtimeMs);
+    const grammar = symbolGrammarLoaded(absPath);
+    const found = previous?.entries[relPath];
+    const cached = found && found.grammar === grammar ? found : undefined;
+
+    if (cached && cached.size === st.size && cached.mtime === mtime) {
+      stats.unchanged++;
+      next[relPath] = cached;
+      return fragmentOf(cached);
+    }
+
+    const content = await readFile(absPath, 'utf-8');
+    const sha256 = createHash('sha256').update(content).digest('hex');
+    dirty = true;
+
+    if (cached && cached.sha256 === sha256) {
+      stats.rehashed++;
+      next[relPath] = { ...cached, size: st.size, mtime };
+      return fragmentOf(cached);
+    }
+
+    stats.parsed++;
+    const fragment = parse(content);
+    // Serialised now, not at save time: the caller goes on to assemble a model
+    // out of these objects, and nothing it does afterwards should reach the disk.
+    next[relPath] = JSON.parse(JSON.stringify({ size: st.size, mtime, sha256, grammar, ...fragment }));
+    return fragment;
+  }
+
+  /**
+   * Persist the entries resolved this run. Best-effort: a read-only checkout or
+   * a full disk costs the next run a cold parse, never this run its answer.
+   */
+  function save(): void {
+    const pruned = previous !== null
+      && Object.keys(previous.entries).some(k => !(k in next));
+    if (!dirty && !pruned && previous !== null) return;
+    try {
+      if (!ensureCacheDir(root)) return;
+      const doc: CacheDocument = { key, entries: next };
+      // Write-then-rename, so a concurrent reader (the MCP server and a CLI run
+      // in the same repo) sees the old cache or the new one, never half of one.
+      const tmp = `${path}.${process.pid}.tmp`;
+      writeFileSync(tmp, JSON.stringify(doc));
+      renameSync(tmp, path);
+    } catch {}
+  }
+
+  return { resolve, save, stats };
+}
+
+export type ParseCache = ReturnType<typeof openParseCache>;
+
+/**
+ * Create `.guardlink/cache/` with its `.gitignore` of `*`, and say whether it
+ * is there to write into. False in a project with no `.guardlink/`, which a
+ * cache must not create. Anything else derived and rebuildable is kept here
+ * too, so a read command leaves `git status` clean (D16).
+ */
+export function ensureCacheDir(root: string): boolean {
+  if (!existsSync(join(root, '.guardlink'))) return false;
+  const dir = join(root, PARSE_CACHE_DIR);
+  mkdirSync(dir, { recursive: true });
+  const ignore = join(dir, '.gitignore');
+  if (!existsSync(ignore)) writeFileSync(ignore, '*\n');
+  return true;
+}
+
+/**
+ * Fresh objects on every hit, so two models built from one cache in the same
+ * process never share an annotation a caller might mutate.
+ */
+function fragmentOf(entry: CacheEntry): ParseFragment {
+  return JSON.parse(JSON.stringify({
+    annotations: entry.annotations,
+    diagnostics: entry.diagnostics,
+    security_symbols: entry.security_symbols,
+  }));
+}
+
+/** The stored document, or null if absent, unreadable, or written under another key. */
+function readCacheDocument(path: string, key: string): CacheDocument | null {
+  let doc: any;
+  try {
+    doc = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch {
+    return null;
+  }
+  if (!doc || doc.key !== key || !doc.entries || typeof doc.entries !== 'object') return null;
+  for (const entry of Object.values<any>(doc.entries)) {
+    if (!entry || typeof entry.sha256 !== 'string' || typeof entry.size !== 'number'
+      || typeof entry.mtime !== 'number' || typeof entry.grammar !== 'boolean' || !Array.isArray(entry.annotations)
+      || !Array.isArray(entry.diagnostics)
+      || (entry.security_symbols !== undefined && !Array.isArray(entry.security_symbols))) {
+      return null;
+    }
+  }
+  return doc as CacheDocument;
+}
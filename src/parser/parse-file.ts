@@ -11,47 +11,125 @@
  */
 
 import { readFile } from 'node:fs/promises';
-import type { Annotation, ParseDiagnostic, ParseResult, SourceLocation } from '../types/index.js';
-import { isStandaloneAnnotationFile, stripCommentPrefix } from './comment-strip.js';
+import type { Annotation, ParseDiagnostic, ParseResult, SourceLocation, TemplateAnnotation } from '../types/index.js';
+import { createCommentReader, isStandaloneAnnotationFile } from './comment-strip.js';
+import { embeddedLines, EmbeddedParseError, type EmbeddedLine } from './embedded.js';
+import { DEFAULT_LANGUAGE_REGISTRY, languageFor, languageForExt, type LanguageRegistry } from './languages.js';
 import { parseLine } from './parse-line.js';
 import { unescapeDescription } from './normalize.js';
 
 /**
  * Parse a single file and return all annotations found.
  */
-export async function parseFile(filePath: string): Promise<ParseResult> {
+export async function parseFile(filePath: string, languages?: LanguageRegistry): Promise<ParseResult> {
   const content = await readFile(filePath, 'utf-8');
-  return parseString(content, filePath);
+  return parseString(content, filePath, languages);
 }
 
 /**
  * Parse a string of source code and return all annotations found.
  * Useful for testing without file I/O.
+ *
+ * Notebooks, Markdown and Vue/Svelte components are read through embedded.ts:
+ * only their code regions and markup comments, with each line reported at its
+ * line in the containing file.
+ *
+ * Comment syntax comes from `languages`, by the file's extension or shebang —
+ * or, inside a container, by the region's own language.
+ *
+ * An `@template` is returned with its body attached and `@apply` lines as they
+ * are; expansion needs every file's templates, so parseProject does it.
  */
-export function parseString(content: string, filePath: string = '<input>'): ParseResult {
-  const lines = content.split('\n');
+export function parseString(
+  content: string,
+  filePath: string = '<input>',
+  languages: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY,
+): ParseResult {
   const annotations: Annotation[] = [];
   const diagnostics: ParseDiagnostic[] = [];
   let lastAnnotation: Annotation | null = null;
   let inShield = false;
+  let openTemplate: TemplateAnnotation | null = null;
   const allowRawAnnotationLines = isStandaloneAnnotationFile(filePath);
   let currentSource: SourceLocation | null = null;
 
+  let stream: EmbeddedLine[] | null;
+  try {
+    stream = embeddedLines(content, filePath);
+  } catch (err) {
+    if (!(err instanceof EmbeddedParseError)) throw err;
+    diagnostics.push({
+      level: 'warning',
+      code: 'unreadable-container',
+      message: `Could not read annotations from this file: ${err.message}`,
+      file: filePath,
+      line: err.line,
+    });
+    return { annotations, diagnostics, files_parsed: 1 };
+  }
+  let region = stream?.[0]?.region ?? 0;
+  const readerFor = (line: EmbeddedLine | undefined) => createCommentReader(line
+    ? languageForExt(line.ext, languages)
+    : languageFor(filePath, content, languages));
+  let reader = readerFor(stream?.[0]);
+  const unterminated = (template: TemplateAnnotation) => diagnostics.push({
+    level: 'error',
+    code: 'malformed-annotation',
+    message: `@template ${template.name} has no @template:end before its comment ends — it is defined with the body read so far`,
+    file: filePath,
+    line: template.location.origin_line ?? template.location.line,
+    raw: template.raw,
+  });
+
+  const lines = stream ?? content.split('\n');
   for (let i = 0; i < lines.length; i++) {
-    const lineNum = i + 1;  // 1-indexed
-    const rawLine = lines[i];
+    const embedded = stream?.[i];
+    const lineNum = embedded ? embedded.line : i + 1;  // 1-indexed, in this file
+    const rawLine = embedded ? embedded.text : (lines[i] as string);
+    if (embedded && embedded.region !== region) {
+      // A continuation never reaches across a fence, a cell or a script tag.
+      region = embedded.region;
+      reader = readerFor(embedded);
+      lastAnnotation = null;
+      if (openTemplate) unterminated(openTemplate);
+      openTemplate = null;
+    }
 
     // Strip comment prefix unless this is a standalone .gal file, where
     // annotations are stored as raw lines instead of host-language comments.
-    const inner = allowRawAnnotationLines ? rawLine : stripCommentPrefix(rawLine);
+    const inner = allowRawAnnotationLines ? rawLine : reader.read(rawLine);
     if (inner === null) {
       lastAnnotation = null;
+      if (openTemplate) unterminated(openTemplate);
+      openTemplate = null;
       continue;
     }
     const text = inner.trimStart();
+    const trimmed = text.trim();
+
+    // A template body is text until an @apply expands it: its lines hold
+    // `$params`, so parsing them here would report every one as malformed.
+    if (trimmed.startsWith('@template:end')) {
+      if (!openTemplate && !inShield) {
+        diagnostics.push({
+          level: 'error',
+          code: 'malformed-annotation',
+          message: '@template:end with no @template open above it',
+          file: filePath,
+          line: lineNum,
+          raw: trimmed,
+        });
+      }
+      openTemplate = null;
+      lastAnnotation = null;
+      continue;
+    }
+    if (openTemplate) {
+      if (trimmed) openTemplate.body.push({ text: trimmed, line: lineNum });
+      continue;
+    }
 
     // Check for shield block boundaries — always parse these even inside shields
-    const trimmed = text.trim();
     if (trimmed.startsWith('@shield:end')) {
       const location = { file: filePath, line: lineNum };
       const result = parseLine(text, location);
@@ -112,6 +190,10 @@ export function parseString(content: string, filePath: string = '<input>'): Pars
       annotations.push(result.annotation);
       if (result.extraAnnotations) annotations.push(...result.extraAnnotations);
       lastAnnotation = annotations[annotations.length - 1];
+      if (result.annotation.verb === 'template') {
+        openTemplate = result.annotation;
+        lastAnnotation = null;
+      }
     } else {
       if (result.diagnostic) {
         diagnostics.push(result.diagnostic);
@@ -122,6 +204,7 @@ export function parseString(content: string, filePath: string = '<input>'): Pars
     }
   }
 
+  if (openTemplate) unterminated(openTemplate);
   return { annotations, diagnostics: collapseUnknownVerbs(diagnostics), files_parsed: 1 };
 }
 
@@ -10,10 +10,11 @@
  */
 
 import type {
-  Annotation, DataClassification,
-  ParseDiagnostic, SourceLocation,
+  Annotation, ApplyAnnotation, CvssScore, DataClassification,
+  ParseDiagnostic, SourceLocation, TemplateLine,
 } from '../types/index.js';
-import { normalizeName, resolveSeverity, unescapeDescription } from './normalize.js';
+import { normalizeName, resolveSeverity, unescapeDescription, isCalendarDate } from './normalize.js';
+import { parseCvss, severityFromCvss } from './cvss.js';
 
 // ─── Shared regex fragments ──────────────────────────────────────────
 
@@ -85,9 +86,21 @@ const DESC      = String.raw`--\s*"((?:[^"\\]|\\.)*)"`;
 const SOURCE_FILE = String.raw`\S+`;
 const SOURCE_LINE = String.raw`[1-9]\d*`;
 const SOURCE_SYMBOL = String.raw`\S+`;
-
-// Capture external refs (0 or more, space-separated)
-const EXT_REFS_OPT = String.raw`((?:\s+[a-zA-Z]+:[A-Za-z0-9_:.\-]+)*)`;
+// `@accepts` review attributes, in this order. The date shape is checked here
+// and the calendar in the parse branch, so `until:2026-02-30` names its fault.
+const ACCEPT_UNTIL = String.raw`until:(\d{4}-\d{2}-\d{2})`;
+const ACCEPT_BY = String.raw`by:([A-Za-z0-9_.@\-]+)`;
+
+// Templates. A parameter is a bare identifier so `$asset-api` reads as `$asset`
+// followed by text; an argument is one token, or quoted when it holds spaces.
+const TEMPLATE_NAME = String.raw`[A-Za-z][\w.-]*`;
+const TEMPLATE_PARAM = String.raw`[A-Za-z_]\w*`;
+const TEMPLATE_ARG = String.raw`(?:"(?:[^"\\]|\\.)*"|[^\s,()"]+)`;
+
+// Capture external refs (0 or more, space-separated). A `cvss:` vector is the
+// one ref whose value holds `/`; parseCvss decides whether it is a vector.
+const CVSS_REF = String.raw`cvss:CVSS:[0-9.]+(?:/[A-Za-z]+:[A-Za-z]+)+`;
+const EXT_REFS_OPT = String.raw`((?:\s+(?:${CVSS_REF}|[a-zA-Z]+:[A-Za-z0-9_:.\-]+))*)`;
 
 // ─── Verb-specific patterns ──────────────────────────────────────────
 
@@ -103,8 +116,8 @@ const PATTERNS: Record<string, RegExp> = {
   mitigates_v1: new RegExp(String.raw`^@mitigates\s+(${ASSET_REF})\s+against\s+(${THREAT_REF})(?:\s+with\s+(${THREAT_REF}))?(?:\s+${DESC})?$`),
   exposes: new RegExp(String.raw`^@exposes\s+(${ASSET_REF})\s+to\s+(${THREAT_REF})(?:\s+${SEVERITY})?${EXT_REFS_OPT}(?:\s+${DESC})?$`),
   confirmed: new RegExp(String.raw`^@confirmed\s+(${THREAT_REF})\s+on\s+(${ASSET_REF})(?:\s+${SEVERITY})?${EXT_REFS_OPT}(?:\s+${DESC})?$`),
-  accepts: new RegExp(String.raw`^@accepts\s+(${THREAT_REF})\s+on\s+(${ASSET_REF})(?:\s+${DESC})?$`),
-  accepts_v1: new RegExp(String.raw`^@accepts\s+(${THREAT_REF})\s+to\s+(${ASSET_REF})(?:\s+${DESC})?$`),
+  accepts: new RegExp(String.raw`^@accepts\s+(${THREAT_REF})\s+on\s+(${ASSET_REF})(?:\s+${ACCEPT_UNTIL})?(?:\s+${ACCEPT_BY})?(?:\s+${DESC})?$`),
+  accepts_v1: new RegExp(String.raw`^@accepts\s+(${THREAT_REF})\s+to\s+(${ASSET_REF})(?:\s+${ACCEPT_UNTIL})?(?:\s+${ACCEPT_BY})?(?:\s+${DESC})?$`),
   // `against <threat>` is the second half of the join key (§9.3). Both clauses
   // stay optional so the loose form still parses — an imprecise entitlement is
   // harmless because it demotes nothing, whereas making it a parse error would
@@ -133,6 +146,12 @@ const PATTERNS: Record<string, RegExp> = {
   // Standalone .gal directive — sets logical source location for following annotations
   source: new RegExp(String.raw`^@source\s+file:(${SOURCE_FILE})\s+line:(${SOURCE_LINE})(?:\s+symbol:(${SOURCE_SYMBOL}))?$`),
 
+  // Templates — the body between `@template` and `@template:end` is collected
+  // by parseString, not here
+  template: new RegExp(String.raw`^@template\s+(${TEMPLATE_NAME})\s*\(\s*(${TEMPLATE_PARAM}(?:\s*,\s*${TEMPLATE_PARAM})*)?\s*\)(?:\s+${DESC})?$`),
+  template_head: new RegExp(String.raw`^@template\s+${TEMPLATE_NAME}\s*\(`),
+  apply: new RegExp(String.raw`^@apply\s+(${TEMPLATE_NAME})\s*\(\s*(${TEMPLATE_ARG}(?:\s*,\s*${TEMPLATE_ARG})*)?\s*\)(?:\s+${DESC})?$`),
+
   // Special
   shield: new RegExp(String.raw`^@shield(?!:)(?:\s+${DESC})?$`),
   shield_begin: new RegExp(String.raw`^@shield:begin(?:\s+${DESC})?$`),
@@ -146,6 +165,18 @@ function extractExternalRefs(raw: string | undefined): string[] {
   return raw.trim().split(/\s+/).filter(r => /^[a-zA-Z]+:[A-Za-z0-9_:.\-]+$/.test(r));
 }
 
+/**
+ * The `cvss:` vector among a line's refs, scored — or why it cannot be. At most
+ * one per line: two vectors on one finding would leave its score ambiguous.
+ */
+function extractCvss(raw: string | undefined): { cvss?: CvssScore; error?: string } {
+  const vectors = (raw ?? '').trim().split(/\s+/).filter(r => r.startsWith('cvss:')).map(r => r.slice('cvss:'.length));
+  if (vectors.length === 0) return {};
+  if (vectors.length > 1) return { error: 'more than one cvss: vector' };
+  const result = parseCvss(vectors[0]);
+  return result.ok ? { cvss: result.cvss } : { error: `cvss:${vectors[0]} — ${result.error}` };
+}
+
 // ─── Ref resolver: #id, "quoted", or Dotted.Path → canonical string ───
 
 /** Normalize a captured ASSET_REF or THREAT_REF for storage in the model.
@@ -234,9 +265,11 @@ export function parseLine(
   // ── @threat ──
   if ((m = trimmed.match(PATTERNS.threat))) {
     const name = m[1];
+    const { cvss, error } = extractCvss(m[4]);
+    if (error) return malformed('threat', error, location, trimmed);
     return ok({
       ...base, verb: 'threat', name, canonical_name: normalizeName(name),
-      id: m[2], severity: m[3] ? resolveSeverity(m[3]) : undefined,
+      id: m[2], severity: m[3] ? resolveSeverity(m[3]) : cvss && severityFromCvss(cvss.score), cvss,
       external_refs: extractExternalRefs(m[4]), description: desc(m[5]),
     });
   }
@@ -270,25 +303,35 @@ export function parseLine(
 
   // ── @exposes ──
   if ((m = trimmed.match(PATTERNS.exposes))) {
+    const { cvss, error } = extractCvss(m[4]);
+    if (error) return malformed('exposes', error, location, trimmed);
     return ok({
       ...base, verb: 'exposes', asset: resolveRef(m[1]), threat: resolveRef(m[2]),
-      severity: m[3] ? resolveSeverity(m[3]) : undefined,
+      severity: m[3] ? resolveSeverity(m[3]) : cvss && severityFromCvss(cvss.score), cvss,
       external_refs: extractExternalRefs(m[4]), description: desc(m[5]),
     });
   }
 
   // ── @confirmed ──
   if ((m = trimmed.match(PATTERNS.confirmed))) {
+    const { cvss, error } = extractCvss(m[4]);
+    if (error) return malformed('confirmed', error, location, trimmed);
     return ok({
       ...base, verb: 'confirmed', threat: resolveRef(m[1]), asset: resolveRef(m[2]),
-      severity: m[3] ? resolveSeverity(m[3]) : undefined,
+      severity: m[3] ? resolveSeverity(m[3]) : cvss && severityFromCvss(cvss.score), cvss,
       external_refs: extractExternalRefs(m[4]), description: desc(m[5]),
     });
   }
 
   // ── @accepts ──
   if ((m = trimmed.match(PATTERNS.accepts)) || (m = trimmed.match(PATTERNS.accepts_v1))) {
-    return ok({ ...base, verb: 'accepts', threat: resolveRef(m[1]), asset: resolveRef(m[2]), description: desc(m[3]) });
+    if (m[3] && !isCalendarDate(m[3])) {
+      return malformed('accepts', `until:${m[3]}, which is not a calendar date`, location, trimmed);
+    }
+    return ok({
+      ...base, verb: 'accepts', threat: resolveRef(m[1]), asset: resolveRef(m[2]),
+      until: m[3] || undefined, by: m[4] || undefined, description: desc(m[5]),
+    });
   }
 
   // ── @entitles ──
@@ -403,6 +446,20 @@ export function parseLine(
     return ok({ ...base, verb: 'comment', description: desc(m[1]) });
   }
 
+  // ── @template / @apply ──
+  if ((m = trimmed.match(PATTERNS.template))) {
+    const params = m[2] ? m[2].split(',').map(p => p.trim()) : [];
+    return ok({ ...base, verb: 'template', name: m[1], params, body: [], description: desc(m[3]) });
+  }
+  if (PATTERNS.template_head.test(trimmed)) {
+    // `@template T` is JSDoc and stays silent; `@template name(` is ours.
+    return malformed('template', 'a parameter list', location, trimmed);
+  }
+  if ((m = trimmed.match(PATTERNS.apply))) {
+    const args = m[2] ? [...m[2].matchAll(new RegExp(TEMPLATE_ARG, 'g'))].map(a => unquoteArg(a[0])) : [];
+    return ok({ ...base, verb: 'apply', template: m[1], args, description: desc(m[3]) });
+  }
+
   // ── @source ──
   if ((m = trimmed.match(PATTERNS.source))) {
     return {
@@ -441,20 +498,7 @@ export function parseLine(
     const rest = verbMatch[2];
     const evidence = structuralEvidence(verb, rest);
 
-    if (evidence) {
-      return {
-        annotation: null,
-        diagnostic: {
-          level: 'error',
-          code: 'malformed-annotation',
-          message: `Malformed @${verb} annotation: could not parse arguments (looks structural — found ${evidence})`,
-          file: location.file,
-          line: location.line,
-          raw: trimmed,
-        },
-        isContinuation: false,
-      };
-    }
+    if (evidence) return malformed(verb, evidence, location, trimmed);
 
     return {
       annotation: null,
@@ -506,18 +550,125 @@ export function parseLine(
   return { annotation: null, diagnostic: null, isContinuation: false, sourceDirective: null };
 }
 
+// ─── Templates ───────────────────────────────────────────────────────
+
+/**
+ * True for the first line of a GuardLink template definition.
+ *
+ * JSDoc owns `@template T`, so the verb alone proves nothing; the parameter
+ * list is what makes the line ours. clear.ts asks the same question.
+ */
+export function isTemplateDefinition(text: string): boolean {
+  return PATTERNS.template_head.test(text.trim());
+}
+
+/** What a template needs to expand: its own location is where the body lives. */
+export interface TemplateSource {
+  name: string;
+  params: string[];
+  body: TemplateLine[];
+  location: SourceLocation;
+}
+
+export interface TemplateExpansion {
+  annotations: Annotation[];
+  diagnostics: ParseDiagnostic[];
+}
+
+/**
+ * Expand one `@apply` into the annotations its template stands for.
+ *
+ * Each body line has its `$param` (or `${param}`) placeholders replaced and is
+ * then parsed exactly like a line in a comment, at the `@apply` site: `file`,
+ * `line` and the symbol are the application's, and `origin_file` /
+ * `origin_line` point back at the template line, with `template` naming it.
+ * A `$word` that is not a parameter is left alone — descriptions mention
+ * `$HOME` too.
+ *
+ * A wrong argument count expands to nothing; validate reports it
+ * (`findTemplateErrors`), because a half-filled template is a guess.
+ */
+export function expandTemplate(template: TemplateSource, apply: ApplyAnnotation): TemplateExpansion {
+  const annotations: Annotation[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  if (apply.args.length !== template.params.length) return { annotations, diagnostics };
+
+  const values = new Map(template.params.map((p, i) => [p, apply.args[i]]));
+  const substitute = (text: string) => text.replace(
+    new RegExp(String.raw`\$\{(${TEMPLATE_PARAM})\}|\$(${TEMPLATE_PARAM})`, 'g'),
+    (whole, braced: string | undefined, bare: string | undefined) => values.get((braced ?? bare)!) ?? whole,
+  );
+  const originFile = template.location.origin_file ?? template.location.file;
+
+  let last: Annotation | null = null;
+  for (const { text, line } of template.body) {
+    const expanded = substitute(text).trim();
+    const continuation = expanded.match(new RegExp(String.raw`^${DESC}`));
+    if (continuation) {
+      if (last) last.description = [last.description, unescapeDescription(continuation[1])].filter(Boolean).join(' ');
+      continue;
+    }
+    const location: SourceLocation = {
+      ...apply.location, origin_file: originFile, origin_line: line, template: template.name,
+    };
+    const result = parseLine(expanded, location);
+    const problem = result.diagnostic?.level === 'error' ? result.diagnostic.message
+      : result.annotation && ['template', 'apply'].includes(result.annotation.verb) ? `@${result.annotation.verb} cannot appear in a template body`
+      : null;
+    if (problem) {
+      diagnostics.push({
+        level: 'error',
+        code: 'malformed-annotation',
+        message: `@apply ${template.name}: template line ${originFile}:${line} expands to \`${expanded}\` — ${problem}`,
+        file: apply.location.file,
+        line: apply.location.line,
+        raw: apply.raw,
+      });
+      last = null;
+      continue;
+    }
+    if (!result.annotation) continue;
+    annotations.push(result.annotation, ...(result.extraAnnotations ?? []));
+    last = annotations[annotations.length - 1];
+  }
+  return { annotations, diagnostics };
+}
+
+/** An argument as written, less its quotes. Escapes stay, since it lands back in GAL text. */
+function unquoteArg(arg: string): string {
+  return arg.startsWith('"') ? arg.slice(1, -1) : arg;
+}
+
 // ─── Helpers ─────────────────────────────────────────────────────────
 
 function ok(annotation: Annotation): ParseLineResult {
   return { annotation, diagnostic: null, isContinuation: false, sourceDirective: null };
 }
 
+function malformed(verb: string, evidence: string, location: SourceLocation, raw: string): ParseLineResult {
+  return {
+    annotation: null,
+    diagnostic: {
+      level: 'error',
+      code: 'malformed-annotation',
+      message: `Malformed @${verb} annotation: could not parse arguments (looks structural — found ${evidence})`,
+      file: location.file,
+      line: location.line,
+      raw,
+    },
+    isContinuation: false,
+  };
+}
+
 // ─── D29: prose that starts with a verb vs a broken annotation ───────
 
 const KNOWN_VERBS: ReadonlySet<string> = new Set([
   'asset', 'threat', 'control', 'actor', 'mitigates', 'exposes', 'confirmed', 'accepts', 'entitles',
   'transfers', 'flows', 'boundary', 'validates', 'audit', 'owns',
   'handles', 'assumes', 'feature', 'source', 'comment', 'shield', 'shield:begin', 'shield:end',
+  // `template` is absent on purpose: it is a JSDoc tag first, and
+  // isTemplateDefinition tells the two apart
+  'apply', 'template:end',
   // v1 compat
   'review', 'connects',
 ]);
@@ -692,6 +843,7 @@ const VERB_KEYWORDS: Readonly<Record<string, readonly string[]>> = {
   // other verb errors — D29's split has to cover the whole verb table or it
   // silently weakens for whichever verbs were added last.
   entitles: ['to', 'on', 'against'],
+  apply: ['('],
 };
 
 /**
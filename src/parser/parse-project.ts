@@ -15,7 +15,9 @@
  */
 
 import fg from 'fast-glob';
-import { isAbsolute, relative } from 'node:path';
+import { existsSync, readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import { isAbsolute, join, relative } from 'node:path';
 import type {
   Annotation, ThreatModel, ParseDiagnostic,
   AssetAnnotation, ThreatAnnotation, ControlAnnotation, ActorAnnotation,
@@ -23,17 +25,24 @@ import type {
   EntitlesAnnotation, TransfersAnnotation, FlowsAnnotation, BoundaryAnnotation,
   ValidatesAnnotation, AuditAnnotation, OwnsAnnotation,
   HandlesAnnotation, AssumesAnnotation, ShieldAnnotation,
-  FeatureAnnotation, CommentAnnotation,
-  DataClassification,
+  FeatureAnnotation, CommentAnnotation, TemplateAnnotation, ApplyAnnotation,
+  DataClassification, CvssScore,
   ExternalRef, AnnotationVerb, SourceLocation,
   ThreatModelEntitlement, EntitlementDemotionBlocker,
 } from '../types/index.js';
-import { parseFile } from './parse-file.js';
+import { parseString } from './parse-file.js';
+import { expandTemplate } from './parse-line.js';
+import { openParseCache, type ParseFragment } from './parse-cache.js';
+import { assignEnclosingSymbols, loadSymbolGrammars, symbolLanguage } from './symbols.js';
+import { computeSymbolCoverage, findSecuritySymbols, type SecuritySymbol } from './symbol-coverage.js';
+import { isMarkdown } from './embedded.js';
 import { extractCitation } from './citation.js';
-import { loadWorkspaceConfig } from '../workspace/index.js';
+import { loadWorkspaceConfig, parseWorkspaceYaml, type WorkspaceConfig } from '../workspace/index.js';
 import { ANNOTATIONS_DIR } from './gal-path.js';
 import { fileCoveragePercent } from './coverage.js';
-import { readDisabledDiagnostics } from './annotation-mode.js';
+import { readDisabledDiagnostics, disabledDiagnosticsFromConfig } from './annotation-mode.js';
+import { loadLanguageRegistry, languageRegistryFromConfig, type LanguageRegistry } from './languages.js';
+import { treeFileSystem, type ProjectTree } from './project-tree.js';
 
 /** A standalone annotation sidecar, not a source file. */
 const isGalPath = (p: string): boolean => /\.gal$/i.test(p);
@@ -41,14 +50,42 @@ const isGalPath = (p: string): boolean => /\.gal$/i.test(p);
 export interface ParseProjectOptions {
   /** Root directory to scan */
   root: string;
-  /** Glob patterns to include (default: common source files) */
+  /**
+   * Glob patterns to include (default: common source files, plus every
+   * extension a language in `.guardlink/config.json` declares)
+   */
   include?: string[];
   /** Glob patterns to exclude (default: node_modules, dist, .git) */
   exclude?: string[];
   /** Project name for the ThreatModel */
   project?: string;
+  /**
+   * Reuse per-file results from `.guardlink/cache/` for files whose content has
+   * not changed, and write the cache back afterwards. Off by default: a library
+   * call should not write to disk unless asked. See parse-cache.ts.
+   */
+  cache?: boolean;
+  /**
+   * Read the project from this tree instead of the disk under `root`, which
+   * then only names what paths are made relative to. Files are chosen from the
+   * tree by the same globs, and `.guardlink/config.json` and `workspace.yaml`
+   * come from the tree too. With `cache`, files the tree says are `onDisk`
+   * are served from `.guardlink/cache/`, which is then not written back. See
+   * project-tree.ts.
+   */
+  tree?: ProjectTree;
+  /**
+   * With a `tree` that has content ids: per-file results, shared across calls.
+   * A file whose path and id were seen before is neither read nor parsed — how
+   * `guardlink history` walks commits that each change a few files. Entries are
+   * copied in and out, so callers never share an annotation.
+   */
+  fragments?: Map<string, ParseFragment>;
 }
 
+const CONFIG_FILE = '.guardlink/config.json';
+const WORKSPACE_FILE = '.guardlink/workspace.yaml';
+
 export const DEFAULT_INCLUDE = [
   '**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx',
   '**/*.py', '**/*.rb', '**/*.go', '**/*.rs',
@@ -62,6 +99,10 @@ export const DEFAULT_INCLUDE = [
   '**/*.html', '**/*.xml', '**/*.svg',
   '**/*.css',
   '**/*.ex', '**/*.exs',
+  '**/*.nim', '**/*.jl', '**/*.ps1', '**/*.psm1', '**/*.f90', '**/*.f95', '**/*.f03', '**/*.f08',
+  // Code inside other files — notebook cells, Markdown fences, component
+  // script blocks. Read region by region; see embedded.ts.
+  '**/*.ipynb', '**/*.md', '**/*.markdown', '**/*.vue', '**/*.svelte',
   '**/*.[gG][aA][lL]',
 ];
 
@@ -105,8 +146,19 @@ export const DEFAULT_EXCLUDE = [
   '**/.bravos/**', '**/.bugb/**',
   // D17 — our own generated outputs.
   ...GENERATED_OUTPUT_FILES.map(f => `**/${f}`),
+  // The parse cache holds copies of annotation text; scanning it would be D17 again.
+  '**/.guardlink/cache/**',
 ];
 
+/**
+ * `include` plus a glob for each extension a configured language declares —
+ * registering a language is how a project says its files hold annotations.
+ */
+export function withConfiguredLanguages(include: string[], languages: LanguageRegistry): string[] {
+  const globs = languages.configuredExtensions.map(ext => `**/*${ext}`);
+  return [...include, ...globs.filter(g => !include.includes(g))];
+}
+
 /**
  * Parse an entire project directory and return a ThreatModel.
  */
@@ -116,10 +168,18 @@ export async function parseProject(options: ParseProjectOptions): Promise<{
 }> {
   const {
     root,
-    include = DEFAULT_INCLUDE,
     exclude = DEFAULT_EXCLUDE,
     project = 'unknown',
+    cache: useCache = false,
+    tree,
+    fragments,
   } = options;
+  const treeConfig = tree ? await tree.read([CONFIG_FILE, WORKSPACE_FILE]) : null;
+  const languages = treeConfig
+    ? languageRegistryFromConfig(treeConfig.get(CONFIG_FILE))
+    : loadLanguageRegistry(root);
+  const include = options.include ?? withConfiguredLanguages(DEFAULT_INCLUDE, languages);
+  const globFs = tree ? { fs: treeFileSystem(root, tree.files) } : {};
 
   // Discover files (dot: true to include .guardlink/ definitions)
   const scanned = await fg(include, {
@@ -127,6 +187,7 @@ export async function parseProject(options: ParseProjectOptions): Promise<{
     ignore: exclude,
     absolute: true,
     dot: true,
+    ...globFs,
   });
 
   // GL-503 — rescue annotation sidecars under excluded directories.
@@ -147,28 +208,43 @@ export async function parseProject(options: ParseProjectOptions): Promise<{
     ignore: ['**/node_modules/**', '**/.git/**'],
     absolute: true,
     dot: true,
+    ...globFs,
   });
 
   const files = [...new Set([...scanned, ...sidecars])];
+  const cache = useCache ? openParseCache(root, languages) : null;
+  const fromDisk = (relPath: string) => !tree || (cache !== null && tree.onDisk?.(relPath) === true);
+  const fromTree = tree
+    ? await treeReader(tree, files.map(f => relative(root, f)).filter(p => !fromDisk(p)), languages, fragments)
+    : null;
 
   // Parse all files
   const allAnnotations: Annotation[] = [];
   const allDiagnostics: ParseDiagnostic[] = [];
   const filesWithAnnotations = new Set<string>();
+  const securitySymbols = new Map<string, SecuritySymbol[]>();
+
+  await loadSymbolGrammars(files);
 
   for (const file of files) {
-    const result = await parseFile(file);
     const relPath = relative(root, file);
-    // Normalize file paths to relative
-    for (const ann of result.annotations) {
-      ann.location.file = normalizeLocationPath(ann.location.file, file, root);
-      if (ann.location.origin_file) {
-        ann.location.origin_file = normalizeLocationPath(ann.location.origin_file, file, root);
-      }
-    }
-    for (const diag of result.diagnostics) {
-      diag.file = relPath;
-    }
+    // Enclosing and security-relevant symbols are resolved here, inside the
+    // cached step, so a cache hit carries them and an unchanged file is never
+    // re-indexed.
+    const parse = (content: string): ParseFragment => {
+      const result = parseString(content, file, languages);
+      assignEnclosingSymbols(result.annotations, content, file);
+      const fragment = normalizeFragment(result, file, root);
+      const symbols = isGalPath(relPath) || isDefinitionsPath(relPath) ? null : findSecuritySymbols(content, file);
+      if (symbols) fragment.security_symbols = symbols;
+      return fragment;
+    };
+    const result = fromTree && !fromDisk(relPath)
+      ? fromTree.resolve(relPath, parse)
+      : cache
+        ? await cache.resolve(file, relPath, parse)
+        : parse(await readFile(file, 'utf-8'));
+    if (result.security_symbols) securitySymbols.set(relPath, result.security_symbols);
     if (result.annotations.length > 0) {
       // GL-502 — count the LOGICAL source, never the sidecar.
       //
@@ -190,6 +266,11 @@ export async function parseProject(options: ParseProjectOptions): Promise<{
     allDiagnostics.push(...result.diagnostics);
   }
 
+  // A tree is not what the cache under root describes; saving would prune it.
+  if (!tree) cache?.save();
+  await resolveAnchoredSymbols(root, allAnnotations, tree);
+  allDiagnostics.push(...expandApplications(allAnnotations));
+
   // Check for duplicate identifiers
   const idMap = new Map<string, Annotation>();
   for (const ann of allAnnotations) {
@@ -213,8 +294,11 @@ export async function parseProject(options: ParseProjectOptions): Promise<{
   // Compute annotated vs unannotated files (exclude .guardlink/ definitions from unannotated)
   const allRelPaths = files.map(f => relative(root, f).replaceAll('\\', '/'));
   const annotatedFiles = [...filesWithAnnotations].filter(f => !isGalPath(f)).sort();
+  // Markdown is documentation until it carries an annotation. Counting every
+  // README as an unannotated source file would lower file coverage in every
+  // repo on upgrade, for files nobody was asked to annotate.
   const unannotatedFiles = allRelPaths
-    .filter(f => !isGalPath(f) && !filesWithAnnotations.has(f) && !f.startsWith('.guardlink/'))
+    .filter(f => !isGalPath(f) && !filesWithAnnotations.has(f) && !isDefinitionsPath(f) && !isMarkdown(f))
     .sort();
 
   // GL-502 — the denominator is source files, and a sidecar is not one.
@@ -227,18 +311,26 @@ export async function parseProject(options: ParseProjectOptions): Promise<{
   // source file under test/ is excluded from the scan but can still be annotated
   // through its sidecar. Without the union it would appear in annotated_files
   // while missing from the denominator, so annotated could exceed scanned.
-  const sourceFiles = new Set(allRelPaths.filter(f => !isGalPath(f)));
+  const sourceFiles = new Set(allRelPaths.filter(f => !isGalPath(f) && !isMarkdown(f)));
   for (const f of annotatedFiles) sourceFiles.add(f);
 
   // Assemble ThreatModel
   const model = assembleModel(allAnnotations, sourceFiles.size, project, annotatedFiles, unannotatedFiles);
 
+  // Per-symbol coverage, only where something was measured: a project with no
+  // file the symbol index can read reports no symbol fields rather than 0%.
+  if (securitySymbols.size > 0) {
+    Object.assign(model.coverage, computeSymbolCoverage(securitySymbols, allAnnotations));
+  }
+
   // Detect cross-repo tag references (requires workspace.yaml)
-  model.external_refs = detectExternalRefs(model, root);
+  model.external_refs = detectExternalRefs(model, treeConfig ? workspaceConfigIn(treeConfig.get(WORKSPACE_FILE)) : loadWorkspaceConfig(root));
 
   // Warning-level diagnostics a project has switched off in config.json.
   // Errors are never suppressible — see readDisabledDiagnostics.
-  const disabled = readDisabledDiagnostics(root);
+  const disabled = treeConfig
+    ? disabledDiagnosticsFromConfig(treeConfig.get(CONFIG_FILE))
+    : readDisabledDiagnostics(root);
   const diagnostics = disabled.size === 0
     ? allDiagnostics
     : allDiagnostics.filter(d => !(d.level === 'warning' && d.code && disabled.has(d.code)));
@@ -246,6 +338,129 @@ export async function parseProject(options: ParseProjectOptions): Promise<{
   return { model, diagnostics };
 }
 
+/**
+ * Enclosing symbols for annotations written in a `.gal` sidecar.
+ *
+ * These are sited in another file, so the sidecar's own parse could not see
+ * the code, and its cache entry would go stale the moment that code changed.
+ * Resolved after the cache instead, from the source each `@source` names, which
+ * is what makes `enclosing_symbol` agree across annotation modes.
+ */
+async function resolveAnchoredSymbols(root: string, annotations: Annotation[], tree?: ProjectTree): Promise<void> {
+  const byFile = new Map<string, Annotation[]>();
+  for (const ann of annotations) {
+    const { file, origin_file } = ann.location;
+    if (!origin_file || !symbolLanguage(file)) continue;
+    // Only ever read inside the project: `file:` is author-supplied text.
+    if (isAbsolute(file) || relative(root, join(root, file)).startsWith('..')) continue;
+    const bucket = byFile.get(file);
+    if (bucket) bucket.push(ann); else byFile.set(file, [ann]);
+  }
+  if (byFile.size === 0) return;
+
+  await loadSymbolGrammars(byFile.keys());
+  const fromTree = tree ? await tree.read([...byFile.keys()]) : null;
+  for (const [file, anns] of byFile) {
+    const abs = join(root, file);
+    // A block pointing at a missing file is drift, and reanchor reports it.
+    const content = fromTree ? fromTree.get(file) : existsSync(abs) ? readFileSync(abs, 'utf-8') : undefined;
+    if (content === undefined) continue;
+    assignEnclosingSymbols(anns, content, file);
+  }
+}
+
+/**
+ * Per-file results for a `tree`: reused from `fragments` by path and content
+ * id, parsed from content fetched in one `tree.read` otherwise. The languages
+ * key is part of the memo key because configured languages change which lines
+ * are comments — same reasoning as the parse cache key.
+ */
+async function treeReader(
+  tree: ProjectTree,
+  relPaths: string[],
+  languages: LanguageRegistry,
+  fragments?: Map<string, ParseFragment>,
+) {
+  const memoKey = (relPath: string) => {
+    const id = fragments ? tree.contentId?.(relPath) : undefined;
+    return id ? `${languages.key}|${relPath}|${id}` : null;
+  };
+  const toRead = relPaths.filter(p => {
+    const key = memoKey(p);
+    return !key || !fragments!.has(key);
+  });
+  const contents = await tree.read(toRead);
+  const copy = (f: ParseFragment): ParseFragment => structuredClone(f);
+
+  return {
+    resolve(relPath: string, parse: (content: string) => ParseFragment): ParseFragment {
+      const key = memoKey(relPath);
+      const memo = key ? fragments!.get(key) : undefined;
+      if (memo) return copy(memo);
+      const fragment = parse(contents.get(relPath) ?? '');
+      if (key) fragments!.set(key, copy(fragment));
+      return fragment;
+    },
+  };
+}
+
+/** workspace.yaml text, parsed the way loadWorkspaceConfig parses the file. */
+function workspaceConfigIn(text: string | undefined): WorkspaceConfig | null {
+  if (text === undefined) return null;
+  try {
+    return parseWorkspaceYaml(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expand every `@apply` in place, appending what it stands for.
+ *
+ * After the cache, because an application's meaning depends on a template that
+ * may live in another file: caching the expansion per file would keep it stale
+ * when only the template changed. And after anchoring, so each expansion
+ * inherits the symbol its `@apply` resolved to. An unknown template or a wrong
+ * argument count expands to nothing here and is reported by
+ * `findTemplateErrors`; with duplicate names, the first definition read wins.
+ */
+function expandApplications(annotations: Annotation[]): ParseDiagnostic[] {
+  const templates = new Map<string, TemplateAnnotation>();
+  for (const ann of annotations) {
+    if (ann.verb === 'template' && !templates.has(ann.name)) templates.set(ann.name, ann);
+  }
+  const diagnostics: ParseDiagnostic[] = [];
+  const applications = annotations.filter((a): a is ApplyAnnotation => a.verb === 'apply');
+  for (const apply of applications) {
+    const template = templates.get(apply.template);
+    if (!template) continue;
+    const expansion = expandTemplate(template, apply);
+    annotations.push(...expansion.annotations);
+    diagnostics.push(...expansion.diagnostics);
+  }
+  return diagnostics;
+}
+
+/** Rewrite one file's parse result to root-relative paths — the form the cache stores. */
+function normalizeFragment(result: ParseFragment, file: string, root: string): ParseFragment {
+  const relPath = relative(root, file);
+  for (const ann of result.annotations) {
+    ann.location.file = normalizeLocationPath(ann.location.file, file, root);
+    if (ann.location.origin_file) {
+      ann.location.origin_file = normalizeLocationPath(ann.location.origin_file, file, root);
+    }
+  }
+  for (const diag of result.diagnostics) {
+    diag.file = relPath;
+  }
+  return { annotations: result.annotations, diagnostics: result.diagnostics };
+}
+
+/** Definitions and other project files under `.guardlink/`, which are not source. */
+function isDefinitionsPath(relPath: string): boolean {
+  return relPath.replaceAll('\\', '/').startsWith('.guardlink/');
+}
+
 function normalizeLocationPath(locationFile: string, physicalFile: string, root: string): string {
   if (locationFile === physicalFile) return relative(root, physicalFile);
   if (isAbsolute(locationFile)) return relative(root, locationFile);
@@ -286,6 +501,8 @@ function assembleModel(annotations: Annotation[], fileCount: number, project: st
     shields: [],
     features: [],
     comments: [],
+    templates: [],
+    applications: [],
     coverage: {
       annotation_count: annotations.length,
       // D14 — file coverage, actually computed. This was a hardcoded 0 that three
@@ -315,6 +532,7 @@ function assembleModel(annotations: Annotation[], fileCount: number, project: st
           canonical_name: t.canonical_name,
           id: t.id,
           severity: t.severity,
+          cvss: t.cvss,
           external_refs: t.external_refs,
           description: t.description,
           location: t.location,
@@ -376,7 +594,7 @@ function assembleModel(annotations: Annotation[], fileCount: number, project: st
       case 'exposes': {
         const e = ann as ExposesAnnotation;
         model.exposures.push({
-          asset: e.asset, threat: e.threat, severity: e.severity,
+          asset: e.asset, threat: e.threat, severity: e.severity, cvss: e.cvss,
           external_refs: e.external_refs,
           description: e.description, location: e.location,
         });
@@ -385,7 +603,7 @@ function assembleModel(annotations: Annotation[], fileCount: number, project: st
       case 'confirmed': {
         const cf = ann as ConfirmedAnnotation;
         model.confirmed.push({
-          threat: cf.threat, asset: cf.asset, severity: cf.severity,
+          threat: cf.threat, asset: cf.asset, severity: cf.severity, cvss: cf.cvss,
           external_refs: cf.external_refs,
           description: cf.description, location: cf.location,
         });
@@ -394,7 +612,7 @@ function assembleModel(annotations: Annotation[], fileCount: number, project: st
       case 'accepts': {
         const a = ann as AcceptsAnnotation;
         model.acceptances.push({
-          threat: a.threat, asset: a.asset,
+          threat: a.threat, asset: a.asset, until: a.until, by: a.by,
           description: a.description, location: a.location,
         });
         break;
@@ -489,19 +707,37 @@ function assembleModel(annotations: Annotation[], fileCount: number, project: st
         });
         break;
       }
+      case 'template': {
+        const t = ann as TemplateAnnotation;
+        model.templates!.push({
+          name: t.name, params: t.params, body: t.body, description: t.description, location: t.location,
+        });
+        break;
+      }
+      case 'apply': {
+        const a = ann as ApplyAnnotation;
+        model.applications!.push({
+          template: a.template, args: a.args, description: a.description, location: a.location,
+        });
+        break;
+      }
     }
   }
 
   // Second pass: resolve exposure severity from threat definitions
-  // when the @exposes annotation has no inline severity
+  // when the @exposes annotation has no inline severity. A threat's CVSS
+  // vector comes along with it — an exposure that rates itself keeps its own.
   const threatSeverityMap = new Map<string, string>();
+  const threatCvssMap = new Map<string, CvssScore>();
   for (const t of model.threats) {
     if (t.id && t.severity) threatSeverityMap.set(`#${t.id}`, t.severity);
     if (t.id && t.severity) threatSeverityMap.set(t.id, t.severity);
+    if (t.id && t.cvss) threatCvssMap.set(`#${t.id}`, t.cvss).set(t.id, t.cvss);
   }
   for (const e of model.exposures) {
-    if (!e.severity) {
+    if (!e.severity && !e.cvss) {
       e.severity = threatSeverityMap.get(e.threat) as any;
+      e.cvss = threatCvssMap.get(e.threat);
     }
   }
 
@@ -576,8 +812,7 @@ export function entitlementDemotionBlockers(
  * runs every example this codebase emits through the parser, so an example can
  * no longer describe syntax that does not exist.
  */
-function detectExternalRefs(model: ThreatModel, root: string): ExternalRef[] {
-  const config = loadWorkspaceConfig(root);
+function detectExternalRefs(model: ThreatModel, config: WorkspaceConfig | null): ExternalRef[] {
   if (!config) return [];
 
   // Sibling repo names (exclude this repo)
@@ -0,0 +1,104 @@
+/**
+ * GuardLink — a project read from somewhere other than the disk.
+ *
+ * `parseProject` walks `root` with fast-glob and reads what it finds. A git
+ * revision is the same project without a checkout: a list of paths and a way
+ * to fetch their content. `ProjectTree` is that pair, and `treeFileSystem`
+ * serves the list to fast-glob as a read-only file system, so the scan set at
+ * a revision is chosen by the very globs — DEFAULT_INCLUDE, DEFAULT_EXCLUDE,
+ * configured languages, the sidecar rescue — that choose it on disk. Two
+ * selections written separately drift; `parseAtRef` used to carry its own
+ * extension list, and it did.
+ *
+ * @flows ProjectTree -> #parser via treeFileSystem -- "Path listing served to fast-glob in place of the disk"
+ * @comment -- "Nothing here touches the disk: every path resolves inside the listing, and anything else is ENOENT"
+ */
+
+import { join, sep } from 'node:path';
+import type { Options as GlobOptions } from 'fast-glob';
+
+export interface ProjectTree {
+  /** Every file in the tree, root-relative, `/`-separated. */
+  files: readonly string[];
+  /**
+   * The content of each of `paths` the tree holds. Called with every file a
+   * step needs at once, so an implementation can fetch them in one pass.
+   */
+  read(paths: readonly string[]): Promise<Map<string, string>>;
+  /**
+   * An id that changes when the file's content does — a git blob id. Lets
+   * `parseProject` reuse a parse result without reading the file at all.
+   */
+  contentId?(path: string): string | undefined;
+  /**
+   * True when the file at `path` under the root holds this content — a
+   * tracked file with no uncommitted edit. Lets `parseProject` answer it from
+   * the parse cache, which describes the disk, instead of parsing it.
+   */
+  onDisk?(path: string): boolean;
+}
+
+interface TreeEntry {
+  name: string;
+  dir: boolean;
+}
+
+type Callback<T> = (error: NodeJS.ErrnoException | null, value: T) => void;
+
+/** The `fs` option fast-glob walks `tree` through, rooted at `root`. */
+export function treeFileSystem(root: string, files: readonly string[]): NonNullable<GlobOptions['fs']> {
+  const dirs = new Map<string, Map<string, TreeEntry>>([[root, new Map()]]);
+  for (const file of files) {
+    const parts = file.split('/');
+    let dir = root;
+    for (const [i, name] of parts.entries()) {
+      const isDir = i < parts.length - 1;
+      dirs.get(dir)!.set(name, { name, dir: isDir });
+      dir = join(dir, name);
+      if (isDir && !dirs.has(dir)) dirs.set(dir, new Map());
+    }
+  }
+
+  const missing = (path: string): NodeJS.ErrnoException =>
+    Object.assign(new Error(`ENOENT: no such file or directory, '${path}'`), { code: 'ENOENT', path });
+
+  const entryAt = (path: string): TreeEntry | undefined => {
+    const clean = path.endsWith(sep) && path !== sep ? path.slice(0, -1) : path;
+    if (dirs.has(clean)) return { name: clean, dir: true };
+    const cut = clean.lastIndexOf(sep);
+    return dirs.get(clean.slice(0, cut) || sep)?.get(clean.slice(cut + 1));
+  };
+
+  const statOf = (entry: TreeEntry) => ({
+    isFile: () => !entry.dir,
+    isDirectory: () => entry.dir,
+    isSymbolicLink: () => false,
+  });
+
+  const direntOf = (entry: TreeEntry) => ({ name: entry.name, ...statOf(entry) });
+
+  const statSync = (path: string) => {
+    const entry = entryAt(path);
+    if (!entry) throw missing(path);
+    return statOf(entry);
+  };
+
+  const readdirSync = (path: string, options?: { withFileTypes: true }) => {
+    const entries = dirs.get(path);
+    if (!entries) throw missing(path);
+    return options?.withFileTypes ? [...entries.values()].map(direntOf) : [...entries.keys()];
+  };
+
+  const stat = (path: string, callback: Callback<unknown>) => {
+    try { callback(null, statSync(path)); } catch (err) { callback(err as NodeJS.ErrnoException, undefined); }
+  };
+
+  const readdir = (path: string, options: { withFileTypes: true } | Callback<unknown>, callback?: Callback<unknown>) => {
+    const done = (typeof options === 'function' ? options : callback)!;
+    const opts = typeof options === 'function' ? undefined : options;
+    try { done(null, readdirSync(path, opts)); } catch (err) { done(err as NodeJS.ErrnoException, undefined); }
+  };
+
+  // fast-glob's adapter types are the node:fs overloads; these answer the subset it calls.
+  return { lstat: stat, stat, lstatSync: statSync, statSync, readdir, readdirSync } as unknown as NonNullable<GlobOptions['fs']>;
+}
@@ -16,15 +16,23 @@
  * code nobody chose for it, which is the same failure as the drift, arrived at
  * faster.
  *
+ * Where the file has a grammar (parser/symbols.ts), the check is against
+ * DECLARATIONS, not mentions: `const alias = handler` no longer holds an
+ * anchor in place, and a block can follow its symbol into another file or
+ * through a rename when the code leaves only one reading. Files with no grammar
+ * keep the whole-word match below, unchanged.
+ *
  * @exposes #parser to #path-traversal [low] cwe:CWE-22 -- "Reads source files named by @source blocks"
  * @mitigates #parser against #path-traversal using #path-validation -- "Paths are joined to root and skipped when missing; nothing outside the model is read"
  * @flows ThreatModel -> #parser via findAnchorDrift -- "Recorded anchors compared against current source"
- * @comment -- "Symbol matching is deliberately loose: it looks for the name as a whole word, not for a specific declaration syntax, so it works across languages"
+ * @comment -- "Without a grammar, symbol matching is deliberately loose: it looks for the name as a whole word, not for a specific declaration syntax, so it works across languages"
  */
 
 import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import { join } from 'node:path';
 import type { ThreatModel, SourceLocation } from '../types/index.js';
+import { enclosingSymbol, indexSymbols, loadSymbolGrammars, symbolLanguage, symbolsNamed, type SourceSymbol } from './symbols.js';
+import { isSidecarLocation } from './gal-path.js';
 
 export interface AnchorDrift {
   /** The sidecar carrying the block. */
@@ -37,13 +45,22 @@ export interface AnchorDrift {
   /**
    * Why the anchor is wrong.
    *   moved        — the symbol is elsewhere in the file
+   *   relocated    — the symbol is declared in exactly one other file
+   *   renamed      — the recorded line still starts a declaration, under a new name
    *   symbol_gone  — the symbol is not in the file at all
    *   file_gone    — the file no longer exists
    *   line_gone    — the file is shorter than the recorded line
+   *
+   * `relocated` and `renamed` need a grammar for the files involved; without
+   * one the same situations report as `symbol_gone` or `file_gone`.
    */
-  kind: 'moved' | 'symbol_gone' | 'file_gone' | 'line_gone';
-  /** Where the symbol was found instead. Present only for 'moved'. */
+  kind: 'moved' | 'relocated' | 'renamed' | 'symbol_gone' | 'file_gone' | 'line_gone';
+  /** Where the symbol was found instead. Present for 'moved' and 'relocated'. */
   suggested_line?: number;
+  /** The file now declaring the symbol. Present only for 'relocated'. */
+  suggested_file?: string;
+  /** The name now declared at the recorded line. Present only for 'renamed'. */
+  suggested_symbol?: string;
   /** All lines where the symbol appears, when there is more than one candidate. */
   candidates?: number[];
   message: string;
@@ -70,10 +87,12 @@ function anchoredBlocks(model: ThreatModel): SourceLocation[] {
     ...model.ownership, ...model.data_handling, ...model.assumptions,
     ...(model.actors || []), ...(model.entitlements || []),
     ...model.shields, ...model.features, ...model.comments,
+    ...(model.applications || []),
   ];
   const seen = new Map<string, SourceLocation>();
   for (const { location } of rows) {
-    if (!location.origin_file || !location.parent_symbol) continue;
+    // An expansion's origin is its template, which no `@source` block anchors.
+    if (!isSidecarLocation(location) || !location.parent_symbol) continue;
     const key = `${location.origin_file}::${location.file}::${location.line}::${location.parent_symbol}`;
     if (!seen.has(key)) seen.set(key, location);
   }
@@ -81,6 +100,12 @@ function anchoredBlocks(model: ThreatModel): SourceLocation[] {
     a.origin_file!.localeCompare(b.origin_file!) || a.line - b.line);
 }
 
+/** The candidate nearest `line` — the likeliest target after an edit above it. */
+function nearestTo<T>(items: T[], line: number, lineOf: (item: T) => number): T {
+  return items.reduce((best, x) =>
+    Math.abs(lineOf(x) - line) < Math.abs(lineOf(best) - line) ? x : best, items[0]);
+}
+
 /**
  * Find `@source` blocks whose recorded `file:line` no longer holds the symbol
  * they name.
@@ -89,7 +114,11 @@ function anchoredBlocks(model: ThreatModel): SourceLocation[] {
  * to compare against, and inventing a check would produce noise, which is how a
  * drift report stops being read.
  */
-export function findAnchorDrift(root: string, model: ThreatModel): AnchorDrift[] {
+export async function findAnchorDrift(root: string, model: ThreatModel): Promise<AnchorDrift[]> {
+  const blocks = anchoredBlocks(model);
+  const sourceFiles = [...model.annotated_files, ...model.unannotated_files];
+  await loadSymbolGrammars([...sourceFiles, ...blocks.map(b => b.file)]);
+
   const cache = new Map<string, string[] | null>();
   const readLines = (file: string): string[] | null => {
     if (!cache.has(file)) {
@@ -99,9 +128,32 @@ export function findAnchorDrift(root: string, model: ThreatModel): AnchorDrift[]
     return cache.get(file)!;
   };
 
+  const indexed = new Map<string, SourceSymbol[] | null>();
+  const symbolsIn = (file: string): SourceSymbol[] | null => {
+    if (!indexed.has(file)) {
+      const lines = symbolLanguage(file) ? readLines(file) : null;
+      indexed.set(file, lines ? indexSymbols(lines.join('\n'), file) : null);
+    }
+    return indexed.get(file)!;
+  };
+
+  /**
+   * Scanned files other than `file` that declare `symbol`. Only files with a
+   * grammar are searched: a whole-word hit in some other file is a mention far
+   * more often than it is a move, and following it would be a guess.
+   */
+  const declaredElsewhere = (symbol: string, file: string): { file: string; at: SourceSymbol }[] => {
+    const found: { file: string; at: SourceSymbol }[] = [];
+    for (const other of sourceFiles) {
+      if (other === file) continue;
+      for (const at of symbolsNamed(symbolsIn(other) ?? [], symbol)) found.push({ file: other, at });
+    }
+    return found;
+  };
+
   const drifts: AnchorDrift[] = [];
 
-  for (const location of anchoredBlocks(model)) {
+  for (const location of blocks) {
     const file = location.file;
     const symbol = location.parent_symbol!;
     const recorded = location.line;
@@ -109,10 +161,17 @@ export function findAnchorDrift(root: string, model: ThreatModel): AnchorDrift[]
     const lines = readLines(file);
 
     if (lines === null) {
+      const moved = declaredElsewhere(symbol, file);
+      if (moved.length === 1) {
+        drifts.push(relocated(gal, file, recorded, symbol, moved[0].file, moved[0].at.line,
+          `\`${file}\` no longer exists`));
+        continue;
+      }
       drifts.push({
         gal_file: gal, file, recorded_line: recorded, symbol, kind: 'file_gone',
         message: `\`${gal}\` anchors to \`${file}:${recorded}\`, but that file no longer exists. `
-          + 'Either the file moved and the block should follow it, or the annotations are obsolete.',
+          + 'Either the file moved and the block should follow it, or the annotations are obsolete.'
+          + elsewhereNote(moved.map(m => m.file)),
       });
       continue;
     }
@@ -126,35 +185,134 @@ export function findAnchorDrift(root: string, model: ThreatModel): AnchorDrift[]
       continue;
     }
 
+    const symbols = symbolsIn(file);
+    if (symbols) {
+      const drift = declarationDrift(symbols, location, declaredElsewhere, blocks);
+      if (drift) drifts.push(drift);
+      continue;
+    }
+
     const found = symbolLines(lines, symbol);
     if (found.includes(recorded)) continue;   // still correct
 
     if (found.length === 0) {
-      drifts.push({
-        gal_file: gal, file, recorded_line: recorded, symbol, kind: 'symbol_gone',
-        message: `\`${gal}\` anchors to \`${symbol}\` at \`${file}:${recorded}\`, but \`${symbol}\` no longer `
-          + 'appears in that file. It was probably renamed or removed — the annotations may need rewriting, not just re-anchoring.',
-      });
+      drifts.push(symbolGone(gal, file, recorded, symbol));
       continue;
     }
 
     // Nearest occurrence to the recorded line is the most likely target after an
     // edit above it; the rest are offered rather than hidden.
-    const nearest = found.reduce((best, l) =>
-      Math.abs(l - recorded) < Math.abs(best - recorded) ? l : best, found[0]);
-
-    drifts.push({
-      gal_file: gal, file, recorded_line: recorded, symbol, kind: 'moved',
-      suggested_line: nearest,
-      ...(found.length > 1 ? { candidates: found } : {}),
-      message: `\`${gal}\` anchors to \`${symbol}\` at \`${file}:${recorded}\`, but \`${symbol}\` is now at `
-        + `line ${nearest}${found.length > 1 ? ` (also ${found.filter(l => l !== nearest).join(', ')})` : ''}.`,
-    });
+    drifts.push(moved(gal, file, recorded, symbol, nearestTo(found, recorded, l => l), found));
   }
 
   return drifts;
 }
 
+/**
+ * Drift for one block in a file the symbol index can read. Null when the
+ * recorded line still falls inside a declaration of the symbol — its leading
+ * comments included, since that is where inline-authored annotations sat.
+ */
+function declarationDrift(
+  symbols: SourceSymbol[],
+  location: SourceLocation,
+  declaredElsewhere: (symbol: string, file: string) => { file: string; at: SourceSymbol }[],
+  blocks: SourceLocation[],
+): AnchorDrift | null {
+  const { file, line: recorded } = location;
+  const symbol = location.parent_symbol!;
+  const gal = location.origin_file!;
+
+  const declared = symbolsNamed(symbols, symbol);
+  if (declared.some(d => recorded >= d.doc_line && recorded <= d.end_line)) return null;
+
+  if (declared.length > 0) {
+    const target = nearestTo(declared, recorded, d => d.line);
+    return moved(gal, file, recorded, symbol, target.line, declared.map(d => d.line));
+  }
+
+  const elsewhere = declaredElsewhere(symbol, file);
+  if (elsewhere.length === 1) {
+    return relocated(gal, file, recorded, symbol, elsewhere[0].file, elsewhere[0].at.line,
+      `\`${symbol}\` is no longer declared in \`${file}\``);
+  }
+
+  // A rename leaves the declaration where it was. Only a recorded line that
+  // still STARTS a declaration counts — one inside a body could be anything
+  // after lines shifted — and never a name another block already anchors to,
+  // which would fold two sites into one.
+  const head = enclosingSymbol(symbols.filter(s => recorded <= s.line), recorded);
+  const taken = new Set(blocks.filter(b => b.file === file).map(b => b.parent_symbol));
+  if (head && elsewhere.length === 0) {
+    const renamedTo = symbol.includes('.') ? head.qualified_name : head.name;
+    if (!taken.has(head.name) && !taken.has(head.qualified_name)) {
+      return {
+        gal_file: gal, file, recorded_line: recorded, symbol, kind: 'renamed',
+        suggested_symbol: renamedTo,
+        message: `\`${gal}\` anchors to \`${symbol}\` at \`${file}:${recorded}\`, but that line now declares `
+          + `\`${renamedTo}\` and \`${symbol}\` is declared nowhere. It was probably renamed — check the `
+          + 'annotations still describe it before re-pointing the block.',
+      };
+    }
+  }
+
+  return symbolGone(gal, file, recorded, symbol, elsewhere.map(e => e.file));
+}
+
+function moved(gal: string, file: string, recorded: number, symbol: string, nearest: number, found: number[]): AnchorDrift {
+  return {
+    gal_file: gal, file, recorded_line: recorded, symbol, kind: 'moved',
+    suggested_line: nearest,
+    ...(found.length > 1 ? { candidates: found } : {}),
+    message: `\`${gal}\` anchors to \`${symbol}\` at \`${file}:${recorded}\`, but \`${symbol}\` is now at `
+      + `line ${nearest}${found.length > 1 ? ` (also ${found.filter(l => l !== nearest).join(', ')})` : ''}.`,
+  };
+}
+
+function relocated(gal: string, file: string, recorded: number, symbol: string, to: string, line: number, why: string): AnchorDrift {
+  return {
+    gal_file: gal, file, recorded_line: recorded, symbol, kind: 'relocated',
+    suggested_file: to, suggested_line: line,
+    message: `\`${gal}\` anchors to \`${symbol}\` at \`${file}:${recorded}\`, but ${why}; `
+      + `it is declared at \`${to}:${line}\`, and nowhere else.`,
+  };
+}
+
+function symbolGone(gal: string, file: string, recorded: number, symbol: string, elsewhere: string[] = []): AnchorDrift {
+  return {
+    gal_file: gal, file, recorded_line: recorded, symbol, kind: 'symbol_gone',
+    message: `\`${gal}\` anchors to \`${symbol}\` at \`${file}:${recorded}\`, but \`${symbol}\` no longer `
+      + 'appears in that file. It was probably renamed or removed — the annotations may need rewriting, not just re-anchoring.'
+      + elsewhereNote(elsewhere),
+  };
+}
+
+/** Several files declaring the name is not a move anyone can infer; say so and stop. */
+function elsewhereNote(files: string[]): string {
+  const unique = [...new Set(files)].sort();
+  return unique.length > 1 ? ` ${unique.length} other files declare it (${unique.join(', ')}), so none is proposed.` : '';
+}
+
+/** Drift kinds that carry a complete proposal `applyReanchor` may write. */
+function isMovable(d: AnchorDrift): boolean {
+  switch (d.kind) {
+    case 'moved':     return d.suggested_line !== undefined;
+    case 'relocated': return d.suggested_file !== undefined && d.suggested_line !== undefined;
+    case 'renamed':   return d.suggested_symbol !== undefined;
+    default:          return false;
+  }
+}
+
+/** `@source` header fields, as written. */
+function sourceFields(text: string): Map<string, string> {
+  const fields = new Map<string, string>();
+  for (const token of text.trim().split(/\s+/).slice(1)) {
+    const sep = token.indexOf(':');
+    if (sep > 0) fields.set(token.slice(0, sep), token.slice(sep + 1));
+  }
+  return fields;
+}
+
 /**
  * Rewrite `@source` lines to their suggested positions.
  *
@@ -166,8 +324,8 @@ export function applyReanchor(root: string, drifts: AnchorDrift[], dryRun = fals
   updated: string[];
   skipped: AnchorDrift[];
 } {
-  const movable = drifts.filter(d => d.kind === 'moved' && d.suggested_line !== undefined);
-  const skipped = drifts.filter(d => !(d.kind === 'moved' && d.suggested_line !== undefined));
+  const movable = drifts.filter(isMovable);
+  const skipped = drifts.filter(d => !isMovable(d));
 
   const byGal = new Map<string, AnchorDrift[]>();
   for (const d of movable) {
@@ -185,9 +343,14 @@ export function applyReanchor(root: string, drifts: AnchorDrift[], dryRun = fals
     for (const d of items) {
       for (const [i, text] of lines.entries()) {
         if (!text.trim().startsWith('@source')) continue;
-        if (!text.includes(`file:${d.file}`) || !text.includes(`line:${d.recorded_line}`)) continue;
-        if (!text.includes(`symbol:${d.symbol}`)) continue;
-        lines[i] = text.replace(`line:${d.recorded_line}`, `line:${d.suggested_line}`);
+        const fields = sourceFields(text);
+        if (fields.get('file') !== d.file || fields.get('line') !== String(d.recorded_line)) continue;
+        if (fields.get('symbol') !== d.symbol) continue;
+        let next = text;
+        if (d.suggested_file !== undefined) next = next.replace(`file:${d.file}`, `file:${d.suggested_file}`);
+        if (d.suggested_line !== undefined) next = next.replace(`line:${d.recorded_line}`, `line:${d.suggested_line}`);
+        if (d.suggested_symbol !== undefined) next = next.replace(`symbol:${d.symbol}`, `symbol:${d.suggested_symbol}`);
+        lines[i] = next;
         changed = true;
         break;
       }
@@ -201,4 +364,3 @@ export function applyReanchor(root: string, drifts: AnchorDrift[], dryRun = fals
 
   return { updated, skipped };
 }
-
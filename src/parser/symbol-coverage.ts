@@ -0,0 +1,204 @@
+/**
+ * GuardLink — Per-symbol coverage of security-relevant code.
+ *
+ * File coverage answers "does this file carry an annotation", and one
+ * `@comment` at the top of every file answers yes for the whole repo. That is
+ * not a property anyone can set a floor on. This counts the functions and
+ * methods that do something a reviewer would want described — serve a route,
+ * talk to a database, check a credential, touch the filesystem — and asks of
+ * each one whether an annotation sits inside it or directly above it.
+ *
+ * ── What makes a symbol security-relevant ───────────────────────────
+ *
+ * Its own code, matched against a short list of call and declaration shapes
+ * per category, plus its name for `auth`. "Its own" means lines not inside a
+ * nested named function, which answers for itself. Anonymous callbacks are not
+ * symbols, so `app.get('/x', (req, res) => …)` belongs to the function that
+ * registers it — the nearest place an annotation about it could be written.
+ * Comment lines are skipped, so an annotation describing a query is not itself
+ * a query.
+ *
+ * The list is a denominator, and is kept narrow on purpose. A pattern that
+ * matched too much would fill `uncovered_symbols` with helpers nobody would
+ * annotate, and a floor over that list would be lowered until it meant
+ * nothing. Missing a handler costs one symbol's worth of precision; flagging
+ * every function costs the metric.
+ *
+ * ── What counts as covered ──────────────────────────────────────────
+ *
+ * Any annotation, of any verb, on a line inside the symbol's span — its doc
+ * comment included (symbols.ts) — or at most `ADJACENT_LINES` above it. A line
+ * inside another security symbol counts for that one only, and classes are not
+ * counted at all: a class-level annotation does not cover every method, which
+ * is the gaming this metric exists to stop.
+ * `@source` blocks resolve to the source line before this runs, so a sidecar
+ * covers exactly what the same annotation written inline would.
+ *
+ * @flows SourceFiles -> #parser via findSecuritySymbols -- "Symbol bodies matched against category patterns"
+ * @exposes #parser to #redos [low] cwe:CWE-1333 -- "Category patterns run over every line of every indexed file"
+ * @mitigates #parser against #redos using #regex-anchoring -- "Patterns are literal alternations with bounded quantifiers; no nested repetition"
+ */
+
+import type { Annotation, CoverageStats, UncoveredSymbol, SecurityCategory } from '../types/index.js';
+import { indexSymbols, type SourceSymbol } from './symbols.js';
+import { symbolCoveragePercent } from './coverage.js';
+
+/** An annotation this many lines above a symbol's doc comment still covers it. */
+export const ADJACENT_LINES = 2;
+
+/** A function or method the index classified, as cached per file. */
+export interface SecuritySymbol {
+  /** Qualified name — `Auth.login`. */
+  symbol: string;
+  kind: UncoveredSymbol['kind'];
+  line: number;
+  end_line: number;
+  doc_line: number;
+  categories: SecurityCategory[];
+}
+
+const CODE_PATTERNS: Record<SecurityCategory, RegExp[]> = {
+  route: [
+    /@(?:app|router|bp|blueprint|api|route)\.(?:get|post|put|patch|delete|route|api_route)\s*\(/i,
+    /@(?:Get|Post|Put|Patch|Delete|Request)Mapping\b/,
+    /@(?:Get|Post|Put|Patch|Delete|All)\s*\(/,
+    /#\[(?:get|post|put|patch|delete|route)\s*\(/,
+    /\bhttp\.ResponseWriter\b/,
+    /\(\s*req\b[^,()]*,\s*res\b/,
+  ],
+  database: [
+    /\.(?:query|execute|executemany|executeQuery|executeUpdate|rawQuery|raw)\s*\(/,
+    /\b(?:db|tx|conn)\.(?:Query|QueryRow|QueryContext|Exec|ExecContext|Prepare)\s*\(/,
+    /\b(?:prisma|knex|sequelize|mongoose|sqlx|diesel|jdbcTemplate|entityManager)\b/,
+    /\b(?:PreparedStatement|createQuery|createNativeQuery)\b/,
+    /\b(?:SELECT\s+[\w*]|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i,
+  ],
+  auth: [
+    /\b(?:bcrypt|argon2|scrypt|jsonwebtoken|passport\.authenticate|check_password|checkpw|hashpw|verify_password|compare_digest|timingSafeEqual)\b/,
+    /\bjwt\.(?:sign|verify|decode|encode)\s*\(/,
+  ],
+  'file-io': [
+    /\b(?:readFile|readFileSync|writeFile|writeFileSync|appendFile|appendFileSync|createReadStream|createWriteStream|unlink|unlinkSync|rmSync|readdirSync)\s*\(/,
+    /(?<![.\w])open\s*\(/,
+    /\bos\.(?:Open|OpenFile|Create|ReadFile|WriteFile|Remove|remove|unlink|rename)\s*\(/,
+    /\b(?:File::(?:open|create)|fs::(?:read|write|read_to_string|remove_file))\b/,
+    /\b(?:Files\.(?:read\w*|write\w*|newInputStream|newOutputStream|delete)|FileInputStream|FileOutputStream|FileReader|FileWriter)\b/,
+    /\bshutil\.\w+\s*\(/,
+  ],
+};
+
+/** Name words that make a function an auth check whatever its body does. */
+const AUTH_WORDS = new Set([
+  'auth', 'authenticate', 'authorize', 'authorise', 'authorization', 'authorisation',
+  'login', 'logout', 'signin', 'signup', 'password', 'passwd', 'credential', 'credentials',
+  'session', 'token', 'jwt', 'oauth', 'permission', 'permissions',
+]);
+
+const CATEGORIES = Object.keys(CODE_PATTERNS) as SecurityCategory[];
+
+/** `verifyPassword`, `check_token`, `HTTPAuth` → their lower-case words. */
+function nameWords(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[\s_$-]+/)
+    .map(w => w.toLowerCase())
+    .filter(Boolean);
+}
+
+/** A line that is only comment, in any of the bundled grammars' languages. */
+const isCommentLine = (text: string): boolean => /^(?:\/\/|\/\*|\*|#(?!\[)|""")/.test(text.trim());
+
+/**
+ * The security-relevant functions and methods in `content`, with the categories
+ * each falls in. Null when the file has no grammar — "not measured", which a
+ * caller must not read as "nothing to measure".
+ */
+export function findSecuritySymbols(content: string, file: string): SecuritySymbol[] | null {
+  const symbols = indexSymbols(content, file);
+  if (!symbols) return null;
+  const lines = content.split('\n');
+
+  // Innermost first, so each line is claimed by the deepest function around it.
+  const callable = symbols
+    .filter(s => s.kind !== 'class')
+    .sort((a, b) => (a.end_line - a.line) - (b.end_line - b.line));
+  const claimed = new Uint8Array(lines.length + 2);
+  const own = new Map<SourceSymbol, string[]>();
+  for (const s of callable) {
+    const mine: string[] = [];
+    for (let l = s.line; l <= s.end_line; l++) {
+      if (claimed[l]) continue;
+      claimed[l] = 1;
+      const text = lines[l - 1] ?? '';
+      if (!isCommentLine(text)) mine.push(text);
+    }
+    own.set(s, mine);
+  }
+
+  const out: SecuritySymbol[] = [];
+  for (const s of callable) {
+    const body = own.get(s)!;
+    const code = body.join('\n');
+    const categories = CATEGORIES.filter(c =>
+      CODE_PATTERNS[c].some(p => p.test(code))
+      || (c === 'auth' && nameWords(s.name).some(w => AUTH_WORDS.has(w))));
+    if (categories.length === 0) continue;
+    out.push({
+      symbol: s.qualified_name, kind: s.kind as UncoveredSymbol['kind'],
+      line: s.line, end_line: s.end_line, doc_line: s.doc_line,
+      categories,
+    });
+  }
+  return out.sort((a, b) => a.line - b.line);
+}
+
+/** Whether `outer` strictly encloses `inner`, doc comments included. */
+function contains(outer: SecuritySymbol, inner: SecuritySymbol): boolean {
+  return outer.doc_line <= inner.doc_line && outer.end_line >= inner.end_line
+    && (outer.end_line - outer.doc_line) > (inner.end_line - inner.doc_line);
+}
+
+/**
+ * The `CoverageStats` symbol fields for a project.
+ *
+ * `byFile` holds every file that was measured, including those with no
+ * security-relevant symbols; files absent from it had no grammar and are
+ * neither numerator nor denominator.
+ */
+export function computeSymbolCoverage(
+  byFile: Map<string, SecuritySymbol[]>,
+  annotations: Annotation[],
+): Pick<CoverageStats, 'security_symbols' | 'covered_security_symbols' | 'symbol_coverage_percent' | 'uncovered_symbols'> {
+  const linesByFile = new Map<string, number[]>();
+  for (const a of annotations) {
+    const bucket = linesByFile.get(a.location.file);
+    if (bucket) bucket.push(a.location.line); else linesByFile.set(a.location.file, [a.location.line]);
+  }
+
+  let total = 0;
+  let covered = 0;
+  const uncovered: UncoveredSymbol[] = [];
+
+  for (const [file, symbols] of [...byFile].sort(([a], [b]) => a.localeCompare(b))) {
+    const annotated = linesByFile.get(file) ?? [];
+    for (const s of symbols) {
+      total++;
+      // A line inside another security symbol answers for that one alone —
+      // a nested helper's annotation is not the outer function's, and the tail
+      // of the previous function is not "directly above" this one.
+      const others = symbols.filter(o => o !== s && !contains(o, s));
+      const hit = annotated.some(l => l >= s.doc_line - ADJACENT_LINES && l <= s.end_line
+        && !others.some(o => l >= o.doc_line && l <= o.end_line));
+      if (hit) covered++;
+      else uncovered.push({ file, symbol: s.symbol, kind: s.kind, line: s.line, categories: s.categories });
+    }
+  }
+
+  return {
+    security_symbols: total,
+    covered_security_symbols: covered,
+    symbol_coverage_percent: symbolCoveragePercent(covered, total),
+    uncovered_symbols: uncovered,
+  };
+}
@@ -0,0 +1,416 @@
+/**
+ * GuardLink — Syntax-aware symbol index.
+ *
+ * `parent_symbol` is whatever an `@source … symbol:` header says, and until now
+ * nothing could check it against the code: drift detection matched the name as
+ * a whole word on any line, and an inline annotation had no symbol at all. This
+ * resolves symbols from the source itself, with tree-sitter grammars compiled to
+ * WASM and shipped as npm packages, so no native toolchain and no network.
+ *
+ * What counts as a symbol is deliberately small: functions, methods and
+ * class-like declarations (classes, structs, traits, enums, and Go and Java
+ * interfaces). Those are the units a reviewer means by "where is this
+ * exposure". Variables, fields, type aliases and TypeScript interfaces are not
+ * symbols here; a function-valued `const` is, because it is a function.
+ *
+ * **Every symbol owns its leading comments.** An inline annotation almost always
+ * sits in the doc comment ABOVE the declaration it describes, outside the
+ * declaration's own syntax node. So a symbol's span starts at the first line of
+ * the comment block directly above it (`doc_line`), not at the keyword. A file
+ * header separated from the first declaration by an import or a blank line
+ * belongs to nothing, which is the honest answer for a module-level statement.
+ *
+ * **Absence is an answer, not an error.** The grammars are optional
+ * dependencies. A platform where they did not install, an extension with no
+ * grammar (Ruby, Kotlin, C, …) or a WASM that fails to load all produce `null`
+ * from `indexSymbols`, and every caller keeps its pre-index behaviour. Nothing
+ * here may fail a parse.
+ *
+ * @exposes #parser to #dos [low] cwe:CWE-400 -- "Every annotated source file is parsed a second time into a syntax tree"
+ * @mitigates #parser against #dos using #resource-limits -- "Only files that carry annotations, or are named by one, are indexed; trees are freed as soon as they are walked"
+ * @flows SourceFiles -> #parser via indexSymbols -- "Source text parsed into declaration spans"
+ * @comment -- "Grammars load from the package's own optional dependencies; nothing is fetched at runtime"
+ */
+
+import { createRequire } from 'node:module';
+import { extname } from 'node:path';
+import type { Language, Node, Parser, Query } from 'web-tree-sitter';
+import type { Annotation } from '../types/index.js';
+
+/** The declarations the index records. Structs, traits and interfaces are 'class'. */
+export type SymbolKind = 'function' | 'method' | 'class';
+
+/** Languages with a bundled grammar. */
+export type SymbolLanguage = 'typescript' | 'tsx' | 'javascript' | 'python' | 'go' | 'java' | 'rust';
+
+/** One declaration, with 1-based line numbers. */
+export interface SourceSymbol {
+  /** The declared name, as written. */
+  name: string;
+  /** Dotted path through enclosing symbols — `AuthService.login`, `Server.Handle`. */
+  qualified_name: string;
+  kind: SymbolKind;
+  /** First line of the declaration, including `export`, decorators and attributes. */
+  line: number;
+  /** Last line of the declaration. */
+  end_line: number;
+  /** First line of the comment block directly above the declaration; `line` when there is none. */
+  doc_line: number;
+}
+
+const EXTENSIONS: Record<string, SymbolLanguage> = {
+  '.ts': 'typescript', '.mts': 'typescript', '.cts': 'typescript',
+  '.tsx': 'tsx',
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.py': 'python',
+  '.go': 'go',
+  '.java': 'java',
+  '.rs': 'rust',
+};
+
+const GRAMMARS: Record<SymbolLanguage, string> = {
+  typescript: 'tree-sitter-typescript/tree-sitter-typescript.wasm',
+  tsx: 'tree-sitter-typescript/tree-sitter-tsx.wasm',
+  javascript: 'tree-sitter-javascript/tree-sitter-javascript.wasm',
+  python: 'tree-sitter-python/tree-sitter-python.wasm',
+  go: 'tree-sitter-go/tree-sitter-go.wasm',
+  java: 'tree-sitter-java/tree-sitter-java.wasm',
+  rust: 'tree-sitter-rust/tree-sitter-rust.wasm',
+};
+
+/** Every language with a bundled grammar. */
+export const SYMBOL_LANGUAGES = Object.keys(GRAMMARS) as SymbolLanguage[];
+
+/** The grammar a file would be indexed with, or null when there is none. */
+export function symbolLanguage(file: string): SymbolLanguage | null {
+  return EXTENSIONS[extname(file).toLowerCase()] ?? null;
+}
+
+// ─── Grammar loading ─────────────────────────────────────────────────
+
+type TreeSitter = typeof import('web-tree-sitter');
+
+let runtime: Promise<TreeSitter | null> | null = null;
+/** The runtime once it has loaded — what syntax queries are compiled with. */
+let loadedRuntime: TreeSitter | null = null;
+const pending = new Map<SymbolLanguage, Promise<void>>();
+/** Loaded parsers. A language mapped to null failed to load and is not retried. */
+const parsers = new Map<SymbolLanguage, Parser | null>();
+
+function loadRuntime(): Promise<TreeSitter | null> {
+  runtime ??= (async () => {
+    try {
+      const ts = await import('web-tree-sitter');
+      await ts.Parser.init();
+      loadedRuntime = ts;
+      return ts;
+    } catch {
+      return null;
+    }
+  })();
+  return runtime;
+}
+
+/**
+ * Load the grammars needed for `files`. Idempotent and shared across callers;
+ * a grammar that cannot be loaded is remembered as absent, so the cost of a
+ * missing optional dependency is paid once per process.
+ */
+export async function loadSymbolGrammars(files: Iterable<string>): Promise<void> {
+  const wanted = new Set<SymbolLanguage>();
+  for (const file of files) {
+    const lang = symbolLanguage(file);
+    if (lang) wanted.add(lang);
+  }
+  await loadSymbolLanguages(wanted);
+}
+
+/** `loadSymbolGrammars` by language rather than by file. */
+export async function loadSymbolLanguages(languages: Iterable<SymbolLanguage>): Promise<void> {
+  await Promise.all([...new Set(languages)].map(lang => {
+    let p = pending.get(lang);
+    if (!p) {
+      p = (async () => {
+        const ts = await loadRuntime();
+        let language: Language | null = null;
+        try {
+          language = ts && await ts.Language.load(createRequire(import.meta.url).resolve(GRAMMARS[lang]));
+        } catch {}
+        if (!ts || !language) { parsers.set(lang, null); return; }
+        const parser = new ts.Parser();
+        parser.setLanguage(language);
+        parsers.set(lang, parser);
+      })();
+      pending.set(lang, p);
+    }
+    return p;
+  }));
+}
+
+/**
+ * Whether `file` would be indexed now: its language has a grammar and that
+ * grammar has loaded. False before `loadSymbolGrammars`, and for good when the
+ * optional dependency is missing.
+ */
+export function symbolGrammarLoaded(file: string): boolean {
+  const lang = symbolLanguage(file);
+  return !!lang && !!parsers.get(lang);
+}
+
+// ─── Indexing ────────────────────────────────────────────────────────
+
+/** Nodes that wrap a declaration without being one; the span widens to include them. */
+const WRAPPERS = new Set([
+  'export_statement', 'lexical_declaration', 'variable_declaration', 'decorated_definition',
+]);
+
+const FUNCTION_VALUES = new Set([
+  'arrow_function', 'function_expression', 'function', 'generator_function',
+]);
+
+const CLASS_NODES = new Set([
+  'class_declaration', 'abstract_class_declaration', 'class_definition',
+  'interface_declaration', 'enum_declaration', 'record_declaration',
+  'struct_item', 'enum_item', 'trait_item', 'union_item',
+]);
+
+const FUNCTION_NODES = new Set([
+  'function_declaration', 'generator_function_declaration', 'function_definition', 'function_item',
+]);
+
+const METHOD_NODES = new Set([
+  'method_definition', 'method_declaration', 'constructor_declaration',
+]);
+
+interface Declaration {
+  name: string;
+  kind: SymbolKind;
+}
+
+/**
+ * What `node` declares, given the kind of the nearest enclosing declaration.
+ * Null for everything that is not a symbol.
+ */
+function declarationOf(node: Node, lang: SymbolLanguage, parent: SymbolKind | 'impl' | null): Declaration | null {
+  const type = node.type;
+  const name = () => node.childForFieldName('name')?.text ?? null;
+
+  // TypeScript's `interface` carries no code and is a type, not a site.
+  if (CLASS_NODES.has(type) && !(type === 'interface_declaration' && lang !== 'java')) {
+    const n = name();
+    return n ? { name: n, kind: 'class' } : null;
+  }
+  if (FUNCTION_NODES.has(type)) {
+    const n = name();
+    if (!n) return null;
+    const inClass = parent === 'class' || parent === 'impl';
+    return { name: n, kind: inClass ? 'method' : 'function' };
+  }
+  if (METHOD_NODES.has(type)) {
+    const n = name();
+    return n ? { name: n, kind: 'method' } : null;
+  }
+  // `const handler = async (req) => …` is a function in every sense a reviewer cares about.
+  if (type === 'variable_declarator') {
+    const value = node.childForFieldName('value');
+    const n = node.childForFieldName('name');
+    if (value && FUNCTION_VALUES.has(value.type) && n?.type === 'identifier') {
+      return { name: n.text, kind: parent === 'class' ? 'method' : 'function' };
+    }
+    return null;
+  }
+  // Class fields holding arrow functions: `handle = () => …`.
+  if (type === 'public_field_definition' || type === 'field_definition') {
+    const value = node.childForFieldName('value');
+    const n = node.childForFieldName('name') ?? node.childForFieldName('property');
+    return value && n && FUNCTION_VALUES.has(value.type) ? { name: n.text, kind: 'method' } : null;
+  }
+  // Go: `type Server struct { … }` — the spec carries the name, the declaration the comment.
+  if (type === 'type_spec') {
+    const t = node.childForFieldName('type')?.type;
+    const n = name();
+    return n && (t === 'struct_type' || t === 'interface_type') ? { name: n, kind: 'class' } : null;
+  }
+  return null;
+}
+
+/** Go `(s *Server)` and Rust `impl<T> Store<T>` both qualify by the bare type name. */
+function receiverName(node: Node): string | null {
+  const text = node.type === 'impl_item'
+    ? node.childForFieldName('type')?.text
+    : node.childForFieldName('receiver')?.text;
+  if (!text) return null;
+  const bare = text.replace(/[()]/g, '').replace(/<.*$|\[.*$/s, '').trim().split(/\s+/).pop() ?? '';
+  return bare.replace(/^[*&]+/, '') || null;
+}
+
+const isLeading = (node: Node): boolean =>
+  node.type.endsWith('comment') || node.type === 'attribute_item';
+
+/** The node whose rows the declaration occupies, wrappers included. */
+function outerNode(node: Node): Node {
+  let outer = node;
+  while (outer.parent && (WRAPPERS.has(outer.parent.type)
+    || (outer.type === 'type_spec' && outer.parent.type === 'type_declaration' && outer.parent.namedChildCount === 1))) {
+    outer = outer.parent;
+  }
+  return outer;
+}
+
+/** First row of the comment block touching `node` from above, or its own first row. */
+function docRow(node: Node): number {
+  let row = node.startPosition.row;
+  let prev = node.previousNamedSibling;
+  while (prev && isLeading(prev) && prev.endPosition.row >= row - 1) {
+    row = prev.startPosition.row;
+    prev = prev.previousNamedSibling;
+  }
+  return row;
+}
+
+/**
+ * Every symbol declared in `content`, in source order. Null when the file has no
+ * grammar or its grammar is not loaded — call `loadSymbolGrammars` first.
+ */
+export function indexSymbols(content: string, file: string): SourceSymbol[] | null {
+  const lang = symbolLanguage(file);
+  const parser = lang ? parsers.get(lang) : null;
+  if (!lang || !parser) return null;
+
+  const tree = parser.parse(content);
+  if (!tree) return null;
+  const out: SourceSymbol[] = [];
+
+  const visit = (node: Node, path: string[], parent: SymbolKind | 'impl' | null): void => {
+    for (const child of node.namedChildren) {
+      if (!child) continue;
+      // Go methods and Rust impl blocks name their type outside the method itself.
+      if (child.type === 'impl_item') {
+        const owner = receiverName(child);
+        visit(child, owner ? [...path, owner] : path, 'impl');
+        continue;
+      }
+      const decl = declarationOf(child, lang, parent);
+      if (!decl) {
+        visit(child, path, parent);
+        continue;
+      }
+      const owner = child.type === 'method_declaration' && lang === 'go' ? receiverName(child) : null;
+      const qualified = [...path, ...(owner ? [owner] : []), decl.name];
+      const outer = outerNode(child);
+      out.push({
+        name: decl.name,
+        qualified_name: qualified.join('.'),
+        kind: decl.kind,
+        line: outer.startPosition.row + 1,
+        end_line: outer.endPosition.row + 1,
+        doc_line: docRow(outer) + 1,
+      });
+      visit(child, qualified, decl.kind);
+    }
+  };
+
+  try {
+    visit(tree.rootNode, [], null);
+  } finally {
+    tree.delete();
+  }
+  return out;
+}
+
+/**
+ * The innermost symbol whose span — leading comments included — contains `line`.
+ * A method beats its class; a nested function beats the function around it.
+ */
+export function enclosingSymbol(symbols: SourceSymbol[], line: number): SourceSymbol | null {
+  let best: SourceSymbol | null = null;
+  for (const s of symbols) {
+    if (line < s.doc_line || line > s.end_line) continue;
+    if (!best || s.end_line - s.doc_line <= best.end_line - best.doc_line) best = s;
+  }
+  return best;
+}
+
+/** Symbols `ref` could name: an exact qualified match, or a bare name. */
+export function symbolsNamed(symbols: SourceSymbol[], ref: string): SourceSymbol[] {
+  return symbols.filter(s => s.qualified_name === ref || s.name === ref);
+}
+
+/**
+ * Set `location.enclosing_symbol` on every annotation sited in `file`, from
+ * `content`. Annotations sited elsewhere — `@source` blocks pointing at another
+ * file — are left for a caller that holds that file's content.
+ *
+ * Leaves the field absent, not null, when the file has no grammar: absent says
+ * "not computed", null says "computed, and the line is outside every symbol".
+ */
+export function assignEnclosingSymbols(annotations: Annotation[], content: string, file: string): void {
+  const sited = annotations.filter(a => a.location.file === file);
+  if (sited.length === 0) return;
+  const symbols = indexSymbols(content, file);
+  if (!symbols) return;
+  for (const a of sited) {
+    a.location.enclosing_symbol = enclosingSymbol(symbols, a.location.line)?.qualified_name ?? null;
+  }
+}
+
+// ─── Syntax queries ──────────────────────────────────────────────────
+
+/** One match of a syntax query, with a 1-based line. */
+export interface SyntaxMatch {
+  /** The first line any of the match's captures starts on. */
+  line: number;
+  /** Capture text by name, without the `@`. A name captured twice keeps the first. */
+  captures: Record<string, string>;
+}
+
+/** Compiled queries by language and source. A query that does not compile is not cached. */
+const queries = new Map<string, Query>();
+
+function compiled(lang: SymbolLanguage, source: string): Query | null {
+  const parser = parsers.get(lang);
+  if (!parser?.language || !loadedRuntime) return null;
+  const key = `${lang}\0${source}`;
+  let query = queries.get(key);
+  if (!query) {
+    query = new loadedRuntime.Query(parser.language, source);
+    queries.set(key, query);
+  }
+  return query;
+}
+
+/**
+ * Check that `source` — a tree-sitter query — compiles for `lang`. False when
+ * the grammar is not loaded, so nothing could be checked; throws the
+ * grammar's own message, which names the offending node, when it does not.
+ */
+export function checkSyntaxQuery(lang: SymbolLanguage, source: string): boolean {
+  return compiled(lang, source) !== null;
+}
+
+/**
+ * Every match of a tree-sitter query in `content`, in source order. Null when
+ * the file has no grammar or its grammar is not loaded — call
+ * `loadSymbolGrammars` first.
+ */
+export function querySyntax(content: string, file: string, source: string): SyntaxMatch[] | null {
+  const lang = symbolLanguage(file);
+  const parser = lang ? parsers.get(lang) : null;
+  const query = lang ? compiled(lang, source) : null;
+  if (!parser || !query) return null;
+
+  const tree = parser.parse(content);
+  if (!tree) return null;
+  try {
+    return query.matches(tree.rootNode)
+      .filter(m => m.captures.length > 0)
+      .map(m => {
+        const captures: Record<string, string> = {};
+        for (const c of m.captures) captures[c.name] ??= c.node.text;
+        return { line: Math.min(...m.captures.map(c => c.node.startPosition.row)) + 1, captures };
+      })
+      .sort((a, b) => a.line - b.line);
+  } finally {
+    tree.delete();
+  }
+}
@@ -15,7 +15,7 @@ import {
 // MERGE: `ThreatModelExposure` left with main's findUnmitigatedExposures /
 // findAcceptedExposures — those were the old pair-keyed pair, and D36/D57 moved
 // both to parser/coverage.ts, which this file now re-exports from (below).
-import type { ThreatModel, ParseDiagnostic, SourceLocation } from '../types/index.js';
+import type { ThreatModel, ThreatModelAcceptance, ThreatModelTemplate, ParseDiagnostic, SourceLocation } from '../types/index.js';
 import { normalizeName } from './normalize.js';
 import { entitlementDemotionBlockers } from './parse-project.js';
 
@@ -236,6 +236,88 @@ export function findAcceptedWithoutAudit(model: ThreatModel): ParseDiagnostic[]
   return diagnostics;
 }
 
+/**
+ * Find @accepts annotations whose `until:` date has passed.
+ *
+ * `until` is the last day the acceptance holds, so it lapses the day after.
+ * Dates are compared as UTC calendar days — the annotation names a day, not an
+ * instant, and two CI runners in different zones must agree on whether it has
+ * passed. An expired acceptance still accepts: reopening the finding silently
+ * would turn a missed review into a changed model. It is a warning here and a
+ * failure under `ci --strict`, which is where a lapsed decision gets noticed.
+ */
+export function findExpiredAcceptances(model: ThreatModel, today: Date = new Date()): ParseDiagnostic[] {
+  return expiredAcceptances(model, today).map(acc => ({
+      level: 'warning',
+      code: 'expired-acceptance',
+    message: `@accepts ${acc.threat} on ${acc.asset} expired on ${acc.until}`
+      + `${acc.by ? ` — due for review by ${acc.by}` : ''}; re-accept with a new until: date, or mitigate it`,
+    file: acc.location.file,
+    line: acc.location.line,
+  }));
+}
+
+/** The acceptances `findExpiredAcceptances` reports, as the model holds them. */
+export function expiredAcceptances(model: ThreatModel, today: Date = new Date()): ThreatModelAcceptance[] {
+  const todayISO = today.toISOString().slice(0, 10);
+  return model.acceptances.filter(acc => acc.until !== undefined && acc.until < todayISO);
+}
+
+/**
+ * Find `@apply` lines that expanded to nothing, and templates defined twice.
+ *
+ * Errors, all three: an application that names no template, or passes the
+ * wrong number of arguments, contributes none of the annotations it was
+ * written to stand for — the same silent gap a dangling ref leaves, several
+ * annotations wide. A second definition of a name is ignored by expansion, so
+ * whoever edits it is editing nothing.
+ */
+export function findTemplateErrors(model: ThreatModel): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+
+  const templates = new Map<string, ThreatModelTemplate>();
+  for (const t of model.templates || []) {
+    const first = templates.get(t.name);
+    if (!first) {
+      templates.set(t.name, t);
+      continue;
+    }
+    diagnostics.push({
+      level: 'error',
+      code: 'duplicate-template',
+      message: `Duplicate @template ${t.name} (first defined at ${first.location.file}:${first.location.line}); this definition is never used`,
+      file: t.location.file,
+      line: t.location.line,
+    });
+  }
+
+  for (const app of model.applications || []) {
+    const template = templates.get(app.template);
+    if (!template) {
+      diagnostics.push({
+        level: 'error',
+        code: 'unknown-template',
+        message: `@apply ${app.template}: no @template ${app.template} is defined, so this line expands to nothing`,
+        file: app.location.file,
+        line: app.location.line,
+      });
+      continue;
+    }
+    if (app.args.length !== template.params.length) {
+      diagnostics.push({
+        level: 'error',
+        code: 'template-arity',
+        message: `@apply ${app.template} passes ${app.args.length} argument(s); @template ${template.name}(${template.params.join(', ')}) `
+          + `at ${template.location.file}:${template.location.line} takes ${template.params.length}, so this line expands to nothing`,
+        file: app.location.file,
+        line: app.location.line,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
 /**
  * Warn about `.gal` sidecars that are not where the convention says they should be.
  *
@@ -287,7 +369,7 @@ export function findOffConventionGalFiles(model: ThreatModel): ParseDiagnostic[]
   return diagnostics;
 }
 
-/** Every annotation location in the model, across all relation types. */
+/** Every authored annotation location in the model, across all relation types. */
 function allLocations(model: ThreatModel): SourceLocation[] {
   return [
     ...model.assets, ...model.threats, ...model.controls,
@@ -296,5 +378,6 @@ function allLocations(model: ThreatModel): SourceLocation[] {
     ...model.boundaries, ...model.validations, ...model.audits,
     ...model.ownership, ...model.data_handling, ...model.assumptions,
     ...model.shields, ...model.features, ...model.comments,
-  ].map(a => a.location);
+    ...(model.templates || []), ...(model.applications || []),
+  ].map(a => a.location).filter(l => !l.template);
 }
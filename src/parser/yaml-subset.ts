@@ -0,0 +1,129 @@
+/**
+ * GuardLink — the YAML subset `.guardlink/policy.yaml` and rule packs are written in.
+ *
+ * One top-level `rules:` list of flat mappings whose values are scalars or
+ * `[a, b]` flow lists. That is all either file needs, and not enough to justify
+ * a YAML dependency, so it is read by hand — once, here, so the two files
+ * cannot drift apart on what a quote means.
+ *
+ * Quoting is the part a regular expression has to survive: a single-quoted
+ * value is literal but for `''`, a double-quoted one takes `\"` and `\\`, and
+ * an unquoted one is taken as written. A `#` starts a comment only outside
+ * quotes and after whitespace; a `,` splits a flow list only outside quotes,
+ * so `['a, b']` is one item.
+ *
+ * This reads structure only. Which keys a rule takes and what their values may
+ * be is the caller's to check — every field keeps its line for that.
+ *
+ * @comment -- "Hand-rolled: one flat list does not justify a YAML dependency. Values come back as strings and lists of strings; nothing is evaluated"
+ */
+
+export type YamlSubsetValue = string | string[];
+
+export interface YamlSubsetItem {
+  /** The line of the item's `-`. */
+  line: number;
+  fields: Map<string, { value: YamlSubsetValue; line: number }>;
+}
+
+/**
+ * The items of the top-level `rules:` list. `where` names the file in errors;
+ * `firstKey` is the key an item is expected to open with, for the message when
+ * a field appears before any item.
+ */
+export function parseRuleList(content: string, where: string, firstKey: string): YamlSubsetItem[] {
+  const items: YamlSubsetItem[] = [];
+  let inRules = false;
+
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const n = i + 1;
+    const line = stripComment(lines[i]).trimEnd();
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    if (!/^\s/.test(line)) {
+      if (trimmed !== 'rules:') throw new Error(`${where}:${n}: expected "rules:", got "${trimmed}"`);
+      inRules = true;
+      continue;
+    }
+    if (!inRules) throw new Error(`${where}:${n}: expected "rules:" before the first rule`);
+
+    let body = trimmed;
+    if (body === '-' || body.startsWith('- ')) {
+      items.push({ line: n, fields: new Map() });
+      body = body.slice(1).trim();
+      if (!body) continue;
+    } else if (items.length === 0) {
+      throw new Error(`${where}:${n}: expected a "- ${firstKey}: …" item under rules:`);
+    }
+
+    const match = /^([a-z_-]+):\s*(.*)$/.exec(body);
+    if (!match) throw new Error(`${where}:${n}: expected "key: value", got "${body}"`);
+    const fields = items[items.length - 1].fields;
+    if (fields.has(match[1])) throw new Error(`${where}:${n}: "${match[1]}" is set twice in one rule`);
+    fields.set(match[1], { value: parseValue(match[2], where, n), line: n });
+  }
+
+  if (!inRules) throw new Error(`${where}: expected a top-level "rules:" list`);
+  return items;
+}
+
+/** A scalar or a `[a, b]` flow list. Empty list items are dropped. */
+function parseValue(raw: string, where: string, n: number): YamlSubsetValue {
+  const value = raw.trim();
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitOutsideQuotes(value.slice(1, -1), ',').map(v => unquote(v, where, n)).filter(Boolean);
+  }
+  return unquote(value, where, n);
+}
+
+/** Drop a trailing `# comment`, leaving a `#` inside quotes or a word alone. */
+function stripComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+}
+
+/**
+ * Split on `sep` where it is outside quotes. A doubled `''` reads as leaving
+ * and re-entering the quote, which splits the same.
+ */
+function splitOutsideQuotes(text: string, sep: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === sep) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+function unquote(raw: string, where: string, n: number): string {
+  const s = raw.trim();
+  const q = s[0];
+  if (q !== '"' && q !== "'") return s;
+  if (s.length < 2 || s[s.length - 1] !== q) throw new Error(`${where}:${n}: unterminated ${q === '"' ? 'double' : 'single'} quote`);
+  const body = s.slice(1, -1);
+  return q === "'" ? body.replace(/''/g, "'") : body.replace(/\\(["\\])/g, '$1');
+}
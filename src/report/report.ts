@@ -12,12 +12,13 @@
  * @flows #report -> Markdown via return -- "Report output"
  */
 
-import type { ThreatModel, ThreatModelExposure, ThreatModelEntitlement, Severity } from '../types/index.js';
+import type { ThreatModel, ThreatModelExposure, ThreatModelEntitlement, Severity, CvssScore } from '../types/index.js';
 import { generateMermaid } from './mermaid.js';
 import { generateSequenceDiagram } from './sequence.js';
 import { canonicalizeModelOrder } from '../parser/canonical-order.js';
 import { findUnmitigatedExposures, normalizeRef } from '../parser/coverage.js';
 import { normalizeName } from '../parser/normalize.js';
+import { compareBySeverity } from '../parser/cvss.js';
 import { entitlementDemotionBlockers } from '../parser/parse-project.js';
 
 // ═══════════════════════════════════════════════════════════════════════
@@ -285,7 +286,7 @@ export function generateReport(rawModel: ThreatModel): string {
     lines.push('| Severity | Asset | Threat | Description | Location |');
     lines.push('|----------|-------|--------|-------------|----------|');
     for (const e of sortBySeverity(unmitigated)) {
-      const sev = severityBadge(e.severity);
+      const sev = severityBadge(e.severity, e.cvss);
       const desc = e.description ? truncate(e.description, 60) : '—';
       const loc = `${e.location.file}:${e.location.line}`;
       lines.push(`| ${sev} | ${e.asset} | ${e.threat} | ${desc} | ${loc} |`);
@@ -302,7 +303,7 @@ export function generateReport(rawModel: ThreatModel): string {
     lines.push('| Severity | Asset | Threat | Evidence | Location |');
     lines.push('|----------|-------|--------|----------|----------|');
     for (const c of model.confirmed) {
-      const sev = severityBadge(c.severity);
+      const sev = severityBadge(c.severity, c.cvss);
       const desc = c.description ? truncate(c.description, 60) : '—';
       lines.push(`| ${sev} | ${c.asset} | ${c.threat} | ${desc} | ${c.location.file}:${c.location.line} |`);
     }
@@ -1496,15 +1497,15 @@ function shortName(s: string): string {
   return s.split('.').pop() || s;
 }
 
-const SEVERITY_ORDER: Record<string, number> = { critical: 0, high: 1, medium: 2, low: 3 };
 
-function severityBadge(sev?: Severity): string {
+function severityBadge(sev?: Severity, cvss?: CvssScore): string {
+  const score = cvss ? ` (CVSS ${cvss.score.toFixed(1)})` : '';
   switch (sev) {
-    case 'critical': return '🔴 Critical';
-    case 'high':     return '🟠 High';
-    case 'medium':   return '🟡 Medium';
-    case 'low':      return '🔵 Low';
-    default:         return '⚪ Unset';
+    case 'critical': return `🔴 Critical${score}`;
+    case 'high':     return `🟠 High${score}`;
+    case 'medium':   return `🟡 Medium${score}`;
+    case 'low':      return `🔵 Low${score}`;
+    default:         return `⚪ Unset${score}`;
   }
 }
 
@@ -1521,11 +1522,7 @@ function classificationBadge(c: string): string {
 }
 
 function sortBySeverity(exposures: ThreatModelExposure[]): ThreatModelExposure[] {
-  return [...exposures].sort((a, b) => {
-    const sa = SEVERITY_ORDER[a.severity || 'low'] ?? 4;
-    const sb = SEVERITY_ORDER[b.severity || 'low'] ?? 4;
-    return sa - sb;
-  });
+  return [...exposures].sort(compareBySeverity);
 }
 
 function countBySeverity(exposures: ThreatModelExposure[]): { critical: number; high: number; medium: number; low: number } {
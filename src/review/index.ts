@@ -3,7 +3,8 @@
  *
  * Interactive governance workflow for unmitigated exposures.
  * Users walk through the GAL (Governance Acceptance List) and decide:
- *   accept  — write @accepts + @audit (risk acknowledged, intentional)
+ *   accept  — write @accepts + @audit (risk acknowledged, intentional),
+ *             optionally with a review-by date and owner
  *   remediate — write @audit with planned-fix note
  *   skip    — leave open for now
  *
@@ -16,9 +17,15 @@
  */
 
 import { readFile, writeFile } from 'node:fs/promises';
-import { extname, resolve } from 'node:path';
-import { commentStyleForExt, stripCommentPrefix } from '../parser/comment-strip.js';
+import { resolve } from 'node:path';
+import { stripCommentPrefix } from '../parser/comment-strip.js';
+import {
+  DEFAULT_LANGUAGE_REGISTRY, GENERIC_LANGUAGE, languageFor, loadLanguageRegistry,
+  type LanguageRegistry, type LanguageSpec,
+} from '../parser/languages.js';
+import { isNotebook } from '../parser/embedded.js';
 import { parseLine } from '../parser/parse-line.js';
+import { isCalendarDate } from '../parser/normalize.js';
 import { findUnmitigatedExposures } from '../parser/validate.js';
 import type { ThreatModel, ThreatModelExposure, Severity } from '../types/index.js';
 
@@ -37,6 +44,10 @@ export interface ReviewableExposure {
 export interface ReviewAction {
   decision: ReviewDecision;
   justification: string;
+  /** Accept only: last day the acceptance holds, written as `until:`. */
+  until?: string;
+  /** Accept only: who revisits the acceptance when it lapses, written as `by:`. */
+  by?: string;
 }
 
 export interface ReviewResult {
@@ -106,60 +117,54 @@ export interface CommentStyle {
 
 /**
  * Detect the comment style and indentation from the @exposes source line.
- * Supports JSDoc ( * @...), single-line (// @...), and hash (# @...) styles.
+ *
+ * Only delimiters of the file's own language count — see parser/languages.ts —
+ * so the line written here is one the parser reads back. A line carrying none
+ * of them gets the language's preferred style. Pass the file's `content` so an
+ * extensionless script is matched by its shebang, as the parser matches it.
  */
-export function detectCommentStyle(rawLine: string, filePath: string): CommentStyle {
+export function detectCommentStyle(
+  rawLine: string,
+  filePath: string,
+  languages: LanguageRegistry = DEFAULT_LANGUAGE_REGISTRY,
+  content?: string,
+): CommentStyle {
   const indent = rawLine.match(/^(\s*)/)?.[1] || '';
   const trimmed = rawLine.trimStart();
+  const language = languageFor(filePath, content, languages);
 
   if (trimmed.startsWith('@')) {
     return { prefix: '', suffix: '', indent };
   }
-  if (trimmed.startsWith('* @') || trimmed.startsWith('*  @')) {
+  if (/^\*\s+@/.test(trimmed) && language.block.some(([open]) => open.endsWith('*'))) {
     return { prefix: '* ', suffix: '', indent };
   }
-  if (trimmed.startsWith('// @')) {
-    return { prefix: '// ', suffix: '', indent };
-  }
-  if (trimmed.startsWith('# @')) {
-    return { prefix: '# ', suffix: '', indent };
-  }
-  if (trimmed.startsWith('-- @')) {
-    return { prefix: '-- ', suffix: '', indent };
-  }
-  if (trimmed.startsWith('<!--')) {
-    return { prefix: '<!-- ', suffix: ' -->', indent };
+  const block = language.block.find(([open]) => trimmed.startsWith(open));
+  const line = [...language.line].sort((a, b) => b.length - a.length).find(d => trimmed.startsWith(d));
+  if (block && (!line || block[0].length > line.length)) {
+    return { prefix: `${block[0]} `, suffix: ` ${block[1]}`, indent };
   }
-  if (trimmed.startsWith('/*')) {
-    return { prefix: '/* ', suffix: ' */', indent };
+  if (line) {
+    return { prefix: `${line} `, suffix: '', indent };
   }
 
-  return fallbackCommentStyle(filePath, indent);
+  return preferredCommentStyle(language, indent);
 }
 
-function fallbackCommentStyle(filePath: string, indent: string): CommentStyle {
-  switch (commentStyleForExt(extname(filePath))) {
-    case '#': return { prefix: '# ', suffix: '', indent };
-    case '--': return { prefix: '-- ', suffix: '', indent };
-    case '<!--': return { prefix: '<!-- ', suffix: ' -->', indent };
-    case '/*': return { prefix: '/* ', suffix: ' */', indent };
-    case '%': return { prefix: '% ', suffix: '', indent };
-    case ';': return { prefix: '; ', suffix: '', indent };
-    case 'REM': return { prefix: 'REM ', suffix: '', indent };
-    case "'": return { prefix: "' ", suffix: '', indent };
-    case '//':
-    default:
-      return { prefix: '// ', suffix: '', indent };
-  }
+/** The language's first line comment, or its first block comment wrapped around the line. */
+function preferredCommentStyle(language: LanguageSpec, indent: string): CommentStyle {
+  if (language.line.length > 0) return { prefix: `${language.line[0]} `, suffix: '', indent };
+  const [open, close] = language.block[0] ?? ['//', ''];
+  return { prefix: `${open} `, suffix: close ? ` ${close}` : '', indent };
 }
 
 /**
  * Check if a source line is a GuardLink annotation (used to walk past coupled blocks).
  */
-function isAnnotationLine(line: string): boolean {
+function isAnnotationLine(line: string, language: LanguageSpec): boolean {
   const rawTrimmed = line.trimStart();
   if (/^--\s*"/.test(rawTrimmed)) return true;
-  const inner = stripCommentPrefix(line) ?? rawTrimmed;
+  const inner = stripCommentPrefix(line, language) ?? rawTrimmed;
   const parsed = parseLine(inner, { file: '<review>', line: 1 });
   return Boolean(parsed.annotation || parsed.sourceDirective || parsed.isContinuation);
 }
@@ -171,12 +176,17 @@ function isAnnotationLine(line: string): boolean {
  * Walks forward from the exposure line past consecutive annotation lines
  * to find the end of the block, then returns the 0-indexed line to insert after.
  */
-export function findInsertionIndex(lines: string[], exposureLine: number, stopAtSourceBoundary: boolean = false): number {
+export function findInsertionIndex(
+  lines: string[],
+  exposureLine: number,
+  stopAtSourceBoundary: boolean = false,
+  language: LanguageSpec = GENERIC_LANGUAGE,
+): number {
   // exposureLine is 1-indexed, convert to 0-indexed
   let idx = exposureLine - 1;
 
   // Walk forward past consecutive annotation lines
-  while (idx + 1 < lines.length && isAnnotationLine(lines[idx + 1])) {
+  while (idx + 1 < lines.length && isAnnotationLine(lines[idx + 1], language)) {
     if (stopAtSourceBoundary && lines[idx + 1].trimStart().startsWith('@source')) {
       break;
     }
@@ -197,11 +207,12 @@ function todayISO(): string {
  * Build the annotation lines to insert for an "accept" decision.
  * Returns lines WITHOUT trailing newline.
  */
-function buildAcceptLines(style: CommentStyle, exposure: ThreatModelExposure, justification: string): string[] {
+function buildAcceptLines(style: CommentStyle, exposure: ThreatModelExposure, action: ReviewAction): string[] {
   const { prefix, suffix, indent } = style;
   const date = todayISO();
+  const review = `${action.until ? ` until:${action.until}` : ''}${action.by ? ` by:${action.by}` : ''}`;
   return [
-    `${indent}${prefix}@accepts ${exposure.threat} on ${exposure.asset} -- "${escapeDesc(justification)}"${suffix}`,
+    `${indent}${prefix}@accepts ${exposure.threat} on ${exposure.asset}${review} -- "${escapeDesc(action.justification)}"${suffix}`,
     `${indent}${prefix}@audit ${exposure.asset} -- "Accepted via guardlink review on ${date}"${suffix}`,
   ];
 }
@@ -217,6 +228,26 @@ function buildRemediateLines(style: CommentStyle, exposure: ThreatModelExposure,
   ];
 }
 
+/**
+ * Why a review date or owner cannot be written on an acceptance, or null.
+ *
+ * Checked before anything is written, by every front end, so a typo surfaces
+ * as a re-prompt rather than as an `@accepts` the parser reports malformed. A
+ * date already past is refused too: it would be an expired acceptance the
+ * moment it landed, failing `ci --strict` on the commit that recorded it.
+ */
+export function checkAcceptanceReview(until?: string, by?: string, today: Date = new Date()): string | null {
+  if (until !== undefined) {
+    if (!isCalendarDate(until)) return `"${until}" is not a date — use YYYY-MM-DD.`;
+    if (until < today.toISOString().slice(0, 10)) return `${until} has already passed.`;
+  }
+  // The single token the `by:` grammar reads (parse-line.ts).
+  if (by !== undefined && !/^[A-Za-z0-9_.@-]+$/.test(by)) {
+    return `"${by}" is not a single token — use a handle, team name or email with no spaces.`;
+  }
+  return null;
+}
+
 /** Escape double quotes in description strings */
 export function escapeDesc(s: string): string {
   return s.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
@@ -244,6 +275,11 @@ export async function insertAnnotationsAt(
   anchor: { file: string; line: number },
   build: (style: CommentStyle) => string[],
 ): Promise<number> {
+  // Lines of a notebook are JSON, not code: a comment spliced in there breaks
+  // the notebook instead of annotating the cell.
+  if (isNotebook(anchor.file)) {
+    throw new Error(`${anchor.file} is a Jupyter notebook — add the annotation to the cell in Jupyter, or in a .gal sidecar`);
+  }
   const filePath = resolve(root, anchor.file);
   const content = await readFile(filePath, 'utf-8');
   const lines = content.split('\n');
@@ -253,9 +289,11 @@ export async function insertAnnotationsAt(
     throw new Error(`Line ${anchor.line} out of range in ${anchor.file}`);
   }
 
-  const style = detectCommentStyle(lines[anchorIdx], anchor.file);
+  const languages = loadLanguageRegistry(root);
+  const style = detectCommentStyle(lines[anchorIdx], anchor.file, languages, content);
   const newLines = build(style);
-  const insertIdx = findInsertionIndex(lines, anchor.line, style.prefix === '');
+  const language = languageFor(anchor.file, content, languages);
+  const insertIdx = findInsertionIndex(lines, anchor.line, style.prefix === '', language);
 
   // Splice in the new lines
   lines.splice(insertIdx, 0, ...newLines);
@@ -288,13 +326,16 @@ export async function applyReviewAction(
 
   const linesInserted = await insertAnnotationsAt(root, targetLocation, style =>
     action.decision === 'accept'
-      ? buildAcceptLines(style, exposure, action.justification)
+      ? buildAcceptLines(style, exposure, action)
       : buildRemediateLines(style, exposure, action.justification),
   );
   return { exposure: reviewable, action, linesInserted, targetFile: targetLocation.file };
 }
 
 function getWriteLocation(exposure: ThreatModelExposure): { file: string; line: number } {
+  // Written beside the `@apply` — inside the template it would reach every
+  // other site that applies it.
+  if (exposure.location.template) return { file: exposure.location.file, line: exposure.location.line };
   return {
     file: exposure.location.origin_file || exposure.location.file,
     line: exposure.location.origin_line || exposure.location.line,
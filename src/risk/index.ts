@@ -0,0 +1,226 @@
+/**
+ * GuardLink — Risk scoring: likelihood × impact over the threat model.
+ *
+ * Severity says how bad a finding is in the abstract. Risk says how bad it is
+ * here: the same `[high]` IDOR is a different problem on an internal batch job
+ * than on a public endpoint that returns payment data. This module reads what
+ * the model already records and scores every exposure on two 1–5 axes:
+ *
+ *   impact      severity — or the CVSS score, when a vector was written —
+ *               raised one step when the asset `@handles` pii, phi, financial
+ *               data or secrets
+ *   likelihood  2, plus 2 when `@flows` reach the asset from outside the model,
+ *               plus 1 when the asset sits on a `@boundary`; 5 when `@confirmed`;
+ *               lowered 2 (to at least 1) when mitigated
+ *
+ * An exposure's score is their product, 1–25. An asset's is the highest score
+ * among its exposures, so one open critical is not averaged away by ten
+ * mitigated lows.
+ *
+ * "Outside the model" is the report's definition of an external caller: a flow
+ * source that is not a declared asset. Reachability follows flows transitively
+ * from there, so `User -> #gateway -> #orders` reaches `#orders`.
+ *
+ * ── What it does not do ─────────────────────────────────────────────
+ *
+ * No new predicate. Mitigated and accepted come from the coverage index, asset
+ * identity from the canonicaliser — a risk score that disagreed with `validate`
+ * about whether a finding is open would be D36 again. An accepted exposure keeps
+ * its full score: accepting a risk is a decision about it, not a reduction of it,
+ * and ranking it lower would hide exactly the decisions worth revisiting.
+ *
+ * The weights are deliberately coarse and documented here rather than
+ * configurable. The output is an ordering for triage, not a quantity, and every
+ * row carries the factors that produced it so a reader can disagree with one.
+ *
+ * @flows ThreatModel -> #cli via computeRisk -- "Model read for risk scoring"
+ * @comment -- "Pure function; no I/O. Status comes from buildCoverageIndex and asset identity from canonicaliser, so risk cannot disagree with validate about what is open"
+ */
+
+import type {
+  ThreatModel, ThreatModelExposure, CvssScore, DataClassification, Severity, SourceLocation,
+} from '../types/index.js';
+import { buildCoverageIndex, normalizeRef } from '../parser/coverage.js';
+import { canonicaliser } from '../parser/canonical-ref.js';
+import { compareBySeverity } from '../parser/cvss.js';
+
+export type RiskLevel = 'critical' | 'high' | 'medium' | 'low' | 'none';
+
+export type ExposureStatus = 'open' | 'mitigated' | 'accepted' | 'confirmed';
+
+export interface ExposureRisk {
+  asset: string;
+  threat: string;
+  severity?: Severity;
+  cvss?: CvssScore;
+  status: ExposureStatus;
+  /** 1–5. */
+  likelihood: number;
+  /** 1–5. */
+  impact: number;
+  /** likelihood × impact, 1–25. */
+  score: number;
+  level: RiskLevel;
+  /** Why the score is what it is, one short phrase per factor that applied. */
+  factors: string[];
+  location: SourceLocation;
+}
+
+export interface AssetRisk {
+  asset: string;
+  /** Highest exposure score on the asset; 0 when it has none. */
+  score: number;
+  level: RiskLevel;
+  exposures: number;
+  /** Exposures neither mitigated nor accepted. */
+  open: number;
+  classifications: DataClassification[];
+  /** The first external flow source found to reach the asset, if any. */
+  reachable_from?: string;
+  boundaries: number;
+}
+
+export interface RiskAssessment {
+  /** Highest score first; ties by severity, then CVSS score. */
+  exposures: ExposureRisk[];
+  /** Highest score first; assets with no exposures last. */
+  assets: AssetRisk[];
+}
+
+const SEVERITY_IMPACT: Record<Severity, number> = { critical: 5, high: 4, medium: 3, low: 2 };
+
+/** An unrated exposure is scored as medium — unknown is not the same as minor. */
+const UNRATED_IMPACT = 3;
+
+const SENSITIVE: ReadonlySet<DataClassification> = new Set(['pii', 'phi', 'financial', 'secrets']);
+
+/** The band a 1–25 score falls in. */
+export function riskLevel(score: number): RiskLevel {
+  if (score >= 20) return 'critical';
+  if (score >= 12) return 'high';
+  if (score >= 6) return 'medium';
+  if (score >= 1) return 'low';
+  return 'none';
+}
+
+/** Score every exposure and every asset in the model. */
+export function computeRisk(model: ThreatModel): RiskAssessment {
+  const key = canonicaliser(model);
+  const coverage = buildCoverageIndex(model);
+  const reach = externalReach(model, key);
+
+  const classifications = new Map<string, Set<DataClassification>>();
+  for (const d of model.data_handling ?? []) {
+    const k = key(d.asset);
+    if (!classifications.has(k)) classifications.set(k, new Set());
+    classifications.get(k)!.add(d.classification);
+  }
+  const boundaries = new Map<string, number>();
+  for (const b of model.boundaries ?? []) {
+    for (const k of new Set([key(b.asset_a), key(b.asset_b)])) boundaries.set(k, (boundaries.get(k) ?? 0) + 1);
+  }
+  const confirmed = new Set((model.confirmed ?? []).map(c => `${key(c.asset)}::${normalizeRef(c.threat)}`));
+
+  const scoreExposure = (e: ThreatModelExposure): ExposureRisk => {
+    const k = key(e.asset);
+    const factors: string[] = [];
+
+    let impact = e.cvss ? Math.min(5, Math.max(1, Math.ceil(e.cvss.score / 2))) : e.severity ? SEVERITY_IMPACT[e.severity] : UNRATED_IMPACT;
+    factors.push(e.cvss ? `CVSS ${e.cvss.score.toFixed(1)}` : e.severity ? `severity ${e.severity}` : 'severity unset');
+    const sensitive = [...(classifications.get(k) ?? [])].filter(c => SENSITIVE.has(c));
+    if (sensitive.length > 0) {
+      impact = Math.min(5, impact + 1);
+      factors.push(`handles ${sensitive.join(', ')}`);
+    }
+
+    let likelihood = 2;
+    if (reach.has(k)) {
+      likelihood += 2;
+      factors.push(`reachable from ${reach.get(k)}`);
+    }
+    if (boundaries.has(k)) {
+      likelihood += 1;
+      factors.push('crosses a trust boundary');
+    }
+
+    let status: ExposureStatus = 'open';
+    if (confirmed.has(`${k}::${normalizeRef(e.threat)}`)) {
+      status = 'confirmed';
+      likelihood = 5;
+      factors.push('confirmed exploitable');
+    } else if (coverage.isMitigated(e)) {
+      status = 'mitigated';
+      likelihood = Math.max(1, likelihood - 2);
+      factors.push('mitigated');
+    } else if (coverage.isAccepted(e)) {
+      status = 'accepted';
+      factors.push('accepted');
+    }
+
+    const score = likelihood * impact;
+    return {
+      asset: e.asset, threat: e.threat, severity: e.severity, cvss: e.cvss,
+      status, likelihood, impact, score, level: riskLevel(score), factors, location: e.location,
+    };
+  };
+
+  const exposures = model.exposures.map(scoreExposure)
+    .sort((a, b) => b.score - a.score || compareBySeverity(a, b));
+
+  // Every declared asset, then every exposed ref that names none of them.
+  const names = new Map<string, string>();
+  for (const a of model.assets ?? []) {
+    const k = key(a.path.join('.'));
+    if (!names.has(k)) names.set(k, a.path.join('.'));
+  }
+  for (const e of model.exposures) {
+    if (!names.has(key(e.asset))) names.set(key(e.asset), e.asset);
+  }
+
+  const assets: AssetRisk[] = [...names].map(([k, asset]) => {
+    const own = exposures.filter(e => key(e.asset) === k);
+    const score = own.reduce((max, e) => Math.max(max, e.score), 0);
+    return {
+      asset, score, level: riskLevel(score),
+      exposures: own.length,
+      open: own.filter(e => e.status === 'open' || e.status === 'confirmed').length,
+      classifications: [...(classifications.get(k) ?? [])],
+      ...(reach.has(k) ? { reachable_from: reach.get(k) } : {}),
+      boundaries: boundaries.get(k) ?? 0,
+    };
+  }).sort((a, b) => b.score - a.score || b.open - a.open);
+
+  return { exposures, assets };
+}
+
+/**
+ * Canonical asset key → the external flow source that first reaches it.
+ *
+ * Breadth-first from every external source in flow order, so the answer is
+ * stable for a given model and names the closest caller.
+ */
+function externalReach(model: ThreatModel, key: (ref: string) => string): Map<string, string> {
+  const declared = new Set((model.assets ?? []).map(a => key(a.path.join('.'))));
+  const next = new Map<string, string[]>();
+  for (const f of model.flows ?? []) {
+    const from = key(f.source);
+    if (!next.has(from)) next.set(from, []);
+    next.get(from)!.push(key(f.target));
+  }
+
+  const reached = new Map<string, string>();
+  const queue: [string, string][] = [];
+  for (const f of model.flows ?? []) {
+    if (declared.has(key(f.source))) continue;
+    queue.push([key(f.source), f.source]);
+  }
+  while (queue.length > 0) {
+    const [node, origin] = queue.shift()!;
+    for (const target of next.get(node) ?? []) {
+      if (reached.has(target)) continue;
+      reached.set(target, origin);
+      queue.push([target, origin]);
+    }
+  }
+  return reached;
+}
@@ -23,7 +23,7 @@
 
 import { resolve, basename } from 'node:path';
 import { readFileSync, existsSync, writeFileSync, mkdirSync } from 'node:fs';
-import { parseProject, findDanglingRefs, findUnmitigatedExposures, findAcceptedWithoutAudit, findAcceptedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, clearAnnotations, listFeatures, filterByFeature, getFeatureSummaries } from '../parser/index.js';
+import { parseProject, findDanglingRefs, findUnmitigatedExposures, findAcceptedWithoutAudit, findExpiredAcceptances, findAcceptedExposures, findUndeclaredActors, findInertEntitlements, findImpreciseEntitlements, findTemplateErrors, clearAnnotations, listFeatures, filterByFeature, getFeatureSummaries } from '../parser/index.js';
 import { initProject, detectProject, promptAgentSelection, syncAgentFiles } from '../init/index.js';
 import { generateReport } from '../report/index.js';
 import { generateDashboardHTML } from '../dashboard/index.js';
@@ -37,10 +37,11 @@ import { C, severityBadge, severityText, severityTextPad, severityOrder, compute
 import { resolveLLMConfig, saveTuiConfig, loadTuiConfig } from './config.js';
 import { AGENTS, parseAgentFlag, parseAnnotationModeFlag, launchAgent, launchAgentInline, copyToClipboard, buildAnnotatePrompt, type AgentEntry } from '../agents/index.js';
 import { describeConfigSource } from '../agents/config.js';
-import { getReviewableExposures, applyReviewAction, summarizeReview, type ReviewResult } from '../review/index.js';
+import { getReviewableExposures, applyReviewAction, checkAcceptanceReview, summarizeReview, type ReviewResult } from '../review/index.js';
 import { loadWorkspaceConfig, linkProject, addToWorkspace, removeFromWorkspace, mergeReports, formatMergeSummary, diffMergedReports } from '../workspace/index.js';
 import type { MergedReport } from '../workspace/index.js';
 import { describeCoverage } from '../parser/coverage.js';
+import { startWatch, formatWatchUpdate, type ModelWatcher } from '../watch/index.js';
 
 // ─── Shared context ──────────────────────────────────────────────────
 
@@ -69,6 +70,8 @@ export interface TuiContext {
   _askActive?: boolean;
   /** Cached exposure list from last /exposures call (used by /show) */
   lastExposures: ThreatModelExposure[];
+  /** Live watcher started by /watch; keeps `model` current while it runs */
+  watcher?: ModelWatcher;
 }
 
 /** Re-parse the project and update context */
@@ -126,6 +129,7 @@ export function cmdHelp(): void {
     ['/report',                 'Generate markdown + JSON report'],
     ['/dashboard',              'Generate HTML dashboard + open browser'],
     ['/diff [ref]',             'Compare model against a git ref (default: HEAD~1)'],
+    ['/watch [stop]',           'Keep the model live; print what each save changed'],
     ['/sarif [-o file]',        'Export SARIF 2.1.0 for GitHub / VS Code'],
     ['', ''],
     ['/workspace',              'Show workspace config and linked repos'],
@@ -219,10 +223,12 @@ export function cmdGal(): void {
   console.log(EX('    // @mitigates  db.users  against  Token Theft  -- "Rotation implemented in v2"'));
   console.log('');
 
-  console.log(`  ${V('@accepts')}  ${K('<threat>')}  ${D('on')}  ${K('<asset>')}  ${D('[-- "reason"]')}`);
+  console.log(`  ${V('@accepts')}  ${K('<threat>')}  ${D('on')}  ${K('<asset>')}  ${D('[until:YYYY-MM-DD]  [by:owner]  [-- "reason"]')}`);
   console.log(D('    Explicitly accept a risk. Removes it from open findings.'));
   console.log(D('    Use when the risk is known and intentionally not mitigated.'));
   console.log(EX('    // @accepts  Timing Attack  on  api.auth  -- "Acceptable for current threat model"'));
+  console.log(D('    until: is the last day it holds; past it, validate warns and ci --strict fails.'));
+  console.log(EX('    // @accepts  #dos  on  #export-api  until:2026-12-31  by:platform-team  -- "Until the gateway lands"'));
   console.log('');
 
   console.log(`  ${V('@entitles')}  ${K('<actor>')}  ${D('to')}  ${K('<capability>')}  ${D('[on')}  ${K('<asset>')}${D(']')}  ${D('[against')}  ${K('<threat>')}${D(']')}  ${D('[-- "description"]')}`);
@@ -333,6 +339,9 @@ export function cmdGal(): void {
   console.log(D('  Example:'));
   console.log(EX('    // @exposes  api.auth  to  SQL Injection  [high]  cwe:CWE-89  owasp:A03:2021'));
   console.log('');
+  console.log(D('  One CVSS v3.1 or v4.0 vector per line is validated and scored; without [severity], the score sets it:'));
+  console.log(EX('    // @exposes  api.auth  to  #idor  cvss:CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N'));
+  console.log('');
 
   // ── TIPS ──────────────────────────────────────────────────────────
   console.log(H('  ── Tips ────────────────────────────────────────────────────'));
@@ -530,6 +539,10 @@ export function cmdScan(ctx: TuiContext): void {
   console.log('');
   console.log(`  ${C.bold('Coverage:')} ${cov.annotatedFiles}/${cov.sourceFiles} files annotated (${cov.percent}%)`);
   console.log(`  ${C.dim(`${cov.annotations} annotations parsed`)}`);
+  if (cov.symbols) {
+    const { coveredSymbols, securitySymbols, percent } = cov.symbols;
+    console.log(`  ${C.bold('Symbols:')}  ${coveredSymbols}/${securitySymbols} security-relevant functions annotated (${percent}%)`);
+  }
 
   // The `unannotated_critical` branch that used to live here was
   // unconditionally green: the field was hardcoded [] and is gone as of model
@@ -537,6 +550,15 @@ export function cmdScan(ctx: TuiContext): void {
   if (ctx.model.unannotated_files.length > 0) {
     console.log(C.warn(`  ${ctx.model.unannotated_files.length} file(s) carry no annotations — /unannotated to list them`));
   }
+  if (cov.symbols && cov.symbols.uncovered.length > 0) {
+    console.log(C.warn(`  ${cov.symbols.uncovered.length} security-relevant function(s) carry no annotation:`));
+    for (const u of cov.symbols.uncovered.slice(0, 10)) {
+      console.log(`    ${C.dim(`${u.file}:${u.line}`)} ${u.symbol} ${C.dim(`[${u.categories.join(', ')}]`)}`);
+    }
+    if (cov.symbols.uncovered.length > 10) {
+      console.log(C.dim(`    … and ${cov.symbols.uncovered.length - 10} more (guardlink status --uncovered-symbols)`));
+    }
+  }
   console.log('');
 }
 
@@ -886,12 +908,18 @@ export async function cmdValidate(ctx: TuiContext): Promise<void> {
     // Check for @accepts without @audit (governance concern)
     const acceptAuditDiags = findAcceptedWithoutAudit(model);
 
+    // Check for @accepts past its until: date
+    const expiredDiags = findExpiredAcceptances(model);
+
     // Entitlement checks: undeclared actor (error) and uncited/inert claim (warning)
     const actorDiags = findUndeclaredActors(model);
     const inertDiags = findInertEntitlements(model);
     const impreciseDiags = findImpreciseEntitlements(model);
 
-    const allDiags = [...diagnostics, ...danglingDiags, ...acceptAuditDiags, ...actorDiags, ...inertDiags, ...impreciseDiags];
+    // Check for @apply lines that expanded to nothing
+    const templateDiags = findTemplateErrors(model);
+
+    const allDiags = [...diagnostics, ...danglingDiags, ...acceptAuditDiags, ...expiredDiags, ...actorDiags, ...inertDiags, ...impreciseDiags, ...templateDiags];
 
     // Unmitigated exposures
     const unmitigated = findUnmitigatedExposures(model);
@@ -981,6 +1009,59 @@ export async function cmdDiff(args: string, ctx: TuiContext): Promise<void> {
   console.log('');
 }
 
+// ─── /watch ──────────────────────────────────────────────────────────
+
+/**
+ * Start or stop a background watcher for this session.
+ *
+ * While it runs, every save that moves the model prints its delta between
+ * prompts and replaces `ctx.model`, so /status, /exposures and the rest answer
+ * from the live model without a /parse.
+ */
+export async function cmdWatch(args: string, ctx: TuiContext): Promise<void> {
+  const sub = args.trim().toLowerCase();
+
+  if (ctx.watcher) {
+    if (sub === 'stop' || sub === '') {
+      ctx.watcher.close();
+      ctx.watcher = undefined;
+      console.log(`  ${C.success('✓')} Stopped watching.`);
+      console.log('');
+      return;
+    }
+    console.log(C.dim('  Already watching. /watch stop to end it.'));
+    console.log('');
+    return;
+  }
+  if (sub === 'stop') {
+    console.log(C.dim('  Not watching.'));
+    console.log('');
+    return;
+  }
+
+  console.log(C.dim('  Starting watcher...'));
+  try {
+    const watcher = await startWatch({ root: ctx.root, project: ctx.projectName });
+    ctx.watcher = watcher;
+    ctx.model = watcher.current().model;
+    watcher.subscribe(update => {
+      ctx.model = watcher.current().model;
+      console.log('');
+      for (const line of formatWatchUpdate(update).split('\n')) console.log(`  ${line}`);
+      console.log('');
+    });
+    watcher.onError(err => {
+      console.log(C.warn(`  ⚠ watch: ${err instanceof Error ? err.message : String(err)}`));
+    });
+    const unmitigated = findUnmitigatedExposures(ctx.model).length;
+    console.log(`  ${C.success('✓')} Watching ${C.bold(ctx.root)} (${watcher.mode() === 'events' ? 'filesystem events' : 'polling'})`);
+    console.log(C.dim(`    ${ctx.model.annotations_parsed} annotations · ${unmitigated} unmitigated · /watch stop to end`));
+  } catch (err: any) {
+    console.log(C.error(`  ✗ Could not start watcher: ${err.message}`));
+  }
+  console.log('');
+}
+
 // ─── /sarif ──────────────────────────────────────────────────────────
 
 export async function cmdSarif(args: string, ctx: TuiContext): Promise<void> {
@@ -1825,7 +1906,22 @@ export async function cmdReview(args: string, ctx: TuiContext): Promise<void> {
         justification = await ask(ctx, '    Justification (required): ');
         if (!justification) console.log(C.warn('    ⚠  Justification is mandatory for acceptance.'));
       }
-      const result = await applyReviewAction(ctx.root, reviewable, { decision: 'accept', justification });
+      // Optional: an acceptance with a date is revisited; one without lives forever.
+      let until: string | undefined;
+      let by: string | undefined;
+      for (;;) {
+        until = (await ask(ctx, '    Review by (YYYY-MM-DD, blank for none): ')) || undefined;
+        const problem = checkAcceptanceReview(until);
+        if (!problem) break;
+        console.log(C.warn(`    ⚠  ${problem}`));
+      }
+      while (until) {
+        by = (await ask(ctx, '    Reviewer (blank for none): ')) || undefined;
+        const problem = checkAcceptanceReview(until, by);
+        if (!problem) break;
+        console.log(C.warn(`    ⚠  ${problem}`));
+      }
+      const result = await applyReviewAction(ctx.root, reviewable, { decision: 'accept', justification, until, by });
       results.push(result);
       console.log(`    ${C.success('✓')} Accepted — ${result.linesInserted} line(s) written\n`);
     } else if (choice === 'r') {
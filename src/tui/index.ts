@@ -41,6 +41,7 @@ import {
   cmdParse,
   cmdValidate,
   cmdDiff,
+  cmdWatch,
   cmdSarif,
   cmdModel,
   cmdThreatReport,
@@ -64,7 +65,7 @@ import {
 
 const COMMANDS = [
   '/help', '/gal', '/init', '/parse', '/run', '/status',
-  '/validate', '/diff', '/sarif',
+  '/validate', '/diff', '/watch', '/sarif',
   '/exposures', '/show', '/scan',
   '/assets', '/files', '/view',
   '/threat-report', '/threat-reports', '/annotate', '/model',
@@ -105,6 +106,7 @@ const PALETTE_COMMANDS: CommandEntry[] = [
   { command: '/report',     label: 'Generate markdown report' },
   { command: '/dashboard',  label: 'HTML dashboard' },
   { command: '/diff',       label: 'Compare vs git ref' },
+  { command: '/watch',      label: 'Keep the model live; print each save\'s delta' },
   { command: '/sarif',      label: 'Export SARIF 2.1.0' },
   { command: '/workspace',  label: 'Show workspace config and linked repos' },
   { command: '/link',       label: 'Link repos into workspace (--add / --remove)' },
@@ -301,6 +303,7 @@ function printCommandList(): void {
     ['/report',     'Generate reports'],
     ['/dashboard',  'HTML dashboard'],
     ['/diff [ref]', 'Compare vs git ref'],
+    ['/watch',      'Live model, delta per save'],
     ['/sarif',      'Export SARIF'],
     ['/workspace',  'Workspace config + linked repos'],
     ['/link',       'Link repos (--add / --remove)'],
@@ -356,6 +359,7 @@ async function dispatch(input: string, ctx: TuiContext): Promise<boolean> {
         case '/run':      await cmdParse(ctx); break;
         case '/validate': await cmdValidate(ctx); break;
         case '/diff':     await cmdDiff(args, ctx); break;
+        case '/watch':    await cmdWatch(args, ctx); break;
         case '/sarif':    await cmdSarif(args, ctx); break;
         case '/model':    await cmdModel(ctx); break;
         case '/threat-report':  await cmdThreatReport(args, ctx); break;
@@ -445,6 +449,7 @@ export async function startTui(dir?: string): Promise<void> {
   function goodbye(): void {
     if (exiting) return;
     exiting = true;
+    ctx.watcher?.close();
     process.exit(0);
   }
 
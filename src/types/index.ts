@@ -9,6 +9,13 @@ export type Severity = 'critical' | 'high' | 'medium' | 'low';
 
 export type SeverityAlias = 'P0' | 'P1' | 'P2' | 'P3';
 
+/** A CVSS vector as written in a `cvss:` token, with the score it computes to. */
+export interface CvssScore {
+  version: '3.1' | '4.0';
+  vector: string;
+  score: number;
+}
+
 export type DataClassification = 'pii' | 'phi' | 'financial' | 'secrets' | 'internal' | 'public';
 
 export type AnnotationVerb =
@@ -23,7 +30,9 @@ export type AnnotationVerb =
   // Metadata
   | 'feature'
   // Special
-  | 'comment' | 'shield' | 'shield:begin' | 'shield:end';
+  | 'comment' | 'shield' | 'shield:begin' | 'shield:end'
+  // Templates
+  | 'template' | 'apply';
 
 // ─── Location ────────────────────────────────────────────────────────
 
@@ -32,8 +41,26 @@ export interface SourceLocation {
   line: number;
   end_line?: number | null;
   parent_symbol?: string | null;
+  /**
+   * Innermost function, method or class around `line`, resolved from the source
+   * by the symbol index (parser/symbols.ts), as a dotted path — `Auth.login`.
+   *
+   * Not the same thing as `parent_symbol`, which is what an `@source` header
+   * SAYS the site is. This is what the code says, in both annotation modes.
+   * Absent when the file's language has no grammar; null when the line sits
+   * outside every symbol, as a file header does.
+   */
+  enclosing_symbol?: string | null;
   origin_file?: string | null;
   origin_line?: number | null;
+  /**
+   * Set on an annotation expanded from an `@template` by an `@apply`: the
+   * template's name. `file` and `line` are then the `@apply` site, and
+   * `origin_file` / `origin_line` the template body line it came from — so
+   * `origin_file` alone no longer means "written in a sidecar". Use
+   * `isSidecarLocation` (parser/gal-path.ts) for that question.
+   */
+  template?: string | null;
 }
 
 // ─── Parsed Annotations ──────────────────────────────────────────────
@@ -58,6 +85,7 @@ export interface ThreatAnnotation extends BaseAnnotation {
   id?: string;
   severity?: Severity;
   external_refs: string[];
+  cvss?: CvssScore;
 }
 
 export interface ControlAnnotation extends BaseAnnotation {
@@ -91,6 +119,7 @@ export interface ExposesAnnotation extends BaseAnnotation {
   threat: string;
   severity?: Severity;
   external_refs: string[];
+  cvss?: CvssScore;
 }
 
 export interface ConfirmedAnnotation extends BaseAnnotation {
@@ -99,12 +128,17 @@ export interface ConfirmedAnnotation extends BaseAnnotation {
   asset: string;
   severity?: Severity;
   external_refs: string[];
+  cvss?: CvssScore;
 }
 
 export interface AcceptsAnnotation extends BaseAnnotation {
   verb: 'accepts';
   threat: string;
   asset: string;
+  /** `until:YYYY-MM-DD` — last day the acceptance holds before it must be reviewed. */
+  until?: string;
+  /** `by:<owner>` — who reviews it when it lapses. */
+  by?: string;
 }
 
 /**
@@ -197,6 +231,32 @@ export interface CommentAnnotation extends BaseAnnotation {
   verb: 'comment';
 }
 
+/** One line of an `@template` body, verbatim, placeholders unexpanded. */
+export interface TemplateLine {
+  text: string;
+  /** 1-indexed line in the file that defines the template. */
+  line: number;
+}
+
+/**
+ * `@template name(param, …)` through `@template:end`. The body is kept as text
+ * and parsed only when an `@apply` expands it, because until its `$params` are
+ * substituted it is not GAL.
+ */
+export interface TemplateAnnotation extends BaseAnnotation {
+  verb: 'template';
+  name: string;
+  params: string[];
+  body: TemplateLine[];
+}
+
+/** `@apply name(arg, …)` — one use of a template, expanded by parseProject. */
+export interface ApplyAnnotation extends BaseAnnotation {
+  verb: 'apply';
+  template: string;
+  args: string[];
+}
+
 export type Annotation =
   | AssetAnnotation
   | ThreatAnnotation
@@ -217,7 +277,9 @@ export type Annotation =
   | AssumesAnnotation
   | FeatureAnnotation
   | CommentAnnotation
-  | ShieldAnnotation;
+  | ShieldAnnotation
+  | TemplateAnnotation
+  | ApplyAnnotation;
 
 // ─── Report Metadata ─────────────────────────────────────────────────
 
@@ -315,6 +377,11 @@ export interface ThreatModel {
   shields: ThreatModelShield[];
   features: ThreatModelFeature[];
   comments: ThreatModelComment[];
+  /** `@template` definitions. Optional, like `actors`, for report JSON written
+   *  before templates existed — always populated by parseProject. */
+  templates?: ThreatModelTemplate[];
+  /** `@apply` sites. What they expand to is already in the arrays above. */
+  applications?: ThreatModelApplication[];
 
   coverage: CoverageStats;
 }
@@ -332,6 +399,7 @@ export interface ThreatModelThreat {
   id?: string;
   severity?: Severity;
   external_refs: string[];
+  cvss?: CvssScore;
   description?: string;
   location: SourceLocation;
 }
@@ -420,6 +488,7 @@ export interface ThreatModelExposure {
   threat: string;
   severity?: Severity;
   external_refs: string[];
+  cvss?: CvssScore;
   description?: string;
   location: SourceLocation;
 }
@@ -429,6 +498,7 @@ export interface ThreatModelConfirmed {
   asset: string;
   severity?: Severity;
   external_refs: string[];
+  cvss?: CvssScore;
   description?: string;
   location: SourceLocation;
 }
@@ -436,6 +506,10 @@ export interface ThreatModelConfirmed {
 export interface ThreatModelAcceptance {
   threat: string;
   asset: string;
+  /** Last day the acceptance holds (`YYYY-MM-DD`, inclusive). Absent means it never lapses. */
+  until?: string;
+  /** Owner named to review the acceptance when it lapses. */
+  by?: string;
   description?: string;
   location: SourceLocation;
 }
@@ -513,6 +587,21 @@ export interface ThreatModelComment {
   location: SourceLocation;
 }
 
+export interface ThreatModelTemplate {
+  name: string;
+  params: string[];
+  body: TemplateLine[];
+  description?: string;
+  location: SourceLocation;
+}
+
+export interface ThreatModelApplication {
+  template: string;
+  args: string[];
+  description?: string;
+  location: SourceLocation;
+}
+
 export interface CoverageStats {
   /**
    * Annotations parsed across the project.
@@ -532,6 +621,21 @@ export interface CoverageStats {
    * because GL-502 made both sides of the ratio mode-invariant.
    */
   coverage_percent: number;
+  /**
+   * Security-relevant functions and methods in files the symbol index could
+   * read — route handlers, database calls, auth checks, file I/O. See
+   * `parser/symbol-coverage.ts` for what qualifies.
+   *
+   * This and the three fields below are absent, not 0, when no scanned file
+   * had a grammar: nothing was measured, and 0 would say something was.
+   */
+  security_symbols?: number;
+  /** Of `security_symbols`, those with an annotation inside or directly above. */
+  covered_security_symbols?: number;
+  /** covered_security_symbols / security_symbols, as a whole percent. 0 when there are none. */
+  symbol_coverage_percent?: number;
+  /** The security-relevant symbols no annotation reaches, by file then line. */
+  uncovered_symbols?: UncoveredSymbol[];
 }
 
 // `total_symbols` (permanently 0) and `unannotated_critical` (permanently [])
@@ -539,7 +643,21 @@ export interface CoverageStats {
 // that existed only to describe the latter. Both were hardcoded constants in a
 // schema presented as public, so a consumer could not distinguish "not
 // computed" from "computed, and it is zero". Absent says the first; 0 said the
-// second. Per-symbol coverage would need a real implementation, not a field.
+// second. The optional symbol fields above are the real implementation that
+// replaced them, and keep the same rule: absent unless computed.
+
+/** What made a symbol security-relevant. A symbol can fall in several. */
+export type SecurityCategory = 'route' | 'database' | 'auth' | 'file-io';
+
+export interface UncoveredSymbol {
+  file: string;
+  /** Qualified name — `Server.Handle`, `Auth.login`. */
+  symbol: string;
+  kind: 'function' | 'method';
+  /** Declaration line, not doc comment. */
+  line: number;
+  categories: SecurityCategory[];
+}
 
 // ─── Parse Diagnostics ───────────────────────────────────────────────
 
@@ -601,6 +719,8 @@ export type DiagnosticCode =
   | 'unknown-verb'
   /** Two definitions claim the same `(#id)`. */
   | 'duplicate-id'
+  /** A notebook or other container whose structure could not be read; nothing in it was parsed. */
+  | 'unreadable-container'
   // ── Validation-time (src/parser/validate.ts) ──
   /** A `#id` reference resolves to no definition. */
   | 'dangling-ref'
@@ -612,6 +732,14 @@ export type DiagnosticCode =
   | 'imprecise-entitlement'
   /** `@accepts` with no paired `@audit` — acceptance without a traceable review. */
   | 'accepted-without-audit'
+  /** `@apply` names a template no `@template` defines. */
+  | 'unknown-template'
+  /** `@apply` passes a different number of arguments than the template declares. */
+  | 'template-arity'
+  /** Two `@template` definitions share a name. */
+  | 'duplicate-template'
+  /** An `@accepts` is past its `until:` date and has not been reviewed again. */
+  | 'expired-acceptance'
   /** A `.gal` sidecar sits somewhere other than its conventional path. */
   | 'off-convention-gal'
   /** An on-convention `.gal` sidecar carries `@source` blocks for other files. */
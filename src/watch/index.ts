@@ -0,0 +1,338 @@
+/**
+ * GuardLink — Watch mode: keep the threat model live while files are edited.
+ *
+ * One long-lived model per root, re-parsed when something under the root moves,
+ * and compared against the previous parse so each save is reported as what it
+ * changed rather than as the whole model again. There is no detection logic
+ * here, in the same spirit as `ci/`:
+ *
+ *   what changed in the model   → `diffModels`               (diff/engine.ts)
+ *   newly unmitigated / resolved → `diffModels`, D36 site keys
+ *   dangling refs               → `findDanglingRefs`         (parser/validate.ts)
+ *   everything else             → the parser's own diagnostics
+ *
+ * A watcher that computed any of these itself would be a third opinion on the
+ * same model, and would disagree with `validate` the first time either changed.
+ *
+ * ── Only changed files are parsed ───────────────────────────────────
+ *
+ * Every refresh goes through `parseProject` with the on-disk parse cache, so a
+ * save costs one file's parse plus a stat per file. The watcher does not keep
+ * a second per-file cache of its own: two caches of the same thing are two
+ * chances to disagree.
+ *
+ * ── How changes are noticed ─────────────────────────────────────────
+ *
+ * `fs.watch` with `recursive: true` where the platform has it. Where it does
+ * not (Linux before Node 19.1), the watcher polls `fingerprintProject` instead —
+ * metadata only, and the same signal the MCP cache already trusts. Events are
+ * debounced, because an editor's save is often three writes, and a refresh that
+ * arrives while one is running is coalesced into one more rather than queued.
+ *
+ * Changes under `.git/`, `node_modules/` and `.guardlink/cache/` never trigger
+ * a refresh. The last matters most: every refresh writes the parse cache, and a
+ * watcher that reacted to its own cache write would never stop.
+ *
+ * @exposes #parser to #dos [medium] cwe:CWE-400 -- "A watched tree re-parses on every save; a burst of writes could keep it busy"
+ * @mitigates #parser against #dos using #resource-limits -- "Debounced, coalesced to one pending refresh, and only changed files are parsed (parse cache)"
+ * @flows FileSystem -> #parser via fs.watch -- "Change events for the watched root"
+ * @flows #parser -> ThreatModel via parseProject -- "Refreshed model handed to subscribers"
+ */
+
+import { watch, type FSWatcher } from 'node:fs';
+import { resolve } from 'node:path';
+import type { ThreatModel, ThreatModelExposure, ParseDiagnostic } from '../types/index.js';
+import { parseProject } from '../parser/parse-project.js';
+import { fingerprintProject } from '../parser/fingerprint.js';
+import { findDanglingRefs } from '../parser/validate.js';
+import { computeAnnotationHash } from '../parser/annotation-hash.js';
+import { diagnosticIcon } from '../parser/format.js';
+import { diffModels, type ThreatModelDiff } from '../diff/engine.js';
+import { formatDiff } from '../diff/format.js';
+
+export interface WatchOptions {
+  /** Project root to watch. */
+  root: string;
+  /** Project name for the model. */
+  project?: string;
+  /** Quiet period after the last change before re-parsing. Default 150 ms. */
+  debounceMs?: number;
+  /** Poll interval when recursive `fs.watch` is unavailable. Default 1000 ms. */
+  pollMs?: number;
+  /** Force polling even where `fs.watch` works — for network filesystems. */
+  poll?: boolean;
+}
+
+/** What one refresh changed, relative to the model before it. */
+export interface WatchUpdate {
+  /** Files whose change triggered this refresh, root-relative. Empty when polling. */
+  changedFiles: string[];
+  previousHash: string;
+  annotationHash: string;
+  /** The model delta — `diffModels(before, after)`. */
+  diff: ThreatModelDiff;
+  /** Shortcuts into `diff`, because these are what a developer is watching for. */
+  newUnmitigated: ThreatModelExposure[];
+  resolvedUnmitigated: ThreatModelExposure[];
+  /** Dangling references that appeared or went away. */
+  newDanglingRefs: ParseDiagnostic[];
+  resolvedDanglingRefs: ParseDiagnostic[];
+  /** Every other diagnostic that appeared or went away. */
+  newDiagnostics: ParseDiagnostic[];
+  resolvedDiagnostics: ParseDiagnostic[];
+}
+
+export interface WatchSnapshot {
+  model: ThreatModel;
+  /** Parse diagnostics, as `parseProject` returned them. */
+  diagnostics: ParseDiagnostic[];
+  annotationHash: string;
+}
+
+type Listener = (update: WatchUpdate) => void;
+
+/**
+ * Parse `root` once and keep the model current until `close()`.
+ *
+ * Resolves after the initial parse, so `current()` is always populated. Updates
+ * are delivered to `subscribe` listeners only when the model or its diagnostics
+ * actually moved: a save that changed nothing the model can see is silent.
+ */
+export async function startWatch(options: WatchOptions) {
+  const root = resolve(options.root);
+  const project = options.project ?? 'unknown';
+  const debounceMs = options.debounceMs ?? 150;
+  const pollMs = options.pollMs ?? 1000;
+
+  const listeners = new Set<Listener>();
+  const errorListeners = new Set<(err: unknown) => void>();
+  const pendingFiles = new Set<string>();
+
+  let snapshot = await parseSnapshot(root, project);
+  let fingerprint = await fingerprintProject(root);
+  let chain: Promise<unknown> = Promise.resolve();
+  let queued: Promise<WatchUpdate | null> | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let closed = false;
+
+  /**
+   * Re-parse and report what moved. Resolves null when nothing did.
+   *
+   * Refreshes run one at a time. A call made while one is running queues the
+   * next; calls made while that one is still queued share it, so a burst of
+   * saves costs at most the refresh in flight plus one.
+   */
+  function refresh(): Promise<WatchUpdate | null> {
+    if (queued) return queued;
+    const next = chain.then(() => {
+      queued = null;
+      return runRefresh();
+    });
+    queued = next;
+    chain = next.catch(() => null);
+    return next;
+  }
+
+  async function runRefresh(): Promise<WatchUpdate | null> {
+    const changedFiles = [...pendingFiles].sort();
+    pendingFiles.clear();
+    const before = snapshot;
+    const after = await parseSnapshot(root, project);
+    fingerprint = await fingerprintProject(root);
+    snapshot = after;
+    const update = compareSnapshots(before, after, changedFiles);
+    if (update) for (const l of listeners) l(update);
+    return update;
+  }
+
+  function schedule(file?: string): void {
+    if (closed) return;
+    if (file) pendingFiles.add(file);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      refresh().catch(err => { for (const l of errorListeners) l(err); });
+    }, debounceMs);
+  }
+
+  let watcher: FSWatcher | null = null;
+  let poller: ReturnType<typeof setInterval> | null = null;
+
+  function startPolling(): void {
+    if (poller || closed) return;
+    poller = setInterval(() => {
+      fingerprintProject(root).then(fp => {
+        if (fp !== fingerprint) schedule();
+      }, err => { for (const l of errorListeners) l(err); });
+    }, pollMs);
+  }
+
+  if (!options.poll) {
+    try {
+      watcher = watch(root, { recursive: true }, (_event, filename) => {
+        const rel = filename ? String(filename).replaceAll('\\', '/') : undefined;
+        if (rel && isIgnoredChange(rel)) return;
+        schedule(rel);
+      });
+      // A watcher that dies mid-session (inotify exhausted on a huge tree,
+      // the root deleted and recreated) degrades to polling rather than to a
+      // model that silently stops moving.
+      watcher.on('error', () => {
+        watcher?.close();
+        watcher = null;
+        startPolling();
+      });
+    } catch {
+      watcher = null;
+    }
+  }
+  if (!watcher) startPolling();
+
+  return {
+    root,
+    /** How changes are being noticed right now. */
+    mode: (): 'events' | 'polling' => (watcher ? 'events' : 'polling'),
+    /** The model as of the last completed refresh. */
+    current: (): WatchSnapshot => snapshot,
+    refresh,
+    /** Register for updates. Returns the unsubscribe function. */
+    subscribe(listener: Listener): () => void {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    /** Errors from background refreshes, which have no caller to throw to. */
+    onError(listener: (err: unknown) => void): () => void {
+      errorListeners.add(listener);
+      return () => { errorListeners.delete(listener); };
+    },
+    /** Stop watching. Pending refreshes are dropped; the last snapshot stays readable. */
+    close(): void {
+      closed = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      watcher?.close();
+      if (poller) clearInterval(poller);
+      listeners.clear();
+      errorListeners.clear();
+    },
+  };
+}
+
+export type ModelWatcher = Awaited<ReturnType<typeof startWatch>>;
+
+async function parseSnapshot(root: string, project: string): Promise<WatchSnapshot> {
+  const { model, diagnostics } = await parseProject({ root, project, cache: true });
+  return { model, diagnostics, annotationHash: computeAnnotationHash(model) };
+}
+
+/** Paths whose changes cannot move the model, including the cache our own refresh writes. */
+function isIgnoredChange(rel: string): boolean {
+  const segments = rel.split('/');
+  if (segments.includes('.git') || segments.includes('node_modules')) return true;
+  return rel.startsWith('.guardlink/cache/') || rel === '.guardlink/cache';
+}
+
+/**
+ * The update between two snapshots, or null when neither the model nor its
+ * diagnostics moved. Exported so the comparison can be tested without a
+ * filesystem watcher in the loop.
+ */
+export function compareSnapshots(
+  before: WatchSnapshot,
+  after: WatchSnapshot,
+  changedFiles: string[] = [],
+): WatchUpdate | null {
+  const diff = diffModels(before.model, after.model, changedFiles.length > 0 ? { changedFiles } : {});
+
+  const danglingBefore = findDanglingRefs(before.model);
+  const danglingAfter = findDanglingRefs(after.model);
+  const [newDanglingRefs, resolvedDanglingRefs] = diagnosticDelta(danglingBefore, danglingAfter);
+  const [newDiagnostics, resolvedDiagnostics] = diagnosticDelta(before.diagnostics, after.diagnostics);
+
+  const moved = before.annotationHash !== after.annotationHash
+    || diff.summary.totalChanges > 0
+    || diff.staleEntitlements.length > 0
+    || newDanglingRefs.length + resolvedDanglingRefs.length > 0
+    || newDiagnostics.length + resolvedDiagnostics.length > 0;
+  if (!moved) return null;
+
+  return {
+    changedFiles,
+    previousHash: before.annotationHash,
+    annotationHash: after.annotationHash,
+    diff,
+    newUnmitigated: diff.newUnmitigatedExposures,
+    resolvedUnmitigated: diff.resolvedExposures,
+    newDanglingRefs, resolvedDanglingRefs,
+    newDiagnostics, resolvedDiagnostics,
+  };
+}
+
+/**
+ * Diagnostics that appeared and disappeared, compared as a multiset.
+ *
+ * Identity is (level, code, file, message) and deliberately not the line: an
+ * edit above a broken annotation moves its line, and reporting that as one
+ * diagnostic resolved and an identical one introduced is noise on every save.
+ */
+function diagnosticDelta(before: ParseDiagnostic[], after: ParseDiagnostic[]): [ParseDiagnostic[], ParseDiagnostic[]] {
+  const key = (d: ParseDiagnostic) => [d.level, d.code ?? '', d.file, d.message].join('\u0001');
+  const remaining = new Map<string, number>();
+  for (const d of before) remaining.set(key(d), (remaining.get(key(d)) ?? 0) + 1);
+
+  const added: ParseDiagnostic[] = [];
+  for (const d of after) {
+    const n = remaining.get(key(d)) ?? 0;
+    if (n > 0) remaining.set(key(d), n - 1);
+    else added.push(d);
+  }
+
+  const unmatched = new Map<string, number>();
+  for (const d of after) unmatched.set(key(d), (unmatched.get(key(d)) ?? 0) + 1);
+  const resolved: ParseDiagnostic[] = [];
+  for (const d of before) {
+    const n = unmatched.get(key(d)) ?? 0;
+    if (n > 0) unmatched.set(key(d), n - 1);
+    else resolved.push(d);
+  }
+
+  return [added, resolved];
+}
+
+// ─── Formatting ──────────────────────────────────────────────────────
+
+/**
+ * One update as the rolling text `guardlink watch` prints.
+ *
+ * Ordered by what a developer mid-edit needs first: what their save broke, then
+ * what it fixed, then the model delta in `formatDiff`'s own words.
+ */
+export function formatWatchUpdate(update: WatchUpdate, at: Date = new Date()): string {
+  const lines: string[] = [];
+  const time = at.toTimeString().slice(0, 8);
+  const files = update.changedFiles.length === 0 ? 'change detected'
+    : update.changedFiles.length <= 3 ? update.changedFiles.join(', ')
+      : `${update.changedFiles.slice(0, 3).join(', ')} (+${update.changedFiles.length - 3} more)`;
+  lines.push(`[${time}] ${files}`);
+
+  for (const e of update.newUnmitigated) {
+    lines.push(`  ⚠ new unmitigated: ${e.asset} → ${e.threat} [${e.severity || 'unset'}] (${e.location.file}:${e.location.line})`);
+  }
+  for (const d of [...update.newDanglingRefs, ...update.newDiagnostics]) {
+    lines.push(`  ${diagnosticIcon(d.level)} ${d.file}:${d.line}: ${d.message}`);
+  }
+  for (const e of update.resolvedUnmitigated) {
+    lines.push(`  ✓ resolved: ${e.asset} → ${e.threat} (${e.location.file}:${e.location.line})`);
+  }
+  for (const d of [...update.resolvedDanglingRefs, ...update.resolvedDiagnostics]) {
+    lines.push(`  ✓ fixed: ${d.file}: ${d.message}`);
+  }
+
+  if (update.diff.summary.totalChanges > 0 || update.diff.staleEntitlements.length > 0) {
+    for (const line of formatDiff(update.diff).split('\n')) {
+      lines.push(line ? `  ${line}` : '');
+    }
+  }
+  while (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines.join('\n');
+}
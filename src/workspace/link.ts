@@ -503,10 +503,14 @@ function writeWorkspaceToRepos(
 ): void {
   for (const repo of repos) {
     try {
+      // What a repo shares with the others is its own to keep across a relink.
+      const previous = loadWorkspaceConfig(repo.path);
       const config: WorkspaceConfig = {
         workspace,
         this_repo: repo.name,
         repos: workspaceRepos,
+        ...(previous?.shared_definitions ? { shared_definitions: previous.shared_definitions } : {}),
+        ...(previous?.shared_rules?.length ? { shared_rules: previous.shared_rules } : {}),
       };
 
       // Ensure .guardlink/ exists
@@ -110,6 +110,7 @@ export function parseWorkspaceYaml(content: string): WorkspaceConfig {
   const config: Partial<WorkspaceConfig> = { repos: [] };
 
   let inRepos = false;
+  let inRules = false;
   let currentRepo: Partial<{ name: string; registry: string }> | null = null;
 
   for (const line of lines) {
@@ -130,8 +131,16 @@ export function parseWorkspaceYaml(content: string): WorkspaceConfig {
       if (key === 'workspace') config.workspace = value;
       else if (key === 'this_repo') config.this_repo = value;
       else if (key === 'shared_definitions' && value && value !== 'null') config.shared_definitions = value;
-      else if (key === 'repos') { inRepos = true; continue; }
-      else inRepos = false;
+      else if (key === 'repos') { inRepos = true; inRules = false; continue; }
+      else if (key === 'shared_rules') { inRules = true; inRepos = false; config.shared_rules = []; continue; }
+      else { inRepos = false; inRules = false; }
+      continue;
+    }
+
+    // Inside shared_rules list
+    if (inRules && trimmed.startsWith('- ')) {
+      const path = trimmed.slice(2).trim().replace(/^["']|["']$/g, '');
+      if (path) config.shared_rules!.push(path);
       continue;
     }
 
@@ -185,6 +194,10 @@ export function serializeWorkspaceYaml(config: WorkspaceConfig): string {
   if (config.shared_definitions) {
     lines.push(`shared_definitions: ${config.shared_definitions}`);
   }
+  if (config.shared_rules?.length) {
+    lines.push('shared_rules:');
+    for (const path of config.shared_rules) lines.push(`  - ${path}`);
+  }
   return lines.join('\n') + '\n';
 }
 
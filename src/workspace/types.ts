@@ -33,6 +33,11 @@ export interface WorkspaceConfig {
   repos: WorkspaceRepo[];
   /** URL to shared definitions file (optional) */
   shared_definitions?: string;
+  /**
+   * Suggestion rule packs the repos share — `.yaml` files, or directories of
+   * them — relative to this repo, read beside its own `.guardlink/rules/`.
+   */
+  shared_rules?: string[];
 }
 
 // ─── Merge Types ─────────────────────────────────────────────────────
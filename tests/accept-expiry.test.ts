@@ -0,0 +1,149 @@
+/**
+ * Review-by dates on `@accepts` — an acceptance that says when it lapses.
+ *
+ * The property under test is that a lapsed decision gets noticed without
+ * changing what the model says: the exposure stays accepted, `validate` warns,
+ * and `ci --strict` fails. Dates are pinned with an explicit `today` so the
+ * suite does not start failing on the day a fixture date passes.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseString } from '../src/parser/parse-file.js';
+import { parseProject } from '../src/parser/parse-project.js';
+import { findExpiredAcceptances, findUnmitigatedExposures } from '../src/parser/validate.js';
+import { canonicalAnnotationRecords, computeAnnotationHash } from '../src/parser/annotation-hash.js';
+import { runCiChecks, formatCiReport } from '../src/ci/index.js';
+import { applyReviewAction, checkAcceptanceReview, getReviewableExposures } from '../src/review/index.js';
+import type { AcceptsAnnotation } from '../src/types/index.js';
+
+const DAY = new Date('2026-06-30T23:59:00Z');
+const NEXT_DAY = new Date('2026-07-01T00:00:00Z');
+
+describe('parsing until: and by:', () => {
+  it('reads both attributes, and either alone', () => {
+    const [both, until, by] = parseString([
+      '// @accepts #dos on #api until:2026-06-30 by:platform-team -- "gateway lands in Q3"',
+      '// @accepts #dos on #api until:2026-06-30',
+      '// @accepts #dos to #api by:alice@example.com',
+      '',
+    ].join('\n'), 'a.ts').annotations as AcceptsAnnotation[];
+    expect(both).toMatchObject({ threat: '#dos', asset: '#api', until: '2026-06-30', by: 'platform-team', description: 'gateway lands in Q3' });
+    expect(until).toMatchObject({ until: '2026-06-30', by: undefined });
+    expect(by).toMatchObject({ until: undefined, by: 'alice@example.com' });
+  });
+
+  it('errors on a date that is not on the calendar, or not a date', () => {
+    const diags = parseString('// @accepts #dos on #api until:2026-02-30\n// @accepts #dos on #api until:soon\n', 'a.ts').diagnostics;
+    expect(diags.map(d => [d.code, d.level, d.line])).toEqual([
+      ['malformed-annotation', 'error', 1],
+      ['malformed-annotation', 'error', 2],
+    ]);
+    expect(diags[0].message).toContain('until:2026-02-30, which is not a calendar date');
+  });
+});
+
+describe('expiry across validate and ci', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-accept-expiry-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'),
+      '// @asset App.Api (#api) -- "API"\n// @threat DoS (#dos) [medium] -- "Request flood"\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const source = (attrs: string) => writeFile(join(root, 'src', 'api.ts'), [
+    '// @exposes #api to #dos [medium] -- "no rate limit"',
+    `// @accepts #dos on #api ${attrs} -- "gateway lands in Q3"`,
+    '// @audit #api -- "revisit with the gateway"',
+    'export function handle() {}',
+    '',
+  ].join('\n'));
+
+  it('holds through its until: day and lapses the day after', async () => {
+    await source('until:2026-06-30 by:platform-team');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(findExpiredAcceptances(model, DAY)).toEqual([]);
+
+    const [expired] = findExpiredAcceptances(model, NEXT_DAY);
+    expect(expired).toMatchObject({ level: 'warning', code: 'expired-acceptance', file: 'src/api.ts', line: 2 });
+    expect(expired.message).toContain('expired on 2026-06-30 — due for review by platform-team');
+
+    // Still accepted: a missed review is reported, not turned into a new finding.
+    expect(findUnmitigatedExposures(model)).toEqual([]);
+  });
+
+  it('fails ci only under --strict, and says which acceptance lapsed', async () => {
+    await source('until:2026-06-30');
+    const { model } = await parseProject({ root, project: 'p' });
+
+    const advisory = await runCiChecks(root, model, { today: NEXT_DAY });
+    expect(advisory.summary).toMatchObject({ exposures: 0, expired_acceptances: 1, exit_code: 0 });
+    expect(advisory.expired_acceptances[0]).toMatchObject({ threat: '#dos', asset: '#api', until: '2026-06-30' });
+
+    const strict = await runCiChecks(root, model, { strict: true, today: NEXT_DAY });
+    expect(strict.summary.exit_code).toBe(1);
+    expect(formatCiReport(strict)).toContain('#dos on #api — until 2026-06-30 (src/api.ts:2)');
+
+    expect((await runCiChecks(root, model, { strict: true, today: DAY })).summary.exit_code).toBe(0);
+  });
+
+  it('hashes an acceptance without a date as before, and a changed date as a change', async () => {
+    await source('');
+    const plain = canonicalAnnotationRecords((await parseProject({ root, project: 'p' })).model)
+      .find(r => r.startsWith('accepts'));
+    expect(plain?.split(String.fromCharCode(1))).toEqual(['accepts', '#api', '#dos', 'gateway lands in Q3', 'src/api.ts']);
+
+    await source('until:2026-06-30');
+    const before = computeAnnotationHash((await parseProject({ root, project: 'p' })).model);
+    await source('until:2026-12-31');
+    const after = computeAnnotationHash((await parseProject({ root, project: 'p' })).model);
+    expect(after).not.toBe(before);
+  });
+});
+
+describe('review writes the date it was given', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-accept-review-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'),
+      '// @asset App.Api (#api) -- "API"\n// @threat DoS (#dos) [medium] -- "Request flood"\n');
+    await writeFile(join(root, 'src', 'api.ts'),
+      '// @exposes #api to #dos [medium] -- "no rate limit"\nexport function handle() {}\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('writes until: and by: on the @accepts, and the parser reads them back', async () => {
+    const [reviewable] = getReviewableExposures((await parseProject({ root, project: 'p' })).model);
+    await applyReviewAction(root, reviewable, {
+      decision: 'accept', justification: 'gateway lands in Q3', until: '2099-06-30', by: 'platform-team',
+    });
+
+    expect(await readFile(join(root, 'src', 'api.ts'), 'utf-8'))
+      .toContain('// @accepts #dos on #api until:2099-06-30 by:platform-team -- "gateway lands in Q3"');
+    const { model, diagnostics } = await parseProject({ root, project: 'p' });
+    expect(diagnostics).toEqual([]);
+    expect(model.acceptances[0]).toMatchObject({ until: '2099-06-30', by: 'platform-team' });
+  });
+
+  it('refuses a date that is not one, has passed, or an owner with spaces', () => {
+    expect(checkAcceptanceReview(undefined, undefined)).toBeNull();
+    expect(checkAcceptanceReview('2026-06-30', 'sec-team', DAY)).toBeNull();
+    expect(checkAcceptanceReview('30/06/2026', undefined, DAY)).toContain('use YYYY-MM-DD');
+    expect(checkAcceptanceReview('2026-06-29', undefined, DAY)).toContain('has already passed');
+    expect(checkAcceptanceReview('2026-06-30', 'security team', DAY)).toContain('not a single token');
+  });
+});
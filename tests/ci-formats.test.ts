@@ -0,0 +1,91 @@
+/**
+ * `--format junit|codeclimate` — validate's diagnostics and exposures and ci's
+ * report, mapped one finding each, with fingerprints that survive a line move.
+ */
+import { describe, it, expect } from 'vitest';
+import { validateFindings, ciFindings, toJUnit, toCodeClimate, type CiReport } from '../src/ci/index.js';
+import type { ParseDiagnostic, ThreatModelExposure } from '../src/types/index.js';
+import type { AnchorDrift } from '../src/parser/reanchor.js';
+
+const exposure = (line: number, severity: ThreatModelExposure['severity'] = 'high'): ThreatModelExposure => ({
+  asset: '#api', threat: '#sqli', severity, external_refs: [], description: 'email <concatenated> into SQL', location: { file: 'src/api.ts', line },
+});
+
+const dangling = (line: number): ParseDiagnostic => ({
+  level: 'warning', code: 'dangling-ref', message: 'Dangling reference: #nope is never defined',
+  file: 'src/api.ts', line, raw: '@mitigates #api against #nope',
+});
+
+const drift: AnchorDrift = {
+  gal_file: '.guardlink/annotations/src/api.ts.gal', file: 'src/api.ts', recorded_line: 1, symbol: 'login',
+  kind: 'moved', suggested_line: 5, message: 'login moved from line 1 to 5',
+};
+
+/** A `CiReport` with only what `ciFindings` reads filled in. */
+function report(partial: Partial<CiReport>): CiReport {
+  return {
+    schema: 'guardlink.ci/v1', exposures: [], drift: [], expired_acceptances: [], baseline: null, policy: null,
+    summary: { policy: null, symbol_coverage: null },
+    ...partial,
+  } as unknown as CiReport;
+}
+
+describe('validateFindings', () => {
+  it('checks each diagnostic as its code, and an exposure as unmitigated-exposure', () => {
+    const findings = validateFindings(
+      [dangling(3), { level: 'error', message: 'Unreadable', file: 'src/x.ts', line: 1 }],
+      [exposure(9, 'critical')],
+    );
+    expect(findings.map(f => [f.check, f.severity, `${f.file}:${f.line}`])).toEqual([
+      ['dangling-ref', 'minor', 'src/api.ts:3'],
+      ['diagnostic', 'major', 'src/x.ts:1'],
+      ['unmitigated-exposure', 'critical', 'src/api.ts:9'],
+    ]);
+  });
+
+  it('keeps a fingerprint when only the line moves, and tells repeats apart', () => {
+    const before = validateFindings([dangling(3)], [exposure(9)]);
+    const after = validateFindings([dangling(30)], [exposure(90)]);
+    expect(after.map(f => f.fingerprint)).toEqual(before.map(f => f.fingerprint));
+
+    const twice = validateFindings([dangling(3), dangling(4)], []);
+    expect(new Set(twice.map(f => f.fingerprint)).size).toBe(2);
+  });
+});
+
+describe('ciFindings', () => {
+  it('lists only what the baseline does not record, and the failed rules and floor', () => {
+    const findings = ciFindings(report({
+      exposures: [exposure(1), exposure(9, 'low')],
+      drift: [drift],
+      baseline: { new_exposures: [exposure(9, 'low')], new_drift: [drift] },
+      policy: [
+        { id: 'no-critical', check: 'unmitigated', level: 'fail', passed: false, value: 1, max: 0, detail: '1 critical, max 0' },
+        { id: 'drift', check: 'drift', level: 'warn', passed: true, value: 0, max: 0, detail: '0, max 0' },
+      ],
+      summary: {
+        policy: { source: '.guardlink/policy.yaml', rules: 2, failed: 1, warned: 0 },
+        symbol_coverage: { floor: 80, covered: 1, total: 4, percent: 25, passed: false },
+      },
+    } as unknown as Partial<CiReport>));
+    expect(findings.map(f => [f.check, f.file])).toEqual([
+      ['unmitigated-exposure', 'src/api.ts'],
+      ['anchor-drift/moved', '.guardlink/annotations/src/api.ts.gal'],
+      ['policy/no-critical', '.guardlink/policy.yaml'],
+      ['symbol-coverage', undefined],
+    ]);
+    // Code Climate places every issue in a file; the floor has none.
+    expect(toCodeClimate(findings).map(i => i.check_name)).toEqual(['unmitigated-exposure', 'anchor-drift/moved', 'policy/no-critical']);
+  });
+});
+
+describe('toJUnit', () => {
+  it('writes a passing case for a check that found nothing, and escapes what it quotes', () => {
+    const xml = toJUnit(validateFindings([], [exposure(9)]), { name: 'guardlink validate', checks: ['diagnostic', 'unmitigated-exposure'] });
+    expect(xml).toContain('<testsuites name="guardlink validate" tests="2" failures="1" errors="0">');
+    expect(xml).toContain('<testcase classname="guardlink.diagnostic" name="No annotation errors or warnings"/>');
+    expect(xml).toContain('name="src/api.ts: Unmitigated exposure: #api → #sqli" file="src/api.ts"');
+    expect(xml).toContain('&quot;email &lt;concatenated&gt; into SQL&quot;\nat src/api.ts:9</failure>');
+    expect(xml).not.toContain('<concatenated>');
+  });
+});
@@ -15,11 +15,12 @@
  */
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
-import { execFile } from 'node:child_process';
+import { execFile, execFileSync } from 'node:child_process';
 import { createRequire } from 'node:module';
 import { tmpdir } from 'node:os';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { parsePolicy } from '../src/ci/policy.js';
 
 const repoRoot = join(dirname(fileURLToPath(import.meta.url)), '..');
 const cli = join(repoRoot, 'src', 'cli', 'index.ts');
@@ -227,7 +228,7 @@ describe('drifted @source anchors are reported and, by default, do not fail the
       suggested_line: 5,
     });
     expect(report.summary.by_kind).toEqual({
-      moved: 1, symbol_gone: 0, file_gone: 0, line_gone: 0,
+      moved: 1, relocated: 0, renamed: 0, symbol_gone: 0, file_gone: 0, line_gone: 0,
     });
   });
 
@@ -329,3 +330,299 @@ describe('--format json emits guardlink.ci/v1', () => {
     expect(runs.badFormat.stderr).toContain("Unknown --format 'yaml'");
   });
 });
+
+describe('--format junit and codeclimate, for ci and validate', () => {
+  let root: string;
+  let runs: Record<'ciJunit' | 'ciStrictJunit' | 'ciCodeClimate' | 'validateJunit' | 'validateCodeClimate', Run>;
+
+  beforeAll(async () => {
+    root = await scaffold('guardlink-ci-reports-', EXPOSED_SOURCE);
+    runs = await warm(root, {
+      ciJunit: ['ci', '.', '--format', 'junit'],
+      ciStrictJunit: ['ci', '.', '--format', 'junit', '--strict'],
+      ciCodeClimate: ['ci', '.', '--format', 'codeclimate'],
+      validateJunit: ['validate', '.', '--format', 'junit'],
+      validateCodeClimate: ['validate', '.', '--format', 'codeclimate'],
+    });
+  }, 60_000);
+  afterAll(async () => { await rm(root, { recursive: true, force: true }); });
+
+  it('writes one failed test case per exposure, and the exit code the text run would have had', () => {
+    expect(runs.ciJunit.status).toBe(0);
+    expect(runs.ciStrictJunit.status).toBe(1);
+    expect(runs.ciJunit.stdout).toMatch(/^<\?xml /);
+    expect(runs.ciJunit.stdout).toContain('<testsuite name="Unmitigated exposures" tests="2" failures="2"');
+    expect(runs.ciJunit.stdout).toContain('<testcase classname="guardlink.anchor-drift" name="No drifted @source anchors"/>');
+    expect(runs.ciJunit.stderr).toContain('GuardLink CI: 2 unmitigated exposure(s)');
+  });
+
+  it('writes Code Climate issues at the @exposes lines', () => {
+    const issues = JSON.parse(runs.ciCodeClimate.stdout);
+    expect(issues.map((i: { severity: string; location: { path: string } }) => [i.severity, i.location.path])).toEqual([
+      ['critical', 'src/api.ts'],
+      ['minor', 'src/api.ts'],
+    ]);
+    expect(JSON.parse(runs.validateCodeClimate.stdout).map((i: { fingerprint: string }) => i.fingerprint))
+      .toEqual(issues.map((i: { fingerprint: string }) => i.fingerprint));
+  });
+
+  it('gives validate a diagnostics suite beside the exposures', () => {
+    expect(runs.validateJunit.status).toBe(0);
+    expect(runs.validateJunit.stdout).toContain('<testsuites name="guardlink validate" tests="3" failures="2"');
+    expect(runs.validateJunit.stdout).toContain('name="No annotation errors or warnings"');
+  });
+});
+
+// ─── the symbol coverage floor ───────────────────────────────────────
+
+describe('--min-symbol-coverage fails the build below the floor, strict or not', () => {
+  let root: string;
+  let runs: Record<'met' | 'missed' | 'json' | 'badFloor', Run>;
+
+  beforeAll(async () => {
+    // `login` is an auth check by name and annotated; `save` writes a file and is not.
+    root = await scaffold('guardlink-ci-symbols-', CLEAN_SOURCE);
+    await writeFile(join(root, 'src', 'store.ts'),
+      "import { writeFileSync } from 'node:fs';\n\nexport function save(p: string) { writeFileSync(p, ''); }\n");
+    runs = await warm(root, {
+      met: ['ci', '.', '--min-symbol-coverage', '50'],
+      missed: ['ci', '.', '--min-symbol-coverage', '80'],
+      json: ['ci', '.', '--min-symbol-coverage', '80', '--format', 'json'],
+      badFloor: ['ci', '.', '--min-symbol-coverage', 'most'],
+    });
+  }, 60_000);
+  afterAll(async () => { await rm(root, { recursive: true, force: true }); });
+
+  it('passes when the floor is met', () => {
+    expect(runs.met.status).toBe(0);
+    expect(runs.met.stderr).toContain('Symbol coverage: 1/2 (50%), floor 50% — met');
+  });
+
+  it('exits 1 below the floor without --strict', () => {
+    expect(runs.missed.status).toBe(1);
+    expect(runs.missed.stderr).toContain('Symbol coverage: 1/2 (50%), floor 80% — below floor');
+    expect(runs.missed.stderr).toContain('guardlink status --uncovered-symbols');
+  });
+
+  it('carries the check in the JSON summary, with the verdict the shell got', () => {
+    const report = JSON.parse(runs.json.stdout);
+    expect(report.summary.symbol_coverage).toEqual({ covered: 1, total: 2, percent: 50, floor: 80, passed: false });
+    expect(report.summary.exit_code).toBe(1);
+    expect(runs.json.status).toBe(1);
+  });
+
+  it('rejects a floor that is not a percent', () => {
+    expect(runs.badFloor.status).toBe(1);
+    expect(runs.badFloor.stderr).toContain("--min-symbol-coverage must be a percent between 0 and 100, got 'most'");
+  });
+});
+
+// ─── the baseline ────────────────────────────────────────────────────
+
+describe('--baseline fails only on what the baseline does not record', () => {
+  let root: string;
+  let update: Run;
+  let written: string;
+  let runs: Record<'gated' | 'json' | 'rerun' | 'missing', Run>;
+
+  beforeAll(async () => {
+    root = await scaffold('guardlink-ci-baseline-', EXPOSED_SOURCE);
+    update = await guardlink(root, 'baseline', 'update', '.');
+    written = await readFile(join(root, '.guardlink', 'baseline.json'), 'utf-8');
+
+    // The known gaps move down the file; a new one arrives in another file.
+    await writeFile(join(root, 'src', 'api.ts'), `import { join } from 'node:path';\n\nexport const sep = join('a', 'b');\n\n${EXPOSED_SOURCE}`);
+    await writeFile(join(root, 'src', 'upload.ts'), `/**
+ * @exposes #api to #pt [medium] cwe:CWE-22 -- "upload name used as a path"
+ */
+export function upload(name: string) { return name; }
+`);
+    runs = await warm(root, {
+      gated: ['ci', '.', '--baseline', '.guardlink/baseline.json'],
+      json: ['ci', '.', '--baseline', '.guardlink/baseline.json', '--format', 'json'],
+      rerun: ['baseline', 'update', '.', '-o', 'again.json'],
+      missing: ['ci', '.', '--baseline', 'nowhere.json'],
+    });
+  }, 60_000);
+  afterAll(async () => { await rm(root, { recursive: true, force: true }); });
+
+  it('records the exposures by threatId, without lines or a timestamp', () => {
+    expect(update.status).toBe(0);
+    expect(update.stderr).toContain('Baselined 2 unmitigated exposure(s) and 0 drifted anchor(s)');
+    const baseline = JSON.parse(written);
+    expect(baseline.schema).toBe('guardlink.baseline/v1');
+    expect(baseline.exposures.map((e: { asset: string; file: string }) => [e.asset, e.file]).sort())
+      .toEqual([['#api', 'src/api.ts'], ['#db', 'src/api.ts']]);
+    expect(baseline.exposures[0].id).toMatch(/^gl-[0-9a-f]{12}$/);
+    expect(written).not.toContain('"line"');
+  });
+
+  it('exits 1 on the new exposure alone, without --strict, and lists only it', () => {
+    expect(runs.gated.status).toBe(1);
+    expect(runs.gated.stderr).toContain('Unmitigated exposures: 3 (critical 1, medium 2) — 1 new, 2 baselined');
+    expect(runs.gated.stderr).toContain('1 new unmitigated exposure(s):');
+    expect(runs.gated.stderr).toContain('#api → #pt [medium] (src/upload.ts:2)');
+    expect(runs.gated.stderr).not.toContain('#api → #sqli');
+  });
+
+  it('reports baselined and new counts separately in guardlink.ci/v1', () => {
+    const report = JSON.parse(runs.json.stdout);
+    expect(report.schema).toBe('guardlink.ci/v1');
+    expect(report.summary.exposures).toBe(3);
+    expect(report.summary.baseline).toEqual({
+      exposures: { baselined: 2, new: 1 }, drift: { baselined: 0, new: 0 }, resolved: 0,
+    });
+    expect(report.baseline.new_exposures.map((e: { location: { file: string } }) => e.location.file)).toEqual(['src/upload.ts']);
+    expect(report.summary.exit_code).toBe(1);
+  });
+
+  it('refuses a baseline that is not there', () => {
+    expect(runs.missing.status).toBe(1);
+    expect(runs.missing.stderr).toContain('No baseline at');
+    expect(runs.missing.stderr).toContain('guardlink baseline update');
+  });
+
+  it('gives a known gap the same entry on every update', async () => {
+    expect(runs.rerun.status).toBe(0);
+    const again = JSON.parse(await readFile(join(root, 'again.json'), 'utf-8'));
+    const first = JSON.parse(written);
+    // The rerun sees the new exposure too; the two it shares with the first are identical entries.
+    expect(again.exposures.filter((e: { file: string }) => e.file === 'src/api.ts')).toEqual(first.exposures);
+  });
+});
+
+// ─── the policy ──────────────────────────────────────────────────────
+
+describe('a policy gates on the rules it names, strict or not', () => {
+  let root: string;
+  let runs: Record<'gated' | 'json' | 'relaxed' | 'broken' | 'missing', Run>;
+
+  beforeAll(async () => {
+    // #db keeps its exposure but loses its @audit, so the acceptance below has none.
+    root = await scaffold('guardlink-ci-policy-', EXPOSED_SOURCE.replace(/ \* @audit #db.*\n/, ''));
+    await writeFile(join(root, 'src', 'util.ts'), 'export const id = (x: string) => x;\n');
+    await writeFile(join(root, 'src', 'legacy.ts'), `/**
+ * @accepts #sqli on #db -- "Internal tool, queries are fixed"
+ */
+export function legacy() {}
+`);
+    await writeFile(join(root, '.guardlink', 'policy.yaml'), `# Org baseline policy
+rules:
+  - id: no-open-critical
+    check: unmitigated-exposures
+    severity: [critical, high]
+  - id: medium-budget
+    check: unmitigated-exposures
+    severity: [medium, low]
+    max: 1
+  - check: coverage
+    min: 40   # whole percent of source files
+  - check: accepts-without-audit
+    level: warn
+  - check: anchor-drift
+    level: warn
+`);
+    await writeFile(join(root, 'relaxed.yaml'), `rules:
+  - check: unmitigated-exposures
+    level: warn
+`);
+    await writeFile(join(root, 'broken.yaml'), `rules:
+  - check: unmitigated-exposure
+`);
+    runs = await warm(root, {
+      gated: ['ci', '.'],
+      json: ['ci', '.', '--format', 'json'],
+      relaxed: ['ci', '.', '--policy', 'relaxed.yaml'],
+      broken: ['ci', '.', '--policy', 'broken.yaml'],
+      missing: ['ci', '.', '--policy', 'nowhere.yaml'],
+    });
+  }, 60_000);
+  afterAll(async () => { await rm(root, { recursive: true, force: true }); });
+
+  it('reads .guardlink/policy.yaml and exits 1 on a failed fail-level rule, without --strict', () => {
+    expect(runs.gated.status).toBe(1);
+    expect(runs.gated.stderr).toContain('Policy (.guardlink/policy.yaml):');
+    expect(runs.gated.stderr).toMatch(/✗ fail\s+fail\s+no-open-critical\s+1 unmitigated critical\/high exposure\(s\), max 0/);
+    expect(runs.gated.stderr).toMatch(/✓ pass\s+fail\s+medium-budget\s+1 unmitigated medium\/low exposure\(s\), max 1/);
+    expect(runs.gated.stderr).toMatch(/⚠ warn\s+warn\s+accepts-without-audit\s+1 @accepts without @audit, max 0/);
+    expect(runs.gated.stderr).toContain('✗ 1 policy rule(s) failed: no-open-critical.');
+  });
+
+  it('emits every rule in guardlink.ci/v1, in policy order', () => {
+    const report = JSON.parse(runs.json.stdout);
+    expect(report.policy.map((r: { id: string; passed: boolean; level: string }) => [r.id, r.passed, r.level])).toEqual([
+      ['no-open-critical', false, 'fail'],
+      ['medium-budget', true, 'fail'],
+      ['coverage', true, 'fail'],
+      ['accepts-without-audit', false, 'warn'],
+      ['anchor-drift', true, 'warn'],
+    ]);
+    expect(report.policy[2]).toMatchObject({ check: 'coverage', value: 43, min: 40 });
+    expect(report.summary.policy).toEqual({ source: '.guardlink/policy.yaml', rules: 5, failed: 1, warned: 1 });
+    expect(report.summary.exit_code).toBe(1);
+  });
+
+  it('does not fail the build on a warn rule', () => {
+    expect(runs.relaxed.status).toBe(0);
+    expect(runs.relaxed.stderr).toContain('Policy (relaxed.yaml):');
+    expect(runs.relaxed.stderr).toMatch(/⚠ warn\s+warn\s+unmitigated-exposures\s+2 unmitigated exposure\(s\), max 0/);
+  });
+
+  it('refuses a policy it cannot read, naming the line', () => {
+    expect(runs.broken.status).toBe(1);
+    expect(runs.broken.stderr).toContain('broken.yaml:2: unknown check "unmitigated-exposure"');
+    expect(runs.missing.status).toBe(1);
+    expect(runs.missing.stderr).toContain('No policy at nowhere.yaml');
+  });
+});
+
+describe('a stale-entitlements rule whose since: does not resolve', () => {
+  let root: string;
+  let runs: Record<'typo' | 'head', Run>;
+
+  beforeAll(async () => {
+    root = await scaffold('guardlink-ci-since-', EXPOSED_SOURCE);
+    for (const args of [['init', '-q'], ['add', '-A'], ['-c', 'user.name=t', '-c', 'user.email=t@t', 'commit', '-qm', 'init']]) {
+      execFileSync('git', args, { cwd: root });
+    }
+    await writeFile(join(root, 'typo.yaml'), 'rules:\n  - check: stale-entitlements\n    since: origin/mian\n');
+    await writeFile(join(root, 'head.yaml'), 'rules:\n  - check: stale-entitlements\n    since: HEAD\n');
+    runs = await warm(root, {
+      typo: ['ci', '.', '--policy', 'typo.yaml'],
+      head: ['ci', '.', '--policy', 'head.yaml'],
+    });
+  }, 60_000);
+  afterAll(async () => { await rm(root, { recursive: true, force: true }); });
+
+  it('fails the rule and names the ref, rather than counting nothing changed', () => {
+    expect(runs.typo.status).toBe(1);
+    expect(runs.typo.stderr).toMatch(/✗ fail\s+fail\s+stale-entitlements\s+since: origin\/mian does not resolve to a commit/);
+    expect(runs.head.status).toBe(0);
+    expect(runs.head.stderr).toMatch(/✓ pass\s+fail\s+stale-entitlements\s+0 entitlement\(s\) citing code changed since HEAD/);
+  });
+});
+
+describe('parsePolicy', () => {
+  it('reads the subset it documents and rejects the rest by line', () => {
+    const policy = parsePolicy(`rules:
+  - check: stale-entitlements   # cited code changed in this PR
+    since: "origin/main"
+  - id: '#1'
+    check: symbol-coverage
+    min: 80
+`, 'p.yaml');
+    expect(policy.rules).toEqual([
+      { id: 'stale-entitlements', check: 'stale-entitlements', level: 'fail', since: 'origin/main' },
+      { id: '#1', check: 'symbol-coverage', level: 'fail', min: 80 },
+    ]);
+
+    const bad = (body: string) => () => parsePolicy(`rules:\n${body}`, 'p.yaml');
+    expect(bad('  - check: coverage\n')).toThrow('p.yaml:2: coverage needs "min:"');
+    expect(bad('  - check: coverage\n    min: lots\n')).toThrow('p.yaml:3: "min" must be a percent between 0 and 100');
+    expect(bad('  - check: anchor-drift\n    severity: [high]\n')).toThrow('p.yaml:3: "severity" does not apply to anchor-drift');
+    expect(bad('  - check: unmitigated-exposures\n    severity: [severe]\n')).toThrow('"severity" takes critical, high, medium, low, unset');
+    expect(bad('  - check: anchor-drift\n  - check: anchor-drift\n')).toThrow('p.yaml:3: rule id "anchor-drift" is used twice');
+    expect(bad('  - check: stale-entitlements\n')).toThrow('stale-entitlements needs "since:"');
+    expect(() => parsePolicy('strict: true\n', 'p.yaml')).toThrow('p.yaml:1: expected "rules:"');
+  });
+});
@@ -105,8 +105,13 @@ describe('guardlink_context — inline mode (live repo)', () => {
     expect(c.hint).toMatch(/never read|never parsed/);
   });
 
+  it('unannotated Markdown is scanned, though it is in neither file list', () => {
+    expect(fileContext(model, { file: 'README.md', exists: true }).status).toBe('scanned_without_annotations');
+    expect(fileContext(model, { file: 'tests/fixtures/notes.md', exists: true }).status).toBe('not_scanned');
+  });
+
   it('an unscanned extension says so rather than implying cleanliness', () => {
-    const c = fileContext(model, { file: 'README.md', exists: true });
+    const c = fileContext(model, { file: 'package.json', exists: true });
     expect(c.status).toBe('not_scanned');
     expect(c.hint).toMatch(/extension is not scanned/);
     expect(c.hint).toMatch(/does NOT mean the file is clean/);
@@ -69,41 +69,46 @@ const CANONICAL = 'src/parser/coverage.ts';
 const ALLOWED: { file: string; snippet: string; why: string }[] = [
   {
     file: 'src/diff/engine.ts',
-    snippet: '`${m.asset}::${m.threat}::${m.control || \'\'}`',
+    snippet: '`${ids.asset(m.asset)}::${ids.threat(m.threat)}::${m.control ? ids.control(m.control) : \'\'}`',
     why: 'mitigationKey — record identity for change detection between two commits, not coverage',
   },
   {
     file: 'src/diff/engine.ts',
-    snippet: '`${e.asset}::${e.threat}`',
+    snippet: '`${ids.asset(e.asset)}::${ids.threat(e.threat)}`',
     why: 'exposureKey — record identity for the added/removed/modified diff, not coverage',
   },
   {
     file: 'src/diff/engine.ts',
-    snippet: '`${a.asset}::${a.threat}`',
+    snippet: '`${ids.asset(a.asset)}::${ids.threat(a.threat)}`',
     why: 'acceptanceKey — record identity, not coverage',
   },
   {
     file: 'src/diff/engine.ts',
-    snippet: '`${c.asset}::${c.threat}`',
+    snippet: '`${ids.asset(c.asset)}::${ids.threat(c.threat)}`',
     why: 'confirmed diff key — record identity, not coverage',
   },
   {
     file: 'src/diff/engine.ts',
-    snippet: '`${normalizeRef(e.asset)}::${normalizeRef(e.threat)}::${e.location.file}::${site}`',
+    snippet: '`${ids.asset(e.asset)}::${ids.threat(e.threat)}::${e.location.file}::${site}`',
     why: 'unmitignatedKey — the D36 site-keyed identity for the risk delta; already site-aware',
   },
   {
-    file: 'src/mcp/lookup.ts',
+    file: 'src/diff/engine.ts',
+    snippet: '`${ids.asset(t.source)}->${ids.asset(t.target)}::${ids.threat(t.threat)}`',
+    why: 'transfer diff key — record identity for @transfers; source and target are assets, so the guard sees both words',
+  },
+  {
+    file: 'src/analyzer/lookup.ts',
     snippet: '`${bareRef(c.asset)}::${bareRef(c.threat)}`',
     why: '@confirmed escalation index — a verified exploit escalates its (asset, threat) pair wherever it appears; not a coverage decision',
   },
   {
-    file: 'src/mcp/lookup.ts',
+    file: 'src/analyzer/lookup.ts',
     snippet: '`${bareRef(asset)}::${bareRef(threat)}::${location.file}:${location.line}`',
     why: 'per-site dedupe key for the response, downstream of the coverage answer',
   },
   {
-    file: 'src/mcp/lookup.ts',
+    file: 'src/analyzer/lookup.ts',
     snippet: '`${bareRef(asset)}::${bareRef(threat)}`',
     why: 'pair grouping for presentation, downstream of the coverage answer',
   },
@@ -124,9 +129,14 @@ const ALLOWED: { file: string; snippet: string; why: string }[] = [
   },
   {
     file: 'src/diff/engine.ts',
-    snippet: '`${normalizeActorRef(e.actor)}::${e.asset || \'\'}::${e.threat || \'\'}`',
+    snippet: '`${ids.actor(e.actor)}::${e.asset ? ids.asset(e.asset) : \'\'}::${e.threat ? ids.threat(e.threat) : \'\'}`',
     why: 'entitlementKey (PR #16) — record identity for the entitlement diff, keyed on the (actor, asset, threat) join so a capability edit reads as a modification rather than an add+remove. Reviewed on merge: it answers "is this the same claim as before", not "is this exposure covered". @entitles carries no coverage semantics at all (design §3.2 — an entitled exposure is still unmitigated), so routing it through the predicate would be wrong, not merely unnecessary',
   },
+  {
+    file: 'src/risk/index.ts',
+    snippet: '`${key(c.asset)}::${normalizeRef(c.threat)}`',
+    why: '@confirmed escalation index for risk scoring — a verified exploit sets likelihood to 5; mitigated and accepted come from buildCoverageIndex',
+  },
 ];
 
 function walk(dir: string, out: string[] = []): string[] {
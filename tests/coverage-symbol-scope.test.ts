@@ -25,7 +25,7 @@ import { tmpdir } from 'node:os';
 import { join, dirname } from 'node:path';
 import { parseProject } from '../src/parser/parse-project.js';
 import { findUnmitigatedExposures, coversExposure, buildCoverageIndex } from '../src/parser/coverage.js';
-import { lookup } from '../src/mcp/lookup.js';
+import { lookup } from '../src/analyzer/lookup.js';
 import { fileContext } from '../src/mcp/context.js';
 import { diffModels } from '../src/diff/engine.js';
 import type { ThreatModel } from '../src/types/index.js';
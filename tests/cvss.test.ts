@@ -0,0 +1,179 @@
+/**
+ * CVSS vectors on `@threat`, `@exposes` and `@confirmed`.
+ *
+ * Scores are checked against FIRST's calculators, v4.0 included, because the
+ * scoring is written here rather than imported: a vector whose number drifts
+ * from the one NVD or a vendor advisory shows would be worse than no number.
+ * The rest is about the vector taking part in the model without disturbing a
+ * model that has none.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseCvss, severityFromCvss, compareBySeverity } from '../src/parser/cvss.js';
+import { parseString } from '../src/parser/parse-file.js';
+import { parseProject } from '../src/parser/parse-project.js';
+import { canonicalAnnotationRecords } from '../src/parser/annotation-hash.js';
+import { generateSarif } from '../src/analyzer/sarif.js';
+import { generateReport } from '../src/report/report.js';
+import { computeExposures } from '../src/dashboard/data.js';
+import type { ExposesAnnotation, ThreatAnnotation } from '../src/types/index.js';
+
+const score = (vector: string) => {
+  const result = parseCvss(vector);
+  if (!result.ok) throw new Error(result.error);
+  return result.cvss.score;
+};
+
+describe('scoring', () => {
+  it('scores v3.1 base, temporal and environmental vectors', () => {
+    expect(score('CVSS:3.1/AV:N/AC:L/PR:L/UI:R/S:C/C:L/I:L/A:N')).toBe(5.4);
+    expect(score('CVSS:3.1/AV:N/AC:L/PR:H/UI:N/S:U/C:H/I:H/A:H')).toBe(7.2);
+    expect(score('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:C/C:H/I:H/A:H')).toBe(10);
+    expect(score('CVSS:3.1/AV:L/AC:H/PR:L/UI:N/S:C/C:H/I:N/A:H')).toBe(7.5);
+
+    const base = 'CVSS:3.1/AV:A/AC:H/PR:L/UI:N/S:C/C:H/I:L/A:L';
+    expect(score(base)).toBe(7.1);
+    expect(score(`${base}/E:F/RL:U/RC:R`)).toBe(6.7);
+    expect(score(`${base}/E:F/RL:U/RC:R/CR:H/IR:M/AR:L/MAV:N/MAC:L/MPR:N/MUI:N/MS:C/MC:H/MI:H/MA:H`)).toBe(9.4);
+    // Metrics set to X are not set: the base score stands.
+    expect(score(`${base}/E:X/RL:X/RC:X/CR:X`)).toBe(7.1);
+  });
+
+  it('scores v4.0 vectors as FIRST\'s reference calculator does', () => {
+    const all = 'CVSS:4.0/AV:N/AC:L/AT:N/PR:N/UI:N';
+    expect(score(`${all}/VC:H/VI:H/VA:H/SC:H/SI:H/SA:H`)).toBe(10);
+    expect(score(`${all}/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N`)).toBe(9.3);
+    expect(score(`${all}/VC:N/VI:N/VA:N/SC:H/SI:H/SA:H`)).toBe(7.9);
+    expect(score(`${all}/VC:H/VI:H/VA:H/SC:H/SI:H/SA:H/E:U`)).toBe(9.1);
+    expect(score('CVSS:4.0/AV:P/AC:H/AT:P/PR:H/UI:A/VC:L/VI:N/VA:N/SC:N/SI:N/SA:N')).toBe(1.0);
+    expect(score('CVSS:4.0/AV:L/AC:L/AT:N/PR:L/UI:P/VC:N/VI:H/VA:H/SC:N/SI:L/SA:L')).toBe(5.2);
+    expect(score('CVSS:4.0/AV:N/AC:H/AT:N/PR:H/UI:N/VC:N/VI:N/VA:H/SC:H/SI:H/SA:H/CR:L/IR:L/AR:L')).toBe(5.8);
+    expect(score('CVSS:4.0/AV:N/AC:L/AT:P/PR:L/UI:A/VC:L/VI:L/VA:N/SC:N/SI:N/SA:N/E:U')).toBe(0.4);
+    // Rounded half up: 5.8 − 0.85 is 5.0, not the 4.9 floating point arrives at.
+    expect(score('CVSS:4.0/AV:L/AC:L/AT:P/PR:H/UI:N/VC:L/VI:L/VA:N/SC:H/SI:H/SA:H')).toBe(5.0);
+    expect(score(`${all}/VC:N/VI:N/VA:N/SC:N/SI:N/SA:N`)).toBe(0);
+  });
+
+  it('rejects what is not a vector, and says why', () => {
+    const error = (vector: string) => {
+      const result = parseCvss(vector);
+      return result.ok ? undefined : result.error;
+    };
+    expect(error('CVSS:3.0/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toContain('expected CVSS:3.1');
+    expect(error('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H')).toContain('missing base metric(s) A');
+    expect(error('CVSS:3.1/AV:N/AV:L/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toContain('AV appears twice');
+    expect(error('CVSS:3.1/AV:X/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H')).toContain('AV takes N, A, L, P');
+    expect(error('CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H/AT:N')).toContain('AT is not a CVSS 3.1 metric');
+    expect(error('CVSS:4.0/AC:L/AV:N/AT:N/PR:N/UI:N/VC:H/VI:H/VA:H/SC:N/SI:N/SA:N')).toContain('AV is out of order');
+    // v3.1 order is free, as FIRST's own parsers accept it.
+    expect(error('CVSS:3.1/A:H/I:H/C:H/S:U/UI:N/PR:N/AC:L/AV:N')).toBeUndefined();
+  });
+
+  it('maps scores to the qualitative scale, and sorts by severity then score', () => {
+    expect([9.0, 8.9, 7.0, 4.0, 3.9, 0.1, 0].map(severityFromCvss))
+      .toEqual(['critical', 'high', 'high', 'medium', 'low', 'low', undefined]);
+
+    const cvss = (s: number) => ({ version: '3.1' as const, vector: '', score: s });
+    const rows = [
+      { id: 'medium', severity: 'medium' },
+      { id: 'high-7.1', severity: 'high', cvss: cvss(7.1) },
+      { id: 'unset', severity: undefined },
+      { id: 'high', severity: 'high' },
+      { id: 'high-8.8', severity: 'high', cvss: cvss(8.8) },
+    ];
+    expect([...rows].sort(compareBySeverity).map(r => r.id)).toEqual(['high-8.8', 'high-7.1', 'high', 'medium', 'unset']);
+  });
+});
+
+describe('parsing cvss:', () => {
+  const V31 = 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N';
+
+  it('stores the vector beside the other refs, and derives severity only when none is written', () => {
+    const [derived, written] = parseString([
+      `// @exposes #api to #idor cvss:${V31} cwe:CWE-639 -- "no ownership check"`,
+      `// @exposes #api to #idor [low] cvss:${V31}`,
+      '',
+    ].join('\n'), 'a.ts').annotations as ExposesAnnotation[];
+    expect(derived).toMatchObject({
+      severity: 'medium', external_refs: ['cwe:CWE-639'], description: 'no ownership check',
+      cvss: { version: '3.1', vector: V31, score: 6.5 },
+    });
+    expect(written.severity).toBe('low');
+
+    const threat = parseString(`// @threat IDOR (#idor) cvss:${V31}\n`, 'a.ts').annotations[0] as ThreatAnnotation;
+    expect(threat.cvss?.score).toBe(6.5);
+  });
+
+  it('errors on an invalid vector, and on two', () => {
+    const diags = parseString([
+      '// @confirmed #idor on #api cvss:CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N',
+      `// @exposes #api to #idor cvss:${V31} cvss:${V31}`,
+      '',
+    ].join('\n'), 'a.ts').diagnostics;
+    expect(diags.map(d => [d.code, d.level, d.line])).toEqual([
+      ['malformed-annotation', 'error', 1],
+      ['malformed-annotation', 'error', 2],
+    ]);
+    expect(diags[0].message).toContain('missing base metric(s) A');
+    expect(diags[1].message).toContain('more than one cvss: vector');
+  });
+});
+
+describe('vectors across the model and its outputs', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-cvss-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'), [
+      '// @asset App.Api (#api) -- "API"',
+      '// @threat IDOR (#idor) cvss:CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N -- "Reads another user\'s row"',
+      '// @threat SQLi (#sqli) [high] -- "Query built from input"',
+      '',
+    ].join('\n'));
+    await writeFile(join(root, 'src', 'api.ts'), [
+      '// @exposes #api to #sqli -- "search builds SQL"',
+      '// @exposes #api to #idor -- "GET /orders/:id"',
+      '// @exposes #api to #sqli cvss:CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:N -- "export builds SQL"',
+      'export function handle() {}',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('gives an unrated exposure its threat\'s vector, and sorts within a severity by score', async () => {
+    const { model, diagnostics } = await parseProject({ root, project: 'p' });
+    expect(diagnostics).toEqual([]);
+    expect(model.exposures[1]).toMatchObject({ threat: '#idor', severity: 'medium', cvss: { score: 6.5 } });
+
+    expect(computeExposures(model).map(r => [r.threat, r.cvss?.score])).toEqual([
+      ['#sqli', 9.1], ['#sqli', undefined], ['#idor', 6.5],
+    ]);
+    const report = generateReport(model);
+    expect(report.indexOf('🔴 Critical (CVSS 9.1)')).toBeGreaterThan(-1);
+    expect(report.indexOf('export builds SQL')).toBeLessThan(report.indexOf('search builds SQL'));
+  });
+
+  it('sets security-severity on the SARIF result that has a score', async () => {
+    const { model } = await parseProject({ root, project: 'p' });
+    const props = generateSarif(model).runs[0].results.map(r => r.properties as Record<string, unknown>);
+    expect(props.find(p => p.threat === '#idor')).toMatchObject({
+      'security-severity': '6.5', cvss: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N',
+    });
+    expect(props.find(p => p.threat === '#sqli' && p.severity === 'high')).not.toHaveProperty('security-severity');
+  });
+
+  it('hashes a finding without a vector exactly as before', async () => {
+    const records = canonicalAnnotationRecords((await parseProject({ root, project: 'p' })).model)
+      .filter(r => r.startsWith('exposes')).map(r => r.split(String.fromCharCode(1)));
+    expect(records).toContainEqual(['exposes', '#api', '#sqli', 'high', '', 'search builds SQL', 'src/api.ts']);
+    expect(records).toContainEqual(['exposes', '#api', '#sqli', 'critical', '',
+      'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:N', 'export builds SQL', 'src/api.ts']);
+  });
+});
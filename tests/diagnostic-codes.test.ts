@@ -17,7 +17,7 @@ import { join } from 'node:path';
 import { parseProject } from '../src/parser/parse-project.js';
 import {
   findDanglingRefs, findUndeclaredActors, findInertEntitlements,
-  findImpreciseEntitlements, findAcceptedWithoutAudit, findOffConventionGalFiles,
+  findImpreciseEntitlements, findAcceptedWithoutAudit, findExpiredAcceptances, findOffConventionGalFiles,
 } from '../src/parser/validate.js';
 import { checkEntitlementProvenance } from '../src/review/entitlements.js';
 import type { ThreatModel, ParseDiagnostic } from '../src/types/index.js';
@@ -43,6 +43,7 @@ beforeAll(async () => {
     + ' * @flow #api -> #api\n'
     + ' * @exposes #api to #nosuchthreat [high] -- "dangling"\n'
     + ' * @accepts #sqli on #api -- "accepted with no audit"\n'
+    + ' * @accepts #sqli on #api until:2020-01-31 -- "lapsed long ago"\n'
     + ' * @entitles #ghost to doathing -- "no citation, no asset, no threat"\n'
     + ' * @entitles #admin to configure-thing on #api against #sqli -- "By design. Authz: app/a.ts:2"\n'
     + ' */\n'
@@ -50,7 +51,10 @@ beforeAll(async () => {
 
   // A sidecar nowhere near the conventional .guardlink/annotations/ path.
   writeFileSync(join(root, 'docs', 'notes.gal'),
-    '@source file:app/a.ts line:8\n@comment -- "sidecar in the wrong place"\n');
+    '@source file:app/a.ts line:9\n@comment -- "sidecar in the wrong place"\n');
+
+  // A notebook whose JSON was truncated mid-save.
+  writeFileSync(join(root, 'app', 'broken.ipynb'), '{"cells": [{"cell_type": "code", "source": ["x = 1\\n"');
 
   // A ledger exists but accepts nothing — provenance is skipped without one.
   writeFileSync(join(root, '.guardlink', 'entitlement-proposals.json'),
@@ -67,11 +71,13 @@ describe('every diagnostic kind is machine-classifiable', () => {
   const expected: [string, string, () => ParseDiagnostic[] | Promise<ParseDiagnostic[]>][] = [
     ['unknown-verb', 'parse', () => parseDiagnostics],
     ['duplicate-id', 'parse', () => parseDiagnostics],
+    ['unreadable-container', 'parse', () => parseDiagnostics],
     ['dangling-ref', 'validate', () => findDanglingRefs(model)],
     ['undeclared-actor', 'validate', () => findUndeclaredActors(model)],
     ['inert-entitlement', 'validate', () => findInertEntitlements(model)],
     ['imprecise-entitlement', 'validate', () => findImpreciseEntitlements(model)],
     ['accepted-without-audit', 'validate', () => findAcceptedWithoutAudit(model)],
+    ['expired-acceptance', 'validate', () => findExpiredAcceptances(model)],
     ['off-convention-gal', 'validate', () => findOffConventionGalFiles(model)],
     ['entitlement-provenance', 'governance', () => checkEntitlementProvenance(root, model)],
   ];
@@ -91,6 +97,7 @@ describe('every diagnostic kind is machine-classifiable', () => {
       ...findInertEntitlements(model),
       ...findImpreciseEntitlements(model),
       ...findAcceptedWithoutAudit(model),
+      ...findExpiredAcceptances(model),
       ...findOffConventionGalFiles(model),
       ...await checkEntitlementProvenance(root, model),
     ];
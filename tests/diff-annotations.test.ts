@@ -0,0 +1,84 @@
+/**
+ * `guardlink diff --format checks-annotations|gitlab-codequality` — the delta
+ * put on the lines it is about.
+ */
+import { describe, it, expect } from 'vitest';
+import { diffModels } from '../src/diff/engine.js';
+import { diffAnnotations, toCheckRun, toCodeQuality, CHECK_RUN_ANNOTATION_LIMIT } from '../src/diff/annotations.js';
+import type { ThreatModel, ThreatModelExposure, ThreatModelMitigation, ThreatModelEntitlement } from '../src/types/index.js';
+
+const loc = (file: string, line: number) => ({ file, line });
+
+/** Minimal model; every collection the diff engine reads is present. */
+function model(partial: Partial<ThreatModel>): ThreatModel {
+  return {
+    assets: [], threats: [], controls: [], actors: [], entitlements: [],
+    mitigations: [], exposures: [], confirmed: [], acceptances: [],
+    transfers: [], flows: [], boundaries: [], validations: [], audits: [],
+    ownership: [], data_handling: [], assumptions: [], shields: [],
+    features: [], comments: [],
+    ...partial,
+  } as unknown as ThreatModel;
+}
+
+const exposure = (asset: string, severity: ThreatModelExposure['severity'], line: number): ThreatModelExposure => ({
+  asset, threat: '#sqli', severity, external_refs: [], description: 'query built from input', location: loc('src/db.ts', line),
+});
+
+const mitigation: ThreatModelMitigation = {
+  asset: '#reports', threat: '#sqli', control: '#prepared', location: loc('src/reports.ts', 9),
+};
+
+const entitlement: ThreatModelEntitlement = {
+  actor: '#admin', capability: 'rotate-keys', canonical_capability: 'rotate_keys',
+  asset: '#vault', threat: '#priv-esc', inert: false, imprecise: false,
+  citation: { file: 'src/authz.go', line: 42, raw: 'src/authz.go:42' },
+  location: loc('src/keys.go', 7),
+};
+
+describe('diffAnnotations', () => {
+  const diff = diffModels(
+    model({ mitigations: [mitigation], entitlements: [entitlement] }),
+    model({ exposures: [exposure('#api', 'critical', 12), exposure('#search', 'low', 30)], entitlements: [entitlement] }),
+    { changedFiles: ['src/authz.go'] },
+  );
+  const annotations = diffAnnotations(diff);
+
+  it('anchors each new exposure, removed mitigation and stale entitlement to its file and line', () => {
+    expect(annotations.map(a => [a.kind, a.file, a.line])).toEqual([
+      ['new-exposure', 'src/db.ts', 12],
+      ['new-exposure', 'src/db.ts', 30],
+      ['removed-mitigation', 'src/reports.ts', 9],
+      ['stale-entitlement', 'src/authz.go', 42],
+    ]);
+  });
+
+  it('keeps a fingerprint when only the line moves', () => {
+    const moved = diffAnnotations(diffModels(model({}), model({ exposures: [exposure('#api', 'critical', 80)] })));
+    expect(moved[0].fingerprint).toBe(annotations[0].fingerprint);
+    expect(new Set(annotations.map(a => a.fingerprint)).size).toBe(annotations.length);
+  });
+
+  it('writes a GitHub check run, advisory unless asked to fail on new exposures', () => {
+    const run = toCheckRun(annotations, { sha: 'abc123' });
+    expect(run).toMatchObject({ head_sha: 'abc123', status: 'completed', conclusion: 'neutral' });
+    expect(run.output.annotations.map(a => a.annotation_level)).toEqual(['failure', 'notice', 'warning', 'warning']);
+    expect(run.output.annotations[0]).toMatchObject({ path: 'src/db.ts', start_line: 12, end_line: 12 });
+    expect(toCheckRun(annotations, { failOnNew: true }).conclusion).toBe('failure');
+    expect(toCheckRun([]).conclusion).toBe('success');
+
+    const many = Array.from({ length: CHECK_RUN_ANNOTATION_LIMIT + 3 }, () => annotations[0]);
+    const capped = toCheckRun(many);
+    expect(capped.output.annotations).toHaveLength(CHECK_RUN_ANNOTATION_LIMIT);
+    expect(capped.output.summary).toContain('3 more not shown');
+  });
+
+  it('writes a GitLab Code Quality report', () => {
+    expect(toCodeQuality(annotations).map(i => [i.check_name, i.severity, i.location.path, i.location.lines.begin])).toEqual([
+      ['new-exposure', 'critical', 'src/db.ts', 12],
+      ['new-exposure', 'info', 'src/db.ts', 30],
+      ['removed-mitigation', 'minor', 'src/reports.ts', 9],
+      ['stale-entitlement', 'minor', 'src/authz.go', 42],
+    ]);
+  });
+});
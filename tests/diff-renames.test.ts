@@ -0,0 +1,119 @@
+/**
+ * `diffModels` — refactors that keep the security posture: annotations moved to
+ * another file and ids renamed read as `moved` and `renamed`, not as a removal
+ * plus an addition, and leave the risk delta alone.
+ */
+import { describe, it, expect } from 'vitest';
+import { diffModels } from '../src/diff/engine.js';
+import { formatDiff } from '../src/diff/format.js';
+import type {
+  ThreatModel, ThreatModelAsset, ThreatModelThreat, ThreatModelExposure, ThreatModelMitigation,
+} from '../src/types/index.js';
+
+const loc = (file: string, line: number) => ({ file, line });
+
+/** Minimal model; every collection the diff engine reads is present. */
+function model(partial: Partial<ThreatModel>): ThreatModel {
+  return {
+    assets: [db], threats: [sqli], controls: [], actors: [], entitlements: [],
+    mitigations: [], exposures: [], confirmed: [], acceptances: [],
+    transfers: [], flows: [], boundaries: [], validations: [], audits: [],
+    ownership: [], data_handling: [], assumptions: [], shields: [],
+    features: [], comments: [],
+    ...partial,
+  } as unknown as ThreatModel;
+}
+
+const db: ThreatModelAsset = { path: ['Svc', 'Db'], id: 'db', description: 'Orders database', location: loc('.guardlink/definitions.ts', 1) };
+
+const threat = (id: string, name: string, description: string): ThreatModelThreat => ({
+  name, canonical_name: name.toLowerCase().replace(/\s+/g, '_'), id, severity: 'high',
+  external_refs: ['cwe:CWE-89'], description, location: loc('.guardlink/definitions.ts', 2),
+});
+const sqli = threat('sqli', 'SQL Injection', 'Query built from request input');
+
+const exposure = (file: string, line: number, threatRef = '#sqli', assetRef = '#db'): ThreatModelExposure => ({
+  asset: assetRef, threat: threatRef, severity: 'high', external_refs: [], description: 'Raw query', location: loc(file, line),
+});
+
+const mitigation = (file: string, threatRef = '#sqli'): ThreatModelMitigation => ({
+  asset: '#db', threat: threatRef, control: '#prepared', location: loc(file, 3),
+});
+
+describe('diffModels — moved and renamed', () => {
+  it('reports a @mitigates moved to another file as moved, with the risk unchanged', () => {
+    const diff = diffModels(
+      model({ exposures: [exposure('src/db.ts', 1)], mitigations: [mitigation('src/db.ts')] }),
+      model({ exposures: [exposure('src/db.ts', 1)], mitigations: [mitigation('src/queries.ts')] }),
+    );
+    expect(diff.mitigations).toEqual([expect.objectContaining({ kind: 'moved', details: 'moved from src/db.ts to src/queries.ts' })]);
+    expect(diff.summary).toMatchObject({ added: 0, removed: 0, moved: 1, newUnmitigated: 0, riskDelta: 'unchanged' });
+    expect(formatDiff(diff)).toContain('> #db ← #prepared against #sqli (moved from src/db.ts to src/queries.ts)');
+  });
+
+  it('pairs an unmitigated exposure that moved files instead of calling it new', () => {
+    const diff = diffModels(model({ exposures: [exposure('src/db.ts', 4)] }), model({ exposures: [exposure('src/repo.ts', 9)] }));
+    expect(diff.exposures.map(c => c.kind)).toEqual(['moved']);
+    expect(diff.newUnmitigatedExposures).toEqual([]);
+    expect(diff.resolvedExposures).toEqual([]);
+    expect(diff.summary.riskDelta).toBe('unchanged');
+  });
+
+  it('follows a threat id rename through every relationship that names it', () => {
+    const renamed = threat('sql-injection', 'SQL Injection', 'Query built from request input');
+    const diff = diffModels(
+      model({ exposures: [exposure('src/db.ts', 1), exposure('src/admin.ts', 5)], mitigations: [mitigation('src/db.ts')] }),
+      model({
+        threats: [renamed],
+        exposures: [exposure('src/db.ts', 1, '#sql-injection'), exposure('src/admin.ts', 5, '#sql-injection')],
+        mitigations: [mitigation('src/db.ts', '#sql-injection')],
+      }),
+    );
+    expect(diff.threats).toEqual([expect.objectContaining({ kind: 'renamed', details: 'renamed #sqli → #sql-injection' })]);
+    expect(diff.exposures.map(c => c.kind)).toEqual(['renamed']);
+    expect(diff.mitigations.map(c => c.kind)).toEqual(['renamed']);
+    expect(diff.summary).toMatchObject({ added: 0, removed: 0, renamed: 3, newUnmitigated: 0, resolvedUnmitigated: 0, riskDelta: 'unchanged' });
+    expect(formatDiff(diff)).toContain('= sql-injection [high] (renamed #sqli → #sql-injection)');
+  });
+
+  it('treats two spellings of one declared asset as a rename', () => {
+    const diff = diffModels(model({ exposures: [exposure('src/db.ts', 1)] }), model({ exposures: [exposure('src/db.ts', 1, '#sqli', 'Svc.Db')] }));
+    expect(diff.exposures).toEqual([expect.objectContaining({ kind: 'renamed', details: 'renamed #db → Svc.Db' })]);
+    expect(diff.newUnmitigatedExposures).toEqual([]);
+  });
+
+  it('keeps unrelated declarations and a second copy of an exposure as they were', () => {
+    const xss = threat('xss', 'Cross-site scripting', 'Unescaped output in the admin page');
+    const diff = diffModels(
+      model({ exposures: [exposure('src/db.ts', 1)] }),
+      // Still written where it was, so the one in admin.ts is new, not moved.
+      model({ threats: [xss], exposures: [exposure('src/db.ts', 1), exposure('src/admin.ts', 5)] }),
+    );
+    expect(diff.threats.map(c => c.kind).sort()).toEqual(['added', 'removed']);
+    expect(diff.newUnmitigatedExposures.map(e => e.location.file)).toEqual(['src/admin.ts']);
+    expect(diff.summary.riskDelta).toBe('increased');
+  });
+
+  it('does not pair a moved exposure whose severity changed', () => {
+    const diff = diffModels(
+      model({ exposures: [exposure('src/db.ts', 4)] }),
+      model({ exposures: [{ ...exposure('src/repo.ts', 9), severity: 'critical' }] }),
+    );
+    // An edit outranks the move, so the severity change is not read as a refactor.
+    expect(diff.exposures).toEqual([expect.objectContaining({ kind: 'modified', details: 'moved from src/db.ts to src/repo.ts; severity: high → critical' })]);
+    expect(diff.summary).toMatchObject({ modified: 1, moved: 0, newUnmitigated: 1, resolvedUnmitigated: 1 });
+  });
+
+  it('compares every copy of a key, so one moving cannot hide another\'s edit', () => {
+    const diff = diffModels(
+      model({ exposures: [exposure('src/db.ts', 4), exposure('src/orders.ts', 7)] }),
+      model({ exposures: [{ ...exposure('src/orders.ts', 7), severity: 'critical' }, exposure('src/repo.ts', 9)] }),
+    );
+    expect(diff.exposures).toEqual([expect.objectContaining({
+      kind: 'modified',
+      previous: expect.objectContaining({ severity: 'high', location: loc('src/orders.ts', 7) }),
+      item: expect.objectContaining({ severity: 'critical', location: loc('src/orders.ts', 7) }),
+      details: 'severity: high → critical; moved from src/db.ts to src/repo.ts',
+    })]);
+  });
+});
@@ -1,9 +1,10 @@
 import { execSync } from 'node:child_process';
-import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { mkdtemp, mkdir, readdir, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { describe, expect, it } from 'vitest';
 import { parseAtRef } from '../src/diff/index.js';
+import { parseProject, computeAnnotationHash, type ParseFragment } from '../src/parser/index.js';
 
 describe('parseAtRef', () => {
   it('includes standalone .gal files from git refs', async () => {
@@ -39,4 +40,57 @@ describe('parseAtRef', () => {
       await rm(root, { recursive: true, force: true });
     }
   });
+
+  it('reads the tree at the ref as the working tree scan would, without writing anything', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'guardlink-diff-'));
+    const tmpBefore = (await readdir(tmpdir())).filter(n => n.startsWith('guardlink-diff-')).length;
+
+    try {
+      execSync('git init', { cwd: root, stdio: 'pipe' });
+      execSync('git config user.name "GuardLink Tests"', { cwd: root, stdio: 'pipe' });
+      execSync('git config user.email "guardlink-tests@example.com"', { cwd: root, stdio: 'pipe' });
+
+      await mkdir(join(root, '.guardlink', 'annotations', 'tests'), { recursive: true });
+      await mkdir(join(root, 'tests'), { recursive: true });
+      await mkdir(join(root, 'node_modules', 'dep'), { recursive: true });
+      // A language only this ref's config.json registers.
+      await writeFile(join(root, '.guardlink', 'config.json'), JSON.stringify({
+        languages: { zig: { extensions: ['.zig'], line: ['//'] } },
+      }));
+      await writeFile(join(root, '.guardlink', 'definitions.ts'), [
+        '// @asset App.API (#api) -- "Main API"',
+        '// @threat SQL Injection (#sqli) [high] -- "Query built from input"',
+      ].join('\n') + '\n');
+      await writeFile(join(root, 'build.zig'), '// @exposes #api to #sqli -- "zig"\n');
+      // Excluded source, but its sidecar is rescued.
+      await writeFile(join(root, 'tests', 'fixture.ts'), 'export const f = 1;\n');
+      await writeFile(join(root, '.guardlink', 'annotations', 'tests', 'fixture.ts.gal'),
+        '@source file:tests/fixture.ts\n@exposes #api to #sqli -- "sidecar"\n');
+      await writeFile(join(root, 'node_modules', 'dep', 'index.js'), '// @exposes #api to #sqli -- "vendored"\n');
+      await writeFile(join(root, 'notes.txt'), '@exposes #api to #sqli -- "not a source file"\n');
+
+      execSync('git add -f .', { cwd: root, stdio: 'pipe' });
+      execSync('git commit -m "Model"', { cwd: root, stdio: 'pipe' });
+
+      const atRef = await parseAtRef(root, 'HEAD', 'tmp');
+      const { model: onDisk } = await parseProject({ root, project: 'tmp' });
+      expect(atRef.exposures.map(e => e.description).sort()).toEqual(['sidecar', 'zig']);
+      expect(computeAnnotationHash(atRef)).toBe(computeAnnotationHash(onDisk));
+      expect(atRef.unannotated_files).toEqual(onDisk.unannotated_files);
+
+      // One map across refs: the second parse reads and parses nothing.
+      const fragments = new Map<string, ParseFragment>();
+      await parseAtRef(root, 'HEAD', 'tmp', { fragments });
+      const size = fragments.size;
+      const again = await parseAtRef(root, 'HEAD', 'tmp', { fragments });
+      expect(fragments.size).toBe(size);
+      expect(computeAnnotationHash(again)).toBe(computeAnnotationHash(atRef));
+
+      expect((await readdir(tmpdir())).filter(n => n.startsWith('guardlink-diff-')).length).toBe(tmpBefore);
+      await expect(parseAtRef(root, 'HEAD; touch pwned', 'tmp')).rejects.toThrow('Invalid git ref');
+      await expect(parseAtRef(root, '--output=pwned', 'tmp')).rejects.toThrow('Invalid git ref');
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
 });
@@ -0,0 +1,211 @@
+/**
+ * Annotations inside notebooks, Markdown and Vue/Svelte components.
+ *
+ * Every location is asserted against the line a reader would open in the
+ * CONTAINING file — a notebook's own JSON line, not the line within its cell —
+ * because a location that is right relative to something invisible is not a
+ * location anyone can click.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseString } from '../src/parser/parse-file.js';
+import { parseProject } from '../src/parser/parse-project.js';
+import { embeddedLines } from '../src/parser/embedded.js';
+import { migrateAnnotationMode } from '../src/parser/migrate-mode.js';
+import { insertAnnotationsAt } from '../src/review/index.js';
+
+/** A notebook as Jupyter writes it: one source line per array entry, one entry per file line. */
+const NOTEBOOK = JSON.stringify({
+  cells: [
+    { cell_type: 'markdown', metadata: {}, source: ['# Load the data\n', '<!-- @comment -- "markdown cell note" -->'] },
+    {
+      cell_type: 'code', execution_count: 1, metadata: {}, outputs: [],
+      source: ['import pandas as pd\n', '# @exposes #etl to #pt [high] -- "path from the widget"\n', 'df = pd.read_csv(path)'],
+    },
+    { cell_type: 'raw', metadata: {}, source: ['# @exposes #etl to #pt [high] -- "raw cells are not code"'] },
+  ],
+  metadata: { kernelspec: { language: 'python', name: 'python3' }, language_info: { name: 'python' } },
+  nbformat: 4, nbformat_minor: 5,
+}, null, 1) + '\n';
+
+/** The 1-based line of the first occurrence of `needle` in `text`. */
+const lineOf = (text: string, needle: string) => text.split('\n').findIndex(l => l.includes(needle)) + 1;
+
+const located = (content: string, file: string) =>
+  parseString(content, file).annotations.map(a => [a.verb, a.location.line]);
+
+describe('Jupyter notebooks', () => {
+  it('reads code cells, and reports the line of the source string in the .ipynb', () => {
+    expect(located(NOTEBOOK, 'etl.ipynb')).toEqual([
+      ['comment', lineOf(NOTEBOOK, 'markdown cell note')],
+      ['exposes', lineOf(NOTEBOOK, 'path from the widget')],
+    ]);
+  });
+
+  it('maps every line of a single-string source to where the string starts', () => {
+    const nb = '{\n "cells": [\n  {"cell_type": "code",\n   "source": "x = 1\\n# @comment -- \\"one string\\""}\n ],\n "metadata": {}\n}\n';
+    expect(located(nb, 'one.ipynb')).toEqual([['comment', 4]]);
+  });
+
+  it('uses the kernel language for code cells', () => {
+    const nb = JSON.stringify({
+      cells: [{ cell_type: 'code', source: ['// @comment -- "scala kernel"\n', '# not a comment in Scala'] }],
+      metadata: { language_info: { name: 'scala' } },
+    }, null, 1);
+    const stream = embeddedLines(nb, 'spark.ipynb')!;
+    expect(stream.map(l => l.ext)).toEqual(['.scala', '.scala']);
+    expect(located(nb, 'spark.ipynb')).toEqual([['comment', lineOf(nb, 'scala kernel')]]);
+  });
+
+  it('reports malformed JSON as a warning and parses nothing, rather than throwing', () => {
+    const result = parseString(NOTEBOOK.slice(0, 200), 'cut.ipynb');
+    expect(result.annotations).toEqual([]);
+    expect(result.diagnostics).toMatchObject([{ level: 'warning', code: 'unreadable-container' }]);
+  });
+});
+
+describe('Markdown', () => {
+  const RUNBOOK = [
+    '# Rotating the signing key',                                  // 1 — a heading, not a comment
+    '',
+    '<!-- @comment -- "prose comments are read" -->',              // 3
+    '',
+    '```bash guardlink',
+    '# @exposes #vault to #leak [high] -- "key echoed to the terminal"', // 6
+    'vault read secret/signing',
+    '```',
+    '',
+    'Annotate like this:',
+    '',
+    '```ts',
+    '// @exposes #api to #sqli [critical] -- "an example, not a finding"',
+    '```',
+    '',
+    '~~~~python guardlink',
+    '# @mitigates #vault against #leak using #masking -- "masked"', // 17
+    '~~~~',
+  ].join('\n');
+
+  it('reads prose comments and fences marked guardlink, at their file lines', () => {
+    expect(located(RUNBOOK, 'docs/rotate.md')).toEqual([
+      ['comment', 3],
+      ['exposes', 6],
+      ['mitigates', 17],
+    ]);
+  });
+
+  it('never reads a heading as a comment, or an unmarked fence as code', () => {
+    const stream = embeddedLines(RUNBOOK, 'docs/rotate.md')!;
+    expect(stream.find(l => l.line === 1)?.ext).toBe('.html');
+    expect(stream.some(l => l.text.includes('an example, not a finding'))).toBe(false);
+  });
+
+  it.each([
+    ['no info string', '```'],
+    ['a language alone', '```python'],
+    ['a tilde fence', '~~~ts'],
+    ['the marker in the language slot', '```guardlink'],
+    ['a longer word containing the marker', '```bash guardlinked'],
+  ])('parses nothing in a fence with %s — the marker is opt-in', (_, open) => {
+    const md = `${open}\n# @exposes #api to #sqli [critical] -- "an example"\n// @mitigates #api against #sqli using #prepared -- "an example"\n${open.slice(0, 3)}\n`;
+    expect(parseString(md, 'docs/guide.md').annotations).toEqual([]);
+  });
+
+  it('does not let a continuation cross a fence', () => {
+    const md = '```py guardlink\n# @comment -- "inside"\n```\n-- "outside"\n';
+    expect(parseString(md, 'a.md').annotations[0].description).toBe('inside');
+  });
+});
+
+describe('Vue and Svelte components', () => {
+  const VUE = [
+    '<template>',
+    '  <!-- @comment -- "template note" -->',                       // 2
+    '  <div v-html="bio"></div>',
+    '</template>',
+    '',
+    '<script setup lang="ts">',
+    '// @exposes #ui to #xss [high] -- "v-html on user bio"',      // 7
+    'const bio = props.user.bio;',
+    '</script>',
+    '',
+    '<style scoped>',
+    '/* @comment -- "styles too" */',                              // 12
+    '</style>',
+  ].join('\n');
+
+  it('reads template comments, the script block and the style block', () => {
+    expect(located(VUE, 'Profile.vue')).toEqual([['comment', 2], ['exposes', 7], ['comment', 12]]);
+    expect(embeddedLines(VUE, 'Profile.vue')!.find(l => l.line === 7)?.ext).toBe('.ts');
+  });
+
+  it('reads a Svelte script block the same way', () => {
+    const svelte = '<script>\n  // @comment -- "svelte"\n</script>\n\n<p>{name}</p>\n';
+    expect(located(svelte, 'Card.svelte')).toEqual([['comment', 2]]);
+  });
+});
+
+describe('parseProject', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-embedded-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'notebooks'), { recursive: true });
+    await mkdir(join(root, 'docs'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'),
+      '// @asset Data.ETL (#etl) -- "ETL"\n// @threat Path_Traversal (#pt) [high] -- "PT"\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('scans notebooks by default and keeps file-relative, clickable locations', async () => {
+    await writeFile(join(root, 'notebooks', 'etl.ipynb'), NOTEBOOK);
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.exposures[0].location).toMatchObject({
+      file: 'notebooks/etl.ipynb', line: lineOf(NOTEBOOK, 'path from the widget'),
+    });
+    expect(model.annotated_files).toContain('notebooks/etl.ipynb');
+  });
+
+  it('counts Markdown as source only once it carries an annotation', async () => {
+    await writeFile(join(root, 'README.md'), '# Project\n\n```ts\n// @comment -- "example"\n```\n');
+    await writeFile(join(root, 'docs', 'runbook.md'), '<!-- @comment -- "runbook" -->\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.unannotated_files).not.toContain('README.md');
+    expect(model.annotated_files).toContain('docs/runbook.md');
+    expect(model.comments.map(c => c.description)).toEqual(['runbook']);
+  });
+});
+
+describe('writers leave notebooks alone', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-embedded-write-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await writeFile(join(root, 'etl.ipynb'), NOTEBOOK);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('review refuses to splice a line into notebook JSON', async () => {
+    await expect(insertAnnotationsAt(root, { file: 'etl.ipynb', line: lineOf(NOTEBOOK, 'path from the widget') },
+      () => ['# @audit #etl -- "x"'])).rejects.toThrow(/Jupyter notebook/);
+    expect(await readFile(join(root, 'etl.ipynb'), 'utf-8')).toBe(NOTEBOOK);
+  });
+
+  it('migrate skips containers rather than rewriting them', async () => {
+    const { model } = await parseProject({ root, project: 'p' });
+    const result = migrateAnnotationMode({ root, to: 'external', model });
+    expect(result.skipped.map(s => s.file)).toContain('etl.ipynb');
+    expect(result.sourceFiles).toEqual([]);
+    expect(await readFile(join(root, 'etl.ipynb'), 'utf-8')).toBe(NOTEBOOK);
+  });
+});
@@ -16,7 +16,7 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { parseProject } from '../src/parser/parse-project.js';
-import { lookup, parseExternalId, SUPPORTED_QUERY_FORMS } from '../src/mcp/lookup.js';
+import { lookup, parseExternalId, SUPPORTED_QUERY_FORMS } from '../src/analyzer/lookup.js';
 import type { ThreatModel } from '../src/types/index.js';
 
 const repoRoot = join(dirname(fileURLToPath(import.meta.url)), '..');
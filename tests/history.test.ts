@@ -0,0 +1,118 @@
+/**
+ * `guardlink history` — the threat model at each commit, and the dashboard's
+ * Trends page that charts it.
+ */
+import { execSync } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { collectHistory, listHistoryCommits, loadHistory, HISTORY_FILE } from '../src/diff/index.js';
+import { generateDashboardHTML } from '../src/dashboard/generate.js';
+import { parseProject } from '../src/parser/parse-project.js';
+
+let root: string;
+
+function commit(message: string, day: number): void {
+  const date = `2026-01-0${day}T12:00:00+00:00`;
+  execSync('git add .', { cwd: root, stdio: 'pipe' });
+  execSync(`git commit -m "${message}"`, {
+    cwd: root, stdio: 'pipe', env: { ...process.env, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date },
+  });
+}
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'guardlink-history-'));
+  execSync('git init', { cwd: root, stdio: 'pipe' });
+  execSync('git config user.name "GuardLink Tests"', { cwd: root, stdio: 'pipe' });
+  execSync('git config user.email "guardlink-tests@example.com"', { cwd: root, stdio: 'pipe' });
+  await mkdir(join(root, '.guardlink'), { recursive: true });
+  await mkdir(join(root, 'src'), { recursive: true });
+
+  await writeFile(join(root, '.guardlink', 'definitions.ts'), [
+    '// @asset App.DB (#db) -- "Orders database"',
+    '// @threat SQL Injection (#sqli) [high] cwe:CWE-89 -- "Query built from input"',
+    '// @control Prepared statements (#prepared) -- "Parameterised queries"',
+  ].join('\n') + '\n');
+  await writeFile(join(root, 'src', 'db.ts'), '// @exposes #db to #sqli [high] -- "Raw query"\nexport const q = 1;\n');
+  commit('Expose the database', 1);
+
+  await writeFile(join(root, 'src', 'db.ts'), [
+    '// @exposes #db to #sqli [high] -- "Raw query"',
+    '// @mitigates #db against #sqli using #prepared -- "Bound parameters"',
+    'export const q = 1;',
+  ].join('\n') + '\n');
+  commit('Use prepared statements', 2);
+
+  await writeFile(join(root, 'src', 'util.ts'), 'export const twice = (n: number) => n * 2;\n');
+  commit('Add an unannotated helper', 3);
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('collectHistory', () => {
+  it('takes one point per commit, oldest first, and saves them', async () => {
+    const points = await collectHistory(root, 'shop');
+    expect(points.map(p => [p.subject, p.exposures, p.unmitigated, p.mitigations])).toEqual([
+      ['Expose the database', 1, 1, 0],
+      ['Use prepared statements', 1, 0, 1],
+      ['Add an unannotated helper', 1, 0, 1],
+    ]);
+    expect(points[2].source_files).toBe(points[1].source_files + 1);
+    expect(points[2].coverage_percent).toBeLessThan(points[1].coverage_percent);
+    // Only the annotations count: a new unannotated file leaves the hash alone.
+    expect(points[2].annotation_hash).toBe(points[1].annotation_hash);
+    expect(points[1].annotation_hash).not.toBe(points[0].annotation_hash);
+
+    const saved = JSON.parse(await readFile(join(root, HISTORY_FILE), 'utf-8'));
+    expect(saved.points.map((p: { commit: string }) => p.commit)).toEqual(points.map(p => p.commit));
+    // A read command: the saved points are in the self-ignoring cache directory (D16).
+    expect(execSync('git status --porcelain', { cwd: root, encoding: 'utf-8' })).toBe('');
+  });
+
+  it('saves nothing, and creates no .guardlink/, in a repo without one', async () => {
+    const bare = await mkdtemp(join(tmpdir(), 'guardlink-history-bare-'));
+    try {
+      execSync('git init', { cwd: bare, stdio: 'pipe' });
+      await writeFile(join(bare, 'app.ts'), '// @exposes #db to #sqli [high] -- "Raw query"\n');
+      execSync('git add . && git -c user.name=t -c user.email=t@example.com commit -m one', { cwd: bare, stdio: 'pipe' });
+
+      const saves: string[] = [];
+      const points = await collectHistory(bare, 'bare', { onSave: file => saves.push(file) });
+      expect(points.map(p => p.exposures)).toEqual([1]);
+      expect(saves).toEqual([]);
+      expect(existsSync(join(bare, '.guardlink'))).toBe(false);
+    } finally {
+      await rm(bare, { recursive: true, force: true });
+    }
+  });
+
+  it('parses only commits it has not seen, and samples back from HEAD', async () => {
+    const parsed: string[] = [];
+    const points = await collectHistory(root, 'shop', { every: 2, onCommit: c => parsed.push(c.sha) });
+    expect(parsed).toEqual([]);
+    expect(points.map(p => p.subject)).toEqual(['Expose the database', 'Add an unannotated helper']);
+  });
+
+  it('starts after --since, and rejects what is not a commit', () => {
+    expect(listHistoryCommits(root, { since: 'HEAD~1' }).map(c => c.subject)).toEqual(['Add an unannotated helper']);
+    expect(() => listHistoryCommits(root, { since: 'no-such-ref' })).toThrow('Invalid git ref: no-such-ref');
+    expect(() => listHistoryCommits(root, { every: 0 })).toThrow('--every must be a positive whole number');
+  });
+});
+
+describe('dashboard Trends page', () => {
+  it('charts the saved points, and says how to get some when there are none', async () => {
+    const { model } = await parseProject({ root, project: 'shop' });
+    const html = generateDashboardHTML(model, root);
+    expect(loadHistory(root)).toHaveLength(3);
+    expect(html).toContain('<div id="sec-trends" class="section-content">');
+    expect(html.match(/<g class="trend-unmitigated"><polyline points="[^"]+"\/>(<circle [^>]+>.*?<\/circle>){3}<\/g>/)).not.toBeNull();
+    expect(html).toContain('Add an unannotated helper');
+
+    expect(generateDashboardHTML(model)).toContain('No history yet. Run <code>guardlink history</code>');
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * `guardlink hooks install` and `guardlink validate --staged` — the pre-commit
+ * path: what is staged is what gets checked, and a hook goes where the
+ * repository's hook manager will actually run it.
+ */
+import { execFile, execSync } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { mkdtemp, mkdir, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { diffModels, parseStaged } from '../src/diff/index.js';
+import { hookScript, installHooks } from '../src/init/index.js';
+
+const repoRoot = join(dirname(fileURLToPath(import.meta.url)), '..');
+const cli = join(repoRoot, 'src', 'cli', 'index.ts');
+const tsx = createRequire(import.meta.url).resolve('tsx/cli');
+
+/*
+ * A GIT_CONFIG_* override in the environment (some CI images set
+ * core.hooksPath=/dev/null that way) outranks the repository's own config and
+ * would move every hook out of the fixture. Cleared for the file, restored after.
+ */
+const GIT_ENV = ['GIT_CONFIG_COUNT', 'GIT_CONFIG_KEY_0', 'GIT_CONFIG_VALUE_0'];
+const savedEnv = new Map(GIT_ENV.map(k => [k, process.env[k]]));
+
+const temps: string[] = [];
+
+async function repo(files: Record<string, string> = {}): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), 'guardlink-hooks-'));
+  temps.push(root);
+  execSync('git init -q', { cwd: root, stdio: 'pipe' });
+  execSync('git config user.name "GuardLink Tests"', { cwd: root, stdio: 'pipe' });
+  execSync('git config user.email "guardlink-tests@example.com"', { cwd: root, stdio: 'pipe' });
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+  return root;
+}
+
+const git = (root: string, command: string) => execSync(`git ${command}`, { cwd: root, stdio: 'pipe' });
+
+const DEFINITIONS = [
+  '// @asset App.DB (#db) -- "Orders database"',
+  '// @threat SQL Injection (#sqli) [high] cwe:CWE-89 -- "Query built from input"',
+  '// @threat Cross-site scripting (#xss) [medium] cwe:CWE-79 -- "Unescaped output"',
+].join('\n') + '\n';
+
+beforeAll(() => {
+  for (const k of GIT_ENV) delete process.env[k];
+});
+
+afterAll(async () => {
+  for (const [k, v] of savedEnv) if (v !== undefined) process.env[k] = v;
+  await Promise.all(temps.map(t => rm(t, { recursive: true, force: true })));
+});
+
+describe('parseStaged', () => {
+  it('reads the index, and reports only what the staged files introduce', async () => {
+    const root = await repo({
+      '.guardlink/definitions.ts': DEFINITIONS,
+      'src/db.ts': '// @exposes #db to #sqli [high] -- "Raw query"\nexport const q = 1;\n',
+    });
+    git(root, 'add .');
+    git(root, 'commit -q -m base');
+
+    await writeFile(join(root, 'src/view.ts'), '// @exposes #db to #xss [medium] -- "Echoes the query"\nexport const v = 1;\n');
+    git(root, 'add src/view.ts');
+    // Edited on disk and not staged: not part of the commit, so not checked.
+    await writeFile(join(root, 'src/db.ts'), '// @exposes #db to #nope [high] -- "Unstaged"\nexport const q = 1;\n');
+
+    const staged = await parseStaged(root, 'shop', { cache: false });
+    expect(staged.files).toEqual(['src/view.ts']);
+    expect(staged.model.exposures.map(e => `${e.location.file} ${e.threat}`).sort()).toEqual(['src/db.ts #sqli', 'src/view.ts #xss']);
+    expect(staged.base.exposures.map(e => e.location.file)).toEqual(['src/db.ts']);
+    expect(staged.diagnostics.filter(d => d.level === 'error')).toEqual([]);
+    expect(diffModels(staged.base, staged.model).newUnmitigatedExposures.map(e => e.threat)).toEqual(['#xss']);
+  });
+
+  it('treats everything as new before the first commit', async () => {
+    const root = await repo({ '.guardlink/definitions.ts': DEFINITIONS });
+    git(root, 'add .');
+    const staged = await parseStaged(root, 'shop', { cache: false });
+    expect(staged.files).toEqual(['.guardlink/definitions.ts']);
+    expect(staged.base.threats).toEqual([]);
+    expect(staged.model.threats.map(t => t.id).sort()).toEqual(['sqli', 'xss']);
+  });
+
+  it('is refused outside a git repository', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'guardlink-hooks-plain-'));
+    temps.push(dir);
+    await expect(parseStaged(dir)).rejects.toThrow(/Not a git repository/);
+  });
+});
+
+describe('guardlink validate --staged', () => {
+  function guardlink(cwd: string, ...args: string[]): Promise<{ status: number; stdout: string; stderr: string }> {
+    return new Promise(resolve => {
+      execFile(process.execPath, [tsx, cli, ...args], { cwd, encoding: 'utf-8' }, (err, stdout, stderr) => {
+        const code = (err as { code?: number | string } | null)?.code;
+        resolve({ status: typeof code === 'number' ? code : err ? 1 : 0, stdout, stderr });
+      });
+    });
+  }
+
+  it('fails on an error in a staged file and ignores one that is not staged', async () => {
+    const root = await repo({
+      '.guardlink/definitions.ts': DEFINITIONS,
+      'src/db.ts': 'export const q = 1;\n',
+    });
+    git(root, 'add .');
+    git(root, 'commit -q -m base');
+
+    await writeFile(join(root, 'src/db.ts'), '// @mitigates #db against -- "Broken"\nexport const q = 1;\n');
+    expect((await guardlink(root, 'validate', '--staged', '.')).stderr).toContain('Nothing staged');
+
+    await writeFile(join(root, 'src/view.ts'), '// @exposes #db to #xss [medium] -- "Echoes the query"\nexport const v = 1;\n');
+    git(root, 'add src/view.ts');
+    const clean = await guardlink(root, 'validate', '--staged', '.');
+    expect(clean.status).toBe(0);
+    expect(clean.stderr).toContain('#xss');
+    expect(clean.stderr).not.toContain('Malformed');
+    expect((await guardlink(root, 'validate', '--staged', '--strict', '.')).status).toBe(1);
+
+    git(root, 'add src/db.ts');
+    const broken = await guardlink(root, 'validate', '--staged', '.');
+    expect(broken.status).toBe(1);
+    expect(broken.stderr).toContain('src/db.ts:1: Malformed @mitigates');
+  }, 60_000);
+
+  it('does not combine with --artifacts', async () => {
+    const root = await repo();
+    const run = await guardlink(root, 'validate', '--staged', '--artifacts', '.');
+    expect(run.status).toBe(1);
+    expect(run.stderr).toMatch(/^Error: /m);
+  }, 30_000);
+});
+
+describe('installHooks', () => {
+  it('writes both git hooks, and a rerun changes nothing', async () => {
+    const root = await repo();
+    const results = installHooks(root);
+    expect(results.map(r => [r.hook, r.manager, r.action])).toEqual([
+      ['pre-commit', 'git', 'created'],
+      ['pre-push', 'git', 'created'],
+    ]);
+    const path = join(root, '.git', 'hooks', 'pre-commit');
+    expect(await readFile(path, 'utf-8')).toBe(hookScript('pre-commit'));
+    expect((await stat(path)).mode & 0o111).not.toBe(0);
+    expect(installHooks(root).map(r => r.action)).toEqual(['unchanged', 'unchanged']);
+  });
+
+  it('keeps a hook it did not write unless forced', async () => {
+    const root = await repo();
+    await mkdir(join(root, '.git', 'hooks'), { recursive: true });
+    await writeFile(join(root, '.git', 'hooks', 'pre-push'), '#!/bin/sh\nmake test\n');
+
+    const [kept] = installHooks(root, { hooks: ['pre-push'] });
+    expect(kept).toMatchObject({ action: 'skipped', note: expect.stringContaining('guardlink validate .') });
+    expect(await readFile(join(root, '.git', 'hooks', 'pre-push'), 'utf-8')).toBe('#!/bin/sh\nmake test\n');
+
+    expect(installHooks(root, { hooks: ['pre-push'], force: true })[0].action).toBe('updated');
+    expect(await readFile(join(root, '.git', 'hooks', 'pre-push'), 'utf-8')).toBe(hookScript('pre-push'));
+  });
+
+  it('runs the hook for a project in a subdirectory from the top level', async () => {
+    const root = await repo({ 'services/api/.keep': '' });
+    installHooks(join(root, 'services', 'api'), { hooks: ['pre-commit'] });
+    const script = await readFile(join(root, '.git', 'hooks', 'pre-commit'), 'utf-8');
+    expect(script).toBe(hookScript('pre-commit', 'services/api'));
+    expect(script).toContain('validate --staged services/api');
+  });
+
+  it('skips when hooks are switched off with core.hooksPath', async () => {
+    const root = await repo();
+    git(root, 'config core.hooksPath /dev/null');
+    const [result] = installHooks(root, { hooks: ['pre-commit'] });
+    expect(result).toMatchObject({ action: 'skipped', note: expect.stringContaining('not a directory') });
+  });
+
+  it('adds a line to husky hooks', async () => {
+    const root = await repo({ '.husky/pre-commit': 'npm test\n' });
+    const results = installHooks(root);
+    expect(results.map(r => [r.manager, r.action])).toEqual([['husky', 'appended'], ['husky', 'created']]);
+    expect(await readFile(join(root, '.husky', 'pre-commit'), 'utf-8'))
+      .toBe('npm test\nnpx --no-install guardlink validate --staged .\n');
+    expect(installHooks(root).map(r => r.action)).toEqual(['unchanged', 'unchanged']);
+  });
+
+  it('appends a lefthook block, and hands back a snippet where one exists', async () => {
+    const root = await repo({ 'lefthook.yml': 'pre-push:\n  commands:\n    test:\n      run: npm test\n' });
+    const [commit, push] = installHooks(root);
+    expect(commit).toMatchObject({ manager: 'lefthook', action: 'appended' });
+    expect(push).toMatchObject({ action: 'skipped', snippet: expect.stringContaining('run: guardlink validate .') });
+    expect(await readFile(join(root, 'lefthook.yml'), 'utf-8')).toContain(
+      'pre-commit:\n  commands:\n    guardlink:\n      run: guardlink validate --staged .\n',
+    );
+  });
+
+  it('adds a local pre-commit hook only when repos: is the last key', async () => {
+    const last = await repo({ '.pre-commit-config.yaml': 'repos:\n  - repo: https://github.com/pre-commit/pre-commit-hooks\n    rev: v4.6.0\n    hooks:\n      - id: trailing-whitespace\n' });
+    const [commit] = installHooks(last, { hooks: ['pre-commit'] });
+    expect(commit).toMatchObject({ manager: 'pre-commit', action: 'appended' });
+    const text = await readFile(join(last, '.pre-commit-config.yaml'), 'utf-8');
+    expect(text).toContain('  - repo: local\n    hooks:\n      - id: guardlink-pre-commit\n');
+    expect(text).toContain('      entry: guardlink validate --staged .\n');
+
+    const notLast = await repo({ '.pre-commit-config.yaml': 'repos: []\ndefault_stages: [pre-commit]\n' });
+    const [skipped] = installHooks(notLast, { hooks: ['pre-commit'] });
+    expect(skipped).toMatchObject({ action: 'skipped', snippet: expect.stringContaining('repo: local') });
+    expect(await readFile(join(notLast, '.pre-commit-config.yaml'), 'utf-8')).toBe('repos: []\ndefault_stages: [pre-commit]\n');
+  });
+
+  it('keeps docs/hooks/pre-commit in step with the script it writes', async () => {
+    expect(await readFile(join(repoRoot, 'docs', 'hooks', 'pre-commit'), 'utf-8')).toBe(hookScript('pre-commit'));
+  });
+});
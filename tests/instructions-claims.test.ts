@@ -31,7 +31,7 @@ import { buildServerInstructions } from '../src/mcp/instructions.js';
 import { parseProject } from '../src/parser/parse-project.js';
 import { applyAnnotations } from '../src/parser/apply-annotations.js';
 import { fileContext } from '../src/mcp/context.js';
-import { lookup } from '../src/mcp/lookup.js';
+import { lookup } from '../src/analyzer/lookup.js';
 import { traverseGraph } from '../src/mcp/subgraph.js';
 import { buildEnvelope } from '../src/mcp/freshness.js';
 import type { ThreatModel } from '../src/types/index.js';
@@ -16,7 +16,7 @@ import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
 import { createServer } from '../src/mcp/server.js';
 import { buildServerInstructions, readConfiguredMode } from '../src/mcp/instructions.js';
-import { SUPPORTED_QUERY_FORMS } from '../src/mcp/lookup.js';
+import { SUPPORTED_QUERY_FORMS } from '../src/analyzer/lookup.js';
 
 async function connect() {
   const server = createServer();
@@ -0,0 +1,191 @@
+/**
+ * The language registry — one answer to "is this line a comment?" for every
+ * reader and writer.
+ *
+ * The property under test is agreement: what `parseString` reads in a file is
+ * what `clear` removes from it, what `review` writes into it reads back, and a
+ * migration round trip lands on the same model. Per-language stripping is
+ * tested first because everything else leans on it.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseString } from '../src/parser/parse-file.js';
+import { parseProject } from '../src/parser/parse-project.js';
+import { clearAnnotations } from '../src/parser/clear.js';
+import { migrateAnnotationMode } from '../src/parser/migrate-mode.js';
+import { applyAnnotations } from '../src/parser/apply-annotations.js';
+import { parseCacheKey } from '../src/parser/parse-cache.js';
+import {
+  buildLanguageRegistry, languageFor, loadLanguageRegistry, GENERIC_LANGUAGE,
+} from '../src/parser/languages.js';
+import { detectCommentStyle, insertAnnotationsAt } from '../src/review/index.js';
+
+const descriptions = (content: string, file: string) =>
+  parseString(content, file).annotations.map(a => a.description);
+
+describe('comment syntax by language', () => {
+  it('reads Nim, PowerShell, Julia and Fortran comments, line and block', () => {
+    expect(descriptions('#[\n  @comment -- "nim block"\n]#\n# @comment -- "nim line"\n', 'a.nim'))
+      .toEqual(['nim block', 'nim line']);
+    expect(descriptions('<#\n  @comment -- "ps block"\n#>\n# @comment -- "ps line"\n', 'a.ps1'))
+      .toEqual(['ps block', 'ps line']);
+    expect(descriptions('#= @comment -- "julia block" =#\n', 'a.jl')).toEqual(['julia block']);
+    expect(descriptions('  ! @comment -- "fortran"\n', 'a.f90')).toEqual(['fortran']);
+  });
+
+  it("reads only the file's own delimiters", () => {
+    // A quoted string in Python, a preprocessor line in C, a heading in Markdown.
+    expect(descriptions(`'@comment -- "not a comment"'\n`, 'a.py')).toEqual([]);
+    expect(descriptions('# @comment -- "not a comment"\n', 'a.c')).toEqual([]);
+    expect(descriptions('# @comment -- "a heading"\n', 'a.md')).toEqual([]);
+  });
+
+  it('reads a block body with no decoration, and stops at the close', () => {
+    const ts = '/*\n  @comment -- "bare body"\n*/\n@comment -- "code, not a comment"\n';
+    expect(descriptions(ts, 'a.ts')).toEqual(['bare body']);
+  });
+
+  it('keeps the permissive list for a file in no registered language', () => {
+    expect(languageFor('notes.xyz')).toBe(GENERIC_LANGUAGE);
+    expect(descriptions(`' @comment -- "vb style"\n; @comment -- "lisp style"\n`, 'notes.xyz'))
+      .toEqual(['vb style', 'lisp style']);
+  });
+
+  it('recognises an extensionless script by its shebang', () => {
+    const script = '#!/usr/bin/env -S pwsh -NoProfile\n<# @comment -- "by shebang" #>\n';
+    expect(languageFor('bin/deploy', script).id).toBe('powershell');
+    expect(languageFor('bin/run', '#!/usr/bin/python3.12\n').id).toBe('python');
+    expect(descriptions(script, 'bin/deploy')).toEqual(['by shebang']);
+  });
+
+  it('reads a notebook cell in the kernel language the registry gives it', () => {
+    const nb = JSON.stringify({
+      cells: [{ cell_type: 'code', source: ['#= @comment -- "julia kernel" =#'] }],
+      metadata: { language_info: { name: 'julia' } },
+    });
+    expect(descriptions(nb, 'a.ipynb')).toEqual(['julia kernel']);
+  });
+});
+
+describe('languages in config.json', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-languages-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const configure = (languages: unknown) =>
+    writeFile(join(root, '.guardlink', 'config.json'), JSON.stringify({ languages }));
+
+  it('adds a language, and scans its extension by default', async () => {
+    await configure({ zig: { extensions: ['.zig'], line: ['//'] } });
+    await writeFile(join(root, 'src', 'alloc.zig'), '// @comment -- "zig"\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.comments.map(c => c.description)).toEqual(['zig']);
+  });
+
+  it('replaces a built-in of the same id', async () => {
+    await configure({ python: { extensions: ['.py'], line: ['##'] } });
+    await writeFile(join(root, 'src', 'a.py'), '# @comment -- "one hash"\n## @comment -- "two"\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.comments.map(c => c.description)).toEqual(['two']);
+  });
+
+  it('skips an entry with no delimiter or no way to find its files', async () => {
+    await configure({ a: { extensions: ['.a'] }, b: { line: ['//'] }, c: 'nonsense' });
+    expect(loadLanguageRegistry(root).configuredExtensions).toEqual([]);
+  });
+
+  it('is part of the parse-cache key, so editing it re-parses', () => {
+    const configured = buildLanguageRegistry([{ id: 'zig', extensions: ['.zig'], line: ['//'], block: [] }]);
+    expect(parseCacheKey()).not.toBe(parseCacheKey(configured));
+    expect(parseCacheKey(buildLanguageRegistry())).toBe(parseCacheKey());
+  });
+});
+
+describe('writers agree with the parser', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-languages-write-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'),
+      '// @asset App.Deploy (#deploy) -- "Deploy"\n// @threat Injection (#inj) [high] -- "Inj"\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const SCRIPT = [
+    'param($Target)',
+    '<# @exposes #deploy to #inj [high] -- "target interpolated into a command"',
+    '   @audit #deploy -- "check quoting" #>',
+    'Invoke-Expression "deploy $Target"',
+    '',
+  ].join('\n');
+
+  it('review writes in the language it finds, and the parser reads it back', async () => {
+    await writeFile(join(root, 'deploy.ps1'), '$x = 1\n# @exposes #deploy to #inj [high] -- "x"\n');
+    expect(detectCommentStyle('$x = 1', 'deploy.ps1')).toMatchObject({ prefix: '# ', suffix: '' });
+    expect(detectCommentStyle('body { }', 'site.css')).toMatchObject({ prefix: '/* ', suffix: ' */' });
+
+    await insertAnnotationsAt(root, { file: 'deploy.ps1', line: 2 }, style =>
+      [`${style.indent}${style.prefix}@audit #deploy -- "reviewed"${style.suffix}`]);
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.audits.map(a => [a.description, a.location.line])).toEqual([['reviewed', 3]]);
+  });
+
+  it('clear removes what the parser read and leaves block delimiters in place', async () => {
+    await writeFile(join(root, 'deploy.ps1'), SCRIPT);
+    expect((await parseProject({ root, project: 'p' })).model.exposures).toHaveLength(1);
+
+    const result = await clearAnnotations({ root });
+    expect(result.perFile.get('deploy.ps1')).toBe(2);
+    expect(await readFile(join(root, 'deploy.ps1'), 'utf-8'))
+      .toBe('param($Target)\n<#\n   #>\nInvoke-Expression "deploy $Target"\n');
+  });
+
+  it('migrate round-trips a block comment without turning the rest of it into code', async () => {
+    await writeFile(join(root, 'deploy.ps1'), SCRIPT);
+    const before = (await parseProject({ root, project: 'p' })).model;
+    migrateAnnotationMode({ root, to: 'external', model: before });
+    expect(await readFile(join(root, 'deploy.ps1'), 'utf-8')).toContain('<#\n   #>\n');
+
+    const external = (await parseProject({ root, project: 'p' })).model;
+    migrateAnnotationMode({ root, to: 'inline', model: external });
+    const after = (await parseProject({ root, project: 'p' })).model;
+    expect(after.exposures.map(e => e.description)).toEqual(before.exposures.map(e => e.description));
+    expect(after.audits.map(a => a.description)).toEqual(['check quoting']);
+  });
+
+  it("apply names the source file's own comment prefix when one is supplied", async () => {
+    await writeFile(join(root, 'deploy.ps1'), SCRIPT);
+    const result = applyAnnotations({ root, file: 'deploy.ps1', line: 4, annotations: ['# @audit #deploy -- "x"'] });
+    expect(result.errors[0]).toContain('carries the comment prefix `#`');
+    expect(result.errors[0]).toContain('no comment prefix');
+  });
+
+  it('review and apply find an extensionless script by its shebang, as the parser does', async () => {
+    const script = '#!/bin/bash\nset -e\ndeploy "$1"\n';
+    await mkdir(join(root, 'bin'), { recursive: true });
+    await writeFile(join(root, 'bin', 'deploy'), script);
+    expect(detectCommentStyle('deploy "$1"', 'bin/deploy', undefined, script)).toMatchObject({ prefix: '# ', suffix: '' });
+
+    await insertAnnotationsAt(root, { file: 'bin/deploy', line: 3 }, style =>
+      [`${style.indent}${style.prefix}@audit #deploy -- "shebang"${style.suffix}`]);
+    expect(await readFile(join(root, 'bin', 'deploy'), 'utf-8')).toContain('# @audit #deploy -- "shebang"');
+
+    // `//` is a comment in GENERIC_LANGUAGE but not in shell, so only a shell reading calls it no annotation at all.
+    const result = applyAnnotations({ root, file: 'bin/deploy', line: 3, annotations: ['// @audit #deploy -- "x"'] });
+    expect(result.errors[0]).toContain('is not an annotation');
+  });
+});
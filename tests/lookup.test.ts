@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeAll } from 'vitest';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { lookup, SUPPORTED_QUERY_FORMS } from '../src/mcp/lookup.js';
+import { lookup, SUPPORTED_QUERY_FORMS } from '../src/analyzer/lookup.js';
 import { parseProject } from '../src/parser/parse-project.js';
 import type { ThreatModel } from '../src/types/index.js';
 
@@ -0,0 +1,195 @@
+/**
+ * The streamable HTTP transport: a real listener on a free port, driven by the
+ * SDK's own HTTP client — the token, the root allow-list and read-only mode are
+ * all enforced on the network path, so that is where they are tested.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, readHttpConfig, type RunningHttpServer } from '../src/mcp/index.js';
+
+const TOKEN = 'test-token-0123456789';
+
+const DEFINITIONS = `/**
+ * @asset App.Auth (#auth) -- "Authentication surface"
+ * @threat SQL_Injection (#sqli) [critical] cwe:CWE-89 -- "Untrusted input into SQL"
+ */
+export {};
+`;
+
+let allowed: string;
+let other: string;
+
+async function repo(): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), 'guardlink-http-'));
+  await mkdir(join(root, '.guardlink'), { recursive: true });
+  await writeFile(join(root, '.guardlink', 'definitions.ts'), DEFINITIONS);
+  return root;
+}
+
+beforeAll(async () => {
+  allowed = await repo();
+  other = await repo();
+});
+
+afterAll(async () => {
+  await Promise.all([allowed, other].map(r => rm(r, { recursive: true, force: true })));
+});
+
+async function connect(server: RunningHttpServer, token = TOKEN) {
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  const transport = new StreamableHTTPClientTransport(new URL(server.url), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  await client.connect(transport);
+  return client;
+}
+
+describe('readHttpConfig', () => {
+  it('reads the token from the environment and resolves roots against the config', async () => {
+    const root = await repo();
+    try {
+      expect(readHttpConfig(root, { GUARDLINK_MCP_TOKEN: 'abc' })).toEqual({
+        token: 'abc', tokenSource: '$GUARDLINK_MCP_TOKEN', roots: [root], readOnly: false,
+      });
+
+      await writeFile(join(root, '.guardlink', 'config.json'), JSON.stringify({
+        project: 'x', mcp: { http: { token_env: 'SHARED_TOKEN', roots: ['.', '../billing'], read_only: true } },
+      }));
+      expect(readHttpConfig(root, {})).toEqual({
+        token: null, tokenSource: '$SHARED_TOKEN', roots: [root, join(root, '..', 'billing')], readOnly: true,
+      });
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it.each([
+    [{ roots: ['.'], readonly: true }, /unknown key "readonly"/],
+    [{ token: 'a', token_env: 'B' }, /give "token" or "token_env", not both/],
+    [{ roots: [] }, /"roots" must be a non-empty list of paths/],
+    [{ read_only: 'yes' }, /"read_only" must be true or false/],
+  ])('refuses %j', async (http, message) => {
+    const root = await repo();
+    try {
+      await writeFile(join(root, '.guardlink', 'config.json'), JSON.stringify({ mcp: { http } }));
+      expect(() => readHttpConfig(root, {})).toThrow(message);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('startHttpServer', () => {
+  let server: RunningHttpServer;
+
+  beforeAll(async () => {
+    server = await startHttpServer({ port: 0, token: TOKEN, roots: [allowed] });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  it('answers nothing without the token, not even which paths exist', async () => {
+    const init = { jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 't', version: '0' } } };
+    for (const headers of [{}, { Authorization: 'Bearer wrong' }, { Authorization: `Basic ${TOKEN}` }]) {
+      const res = await fetch(server.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+        body: JSON.stringify(init),
+      });
+      expect(res.status).toBe(401);
+      expect(res.headers.get('www-authenticate')).toMatch(/^Bearer/);
+    }
+    expect((await fetch(server.url.replace(/\/mcp$/, '/other'))).status).toBe(401);
+    expect((await fetch(server.url.replace(/\/mcp$/, '/other'), { headers: { Authorization: `Bearer ${TOKEN}` } })).status).toBe(404);
+  });
+
+  it('serves the tools to a client with the token, for the allowed roots only', async () => {
+    const client = await connect(server);
+    try {
+      const tools = (await client.listTools()).tools.map(t => t.name);
+      expect(tools).toContain('guardlink_annotate_apply');
+
+      const ok = await client.callTool({ name: 'guardlink_status', arguments: { root: allowed } }) as any;
+      expect(JSON.parse(ok.content[0].text).exposures).toBe(0);
+
+      const refused = await client.callTool({ name: 'guardlink_status', arguments: { root: other } }) as any;
+      expect(refused.content).toHaveLength(1);
+      expect(refused.content[0].text).toMatch(/^Error: root .* is not one this server serves\. Allowed: /);
+
+      // Inside an allowed root is still that root; a `..` out of it is not.
+      const inside = await client.callTool({ name: 'guardlink_validate', arguments: { root: join(allowed, '.guardlink') } }) as any;
+      expect(inside.content[0].text).not.toMatch(/^Error: root/);
+      const escaped = await client.callTool({ name: 'guardlink_validate', arguments: { root: join(allowed, '..', '..') } }) as any;
+      expect(escaped.content[0].text).toMatch(/^Error: root/);
+
+      await expect(client.getPrompt({ name: 'propose-mitigations', arguments: { asset: '#auth', root: other } }))
+        .rejects.toThrow(/is not one this server serves/);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('refuses a file or output path that climbs out of an allowed root', async () => {
+    const client = await connect(server);
+    try {
+      // `other` is a sibling of `allowed` in the temp directory, and not served.
+      const file = join('..', basename(other), '.guardlink', 'definitions.ts');
+      const res = await client.callTool({ name: 'guardlink_suggest', arguments: { root: allowed, file } }) as any;
+      expect(res.content[0].text).toMatch(/^Error: .* resolves outside the project root/);
+      expect(JSON.stringify(res.content)).not.toContain('SQL_Injection');
+
+      const output = join('..', basename(other), 'escaped.sarif.json');
+      const written = await client.callTool({ name: 'guardlink_sarif', arguments: { root: allowed, output } }) as any;
+      expect(written.content[0].text).toMatch(/^Error: output .* resolves outside the project root/);
+      expect(existsSync(join(other, 'escaped.sarif.json'))).toBe(false);
+    } finally {
+      await client.close();
+    }
+  });
+
+  it('keeps each client in its own session', async () => {
+    const [a, b] = [await connect(server), await connect(server)];
+    try {
+      await a.callTool({ name: 'guardlink_status', arguments: { root: allowed } });
+      const read = await b.readResource({ uri: 'guardlink://definitions' });
+      // b made no tool call, and the server's cwd is not allowed, so b's
+      // resources answer for the first allowed root — not for the one a used.
+      const envelope = JSON.parse(read.contents.at(-1)!.text as string).guardlink;
+      expect(envelope.root_source).toBe('allowed_root');
+    } finally {
+      await Promise.all([a.close(), b.close()]);
+    }
+  });
+});
+
+describe('startHttpServer — read-only', () => {
+  it('leaves the write tools out of tools/list, and says so at initialize', async () => {
+    const server = await startHttpServer({ port: 0, token: TOKEN, readOnly: true });
+    const client = await connect(server);
+    try {
+      const tools = (await client.listTools()).tools.map(t => t.name);
+      for (const name of ['guardlink_annotate_apply', 'guardlink_clear', 'guardlink_reanchor', 'guardlink_sync', 'guardlink_review_accept', 'guardlink_entitlement_propose', 'guardlink_report', 'guardlink_sarif']) {
+        expect(tools).not.toContain(name);
+      }
+      expect(tools).toEqual(expect.arrayContaining(['guardlink_status', 'guardlink_context', 'guardlink_lookup', 'guardlink_validate']));
+
+      const instructions = client.getInstructions() ?? '';
+      expect(instructions).toContain('READ-ONLY');
+      expect(instructions).not.toMatch(/guardlink_annotate_apply|guardlink_entitlement_propose/);
+    } finally {
+      await client.close();
+      await server.close();
+    }
+  });
+
+  it('does not start without a token', async () => {
+    await expect(startHttpServer({ port: 0, token: '' })).rejects.toThrow(/needs a bearer token/);
+  });
+});
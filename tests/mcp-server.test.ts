@@ -12,6 +12,7 @@ import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import { createServer } from '../src/mcp/server.js';
 
 const DEFINITIONS = `/**
@@ -465,3 +466,115 @@ describe('MCP server — guardlink_parse payload (GL-205)', () => {
     }
   });
 });
+
+// ─── Subscriptions: notified when the annotations move ───────────────
+
+describe('MCP server — resource subscriptions', () => {
+  let root: string;
+  let session: Awaited<ReturnType<typeof connect>>;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-mcp-sub-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'), DEFINITIONS);
+    await writeFile(join(root, 'src', 'auth.ts'), ANNOTATED_SOURCE);
+    session = await connect();
+  });
+
+  afterEach(async () => {
+    await session.close();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('notifies a subscriber when the annotation hash moves, and diffs since an earlier read', async () => {
+    await session.client.callTool({ name: 'guardlink_status', arguments: { root } });
+    const read: any = await session.client.readResource({ uri: 'guardlink://unmitigated' });
+    const hash = JSON.parse(read.contents[1].text).guardlink.annotation_hash;
+
+    const updated: string[] = [];
+    const notified = new Promise<void>(res => session.client.setNotificationHandler(ResourceUpdatedNotificationSchema, n => {
+      updated.push(n.params.uri);
+      if (updated.length === 2) res();
+    }));
+    await session.client.subscribeResource({ uri: 'guardlink://unmitigated' });
+    await session.client.subscribeResource({ uri: `guardlink://diff/since/${hash}` });
+
+    await writeFile(join(root, 'src', 'auth.ts'), ANNOTATED_SOURCE.replace('[critical]', '[low]'));
+    await notified;
+    expect(updated.sort()).toEqual([`guardlink://diff/since/${hash}`, 'guardlink://unmitigated']);
+
+    const since: any = await session.client.readResource({ uri: `guardlink://diff/since/${hash}` });
+    const body = JSON.parse(since.contents[0].text);
+    expect(body.since).toBe(hash);
+    expect(body.annotation_hash).not.toBe(hash);
+    expect(body.diff.exposures[0].details).toContain('severity: critical → low');
+  }, 15_000);
+
+  it('refuses an unknown URI, and says when a hash is not remembered', async () => {
+    await expect(session.client.subscribeResource({ uri: 'guardlink://nope' })).rejects.toThrow(/Unknown resource: guardlink:\/\/nope/);
+
+    await session.client.callTool({ name: 'guardlink_status', arguments: { root } });
+    const res: any = await session.client.readResource({ uri: 'guardlink://diff/since/sha256-v1:unknown' });
+    expect(JSON.parse(res.contents[0].text).error).toMatch(/^No model with annotation hash sha256-v1:unknown is remembered/);
+  });
+});
+
+// ─── Prompts: the context is assembled server-side ──────────────────
+
+describe('MCP server — prompts', () => {
+  let root: string;
+  let session: Awaited<ReturnType<typeof connect>>;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-mcp-prompt-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'), DEFINITIONS);
+    await writeFile(join(root, 'src', 'auth.ts'), ANNOTATED_SOURCE.replace('return email', 'const q = "```"; return email'));
+    session = await connect();
+  });
+
+  afterEach(async () => {
+    await session.close();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const text = (res: any): string => res.messages[0].content.text;
+
+  it('lists the four workflows', async () => {
+    const { prompts } = await session.client.listPrompts();
+    expect(prompts.map(p => p.name).sort()).toEqual([
+      'explain-trust-boundaries', 'propose-mitigations', 'review-security-delta', 'threat-model-file',
+    ]);
+    expect(prompts.find(p => p.name === 'threat-model-file')!.arguments!.map(a => [a.name, a.required])).toEqual([
+      ['root', false], ['file', true],
+    ]);
+  });
+
+  it('threat-model-file carries the file context and a source fence the file cannot close', async () => {
+    const prompt = text(await session.client.getPrompt({ name: 'threat-model-file', arguments: { root, file: 'src/auth.ts' } }));
+    expect(prompt).toMatch(/^Threat-model `src\/auth\.ts`\./);
+    expect(prompt).toContain('"status": "annotated"');
+    expect(prompt).toContain('````\n/**\n * Login handler.');
+    expect(prompt).toContain('Assets: #auth');
+    expect(prompt).toMatch(/annotation_hash sha256-v\d+:/);
+  });
+
+  it('propose-mitigations lists the asset\'s open exposures, and asks when the asset is unknown', async () => {
+    const prompt = text(await session.client.getPrompt({ name: 'propose-mitigations', arguments: { root, asset: '#auth' } }));
+    expect(prompt).toContain('- #auth → #sqli [critical] at src/auth.ts:4 — "Query built by concatenation"');
+    expect(prompt).toContain('- #prepared-stmts — "Parameterized queries"');
+
+    const unknown = text(await session.client.getPrompt({ name: 'explain-trust-boundaries', arguments: { root, asset: '#nope' } }));
+    expect(unknown).toMatch(/^"#nope" is not an asset in the threat model\./);
+  });
+
+  it('explain-trust-boundaries carries the flows around the asset', async () => {
+    const prompt = text(await session.client.getPrompt({ name: 'explain-trust-boundaries', arguments: { root, asset: '#auth', depth: '1' } }));
+    expect(prompt).toContain('Explain the trust boundaries around #auth.');
+    expect(prompt).toContain('0 boundaries, 1 flow(s), 0 transfer(s)');
+    await expect(session.client.getPrompt({ name: 'explain-trust-boundaries', arguments: { root, asset: '#auth', depth: 'two' } }))
+      .rejects.toThrow(/depth must be a whole number/);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Incremental parse cache — unchanged files are not re-parsed, changed ones are,
+ * and nothing the cache does can change the model it produces.
+ *
+ * The hit path is proven by tampering: a cached entry is edited on disk while
+ * the source file is left alone, and the edited text must come back. A cache
+ * that silently re-parsed everything would pass every other assertion here.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile, utimes } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseProject } from '../src/parser/parse-project.js';
+import { PARSE_CACHE_FILE, parseCacheKey } from '../src/parser/parse-cache.js';
+import { computeAnnotationHash } from '../src/parser/annotation-hash.js';
+
+let root: string;
+
+const AUTH = `/**
+ * @exposes #auth to #sqli [high] -- "raw query"
+ */
+export const login = () => true;
+`;
+
+async function readCache(): Promise<any> {
+  return JSON.parse(await readFile(join(root, PARSE_CACHE_FILE), 'utf-8'));
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'guardlink-parse-cache-'));
+  await mkdir(join(root, '.guardlink'), { recursive: true });
+  await mkdir(join(root, 'src'), { recursive: true });
+  await writeFile(join(root, '.guardlink', 'definitions.ts'),
+    '// @asset App.Auth (#auth) -- "Login"\n// @threat SQL_Injection (#sqli) [high] -- "SQL"\n');
+  await writeFile(join(root, 'src', 'auth.ts'), AUTH);
+});
+
+afterEach(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('parse cache', () => {
+  it('is off unless asked for', async () => {
+    await parseProject({ root, project: 'p' });
+    expect(existsSync(join(root, PARSE_CACHE_FILE))).toBe(false);
+  });
+
+  it('produces the same model as an uncached parse, cold and warm', async () => {
+    const plain = await parseProject({ root, project: 'p' });
+    const cold = await parseProject({ root, project: 'p', cache: true });
+    const warm = await parseProject({ root, project: 'p', cache: true });
+
+    expect(computeAnnotationHash(cold.model)).toBe(computeAnnotationHash(plain.model));
+    expect(computeAnnotationHash(warm.model)).toBe(computeAnnotationHash(plain.model));
+    expect(warm.model.exposures).toEqual(plain.model.exposures);
+    expect(warm.diagnostics).toEqual(plain.diagnostics);
+  });
+
+  it('ignores itself so a read command leaves git status clean', async () => {
+    await parseProject({ root, project: 'p', cache: true });
+    expect(await readFile(join(root, '.guardlink', 'cache', '.gitignore'), 'utf-8')).toBe('*\n');
+  });
+
+  it('reuses an entry while size and mtime are unchanged', async () => {
+    await parseProject({ root, project: 'p', cache: true });
+    const doc = await readCache();
+    doc.entries['src/auth.ts'].annotations[0].description = 'served from cache';
+    await writeFile(join(root, PARSE_CACHE_FILE), JSON.stringify(doc));
+
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.exposures[0].description).toBe('served from cache');
+  });
+
+  it('reuses an entry after a touch when the content hash still matches', async () => {
+    await parseProject({ root, project: 'p', cache: true });
+    const doc = await readCache();
+    doc.entries['src/auth.ts'].annotations[0].description = 'served from cache';
+    await writeFile(join(root, PARSE_CACHE_FILE), JSON.stringify(doc));
+    const later = new Date(Date.now() + 60_000);
+    await utimes(join(root, 'src', 'auth.ts'), later, later);
+
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.exposures[0].description).toBe('served from cache');
+  });
+
+  it('re-parses a file whose content changed', async () => {
+    await parseProject({ root, project: 'p', cache: true });
+    await writeFile(join(root, 'src', 'auth.ts'), AUTH.replace('raw query', 'string-built query'));
+
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.exposures[0].description).toBe('string-built query');
+  });
+
+  it('prunes entries for files that left the scan set', async () => {
+    await writeFile(join(root, 'src', 'gone.ts'), '// @comment -- "temporary"\n');
+    await parseProject({ root, project: 'p', cache: true });
+    expect(Object.keys((await readCache()).entries)).toContain('src/gone.ts');
+
+    await rm(join(root, 'src', 'gone.ts'));
+    await parseProject({ root, project: 'p', cache: true });
+    expect(Object.keys((await readCache()).entries)).not.toContain('src/gone.ts');
+  });
+
+  it('discards the whole cache when the key moves', async () => {
+    await parseProject({ root, project: 'p', cache: true });
+    const doc = await readCache();
+    doc.key = 'v0:hash-v1:guardlink-0.0.1';
+    doc.entries['src/auth.ts'].annotations[0].description = 'stale grammar';
+    await writeFile(join(root, PARSE_CACHE_FILE), JSON.stringify(doc));
+
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.exposures[0].description).toBe('raw query');
+    expect((await readCache()).key).toBe(parseCacheKey());
+  });
+
+  it('re-parses an entry stored when the file\'s grammar had not loaded', async () => {
+    await parseProject({ root, project: 'p', cache: true });
+    const doc = await readCache();
+    const entry = doc.entries['src/auth.ts'];
+    expect(entry.grammar).toBe(true);
+    // What a run without the optional tree-sitter grammars stores: no symbols.
+    entry.grammar = false;
+    delete entry.annotations[0].location.enclosing_symbol;
+    delete entry.security_symbols;
+    entry.annotations[0].description = 'parsed without grammars';
+    await writeFile(join(root, PARSE_CACHE_FILE), JSON.stringify(doc));
+
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.exposures[0].description).toBe('raw query');
+    expect(model.exposures[0].location.enclosing_symbol).toBeDefined();
+    expect((await readCache()).entries['src/auth.ts'].grammar).toBe(true);
+  });
+
+  it('treats a corrupt cache as absent', async () => {
+    await mkdir(join(root, '.guardlink', 'cache'), { recursive: true });
+    await writeFile(join(root, PARSE_CACHE_FILE), '{ not json');
+
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.exposures).toHaveLength(1);
+  });
+
+  it('writes nothing in a project without .guardlink/', async () => {
+    await rm(join(root, '.guardlink'), { recursive: true, force: true });
+    await parseProject({ root, project: 'p', cache: true });
+    expect(existsSync(join(root, '.guardlink'))).toBe(false);
+  });
+});
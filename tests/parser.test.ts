@@ -622,6 +622,8 @@ describe('parseString', () => {
         file: 'src/api.ts',
         line: 12,
         parent_symbol: 'renderProfile',
+        // Line 12 of a one-line file sits inside no declaration.
+        enclosing_symbol: null,
         origin_file: '.guardlink/annotations/annotations.GAL',
         origin_line: 2,
       });
@@ -110,33 +110,132 @@ describe('GL-505 — detects blocks whose file:line no longer holds the symbol',
     expect(await drifts()).toEqual([]);
   });
 
-  it('offers the other candidates when a symbol appears in several places', async () => {
+  it('offers the other candidates when a symbol is declared in several places', async () => {
     await writeFile(join(root, 'src', 'api.ts'),
-      `const x = 1;\n${REFACTORED_SOURCE}\nconst alias = handler;\n`);
+      `const x = 1;\n${REFACTORED_SOURCE}\nexport class Legacy {\n  handler() { return 0; }\n}\n`);
     const handler = (await drifts()).find(d => d.symbol === 'handler')!;
     expect(handler.candidates!.length).toBeGreaterThan(1);
     expect(handler.candidates).toContain(handler.suggested_line);
   });
 
-  it('picks the occurrence nearest the recorded line', async () => {
-    await writeFile(join(root, 'src', 'api.ts'), REFACTORED_SOURCE + '\nconst alias = handler;\n');
+  it('picks the declaration nearest the recorded line', async () => {
+    await writeFile(join(root, 'src', 'api.ts'),
+      `${REFACTORED_SOURCE}\nexport class Legacy {\n  handler() { return 0; }\n}\n`);
+    const handler = (await drifts()).find(d => d.symbol === 'handler')!;
+    expect(handler.suggested_line).toBe(8);
+    expect(handler.candidates).toEqual([8, 17]);
+  });
+
+  it('a mere mention on the recorded line does not hold the anchor in place', async () => {
+    // Whole-word matching read line 1 as still correct. It is a reference, not
+    // the declaration, and the block belongs with the declaration.
+    await writeFile(join(root, 'src', 'api.ts'), `const alias = handler;\n${REFACTORED_SOURCE}`);
     const handler = (await drifts()).find(d => d.symbol === 'handler')!;
-    expect(handler.suggested_line).toBe(8);   // the declaration, not the far alias
-    expect(handler.candidates!.length).toBe(2);
-    expect(Math.max(...handler.candidates!)).toBeGreaterThan(8);
+    expect(handler.kind).toBe('moved');
+    expect(handler.suggested_line).toBe(9);
+    expect(handler.candidates).toBeUndefined();
+  });
+
+  it('an anchor inside the body or the doc comment of its symbol is not drift', async () => {
+    await writeFile(join(root, 'src', 'api.ts'), `/**\n * Handles requests.\n */\n${ORIGINAL_SOURCE}`);
+    await writeFile(galPath(),
+      '@source file:src/api.ts line:2 symbol:handler\n'
+      + '@exposes #api to #sqli [critical] -- "in the doc comment"\n'
+      + '\n'
+      + '@source file:src/api.ts line:9 symbol:other\n'
+      + '@audit #api -- "in the body"\n');
+    expect(await drifts()).toEqual([]);
+  });
+
+  it('matches a qualified symbol to its method', async () => {
+    await writeFile(join(root, 'src', 'api.ts'),
+      "import a from 'a';\n\nexport class Api {\n  handler(req) {\n    return req;\n  }\n}\n");
+    await writeFile(galPath(), '@source file:src/api.ts line:1 symbol:Api.handler\n@audit #api -- "method"\n');
+    const [drift] = await drifts();
+    expect(drift.kind).toBe('moved');
+    expect(drift.suggested_line).toBe(4);
+  });
+});
+
+describe('GL-505 — follows a symbol out of its file', () => {
+  it('a function moved to another file is relocated, even when another took its place', async () => {
+    await writeFile(join(root, 'src', 'api.ts'), ORIGINAL_SOURCE.replace(/\bother\b/, 'replacement'));
+    await writeFile(join(root, 'src', 'util.ts'), '// helpers\n\nexport function other() {\n  return 1;\n}\n');
+    const other = (await drifts()).find(d => d.symbol === 'other')!;
+    expect(other.kind).toBe('relocated');
+    expect(other.suggested_file).toBe('src/util.ts');
+    expect(other.suggested_line).toBe(3);
+  });
+
+  it('a renamed file is followed by every block that pointed into it', async () => {
+    await rm(join(root, 'src', 'api.ts'));
+    await writeFile(join(root, 'src', 'routes.ts'), REFACTORED_SOURCE);
+    const found = await drifts();
+    expect(found.map(d => [d.kind, d.suggested_file, d.suggested_line])).toEqual([
+      ['relocated', 'src/routes.ts', 8],
+      ['relocated', 'src/routes.ts', 12],
+    ]);
+  });
+
+  it('proposes nothing when several files declare the name', async () => {
+    await writeFile(join(root, 'src', 'api.ts'), 'export function handler(req) {\n  return req;\n}\n\n// other moved out\n');
+    await writeFile(join(root, 'src', 'a.ts'), 'export function other() {}\n');
+    await writeFile(join(root, 'src', 'b.ts'), 'export function other() {}\n');
+    const other = (await drifts()).find(d => d.symbol === 'other')!;
+    expect(other.kind).toBe('symbol_gone');
+    expect(other.suggested_file).toBeUndefined();
+    expect(other.message).toContain('src/a.ts, src/b.ts');
+  });
+});
+
+describe('GL-505 — files with no grammar keep whole-word matching', () => {
+  const RUBY = 'def handler(req)\n  req\nend\n';
+
+  beforeEach(async () => {
+    await writeFile(join(root, 'src', 'api.rb'), RUBY);
+    await writeFile(galPath(), '@source file:src/api.rb line:1 symbol:handler\n@audit #api -- "ruby"\n');
+  });
+
+  it('a mention still counts, as it always did', async () => {
+    await writeFile(join(root, 'src', 'api.rb'), `alias = handler\n${RUBY}`);
+    expect(await drifts()).toEqual([]);
+  });
+
+  it('offers every line the name appears on', async () => {
+    await writeFile(join(root, 'src', 'api.rb'), `x = 1\n${RUBY}\nalias = handler\n`);
+    const [handler] = await drifts();
+    expect(handler.kind).toBe('moved');
+    expect(handler.suggested_line).toBe(2);
+    expect(handler.candidates).toEqual([2, 6]);
   });
 });
 
 describe('GL-505 — distinguishes the cases a human must resolve', () => {
-  it('a renamed symbol is symbol_gone, with no proposed line', async () => {
+  it('a symbol renamed in place is renamed, with the new name and no proposed line', async () => {
     await writeFile(join(root, 'src', 'api.ts'), ORIGINAL_SOURCE.replace(/\bother\b/, 'renamed'));
     const found = await drifts();
-    const gone = found.find(d => d.symbol === 'other')!;
+    const renamed = found.find(d => d.symbol === 'other')!;
+    expect(renamed.kind).toBe('renamed');
+    expect(renamed.suggested_symbol).toBe('renamed');
+    expect(renamed.suggested_line).toBeUndefined();
+  });
+
+  it('a renamed symbol whose line shifted is symbol_gone — the code no longer says which it was', async () => {
+    await writeFile(join(root, 'src', 'api.ts'), REFACTORED_SOURCE.replace(/\bother\b/, 'renamed'));
+    const gone = (await drifts()).find(d => d.symbol === 'other')!;
     expect(gone.kind).toBe('symbol_gone');
-    expect(gone.suggested_line).toBeUndefined();
+    expect(gone.suggested_symbol).toBeUndefined();
     expect(gone.message).toContain('rewriting');
   });
 
+  it('never proposes a name another block already anchors to', async () => {
+    // `other` deleted outright: line 5 now starts nothing, and line 1 is handler's.
+    await writeFile(galPath(), '@source file:src/api.ts line:1 symbol:gone\n@audit #api -- "x"\n'
+      + '\n@source file:src/api.ts line:1 symbol:handler\n@audit #api -- "y"\n');
+    const [gone] = await drifts();
+    expect(gone.kind).toBe('symbol_gone');
+  });
+
   it('a deleted file is file_gone', async () => {
     await rm(join(root, 'src', 'api.ts'));
     const found = await drifts();
@@ -224,6 +323,19 @@ describe('GL-505 — applyReanchor, when explicitly confirmed', () => {
     expect(after).toContain('@source file:src/api.ts line:5 symbol:other');  // untouched
   });
 
+  it('follows a rename and a relocation, then reports nothing', async () => {
+    await writeFile(join(root, 'src', 'api.ts'), ORIGINAL_SOURCE.replace(/\bhandler\b/, 'handle').replace(/export function other[^]*$/, ''));
+    await writeFile(join(root, 'src', 'util.ts'), 'export function other() {\n  return 1;\n}\n');
+    const { updated, skipped } = applyReanchor(root, await drifts());
+    expect(updated).toEqual(['.guardlink/annotations/src/api.ts.gal']);
+    expect(skipped).toEqual([]);
+
+    const after = await readFile(galPath(), 'utf-8');
+    expect(after).toContain('@source file:src/api.ts line:1 symbol:handle');
+    expect(after).toContain('@source file:src/util.ts line:1 symbol:other');
+    expect(await drifts()).toEqual([]);
+  });
+
   it('is idempotent — a second apply finds nothing left to do', async () => {
     await writeFile(join(root, 'src', 'api.ts'), REFACTORED_SOURCE);
     applyReanchor(root, await drifts());
@@ -17,7 +17,7 @@ import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { parseProject } from '../src/parser/parse-project.js';
-import { lookup } from '../src/mcp/lookup.js';
+import { lookup } from '../src/analyzer/lookup.js';
 import type { ThreatModel } from '../src/types/index.js';
 
 /** Field names that are file inventories, not relations. */
@@ -49,6 +49,8 @@ const QUERY_FOR: Record<string, string> = {
   actors: 'actors',
   entitlements: 'entitlements',
   external_refs: 'external refs',
+  templates: 'templates',
+  applications: 'applications of audited',
 };
 
 const DEFINITIONS = `/**
@@ -58,6 +60,9 @@ const DEFINITIONS = `/**
  * @threat Auth_Bypass (#auth-bypass) [high] -- "Authentication sidestepped"
  * @control Prepared_Statements (#prepared-stmts) -- "Parameterized queries"
  * @actor Namespace_Admin (#ns-admin) -- "Administers one namespace's configuration"
+ * @template audited(asset) -- "Reviewed on every release"
+ *   @audit $asset -- "release review"
+ * @template:end
  */
 export {};
 `;
@@ -81,6 +86,7 @@ const SOURCE = `/**
  * @feature "Checkout" -- "Cart and order placement"
  * @comment -- "Rate limit: 100 req/15min"
  * @entitles #ns-admin to configure-archival-destination on #api against #sqli -- "By design: this is namespace configuration. Authz: src/authz.ts:12"
+ * @apply audited(#api)
  * @flows "#sibling-lib.tokens" -> #api via header -- "Cross-repo token handoff (quoted: the unquoted form does not parse — see report)"
  */
 export function handler(): void {}
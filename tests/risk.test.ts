@@ -0,0 +1,124 @@
+/**
+ * Likelihood × impact scoring over the model.
+ *
+ * The fixture is small enough to score by hand, and each exposure is there to
+ * exercise one factor: reachability through a chain of flows, a boundary,
+ * sensitive data, a mitigation, an acceptance and a confirmation. Lookup and
+ * the heatmap are checked to agree with the engine rather than re-derive it.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseProject } from '../src/parser/parse-project.js';
+import { computeRisk, riskLevel } from '../src/risk/index.js';
+import { lookup, SUPPORTED_QUERY_FORMS } from '../src/analyzer/lookup.js';
+import { computeAssetHeatmap } from '../src/dashboard/data.js';
+import type { ThreatModel } from '../src/types/index.js';
+
+let root: string;
+let model: ThreatModel;
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), 'guardlink-risk-'));
+  await mkdir(join(root, '.guardlink'), { recursive: true });
+  await mkdir(join(root, 'src'), { recursive: true });
+  await writeFile(join(root, '.guardlink', 'definitions.ts'), [
+    '// @asset App.Api (#api) -- "API"',
+    '// @asset App.Db (#db) -- "Orders database"',
+    '// @asset App.Batch (#batch) -- "Nightly export"',
+    '// @asset App.Docs (#docs) -- "Static docs"',
+    '// @threat SQLi (#sqli) [high] -- "Query built from input"',
+    '// @threat IDOR (#idor) [high] -- "Reads another user\'s row"',
+    '// @threat DoS (#dos) [medium] -- "Request flood"',
+    '// @control Authz (#authz) -- "Ownership check"',
+    '',
+  ].join('\n'));
+  await writeFile(join(root, 'src', 'api.ts'), [
+    '// @flows User -> #api -> #db via HTTPS',
+    '// @boundary between #api and #db (#app-db) -- "App tier to data tier"',
+    '// @handles pii on #db -- "Customer addresses"',
+    '// @exposes #db to #sqli [high] -- "search builds SQL"',
+    '// @exposes #api to #idor [high] -- "GET /orders/:id"',
+    '// @mitigates #api against #idor using #authz -- "owner checked"',
+    'export function handle() {}',
+    '',
+  ].join('\n'));
+  await writeFile(join(root, 'src', 'batch.ts'), [
+    '// @exposes #batch to #dos [medium] -- "unbounded export"',
+    '// @accepts #dos on #batch -- "runs once a night"',
+    '// @exposes #batch to #idor cvss:CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N -- "export ignores tenant"',
+    '// @confirmed #idor on #batch -- "pentest reproduced it"',
+    'export function run() {}',
+    '',
+  ].join('\n'));
+  ({ model } = await parseProject({ root, project: 'p' }));
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('computeRisk', () => {
+  it('scores each exposure from the factors that apply to it', () => {
+    const rows = computeRisk(model).exposures.map(e => [e.asset, e.threat, e.status, e.likelihood, e.impact, e.score, e.level]);
+    expect(rows).toEqual([
+      // high +1 for pii; 2 +2 reachable through #api, +1 on a boundary
+      ['#db', '#sqli', 'open', 5, 5, 25, 'critical'],
+      // CVSS 6.5 → 4; confirmed is 5 whatever else applies
+      ['#batch', '#idor', 'confirmed', 5, 4, 20, 'critical'],
+      // reachable and on a boundary, then mitigated
+      ['#api', '#idor', 'mitigated', 3, 4, 12, 'high'],
+      // accepted keeps its score
+      ['#batch', '#dos', 'accepted', 2, 3, 6, 'medium'],
+    ]);
+  });
+
+  it('says why, one phrase per factor', () => {
+    const [db] = computeRisk(model).exposures;
+    expect(db.factors).toEqual(['severity high', 'handles pii', 'reachable from User', 'crosses a trust boundary']);
+  });
+
+  it('scores an asset by its worst exposure, and lists unexposed assets last', () => {
+    const assets = computeRisk(model).assets.map(a => [a.asset, a.score, a.exposures, a.open]);
+    expect(assets).toEqual([
+      ['App.Db', 25, 1, 1],
+      ['App.Batch', 20, 2, 1],
+      ['App.Api', 12, 1, 0],
+      ['App.Docs', 0, 0, 0],
+    ]);
+  });
+
+  it('bands scores', () => {
+    expect([25, 20, 19, 12, 11, 6, 5, 1, 0].map(riskLevel))
+      .toEqual(['critical', 'critical', 'high', 'high', 'medium', 'medium', 'low', 'low', 'none']);
+  });
+});
+
+describe('surfaces', () => {
+  it('answers "risk" and "risk for <asset>" from lookup', () => {
+    expect(SUPPORTED_QUERY_FORMS.some(f => f.startsWith('risk [for <asset>]'))).toBe(true);
+
+    const all = lookup(model, 'risk');
+    expect(all.type).toBe('risk_by_asset');
+    expect(all.results.map((r: any) => r.asset)).toEqual(['App.Db', 'App.Batch', 'App.Api']);
+
+    const batch = lookup(model, 'risk for #batch');
+    expect(batch.type).toBe('risk');
+    expect(batch.results).toMatchObject([
+      { threat: '#idor', status: 'confirmed', score: 20, cvss: 'CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:U/C:H/I:N/A:N', file: 'src/batch.ts' },
+      { threat: '#dos', status: 'accepted', score: 6 },
+    ]);
+  });
+
+  it('colours and orders the heatmap by the same score, whichever name a tile has', () => {
+    const tiles = computeAssetHeatmap(model).map(t => [t.name, t.riskScore, t.riskLevel]);
+    expect(tiles.slice(0, 4)).toEqual([
+      ['App.Db', 25, 'critical'],
+      ['#db', 25, 'critical'],
+      ['App.Batch', 20, 'critical'],
+      ['#batch', 20, 'critical'],
+    ]);
+    expect(tiles.find(t => t[0] === 'User')).toEqual(['User', 0, 'none']);
+  });
+});
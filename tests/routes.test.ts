@@ -0,0 +1,284 @@
+/**
+ * Endpoint discovery — each framework's routing declarations read into
+ * method, path, handler and middleware chain, the suggestions built on them,
+ * and the inventory `guardlink unannotated` lists.
+ */
+import { execFile } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, it, expect, afterAll } from 'vitest';
+import { discoverEndpoints, endpointSuggestions, middlewareKind, suggestAnnotations, type Endpoint } from '../src/mcp/index.js';
+import type { ThreatModel } from '../src/types/index.js';
+
+const repoRoot = join(dirname(fileURLToPath(import.meta.url)), '..');
+const cli = join(repoRoot, 'src', 'cli', 'index.ts');
+const tsx = createRequire(import.meta.url).resolve('tsx/cli');
+
+/** `METHOD path → handler [middleware:kind, …]`, one string per endpoint. */
+const summary = (endpoints: Endpoint[]) => endpoints.map(e =>
+  `${e.method} ${e.path} → ${e.handler ?? '(inline)'}${e.middleware.length ? ` [${e.middleware.map(m => `${m.name}:${m.kind}`).join(', ')}]` : ''}`);
+
+const temps: string[] = [];
+
+async function project(files: Record<string, string>): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), 'guardlink-routes-'));
+  temps.push(root);
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+  return root;
+}
+
+afterAll(async () => {
+  await Promise.all(temps.map(t => rm(t, { recursive: true, force: true })));
+});
+
+const EXPRESS = [
+  "import express from 'express';",
+  "import rateLimit from 'express-rate-limit';",
+  'const app = express();',
+  'const users = express.Router();',
+  'users.use(requireAuth);',
+  "users.get('/:id', getUser);",
+  "users.post('/', rateLimit({ windowMs: 60_000 }), celebrate(schema), async (req, res) => {",
+  '  res.json(await create(req.body));',
+  '});',
+  "app.use('/api/users', users);",
+  "app.get('/health', (_req, res) => res.send('ok')); // app.get('/commented-out', x)",
+  '',
+  'function getUser(req, res) {',
+  '  res.json(find(req.params.id));',
+  '}',
+].join('\n');
+
+describe('discoverEndpoints', () => {
+  it('reads Express routers, their mounts and middleware', async () => {
+    const found = await discoverEndpoints('src/server.js', EXPRESS);
+    expect(summary(found)).toEqual([
+      'GET /api/users/:id → getUser [requireAuth:auth]',
+      'POST /api/users/ → (inline) [requireAuth:auth, rateLimit:rate-limit, celebrate:validation]',
+      'GET /health → (inline)',
+    ]);
+    expect(found[0]).toMatchObject({ framework: 'express', line: 6, end_line: 6, handler_line: 13, handler_end_line: 15 });
+    expect(found[1]).toMatchObject({ line: 7, end_line: 9 });
+  });
+
+  it('reads Fastify hooks, route options and fastify.route', async () => {
+    const source = [
+      "import Fastify from 'fastify';",
+      'const server = Fastify();',
+      "server.addHook('onRequest', server.authenticate);",
+      "server.get('/items', { schema: itemSchema, preHandler: [audit] }, listItems);",
+      'server.route({',
+      "  method: ['PUT', 'PATCH'],",
+      "  url: '/items/:id',",
+      '  handler: updateItem,',
+      '});',
+    ].join('\n');
+    expect(summary(await discoverEndpoints('src/app.ts', source))).toEqual([
+      'GET /items → listItems [server.authenticate:auth, audit:other, schema:validation]',
+      'PUT|PATCH /items/:id → updateItem [server.authenticate:auth]',
+    ]);
+  });
+
+  it('reads Nest controllers, with class-level guards on every route', async () => {
+    const source = [
+      "@Controller('orders')",
+      '@UseGuards(JwtGuard)',
+      'export class OrdersController {',
+      "  @Get(':id')",
+      '  findOne(@Param("id") id: string) {',
+      '    return this.orders.find(id);',
+      '  }',
+      '',
+      '  @Post()',
+      '  @UsePipes(new ValidationPipe())',
+      '  @Throttle({ default: { limit: 3 } })',
+      '  async create(@Body() dto: CreateOrderDto) {}',
+      '}',
+    ].join('\n');
+    const found = await discoverEndpoints('src/orders.controller.ts', source);
+    expect(summary(found)).toEqual([
+      'GET /orders/:id → findOne [JwtGuard:auth]',
+      'POST /orders → create [JwtGuard:auth, ValidationPipe:validation, @Throttle:rate-limit]',
+    ]);
+    expect(found[0]).toMatchObject({ framework: 'nest', line: 4, end_line: 5, handler_line: 5, handler_end_line: 7 });
+  });
+
+  it('reads Flask blueprints and FastAPI routers with their dependencies', async () => {
+    const flask = [
+      'from flask import Blueprint',
+      "bp = Blueprint('admin', __name__, url_prefix='/admin')",
+      '',
+      "@bp.route('/users', methods=['GET', 'POST'])",
+      '@login_required',
+      '@limiter.limit("5/minute")',
+      'def users():',
+      '    return list_users()',
+    ].join('\n');
+    expect(summary(await discoverEndpoints('app/admin.py', flask))).toEqual([
+      'GET|POST /admin/users → users [@login_required:auth, @limiter.limit:rate-limit]',
+    ]);
+
+    const fastapi = [
+      'from fastapi import APIRouter, Depends',
+      'router = APIRouter(',
+      '    prefix="/items",',
+      '    dependencies=[Depends(verify_token)],',
+      ')',
+      '',
+      '@router.get("/{item_id}")',
+      'async def read_item(item_id: int, user = Depends(get_current_user)):',
+      '    return {"item_id": item_id}',
+    ].join('\n');
+    const found = await discoverEndpoints('app/items.py', fastapi);
+    expect(summary(found)).toEqual(['GET /items/{item_id} → read_item [verify_token:auth, get_current_user:auth]']);
+    expect(found[0]).toMatchObject({ framework: 'fastapi', line: 7, end_line: 8, handler_end_line: 9 });
+  });
+
+  it('reads Django urlpatterns, with view wrappers as the chain', async () => {
+    const source = [
+      'from django.urls import include, path',
+      'urlpatterns = [',
+      "    path('accounts/<int:pk>/', login_required(views.account_detail), name='account'),",
+      "    path('reports/', ReportView.as_view()),",
+      "    path('api/', include('api.urls')),",
+      ']',
+    ].join('\n');
+    expect(summary(await discoverEndpoints('shop/urls.py', source))).toEqual([
+      'ANY /accounts/<int:pk>/ → views.account_detail [login_required:auth]',
+      'ANY /reports/ → ReportView',
+    ]);
+  });
+
+  it('reads Spring controllers, their class mapping and security annotations', async () => {
+    const source = [
+      '@RestController',
+      '@RequestMapping("/api/accounts")',
+      'public class AccountController {',
+      '    @GetMapping("/{id}")',
+      '    @PreAuthorize("hasRole(\'ADMIN\')")',
+      '    public Account get(@PathVariable Long id) {',
+      '        return repo.find(id);',
+      '    }',
+      '',
+      '    @RequestMapping(value = "/transfer", method = RequestMethod.POST)',
+      '    public void transfer(@Valid @RequestBody Transfer t) { }',
+      '}',
+    ].join('\n');
+    expect(summary(await discoverEndpoints('src/main/java/AccountController.java', source))).toEqual([
+      'GET /api/accounts/{id} → get [@PreAuthorize:auth]',
+      'POST /api/accounts/transfer → transfer [@Valid:validation]',
+    ]);
+  });
+
+  it('reads Gin groups and their middleware, only in files that import gin', async () => {
+    const source = [
+      'package main',
+      'import "github.com/gin-gonic/gin"',
+      'func main() {',
+      '	r := gin.Default()',
+      '	r.Use(gin.Logger())',
+      '	v1 := r.Group("/v1", AuthRequired())',
+      '	v1.POST("/login", loginLimiter, login)',
+      '	r.GET("/ping", func(c *gin.Context) { c.String(200, "pong") })',
+      '}',
+    ].join('\n');
+    expect(summary(await discoverEndpoints('main.go', source))).toEqual([
+      'POST /v1/login → login [gin.Logger:other, AuthRequired:auth, loginLimiter:rate-limit]',
+      'GET /ping → (inline) [gin.Logger:other]',
+    ]);
+    expect(await discoverEndpoints('main.go', source.replace('github.com/gin-gonic/gin', 'net/http'))).toEqual([]);
+  });
+});
+
+describe('middlewareKind', () => {
+  it.each([
+    ['passport.authenticate', 'auth'],
+    ['RolesGuard', 'auth'],
+    ['express-rate-limit', 'rate-limit'],
+    ['throttle', 'rate-limit'],
+    ['zodValidate', 'validation'],
+    ['cors', 'other'],
+  ])('classifies %s as %s', (name, kind) => {
+    expect(middlewareKind(name)).toBe(kind);
+  });
+});
+
+describe('endpoint suggestions', () => {
+  it('proposes the asset and what the chain mitigates, or the missing auth', async () => {
+    const [getUser, create, health] = await discoverEndpoints('src/server.js', EXPRESS);
+    expect(endpointSuggestions(getUser).map(s => [s.category, s.confidence, s.annotation])).toEqual([
+      ['asset', 'medium', '@asset Server.getUser -- "GET /api/users/:id"'],
+      ['mitigation', 'medium', '@mitigates Server.getUser against #broken-auth using #authentication -- "requireAuth on GET /api/users/:id"'],
+    ]);
+    expect(endpointSuggestions(create).map(s => s.annotation).slice(2)).toEqual([
+      '@mitigates Server against #dos using #rate-limit -- "rateLimit on POST /api/users/"',
+      '@mitigates Server against #injection using #input-validation -- "celebrate on POST /api/users/"',
+    ]);
+    expect(endpointSuggestions(health)[1]).toMatchObject({
+      category: 'exposure',
+      confidence: 'low',
+      annotation: '@exposes Server to #broken-auth [medium] -- "GET /health has no authentication in its middleware chain"',
+    });
+  });
+
+  it('suggests for endpoints no annotation covers, and in a diff only for declarations it adds', async () => {
+    const root = await project({ 'src/server.js': EXPRESS });
+    const model = {
+      annotations_parsed: 1,
+      assets: [{ path: ['Server'], id: 'server', location: { file: 'src/server.js', line: 12 } }],
+    } as unknown as ThreatModel;
+
+    const whole = await suggestAnnotations({ root, model, file: 'src/server.js', rules: [] });
+    // The @asset above getUser covers GET /api/users/:id through its handler.
+    expect([...new Set(whole.filter(s => s.endpoint).map(s => s.endpoint))]).toEqual(['POST /api/users/', 'GET /health']);
+
+    const diff = [
+      '--- a/src/server.js',
+      '+++ b/src/server.js',
+      '@@ -10,1 +10,2 @@',
+      " app.use('/api/users', users);",
+      "+app.get('/health', (_req, res) => res.send('ok')); // app.get('/commented-out', x)",
+    ].join('\n');
+    const added = await suggestAnnotations({ root, model, diff, rules: [] });
+    expect(added.filter(s => s.endpoint).map(s => [s.line, s.category, s.reason.startsWith('[New code]')])).toEqual([
+      [11, 'asset', true],
+      [11, 'exposure', true],
+    ]);
+  });
+});
+
+describe('guardlink unannotated', () => {
+  function guardlink(cwd: string, ...args: string[]): Promise<{ status: number; stdout: string; stderr: string }> {
+    return new Promise(resolve => {
+      execFile(process.execPath, [tsx, cli, ...args], { cwd, encoding: 'utf-8' }, (err, stdout, stderr) => {
+        const code = (err as { code?: number | string } | null)?.code;
+        resolve({ status: typeof code === 'number' ? code : err ? 1 : 0, stdout, stderr });
+      });
+    });
+  }
+
+  it('lists the endpoints no annotation covers, and with --endpoints all of them', async () => {
+    const root = await project({
+      'src/server.js': EXPRESS.replace('function getUser', '// @asset Server.getUser -- "User lookup"\nfunction getUser'),
+      'src/util.js': 'export const x = 1;\n',
+    });
+    const [open, all] = await Promise.all([
+      guardlink(root, 'unannotated'),
+      guardlink(root, 'unannotated', '--endpoints'),
+    ]);
+    expect(open.status).toBe(0);
+    expect(open.stdout).toContain('⚠  2 of 3 HTTP endpoint(s) with no annotations:');
+    expect(open.stdout).toContain('   POST /api/users/  src/server.js:7  [requireAuth:auth, rateLimit:rate-limit, celebrate:validation]');
+    expect(open.stdout).toContain('   GET /health  src/server.js:11');
+    expect(open.stdout).not.toContain('GET /api/users/:id');
+
+    expect(all.stdout).toContain('3 HTTP endpoint(s), 2 with no annotations:');
+    expect(all.stdout).toContain('   ✓ GET /api/users/:id  src/server.js:6  → getUser  [requireAuth:auth]');
+  }, 60_000);
+});
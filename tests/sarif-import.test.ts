@@ -0,0 +1,180 @@
+/**
+ * `guardlink import-sarif` — scanner findings placed on the model.
+ *
+ * The SARIF fixtures are trimmed to the fields each tool actually uses for the
+ * thing under test: Semgrep's `CWE-89: …` tags, CodeQL's rules on an extension
+ * with `external/cwe/cwe-089` tags and a `%SRCROOT%` base, Trivy's CVE rule ids.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseProject } from '../src/parser/parse-project.js';
+import {
+  parseSarif, matchScannerFindings, saveScannerFindings, loadScannerFindings, toolSlug, type ScannerFinding,
+} from '../src/analyzer/sarif-import.js';
+import { generateDashboardHTML } from '../src/dashboard/generate.js';
+
+const sarif = (runs: unknown[]) => JSON.stringify({ version: '2.1.0', runs });
+
+const semgrep = (file: string, line: number) => ({
+  tool: { driver: { name: 'Semgrep OSS', rules: [{
+    id: 'python.lang.security.sqli',
+    properties: { tags: ['CWE-89: Improper Neutralization of Special Elements used in an SQL Command', 'security'] },
+  }] } },
+  results: [{
+    ruleId: 'python.lang.security.sqli', level: 'error', message: { text: 'query built from input' },
+    locations: [{ physicalLocation: { artifactLocation: { uri: file }, region: { startLine: line } } }],
+  }],
+});
+
+describe('parseSarif', () => {
+  it('reads CWE and CVE ids from where Semgrep, CodeQL and Trivy put them', () => {
+    const findings = parseSarif(sarif([
+      semgrep('src/db.py', 9),
+      {
+        tool: {
+          driver: { name: 'CodeQL' },
+          extensions: [{ name: 'codeql/python-queries', rules: [{
+            id: 'py/sql-injection', properties: { tags: ['security', 'external/cwe/cwe-089'], 'security-severity': '8.8' },
+          }] }],
+        },
+        originalUriBaseIds: { '%SRCROOT%': { uri: 'file:///work/repo/' } },
+        results: [{
+          ruleId: 'py/sql-injection', rule: { id: 'py/sql-injection', index: 0, toolComponent: { index: 0 } },
+          message: { text: 'This SQL query depends on a user-provided value.' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'src/db.py', uriBaseId: '%SRCROOT%' }, region: { startLine: 12 } } }],
+        }],
+      },
+      {
+        tool: { driver: { name: 'Trivy', rules: [{ id: 'CVE-2021-44228', properties: { 'security-severity': '10.0' } }] } },
+        results: [{
+          ruleId: 'CVE-2021-44228', ruleIndex: 0, level: 'error', message: { text: 'log4j-core 2.14.1' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'file:///work/repo/pom.xml' }, region: { startLine: 1 } } }],
+        }],
+      },
+    ]), '/work/repo').findings;
+
+    expect(findings.map(f => [f.tool, f.file, f.line, f.refs, f.severity])).toEqual([
+      ['Semgrep OSS', 'src/db.py', 9, ['cwe:CWE-89'], undefined],
+      ['CodeQL', 'src/db.py', 12, ['cwe:CWE-89'], 'high'],
+      ['Trivy', 'pom.xml', 1, ['cve:CVE-2021-44228'], 'critical'],
+    ]);
+  });
+
+  it('refuses what is not SARIF 2.1.0', () => {
+    expect(() => parseSarif('{', '/r', 'x.sarif')).toThrow('x.sarif is not valid JSON');
+    expect(() => parseSarif('{"version":"2.0.0","runs":[]}', '/r', 'x.sarif')).toThrow('only 2.1.0 is supported');
+    expect(() => parseSarif('{"version":"2.1.0"}', '/r', 'x.sarif')).toThrow('expected a SARIF log with a runs array');
+  });
+
+  it('keeps tool names inside the directory', () => {
+    expect(toolSlug('Semgrep OSS')).toBe('semgrep-oss');
+    expect(toolSlug('../../etc/passwd')).toBe('etc-passwd');
+    expect(toolSlug('…')).toBe('scanner');
+  });
+});
+
+describe('placing findings on the model', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-sarif-import-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'), [
+      '// @asset App.Db (#db) -- "Orders database"',
+      '// @asset App.Web (#web) -- "Templates"',
+      '// @asset App.Reports (#reports) -- "Nightly export"',
+      '// @threat SQLi (#sqli) [high] cwe:CWE-89 -- "Query built from input"',
+      '// @threat XSS (#xss) [medium] cwe:CWE-79 -- "Unescaped output"',
+      '// @control Prepared (#prepared) -- "Bound parameters"',
+      '',
+    ].join('\n'));
+    await writeFile(join(root, 'src', 'db.py'), [
+      '# @exposes #db to #sqli -- "search builds SQL"',
+      'def search(q):',
+      '    return run("SELECT * FROM t WHERE n = \'%s\'" % q)',
+      '',
+    ].join('\n'));
+    await writeFile(join(root, 'src', 'reports.py'), [
+      '# @exposes #reports to #sqli -- "export builds SQL"',
+      '# @mitigates #reports against #sqli using #prepared -- "bound"',
+      'def export(q):',
+      '    return run("SELECT * FROM t WHERE n = ?", q)',
+      '',
+    ].join('\n'));
+    await writeFile(join(root, 'src', 'web.py'), [
+      '# @handles pii on #web -- "Renders names"',
+      'def render(name):',
+      '    return "<b>" + name + "</b>"',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const place = async (findings: ScannerFinding[]) =>
+    matchScannerFindings((await parseProject({ root, project: 'p' })).model, findings);
+
+  it('lands on a mitigated exposure, an unmitigated one, or no modelled threat', async () => {
+    const findings = parseSarif(sarif([
+      { ...semgrep('src/db.py', 3), results: [...semgrep('src/db.py', 3).results, ...semgrep('src/reports.py', 4).results] },
+      {
+        tool: { driver: { name: 'Semgrep OSS', rules: [{ id: 'py.xss', properties: { tags: ['CWE-79: XSS'] } }, { id: 'py.ssrf', properties: { tags: ['CWE-918: SSRF'] } }] } },
+        results: [
+          { ruleId: 'py.xss', message: { text: 'xss' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'src/web.py' }, region: { startLine: 3 } } }] },
+          { ruleId: 'py.ssrf', message: { text: 'ssrf' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'src/web.py' }, region: { startLine: 3 } } }] },
+          { ruleId: 'py.xss', message: { text: 'xss' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'src/admin.py' }, region: { startLine: 1 } } }] },
+        ],
+      },
+    ]), root).findings;
+
+    expect((await place(findings)).map(m => [m.file, m.line, m.status, m.asset, m.threat, m.exposure?.line])).toEqual([
+      ['src/db.py', 3, 'unmitigated', '#db', '#sqli', 1],
+      ['src/reports.py', 4, 'mitigated', '#reports', '#sqli', 1],
+      // Modelled threat, annotated asset, no @exposes: the coverage index still answers.
+      ['src/web.py', 3, 'unmitigated', '#web', '#xss', undefined],
+      ['src/web.py', 3, 'unmodelled', '#web', undefined, undefined],
+      // Modelled threat, but nothing annotated in the file to cover it.
+      ['src/admin.py', 1, 'unmitigated', undefined, '#xss', undefined],
+    ]);
+  });
+
+  it('saves one file per tool, and reads back the finding rather than the old status', async () => {
+    const { findings } = parseSarif(sarif([semgrep('src/db.py', 3)]), root);
+    expect(await saveScannerFindings(root, await place(findings))).toEqual(['.guardlink/scanner-findings/semgrep-oss.json']);
+    const saved = JSON.parse(await readFile(join(root, '.guardlink', 'scanner-findings', 'semgrep-oss.json'), 'utf-8'));
+    expect(saved).toMatchObject({ version: '1', tool: 'Semgrep OSS', findings: [{ status: 'unmitigated' }] });
+
+    // Mitigated after the import: the dashboard shows the status as of now.
+    const db = await readFile(join(root, 'src', 'db.py'), 'utf-8');
+    await writeFile(join(root, 'src', 'db.py'), db.replace('def search(q):', '# @mitigates #db against #sqli using #prepared\ndef search(q):'));
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(matchScannerFindings(model, loadScannerFindings(root))[0].status).toBe('mitigated');
+
+    const html = generateDashboardHTML(model, root);
+    expect(html).toContain('Scanner Findings (1)');
+    expect(html).toContain('Mitigated exposure');
+  });
+
+  it('empties a tool\'s file when its next scan comes back clean', async () => {
+    await saveScannerFindings(root, await place(parseSarif(sarif([semgrep('src/db.py', 3)]), root).findings));
+    expect(loadScannerFindings(root)).toHaveLength(1);
+
+    const clean = parseSarif(sarif([{ ...semgrep('src/db.py', 3), results: [] }]), root);
+    expect(clean).toEqual({ tools: ['Semgrep OSS'], findings: [] });
+    expect(await saveScannerFindings(root, await place(clean.findings), clean.tools))
+      .toEqual(['.guardlink/scanner-findings/semgrep-oss.json']);
+    expect(loadScannerFindings(root)).toEqual([]);
+  });
+
+  it('resolves an absolute file URI against the project root', async () => {
+    const uri = pathToFileURL(join(root, 'src', 'db.py')).href;
+    const [finding] = parseSarif(sarif([semgrep(uri, 3)]), root).findings;
+    expect(finding.file).toBe('src/db.py');
+  });
+});
@@ -14,7 +14,7 @@ import { describe, it, expect, beforeAll } from 'vitest';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import { parseProject } from '../src/parser/parse-project.js';
-import { lookup } from '../src/mcp/lookup.js';
+import { lookup } from '../src/analyzer/lookup.js';
 import { generateThreatGraph } from '../src/dashboard/index.js';
 import {
   selectSubgraph, traverseGraph, findPath, graphEdges, canonicaliser, MAX_DEPTH,
@@ -0,0 +1,220 @@
+/**
+ * Rule packs — `.guardlink/rules/*.yaml` suggestion rules a project writes
+ * itself: refused whole when anything in them is wrong, run beside the
+ * built-in patterns, and shared through the workspace.
+ */
+import { execFile } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, it, expect, afterAll } from 'vitest';
+import { parseRulePack, loadRulePacks, suggestAnnotations, suggestFromRules } from '../src/mcp/index.js';
+import { parseWorkspaceYaml, serializeWorkspaceYaml } from '../src/workspace/metadata.js';
+import type { ThreatModel } from '../src/types/index.js';
+
+const repoRoot = join(dirname(fileURLToPath(import.meta.url)), '..');
+const cli = join(repoRoot, 'src', 'cli', 'index.ts');
+const tsx = createRequire(import.meta.url).resolve('tsx/cli');
+
+const PACK = [
+  '# Acme framework rules',
+  'rules:',
+  '  - id: acme-raw-sql',
+  '    languages: [javascript, python]',
+  "    pattern: 'AcmeDb\\.raw\\((\\w+)'   # the query builder's escape hatch",
+  '    category: exposure',
+  `    annotation: '@exposes {asset} to #sqli [high] -- "AcmeDb.raw({1}) in {symbol}"'`,
+  "    reason: 'AcmeDb.raw skips the builder''s parameter binding'",
+  '    confidence: high',
+  '  - id: acme-require-auth',
+  '    languages: [typescript]',
+  `    query: "(decorator (call_expression function: (identifier) @fn (#eq? @fn \\"RequireAuth\\")) @call)"`,
+  '    category: mitigation',
+  `    annotation: '@mitigates {asset} against #broken-auth using #acme-auth -- "{call} on {symbol}"'`,
+].join('\n') + '\n';
+
+const SOURCE = [
+  'export class Orders {',
+  '  @RequireAuth("admin")',
+  '  list(id: string) {',
+  '    return AcmeDb.raw(id);',
+  '  }',
+  '}',
+].join('\n') + '\n';
+
+const temps: string[] = [];
+
+async function project(files: Record<string, string>): Promise<string> {
+  const root = await mkdtemp(join(tmpdir(), 'guardlink-rules-'));
+  temps.push(root);
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(root, path)), { recursive: true });
+    await writeFile(join(root, path), content);
+  }
+  return root;
+}
+
+afterAll(async () => {
+  await Promise.all(temps.map(t => rm(t, { recursive: true, force: true })));
+});
+
+const emptyModel = { annotations_parsed: 0 } as unknown as ThreatModel;
+
+describe('parseRulePack', () => {
+  it('reads both kinds of rule, with quoting a regular expression survives', () => {
+    const [raw, auth] = parseRulePack(PACK, 'acme.yaml');
+    expect(raw).toMatchObject({ id: 'acme-raw-sql', line: 3, languages: ['javascript', 'python'], confidence: 'high' });
+    expect(raw.pattern!.source).toBe('AcmeDb\\.raw\\((\\w+)');
+    expect(raw.reason).toBe("AcmeDb.raw skips the builder's parameter binding");
+    expect(auth.query).toBe('(decorator (call_expression function: (identifier) @fn (#eq? @fn "RequireAuth")) @call)');
+    expect(auth).toMatchObject({ confidence: 'medium', reason: 'Matched rule acme-require-auth from acme.yaml' });
+  });
+
+  it.each([
+    ['an unknown key', '    severity: high', /acme\.yaml:7: unknown key "severity"/],
+    ['an unknown language', '    languages: [cobol]', /acme\.yaml:7: unknown language "cobol"/],
+    ['both a pattern and a query', "    query: '(identifier) @id'", /acme\.yaml:2: rule x needs exactly one of "pattern:"/],
+    ['a flag that makes matching stateful', '    flags: g', /acme\.yaml:7: "flags" takes i, s and u, got "g"/],
+  ])('refuses %s', (_what, extra, message) => {
+    const pack = [
+      'rules:',
+      '  - id: x',
+      "    pattern: 'exec\\((\\w+)'",
+      '    category: exposure',
+      `    annotation: '@exposes {asset} to #cmd-injection -- "{1}"'`,
+      '    confidence: low',
+      extra,
+    ].join('\n');
+    expect(() => parseRulePack(pack, 'acme.yaml')).toThrow(message);
+  });
+
+  it('refuses an unknown placeholder and an annotation that does not parse', () => {
+    const rule = (annotation: string) => `rules:\n  - id: x\n    pattern: exec\n    category: exposure\n    annotation: '${annotation}'\n`;
+    expect(() => parseRulePack(rule('@exposes {asset} to #x -- "{1}"'), 'p.yaml')).toThrow(/p\.yaml:5: unknown placeholder \{1\} — this rule can use \{asset\}/);
+    expect(() => parseRulePack(rule('@exposes {asset} #x'), 'p.yaml')).toThrow(/p\.yaml:5: annotation does not parse as GAL — Malformed @exposes/);
+    expect(() => parseRulePack(rule('TODO {asset}'), 'p.yaml')).toThrow(/does not start with @/);
+  });
+
+  it('refuses a query for a language without a grammar', () => {
+    const pack = "rules:\n  - id: x\n    languages: [python, markup]\n    query: '(identifier) @id'\n    category: asset\n    annotation: '@asset {id}'\n";
+    expect(() => parseRulePack(pack, 'p.yaml')).toThrow(/p\.yaml:3: a query rule needs "languages:" naming grammars only/);
+  });
+});
+
+describe('suggestFromRules', () => {
+  it('fills groups, captures and the enclosing symbol, and keeps to the languages named', async () => {
+    const rules = parseRulePack(PACK, 'acme.yaml');
+    const found = await suggestFromRules('src/orders.ts', SOURCE, rules);
+    expect(found.map(s => [s.line, s.rule, s.annotation])).toEqual([
+      [2, 'acme-require-auth', `@mitigates Orders against #broken-auth using #acme-auth -- "RequireAuth('admin') on Orders"`],
+      [4, 'acme-raw-sql', '@exposes Orders to #sqli [high] -- "AcmeDb.raw(id) in Orders.list"'],
+    ]);
+
+    // javascript is the parser's id for every JS and TS extension; the query names the typescript grammar only.
+    expect((await suggestFromRules('src/orders.js', SOURCE, rules)).map(s => s.rule)).toEqual(['acme-raw-sql']);
+    expect(await suggestFromRules('src/orders.go', SOURCE, rules)).toEqual([]);
+  });
+});
+
+describe('loadRulePacks', () => {
+  it('reads the project packs and the workspace shared_rules', async () => {
+    const shared = await project({
+      'security.yaml': "rules:\n  - id: team-exec\n    pattern: 'child\\.exec'\n    category: exposure\n    annotation: '@exposes {asset} to #cmd-injection'\n",
+    });
+    const root = await project({
+      '.guardlink/rules/acme.yaml': PACK,
+      '.guardlink/rules/notes.txt': 'not a pack',
+      '.guardlink/workspace.yaml': serializeWorkspaceYaml({ workspace: 'acme', this_repo: 'orders', repos: [], shared_rules: [shared] }),
+    });
+    const rules = await loadRulePacks(root);
+    expect(rules.map(r => `${r.source}:${r.id}`)).toEqual([
+      '.guardlink/rules/acme.yaml:acme-raw-sql',
+      '.guardlink/rules/acme.yaml:acme-require-auth',
+      `${join(shared, 'security.yaml')}:team-exec`,
+    ]);
+
+    await writeFile(join(root, '.guardlink/rules/copy.yaml'), PACK);
+    await expect(loadRulePacks(root)).rejects.toThrow('.guardlink/rules/copy.yaml:3: rule id "acme-raw-sql" is already defined at .guardlink/rules/acme.yaml:3');
+  });
+
+  it('is an error when a shared path is missing, and nothing when there are no packs', async () => {
+    const root = await project({
+      '.guardlink/workspace.yaml': 'workspace: acme\nthis_repo: orders\nrepos:\nshared_rules:\n  - ../gone\n',
+    });
+    await expect(loadRulePacks(root)).rejects.toThrow('workspace.yaml shared_rules: ../gone does not exist');
+    expect(await loadRulePacks(await project({ 'src/a.ts': '' }))).toEqual([]);
+  });
+
+  it('round-trips shared_rules through workspace.yaml', () => {
+    const config = { workspace: 'acme', this_repo: 'orders', repos: [{ name: 'orders' }], shared_rules: ['../rules', '../rules-extra/web.yaml'] };
+    expect(parseWorkspaceYaml(serializeWorkspaceYaml(config))).toEqual(config);
+  });
+});
+
+describe('suggestAnnotations with rule packs', () => {
+  it('runs the rules beside the built-ins, and only on what a diff adds', async () => {
+    const root = await project({ '.guardlink/rules/acme.yaml': PACK, 'src/orders.ts': SOURCE });
+
+    const whole = await suggestAnnotations({ root, model: emptyModel, file: 'src/orders.ts' });
+    expect(whole.filter(s => s.rule).map(s => [s.line, s.rule, s.confidence])).toEqual([
+      // The file has no annotations yet, so rule suggestions lose a step of confidence as the built-ins do.
+      [4, 'acme-raw-sql', 'medium'],
+      [2, 'acme-require-auth', 'low'],
+    ]);
+
+    const diff = [
+      '--- a/src/orders.ts',
+      '+++ b/src/orders.ts',
+      '@@ -3,2 +3,3 @@',
+      '   list(id: string) {',
+      '+    return AcmeDb.raw(id);',
+      '   }',
+      '--- a/src/gone.py',
+      '+++ b/src/gone.py',
+      '@@ -0,0 +1,1 @@',
+      '+AcmeDb.raw(query)',
+    ].join('\n');
+    const added = await suggestAnnotations({ root, model: emptyModel, diff });
+    expect(added.filter(s => s.rule).map(s => [s.file, s.line, s.annotation, s.reason.startsWith('[New code]')])).toEqual([
+      ['src/orders.ts', 4, '@exposes Orders to #sqli [high] -- "AcmeDb.raw(id) in Orders.list"', true],
+      ['src/gone.py', 1, '@exposes Gone to #sqli [high] -- "AcmeDb.raw(query) in Gone"', true],
+    ]);
+  });
+
+  it('throws on an invalid pack', async () => {
+    const root = await project({ '.guardlink/rules/bad.yaml': 'rules:\n  - id: x\n', 'src/a.ts': '' });
+    await expect(suggestAnnotations({ root, model: emptyModel, file: 'src/a.ts' })).rejects.toThrow(/bad\.yaml:2: rule has no "category:"/);
+  });
+});
+
+describe('guardlink rules test', () => {
+  function guardlink(cwd: string, ...args: string[]): Promise<{ status: number; stdout: string; stderr: string }> {
+    return new Promise(resolve => {
+      execFile(process.execPath, [tsx, cli, ...args], { cwd, encoding: 'utf-8' }, (err, stdout, stderr) => {
+        const code = (err as { code?: number | string } | null)?.code;
+        resolve({ status: typeof code === 'number' ? code : err ? 1 : 0, stdout, stderr });
+      });
+    });
+  }
+
+  it('prints each suggestion, the rules that matched nothing, and fails on an invalid pack', async () => {
+    const root = await project({
+      '.guardlink/rules/acme.yaml': PACK,
+      'src/orders.py': 'def orders(q):\n    return AcmeDb.raw(q)\n',
+      'broken.yaml': "rules:\n  - id: x\n    pattern: 'exec('\n    category: exposure\n    annotation: '@exposes {asset} to #x'\n",
+    });
+    const [ok, broken] = await Promise.all([
+      guardlink(root, 'rules', 'test', 'src/orders.py'),
+      guardlink(root, 'rules', 'test', 'src/orders.py', '--pack', 'broken.yaml'),
+    ]);
+    expect(ok.status).toBe(0);
+    expect(ok.stdout).toBe('src/orders.py:2  [acme-raw-sql] high exposure\n  @exposes Orders to #sqli [high] -- "AcmeDb.raw(q) in orders"\n');
+    expect(ok.stderr).toContain('2 rule(s) from 1 pack(s) — 1 suggestion(s) in src/orders.py');
+    expect(ok.stderr).toContain('No match: acme-require-auth');
+
+    expect(broken.status).toBe(1);
+    expect(broken.stderr).toMatch(/^Error: broken\.yaml:3: Invalid regular expression/m);
+  }, 60_000);
+});
@@ -0,0 +1,237 @@
+/**
+ * Per-symbol coverage — security-relevant functions, and whether an annotation
+ * reaches each one.
+ *
+ * File coverage is satisfied by one `@comment` per file, so the property worth
+ * testing here is the one that makes this metric harder to game: an annotation
+ * covers the function it sits in or directly above, and nothing else. A
+ * class-level or file-header annotation that counted for every method would
+ * pass every other assertion in this file.
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { loadSymbolGrammars } from '../src/parser/symbols.js';
+import { findSecuritySymbols, computeSymbolCoverage } from '../src/parser/symbol-coverage.js';
+import { parseProject } from '../src/parser/parse-project.js';
+import { PARSE_CACHE_FILE } from '../src/parser/parse-cache.js';
+import { describeCoverage, normalizeCoverage } from '../src/parser/coverage.js';
+import { runCiChecks } from '../src/ci/index.js';
+import type { Annotation } from '../src/types/index.js';
+
+const SAMPLES: Record<string, string> = {
+  'routes.ts': `import express from 'express';
+import { readFile } from 'node:fs/promises';
+
+const app = express();
+
+export function register() {
+  app.get('/users/:id', async (req, res) => {
+    res.json(await db.query('SELECT * FROM users WHERE id = $1', [req.params.id]));
+  });
+}
+
+export class Auth {
+  // db.query(...) in a comment is not a query
+  check(user: string) { return user.length > 0; }
+  async verifyPassword(plain: string, hash: string) { return bcrypt.compare(plain, hash); }
+}
+
+export async function loadConfig(path: string) { return readFile(path, 'utf-8'); }
+export const sum = (a: number, b: number) => a + b;
+`,
+  'views.py': `import os
+
+@app.route('/login', methods=['POST'])
+def login():
+    return check_password(request.form['pw'])
+
+def read_report(name):
+    with open(os.path.join(REPORTS, name)) as f:
+        return f.read()
+
+def add(a, b):
+    return a + b
+`,
+  'handlers.go': `package main
+
+func (s *Server) Users(w http.ResponseWriter, r *http.Request) {
+	rows, _ := s.db.Query("SELECT id FROM users")
+	_ = rows
+}
+
+func add(a, b int) int { return a + b }
+`,
+};
+
+const classify = (file: string) =>
+  (findSecuritySymbols(SAMPLES[file], file) ?? []).map(s => [s.symbol, s.categories]);
+
+beforeAll(async () => {
+  await loadSymbolGrammars(Object.keys(SAMPLES));
+});
+
+describe('findSecuritySymbols', () => {
+  it('TypeScript: anonymous handlers count for the function around them; names and bodies both count', () => {
+    expect(classify('routes.ts')).toEqual([
+      ['register', ['route', 'database']],
+      ['Auth.verifyPassword', ['auth']],
+      ['loadConfig', ['file-io']],
+    ]);
+    // Not listed: `Auth.check`, whose only query is in a comment, and `sum`.
+  });
+
+  it('Python: decorated routes, auth helpers, and a bare open()', () => {
+    expect(classify('views.py')).toEqual([
+      ['login', ['route', 'auth']],
+      ['read_report', ['file-io']],
+    ]);
+  });
+
+  it('Go: handlers by signature, database calls by receiver', () => {
+    expect(classify('handlers.go')).toEqual([
+      ['Server.Users', ['route', 'database']],
+    ]);
+  });
+
+  it('returns null for a language with no grammar — unmeasured, not empty', () => {
+    expect(findSecuritySymbols('def login; end', 'app.rb')).toBeNull();
+  });
+});
+
+describe('computeSymbolCoverage', () => {
+  const CLASS = `export class Store {
+  // @comment -- "class-level note"
+  private root = '/srv';
+  private mode = 0o600;
+
+  read(p: string) { return readFileSync(p); }
+
+  write(p: string) {
+    return writeFileSync(p, '');
+  }
+}
+`;
+
+  /** A minimal annotation at `line` of `file` — only the location matters here. */
+  const at = (file: string, line: number) =>
+    ({ verb: 'comment', location: { file, line } }) as unknown as Annotation;
+
+  const coverage = (lines: number[]) =>
+    computeSymbolCoverage(new Map([['store.ts', findSecuritySymbols(CLASS, 'store.ts')!]]),
+      lines.map(l => at('store.ts', l)));
+
+  it('a class-level annotation covers no method', () => {
+    const c = coverage([2]);
+    expect(c.security_symbols).toBe(2);
+    expect(c.covered_security_symbols).toBe(0);
+    expect(c.uncovered_symbols!.map(u => u.symbol)).toEqual(['Store.read', 'Store.write']);
+  });
+
+  it('an annotation inside the body or just above the declaration covers it', () => {
+    expect(coverage([10]).uncovered_symbols!.map(u => u.symbol)).toEqual(['Store.read']);
+    // Two lines above `read`, across a blank line.
+    expect(coverage([4]).uncovered_symbols!.map(u => u.symbol)).toEqual(['Store.write']);
+  });
+
+  it("an annotation inside one function is not adjacent to the next", () => {
+    expect(coverage([6]).uncovered_symbols!.map(u => u.symbol)).toEqual(['Store.write']);
+  });
+
+  it('an annotation in another file covers nothing here', () => {
+    const c = computeSymbolCoverage(new Map([['store.ts', findSecuritySymbols(CLASS, 'store.ts')!]]),
+      [at('other.ts', 6)]);
+    expect(c.covered_security_symbols).toBe(0);
+  });
+
+  it('reports uncovered symbols with their file, line and categories', () => {
+    expect(coverage([]).uncovered_symbols![0]).toEqual({
+      file: 'store.ts', symbol: 'Store.read', kind: 'method', line: 6, categories: ['file-io'],
+    });
+    expect(coverage([6, 10]).symbol_coverage_percent).toBe(100);
+  });
+});
+
+describe('parseProject — symbol coverage', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-symbol-coverage-'));
+    await mkdir(join(root, '.guardlink', 'annotations', 'src'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'),
+      '// @asset App.Files (#files) -- "Files"\n// @threat Path_Traversal (#pt) [high] -- "PT"\n'
+      + 'export function readDefinitions() { return readFileSync("x"); }\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const SOURCE = `import { readFileSync, writeFileSync } from 'node:fs';
+
+// @exposes #files to #pt [high] -- "caller-supplied path"
+export function load(p: string) { return readFileSync(p); }
+
+export function store(p: string) { writeFileSync(p, ''); }
+`;
+
+  it('counts source files and leaves definitions out of the denominator', async () => {
+    await writeFile(join(root, 'src', 'files.ts'), SOURCE);
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.coverage).toMatchObject({
+      security_symbols: 2, covered_security_symbols: 1, symbol_coverage_percent: 50,
+    });
+    expect(describeCoverage(model).symbols!.uncovered.map(u => `${u.file}:${u.symbol}`))
+      .toEqual(['src/files.ts:store']);
+  });
+
+  it('a sidecar covers the same symbols as the inline annotation it replaces', async () => {
+    await writeFile(join(root, 'src', 'files.ts'), SOURCE.replace(/\/\/ @exposes.*\n/, '\n'));
+    await writeFile(join(root, '.guardlink', 'annotations', 'src', 'files.ts.gal'),
+      '@source file:src/files.ts line:4 symbol:load\n@exposes #files to #pt [high] -- "caller-supplied path"\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.coverage.covered_security_symbols).toBe(1);
+    expect(model.coverage.uncovered_symbols!.map(u => u.symbol)).toEqual(['store']);
+  });
+
+  it('is absent, not 0%, when no file has a grammar', async () => {
+    await rm(join(root, '.guardlink', 'definitions.ts'));
+    await writeFile(join(root, '.guardlink', 'definitions.rb'),
+      '# @asset App.Files (#files) -- "Files"\n');
+    await writeFile(join(root, 'src', 'files.rb'), 'def load(p) File.read(p) end\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(Object.keys(model.coverage).sort()).toEqual(['annotation_count', 'coverage_percent']);
+    expect(describeCoverage(model).symbols).toBeNull();
+  });
+
+  it('is stored in the parse cache and served from it', async () => {
+    await writeFile(join(root, 'src', 'files.ts'), SOURCE);
+    await parseProject({ root, project: 'p', cache: true });
+    const doc = JSON.parse(await readFile(join(root, PARSE_CACHE_FILE), 'utf-8'));
+    expect(doc.entries['src/files.ts'].security_symbols.map((s: { symbol: string }) => s.symbol))
+      .toEqual(['load', 'store']);
+
+    doc.entries['src/files.ts'].security_symbols.pop();
+    await writeFile(join(root, PARSE_CACHE_FILE), JSON.stringify(doc));
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.coverage.security_symbols).toBe(1);
+  });
+
+  it('survives a round trip through report JSON', async () => {
+    await writeFile(join(root, 'src', 'files.ts'), SOURCE);
+    const { model } = await parseProject({ root, project: 'p' });
+    const reread = normalizeCoverage(JSON.parse(JSON.stringify(model)));
+    expect(reread.coverage).toEqual(model.coverage);
+  });
+
+  it('a CI floor on an unmeasured repo fails rather than passing', async () => {
+    await writeFile(join(root, 'src', 'files.rb'), 'def load(p) File.read(p) end\n');
+    await rm(join(root, '.guardlink', 'definitions.ts'));
+    const { model } = await parseProject({ root, project: 'p' });
+    const report = await runCiChecks(root, model, { minSymbolCoverage: 10 });
+    expect(report.summary.symbol_coverage).toEqual({ covered: null, total: null, percent: null, floor: 10, passed: false });
+    expect(report.summary.exit_code).toBe(1);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Symbol index — enclosing function, method or class for every annotation.
+ *
+ * One fixture per bundled grammar, because each names its declarations
+ * differently and a walker that only knew TypeScript would pass a TypeScript-only
+ * suite. The project-level tests check the property the field exists for: the
+ * same annotation resolves to the same symbol whether it is written inline or in
+ * a `.gal` sidecar.
+ */
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { enclosingSymbol, indexSymbols, loadSymbolGrammars, symbolLanguage } from '../src/parser/symbols.js';
+import { parseProject } from '../src/parser/parse-project.js';
+import { PARSE_CACHE_FILE } from '../src/parser/parse-cache.js';
+
+const SAMPLES: Record<string, string> = {
+  'auth.ts': `import x from 'y';
+
+/** Session handling. */
+export class Auth {
+  // @exposes here
+  login(user: string) { return user; }
+  logout = async () => true;
+}
+export const verify = (t: string) => t;
+`,
+  'views.py': `import os
+
+# Index page
+@app.route('/')
+def index():
+    """Docstring."""
+    return 1
+
+class Store:
+    def get(self):
+        return 1
+`,
+  'server.go': `package main
+
+// Server serves.
+type Server struct{ addr string }
+
+// Handle handles.
+func (s *Server) Handle() {}
+`,
+  'App.java': `package app;
+
+/** App. */
+public class App {
+  /** Run it. */
+  @Override
+  public void run() {}
+}
+`,
+  'store.rs': `/// A store.
+#[derive(Debug)]
+pub struct Store<T> { x: T }
+
+impl<T> Store<T> {
+    /// Read.
+    pub fn get(&self) -> i32 { 1 }
+}
+`,
+};
+
+const table = (file: string) =>
+  (indexSymbols(SAMPLES[file], file) ?? []).map(s => [s.kind, s.qualified_name, s.doc_line, s.line, s.end_line]);
+
+beforeAll(async () => {
+  await loadSymbolGrammars(Object.keys(SAMPLES));
+});
+
+describe('indexSymbols', () => {
+  it('TypeScript: classes, methods, arrow-function fields and consts', () => {
+    expect(table('auth.ts')).toEqual([
+      ['class', 'Auth', 3, 4, 8],
+      ['method', 'Auth.login', 5, 6, 6],
+      ['method', 'Auth.logout', 7, 7, 7],
+      ['function', 'verify', 9, 9, 9],
+    ]);
+  });
+
+  it('Python: decorators widen the span, methods qualify by class', () => {
+    expect(table('views.py')).toEqual([
+      ['function', 'index', 3, 4, 7],
+      ['class', 'Store', 9, 9, 11],
+      ['method', 'Store.get', 10, 10, 11],
+    ]);
+  });
+
+  it('Go: struct types, and methods qualified by their receiver', () => {
+    expect(table('server.go')).toEqual([
+      ['class', 'Server', 3, 4, 4],
+      ['method', 'Server.Handle', 6, 7, 7],
+    ]);
+  });
+
+  it('Java: Javadoc and annotations belong to the method', () => {
+    expect(table('App.java')).toEqual([
+      ['class', 'App', 3, 4, 8],
+      ['method', 'App.run', 5, 6, 7],
+    ]);
+  });
+
+  it('Rust: attributes count as leading, impl blocks qualify their functions', () => {
+    expect(table('store.rs')).toEqual([
+      ['class', 'Store', 1, 3, 3],
+      ['method', 'Store.get', 6, 7, 7],
+    ]);
+  });
+
+  it('returns null for a language with no grammar', () => {
+    expect(symbolLanguage('app.rb')).toBeNull();
+    expect(indexSymbols('def x; end', 'app.rb')).toBeNull();
+  });
+});
+
+describe('enclosingSymbol', () => {
+  const symbols = () => indexSymbols(SAMPLES['auth.ts'], 'auth.ts')!;
+
+  it('prefers the innermost symbol', () => {
+    expect(enclosingSymbol(symbols(), 5)?.qualified_name).toBe('Auth.login');
+    expect(enclosingSymbol(symbols(), 8)?.qualified_name).toBe('Auth');
+  });
+
+  it('attributes a doc comment to the declaration below it', () => {
+    expect(enclosingSymbol(symbols(), 3)?.qualified_name).toBe('Auth');
+  });
+
+  it('leaves a line outside every declaration unattributed', () => {
+    expect(enclosingSymbol(symbols(), 1)).toBeNull();
+    expect(enclosingSymbol(symbols(), 2)).toBeNull();
+  });
+});
+
+describe('parseProject — enclosing_symbol', () => {
+  let root: string;
+
+  const SOURCE = `import db from './db';
+
+/**
+ * @exposes #api to #sqli [high] -- "raw query"
+ */
+export function findUser(id: string) {
+  return db.query(id);
+}
+`;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-symbols-'));
+    await mkdir(join(root, '.guardlink', 'annotations', 'src'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'),
+      '// @asset App.API (#api) -- "API"\n// @threat SQL_Injection (#sqli) [high] -- "SQL"\n');
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('records the function an inline annotation documents', async () => {
+    await writeFile(join(root, 'src', 'users.ts'), SOURCE);
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.exposures[0].location.enclosing_symbol).toBe('findUser');
+    // Module-level declarations sit outside every symbol.
+    expect(model.assets[0].location.enclosing_symbol).toBeNull();
+  });
+
+  it('resolves a sidecar annotation from the source it names, agreeing with inline', async () => {
+    await writeFile(join(root, 'src', 'users.ts'), SOURCE.replace(/\/\*\*[^]*?\*\/\n/, ''));
+    await writeFile(join(root, '.guardlink', 'annotations', 'src', 'users.ts.gal'),
+      '@source file:src/users.ts line:3\n@exposes #api to #sqli [high] -- "raw query"\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.exposures[0].location.enclosing_symbol).toBe('findUser');
+    // Derived, never authored: no anchor appears that the sidecar did not write.
+    expect(model.exposures[0].location.parent_symbol).toBeNull();
+  });
+
+  it('is absent, not null, for a file with no grammar', async () => {
+    await writeFile(join(root, 'src', 'users.rb'), '# @exposes #api to #sqli [high] -- "raw query"\ndef find; end\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.exposures[0].location).not.toHaveProperty('enclosing_symbol');
+  });
+
+  it('is stored in the parse cache and served from it', async () => {
+    await writeFile(join(root, 'src', 'users.ts'), SOURCE);
+    await parseProject({ root, project: 'p', cache: true });
+    const doc = JSON.parse(await readFile(join(root, PARSE_CACHE_FILE), 'utf-8'));
+    expect(doc.entries['src/users.ts'].annotations[0].location.enclosing_symbol).toBe('findUser');
+
+    doc.entries['src/users.ts'].annotations[0].location.enclosing_symbol = 'fromCache';
+    await writeFile(join(root, PARSE_CACHE_FILE), JSON.stringify(doc));
+    const { model } = await parseProject({ root, project: 'p', cache: true });
+    expect(model.exposures[0].location.enclosing_symbol).toBe('fromCache');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * `@template` / `@apply` — one bundle of annotations, written once and applied
+ * per route handler.
+ *
+ * What matters is that an application is indistinguishable from writing the
+ * bundle out by hand, except in the one field that says where it came from:
+ * the model, the anchor and the mode report all see the `@apply` site, and
+ * `origin_file` / `origin_line` lead back to the template line.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseString } from '../src/parser/parse-file.js';
+import { parseProject } from '../src/parser/parse-project.js';
+import { findTemplateErrors } from '../src/parser/validate.js';
+import { detectAnnotationMode } from '../src/parser/annotation-mode.js';
+import { clearAnnotations } from '../src/parser/clear.js';
+import type { TemplateAnnotation, ApplyAnnotation } from '../src/types/index.js';
+
+const TEMPLATES = [
+  '// @template route(asset, handler) -- "Standard route bundle"',
+  '//   @exposes $asset to #idor [high] -- "${handler} reads an id from the path"',
+  '//   @mitigates $asset against #idor using #authz',
+  '//   -- "ownership checked in $handler, not $HOME"',
+  '//   @flows User -> $asset via $handler',
+  '// @template:end',
+  '',
+].join('\n');
+
+const DEFINITIONS = [
+  '// @asset Api.Orders (#orders) -- "Orders"',
+  '// @threat IDOR (#idor) [high] -- "Insecure direct object reference"',
+  '// @control Authz (#authz) -- "Ownership check"',
+  '',
+].join('\n');
+
+describe('parsing @template and @apply', () => {
+  it('keeps a template body as text, and does not read it as annotations', () => {
+    const result = parseString(TEMPLATES, 'templates.ts');
+    expect(result.diagnostics).toEqual([]);
+    expect(result.annotations).toHaveLength(1);
+    const template = result.annotations[0] as TemplateAnnotation;
+    expect(template).toMatchObject({ verb: 'template', name: 'route', params: ['asset', 'handler'], description: 'Standard route bundle' });
+    expect(template.body.map(l => l.line)).toEqual([2, 3, 4, 5]);
+    expect(template.body[0].text).toBe('@exposes $asset to #idor [high] -- "${handler} reads an id from the path"');
+  });
+
+  it('reads arguments as tokens, or quoted when they hold spaces or commas', () => {
+    const apply = parseString('// @apply route(#orders, "list, then filter") -- "GET /orders"\n', 'a.ts')
+      .annotations[0] as ApplyAnnotation;
+    expect(apply).toMatchObject({ verb: 'apply', template: 'route', args: ['#orders', 'list, then filter'], description: 'GET /orders' });
+  });
+
+  it('leaves JSDoc @template alone', () => {
+    const result = parseString('/**\n * @template T\n * @template {string} K - key type\n */\n', 'a.ts');
+    expect(result.annotations).toEqual([]);
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('reports a template with no end, and an end with no template', () => {
+    const open = parseString('// @template route(asset)\n//   @audit $asset\nconst x = 1;\n', 'a.ts');
+    expect(open.diagnostics.map(d => [d.code, d.line])).toEqual([['malformed-annotation', 1]]);
+    expect(open.diagnostics[0].message).toContain('no @template:end');
+
+    const stray = parseString('// @template:end\n', 'a.ts');
+    expect(stray.diagnostics[0].message).toContain('no @template open');
+  });
+
+  it('errors on a parameter list that does not parse, and on a malformed @apply', () => {
+    const diags = parseString('// @template route(asset,)\n// @apply route(#a\n', 'a.ts').diagnostics;
+    expect(diags.map(d => [d.code, d.level, d.line])).toEqual([
+      ['malformed-annotation', 'error', 1],
+      ['malformed-annotation', 'error', 2],
+    ]);
+  });
+});
+
+describe('expanding applications across a project', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'guardlink-templates-'));
+    await mkdir(join(root, '.guardlink'), { recursive: true });
+    await mkdir(join(root, 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'definitions.ts'), DEFINITIONS);
+    await writeFile(join(root, '.guardlink', 'templates.ts'), TEMPLATES);
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('expands at the @apply site, pointing back at the template line', async () => {
+    await writeFile(join(root, 'src', 'orders.ts'), [
+      'export class Orders {',
+      '  // @apply route(#orders, Orders.get)',
+      '  get(id: string) { return id; }',
+      '}',
+      '',
+    ].join('\n'));
+    const { model, diagnostics } = await parseProject({ root, project: 'p' });
+    expect(diagnostics).toEqual([]);
+
+    expect(model.exposures).toHaveLength(1);
+    expect(model.exposures[0]).toMatchObject({
+      asset: '#orders', threat: '#idor', severity: 'high',
+      description: 'Orders.get reads an id from the path',
+      location: { file: 'src/orders.ts', line: 2, origin_file: '.guardlink/templates.ts', origin_line: 2, template: 'route' },
+    });
+    expect(model.mitigations[0]).toMatchObject({
+      control: '#authz', description: 'ownership checked in Orders.get, not $HOME',
+      location: { origin_line: 3 },
+    });
+    expect(model.flows[0]).toMatchObject({ source: 'User', target: '#orders', mechanism: 'Orders.get' });
+    expect(model.exposures[0].location.enclosing_symbol).toBe('Orders.get');
+    expect(model.applications).toHaveLength(1);
+    expect(model.templates?.map(t => t.name)).toEqual(['route']);
+
+    // Written inline, and the template's file is no sidecar.
+    expect(detectAnnotationMode(model).mode).toBe('inline');
+  });
+
+  it('expands an @apply written in a sidecar at the @source it sits under', async () => {
+    await writeFile(join(root, 'src', 'orders.ts'), 'export function get() {}\n');
+    await mkdir(join(root, '.guardlink', 'annotations', 'src'), { recursive: true });
+    await writeFile(join(root, '.guardlink', 'annotations', 'src', 'orders.ts.gal'),
+      '@source file:src/orders.ts line:1 symbol:get\n@apply route(#orders, get)\n');
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.exposures[0].location).toMatchObject({ file: 'src/orders.ts', line: 1, parent_symbol: 'get', template: 'route' });
+    expect(model.applications?.[0].location.origin_file).toBe('.guardlink/annotations/src/orders.ts.gal');
+    expect(detectAnnotationMode(model).mode).toBe('external');
+  });
+
+  it('validate reports an unknown template, a wrong argument count and a duplicate name', async () => {
+    await writeFile(join(root, 'src', 'orders.ts'), [
+      '// @apply rout(#orders, get)',
+      '// @apply route(#orders)',
+      '// @template route(asset)',
+      '// @template:end',
+      '',
+    ].join('\n'));
+    const { model } = await parseProject({ root, project: 'p' });
+    expect(model.exposures).toEqual([]);
+    expect(findTemplateErrors(model).map(d => [d.code, d.file, d.line])).toEqual([
+      ['duplicate-template', 'src/orders.ts', 3],
+      ['unknown-template', 'src/orders.ts', 1],
+      ['template-arity', 'src/orders.ts', 2],
+    ]);
+  });
+
+  it('reports a template line that does not parse once expanded, at the @apply', async () => {
+    await writeFile(join(root, '.guardlink', 'templates.ts'),
+      '// @template broken(asset)\n//   @exposes $asset to\n// @template:end\n');
+    await writeFile(join(root, 'src', 'orders.ts'), '// @apply broken(#orders)\n');
+    const { diagnostics } = await parseProject({ root, project: 'p' });
+    expect(diagnostics.map(d => [d.code, d.file, d.line])).toEqual([['malformed-annotation', 'src/orders.ts', 1]]);
+    expect(diagnostics[0].message).toContain('.guardlink/templates.ts:2');
+  });
+
+  it('clear removes templates and applications, and leaves JSDoc @template', async () => {
+    await writeFile(join(root, 'src', 'orders.ts'),
+      '/** @template T */\n// @apply route(#orders, get)\nexport function get<T>() {}\n');
+    await writeFile(join(root, 'src', 'templates.ts'), TEMPLATES);
+    await clearAnnotations({ root });
+    expect(await readFile(join(root, 'src', 'orders.ts'), 'utf-8')).toBe('/** @template T */\nexport function get<T>() {}\n');
+    expect((await readFile(join(root, 'src', 'templates.ts'), 'utf-8')).trim()).toBe('');
+  });
+});
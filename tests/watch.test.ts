@@ -0,0 +1,132 @@
+/**
+ * Watch mode — the live model moves when files do, and each update reports
+ * what the save changed, in the words `diffModels` and `validate` already use.
+ *
+ * The watcher is driven through `refresh()` rather than by waiting on
+ * filesystem events, so these tests do not depend on inotify timing. One case
+ * does exercise the real event path end to end, with a generous timeout.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { startWatch, formatWatchUpdate, type ModelWatcher, type WatchUpdate } from '../src/watch/index.js';
+import { createServer } from '../src/mcp/server.js';
+
+const DEFINITIONS = `// @asset App.Auth (#auth) -- "Login"
+// @threat SQL_Injection (#sqli) [high] -- "SQL"
+// @control Prepared_Statements (#prepared) -- "Bound parameters"
+`;
+
+const exposed = (extra = '') => `/**
+ * @exposes #auth to #sqli [high] -- "raw query"${extra}
+ */
+export const login = () => true;
+`;
+
+let root: string;
+let watcher: ModelWatcher | null;
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'guardlink-watch-'));
+  await mkdir(join(root, '.guardlink'), { recursive: true });
+  await mkdir(join(root, 'src'), { recursive: true });
+  await writeFile(join(root, '.guardlink', 'definitions.ts'), DEFINITIONS);
+  await writeFile(join(root, 'src', 'auth.ts'), exposed());
+  watcher = null;
+});
+
+afterEach(async () => {
+  watcher?.close();
+  await rm(root, { recursive: true, force: true });
+});
+
+describe('startWatch', () => {
+  it('parses once on start', async () => {
+    watcher = await startWatch({ root, poll: true, pollMs: 60_000 });
+    expect(watcher.current().model.exposures).toHaveLength(1);
+    expect(watcher.current().annotationHash).toMatch(/^sha256-v\d+:/);
+  });
+
+  it('reports nothing when nothing the model can see moved', async () => {
+    watcher = await startWatch({ root, poll: true, pollMs: 60_000 });
+    await writeFile(join(root, 'src', 'auth.ts'), exposed() + '\n// plain comment\n');
+    expect(await watcher.refresh()).toBeNull();
+  });
+
+  it('reports a mitigation as a resolved exposure and a model change', async () => {
+    watcher = await startWatch({ root, poll: true, pollMs: 60_000 });
+    const seen: WatchUpdate[] = [];
+    watcher.subscribe(u => seen.push(u));
+
+    await writeFile(join(root, 'src', 'auth.ts'),
+      exposed('\n * @mitigates #auth against #sqli using #prepared -- "bound"'));
+    const update = await watcher.refresh();
+
+    expect(update).not.toBeNull();
+    expect(update!.resolvedUnmitigated).toHaveLength(1);
+    expect(update!.newUnmitigated).toHaveLength(0);
+    expect(update!.diff.mitigations.map(c => c.kind)).toEqual(['added']);
+    expect(update!.annotationHash).not.toBe(update!.previousHash);
+    expect(seen).toEqual([update]);
+    expect(watcher.current().model.mitigations).toHaveLength(1);
+  });
+
+  it('reports a new dangling ref, then its fix', async () => {
+    watcher = await startWatch({ root, poll: true, pollMs: 60_000 });
+
+    await writeFile(join(root, 'src', 'auth.ts'), exposed().replace('#sqli', '#sqlx'));
+    const broken = await watcher.refresh();
+    expect(broken!.newDanglingRefs.map(d => d.message).join(' ')).toContain('#sqlx');
+
+    await writeFile(join(root, 'src', 'auth.ts'), exposed());
+    const fixed = await watcher.refresh();
+    expect(fixed!.resolvedDanglingRefs.map(d => d.message).join(' ')).toContain('#sqlx');
+    expect(fixed!.newDanglingRefs).toHaveLength(0);
+  });
+
+  it('formats an update with the new exposure first', async () => {
+    await writeFile(join(root, 'src', 'auth.ts'), 'export const login = () => true;\n');
+    watcher = await startWatch({ root, poll: true, pollMs: 60_000 });
+
+    await writeFile(join(root, 'src', 'auth.ts'), exposed());
+    const text = formatWatchUpdate((await watcher.refresh())!, new Date(2026, 0, 1, 9, 30, 0));
+
+    const lines = text.split('\n');
+    expect(lines[0]).toBe('[09:30:00] change detected');
+    expect(lines[1]).toContain('new unmitigated: #auth → #sqli [high] (src/auth.ts:2)');
+  });
+
+  it('picks up a save through the real event or polling path', async () => {
+    watcher = await startWatch({ root, debounceMs: 20, pollMs: 100 });
+    const next = new Promise<WatchUpdate>(res => watcher!.subscribe(res));
+    await writeFile(join(root, 'src', 'auth.ts'), exposed().replace('high', 'critical'));
+
+    const update = await next;
+    expect(update.diff.exposures[0].details).toContain('severity: high → critical');
+  }, 15_000);
+});
+
+describe('MCP server with watch', () => {
+  it('answers from the live model and sees its own writes', async () => {
+    const server = createServer({ watch: true });
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    try {
+      const status = async () => JSON.parse((await client.callTool({
+        name: 'guardlink_status', arguments: { root },
+      }) as any).content[0].text);
+
+      expect((await status()).unmitigated).toHaveLength(1);
+
+      await client.callTool({ name: 'guardlink_clear', arguments: { root, dry_run: false } });
+      expect((await status()).unmitigated).toHaveLength(0);
+    } finally {
+      await client.close();
+    }
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * The YAML subset policy.yaml and rule packs share. Quoting is tested here,
+ * once, because both files now read it the same way; what a key means is left
+ * to ci.test.ts and suggest-rules.test.ts.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseRuleList } from '../src/parser/yaml-subset.js';
+import { parsePolicy } from '../src/ci/policy.js';
+import { parseRulePack } from '../src/mcp/index.js';
+
+const values = (content: string) =>
+  parseRuleList(content, 'x.yaml', 'id').map(item => Object.fromEntries([...item.fields].map(([k, f]) => [k, f.value])));
+
+describe('parseRuleList', () => {
+  it('splits a flow list only on commas outside quotes', () => {
+    expect(values(`rules:
+  - a: ['x, y', z]
+    b: ["p, \\"q\\"", 'it''s, fine', r]
+    c: [one, two]
+`)).toEqual([{ a: ['x, y', 'z'], b: ['p, "q"', "it's, fine", 'r'], c: ['one', 'two'] }]);
+  });
+
+  it('keeps a # inside quotes and drops a trailing comment', () => {
+    expect(values(`rules:
+  - a: 'C# # not a comment'   # a comment
+    b: "x#y"
+`)).toEqual([{ a: 'C# # not a comment', b: 'x#y' }]);
+  });
+
+  it('refuses an unterminated quote, naming the line', () => {
+    expect(() => values(`rules:\n  - a: [ok, 'open]\n`)).toThrow('x.yaml:2: unterminated single quote');
+  });
+
+  it('reads a quoted comma the same for a policy and a rule pack', () => {
+    const policy = parsePolicy(`rules:\n  - check: unmitigated-exposures\n    severity: ['critical', "high"]\n`, 'policy.yaml');
+    expect(policy.rules[0].severity).toEqual(['critical', 'high']);
+    expect(() => parsePolicy(`rules:\n  - check: unmitigated-exposures\n    severity: ['critical, high']\n`, 'policy.yaml'))
+      .toThrow(/policy\.yaml:3: .*critical, high/);
+
+    const pack = (languages: string) => () => parseRulePack(`rules:
+  - id: commas
+    languages: ${languages}
+    pattern: 'x'
+    category: exposure
+    annotation: '@exposes {asset} to #sqli -- "x"'
+`, 'pack.yaml');
+    expect(pack(`['javascript', "python"]`)()[0].languages).toEqual(['javascript', 'python']);
+    expect(pack(`['javascript, python']`)).toThrow(/pack\.yaml:3: .*javascript, python/);
+  });
+});